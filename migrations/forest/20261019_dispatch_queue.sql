@@ -0,0 +1,23 @@
+-- Persistent dispatch queue
+-- Queued agent dispatches survive relay restarts; rehydrated at boot.
+-- Rows are deleted when the dispatch is drained, cancelled or expires.
+
+CREATE TABLE IF NOT EXISTS dispatch_queue (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  agent_type TEXT NOT NULL,
+  work_item_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  message TEXT,
+  priority TEXT NOT NULL DEFAULT 'normal'
+    CHECK (priority IN ('urgent', 'high', 'normal', 'low')),
+  reason TEXT NOT NULL DEFAULT 'lock'
+    CHECK (reason IN ('lock', 'capacity')),
+  enqueued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sort_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  payload JSONB NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispatch_queue_work_item ON dispatch_queue(work_item_id);
+CREATE INDEX IF NOT EXISTS idx_dispatch_queue_expires ON dispatch_queue(expires_at) WHERE expires_at IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Attribute-based access policies (src/access-policy.ts)
+-- One row per policy document; version only moves forward.
+
+CREATE TABLE IF NOT EXISTS rbac_policies (
+  name TEXT PRIMARY KEY,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  document JSONB NOT NULL,
+  updated_by UUID REFERENCES rbac_entities(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rbac_policies_enabled ON rbac_policies(enabled) WHERE enabled;
@@ -0,0 +1,27 @@
+-- Scheduled task catch-up policy
+-- What the scheduler does with runs missed while the relay was down:
+--   skip     — drop them; only an on-time run proceeds
+--   run_once — run once for all of them (previous behaviour)
+--   run_all  — replay the most recent catch_up_max of them, oldest first
+--
+-- Schedules are now evaluated in each task's `timezone`; before this they
+-- were evaluated in UTC whatever the column said. Existing tasks are pinned
+-- to UTC so they keep firing at the same instants (new tasks still default
+-- to America/Chicago). Guarded on catch_up so a re-run leaves timezones
+-- changed since alone.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scheduled_tasks' AND column_name = 'catch_up'
+  ) THEN
+    UPDATE scheduled_tasks SET timezone = 'UTC';
+  END IF;
+END $$;
+
+ALTER TABLE scheduled_tasks
+  ADD COLUMN IF NOT EXISTS catch_up TEXT NOT NULL DEFAULT 'run_once'
+    CHECK (catch_up IN ('skip', 'run_once', 'run_all')),
+  ADD COLUMN IF NOT EXISTS catch_up_max INTEGER NOT NULL DEFAULT 10
+    CHECK (catch_up_max BETWEEN 1 AND 100);
@@ -0,0 +1,18 @@
+-- Webhook verification
+-- Optional HMAC-SHA256 request signing with a replay window, per-webhook
+-- payload JSON schema, and a source IP allowlist (IPs or CIDR ranges).
+-- Each invocation records which checks passed, failed or were skipped.
+
+ALTER TABLE webhook_triggers
+  -- When set, requests must carry X-Webhook-Timestamp + X-Webhook-Signature
+  ADD COLUMN IF NOT EXISTS signing_secret TEXT,
+  ADD COLUMN IF NOT EXISTS signature_tolerance_seconds INTEGER NOT NULL DEFAULT 300
+    CHECK (signature_tolerance_seconds BETWEEN 1 AND 3600),
+  -- JSON schema the payload must satisfy before it is merged into config
+  ADD COLUMN IF NOT EXISTS payload_schema JSONB,
+  -- Empty = any source
+  ADD COLUMN IF NOT EXISTS allowed_ips TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE webhook_invocations
+  -- { ip_allowlist, signature, timestamp, replay, schema } → passed | failed | skipped
+  ADD COLUMN IF NOT EXISTS checks JSONB NOT NULL DEFAULT '{}';
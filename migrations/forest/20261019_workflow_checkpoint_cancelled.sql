@@ -0,0 +1,6 @@
+-- Cancelled workflow steps and instances
+-- A parallel step with join "any" aborts its losing branches once one
+-- completes; their child instances and in-flight checkpoints end as
+-- 'cancelled' rather than running on or being reported as failed.
+
+ALTER TYPE workflow_checkpoint_status ADD VALUE IF NOT EXISTS 'cancelled';
@@ -0,0 +1,40 @@
+-- Agent audit log: tamper-evident hash chain
+--
+-- Each entry links to its predecessor in its chain (company_id, or 'global'):
+--   entry_hash = sha256(prev_hash || content_hash)   (hex; see src/audit-chain.ts)
+-- Entries written before this migration keep the chain columns NULL and are
+-- pruned by retention as before.
+--
+-- Retention deletes the start of a chain only together with a signed
+-- checkpoint recording the last deleted seq and its entry_hash, so the
+-- first surviving entry still links to something verifiable.
+
+ALTER TABLE agent_audit_log ADD COLUMN IF NOT EXISTS chain_key TEXT;
+ALTER TABLE agent_audit_log ADD COLUMN IF NOT EXISTS seq INTEGER;
+ALTER TABLE agent_audit_log ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE agent_audit_log ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+
+-- Concurrent appends on the same seq conflict here and are retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_chain_seq
+  ON agent_audit_log(chain_key, seq)
+  WHERE seq IS NOT NULL;
+
+-- ============================================================
+-- CHECKPOINTS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS agent_audit_checkpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_key TEXT NOT NULL,
+  through_seq INTEGER NOT NULL,
+  through_hash TEXT NOT NULL,
+  deleted_count INTEGER NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL,
+  key_fingerprint TEXT NOT NULL,
+  -- Base64 Ed25519 signature (AUDIT_CHECKPOINT_KEY)
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (chain_key, through_seq)
+);
+
+ALTER TABLE agent_audit_checkpoints ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for service role" ON agent_audit_checkpoints FOR ALL USING (true);
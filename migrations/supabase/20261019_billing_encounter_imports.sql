@@ -0,0 +1,35 @@
+-- FHIR encounter imports
+-- Claim-ready encounters built from FHIR Bundle / NDJSON exports (src/fhir-ingest.ts).
+--
+-- patient, insurance and clinical hold PHI encrypted per field with
+-- PHI_ENCRYPTION_KEY (hipaa-compliance.ts encryptPHIFields); provider and
+-- facility are not PHI and stay plaintext.
+
+CREATE TABLE IF NOT EXISTS billing_encounter_imports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  company_id UUID NOT NULL REFERENCES companies(id),
+  fhir_encounter_id TEXT NOT NULL,
+  encounter_id TEXT NOT NULL,
+  claim_id TEXT NOT NULL,
+  encounter_date DATE NOT NULL,
+  payer_id TEXT NOT NULL,
+
+  patient JSONB NOT NULL,
+  insurance JSONB NOT NULL,
+  clinical JSONB NOT NULL,
+  provider JSONB NOT NULL,
+  facility JSONB,
+
+  status TEXT DEFAULT 'imported' CHECK (status IN ('imported', 'submitted', 'archived'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_encounter_imports_dedup ON billing_encounter_imports(company_id, fhir_encounter_id);
+CREATE INDEX IF NOT EXISTS idx_encounter_imports_company_status ON billing_encounter_imports(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_encounter_imports_claim ON billing_encounter_imports(claim_id);
+
+-- RLS
+ALTER TABLE billing_encounter_imports ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for service role" ON billing_encounter_imports FOR ALL USING (true);
@@ -0,0 +1,41 @@
+-- Claim scrubber rules
+-- Pre-submission edits as data (src/claim-scrubber.ts). Each row is one
+-- version of a rule: changing a rule inserts a new row with a later
+-- effective_date; rows are never updated in place. The scrubber picks, per
+-- rule_key, the most specific scope (payer > payer type > state > global)
+-- and then the latest version in effect on the date of service.
+
+CREATE TABLE IF NOT EXISTS claim_scrub_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT,
+
+  rule_key TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN (
+    'procedure_pair', 'modifier_required', 'diagnosis_link',
+    'age', 'sex', 'timely_filing', 'prior_auth'
+  )),
+  description TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+  params JSONB NOT NULL DEFAULT '{}',
+  suggested_fix TEXT,
+
+  -- Scope (all NULL = every claim)
+  payer_id TEXT,
+  payer_type TEXT CHECK (payer_type IN ('commercial', 'medicare', 'medicaid', 'tricare', 'workers_comp', 'other')),
+  state_code TEXT,
+
+  effective_date DATE NOT NULL,
+  expiration_date DATE,
+  enabled BOOLEAN NOT NULL DEFAULT true
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrub_rules_key ON claim_scrub_rules(rule_key, effective_date);
+CREATE INDEX IF NOT EXISTS idx_scrub_rules_payer ON claim_scrub_rules(payer_id) WHERE payer_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scrub_rules_version ON claim_scrub_rules(
+  rule_key, COALESCE(payer_id, ''), COALESCE(payer_type, ''), COALESCE(state_code, ''), effective_date
+);
+
+-- RLS
+ALTER TABLE claim_scrub_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for service role" ON claim_scrub_rules FOR ALL USING (true);
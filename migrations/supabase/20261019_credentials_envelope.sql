@@ -0,0 +1,32 @@
+-- Credential vault: envelope encryption + access audit
+-- Run against Supabase SQL editor
+--
+-- encrypted_data is now encrypted with a per-credential data key; wrapped_key
+-- holds that data key encrypted with master key version key_version.
+-- Existing rows keep wrapped_key/key_version NULL (encrypted directly with
+-- VAULT_MASTER_KEY) until `bun run vault:rotate` upgrades them.
+
+ALTER TABLE credentials ADD COLUMN IF NOT EXISTS wrapped_key TEXT;
+ALTER TABLE credentials ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_credentials_key_version ON credentials(key_version);
+
+-- One row per decryption of a credential
+CREATE TABLE IF NOT EXISTS credential_access_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  credential_id UUID NOT NULL,
+  actor TEXT NOT NULL,
+  agent TEXT,
+  purpose TEXT,
+  via TEXT NOT NULL,
+  accessed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credential_access_credential ON credential_access_log(credential_id, accessed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credential_access_actor ON credential_access_log(actor, accessed_at DESC);
+
+ALTER TABLE credential_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no UPDATE/DELETE policy
+CREATE POLICY "Insert" ON credential_access_log FOR INSERT WITH CHECK (true);
+CREATE POLICY "Read" ON credential_access_log FOR SELECT USING (true);
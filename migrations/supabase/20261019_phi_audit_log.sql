@@ -0,0 +1,30 @@
+-- PHI redaction audit log
+-- One row per redaction before output reached a log line, search index or
+-- agent prompt (phi-redaction.ts recordRedaction, persisted by
+-- phi-audit-store.ts). Read via GET /api/phi/audit.
+
+CREATE TABLE IF NOT EXISTS phi_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  actor TEXT NOT NULL,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('agent', 'human', 'system')),
+  action TEXT NOT NULL CHECK (action IN ('read', 'write', 'delete', 'export')),
+  resource_type TEXT NOT NULL,
+  resource_id TEXT NOT NULL,
+  company_id TEXT,
+  ip_address TEXT,
+  session_id TEXT,
+  phi_fields_accessed TEXT[] NOT NULL DEFAULT '{}',
+  detail TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phi_audit_occurred ON phi_audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_phi_audit_actor ON phi_audit_log(actor, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_phi_audit_resource ON phi_audit_log(resource_type, occurred_at DESC);
+
+ALTER TABLE phi_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no UPDATE/DELETE policy
+CREATE POLICY "Insert" ON phi_audit_log FOR INSERT WITH CHECK (true);
+CREATE POLICY "Read" ON phi_audit_log FOR SELECT USING (true);
@@ -0,0 +1,18 @@
+-- UMS consumer redelivery queue + dead letters
+-- Failed push deliveries are retried with backoff; after max attempts they
+-- are kept as dead letters until requeued or replayed.
+
+CREATE TABLE IF NOT EXISTS ums_consumer_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  consumer_name TEXT NOT NULL,
+  message_id UUID NOT NULL REFERENCES unified_messages(id) ON DELETE CASCADE,
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead_letter')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (consumer_name, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consumer_deliveries_status ON ums_consumer_deliveries(status, next_attempt_at);
@@ -0,0 +1,116 @@
+#!/usr/bin/env bun
+/**
+ * Email Archive Import CLI
+ *
+ * Backfills raw mail exports (.eml files, mbox archives, or directories of
+ * either) into UMS. Messages are posted to the running relay in batches so
+ * they fan out to the live push consumers (relationship, comms, summary).
+ *
+ * Usage:
+ *   bun run import:email ~/Takeout/Mail/All.mbox --source gmail-takeout
+ *   bun run import:email ./exported-eml/ --source outlook-2019 --mailbox Archive
+ *   bun run import:email ./mail.mbox --dry-run      # Parse and report, don't send
+ *
+ * Env: RELAY_URL (default http://localhost:3001)
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, basename, extname } from "path";
+import { parseEmail, splitMbox } from "../src/ums/mime.ts";
+
+const RELAY_URL = process.env.RELAY_URL || "http://localhost:3001";
+const BATCH_SIZE = 100;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const source = flag("--source");
+const mailbox = flag("--mailbox");
+const paths = args.filter((a, i) => !a.startsWith("--") && !["--source", "--mailbox"].includes(args[i - 1]));
+
+function flag(name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+if (paths.length === 0) {
+  console.error("Usage: bun run import:email <file-or-dir>... [--source label] [--mailbox name] [--dry-run]");
+  process.exit(1);
+}
+
+/** Expand paths into a list of files (directories are walked recursively). */
+function collectFiles(path: string): string[] {
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path).sort().flatMap(entry => collectFiles(join(path, entry)));
+  }
+  return [path];
+}
+
+/**
+ * Read one file as a list of raw messages — mbox archives are split, anything
+ * else is one message. Read as latin1 so 8bit bodies in any charset reach the
+ * parser as their original bytes; it decodes each part with its own charset.
+ */
+function readMessages(file: string): string[] {
+  const text = readFileSync(file, "latin1");
+  const isMbox = extname(file).toLowerCase() === ".mbox" || text.startsWith("From ");
+  return isMbox ? splitMbox(text) : [text];
+}
+
+async function postBatch(messages: string[]): Promise<{ ingested: number; skipped: number; unparseable: number }> {
+  const res = await fetch(`${RELAY_URL}/api/ums/import/email`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messages, source, mailbox }),
+    signal: AbortSignal.timeout(120_000),
+  });
+  if (!res.ok) throw new Error(`Relay returned ${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+console.log("Email Archive Import");
+console.log("====================");
+console.log(`Relay:   ${RELAY_URL}`);
+console.log(`Source:  ${source || "import"}`);
+if (dryRun) console.log("DRY RUN — nothing will be sent");
+console.log("");
+
+const totals = { files: 0, messages: 0, ingested: 0, skipped: 0, unparseable: 0, errors: 0 };
+
+for (const file of paths.flatMap(collectFiles)) {
+  const messages = readMessages(file);
+  totals.files++;
+  totals.messages += messages.length;
+  console.log(`${basename(file)}: ${messages.length} message(s)`);
+
+  if (dryRun) {
+    for (const raw of messages.slice(0, 3)) {
+      const email = parseEmail(raw);
+      console.log(`  · ${email.date ?? "(no date)"}  ${email.from[0]?.address ?? "(no sender)"}  ${email.subject ?? "(no subject)"}`);
+    }
+    continue;
+  }
+
+  for (let i = 0; i < messages.length; i += BATCH_SIZE) {
+    try {
+      const result = await postBatch(messages.slice(i, i + BATCH_SIZE));
+      totals.ingested += result.ingested;
+      totals.skipped += result.skipped;
+      totals.unparseable += result.unparseable;
+    } catch (err) {
+      totals.errors++;
+      console.error(`  ✗ batch ${i / BATCH_SIZE + 1} failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+console.log(`\nResults:`);
+console.log(`  Files:       ${totals.files}`);
+console.log(`  Messages:    ${totals.messages}`);
+if (!dryRun) {
+  console.log(`  Ingested:    ${totals.ingested}`);
+  console.log(`  Skipped:     ${totals.skipped} (duplicates or insert failures)`);
+  console.log(`  Unparseable: ${totals.unparseable}`);
+  console.log(`  Errors:      ${totals.errors}`);
+}
+
+process.exit(totals.errors > 0 ? 1 : 0);
@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+/**
+ * Hollow → Vault import — copies every credential and keychain secret from
+ * the retired Hollow store (ellie-forest) into the Supabase `credentials`
+ * table, sealed with envelope encryption under the active master key.
+ *
+ * Safe to re-run: entries already in the vault are skipped.
+ *
+ * Usage:
+ *   bun run vault:import-hollow
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { importLegacyCredentials, type CredentialType } from "../src/vault.ts";
+import { listCredentials, getCredentialById, retrieveSecret } from "../../ellie-forest/src/hollow";
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_ANON_KEY!,
+);
+
+console.log("Hollow → Vault import");
+console.log("=====================");
+console.log("");
+
+const result = await importLegacyCredentials(supabase, {
+  async listCredentials() {
+    const entries = await listCredentials({});
+    const out = [];
+    for (const entry of entries) {
+      const found = await getCredentialById(entry.id);
+      if (!found) continue;
+      out.push({
+        label: entry.label,
+        domain: entry.domain || "",
+        credential_type: (entry.credential_type || "api_key") as CredentialType,
+        payload: found.payload,
+        notes: entry.notes,
+        expires_at: entry.expires_at,
+      });
+    }
+    return out;
+  },
+  retrieveSecret,
+});
+
+console.log(`Results:`);
+console.log(`  Imported: ${result.imported}`);
+console.log(`  Skipped:  ${result.skipped}`);
+console.log(`  Failed:   ${result.failed.length}`);
+
+for (const f of result.failed) {
+  console.log(`  ✗ ${f.label}: ${f.error}`);
+}
+process.exit(result.failed.length > 0 ? 1 : 0);
@@ -0,0 +1,57 @@
+#!/usr/bin/env bun
+/**
+ * Vault Key Rotation CLI — re-wraps every credential's data key under the
+ * active master key (VAULT_ACTIVE_KEY_VERSION, default: highest configured).
+ *
+ * Safe to interrupt and re-run: credentials already on the target version
+ * are skipped. Keep the old VAULT_MASTER_KEY[_V<n>] set until a run reports
+ * nothing remaining.
+ *
+ * Usage:
+ *   bun run vault:rotate                   # Rotate everything to the active version
+ *   bun run vault:rotate --to 3            # Rotate to a specific version
+ *   bun run vault:rotate --batch 50        # Rows fetched per query (default 100)
+ *   bun run vault:rotate --max 500         # Stop after 500 rows (resume later)
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { rotateVaultKeys, getKeyVersions, getActiveKeyVersion } from "../src/vault.ts";
+
+function flag(name: string): number | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? Number(process.argv[i + 1]) : undefined;
+}
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_ANON_KEY!,
+);
+
+const toVersion = flag("--to") ?? getActiveKeyVersion();
+
+console.log("Vault Key Rotation");
+console.log("==================");
+console.log("");
+console.log(`Configured key versions: ${getKeyVersions().join(", ") || "none"}`);
+console.log(`Target version:          ${toVersion}`);
+console.log("");
+
+const result = await rotateVaultKeys(supabase, {
+  toVersion,
+  batchSize: flag("--batch"),
+  maxRows: flag("--max"),
+});
+
+console.log(`Results:`);
+console.log(`  Rotated:   ${result.rotated}`);
+console.log(`  Failed:    ${result.failed.length}`);
+console.log(`  Remaining: ${result.remaining}`);
+
+for (const f of result.failed) {
+  console.log(`  ✗ ${f.id}: ${f.error}`);
+}
+
+if (result.remaining > 0) {
+  console.log("\nRe-run to continue; keep the old master keys configured until nothing remains.");
+}
+process.exit(result.failed.length > 0 ? 1 : 0);
@@ -0,0 +1,52 @@
+#!/usr/bin/env bun
+/**
+ * Audit Bundle Verifier — checks an agent audit log export
+ * (GET /api/audit/chains/:chain/export) without access to the relay or
+ * its database: checkpoint signatures, every hash link, and the head.
+ *
+ * Pass the operator's published checkpoint key with --public-key. Without
+ * it the bundle's embedded key is used, which only proves the bundle is
+ * internally consistent.
+ *
+ * Usage:
+ *   bun run audit:verify-bundle bundle.json
+ *   bun run audit:verify-bundle bundle.json --public-key checkpoint.pub.pem
+ */
+
+import { readFileSync } from "fs";
+import { keyFingerprint, verifyAuditBundle, type AuditBundle } from "../src/audit-chain.ts";
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+const file = process.argv[2];
+if (!file || file.startsWith("--")) {
+  console.error("Usage: bun run audit:verify-bundle <bundle.json> [--public-key <pem>]");
+  process.exit(2);
+}
+
+const bundle = JSON.parse(readFileSync(file, "utf-8")) as AuditBundle;
+const keyFile = flag("--public-key");
+const publicKey = keyFile ? readFileSync(keyFile, "utf-8") : undefined;
+const result = verifyAuditBundle(bundle, publicKey);
+
+console.log("Audit Bundle Verification");
+console.log("=========================");
+console.log("");
+console.log(`Chain:        ${result.chain_key}`);
+console.log(`Exported at:  ${bundle.exported_at}`);
+console.log(`Key:          ${publicKey ? keyFingerprint(publicKey) : `${bundle.key_fingerprint ?? "none"} (embedded)`}`);
+console.log(`Checkpoints:  ${result.checkpoints}`);
+console.log(`Entries:      ${result.checked}/${bundle.entries.length} verified`);
+console.log(`Head:         seq ${result.head.seq} ${result.head.hash}`);
+console.log("");
+
+if (result.ok) {
+  console.log("✓ Chain intact");
+} else {
+  const b = result.first_break!;
+  console.log(`✗ First broken link at seq ${b.seq ?? "?"}${b.entry_id ? ` (entry ${b.entry_id})` : ""}: ${b.reason}`);
+}
+process.exit(result.ok ? 0 : 1);
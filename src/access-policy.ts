@@ -0,0 +1,429 @@
+/**
+ * Access Policy — attribute-based rules on top of RBAC
+ *
+ * Policy documents hold allow/deny rules that target "resource.action"
+ * pairs (the same vocabulary as rbac_permissions) and carry conditions
+ * on request attributes: company, work item state, time of day, tool
+ * arguments, data sensitivity and caller channel.
+ *
+ * Evaluation is deny-overrides across every enabled document: any
+ * matching deny wins, else any matching allow, else "not_applicable" and
+ * the RBAC permission check decides as before. Every decision names the
+ * rule that made it; explainPolicies() also returns why each other rule
+ * did not apply (the what-if view).
+ *
+ * Pure evaluator; documents persist in rbac_policies (forest) via the
+ * injected-SQL helpers at the bottom.
+ */
+
+import { getZonedParts } from "./timezone.ts";
+
+// Types
+
+export type PolicyEffect = "allow" | "deny";
+export type PolicyDecision = PolicyEffect | "not_applicable";
+export type DataSensitivity = "public" | "internal" | "confidential" | "phi";
+
+export const VALID_CONDITION_OPS = ["eq", "neq", "in", "not_in", "gt", "gte", "lt", "lte", "matches", "contains", "exists"] as const;
+export type ConditionOp = typeof VALID_CONDITION_OPS[number];
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { attr: string; op: ConditionOp; value?: unknown };
+
+export interface PolicyRule {
+  id: string;
+  effect: PolicyEffect;
+  description?: string;
+  /** Agent names or RBAC entity IDs; omitted or "*" = any caller. */
+  subjects?: string[];
+  /** "resource.action" patterns; a trailing "*" is a prefix wildcard ("tools.*"). */
+  targets: string[];
+  when?: PolicyCondition;
+}
+
+export interface PolicyDocument {
+  name: string;
+  version: number;
+  description?: string;
+  enabled?: boolean;
+  /** IANA zone for time.hour / time.weekday; default UTC. */
+  timezone?: string;
+  rules: PolicyRule[];
+}
+
+/** Facts about a request that conditions can test. */
+export interface PolicyAttributes {
+  company_id?: string | null;
+  work_item?: { id: string; state?: string | null } | null;
+  tool?: { name: string; args?: Record<string, unknown> } | null;
+  sensitivity?: DataSensitivity | null;
+  channel?: string | null;
+  /** Evaluation time (ISO); default now. */
+  time?: string;
+}
+
+export interface PolicyRequest {
+  subject: { agent: string; entity_id?: string | null };
+  resource: string;
+  action: string;
+  attributes?: PolicyAttributes;
+}
+
+export interface PolicyRuleRef {
+  policy: string;
+  version: number;
+  rule_id: string;
+  effect: PolicyEffect;
+  description?: string;
+}
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  /** The rule that decided; null when no rule applied. */
+  rule: PolicyRuleRef | null;
+  reason: string;
+}
+
+export interface RuleTrace extends PolicyRuleRef {
+  applies: boolean;
+  /** "matched", or the first thing that kept the rule from applying. */
+  detail: string;
+}
+
+export interface PolicyExplanation extends PolicyEvaluation {
+  attributes: Record<string, unknown>;
+  trace: RuleTrace[];
+}
+
+// Attributes
+
+/** Top-level names a condition's attr path may start with. */
+export const POLICY_ATTRIBUTE_ROOTS = ["subject", "resource", "action", "company_id", "work_item", "tool", "sensitivity", "channel", "time"] as const;
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Hour (0-23), weekday ("mon") and date (YYYY-MM-DD) of an instant in a zone. */
+export function timeAttributes(iso: string, timezone: string = "UTC"): { hour: number; weekday: string; date: string } {
+  const { year, month, day, weekday, hour } = getZonedParts(iso, timezone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return { hour, weekday: WEEKDAY_NAMES[weekday], date: `${year}-${pad(month)}-${pad(day)}` };
+}
+
+/** The attribute tree conditions are resolved against. */
+export function buildPolicyAttributes(request: PolicyRequest, timezone: string = "UTC"): Record<string, unknown> {
+  const attrs = request.attributes ?? {};
+  return {
+    subject: { agent: request.subject.agent, entity_id: request.subject.entity_id ?? null },
+    resource: request.resource,
+    action: request.action,
+    company_id: attrs.company_id ?? null,
+    work_item: attrs.work_item ?? null,
+    tool: attrs.tool ? { name: attrs.tool.name, args: attrs.tool.args ?? {} } : null,
+    sensitivity: attrs.sensitivity ?? null,
+    channel: attrs.channel ?? null,
+    time: { ...timeAttributes(attrs.time ?? new Date().toISOString(), timezone), zone: timezone },
+  };
+}
+
+function resolveAttr(attrs: Record<string, unknown>, path: string): unknown {
+  let current: unknown = attrs;
+  for (const part of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+// Matching
+
+/** "tools.*" matches "tools.use_bash"; "*" matches anything. */
+export function targetMatches(pattern: string, resource: string, action: string): boolean {
+  const target = `${resource}.${action}`;
+  if (pattern === "*" || pattern === target) return true;
+  return pattern.endsWith("*") && target.startsWith(pattern.slice(0, -1));
+}
+
+function subjectMatches(subjects: string[] | undefined, subject: PolicyRequest["subject"]): boolean {
+  if (!subjects || subjects.length === 0 || subjects.includes("*")) return true;
+  return subjects.includes(subject.agent) || (!!subject.entity_id && subjects.includes(subject.entity_id));
+}
+
+function compare(actual: unknown, op: ConditionOp, expected: unknown): boolean {
+  switch (op) {
+    case "eq": return actual === expected;
+    case "neq": return actual !== expected;
+    case "in": return Array.isArray(expected) && expected.includes(actual);
+    case "not_in": return Array.isArray(expected) && !expected.includes(actual);
+    case "gt": return typeof actual === "number" && typeof expected === "number" && actual > expected;
+    case "gte": return typeof actual === "number" && typeof expected === "number" && actual >= expected;
+    case "lt": return typeof actual === "number" && typeof expected === "number" && actual < expected;
+    case "lte": return typeof actual === "number" && typeof expected === "number" && actual <= expected;
+    case "matches": return typeof actual === "string" && typeof expected === "string" && new RegExp(expected).test(actual);
+    case "contains":
+      if (typeof actual === "string") return typeof expected === "string" && actual.includes(expected);
+      return Array.isArray(actual) && actual.includes(expected);
+    case "exists": return (actual !== undefined && actual !== null) === (expected ?? true);
+  }
+}
+
+/** Evaluate a condition; `why` describes the first failing test. */
+export function evaluateCondition(cond: PolicyCondition, attrs: Record<string, unknown>): { ok: boolean; why: string } {
+  if ("all" in cond) {
+    for (const c of cond.all) {
+      const r = evaluateCondition(c, attrs);
+      if (!r.ok) return r;
+    }
+    return { ok: true, why: "all conditions hold" };
+  }
+  if ("any" in cond) {
+    const failures: string[] = [];
+    for (const c of cond.any) {
+      const r = evaluateCondition(c, attrs);
+      if (r.ok) return r;
+      failures.push(r.why);
+    }
+    return { ok: false, why: `none of: ${failures.join("; ")}` };
+  }
+  if ("not" in cond) {
+    const r = evaluateCondition(cond.not, attrs);
+    return { ok: !r.ok, why: `not (${r.why})` };
+  }
+  const actual = resolveAttr(attrs, cond.attr);
+  const ok = compare(actual, cond.op, cond.value);
+  const expected = cond.op === "exists" ? "" : ` ${JSON.stringify(cond.value)}`;
+  return { ok, why: `${cond.attr} ${cond.op}${expected} (was ${JSON.stringify(actual ?? null)})` };
+}
+
+// Evaluation
+
+function ruleRef(doc: PolicyDocument, rule: PolicyRule): PolicyRuleRef {
+  return {
+    policy: doc.name,
+    version: doc.version,
+    rule_id: rule.id,
+    effect: rule.effect,
+    ...(rule.description ? { description: rule.description } : {}),
+  };
+}
+
+function traceRules(docs: PolicyDocument[], request: PolicyRequest): { trace: RuleTrace[]; attributes: Record<string, unknown> } {
+  const trace: RuleTrace[] = [];
+  for (const doc of docs) {
+    if (doc.enabled === false) continue;
+    const attrs = buildPolicyAttributes(request, doc.timezone ?? "UTC");
+    for (const rule of doc.rules) {
+      const ref = ruleRef(doc, rule);
+      if (!subjectMatches(rule.subjects, request.subject)) {
+        trace.push({ ...ref, applies: false, detail: `subject ${request.subject.agent} not listed` });
+      } else if (!rule.targets.some(t => targetMatches(t, request.resource, request.action))) {
+        trace.push({ ...ref, applies: false, detail: `target ${request.resource}.${request.action} not listed` });
+      } else if (rule.when) {
+        const r = evaluateCondition(rule.when, attrs);
+        trace.push({ ...ref, applies: r.ok, detail: r.ok ? "matched" : `condition failed: ${r.why}` });
+      } else {
+        trace.push({ ...ref, applies: true, detail: "matched" });
+      }
+    }
+  }
+  return { trace, attributes: buildPolicyAttributes(request) };
+}
+
+function decide(trace: RuleTrace[], request: PolicyRequest): PolicyEvaluation {
+  const target = `${request.resource}.${request.action}`;
+  const winner = trace.find(t => t.applies && t.effect === "deny") ?? trace.find(t => t.applies && t.effect === "allow");
+  if (!winner) {
+    return { decision: "not_applicable", rule: null, reason: `No policy rule applies to ${target}; RBAC decides` };
+  }
+  const { applies: _a, detail: _d, ...rule } = winner;
+  const verb = winner.effect === "deny" ? "denies" : "allows";
+  return {
+    decision: winner.effect,
+    rule,
+    reason: `Policy ${rule.policy} v${rule.version} rule "${rule.rule_id}" ${verb} ${target}${rule.description ? ` (${rule.description})` : ""}`,
+  };
+}
+
+/**
+ * Evaluate a request against policy documents (deny-overrides).
+ * Pure function.
+ */
+export function evaluatePolicies(docs: PolicyDocument[], request: PolicyRequest): PolicyEvaluation {
+  return decide(traceRules(docs, request).trace, request);
+}
+
+/**
+ * evaluatePolicies plus the resolved attributes and a per-rule trace,
+ * for explaining a (possibly hypothetical) request. Pure function.
+ */
+export function explainPolicies(docs: PolicyDocument[], request: PolicyRequest): PolicyExplanation {
+  const { trace, attributes } = traceRules(docs, request);
+  return { ...decide(trace, request), attributes, trace };
+}
+
+// Validation
+
+function validateCondition(cond: unknown, path: string, errors: string[]): void {
+  if (!cond || typeof cond !== "object" || Array.isArray(cond)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const c = cond as Record<string, unknown>;
+  if ("all" in c || "any" in c) {
+    const key = "all" in c ? "all" : "any";
+    const list = c[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${path}.${key} must be a non-empty array`);
+      return;
+    }
+    list.forEach((inner, i) => validateCondition(inner, `${path}.${key}[${i}]`, errors));
+    return;
+  }
+  if ("not" in c) {
+    validateCondition(c.not, `${path}.not`, errors);
+    return;
+  }
+  if (typeof c.attr !== "string" || !(POLICY_ATTRIBUTE_ROOTS as readonly string[]).includes(c.attr.split(".")[0])) {
+    errors.push(`${path}.attr must start with one of ${POLICY_ATTRIBUTE_ROOTS.join(", ")}`);
+  }
+  if (!VALID_CONDITION_OPS.includes(c.op as ConditionOp)) {
+    errors.push(`${path}.op must be one of ${VALID_CONDITION_OPS.join(", ")}`);
+    return;
+  }
+  if ((c.op === "in" || c.op === "not_in") && !Array.isArray(c.value)) errors.push(`${path}.value must be an array for ${c.op}`);
+  if (["gt", "gte", "lt", "lte"].includes(c.op as string) && typeof c.value !== "number") errors.push(`${path}.value must be a number for ${c.op}`);
+  if (c.op === "matches") {
+    try {
+      new RegExp(String(c.value));
+    } catch {
+      errors.push(`${path}.value is not a valid regular expression`);
+    }
+  }
+}
+
+/**
+ * Validate a policy document; returns error messages (empty = valid).
+ * Pure function.
+ */
+export function validatePolicyDocument(input: unknown): string[] {
+  const errors: string[] = [];
+  if (!input || typeof input !== "object") return ["Policy document must be an object"];
+  const doc = input as Partial<PolicyDocument>;
+  if (!doc.name || typeof doc.name !== "string") errors.push("name is required");
+  if (!Number.isInteger(doc.version) || (doc.version as number) < 1) errors.push("version must be a positive integer");
+  if (doc.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: doc.timezone });
+    } catch {
+      errors.push(`timezone ${doc.timezone} is not a valid IANA zone`);
+    }
+  }
+  if (!Array.isArray(doc.rules)) {
+    errors.push("rules must be an array");
+    return errors;
+  }
+  const ids = new Set<string>();
+  doc.rules.forEach((rule, i) => {
+    const at = `rules[${i}]`;
+    if (!rule || typeof rule !== "object") {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (!rule.id || typeof rule.id !== "string") errors.push(`${at}.id is required`);
+    else if (ids.has(rule.id)) errors.push(`${at}.id "${rule.id}" is duplicated`);
+    else ids.add(rule.id);
+    if (rule.effect !== "allow" && rule.effect !== "deny") errors.push(`${at}.effect must be allow or deny`);
+    if (!Array.isArray(rule.targets) || rule.targets.length === 0) {
+      errors.push(`${at}.targets must be a non-empty array`);
+    } else {
+      for (const t of rule.targets) {
+        if (typeof t !== "string" || (t !== "*" && !/^[a-z0-9_]+\.(\*|[a-z0-9_]+\*?)$|^[a-z0-9_]+\*$/.test(t))) {
+          errors.push(`${at}.targets: "${t}" is not a resource.action pattern`);
+        }
+      }
+    }
+    if (rule.subjects !== undefined && (!Array.isArray(rule.subjects) || rule.subjects.some(s => typeof s !== "string"))) {
+      errors.push(`${at}.subjects must be an array of strings`);
+    }
+    if (rule.when !== undefined) validateCondition(rule.when, `${at}.when`, errors);
+  });
+  return errors;
+}
+
+// Storage client
+
+/** The slice of a postgres.js client the storage helpers use. */
+export interface PolicySql {
+  (strings: TemplateStringsArray, ...values: unknown[]): Promise<Array<Record<string, unknown>>>;
+  json(value: unknown): unknown;
+}
+
+export interface StoredPolicy {
+  name: string;
+  version: number;
+  enabled: boolean;
+  document: PolicyDocument;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+// Active policy set (loaded from rbac_policies, consulted by permission-guard.ts)
+
+let activePolicies: PolicyDocument[] = [];
+let loadedAt = 0;
+
+const POLICY_CACHE_TTL_MS = 30_000;
+
+export function getActivePolicies(): PolicyDocument[] {
+  return activePolicies;
+}
+
+export function setActivePolicies(docs: PolicyDocument[]): void {
+  activePolicies = docs;
+  loadedAt = Date.now();
+}
+
+/** Reload the active set from the database when older than the cache TTL. */
+export async function refreshPolicies(sql: PolicySql, maxAgeMs: number = POLICY_CACHE_TTL_MS): Promise<PolicyDocument[]> {
+  if (Date.now() - loadedAt < maxAgeMs) return activePolicies;
+  loadedAt = Date.now(); // a failed load is retried after the TTL, not on every call
+  activePolicies = await loadPolicies(sql);
+  return activePolicies;
+}
+
+// Storage
+
+export async function loadPolicies(sql: PolicySql): Promise<PolicyDocument[]> {
+  const rows = await sql`SELECT document FROM rbac_policies WHERE enabled = true ORDER BY name`;
+  return rows.map(r => r.document as PolicyDocument);
+}
+
+export async function listPolicies(sql: PolicySql): Promise<StoredPolicy[]> {
+  const rows = await sql`SELECT name, version, enabled, document, updated_by, updated_at FROM rbac_policies ORDER BY name`;
+  return rows as unknown as StoredPolicy[];
+}
+
+/**
+ * Store a document. Versions only move forward: saving a version at or
+ * below the stored one throws.
+ */
+export async function savePolicy(sql: PolicySql, doc: PolicyDocument, updatedBy?: string): Promise<void> {
+  const [current] = await sql`SELECT version FROM rbac_policies WHERE name = ${doc.name}`;
+  const stored = current ? Number(current.version) : 0;
+  if (stored >= doc.version) {
+    throw new Error(`Policy ${doc.name} is at version ${stored}; save version ${stored + 1} or later`);
+  }
+  await sql`
+    INSERT INTO rbac_policies (name, version, enabled, document, updated_by)
+    VALUES (${doc.name}, ${doc.version}, ${doc.enabled !== false}, ${sql.json(doc)}, ${updatedBy ?? null})
+    ON CONFLICT (name) DO UPDATE SET
+      version = EXCLUDED.version,
+      enabled = EXCLUDED.enabled,
+      document = EXCLUDED.document,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = NOW()
+  `;
+  loadedAt = 0;
+}
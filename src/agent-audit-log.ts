@@ -4,10 +4,37 @@
  * Complete audit trail of agent actions for governance, compliance,
  * and debugging. No PII — reference IDs only.
  *
+ * Entries are hash-chained per company (see audit-chain.ts): logAction
+ * links each one to its predecessor, retention replaces the deleted start
+ * of a chain with a signed checkpoint, and verifyAuditChain() /
+ * exportAuditBundle() walk or export a chain for auditors.
+ *
  * Database functions module — uses postgres.js via ellie-forest.
  */
 
+import { randomUUID } from "crypto";
+import type { KeyObject } from "crypto";
 import { sql } from "../../ellie-forest/src/index";
+import {
+  AUDIT_BUNDLE_FORMAT,
+  GENESIS_HASH,
+  chainKeyFor,
+  contentHash,
+  keyFingerprint,
+  loadSigningKey,
+  loadVerifyKey,
+  publicKeyPem,
+  signCheckpoint,
+  verifyChainEntries,
+  verifyCheckpoints,
+  type AuditBundle,
+  type AuditCheckpoint,
+  type ChainedEntry,
+  type ChainVerification,
+} from "./audit-chain.ts";
+import { log } from "./logger.ts";
+
+const logger = log.child("agent-audit-log");
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -47,6 +74,11 @@ export interface AuditLogEntry {
   action_detail: Record<string, unknown>;
   formation_session_id: string | null;
   work_item_id: string | null;
+  /** Hash chain link; null on entries written before chaining. */
+  chain_key?: string | null;
+  seq?: number | null;
+  prev_hash?: string | null;
+  entry_hash?: string | null;
 }
 
 export interface LogActionInput {
@@ -77,28 +109,79 @@ export interface RetentionPolicy {
 
 // ── Log Action ──────────────────────────────────────────────
 
+/** Attempts when a concurrent writer takes the same seq. */
+const CHAIN_APPEND_ATTEMPTS = 5;
+
+function isSeqConflict(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === "23505";
+}
+
 /**
  * Log an agent action to the audit trail.
  * action_detail should contain reference IDs only — no PII.
+ *
+ * The entry is appended to its company's hash chain in one statement:
+ * the link is taken from the chain head (or latest checkpoint) and a
+ * concurrent append on the same seq is retried.
  */
 export async function logAction(input: LogActionInput): Promise<AuditLogEntry> {
-  const [entry] = await sql<AuditLogEntry[]>`
-    INSERT INTO agent_audit_log (
-      agent_id, company_id, action_type, action_detail,
-      formation_session_id, work_item_id
-    )
-    VALUES (
-      ${input.agent_id}::uuid,
-      ${input.company_id ?? null}::uuid,
-      ${input.action_type},
-      ${sql.json(input.action_detail ?? {})},
-      ${input.formation_session_id ?? null}::uuid,
-      ${input.work_item_id ?? null}
-    )
-    RETURNING *
-  `;
-
-  return entry;
+  const id = randomUUID();
+  const createdAt = new Date();
+  const chainKey = chainKeyFor(input.company_id);
+  const content = contentHash({
+    id,
+    created_at: createdAt,
+    agent_id: input.agent_id,
+    company_id: input.company_id ?? null,
+    action_type: input.action_type,
+    action_detail: input.action_detail ?? {},
+    formation_session_id: input.formation_session_id ?? null,
+    work_item_id: input.work_item_id ?? null,
+  });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const [entry] = await sql<AuditLogEntry[]>`
+        WITH head AS (
+          SELECT seq, hash FROM (
+            SELECT seq, entry_hash AS hash FROM agent_audit_log
+            WHERE chain_key = ${chainKey} AND seq IS NOT NULL
+            UNION ALL
+            SELECT through_seq, through_hash FROM agent_audit_checkpoints
+            WHERE chain_key = ${chainKey}
+          ) links
+          ORDER BY seq DESC
+          LIMIT 1
+        ), link AS (
+          SELECT COALESCE((SELECT seq FROM head), 0) + 1 AS seq,
+                 COALESCE((SELECT hash FROM head), ${GENESIS_HASH}) AS prev_hash
+        )
+        INSERT INTO agent_audit_log (
+          id, created_at, agent_id, company_id, action_type, action_detail,
+          formation_session_id, work_item_id,
+          chain_key, seq, prev_hash, entry_hash
+        )
+        SELECT
+          ${id}::uuid,
+          ${createdAt.toISOString()}::timestamptz,
+          ${input.agent_id}::uuid,
+          ${input.company_id ?? null}::uuid,
+          ${input.action_type},
+          ${sql.json(input.action_detail ?? {})},
+          ${input.formation_session_id ?? null}::uuid,
+          ${input.work_item_id ?? null},
+          ${chainKey},
+          link.seq,
+          link.prev_hash,
+          encode(sha256(convert_to(link.prev_hash || ${content}, 'UTF8')), 'hex')
+        FROM link
+        RETURNING *
+      `;
+      return entry;
+    } catch (err) {
+      if (!isSeqConflict(err) || attempt >= CHAIN_APPEND_ATTEMPTS) throw err;
+    }
+  }
 }
 
 /**
@@ -289,16 +372,32 @@ export async function getRetentionPolicy(
   return policy ?? null;
 }
 
+export interface RetentionOptions {
+  /** Signs checkpoints; defaults to AUDIT_CHECKPOINT_KEY. Chained entries are kept without one. */
+  signingKey?: KeyObject | null;
+}
+
+interface RetentionCut {
+  chain_key: string;
+  through_seq: number;
+  deleted_count: number;
+}
+
 /**
  * Apply retention policies: delete audit entries older than
  * the configured retention period for each company.
  * Returns the number of entries deleted.
+ *
+ * Chained entries are only deleted from the start of a chain, up to the
+ * first entry still within retention, and only after the deleted segment
+ * verifies and a signed checkpoint replaces it.
  */
-export async function applyRetentionPolicies(): Promise<number> {
-  // Delete entries for companies with custom policies
+export async function applyRetentionPolicies(opts: RetentionOptions = {}): Promise<number> {
+  // Delete unchained entries for companies with custom policies
   const deleted = await sql<{ id: string }[]>`
     DELETE FROM agent_audit_log
-    WHERE company_id IN (
+    WHERE seq IS NULL
+    AND company_id IN (
       SELECT company_id FROM audit_retention_policies
     )
     AND created_at < (
@@ -309,13 +408,191 @@ export async function applyRetentionPolicies(): Promise<number> {
     RETURNING id
   `;
 
-  // Delete entries with no company using default retention
+  // Delete unchained entries with no company using default retention
   const defaultDeleted = await sql<{ id: string }[]>`
     DELETE FROM agent_audit_log
-    WHERE company_id IS NULL
+    WHERE seq IS NULL
+      AND company_id IS NULL
       AND created_at < NOW() - INTERVAL '${DEFAULT_RETENTION_DAYS} days'
     RETURNING id
   `;
 
-  return deleted.length + defaultDeleted.length;
+  const chained = await pruneChains(opts.signingKey === undefined ? loadSigningKey() : opts.signingKey);
+  return deleted.length + defaultDeleted.length + chained;
+}
+
+/** Expired prefix of each chain: everything before its first entry still within retention. */
+async function findRetentionCuts(): Promise<RetentionCut[]> {
+  return sql<RetentionCut[]>`
+    WITH cutoffs AS (
+      SELECT 'global' AS chain_key, NOW() - INTERVAL '${DEFAULT_RETENTION_DAYS} days' AS cutoff
+      UNION ALL
+      SELECT company_id::text, NOW() - (retention_days || ' days')::interval
+      FROM audit_retention_policies
+    ), bounds AS (
+      SELECT c.chain_key, c.cutoff, (
+        SELECT MIN(l.seq) FROM agent_audit_log l
+        WHERE l.chain_key = c.chain_key AND l.seq IS NOT NULL AND l.created_at >= c.cutoff
+      ) AS first_kept
+      FROM cutoffs c
+    )
+    SELECT l.chain_key, MAX(l.seq)::int AS through_seq, COUNT(*)::int AS deleted_count
+    FROM agent_audit_log l
+    JOIN bounds b ON b.chain_key = l.chain_key
+    WHERE l.seq IS NOT NULL
+      AND l.created_at < b.cutoff
+      AND (b.first_kept IS NULL OR l.seq < b.first_kept)
+    GROUP BY l.chain_key
+  `;
+}
+
+async function pruneChains(signingKey: KeyObject | null): Promise<number> {
+  const cuts = await findRetentionCuts();
+  if (cuts.length === 0) return 0;
+  if (!signingKey) {
+    logger.warn(`Retention skipped ${cuts.length} hash chain(s): AUDIT_CHECKPOINT_KEY is not set`);
+    return 0;
+  }
+
+  let total = 0;
+  for (const cut of cuts) {
+    const segment = await verifyAuditChain(cut.chain_key, { throughSeq: cut.through_seq, signingKey });
+    if (!segment.ok || segment.head.seq !== cut.through_seq) {
+      logger.error(`Retention skipped chain ${cut.chain_key}: ${segment.first_break?.reason ?? "segment incomplete"}`, {
+        chain_key: cut.chain_key,
+        first_break: segment.first_break,
+      });
+      continue;
+    }
+    const cp = signCheckpoint({
+      chain_key: cut.chain_key,
+      through_seq: cut.through_seq,
+      through_hash: segment.head.hash,
+      deleted_count: cut.deleted_count,
+    }, signingKey);
+    // Checkpoint and deletion in one statement: no gap without a checkpoint
+    const removed = await sql<{ id: string }[]>`
+      WITH cp AS (
+        INSERT INTO agent_audit_checkpoints (
+          chain_key, through_seq, through_hash, deleted_count, signed_at, key_fingerprint, signature
+        )
+        VALUES (
+          ${cp.chain_key}, ${cp.through_seq}, ${cp.through_hash}, ${cp.deleted_count},
+          ${cp.signed_at}::timestamptz, ${cp.key_fingerprint}, ${cp.signature}
+        )
+        RETURNING chain_key, through_seq
+      )
+      DELETE FROM agent_audit_log l
+      USING cp
+      WHERE l.chain_key = cp.chain_key AND l.seq <= cp.through_seq
+      RETURNING l.id
+    `;
+    total += removed.length;
+  }
+  return total;
+}
+
+// ── Hash Chain ──────────────────────────────────────────────
+
+const CHAIN_PAGE_SIZE = 500;
+
+export interface VerifyChainOptions {
+  /** Stop after this seq (default: the chain head). */
+  throughSeq?: number;
+  /** Checkpoint verification key (SPKI PEM); defaults to loadVerifyKey(). */
+  publicKeyPem?: string | null;
+  /** Derive the verification key from this signing key instead. */
+  signingKey?: KeyObject | null;
+}
+
+function resolveVerifyKey(opts: VerifyChainOptions): string | null {
+  if (opts.publicKeyPem !== undefined) return opts.publicKeyPem;
+  return opts.signingKey ? publicKeyPem(opts.signingKey) : loadVerifyKey();
+}
+
+type StoredCheckpoint = Omit<AuditCheckpoint, "signed_at"> & { signed_at: Date | string };
+
+async function loadCheckpoints(chainKey: string): Promise<AuditCheckpoint[]> {
+  const rows = await sql<StoredCheckpoint[]>`
+    SELECT chain_key, through_seq, through_hash, deleted_count, signed_at, key_fingerprint, signature
+    FROM agent_audit_checkpoints
+    WHERE chain_key = ${chainKey}
+    ORDER BY through_seq ASC
+  `;
+  return rows.map((r: StoredCheckpoint) => ({ ...r, signed_at: new Date(r.signed_at).toISOString() }));
+}
+
+async function loadChainPage(chainKey: string, afterSeq: number, throughSeq: number | undefined): Promise<ChainedEntry[]> {
+  return sql<ChainedEntry[]>`
+    SELECT id, created_at, agent_id, company_id, action_type, action_detail,
+           formation_session_id, work_item_id, seq, prev_hash, entry_hash
+    FROM agent_audit_log
+    WHERE chain_key = ${chainKey}
+      AND seq > ${afterSeq}
+      AND seq <= ${throughSeq ?? 2147483647}
+    ORDER BY seq ASC
+    LIMIT ${CHAIN_PAGE_SIZE}
+  `;
+}
+
+/**
+ * Walk a chain from its latest checkpoint (or genesis) and report the
+ * first broken link: a checkpoint whose signature fails, a missing seq,
+ * a prev_hash that does not match, or an entry whose content changed.
+ */
+export async function verifyAuditChain(chainKey: string, opts: VerifyChainOptions = {}): Promise<ChainVerification> {
+  const checkpoints = await loadCheckpoints(chainKey);
+  let segment = verifyCheckpoints(chainKey, checkpoints, resolveVerifyKey(opts));
+  let checked = 0;
+
+  while (segment.ok) {
+    const page = await loadChainPage(chainKey, segment.head.seq, opts.throughSeq);
+    if (page.length === 0) break;
+    segment = verifyChainEntries(page, segment.head);
+    checked += segment.checked;
+    if (page.length < CHAIN_PAGE_SIZE) break;
+  }
+
+  return {
+    ok: segment.ok,
+    chain_key: chainKey,
+    checked,
+    checkpoints: checkpoints.length,
+    first_break: segment.first_break,
+    head: segment.head,
+  };
+}
+
+/**
+ * Everything an auditor needs to verify a chain offline with
+ * verifyAuditBundle(): its checkpoints, surviving entries and the
+ * checkpoint public key.
+ */
+export async function exportAuditBundle(chainKey: string): Promise<AuditBundle> {
+  const checkpoints = await loadCheckpoints(chainKey);
+  const entries: ChainedEntry[] = [];
+  let after = checkpoints.at(-1)?.through_seq ?? 0;
+  for (;;) {
+    const page = await loadChainPage(chainKey, after, undefined);
+    entries.push(...page);
+    if (page.length < CHAIN_PAGE_SIZE) break;
+    after = page[page.length - 1].seq;
+  }
+
+  const last = entries.at(-1);
+  const cp = checkpoints.at(-1);
+  const publicKey = loadVerifyKey();
+  return {
+    format: AUDIT_BUNDLE_FORMAT,
+    chain_key: chainKey,
+    exported_at: new Date().toISOString(),
+    genesis_hash: GENESIS_HASH,
+    public_key: publicKey,
+    key_fingerprint: publicKey ? keyFingerprint(publicKey) : null,
+    checkpoints,
+    entries,
+    head: last
+      ? { seq: last.seq, hash: last.entry_hash }
+      : { seq: cp?.through_seq ?? 0, hash: cp?.through_hash ?? GENESIS_HASH },
+  };
 }
@@ -11,8 +11,10 @@ import { classifyIntent, type ExecutionMode } from "./intent-classifier.ts";
 import { log } from "./logger.ts";
 import { RELAY_EPOCH } from "./relay-epoch.ts";
 import { breakers } from "./resilience.ts";
-import { guardAgentDispatch, resolveRbacEntityId, formatDenialMessage, type GuardConfig, DEFAULT_GUARD_CONFIG } from "./permission-guard.ts";
+import { guardAgentDispatch, resolveRbacEntityId, resolvePolicyAttributes, formatDenialMessage, type GuardConfig, DEFAULT_GUARD_CONFIG } from "./permission-guard.ts";
 import { logCheck } from "./permission-audit.ts";
+import { refreshPolicies } from "./access-policy.ts";
+import { getWorkItemStateGroup } from "./plane.ts";
 import { getAllowedMCPs, getAllowedToolsForCLI } from "./tool-access-control.ts";
 import { filterTools, getDeferredToolSummary } from "./tool-discovery-filter.ts";
 import { canPerformRole } from "./segregation-of-duties.ts";
@@ -482,7 +484,15 @@ export async function routeAndDispatch(
       logger.error(`[rbac] Cannot resolve entity ID for agent '${route.agent_name}', denying dispatch`);
       return null;
     }
-    const guard = await guardAgentDispatch(forestSql, entityId, route.agent_name);
+    // A policy reload failure keeps the last loaded set; RBAC still applies
+    await refreshPolicies(forestSql).catch(err => logger.warn("[rbac] Policy reload failed, using cached policies", err));
+    const attributes = await resolvePolicyAttributes(forestSql, route.agent_name, {
+      channel,
+      work_item_id: workItemId,
+      text: message,
+      workItemState: getWorkItemStateGroup,
+    });
+    const guard = await guardAgentDispatch(forestSql, entityId, route.agent_name, DEFAULT_GUARD_CONFIG, attributes);
     logCheck(entityId, "agents", "dispatch", guard.allowed ? "allow" : "deny", undefined, route.agent_name);
     if (!guard.allowed && guard.denial) {
       logger.warn(`[rbac] ${formatDenialMessage(guard.denial)}`);
@@ -0,0 +1,209 @@
+/**
+ * Access Policy API
+ *
+ * Attribute-based policy documents (access-policy.ts) that the permission
+ * guard consults before RBAC: list and store them, and ask "what if" —
+ * the decision for a hypothetical request, with the rule that made it
+ * and why every other rule did not apply.
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import type { ServerResponse } from "node:http";
+import {
+  explainPolicies,
+  getActivePolicies,
+  listPolicies,
+  refreshPolicies,
+  savePolicy,
+  validatePolicyDocument,
+  POLICY_ATTRIBUTE_ROOTS,
+  VALID_CONDITION_OPS,
+  type PolicyDocument,
+  type PolicyRequest,
+  type PolicySql,
+} from "../access-policy.ts";
+import { parseJson, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("api:access-policy");
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+/** Forest SQL, loaded on demand; null when the forest is unavailable. */
+async function forestSql(): Promise<PolicySql | null> {
+  try {
+    return (await import("../../../ellie-forest/src/index.ts")).sql as unknown as PolicySql;
+  } catch (err) {
+    logger.warn("Forest unavailable", err);
+    return null;
+  }
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const ruleSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "effect", "targets"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    effect: { type: "string", enum: ["allow", "deny"] },
+    description: { type: "string" },
+    subjects: { type: "array", items: { type: "string" }, description: "Agent names or entity IDs; omit for anyone" },
+    targets: { type: "array", items: { type: "string" }, description: "resource.action patterns, e.g. tools.use_bash or tools.*" },
+    when: {
+      type: "object",
+      description: `Condition tree: {all|any: [...]}, {not: ...} or {attr, op, value}. attr roots: ${POLICY_ATTRIBUTE_ROOTS.join(", ")}. ops: ${VALID_CONDITION_OPS.join(", ")}`,
+    },
+  },
+};
+
+const documentSchema: JsonSchema = {
+  type: "object",
+  required: ["name", "version", "rules"],
+  properties: {
+    name: { type: "string", minLength: 1 },
+    version: { type: "integer" },
+    description: { type: "string" },
+    enabled: { type: "boolean" },
+    timezone: { type: "string", description: "IANA zone for time.hour / time.weekday, default UTC" },
+    rules: { type: "array", items: ruleSchema },
+  },
+};
+
+const requestSchema: JsonSchema = {
+  type: "object",
+  required: ["subject", "resource", "action"],
+  properties: {
+    subject: {
+      type: "object",
+      required: ["agent"],
+      properties: { agent: { type: "string" }, entity_id: { type: ["string", "null"] } },
+    },
+    resource: { type: "string", minLength: 1 },
+    action: { type: "string", minLength: 1 },
+    attributes: {
+      type: "object",
+      properties: {
+        company_id: { type: ["string", "null"] },
+        work_item: { type: ["object", "null"], properties: { id: { type: "string" }, state: { type: ["string", "null"] } } },
+        tool: { type: ["object", "null"], properties: { name: { type: "string" }, args: { type: "object" } } },
+        sensitivity: { type: ["string", "null"], enum: ["public", "internal", "confidential", "phi", null] },
+        channel: { type: ["string", "null"] },
+        time: { type: "string", description: "ISO timestamp, default now" },
+      },
+    },
+  },
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/permissions/policies",
+    summary: "Stored access policies",
+    responses: { 200: { description: "Policies by name" }, 503: { description: "Forest unavailable" } },
+    handler: async ({ res }) => {
+      const sql = await forestSql();
+      if (!sql) {
+        json(res, 503, { error: "Forest unavailable" });
+        return;
+      }
+      json(res, 200, { policies: await listPolicies(sql) });
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/permissions/policies/:name",
+    summary: "Store a new version of an access policy",
+    description: "Requires API auth and a permission admin (x-entity-id or x-bridge-key). version must exceed the stored one.",
+    request: { body: documentSchema },
+    responses: {
+      200: { description: "Stored" },
+      400: { description: "Invalid document" },
+      401: { description: "Caller not identified" },
+      403: { description: "Caller may not manage permissions" },
+      409: { description: "Version not newer than the stored one" },
+      503: { description: "Forest unavailable" },
+    },
+    handler: async ({ req, res, params, rawBody }) => {
+      const doc = parseJson(rawBody) as unknown as PolicyDocument;
+      const errors = validatePolicyDocument(doc);
+      if (doc.name !== decodeURIComponent(params.name)) errors.push("name must match the URL");
+      if (errors.length > 0) {
+        json(res, 400, { error: errors.join("; "), errors });
+        return;
+      }
+      const sql = await forestSql();
+      if (!sql) {
+        json(res, 503, { error: "Forest unavailable" });
+        return;
+      }
+      const { guardPermissionWrite } = await import("../permission-auth.ts");
+      const auth = await guardPermissionWrite(sql, {
+        "x-entity-id": req.headers["x-entity-id"] as string | undefined,
+        "x-bridge-key": req.headers["x-bridge-key"] as string | undefined,
+      });
+      if (!auth.authorized) {
+        json(res, auth.status_code, { error: auth.error });
+        return;
+      }
+      try {
+        await savePolicy(sql, doc, auth.entity_id);
+      } catch (err) {
+        json(res, 409, { error: err instanceof Error ? err.message : String(err) });
+        return;
+      }
+      logger.info(`Policy ${doc.name} v${doc.version} stored by ${auth.entity_id}`);
+      json(res, 200, { name: doc.name, version: doc.version });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/permissions/policies/what-if",
+    summary: "Explain the policy decision for a hypothetical request",
+    description: "Evaluates against the supplied policies, or the active set when omitted. not_applicable means RBAC decides.",
+    request: {
+      body: {
+        type: "object",
+        required: ["request"],
+        properties: { request: requestSchema, policies: { type: "array", items: documentSchema } },
+      },
+    },
+    responses: {
+      200: {
+        description: "Decision, deciding rule and per-rule trace",
+        schema: {
+          type: "object",
+          properties: {
+            decision: { type: "string", enum: ["allow", "deny", "not_applicable"] },
+            rule: { type: ["object", "null"] },
+            reason: { type: "string" },
+            attributes: { type: "object" },
+            trace: { type: "array", items: { type: "object" } },
+          },
+        },
+      },
+      400: { description: "Invalid policy document" },
+    },
+    handler: async ({ res, rawBody }) => {
+      const body = parseJson(rawBody) as { request: PolicyRequest; policies?: PolicyDocument[] };
+      let policies = body.policies;
+      if (policies) {
+        const errors = policies.flatMap((doc, i) => validatePolicyDocument(doc).map(e => `policies[${i}]: ${e}`));
+        if (errors.length > 0) {
+          json(res, 400, { error: errors.join("; "), errors });
+          return;
+        }
+      } else {
+        const sql = await forestSql();
+        policies = sql ? await refreshPolicies(sql).catch(() => getActivePolicies()) : getActivePolicies();
+      }
+      json(res, 200, explainPolicies(policies, body.request));
+    },
+  },
+];
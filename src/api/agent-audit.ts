@@ -0,0 +1,121 @@
+/**
+ * Agent Audit Chain API
+ *
+ * Tamper evidence for the agent audit log (agent-audit-log.ts): walk a
+ * company's hash chain and report the first broken link, or export it as
+ * a bundle an auditor can verify offline with
+ * `bun run audit:verify-bundle`. :chain is a company ID or "global".
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import type { ServerResponse } from "node:http";
+import type { RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("api:agent-audit");
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+const CHAIN_KEY_RE = /^(global|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+/** Normalised chain key from the URL, or null when it is not one. */
+function chainParam(raw: string): string | null {
+  const key = decodeURIComponent(raw).toLowerCase();
+  return CHAIN_KEY_RE.test(key) ? key : null;
+}
+
+/** The audit log module, loaded on demand; null when the forest is unavailable. */
+async function auditLog(): Promise<typeof import("../agent-audit-log.ts") | null> {
+  try {
+    return await import("../agent-audit-log.ts");
+  } catch (err) {
+    logger.warn("Forest unavailable", err);
+    return null;
+  }
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const linkSchema: JsonSchema = {
+  type: "object",
+  properties: { seq: { type: "integer" }, hash: { type: "string" } },
+};
+
+const verificationSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean" },
+    chain_key: { type: "string" },
+    checked: { type: "integer" },
+    checkpoints: { type: "integer" },
+    first_break: {
+      type: ["object", "null"],
+      properties: { seq: { type: ["integer", "null"] }, entry_id: { type: ["string", "null"] }, reason: { type: "string" } },
+    },
+    head: linkSchema,
+  },
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/audit/chains/:chain/verify",
+    summary: "Verify an agent audit hash chain",
+    description: "Checks checkpoint signatures and every link from the latest checkpoint to the head. ok=false names the first broken link.",
+    responses: {
+      200: { description: "Verification result", schema: verificationSchema },
+      400: { description: "Not a company ID or \"global\"" },
+      503: { description: "Forest unavailable" },
+    },
+    handler: async ({ res, params }) => {
+      const chain = chainParam(params.chain);
+      if (!chain) {
+        json(res, 400, { error: "chain must be a company ID or \"global\"" });
+        return;
+      }
+      const audit = await auditLog();
+      if (!audit) {
+        json(res, 503, { error: "Forest unavailable" });
+        return;
+      }
+      const result = await audit.verifyAuditChain(chain);
+      if (!result.ok) logger.warn(`Audit chain ${chain} broken at seq ${result.first_break?.seq}: ${result.first_break?.reason}`);
+      json(res, 200, result);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/audit/chains/:chain/export",
+    summary: "Export an agent audit hash chain for offline verification",
+    description: "Checkpoints, surviving entries and the checkpoint public key (format ellie-agent-audit/v1).",
+    responses: {
+      200: { description: "Audit bundle" },
+      400: { description: "Not a company ID or \"global\"" },
+      503: { description: "Forest unavailable" },
+    },
+    handler: async ({ res, params }) => {
+      const chain = chainParam(params.chain);
+      if (!chain) {
+        json(res, 400, { error: "chain must be a company ID or \"global\"" });
+        return;
+      }
+      const audit = await auditLog();
+      if (!audit) {
+        json(res, 503, { error: "Forest unavailable" });
+        return;
+      }
+      const bundle = await audit.exportAuditBundle(chain);
+      res.writeHead(200, {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="agent-audit-${chain}.json"`,
+      });
+      res.end(JSON.stringify(bundle));
+    },
+  },
+];
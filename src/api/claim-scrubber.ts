@@ -0,0 +1,204 @@
+/**
+ * Claim Scrubber API
+ *
+ * Rule versions for the pre-submission scrubber (claim-scrubber.ts):
+ * list the rules in effect for a payer/state/date, browse a rule's
+ * version history, add a version, and scrub a claim on demand.
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import type { ServerResponse } from "node:http";
+import {
+  createScrubRuleVersion,
+  listScrubRules,
+  loadScrubContext,
+  loadScrubRules,
+  scrubClaim,
+  selectRules,
+  validateScrubRule,
+  DEFAULT_SCRUB_RULES,
+  SCRUB_PAYER_TYPES,
+  VALID_SCRUB_RULE_KINDS,
+  VALID_SCRUB_SEVERITIES,
+  type ScrubContext,
+  type ScrubContextDeps,
+  type ScrubRule,
+} from "../claim-scrubber.ts";
+import type { ClaimDocument } from "../claim-submission.ts";
+import type { PayerType } from "../payer-registry.ts";
+import { parseJson, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("api:claim-scrubber");
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** Payer registry + state rule lookups; both modules are forest-backed, so load on demand. */
+async function registryDeps(): Promise<ScrubContextDeps> {
+  const [payers, compliance] = await Promise.all([import("../payer-registry.ts"), import("../compliance-framework.ts")]);
+  return { getPayer: payers.getPayer, getTimelyFiling: payers.getTimelyFiling, getStateRules: compliance.getStateRules };
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+
+const ruleSchema: JsonSchema = {
+  type: "object",
+  required: ["rule_key", "kind", "description", "severity", "effective_date"],
+  properties: {
+    rule_key: { type: "string", minLength: 1 },
+    kind: { type: "string", enum: VALID_SCRUB_RULE_KINDS },
+    description: { type: "string", minLength: 1 },
+    severity: { type: "string", enum: VALID_SCRUB_SEVERITIES },
+    params: { type: "object", description: "Kind-specific parameters, see claim-scrubber.ts" },
+    suggested_fix: { type: ["string", "null"] },
+    payer_id: { type: ["string", "null"] },
+    payer_type: { type: ["string", "null"], enum: [...SCRUB_PAYER_TYPES, null] },
+    state_code: { type: ["string", "null"], pattern: "^[A-Z]{2}$" },
+    effective_date: { type: "string", pattern: DATE_PATTERN },
+    expiration_date: { type: ["string", "null"], pattern: DATE_PATTERN },
+    enabled: { type: "boolean" },
+    created_by: { type: "string" },
+  },
+};
+
+const findingSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    rule_key: { type: "string" },
+    kind: { type: "string", enum: VALID_SCRUB_RULE_KINDS },
+    severity: { type: "string", enum: VALID_SCRUB_SEVERITIES },
+    line_number: { type: ["integer", "null"] },
+    message: { type: "string" },
+    suggested_fix: { type: "string" },
+    rule_version: { type: "string" },
+  },
+};
+
+const scrubBody: JsonSchema = {
+  type: "object",
+  required: ["claim"],
+  properties: {
+    claim: { type: "object", required: ["claim_id", "encounter_date", "insurance", "line_items"], description: "ClaimDocument from buildClaim()" },
+    state_code: { type: "string", pattern: "^[A-Z]{2}$" },
+    context: {
+      type: "object",
+      description: "Overrides for the payer-registry lookups",
+      properties: {
+        payer_type: { type: ["string", "null"], enum: [...SCRUB_PAYER_TYPES, null] },
+        timely_filing_days: { type: ["integer", "null"] },
+        today: { type: "string", pattern: DATE_PATTERN },
+      },
+    },
+  },
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/billing/scrub-rules",
+    summary: "Scrub rules in effect",
+    description: "One version per rule_key, as the scrubber would pick it for this payer, state and date.",
+    request: {
+      query: {
+        type: "object",
+        properties: {
+          as_of: { type: "string", pattern: DATE_PATTERN, description: "Date of service, default today" },
+          payer_id: { type: "string" },
+          payer_type: { type: "string", enum: SCRUB_PAYER_TYPES },
+          state_code: { type: "string", pattern: "^[A-Z]{2}$" },
+        },
+      },
+    },
+    responses: { 200: { description: "Rules", schema: { type: "object", properties: { rules: { type: "array", items: ruleSchema } } } } },
+    handler: async ({ res, query, deps }) => {
+      const asOf = query.as_of || today();
+      const rules = selectRules(await loadScrubRules(deps.supabase), {
+        payer_id: query.payer_id ?? "",
+        payer_type: (query.payer_type as PayerType | undefined) ?? null,
+        state_code: query.state_code ?? null,
+        date_of_service: asOf,
+      });
+      json(res, 200, { as_of: asOf, rules });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/billing/scrub-rules/:rule_key/versions",
+    summary: "Every version of a scrub rule",
+    responses: { 200: { description: "Versions, oldest first", schema: { type: "object", properties: { versions: { type: "array", items: ruleSchema } } } } },
+    handler: async ({ res, params, deps }) => {
+      const ruleKey = decodeURIComponent(params.rule_key);
+      const stored = deps.supabase ? await listScrubRules(deps.supabase, { rule_key: ruleKey }) : [];
+      const versions = [...DEFAULT_SCRUB_RULES.filter(r => r.rule_key === ruleKey), ...stored];
+      json(res, 200, { rule_key: ruleKey, versions });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/billing/scrub-rules",
+    summary: "Add a scrub rule version",
+    description: "Rules are never edited in place: post the changed rule with a new effective_date. enabled=false switches it off in its scope.",
+    request: { body: ruleSchema },
+    responses: { 201: { description: "The stored version", schema: { type: "object", properties: { rule: ruleSchema } } }, 400: { description: "Invalid rule" }, 503: { description: "Supabase not configured" } },
+    handler: async ({ res, rawBody, deps }) => {
+      const body = parseJson(rawBody) as unknown as ScrubRule;
+      const rule: ScrubRule = { ...body, params: body.params ?? {}, enabled: body.enabled ?? true };
+      const errors = validateScrubRule(rule);
+      if (errors.length > 0) {
+        json(res, 400, { error: errors.join("; "), errors });
+        return;
+      }
+      if (!deps.supabase) {
+        json(res, 503, { error: "Supabase not configured" });
+        return;
+      }
+      const stored = await createScrubRuleVersion(deps.supabase, rule);
+      logger.info(`Scrub rule ${rule.rule_key} version ${rule.effective_date}${rule.payer_id ? ` for ${rule.payer_id}` : ""}`);
+      json(res, 201, { rule: stored });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/billing/scrub",
+    summary: "Scrub a claim",
+    request: { body: scrubBody },
+    responses: {
+      200: {
+        description: "Findings; passed=false when any is an error",
+        schema: { type: "object", properties: { passed: { type: "boolean" }, findings: { type: "array", items: findingSchema } } },
+      },
+    },
+    handler: async ({ res, rawBody, deps }) => {
+      const body = parseJson(rawBody) as { claim: ClaimDocument; state_code?: string; context?: Partial<ScrubContext> };
+      const { claim } = body;
+      const overrides = body.context ?? {};
+      const context: ScrubContext = overrides.payer_type !== undefined && overrides.timely_filing_days !== undefined
+        ? {
+          payer_type: overrides.payer_type,
+          state_code: body.state_code ?? null,
+          timely_filing_days: overrides.timely_filing_days,
+          timely_filing_source: null,
+          today: overrides.today ?? today(),
+        }
+        : { ...(await loadScrubContext(claim, await registryDeps(), { state_code: body.state_code, today: overrides.today })), ...overrides };
+
+      const rules = selectRules(await loadScrubRules(deps.supabase), {
+        payer_id: claim.insurance.payer_id,
+        payer_type: context.payer_type,
+        state_code: context.state_code,
+        date_of_service: claim.encounter_date,
+      });
+      json(res, 200, { ...scrubClaim(claim, rules, context), context });
+    },
+  },
+];
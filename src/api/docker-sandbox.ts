@@ -1,8 +1,11 @@
 /**
  * Docker Sandbox REST API — ELLIE-979/980
  *
- * Container management + live stats streaming for dashboard.
- * Mounted under /api/sandbox in http-routes.ts.
+ * Container management + live stats streaming for dashboard, mounted
+ * under /api/sandbox in http-routes.ts.
+ * Multi-container sessions with snapshot/restore (sandbox-manager.ts) are
+ * declared as a route manifest (`routes`, mounted via api/route-manifest.ts);
+ * streamed exec output is on the /ws/sandbox-exec WebSocket.
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
@@ -19,6 +22,20 @@ import {
   isDockerAvailable,
   type CreateContainerOpts,
 } from "../docker-sandbox.ts";
+import {
+  createSession,
+  destroySession,
+  execInSession,
+  getSession,
+  listSessions,
+  restoreSession,
+  snapshotSession,
+  validateSessionOpts,
+  type CreateSessionOpts,
+  type SandboxSession,
+} from "../sandbox-manager.ts";
+import { parseJson, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
 import { log } from "../logger.ts";
 
 const logger = log.child("api:sandbox");
@@ -193,3 +210,146 @@ export async function handleSandboxRoute(
 
   return false;
 }
+
+// ── Sessions (route manifest) ────────────────────────────────
+
+const containerSpecSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    role: { type: "string" },
+    image: { type: "string" },
+    env: { type: "array", items: { type: "string" } },
+    cmd: { type: "array", items: { type: "string" } },
+    workingDir: { type: "string" },
+    memoryLimit: { type: "integer", minimum: 1 },
+    cpuQuota: { type: "integer", minimum: 1 },
+    volumes: { type: "object", description: "Session volume name → mount path" },
+  },
+  required: ["role", "image"],
+};
+
+const createSessionSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    containers: { type: "array", items: containerSpecSchema },
+    agent: { type: "string" },
+    workItemId: { type: "string" },
+    outbound: { type: "boolean" },
+  },
+  required: ["name", "containers"],
+};
+
+/** Run a session action; 404 for an unknown session, 500 with the error otherwise. */
+async function withSession(
+  res: ServerResponse,
+  name: string,
+  what: string,
+  fn: (session: SandboxSession) => Promise<void>,
+): Promise<void> {
+  const session = getSession(name);
+  if (!session) { json(res, 404, { error: "session not found" }); return; }
+  try {
+    await fn(session);
+  } catch (err) {
+    logger.error(`Session ${name} ${what} failed`, err);
+    json(res, 500, { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/sandbox/sessions",
+    summary: "List sandbox sessions",
+    handler: ({ res }) => json(res, 200, { sessions: listSessions() }),
+  },
+  {
+    method: "POST",
+    path: "/api/sandbox/sessions",
+    summary: "Create a multi-container sandbox session",
+    description: "Containers start in the order given on a private network, each reachable by its role.",
+    request: { body: createSessionSchema },
+    responses: {
+      201: { description: "Session created" },
+      400: { description: "Invalid session options" },
+      409: { description: "A session with this name exists" },
+    },
+    handler: async ({ res, rawBody }) => {
+      const body = parseJson(rawBody) as unknown as CreateSessionOpts;
+      const errors = validateSessionOpts(body);
+      if (errors.length > 0) { json(res, 400, { error: errors.join("; "), errors }); return; }
+      if (getSession(body.name)) { json(res, 409, { error: `session ${body.name} already exists` }); return; }
+      try {
+        json(res, 201, { session: await createSession(body) });
+      } catch (err) {
+        json(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      }
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/sandbox/sessions/:name",
+    summary: "Get a sandbox session",
+    handler: ({ res, params }) => withSession(res, params.name, "GET", async session => json(res, 200, { session })),
+  },
+  {
+    method: "DELETE",
+    path: "/api/sandbox/sessions/:name",
+    summary: "Destroy a sandbox session",
+    description: "Removes its containers, volumes, network and snapshots.",
+    handler: ({ res, params }) => withSession(res, params.name, "DELETE", async () => {
+      await destroySession(params.name);
+      json(res, 200, { ok: true });
+    }),
+  },
+  {
+    method: "GET",
+    path: "/api/sandbox/sessions/:name/snapshots",
+    summary: "List a session's snapshots",
+    handler: ({ res, params }) => withSession(res, params.name, "snapshots", async session => json(res, 200, { snapshots: session.snapshots })),
+  },
+  {
+    method: "POST",
+    path: "/api/sandbox/sessions/:name/snapshots",
+    summary: "Snapshot a session's containers and volumes",
+    request: { body: { type: "object", properties: { label: { type: "string" } } } },
+    handler: ({ res, params, rawBody }) => withSession(res, params.name, "snapshot", async () => {
+      const { label } = parseJson(rawBody) as { label?: string };
+      json(res, 201, { snapshot: await snapshotSession(params.name, label) });
+    }),
+  },
+  {
+    method: "POST",
+    path: "/api/sandbox/sessions/:name/restore",
+    summary: "Restore a session to a snapshot",
+    request: { body: { type: "object", properties: { snapshot: { type: "string", description: "Snapshot id or label" } }, required: ["snapshot"] } },
+    responses: { 200: { description: "Restored session" }, 404: { description: "No such session or snapshot" } },
+    handler: ({ res, params, rawBody }) => withSession(res, params.name, "restore", async session => {
+      const { snapshot } = parseJson(rawBody) as { snapshot: string };
+      if (!session.snapshots.some(s => s.id === snapshot || s.label === snapshot)) {
+        json(res, 404, { error: "snapshot not found" });
+        return;
+      }
+      json(res, 200, { session: await restoreSession(params.name, snapshot) });
+    }),
+  },
+  {
+    method: "POST",
+    path: "/api/sandbox/sessions/:name/exec",
+    summary: "Run a command in a session container",
+    description: "Output is buffered; use the /ws/sandbox-exec WebSocket to stream it.",
+    request: {
+      body: {
+        type: "object",
+        properties: { container: { type: "string" }, cmd: { type: "string" }, timeout: { type: "integer", minimum: 1 } },
+        required: ["container", "cmd"],
+      },
+    },
+    handler: ({ res, params, rawBody }) => withSession(res, params.name, "exec", async () => {
+      const body = parseJson(rawBody) as { container: string; cmd: string; timeout?: number };
+      const result = await execInSession(params.name, body.container, body.cmd, { timeoutMs: body.timeout || 10_000 });
+      json(res, 200, { result });
+    }),
+  },
+];
@@ -0,0 +1,147 @@
+/**
+ * FHIR Ingestion API
+ *
+ * Clinics drop in EHR exports — a FHIR R4 transaction/collection Bundle
+ * or NDJSON bulk-export files — and get claim-ready encounters stored
+ * under their company, PHI encrypted. Responses carry per-encounter
+ * status and reasons only, never PHI.
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import type { ServerResponse } from "node:http";
+import { bundleEntries, importFHIRResources, phiKeyFromEnv, type ResourceEntry } from "../fhir-ingest.ts";
+import { parseNDJSON, type FHIRBundle } from "../connectors/fhir.ts";
+import { parseJson, type RouteContext, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("api:fhir-ingest");
+
+const UUID = /^[0-9a-f-]{36}$/;
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+/** Build, seal and store; replies with the import summary or the failure. */
+async function runImport(ctx: RouteContext, entries: ResourceEntry[], extra: Record<string, unknown> = {}): Promise<void> {
+  const companyId = ctx.params.company_id;
+  if (!UUID.test(companyId)) {
+    json(ctx.res, 400, { error: "company_id must be a UUID" });
+    return;
+  }
+  const dryRun = ctx.query.dry_run === "true";
+  const key = phiKeyFromEnv();
+  if (!dryRun && !key) {
+    json(ctx.res, 503, { error: "PHI encryption key not configured" });
+    return;
+  }
+  if (!dryRun && !ctx.deps.supabase) {
+    json(ctx.res, 503, { error: "Supabase not configured" });
+    return;
+  }
+
+  try {
+    const summary = await importFHIRResources(ctx.deps.supabase, entries, { companyId, key, dryRun });
+    logger.info(`Company ${companyId}: ${summary.stored}/${summary.encounters.length} encounters stored${dryRun ? " (dry run)" : ""}`);
+    json(ctx.res, 200, { ...summary, ...extra });
+  } catch (err) {
+    logger.error(`Import failed for company ${companyId}`, err);
+    json(ctx.res, 500, { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const bundleBody: JsonSchema = {
+  type: "object",
+  required: ["resourceType", "entry"],
+  properties: {
+    resourceType: { type: "string", enum: ["Bundle"] },
+    type: { type: "string", enum: ["transaction", "collection"] },
+    entry: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["resource"],
+        properties: { fullUrl: { type: "string" }, resource: { type: "object" } },
+      },
+    },
+  },
+};
+
+const importQuery: JsonSchema = {
+  type: "object",
+  properties: {
+    dry_run: { type: "string", enum: ["true", "false"], description: "true = build and validate only, store nothing" },
+  },
+};
+
+const importResponse = {
+  description: "Per-encounter import status",
+  schema: {
+    type: "object",
+    properties: {
+      company_id: { type: "string" },
+      resources: { type: "integer" },
+      stored: { type: "integer" },
+      dry_run: { type: "boolean" },
+      encounters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            fhir_encounter_id: { type: "string" },
+            claim_id: { type: ["string", "null"] },
+            status: { type: "string", enum: ["stored", "valid", "invalid"] },
+            errors: { type: "array", items: { type: "string" } },
+            warnings: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  } as JsonSchema,
+};
+
+const importErrors = {
+  400: { description: "Invalid company ID or export" },
+  503: { description: "PHI encryption key or Supabase not configured" },
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "POST",
+    path: "/api/billing/fhir/:company_id/bundle",
+    summary: "Import encounters from a FHIR Bundle",
+    description: "Accepts a transaction or collection Bundle. References resolve by Type/id or entry fullUrl.",
+    request: { body: bundleBody, query: importQuery },
+    responses: { 200: importResponse, ...importErrors },
+    handler: async (ctx) => {
+      const { entries, error } = bundleEntries(parseJson(ctx.rawBody) as unknown as FHIRBundle);
+      if (error) {
+        json(ctx.res, 400, { error });
+        return;
+      }
+      await runImport(ctx, entries);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/billing/fhir/:company_id/ndjson",
+    summary: "Import encounters from NDJSON bulk-export files",
+    description: "Body is one or more concatenated NDJSON files (Patient.ndjson, Encounter.ndjson, ...), one resource per line.",
+    request: { query: importQuery },
+    responses: { 200: importResponse, ...importErrors },
+    handler: async (ctx) => {
+      const { resources, errors } = parseNDJSON(ctx.rawBody);
+      if (resources.length === 0) {
+        json(ctx.res, 400, { error: "no FHIR resources in body", parse_errors: errors });
+        return;
+      }
+      await runImport(ctx, resources.map(resource => ({ resource })), { parse_errors: errors });
+    },
+  },
+];
@@ -18,7 +18,7 @@ import { notify } from "../notification-policy.ts";
 import { getNotifyCtx, getRelayDeps } from "../relay-state.ts";
 import { syncAllCalendars } from "../calendar-sync.ts";
 import { getMessage as outlookGetMessage } from "../outlook.ts";
-import { retrieveSecret } from "../../../ellie-forest/src/hollow.ts";
+import { DEFAULT_KEYCHAIN_ID, retrieveSecret } from "../vault.ts";
 
 // ── Payload interfaces ───────────────────────────────────
 
@@ -54,15 +54,16 @@ function errorMessage(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
 
-const KEYCHAIN_ID = "568c0a6a-0c98-4784-87f3-d909139d8c35";
 const MAX_TIMESTAMP_DRIFT_MS = 5 * 60_000; // 5 minutes — reject replayed requests
 
-// Cached HMAC secret — loaded from Hollow on first use
+// Cached HMAC secret — loaded from the vault on first use
 let _hmacSecret: string | null = null;
 async function getHmacSecret(): Promise<string> {
   if (_hmacSecret !== null) return _hmacSecret;
-  _hmacSecret = (await retrieveSecret(KEYCHAIN_ID, "gateway_hmac_secret")) || "";
-  if (_hmacSecret) logger.info("HMAC secret loaded from Hollow");
+  const { supabase } = getRelayDeps();
+  if (!supabase) return "";
+  _hmacSecret = (await retrieveSecret(supabase, DEFAULT_KEYCHAIN_ID, "gateway_hmac_secret", { actor: "gateway-intake", purpose: "verify HMAC" })) || "";
+  if (_hmacSecret) logger.info("HMAC secret loaded from the vault");
   return _hmacSecret;
 }
 
@@ -1,7 +1,7 @@
 /**
  * JWT auth — short-lived tokens for public API endpoint security.
  *
- * Signing secret loaded from the Hollow (no .env).
+ * Signing secret loaded from the vault keychain (no .env).
  * Tokens are scoped by audience (e.g. "tts", "stt") and expire in 1 hour.
  *
  * ELLIE-233
@@ -9,24 +9,27 @@
 
 import jwt from "jsonwebtoken";
 import type { IncomingMessage } from "http";
-import { retrieveSecret } from "../../../ellie-forest/src/hollow.ts";
 import { log } from "../logger.ts";
+import { getRelayDeps } from "../relay-state.ts";
+import { DEFAULT_KEYCHAIN_ID, retrieveSecret } from "../vault.ts";
 
 const logger = log.child("jwt-auth");
 
-const KEYCHAIN_ID = "568c0a6a-0c98-4784-87f3-d909139d8c35";
 const TOKEN_EXPIRY = "1h";
 const ISSUER = "ellie-relay";
 
-// Cached signing secret — loaded from Hollow on first use
+// Cached signing secret — loaded from the vault on first use
 let _signingSecret: string | null = null;
 
 async function getSigningSecret(): Promise<string> {
   if (_signingSecret) return _signingSecret;
-  const secret = await retrieveSecret(KEYCHAIN_ID, "jwt_signing_secret");
-  if (!secret) throw new Error("JWT signing secret not found in Hollow");
+  const { supabase } = getRelayDeps();
+  const secret = supabase
+    ? await retrieveSecret(supabase, DEFAULT_KEYCHAIN_ID, "jwt_signing_secret", { actor: "jwt-auth", purpose: "sign tokens" })
+    : null;
+  if (!secret) throw new Error("JWT signing secret not found in the vault");
   _signingSecret = secret;
-  logger.info("JWT signing secret loaded from Hollow");
+  logger.info("JWT signing secret loaded from the vault");
   return secret;
 }
 
@@ -0,0 +1,100 @@
+/**
+ * PHI Audit API
+ *
+ * Read path for the PHI redaction audit trail: which PHI fields were
+ * redacted from which surface (log, search index, agent prompt) and for
+ * whom. Entries come from the phi_audit_log table; without Supabase the
+ * relay only has its in-memory trail since startup, and says so.
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import type { ServerResponse } from "node:http";
+import type { RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { getPHIAuditTrail } from "../phi-redaction.ts";
+import { flushPHIAudit, listPHIAudit } from "../phi-audit-store.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("api:phi-audit");
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const entrySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    timestamp: { type: "string" },
+    actor: { type: "string" },
+    actor_type: { type: "string", enum: ["agent", "human", "system"] },
+    action: { type: "string" },
+    resource_type: { type: "string" },
+    resource_id: { type: "string" },
+    company_id: { type: "string" },
+    phi_fields_accessed: { type: "array", items: { type: "string" } },
+    detail: { type: ["string", "null"] },
+  },
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/phi/audit",
+    summary: "PHI redaction audit log",
+    description: "Newest first. source is \"memory\" when Supabase is not configured and only entries since startup are available.",
+    request: {
+      query: {
+        type: "object",
+        properties: {
+          actor: { type: "string" },
+          resource_type: { type: "string" },
+          since: { type: "string", format: "date-time" },
+          limit: { type: "string", pattern: "^[0-9]+$" },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Audit entries",
+        schema: {
+          type: "object",
+          properties: { source: { type: "string", enum: ["supabase", "memory"] }, entries: { type: "array", items: entrySchema } },
+        },
+      },
+    },
+    handler: async ({ res, query, deps }) => {
+      const filters = {
+        actor: query.actor,
+        resource_type: query.resource_type,
+        since: query.since,
+        limit: Math.min(Number(query.limit) || 100, 1000),
+      };
+
+      if (!deps.supabase) {
+        const since = filters.since ? Date.parse(filters.since) : NaN;
+        const entries = getPHIAuditTrail()
+          .filter(e => !filters.actor || e.actor === filters.actor)
+          .filter(e => !filters.resource_type || e.resource_type === filters.resource_type)
+          .filter(e => Number.isNaN(since) || Date.parse(e.timestamp) >= since)
+          .reverse()
+          .slice(0, filters.limit);
+        json(res, 200, { source: "memory", entries });
+        return;
+      }
+
+      try {
+        // Include entries still waiting in the write buffer
+        await flushPHIAudit();
+        json(res, 200, { source: "supabase", entries: await listPHIAudit(deps.supabase, filters) });
+      } catch (err) {
+        logger.error("PHI audit read failed", err);
+        json(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      }
+    },
+  },
+];
@@ -0,0 +1,89 @@
+/**
+ * Route manifest — the API modules mounted through the declarative router.
+ *
+ * Each module exports `routes: RouteSpec[]` (see route-table.ts). Modules are
+ * imported lazily on first request so that optional dependencies (e.g. the
+ * forest-backed vault) don't load at relay startup. To move a block out of
+ * http-routes.ts: declare its routes in the module, add a loader here, and
+ * delete the inline block.
+ *
+ * GET /api/openapi.json — OpenAPI 3.1 description of every mounted route.
+ */
+
+import {
+  createRouter,
+  buildOpenApiDocument,
+  isLocalRequest,
+  jsonReply,
+  type ManifestRouter,
+  type RouteModule,
+} from "../route-table.ts";
+import { checkBucketRate } from "../rate-limiter.ts";
+import { getRelayDeps } from "../relay-state.ts";
+import { EXTENSION_API_KEY } from "../relay-config.ts";
+import { authenticateRequest } from "./jwt-auth.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("route-manifest");
+
+export const OPENAPI_PATH = "/api/openapi.json";
+
+const API_INFO = {
+  title: "Ellie Relay API",
+  version: "1.0.0",
+  description: "Routes mounted from API route manifests. Legacy routes in http-routes.ts are not listed.",
+};
+
+export const ROUTE_MODULE_LOADERS: Array<() => Promise<RouteModule>> = [
+  async () => ({ name: "Scheduled tasks", routes: (await import("./scheduled-tasks.ts")).routes }),
+  async () => ({ name: "Vault", routes: (await import("./vault.ts")).routes }),
+  async () => ({ name: "FHIR ingestion", routes: (await import("./fhir-ingest.ts")).routes }),
+  async () => ({ name: "Claim scrubber", routes: (await import("./claim-scrubber.ts")).routes }),
+  async () => ({ name: "Access policies", routes: (await import("./access-policy.ts")).routes }),
+  async () => ({ name: "Agent audit chain", routes: (await import("./agent-audit.ts")).routes }),
+  async () => ({ name: "Terminal recordings", routes: (await import("./terminal-recordings.ts")).routes }),
+  async () => ({ name: "Sandbox sessions", routes: (await import("./docker-sandbox.ts")).routes }),
+  async () => ({ name: "PHI audit", routes: (await import("./phi-audit.ts")).routes }),
+];
+
+/** Module serving the OpenAPI document for the given modules (including itself). */
+export function openApiModule(modules: RouteModule[]): RouteModule {
+  const self: RouteModule = {
+    name: "OpenAPI",
+    routes: [{
+      method: "GET",
+      path: OPENAPI_PATH,
+      summary: "OpenAPI description of the manifest routes",
+      responses: { 200: { description: "OpenAPI 3.1 document" } },
+      handler: ({ res }) => jsonReply(res, buildOpenApiDocument([...modules, self], API_INFO)),
+    }],
+  };
+  return self;
+}
+
+let _router: Promise<ManifestRouter> | null = null;
+
+/** Load every manifest module; one that fails to import is logged and left unmounted. */
+export async function loadRouteModules(loaders = ROUTE_MODULE_LOADERS): Promise<RouteModule[]> {
+  const loaded = await Promise.all(loaders.map(load => load().catch(err => {
+    logger.error("Route module failed to load", err);
+    return null;
+  })));
+  return loaded.filter((m): m is RouteModule => m !== null);
+}
+
+/**
+ * The relay's manifest router, built on first use. Localhost callers skip
+ * "api" auth, matching the global middleware in http-routes.ts (ELLIE-546).
+ */
+export function getApiRouter(): Promise<ManifestRouter> {
+  _router ??= loadRouteModules().then(modules =>
+    createRouter([...modules, openApiModule(modules)], {
+      authenticate: async (req, scope) =>
+        isLocalRequest(req) || (await authenticateRequest(req, scope, EXTENSION_API_KEY)) !== null,
+      checkRate: checkBucketRate,
+      getDeps: getRelayDeps,
+    }),
+  );
+  return _router;
+}
@@ -0,0 +1,80 @@
+/**
+ * Dispatch queue HTTP routes — /api/dispatch-queue/*
+ *
+ * GET    /api/dispatch-queue      — queued dispatches, each work item in drain order
+ * PATCH  /api/dispatch-queue/:id  — body { priority?, position? } — reprioritize / move
+ * DELETE /api/dispatch-queue/:id  — cancel a queued dispatch
+ *
+ * Business logic lives in ../../dispatch-queue.ts.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { getQueueStatus, reorderQueued, cancelQueued } from "../../dispatch-queue.ts";
+import { DISPATCH_PRIORITIES, type DispatchPriority } from "../../dispatch-envelope.ts";
+import { readBody, sendError } from "./utils.ts";
+
+const ITEM_PATH = /^\/api\/dispatch-queue\/([^/]+)$/;
+
+export async function handleDispatchQueueRoute(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+): Promise<boolean> {
+  if (url.pathname === "/api/dispatch-queue" && req.method === "GET") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(getQueueStatus()));
+    return true;
+  }
+
+  const match = url.pathname.match(ITEM_PATH);
+  if (!match) return false;
+  const queueId = decodeURIComponent(match[1]);
+
+  if (req.method === "DELETE") {
+    if (!cancelQueued(queueId)) {
+      sendError(res, 404, "Queued dispatch not found");
+      return true;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, id: queueId }));
+    return true;
+  }
+
+  if (req.method !== "PATCH") return false;
+
+  let body: Record<string, unknown>;
+  try {
+    const raw = await readBody(req);
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    sendError(res, 400, "Invalid JSON body");
+    return true;
+  }
+
+  const { priority, position } = body;
+  if (priority === undefined && position === undefined) {
+    sendError(res, 400, "Provide priority and/or position");
+    return true;
+  }
+  if (priority !== undefined && !DISPATCH_PRIORITIES.includes(priority as DispatchPriority)) {
+    sendError(res, 400, `priority must be one of ${DISPATCH_PRIORITIES.join(", ")}`);
+    return true;
+  }
+  if (position !== undefined && (typeof position !== "number" || !Number.isInteger(position) || position < 1)) {
+    sendError(res, 400, "position must be a positive integer");
+    return true;
+  }
+
+  const result = reorderQueued(queueId, {
+    priority: priority as DispatchPriority | undefined,
+    position: position as number | undefined,
+  });
+  if (!result) {
+    sendError(res, 404, "Queued dispatch not found");
+    return true;
+  }
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ id: queueId, ...result }));
+  return true;
+}
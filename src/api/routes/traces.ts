@@ -0,0 +1,102 @@
+/**
+ * Trace HTTP routes — /api/traces/*
+ *
+ * GET /api/traces                      — recent traces (?limit=50)
+ * GET /api/traces/:traceId             — waterfall rows as JSON
+ * GET /api/traces/:traceId/waterfall   — waterfall rendered as an HTML page
+ * GET /api/traces/:traceId/otlp        — the trace's spans as OTLP/JSON
+ *
+ * Spans come from trace.ts's in-memory store, so only recent traces
+ * since the last relay start are available.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { getTraceSpans, listRecentTraces } from "../../trace.ts";
+import { buildWaterfall, toOtlpJson, type Waterfall } from "../../trace-export.ts";
+import { sendError } from "./utils.ts";
+
+const TRACE_PATH = /^\/api\/traces\/([0-9a-f]{1,32})(?:\/(waterfall|otlp))?$/;
+
+export async function handleTracesRoute(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+): Promise<boolean> {
+  if (req.method !== "GET" || !url.pathname.startsWith("/api/traces")) return false;
+
+  if (url.pathname === "/api/traces") {
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 50, 1), 200);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ traces: listRecentTraces(limit) }));
+    return true;
+  }
+
+  const match = url.pathname.match(TRACE_PATH);
+  if (!match) return false;
+  const [, traceId, view] = match;
+
+  if (view === "otlp") {
+    const spans = getTraceSpans(traceId);
+    if (spans.length === 0) {
+      sendError(res, 404, "Trace not found");
+      return true;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(toOtlpJson(spans)));
+    return true;
+  }
+
+  const waterfall = buildWaterfall(traceId);
+  if (!waterfall) {
+    sendError(res, 404, "Trace not found");
+    return true;
+  }
+
+  if (view === "waterfall") {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(renderWaterfallHtml(waterfall));
+    return true;
+  }
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(waterfall));
+  return true;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+/** Self-contained page: one row per span, bar offset/width scaled to the trace duration. */
+export function renderWaterfallHtml(w: Waterfall): string {
+  const total = Math.max(w.durationMs, 1);
+  const rows = w.rows.map(r => {
+    const left = (r.offsetMs / total) * 100;
+    const width = Math.max(((r.durationMs ?? total - r.offsetMs) / total) * 100, 0.3);
+    const color = r.status === "error" ? "#d9534f" : r.durationMs === null ? "#f0ad4e" : "#5b8def";
+    const duration = r.durationMs === null ? "open" : `${r.durationMs} ms`;
+    const title = escapeHtml(JSON.stringify({ ...r.attributes, ...(r.statusMessage ? { error: r.statusMessage } : {}) }));
+    return `<tr title="${title}">`
+      + `<td style="padding-left:${r.depth * 16 + 4}px">${escapeHtml(r.name)}</td>`
+      + `<td class="num">${duration}</td>`
+      + `<td class="bar"><div style="margin-left:${left.toFixed(2)}%;width:${width.toFixed(2)}%;background:${color}"></div></td>`
+      + `</tr>`;
+  }).join("\n");
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Trace ${escapeHtml(w.traceId)}</title>
+<style>
+body{font:13px system-ui,sans-serif;margin:16px}
+table{border-collapse:collapse;width:100%}
+td{padding:2px 4px;border-bottom:1px solid #eee;white-space:nowrap}
+td.num{text-align:right;color:#555;width:80px}
+td.bar{width:60%}
+td.bar div{height:12px;border-radius:2px}
+</style></head><body>
+<h3>Trace ${escapeHtml(w.traceId)} — ${w.durationMs} ms, ${w.rows.length} spans</h3>
+<p>Started ${new Date(w.startTime).toISOString()}</p>
+<table>
+${rows}
+</table>
+</body></html>`;
+}
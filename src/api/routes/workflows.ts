@@ -0,0 +1,92 @@
+/**
+ * Workflow HTTP routes — /api/workflows/*
+ *
+ * POST /api/workflows/simulate — dry-run a workflow definition with mocked agents
+ *
+ * Body: { config?: WorkflowConfig, yaml?: string, workflow?: string,
+ *         script?: SimulationScript, known_agents?: string[] }
+ * Exactly one of config (parsed JSON), yaml (raw definition) or workflow
+ * (name under config/workflows/) selects what to simulate.
+ * Business logic lives in ../../workflow-simulator.ts.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { loadWorkflowByName, parseWorkflowYaml, type WorkflowConfig } from "../../workflow-config.ts";
+import { simulateWorkflow, type SimulationScript } from "../../workflow-simulator.ts";
+import { log } from "../../logger.ts";
+import { readBody, sendError } from "./utils.ts";
+
+const logger = log.child("workflows-route");
+
+const OUTCOMES = new Set(["success", "failure", "timeout"]);
+
+export async function handleWorkflowsRoute(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+): Promise<boolean> {
+  if (url.pathname !== "/api/workflows/simulate" || req.method !== "POST") return false;
+
+  let body: Record<string, unknown>;
+  try {
+    const raw = await readBody(req);
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    sendError(res, 400, "Invalid JSON body");
+    return true;
+  }
+
+  const sources = [body.config, body.yaml, body.workflow].filter(v => v !== undefined);
+  if (sources.length !== 1) {
+    sendError(res, 400, "Provide exactly one of config, yaml or workflow");
+    return true;
+  }
+
+  let config: WorkflowConfig | null = null;
+  if (typeof body.yaml === "string") config = parseWorkflowYaml(body.yaml);
+  else if (typeof body.workflow === "string") config = loadWorkflowByName(body.workflow);
+  else if (isWorkflowConfig(body.config)) config = body.config;
+
+  if (!config) {
+    sendError(res, body.workflow ? 404 : 400, body.workflow ? `Unknown workflow "${body.workflow}"` : "Could not read workflow definition");
+    return true;
+  }
+
+  const scriptError = checkScript(body.script);
+  if (scriptError) {
+    sendError(res, 400, scriptError);
+    return true;
+  }
+
+  try {
+    const report = await simulateWorkflow(config, {
+      script: body.script as SimulationScript | undefined,
+      knownAgents: Array.isArray(body.known_agents) ? new Set(body.known_agents.map(String)) : undefined,
+    });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(report));
+  } catch (err) {
+    logger.error("Workflow simulation failed", { workflow: config.name }, err);
+    sendError(res, 500, err instanceof Error ? err.message : "Simulation failed");
+  }
+  return true;
+}
+
+function isWorkflowConfig(value: unknown): value is WorkflowConfig {
+  const v = value as WorkflowConfig | null;
+  return !!v && typeof v.name === "string" && Array.isArray(v.steps);
+}
+
+/** Returns an error message for a malformed script, or null. */
+function checkScript(script: unknown): string | null {
+  if (script === undefined) return null;
+  if (!script || typeof script !== "object" || Array.isArray(script)) return "script must be an object keyed by step path or agent";
+  for (const [key, entry] of Object.entries(script)) {
+    const outcomes = Array.isArray(entry) ? entry : [entry];
+    if (outcomes.length === 0) return `script.${key} is empty`;
+    for (const o of outcomes) {
+      if (!OUTCOMES.has(o?.outcome)) return `script.${key}: outcome must be success, failure or timeout`;
+    }
+  }
+  return null;
+}
@@ -1,11 +1,12 @@
 /**
  * Scheduled Tasks REST API — ELLIE-976
  *
- * CRUD + toggle + run history for user-configurable cron tasks.
- * Mounted under /api/scheduled-tasks in http-routes.ts.
+ * CRUD + toggle + run history for user-configurable cron tasks,
+ * run-now, and a cron preview (next fire times in a timezone).
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
  */
 
-import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ServerResponse } from "node:http";
 import {
   createTask,
   getTask,
@@ -15,132 +16,282 @@ import {
   setTaskEnabled,
   getTaskRuns,
   validateTaskInput,
+  validateScheduleOptions,
   schedulerTick,
   getDefaultExecutors,
+  runTaskNow,
+  previewSchedule,
+  CATCH_UP_POLICIES,
+  MAX_CATCH_UP_RUNS,
   type CreateTaskInput,
   type UpdateTaskInput,
   type TaskType,
 } from "../scheduled-tasks.ts";
+import { parseJson, type RouteContext, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
 import { log } from "../logger.ts";
 
 const logger = log.child("api:scheduled-tasks");
 
+const UUID = /^[0-9a-f-]{36}$/;
+const TASK_TYPES = ["formation", "dispatch", "http", "reminder"];
+
 function json(res: ServerResponse, status: number, data: unknown): void {
   res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify(data));
 }
 
-async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of req) chunks.push(chunk as Buffer);
-  return JSON.parse(Buffer.concat(chunks).toString());
+/** Task ID from the path, or null (and a 404 sent) if it isn't a UUID. */
+function taskId(ctx: RouteContext): string | null {
+  const { id } = ctx.params;
+  if (UUID.test(id)) return id;
+  json(ctx.res, 404, { error: "task not found" });
+  return null;
 }
 
-/**
- * Handle /api/scheduled-tasks routes.
- * Returns true if the route was handled.
- */
-export async function handleScheduledTasksRoute(
-  req: IncomingMessage,
-  res: ServerResponse,
-  pathname: string,
-): Promise<boolean> {
-  const method = req.method ?? "GET";
+// ── Schemas ──────────────────────────────────────────────────
 
-  // GET /api/scheduled-tasks — list all
-  if (pathname === "/api/scheduled-tasks" && method === "GET") {
-    const url = new URL(req.url ?? "/", "http://localhost");
-    const enabledOnly = url.searchParams.get("enabled") === "true";
-    const taskType = url.searchParams.get("type") as TaskType | null;
-    const tasks = await listTasks({ enabledOnly: enabledOnly || undefined, taskType: taskType || undefined });
-    json(res, 200, { tasks });
-    return true;
-  }
+const taskSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    description: { type: "string" },
+    task_type: { type: "string", enum: TASK_TYPES },
+    schedule: { type: "string", description: "5-field cron expression" },
+    timezone: { type: "string" },
+    enabled: { type: "boolean" },
+    config: { type: "object" },
+    last_run_at: { type: ["string", "null"], format: "date-time" },
+    next_run_at: { type: ["string", "null"], format: "date-time" },
+    last_status: { type: ["string", "null"] },
+    last_error: { type: ["string", "null"] },
+    consecutive_failures: { type: "integer" },
+    catch_up: { type: "string", enum: CATCH_UP_POLICIES },
+    catch_up_max: { type: "integer" },
+  },
+};
 
-  // POST /api/scheduled-tasks — create
-  if (pathname === "/api/scheduled-tasks" && method === "POST") {
-    const body = await readBody(req) as CreateTaskInput;
-    const error = validateTaskInput(body);
-    if (error) {
-      json(res, 400, { error });
-      return true;
-    }
-    const task = await createTask(body);
-    logger.info(`Created: ${task.name} (${task.task_type}, ${task.schedule})`);
-    json(res, 201, { task });
-    return true;
-  }
+const catchUpFields: Record<string, JsonSchema> = {
+  catch_up: { type: "string", enum: CATCH_UP_POLICIES, description: "What to do with runs missed while the relay was down" },
+  catch_up_max: { type: "integer", minimum: 1, maximum: MAX_CATCH_UP_RUNS, description: "run_all: most missed runs replayed per tick" },
+};
 
-  // POST /api/scheduled-tasks/tick — manually trigger a scheduler tick
-  if (pathname === "/api/scheduled-tasks/tick" && method === "POST") {
-    const result = await schedulerTick(getDefaultExecutors());
-    json(res, 200, { result });
-    return true;
-  }
+const createBody: JsonSchema = {
+  type: "object",
+  required: ["name", "task_type", "schedule", "config"],
+  properties: {
+    name: { type: "string", minLength: 1 },
+    description: { type: "string" },
+    task_type: { type: "string", enum: TASK_TYPES },
+    schedule: { type: "string" },
+    timezone: { type: "string" },
+    enabled: { type: "boolean" },
+    config: { type: "object" },
+    created_by: { type: "string" },
+    ...catchUpFields,
+  },
+};
 
-  // Routes with task ID: /api/scheduled-tasks/:id
-  const idMatch = pathname.match(/^\/api\/scheduled-tasks\/([0-9a-f-]{36})$/);
-  if (idMatch) {
-    const id = idMatch[1];
+const updateBody: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    description: { type: "string" },
+    schedule: { type: "string" },
+    timezone: { type: "string" },
+    enabled: { type: "boolean" },
+    config: { type: "object" },
+    ...catchUpFields,
+  },
+};
 
-    // GET /api/scheduled-tasks/:id
-    if (method === "GET") {
-      const task = await getTask(id);
-      if (!task) { json(res, 404, { error: "task not found" }); return true; }
-      json(res, 200, { task });
-      return true;
-    }
+const taskResponse = { description: "The task", schema: { type: "object", properties: { task: taskSchema } } as JsonSchema };
+const notFound = { description: "No task with that ID" };
 
-    // PATCH /api/scheduled-tasks/:id
-    if (method === "PATCH") {
-      const body = await readBody(req) as UpdateTaskInput;
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/scheduled-tasks",
+    summary: "List scheduled tasks",
+    request: {
+      query: {
+        type: "object",
+        properties: {
+          enabled: { type: "string", enum: ["true", "false"], description: "true = enabled tasks only" },
+          type: { type: "string", enum: TASK_TYPES },
+        },
+      },
+    },
+    responses: { 200: { description: "Tasks", schema: { type: "object", properties: { tasks: { type: "array", items: taskSchema } } } } },
+    handler: async ({ res, query }) => {
+      const tasks = await listTasks({
+        enabledOnly: query.enabled === "true" || undefined,
+        taskType: (query.type as TaskType | undefined) || undefined,
+      });
+      json(res, 200, { tasks });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/scheduled-tasks",
+    summary: "Create a scheduled task",
+    request: { body: createBody },
+    responses: { 201: taskResponse, 400: { description: "Invalid task" } },
+    handler: async ({ res, rawBody }) => {
+      const body = parseJson(rawBody) as unknown as CreateTaskInput;
+      const error = validateTaskInput(body);
+      if (error) {
+        json(res, 400, { error });
+        return;
+      }
+      const task = await createTask(body);
+      logger.info(`Created: ${task.name} (${task.task_type}, ${task.schedule})`);
+      json(res, 201, { task });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/scheduled-tasks/tick",
+    summary: "Run a scheduler tick now",
+    responses: { 200: { description: "Tick result" } },
+    handler: async ({ res }) => {
+      const result = await schedulerTick(getDefaultExecutors());
+      json(res, 200, { result });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/scheduled-tasks/preview",
+    summary: "Next fire times for a cron expression",
+    request: {
+      query: {
+        type: "object",
+        required: ["schedule"],
+        properties: {
+          schedule: { type: "string", description: "5-field cron expression" },
+          timezone: { type: "string", description: "IANA timezone, default America/Chicago" },
+          count: { type: "string", pattern: "^[0-9]+$", description: "max 50, default 5" },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Upcoming fire times",
+        schema: { type: "object", properties: { runs: { type: "array", items: { type: "string", format: "date-time" } } } },
+      },
+      400: { description: "Invalid schedule or timezone" },
+    },
+    handler: ({ res, query }) => {
+      const timezone = query.timezone || "America/Chicago";
+      const count = Math.min(Math.max(parseInt(query.count ?? "5", 10), 1), 50);
+      try {
+        const runs = previewSchedule(query.schedule, timezone, count);
+        json(res, 200, { schedule: query.schedule, timezone, runs: runs.map(r => r.toISOString()) });
+      } catch (err) {
+        json(res, 400, { error: err instanceof Error ? err.message : String(err) });
+      }
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/scheduled-tasks/:id",
+    summary: "Get a scheduled task",
+    responses: { 200: taskResponse, 404: notFound },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
+      const task = await getTask(id);
+      if (!task) { json(ctx.res, 404, { error: "task not found" }); return; }
+      json(ctx.res, 200, { task });
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/api/scheduled-tasks/:id",
+    summary: "Update a scheduled task",
+    request: { body: updateBody },
+    responses: { 200: taskResponse, 400: { description: "Invalid schedule, timezone or catch-up settings" }, 404: notFound },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
+      const body = parseJson(ctx.rawBody) as UpdateTaskInput;
+      const error = validateScheduleOptions(body);
+      if (error) {
+        json(ctx.res, 400, { error });
+        return;
+      }
       if (body.schedule) {
         try {
           const { parseCron } = await import("../types/formation-heartbeats");
           parseCron(body.schedule);
         } catch (err) {
-          json(res, 400, { error: `invalid schedule: ${err instanceof Error ? err.message : String(err)}` });
-          return true;
+          json(ctx.res, 400, { error: `invalid schedule: ${err instanceof Error ? err.message : String(err)}` });
+          return;
         }
       }
       const task = await updateTask(id, body);
-      if (!task) { json(res, 404, { error: "task not found" }); return true; }
-      json(res, 200, { task });
-      return true;
-    }
-
-    // DELETE /api/scheduled-tasks/:id
-    if (method === "DELETE") {
+      if (!task) { json(ctx.res, 404, { error: "task not found" }); return; }
+      json(ctx.res, 200, { task });
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/scheduled-tasks/:id",
+    summary: "Delete a scheduled task",
+    responses: { 200: { description: "Deleted" }, 404: notFound },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
       const deleted = await deleteTask(id);
-      if (!deleted) { json(res, 404, { error: "task not found" }); return true; }
-      json(res, 200, { ok: true });
-      return true;
-    }
-
-    return false;
-  }
-
-  // POST /api/scheduled-tasks/:id/toggle
-  const toggleMatch = pathname.match(/^\/api\/scheduled-tasks\/([0-9a-f-]{36})\/toggle$/);
-  if (toggleMatch && method === "POST") {
-    const id = toggleMatch[1];
-    const body = await readBody(req) as { enabled: boolean };
-    const task = await setTaskEnabled(id, !!body.enabled);
-    if (!task) { json(res, 404, { error: "task not found" }); return true; }
-    json(res, 200, { task });
-    return true;
-  }
-
-  // GET /api/scheduled-tasks/:id/runs
-  const runsMatch = pathname.match(/^\/api\/scheduled-tasks\/([0-9a-f-]{36})\/runs$/);
-  if (runsMatch && method === "GET") {
-    const id = runsMatch[1];
-    const url = new URL(req.url ?? "/", "http://localhost");
-    const limit = parseInt(url.searchParams.get("limit") ?? "20", 10);
-    const runs = await getTaskRuns(id, Math.min(limit, 100));
-    json(res, 200, { runs });
-    return true;
-  }
-
-  return false;
-}
+      if (!deleted) { json(ctx.res, 404, { error: "task not found" }); return; }
+      json(ctx.res, 200, { ok: true });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/scheduled-tasks/:id/toggle",
+    summary: "Enable or disable a scheduled task",
+    request: { body: { type: "object", required: ["enabled"], properties: { enabled: { type: "boolean" } } } },
+    responses: { 200: taskResponse, 404: notFound },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
+      const body = parseJson(ctx.rawBody) as { enabled: boolean };
+      const task = await setTaskEnabled(id, body.enabled);
+      if (!task) { json(ctx.res, 404, { error: "task not found" }); return; }
+      json(ctx.res, 200, { task });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/scheduled-tasks/:id/run",
+    summary: "Run a scheduled task now",
+    description: "Runs outside the schedule and records a normal run (trigger: manual). next_run_at is unchanged.",
+    responses: { 200: { description: "Run outcome" }, 404: notFound },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
+      const outcome = await runTaskNow(id);
+      if (!outcome) { json(ctx.res, 404, { error: "task not found" }); return; }
+      logger.info(`Run now: ${outcome.task.name} → ${outcome.status}`);
+      json(ctx.res, 200, { run_id: outcome.runId, status: outcome.status, error: outcome.error });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/scheduled-tasks/:id/runs",
+    summary: "Recent runs of a scheduled task",
+    request: { query: { type: "object", properties: { limit: { type: "string", pattern: "^[0-9]+$", description: "max 100, default 20" } } } },
+    responses: { 200: { description: "Runs, newest first" } },
+    handler: async (ctx) => {
+      const id = taskId(ctx);
+      if (!id) return;
+      const limit = parseInt(ctx.query.limit ?? "20", 10);
+      const runs = await getTaskRuns(id, Math.min(limit, 100));
+      json(ctx.res, 200, { runs });
+    },
+  },
+];
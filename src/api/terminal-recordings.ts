@@ -0,0 +1,130 @@
+/**
+ * Terminal Recordings API
+ *
+ * Lists and serves the asciicast v2 recordings of web terminal sessions
+ * (terminal-recorder.ts) for replay in the dashboard, and links a
+ * recording to the work item or dispatch it belongs to so reviewers can
+ * find it from there. Live sessions are watched over /ws/terminal instead.
+ * Declared as a route manifest; mounted via api/route-manifest.ts.
+ */
+
+import { createReadStream } from "node:fs";
+import type { ServerResponse } from "node:http";
+import { parseJson, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
+import { getRecording, getRecordingCastPath, linkRecording, listRecordings } from "../terminal-recorder.ts";
+
+function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+// ── Schemas ──────────────────────────────────────────────────
+
+const recordingSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: ["string", "null"] },
+    startedBy: { type: "string" },
+    workItemId: { type: ["string", "null"] },
+    dispatchId: { type: ["string", "null"] },
+    cols: { type: "integer" },
+    rows: { type: "integer" },
+    startedAt: { type: "string" },
+    endedAt: { type: ["string", "null"] },
+    durationSec: { type: ["number", "null"] },
+    exitCode: { type: ["integer", "null"] },
+    endReason: { type: ["string", "null"] },
+    bytes: { type: "integer" },
+  },
+};
+
+const linksSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    workItemId: { type: ["string", "null"], maxLength: 100 },
+    dispatchId: { type: ["string", "null"], maxLength: 100 },
+  },
+  additionalProperties: false,
+};
+
+// ── Routes ───────────────────────────────────────────────────
+
+export const routes: RouteSpec[] = [
+  {
+    method: "GET",
+    path: "/api/terminal/recordings",
+    summary: "List terminal recordings",
+    description: "Newest first. Recordings of running terminals have endedAt null.",
+    request: {
+      query: {
+        type: "object",
+        properties: {
+          workItemId: { type: "string" },
+          dispatchId: { type: "string" },
+          limit: { type: "string", pattern: "^[0-9]+$" },
+        },
+      },
+    },
+    responses: { 200: { description: "Recordings", schema: { type: "object", properties: { recordings: { type: "array", items: recordingSchema } } } } },
+    handler: ({ res, query }) => {
+      const recordings = listRecordings({
+        workItemId: query.workItemId,
+        dispatchId: query.dispatchId,
+        limit: Math.min(Number(query.limit) || 100, 500),
+      });
+      json(res, 200, { recordings });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/terminal/recordings/:id",
+    summary: "Get a terminal recording's details",
+    responses: { 200: { description: "Recording", schema: recordingSchema }, 404: { description: "No such recording" } },
+    handler: ({ res, params }) => {
+      const meta = getRecording(params.id);
+      if (!meta) {
+        json(res, 404, { error: "Recording not found" });
+        return;
+      }
+      json(res, 200, meta);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/terminal/recordings/:id/cast",
+    summary: "Download a terminal recording",
+    description: "asciicast v2, playable with asciinema-player. A running terminal's recording is returned as far as it has got.",
+    responses: { 200: { description: "asciicast v2 file" }, 404: { description: "No such recording" } },
+    handler: ({ res, params }) => {
+      const path = getRecordingCastPath(params.id);
+      if (!path) {
+        json(res, 404, { error: "Recording not found" });
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type": "application/x-asciicast",
+        "Content-Disposition": `inline; filename="${params.id}.cast"`,
+      });
+      createReadStream(path).pipe(res);
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/api/terminal/recordings/:id",
+    summary: "Link a terminal recording to a work item or dispatch",
+    description: "Set a field to null to unlink it; omitted fields are unchanged.",
+    request: { body: linksSchema },
+    responses: { 200: { description: "Updated recording", schema: recordingSchema }, 404: { description: "No such recording" } },
+    handler: ({ res, params, rawBody }) => {
+      const links = parseJson(rawBody) as { workItemId?: string | null; dispatchId?: string | null };
+      const meta = linkRecording(params.id, links);
+      if (!meta) {
+        json(res, 404, { error: "Recording not found" });
+        return;
+      }
+      json(res, 200, meta);
+    },
+  },
+];
@@ -1,40 +1,39 @@
 /**
- * Vault API Endpoints — ELLIE-253 Unified via The Hollow
+ * Vault API Endpoints — credential storage over src/vault.ts
  *
- * All credential operations now go through The Hollow (Forest DB).
- * API shape preserved for backward compatibility with dashboard.
+ * Credentials live in the Supabase `credentials` table, sealed with
+ * envelope encryption (per-credential data keys under a versioned master
+ * key). List/get/update never return secrets; the localhost-only resolve
+ * and fetch endpoints decrypt, and every decryption is recorded in
+ * credential_access_log under the caller's accessor.
  *
  * ELLIE-32: Original implementation.
- * ELLIE-253: Rewritten to use Hollow instead of Supabase credentials table.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { log } from "../logger.ts";
 import type { ApiRequest, ApiResponse } from "./types.ts";
+import { buildApiRequest, createApiResponse, type RouteHandler, type RouteSpec } from "../route-table.ts";
+import type { JsonSchema } from "../json-schema.ts";
 import {
-  storeCredential, getCredentialByDomain, getCredentialById,
-  listCredentials, updateCredential, deleteCredential,
-  listAllEntries,
-  type CredentialType, type HollowEntry,
-} from "../../../ellie-forest/src/hollow";
+  createCredential, getCredential, getDecryptedPayload, getCredentialForDomain,
+  listCredentials, updateCredential, deleteCredential, listCredentialAccess,
+  type ApiKeyPayload, type BearerTokenPayload, type CookiePayload, type OAuthPayload,
+  type CredentialPayload, type CredentialType, type VaultAccessor,
+} from "../vault.ts";
 
 const logger = log.child("vault");
 
-// Dave's keychain — single user system
-const KEYCHAIN_ID = '568c0a6a-0c98-4784-87f3-d909139d8c35';
-
-// Map HollowEntry to the old Credential shape for API compatibility
-function toCredentialRecord(entry: HollowEntry) {
-  return {
-    id: entry.id,
-    label: entry.label,
-    domain: entry.domain || '',
-    credential_type: entry.credential_type || 'api_key',
-    notes: entry.notes,
-    last_used_at: entry.last_used_at,
-    expires_at: entry.expires_at,
-    created_at: entry.created_at,
-    updated_at: entry.created_at,  // Hollow doesn't have updated_at separately
-  };
+const CREDENTIAL_TYPES: CredentialType[] = ["password", "api_key", "bearer_token", "cookie", "oauth"];
+
+/**
+ * Who is reading a secret. Localhost callers name themselves with `agent`
+ * (and optionally `purpose`) in the body; unnamed callers are "local".
+ */
+function accessorFrom(body: Record<string, unknown>, via: string): VaultAccessor {
+  const agent = typeof body.agent === "string" && body.agent ? body.agent : undefined;
+  const purpose = typeof body.purpose === "string" && body.purpose ? body.purpose : via;
+  return agent ? { actor: `agent:${agent}`, agent, purpose } : { actor: "local", purpose };
 }
 
 // ============================================================
@@ -45,7 +44,7 @@ function toCredentialRecord(entry: HollowEntry) {
  * POST /api/vault/credentials
  * Body: { label, domain, credential_type, payload, notes?, expires_at? }
  */
-export async function createVaultCredential(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function createVaultCredential(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
     const { label, domain, credential_type, payload, notes, expires_at } = req.body as Record<string, unknown>;
 
@@ -53,17 +52,17 @@ export async function createVaultCredential(req: ApiRequest, res: ApiResponse, _
       return res.status(400).json({ error: "Missing required fields: label, domain, credential_type, payload" });
     }
 
-    const entry = await storeCredential(KEYCHAIN_ID, {
+    const record = await createCredential(supabase, {
       label: normalizeLabel(label as string),
       domain: domain as string,
       credential_type: credential_type as CredentialType,
-      value: JSON.stringify(payload),
+      payload: payload as CredentialPayload,
       notes: notes as string | undefined,
-      expires_at: expires_at ? new Date(expires_at as string) : undefined,
+      expires_at: expires_at as string | undefined,
     });
 
     logger.info(`Created credential "${label}" for ${domain}`);
-    return res.json(toCredentialRecord(entry));
+    return res.json(record);
   } catch (err: unknown) {
     logger.error("Create failed", err);
     return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -74,13 +73,13 @@ export async function createVaultCredential(req: ApiRequest, res: ApiResponse, _
  * GET /api/vault/credentials
  * Query: ?domain=x&type=y
  */
-export async function listVaultCredentials(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function listVaultCredentials(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    const entries = await listCredentials({
+    const records = await listCredentials(supabase, {
       domain: req.query?.domain,
       credential_type: req.query?.type as CredentialType | undefined,
     });
-    return res.json(entries.map(toCredentialRecord));
+    return res.json(records);
   } catch (err: unknown) {
     logger.error("List failed", err);
     return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -90,11 +89,11 @@ export async function listVaultCredentials(req: ApiRequest, res: ApiResponse, _s
 /**
  * GET /api/vault/credentials/:id
  */
-export async function getVaultCredential(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function getVaultCredential(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    const result = await getCredentialById(req.params.id);
-    if (!result) return res.status(404).json({ error: "Credential not found" });
-    return res.json(toCredentialRecord(result.entry));
+    const record = await getCredential(supabase, req.params!.id!);
+    if (!record) return res.status(404).json({ error: "Credential not found" });
+    return res.json(record);
   } catch (err: unknown) {
     logger.error("Get failed", err);
     return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -104,19 +103,19 @@ export async function getVaultCredential(req: ApiRequest, res: ApiResponse, _sup
 /**
  * PATCH /api/vault/credentials/:id
  */
-export async function updateVaultCredential(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function updateVaultCredential(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    const updates: Record<string, unknown> = {};
-    if (req.body.label !== undefined) updates.label = req.body.label;
-    if (req.body.domain !== undefined) updates.domain = req.body.domain;
-    if (req.body.credential_type !== undefined) updates.credential_type = req.body.credential_type;
-    if (req.body.notes !== undefined) updates.notes = req.body.notes;
-    if (req.body.expires_at !== undefined) updates.expires_at = req.body.expires_at ? new Date(req.body.expires_at) : null;
-    if (req.body.payload !== undefined) updates.value = JSON.stringify(req.body.payload);
-
-    const entry = await updateCredential(req.params.id, updates);
-    logger.info(`Updated credential ${req.params.id}`);
-    return res.json(toCredentialRecord(entry));
+    const body = req.body ?? {};
+    const record = await updateCredential(supabase, req.params!.id!, {
+      label: body.label as string | undefined,
+      domain: body.domain as string | undefined,
+      credential_type: body.credential_type as CredentialType | undefined,
+      notes: body.notes as string | undefined,
+      expires_at: body.expires_at as string | null | undefined,
+      payload: body.payload as CredentialPayload | undefined,
+    });
+    logger.info(`Updated credential ${req.params!.id}`);
+    return res.json(record);
   } catch (err: unknown) {
     logger.error("Update failed", err);
     return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -126,10 +125,10 @@ export async function updateVaultCredential(req: ApiRequest, res: ApiResponse, _
 /**
  * DELETE /api/vault/credentials/:id
  */
-export async function deleteVaultCredential(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function deleteVaultCredential(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    await deleteCredential(req.params.id);
-    logger.info(`Deleted credential ${req.params.id}`);
+    await deleteCredential(supabase, req.params!.id!);
+    logger.info(`Deleted credential ${req.params!.id}`);
     return res.json({ success: true });
   } catch (err: unknown) {
     logger.error("Delete failed", err);
@@ -137,38 +136,56 @@ export async function deleteVaultCredential(req: ApiRequest, res: ApiResponse, _
   }
 }
 
+/**
+ * GET /api/vault/access
+ * Query: ?credential_id=x&actor=y&limit=n — who read which credential, newest first.
+ */
+export async function listVaultAccess(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
+  try {
+    const limit = req.query?.limit ? parseInt(req.query.limit, 10) : undefined;
+    const entries = await listCredentialAccess(supabase, {
+      credential_id: req.query?.credential_id,
+      actor: req.query?.actor,
+      limit: limit && limit > 0 ? Math.min(limit, 1000) : undefined,
+    });
+    return res.json(entries);
+  } catch (err: unknown) {
+    logger.error("Access log failed", err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
 // ============================================================
 // INTERNAL ENDPOINTS (localhost only)
 // ============================================================
 
 /**
  * POST /api/vault/resolve
- * Body: { domain: "github.com", type?: "api_key" } or { id: "uuid" }
+ * Body: { domain: "github.com", type?: "api_key", agent?, purpose? } or { id: "uuid", agent?, purpose? }
  * Returns decrypted credential payload. Internal use only.
  */
-export async function resolveVaultCredential(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function resolveVaultCredential(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    const { domain, type, id } = req.body;
+    const body = req.body ?? {};
+    const { domain, type, id } = body as { domain?: string; type?: string; id?: string };
 
     if (!domain && !id) {
       return res.status(400).json({ error: "Provide domain or id" });
     }
 
+    const accessor = accessorFrom(body, "resolve");
     let result;
     if (id) {
-      result = await getCredentialById(id);
+      result = (await getCredential(supabase, id)) ? await getDecryptedPayload(supabase, id, accessor) : null;
     } else {
-      result = await getCredentialByDomain(domain, type as CredentialType | undefined);
+      result = await getCredentialForDomain(supabase, domain!, type as CredentialType | undefined, accessor);
     }
 
     if (!result) {
       return res.status(404).json({ error: `No credential found for ${domain || id}` });
     }
 
-    return res.json({
-      record: toCredentialRecord(result.entry),
-      payload: result.payload,
-    });
+    return res.json(result);
   } catch (err: unknown) {
     logger.error("Resolve failed", err);
     return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
@@ -178,10 +195,13 @@ export async function resolveVaultCredential(req: ApiRequest, res: ApiResponse,
 /**
  * POST /api/vault/fetch
  * Authenticated fetch with credential injection.
+ * Body: { url, method?, headers?, body?, agent?, purpose? }
  */
-export async function authenticatedFetch(req: ApiRequest, res: ApiResponse, _supabase: unknown) {
+export async function authenticatedFetch(req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) {
   try {
-    const { url, method = "GET", headers = {}, body } = req.body;
+    const { url, method = "GET", headers = {}, body } = req.body as {
+      url?: string; method?: string; headers?: Record<string, string>; body?: string;
+    };
 
     if (!url) {
       return res.status(400).json({ error: "url is required" });
@@ -197,30 +217,30 @@ export async function authenticatedFetch(req: ApiRequest, res: ApiResponse, _sup
     const domain = targetUrl.hostname;
     const fetchHeaders: Record<string, string> = { ...headers };
 
-    const cred = await getCredentialByDomain(domain);
+    const cred = await getCredentialForDomain(supabase, domain, undefined, accessorFrom(req.body ?? {}, `fetch ${method} ${domain}`));
     if (!cred) {
       return res.status(404).json({ error: `No credentials found for domain: ${domain}` });
     }
 
-    switch (cred.entry.credential_type) {
+    switch (cred.record.credential_type) {
       case "bearer_token":
-        fetchHeaders["Authorization"] = `Bearer ${(cred.payload as Record<string, string>).token}`;
+        fetchHeaders["Authorization"] = `Bearer ${(cred.payload as BearerTokenPayload).token}`;
         break;
       case "api_key":
-        fetchHeaders["Authorization"] = `Bearer ${(cred.payload as Record<string, string>).key}`;
+        fetchHeaders["Authorization"] = `Bearer ${(cred.payload as ApiKeyPayload).key}`;
         break;
       case "cookie":
-        fetchHeaders["Cookie"] = (cred.payload as Record<string, string>).cookie;
+        fetchHeaders["Cookie"] = (cred.payload as CookiePayload).cookie;
         break;
       case "oauth":
-        if ((cred.payload as Record<string, string>).access_token) {
-          fetchHeaders["Authorization"] = `Bearer ${(cred.payload as Record<string, string>).access_token}`;
+        if ((cred.payload as OAuthPayload).access_token) {
+          fetchHeaders["Authorization"] = `Bearer ${(cred.payload as OAuthPayload).access_token}`;
         }
         break;
       case "password": {
         try {
           const { getAuthenticatedSession } = await import("../browser-auth.ts");
-          const session = await getAuthenticatedSession(null, domain);
+          const session = await getAuthenticatedSession(supabase, domain);
           if (session) {
             fetchHeaders["Cookie"] = session.cookies.map((c: { name: string; value: string }) => `${c.name}=${c.value}`).join("; ");
           }
@@ -260,8 +280,147 @@ export async function authenticatedFetch(req: ApiRequest, res: ApiResponse, _sup
 }
 
 /**
- * Normalize a label to hollow convention (snake_case).
+ * Normalize a label to snake_case.
  */
 function normalizeLabel(label: string): string {
   return label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
 }
+
+// ============================================================
+// ROUTE MANIFEST
+// ============================================================
+
+type VaultHandler = (req: ApiRequest, res: ApiResponse, supabase: SupabaseClient) => Promise<unknown>;
+
+/** Adapt a mock-Express vault handler to a manifest route handler. */
+function vaultRoute(handler: VaultHandler): RouteHandler {
+  return async (ctx) => {
+    if (!ctx.deps.supabase) {
+      ctx.res.writeHead(500, { "Content-Type": "application/json" });
+      ctx.res.end(JSON.stringify({ error: "Database not configured" }));
+      return;
+    }
+    await handler(buildApiRequest(ctx, { params: { id: ctx.params.id ?? null } }), createApiResponse(ctx.res), ctx.deps.supabase);
+  };
+}
+
+const credentialSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    label: { type: "string" },
+    domain: { type: "string" },
+    credential_type: { type: "string", enum: CREDENTIAL_TYPES },
+    notes: { type: ["string", "null"] },
+    last_used_at: { type: ["string", "null"], format: "date-time" },
+    expires_at: { type: ["string", "null"], format: "date-time" },
+    key_version: { type: ["integer", "null"], description: "Master key version wrapping the data key" },
+    created_at: { type: "string", format: "date-time" },
+    updated_at: { type: "string", format: "date-time" },
+  },
+};
+
+const credentialFields: Record<string, JsonSchema> = {
+  label: { type: "string", minLength: 1 },
+  domain: { type: "string", minLength: 1 },
+  credential_type: { type: "string", enum: CREDENTIAL_TYPES },
+  payload: { type: "object", description: "Secret material; shape depends on credential_type" },
+  notes: { type: "string" },
+  expires_at: { type: ["string", "null"], format: "date-time" },
+};
+
+export const routes: RouteSpec[] = [
+  {
+    method: "POST",
+    path: "/api/vault/credentials",
+    summary: "Store a credential",
+    request: { body: { type: "object", required: ["label", "domain", "credential_type", "payload"], properties: credentialFields } },
+    responses: { 200: { description: "The stored credential (no secret)", schema: credentialSchema } },
+    handler: vaultRoute(createVaultCredential),
+  },
+  {
+    method: "GET",
+    path: "/api/vault/credentials",
+    summary: "List credentials",
+    request: { query: { type: "object", properties: { domain: { type: "string" }, type: { type: "string", enum: CREDENTIAL_TYPES } } } },
+    responses: { 200: { description: "Credentials (no secrets)", schema: { type: "array", items: credentialSchema } } },
+    handler: vaultRoute(listVaultCredentials),
+  },
+  {
+    method: "GET",
+    path: "/api/vault/credentials/:id",
+    summary: "Get a credential",
+    responses: { 200: { description: "The credential (no secret)", schema: credentialSchema }, 404: { description: "Not found" } },
+    handler: vaultRoute(getVaultCredential),
+  },
+  {
+    method: "PATCH",
+    path: "/api/vault/credentials/:id",
+    summary: "Update a credential",
+    request: { body: { type: "object", properties: credentialFields } },
+    responses: { 200: { description: "The updated credential", schema: credentialSchema } },
+    handler: vaultRoute(updateVaultCredential),
+  },
+  {
+    method: "DELETE",
+    path: "/api/vault/credentials/:id",
+    summary: "Delete a credential",
+    handler: vaultRoute(deleteVaultCredential),
+  },
+  {
+    method: "GET",
+    path: "/api/vault/access",
+    summary: "Credential access log",
+    request: {
+      query: {
+        type: "object",
+        properties: { credential_id: { type: "string" }, actor: { type: "string" }, limit: { type: "string", pattern: "^[0-9]+$" } },
+      },
+    },
+    responses: { 200: { description: "Decryptions, newest first" } },
+    handler: vaultRoute(listVaultAccess),
+  },
+  {
+    method: "POST",
+    path: "/api/vault/resolve",
+    summary: "Resolve a decrypted credential (localhost only)",
+    auth: "local",
+    request: {
+      body: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          type: { type: "string", enum: CREDENTIAL_TYPES },
+          id: { type: "string" },
+          agent: { type: "string", description: "Agent reading the credential, for the access log" },
+          purpose: { type: "string" },
+        },
+      },
+    },
+    responses: { 200: { description: "Record and decrypted payload" }, 404: { description: "No credential" } },
+    handler: vaultRoute(resolveVaultCredential),
+  },
+  {
+    method: "POST",
+    path: "/api/vault/fetch",
+    summary: "Fetch a URL with the domain's credential injected (localhost only)",
+    auth: "local",
+    rateLimit: "tool",
+    request: {
+      body: {
+        type: "object",
+        required: ["url"],
+        properties: {
+          url: { type: "string", format: "uri" },
+          method: { type: "string" },
+          headers: { type: "object" },
+          body: { type: "string" },
+          agent: { type: "string", description: "Agent reading the credential, for the access log" },
+          purpose: { type: "string" },
+        },
+      },
+    },
+    responses: { 200: { description: "Upstream status, content type and body" } },
+    handler: vaultRoute(authenticatedFetch),
+  },
+];
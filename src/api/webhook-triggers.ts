@@ -2,7 +2,8 @@
  * Webhook Triggers REST API — ELLIE-977
  *
  * Management routes: /api/webhooks (CRUD, toggle, regenerate token, invocations)
- * Trigger route: /api/webhooks/trigger/:token (public, no auth needed — token IS the auth)
+ * Trigger route: /api/webhooks/trigger/:token (public, no auth needed — token IS the auth,
+ * plus the webhook's optional IP allowlist, HMAC signature and payload schema)
  */
 
 import type { IncomingMessage, ServerResponse } from "node:http";
@@ -16,9 +17,12 @@ import {
   regenerateToken,
   getInvocations,
   invokeWebhook,
+  setSigningSecret,
   validateWebhookInput,
+  validateVerificationInput,
   type CreateWebhookInput,
   type UpdateWebhookInput,
+  type RejectReason,
 } from "../webhook-triggers.ts";
 import { log } from "../logger.ts";
 
@@ -29,14 +33,48 @@ function json(res: ServerResponse, status: number, data: unknown): void {
   res.end(JSON.stringify(data));
 }
 
-async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+async function readRawBody(req: IncomingMessage): Promise<string> {
   const chunks: Buffer[] = [];
   for await (const chunk of req) chunks.push(chunk as Buffer);
-  const raw = Buffer.concat(chunks).toString();
+  return Buffer.concat(chunks).toString();
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const raw = await readRawBody(req);
   if (!raw.trim()) return {};
   return JSON.parse(raw);
 }
 
+const REJECT_STATUS: Record<RejectReason, number> = {
+  not_found: 404,
+  disabled: 404,
+  ip: 403,
+  signature: 401,
+  payload: 400,
+  cooldown: 429,
+};
+
+/**
+ * Proxies between the caller and the relay (the local tunnel is one). Each
+ * appends the address it received from to X-Forwarded-For, so only the
+ * rightmost this-many entries were written by infrastructure we trust.
+ */
+const TRUSTED_PROXY_HOPS = Math.max(1, parseInt(process.env.WEBHOOK_TRUSTED_PROXY_HOPS || "1", 10) || 1);
+
+/**
+ * Caller IP. X-Forwarded-For is only trusted from a loopback peer (the local
+ * tunnel/proxy), and then only the entry our own proxies appended — the
+ * leftmost entries come from the client and could spoof past an allowlist.
+ */
+export function webhookSourceIp(req: IncomingMessage, trustedHops = TRUSTED_PROXY_HOPS): string | null {
+  const peer = req.socket?.remoteAddress ?? null;
+  const isLoopback = peer === "127.0.0.1" || peer === "::1" || peer === "::ffff:127.0.0.1";
+  const hops = ((req.headers["x-forwarded-for"] as string | undefined) ?? "")
+    .split(",").map(h => h.trim()).filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - trustedHops)];
+  return (isLoopback && forwarded) || peer;
+}
+
 /**
  * Handle /api/webhooks routes.
  * Returns true if the route was handled.
@@ -53,12 +91,9 @@ export async function handleWebhookRoutes(
   const triggerMatch = pathname.match(/^\/api\/webhooks\/trigger\/([a-f0-9]{48})$/);
   if (triggerMatch && method === "POST") {
     const token = triggerMatch[1];
-    const payload = await readBody(req);
-    const sourceIp = (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim()
-      || req.socket?.remoteAddress
-      || null;
-    const result = await invokeWebhook(token, payload, sourceIp);
-    json(res, result.ok ? 200 : result.status === "rejected" ? 429 : 500, result);
+    const rawBody = await readRawBody(req);
+    const result = await invokeWebhook(token, { rawBody, sourceIp: webhookSourceIp(req), headers: req.headers });
+    json(res, result.ok ? 200 : result.rejected_by ? REJECT_STATUS[result.rejected_by] : 500, result);
     return true;
   }
 
@@ -101,6 +136,11 @@ export async function handleWebhookRoutes(
 
     if (method === "PATCH") {
       const body = await readBody(req) as UpdateWebhookInput;
+      const error = validateVerificationInput(body);
+      if (error) {
+        json(res, 400, { error });
+        return true;
+      }
       const webhook = await updateWebhook(id, body);
       if (!webhook) { json(res, 404, { error: "webhook not found" }); return true; }
       json(res, 200, { webhook });
@@ -136,6 +176,17 @@ export async function handleWebhookRoutes(
     return true;
   }
 
+  // POST /api/webhooks/:id/signing-secret — { enabled } turns signing on (new secret) or off
+  const secretMatch = pathname.match(/^\/api\/webhooks\/([0-9a-f-]{36})\/signing-secret$/);
+  if (secretMatch && method === "POST") {
+    const body = await readBody(req) as { enabled?: boolean };
+    const webhook = await setSigningSecret(secretMatch[1], body.enabled !== false);
+    if (!webhook) { json(res, 404, { error: "webhook not found" }); return true; }
+    logger.info(`Signing ${webhook.signing_secret ? "enabled" : "disabled"}: ${webhook.name}`);
+    json(res, 200, { webhook });
+    return true;
+  }
+
   // GET /api/webhooks/:id/invocations
   const invMatch = pathname.match(/^\/api\/webhooks\/([0-9a-f-]{36})\/invocations$/);
   if (invMatch && method === "GET") {
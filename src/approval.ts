@@ -1,8 +1,8 @@
 /**
  * Approval Module
  *
- * Human-in-the-loop confirmations via Telegram inline keyboards
- * and Google Chat card buttons.
+ * Human-in-the-loop confirmations via Telegram inline keyboards,
+ * Google Chat card buttons and Matrix reactions.
  * Claude requests approval by including [CONFIRM: description] tags
  * in its response. The relay parses these, shows buttons, and
  * resumes the session with the user's decision.
@@ -20,7 +20,7 @@ export interface PendingAction {
   chatId: number;
   messageId: number;
   createdAt: number;
-  channel?: "telegram" | "google-chat";
+  channel?: "telegram" | "google-chat" | "matrix";
   spaceName?: string;
   agentName?: string;
 }
@@ -58,7 +58,7 @@ export function storePendingAction(
   sessionId: string | null,
   chatId: number,
   messageId: number,
-  extra?: { channel?: "telegram" | "google-chat"; spaceName?: string; agentName?: string },
+  extra?: { channel?: "telegram" | "google-chat" | "matrix"; spaceName?: string; agentName?: string },
 ): void {
   pendingActions.set(id, {
     id,
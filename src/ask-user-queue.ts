@@ -3,10 +3,13 @@
  *
  * In-memory queue for dispatched agents to ask the user questions.
  * An MCP tool enqueues a question and blocks; the relay answers it
- * when the user replies.
+ * when the user replies. Questions with options are also posted as
+ * interactive prompts, so a button press on Slack / Discord / Google
+ * Chat answers them with the option's text.
  */
 
 import { log } from "./logger.ts";
+import { closePrompt, openPrompt } from "./interactive-prompts.ts";
 
 const logger = log.child("ask-user-queue");
 
@@ -81,6 +84,18 @@ export function enqueueQuestion(
 
   logger.info("Question enqueued", { id: id.slice(0, 8), agentName, question: question.slice(0, 100) });
 
+  const options = opts?.options;
+  if (options?.length) {
+    openPrompt({
+      kind: "question",
+      itemId: id,
+      question: `${agentName} asks: ${question}`,
+      options: options.map((label, i) => ({ id: String(i), label })),
+      expiresAt: Date.now() + QUESTION_TIMEOUT_MS,
+      onAnswer: optionId => { answerQuestion(id, options[Number(optionId)]); },
+    });
+  }
+
   return id;
 }
 
@@ -97,6 +112,7 @@ export function answerQuestion(questionId: string, answer: string): boolean {
 
   logger.info("Question answered", { id: questionId.slice(0, 8), agentName: entry.question.agentName });
   entry.resolve(answer);
+  void closePrompt("question", questionId, `Answered: ${answer}`);
 
   return true;
 }
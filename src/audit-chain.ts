@@ -0,0 +1,297 @@
+/**
+ * Audit Chain — tamper evidence for the agent audit log
+ *
+ * Every agent_audit_log entry is linked by hash to its predecessor in the
+ * same chain (one chain per company, plus "global" for entries without
+ * one):
+ *
+ *   content_hash = sha256(canonical JSON of the entry's fields)
+ *   entry_hash   = sha256(prev_hash + content_hash)
+ *
+ * The first entry links to GENESIS_HASH. Retention does not leave a gap:
+ * before it deletes the start of a chain it stores a checkpoint naming the
+ * last deleted seq and its entry_hash, signed with Ed25519, and the next
+ * surviving entry links to that.
+ *
+ * Keys (PEM):
+ *   AUDIT_CHECKPOINT_KEY         — PKCS#8 Ed25519 private key; signs checkpoints
+ *   AUDIT_CHECKPOINT_PUBLIC_KEY  — SPKI public key; verifies them (default: derived from the private key)
+ *
+ * Pure functions only — no database. agent-audit-log.ts stores the chain,
+ * and verifyAuditBundle() lets an auditor check an export offline.
+ * A chain cannot prove its own tail is complete: compare the reported
+ * head against an earlier export to detect truncation.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from "crypto";
+
+// ── Types ────────────────────────────────────────────────────
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export const AUDIT_BUNDLE_FORMAT = "ellie-agent-audit/v1";
+
+/** Chain an entry belongs to. */
+export function chainKeyFor(companyId: string | null | undefined): string {
+  return companyId ? companyId.toLowerCase() : "global";
+}
+
+/** The hashed fields of an audit entry plus its link. */
+export interface ChainedEntry {
+  id: string;
+  created_at: Date | string;
+  agent_id: string;
+  company_id: string | null;
+  action_type: string;
+  action_detail: Record<string, unknown>;
+  formation_session_id: string | null;
+  work_item_id: string | null;
+  seq: number;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+/** A position in a chain: the seq of an entry and its entry_hash. */
+export interface ChainLink {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditCheckpoint {
+  chain_key: string;
+  /** Last deleted entry. */
+  through_seq: number;
+  through_hash: string;
+  /** Entries removed by this checkpoint (since the previous one). */
+  deleted_count: number;
+  signed_at: string;
+  key_fingerprint: string;
+  /** Base64 Ed25519 signature over checkpointPayload(). */
+  signature: string;
+}
+
+export interface ChainBreak {
+  seq: number | null;
+  entry_id: string | null;
+  reason: string;
+}
+
+export interface ChainVerification {
+  ok: boolean;
+  chain_key: string;
+  /** Entries whose links were checked. */
+  checked: number;
+  checkpoints: number;
+  first_break: ChainBreak | null;
+  /** Last verified link — compare with an earlier export to detect truncation. */
+  head: ChainLink;
+}
+
+export interface AuditBundle {
+  format: typeof AUDIT_BUNDLE_FORMAT;
+  chain_key: string;
+  exported_at: string;
+  genesis_hash: string;
+  public_key: string | null;
+  key_fingerprint: string | null;
+  checkpoints: AuditCheckpoint[];
+  entries: ChainedEntry[];
+  head: ChainLink;
+}
+
+// ── Hashing ──────────────────────────────────────────────────
+
+/** JSON with object keys sorted at every level. Pure function. */
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(",")}}`;
+}
+
+export function sha256Hex(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+function lower(id: string | null): string | null {
+  return id === null ? null : id.toLowerCase();
+}
+
+/**
+ * Hash of an entry's recorded fields. UUIDs are lowercased and timestamps
+ * normalised to ISO so the hash survives a round trip through Postgres.
+ * Pure function.
+ */
+export function contentHash(entry: Omit<ChainedEntry, "seq" | "prev_hash" | "entry_hash">): string {
+  return sha256Hex(canonicalJSON({
+    id: entry.id.toLowerCase(),
+    created_at: new Date(entry.created_at).toISOString(),
+    agent_id: entry.agent_id.toLowerCase(),
+    company_id: lower(entry.company_id),
+    action_type: entry.action_type,
+    action_detail: entry.action_detail ?? {},
+    formation_session_id: lower(entry.formation_session_id),
+    work_item_id: entry.work_item_id,
+  }));
+}
+
+/**
+ * entry_hash for a content hash following prevHash. Postgres computes the
+ * same value as encode(sha256(convert_to(prev_hash || content_hash, 'UTF8')), 'hex').
+ */
+export function linkHash(prevHash: string, content: string): string {
+  return sha256Hex(prevHash + content);
+}
+
+// ── Checkpoint signing ───────────────────────────────────────
+
+/** Checkpoint signing key from AUDIT_CHECKPOINT_KEY, or null when unset. */
+export function loadSigningKey(env: Record<string, string | undefined> = process.env): KeyObject | null {
+  const pem = env.AUDIT_CHECKPOINT_KEY;
+  return pem ? createPrivateKey(pem.replace(/\\n/g, "\n")) : null;
+}
+
+/** Verification key (SPKI PEM) from AUDIT_CHECKPOINT_PUBLIC_KEY or the signing key, or null. */
+export function loadVerifyKey(env: Record<string, string | undefined> = process.env): string | null {
+  if (env.AUDIT_CHECKPOINT_PUBLIC_KEY) return env.AUDIT_CHECKPOINT_PUBLIC_KEY.replace(/\\n/g, "\n");
+  const signing = loadSigningKey(env);
+  return signing ? publicKeyPem(signing) : null;
+}
+
+export function publicKeyPem(key: KeyObject): string {
+  const pub = key.type === "private" ? createPublicKey(key) : key;
+  return pub.export({ type: "spki", format: "pem" }).toString();
+}
+
+/** Short identifier of a public key: first 16 hex chars of sha256 over its DER. */
+export function keyFingerprint(publicPem: string): string {
+  const der = createPublicKey(publicPem).export({ type: "spki", format: "der" });
+  return createHash("sha256").update(der).digest("hex").slice(0, 16);
+}
+
+/** The bytes a checkpoint signature covers. Pure function. */
+export function checkpointPayload(cp: Omit<AuditCheckpoint, "signature" | "key_fingerprint">): string {
+  return canonicalJSON({
+    chain_key: cp.chain_key,
+    through_seq: cp.through_seq,
+    through_hash: cp.through_hash,
+    deleted_count: cp.deleted_count,
+    signed_at: cp.signed_at,
+  });
+}
+
+export function signCheckpoint(
+  fields: Omit<AuditCheckpoint, "signature" | "key_fingerprint" | "signed_at"> & { signed_at?: string },
+  privateKey: KeyObject,
+): AuditCheckpoint {
+  const unsigned = { ...fields, signed_at: fields.signed_at ?? new Date().toISOString() };
+  return {
+    ...unsigned,
+    key_fingerprint: keyFingerprint(publicKeyPem(privateKey)),
+    signature: sign(null, Buffer.from(checkpointPayload(unsigned)), privateKey).toString("base64"),
+  };
+}
+
+export function verifyCheckpointSignature(cp: AuditCheckpoint, publicPem: string): boolean {
+  try {
+    return verify(null, Buffer.from(checkpointPayload(cp)), createPublicKey(publicPem), Buffer.from(cp.signature, "base64"));
+  } catch {
+    return false;
+  }
+}
+
+// ── Verification ─────────────────────────────────────────────
+
+export interface SegmentResult {
+  ok: boolean;
+  checked: number;
+  first_break: ChainBreak | null;
+  head: ChainLink;
+}
+
+/**
+ * Check a chain's checkpoints (ascending through_seq) and return the link
+ * the first surviving entry must follow. Pure function.
+ */
+export function verifyCheckpoints(
+  chainKey: string,
+  checkpoints: AuditCheckpoint[],
+  publicPem: string | null,
+): SegmentResult {
+  let head: ChainLink = { seq: 0, hash: GENESIS_HASH };
+  const fail = (cp: AuditCheckpoint, reason: string): SegmentResult =>
+    ({ ok: false, checked: 0, first_break: { seq: cp.through_seq, entry_id: null, reason }, head });
+
+  for (const cp of checkpoints) {
+    if (cp.chain_key !== chainKey) return fail(cp, `checkpoint belongs to chain ${cp.chain_key}`);
+    if (cp.through_seq <= head.seq) return fail(cp, `checkpoint through_seq ${cp.through_seq} does not advance past ${head.seq}`);
+    if (!publicPem) return fail(cp, "no public key to verify checkpoint signature");
+    if (!verifyCheckpointSignature(cp, publicPem)) return fail(cp, "checkpoint signature invalid");
+    head = { seq: cp.through_seq, hash: cp.through_hash };
+  }
+  return { ok: true, checked: 0, first_break: null, head };
+}
+
+/**
+ * Check that entries (ascending seq) continue the chain from `from`.
+ * Feed pages in order, passing each result's head as the next `from`.
+ * Stops at the first broken link. Pure function.
+ */
+export function verifyChainEntries(entries: ChainedEntry[], from: ChainLink): SegmentResult {
+  let head = from;
+  let checked = 0;
+  for (const entry of entries) {
+    const at = (reason: string): SegmentResult =>
+      ({ ok: false, checked, first_break: { seq: entry.seq, entry_id: entry.id, reason }, head });
+
+    const seq = Number(entry.seq);
+    if (seq !== head.seq + 1) {
+      return at(seq > head.seq + 1
+        ? `entries ${head.seq + 1}..${seq - 1} missing`
+        : `seq ${seq} out of order after ${head.seq}`);
+    }
+    if (entry.prev_hash !== head.hash) return at("prev_hash does not match the preceding link");
+    if (entry.entry_hash !== linkHash(entry.prev_hash, contentHash(entry))) return at("entry_hash does not match the entry's content");
+    head = { seq, hash: entry.entry_hash };
+    checked++;
+  }
+  return { ok: true, checked, first_break: null, head };
+}
+
+/**
+ * Verify an exported bundle offline. Pass the public key obtained from the
+ * operator; the bundle's own key is used otherwise, which only proves the
+ * bundle is self-consistent.
+ */
+export function verifyAuditBundle(bundle: AuditBundle, publicPem?: string): ChainVerification {
+  const result = (r: SegmentResult, checked: number): ChainVerification => ({
+    ok: r.ok,
+    chain_key: bundle.chain_key,
+    checked,
+    checkpoints: bundle.checkpoints.length,
+    first_break: r.first_break,
+    head: r.head,
+  });
+
+  if (bundle.format !== AUDIT_BUNDLE_FORMAT) {
+    return result({
+      ok: false, checked: 0, head: { seq: 0, hash: GENESIS_HASH },
+      first_break: { seq: null, entry_id: null, reason: `unsupported bundle format ${bundle.format}` },
+    }, 0);
+  }
+
+  const start = verifyCheckpoints(bundle.chain_key, bundle.checkpoints, publicPem ?? bundle.public_key);
+  if (!start.ok) return result(start, 0);
+  const walk = verifyChainEntries(bundle.entries, start.head);
+  if (walk.ok && (walk.head.seq !== bundle.head.seq || walk.head.hash !== bundle.head.hash)) {
+    return result({
+      ...walk,
+      ok: false,
+      first_break: { seq: bundle.head.seq, entry_id: null, reason: "bundle head does not match its last entry" },
+    }, walk.checked);
+  }
+  return result(walk, walk.checked);
+}
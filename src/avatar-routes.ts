@@ -98,10 +98,10 @@ export function handleAvatarRoutes(
         }
 
         const text = data.text.substring(0, 4000);
-        const providerOverride = (data.provider === "elevenlabs" || data.provider === "openai")
-          ? data.provider : undefined;
-
-        const stream = await textToSpeechPCM16Stream(text, providerOverride);
+        const stream = await textToSpeechPCM16Stream(text, {
+          provider: typeof data.provider === "string" ? data.provider : undefined,
+          voice: typeof data.voice === "string" ? data.voice : undefined,
+        });
         if (!stream) {
           res.writeHead(503, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "TTS unavailable" }));
@@ -0,0 +1,344 @@
+/**
+ * Billing Lifecycle Runner — offline revenue-cycle regression
+ *
+ * Pushes a batch of encounters through every billing agent against the
+ * clearinghouse simulator: claim submission (837P) → claims tracking
+ * (277 polls) → denial management → appeals → payment posting (835),
+ * advancing simulated days until every claim settles or maxDays runs out.
+ *
+ * Orchestration only — the agents are pure and the clearinghouse is
+ * simulated, so a run is deterministic for a given batch and scenario.
+ */
+
+import {
+  buildClaim,
+  buildOutcome,
+  type CheckPriorAuthFn,
+  type ClaimDocument,
+  type ClaimSubmissionOutcome,
+  type EncounterInput,
+  type GetFeeScheduleFn,
+} from "./claim-submission";
+import {
+  routeStatusChange,
+  runTrackingPipeline,
+  type ClaimAlert,
+  type ClaimStatus,
+  type StatusChange,
+  type TrackedClaim,
+} from "./claims-tracking";
+import { analyzeDenial, type DenialManagementOutcome } from "./denial-management";
+import { buildAppealOutcome, buildAppealPackage, VALID_APPEAL_LEVELS, type AppealOutcome } from "./appeals-agent";
+import { runPaymentPostingPipeline, type PaymentPostingOutcome, type RemittanceLine, type SubmittedClaim } from "./payment-posting";
+import { formatEDI837P, parseEDI835 } from "./payer-integration";
+import { scrubForSubmission, type ScrubContext, type ScrubRule } from "./claim-scrubber";
+import { createControlNumberAllocator, type X12Party } from "./x12";
+import type { PipelineStage } from "./billing-test-utils";
+import type { StatusResponse } from "./connectors/clearinghouse";
+import type { ClearinghouseSimulator } from "./connectors/clearinghouse-simulator";
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface LifecycleOptions {
+  /** Defaults to "no prior auth required". */
+  checkPriorAuth?: CheckPriorAuthFn;
+  getFeeSchedule?: GetFeeScheduleFn;
+  /** ISA sender on outgoing 837s. */
+  submitter?: X12Party;
+  /** Simulated days between tracking polls. Default 1. */
+  pollIntervalDays?: number;
+  /** Stop polling after this many simulated days. Default 180. */
+  maxDays?: number;
+  /** Appeals filed per claim before a denial is final. Default 1. */
+  maxAppeals?: number;
+  /** Scrub each claim before the 837P is generated; error findings block submission. */
+  scrub?: { rules: ScrubRule[]; context?: Partial<ScrubContext> };
+}
+
+/** One encounter's path through the revenue cycle. */
+export interface LifecycleClaim {
+  encounter_id: string;
+  claim_id: string | null;
+  tracking_number: string | null;
+  /** Final tracked status; null when the claim never reached the clearinghouse. */
+  status: ClaimStatus | null;
+  submission: ClaimSubmissionOutcome | null;
+  /** Claim-building errors, scrubber errors or 999 rejections. */
+  errors: string[];
+  denials: DenialManagementOutcome[];
+  appeals: AppealOutcome[];
+  paid_cents: number;
+  settled_on: string | null;
+}
+
+export interface LifecycleResult {
+  claims: LifecycleClaim[];
+  status_changes: StatusChange[];
+  alerts: ClaimAlert[];
+  /** One posting run per 835 received. */
+  postings: PaymentPostingOutcome[];
+  /** Stages exercised, in the order first reached. */
+  stages: PipelineStage[];
+  started_on: string;
+  finished_on: string;
+  /** Claims still open when maxDays ran out. */
+  unsettled: string[];
+}
+
+// ── Status Mapping ──────────────────────────────────────────
+
+/**
+ * Map a 277 status onto the tracking agent's claim status. A pending
+ * status after an appeal keeps the claim "appealed".
+ * Pure function.
+ */
+export function toClaimStatus(response: StatusResponse, previous: ClaimStatus): ClaimStatus {
+  switch (response.status) {
+    case "accepted": return "received";
+    case "pending": return previous === "appealed" ? "appealed" : "processing";
+    case "paid": return "paid";
+    case "denied": return "denied";
+    case "rejected": return "closed";
+    default: return previous;
+  }
+}
+
+/** The denial code the denial agent understands, e.g. "CO-50", from an 835 line. */
+export function denialCodeFromRemittance(line: RemittanceLine): string {
+  const denial = line.adjustments.find(a => a.group_code !== "PR") ?? line.adjustments[0];
+  return denial ? `${denial.group_code}-${denial.reason_code}` : "unknown";
+}
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+
+// ── Runner ──────────────────────────────────────────────────
+
+interface ClaimState {
+  result: LifecycleClaim;
+  document: ClaimDocument;
+  tracked: TrackedClaim;
+  remits: RemittanceLine[];
+  final: boolean;
+}
+
+/**
+ * Run a batch of encounters through submit → track → deny → appeal →
+ * post against a simulator, until every claim is paid or finally denied.
+ */
+export async function runBillingLifecycle(
+  encounters: EncounterInput[],
+  simulator: ClearinghouseSimulator,
+  options: LifecycleOptions = {},
+): Promise<LifecycleResult> {
+  const checkPriorAuth = options.checkPriorAuth ?? (async () => ({ requires_prior_auth: false, auth_phone: null, notes: null }));
+  const pollInterval = options.pollIntervalDays ?? 1;
+  const maxDays = options.maxDays ?? 180;
+  const maxAppeals = options.maxAppeals ?? 1;
+  const controlNumbers = createControlNumberAllocator();
+  const startedOn = simulator.today();
+
+  const stages: PipelineStage[] = [];
+  const reach = (stage: PipelineStage) => { if (!stages.includes(stage)) stages.push(stage); };
+  const claims: LifecycleClaim[] = [];
+  const open = new Map<string, ClaimState>();
+  const statusChanges: StatusChange[] = [];
+  const alerts: ClaimAlert[] = [];
+  const postings: PaymentPostingOutcome[] = [];
+
+  // Submit
+  for (const encounter of encounters) {
+    reach("claim_submission");
+    const result: LifecycleClaim = {
+      encounter_id: encounter.encounter_id,
+      claim_id: null,
+      tracking_number: null,
+      status: null,
+      submission: null,
+      errors: [],
+      denials: [],
+      appeals: [],
+      paid_cents: 0,
+      settled_on: null,
+    };
+    claims.push(result);
+
+    const { claim, errors } = await buildClaim(encounter, { checkPriorAuth, getFeeSchedule: options.getFeeSchedule });
+    if (!claim) {
+      result.errors = errors;
+      continue;
+    }
+    result.claim_id = claim.claim_id;
+
+    if (options.scrub) {
+      const scrub = scrubForSubmission(claim, {
+        rules: options.scrub.rules,
+        context: { today: simulator.today(), ...options.scrub.context },
+      });
+      if (!scrub.passed) {
+        result.errors = scrub.findings.filter(f => f.severity === "error").map(f => `${f.rule_key}: ${f.message}`);
+        result.submission = { ...buildOutcome(claim, { status: "failed" }), validation_errors: result.errors };
+        continue;
+      }
+    }
+
+    const edi = formatEDI837P(claim, { controlNumbers, sender: options.submitter, date: new Date(`${simulator.today()}T12:00:00Z`) });
+    const response = await simulator.submitClaim(edi, "x12_837p");
+    if (!response.success || !response.tracking_number) {
+      result.errors = response.errors.map(e => `${e.code}: ${e.message}`);
+      result.submission = { ...buildOutcome(claim, { status: "failed" }), validation_errors: result.errors };
+      continue;
+    }
+
+    result.tracking_number = response.tracking_number;
+    result.submission = buildOutcome(claim, { status: "submitted", tracking_number: response.tracking_number });
+    result.status = "submitted";
+    open.set(claim.claim_id, {
+      result,
+      document: claim,
+      tracked: {
+        claim_id: claim.claim_id,
+        payer_id: claim.insurance.payer_id,
+        payer_name: claim.insurance.payer_name,
+        status: "submitted",
+        submitted_at: simulator.today(),
+        last_status_change: simulator.today(),
+        tracking_number: response.tracking_number,
+        total_charge_cents: claim.total_charge_cents,
+        paid_amount_cents: null,
+        denial_code: null,
+        denial_reason: null,
+        days_since_submission: 0,
+        company_id: encounter.company_id ?? null,
+      },
+      remits: [],
+      final: false,
+    });
+  }
+
+  const submitted: SubmittedClaim[] = [...open.values()].map(({ document }) => ({
+    claim_id: document.claim_id,
+    patient_name: `${document.patient.last_name}, ${document.patient.first_name}`,
+    total_charge_cents: document.total_charge_cents,
+    expected_reimbursement_cents: document.line_items.some(li => li.expected_reimbursement_cents !== null)
+      ? document.line_items.reduce((sum, li) => sum + (li.expected_reimbursement_cents ?? 0), 0)
+      : null,
+    line_items: document.line_items.map(li => ({ cpt_code: li.cpt_code, charge_cents: li.charge_cents })),
+  }));
+
+  // Track, deny, appeal, post — one poll per interval
+  for (let elapsed = 0; elapsed < maxDays && [...open.values()].some(s => !s.final); elapsed += pollInterval) {
+    simulator.advance(pollInterval);
+    const today = simulator.today();
+
+    for (const edi of simulator.collectRemittances()) {
+      reach("payment_posting");
+      const lines = parseEDI835(edi);
+      const payer = open.get(lines[0]?.claim_id ?? "")?.tracked;
+      postings.push(runPaymentPostingPipeline(lines, submitted, payer?.payer_name ?? "", payer?.payer_id));
+      for (const line of lines) {
+        const state = open.get(line.claim_id);
+        if (!state) continue;
+        state.remits.push(line);
+        state.result.paid_cents += line.paid_cents;
+      }
+    }
+
+    reach("claims_tracking");
+    const previous = [...open.values()].map(s => s.tracked);
+    const current: TrackedClaim[] = [];
+    for (const state of open.values()) {
+      const response = await simulator.checkStatus(state.tracked.tracking_number!);
+      const status = toClaimStatus(response, state.tracked.status);
+      state.tracked = {
+        ...state.tracked,
+        status,
+        last_status_change: status === state.tracked.status ? state.tracked.last_status_change : today,
+        days_since_submission: daysBetween(state.tracked.submitted_at, today),
+        denial_reason: status === "denied" ? response.status_message : state.tracked.denial_reason,
+        paid_amount_cents: state.result.paid_cents || state.tracked.paid_amount_cents,
+      };
+      current.push(state.tracked);
+    }
+
+    const tracking = runTrackingPipeline(previous, current);
+    statusChanges.push(...tracking.status_changes);
+    alerts.push(...tracking.alerts_generated.filter(a => !alerts.some(b => b.claim_id === a.claim_id && b.alert_type === a.alert_type)));
+
+    for (const change of tracking.status_changes) {
+      const state = open.get(change.claim_id)!;
+      const route = routeStatusChange(change);
+
+      if (route === "payment_posting") {
+        state.final = true;
+        state.result.settled_on = today;
+      }
+
+      if (route === "denial_handler") {
+        reach("denial_management");
+        const remit = state.remits.at(-1);
+        state.tracked.denial_code = remit ? denialCodeFromRemittance(remit) : state.tracked.denial_code;
+        const outcome = analyzeDenial({
+          claim_id: state.tracked.claim_id,
+          payer_id: state.tracked.payer_id,
+          payer_name: state.tracked.payer_name,
+          denial_code: state.tracked.denial_code ?? "unknown",
+          denial_reason: state.tracked.denial_reason,
+          total_charge_cents: state.tracked.total_charge_cents,
+          cpt_codes: state.document.line_items.map(li => li.cpt_code),
+          diagnosis_codes: state.document.diagnoses,
+          submitted_at: state.tracked.submitted_at,
+          denied_at: today,
+          company_id: state.tracked.company_id,
+        });
+        state.result.denials.push(outcome);
+
+        const appealsFiled = state.result.appeals.length;
+        if (outcome.recommendation.route_to !== "appeals" || appealsFiled >= maxAppeals) {
+          state.final = true;
+          state.result.settled_on = today;
+          continue;
+        }
+
+        reach("appeals");
+        const input = {
+          claim_id: state.tracked.claim_id,
+          payer_id: state.tracked.payer_id,
+          payer_name: state.tracked.payer_name,
+          denial_code: outcome.denial_code,
+          denial_reason: state.tracked.denial_reason,
+          denial_category: outcome.classification.category,
+          total_charge_cents: state.tracked.total_charge_cents,
+          cpt_codes: state.document.line_items.map(li => li.cpt_code),
+          diagnosis_codes: state.document.diagnoses,
+          patient_name: `${state.document.patient.first_name} ${state.document.patient.last_name}`,
+          provider_name: state.document.provider.name,
+          encounter_date: state.document.encounter_date,
+          appeal_level: VALID_APPEAL_LEVELS[Math.min(appealsFiled, VALID_APPEAL_LEVELS.length - 1)],
+          company_id: state.tracked.company_id,
+        };
+        const appeal = buildAppealOutcome(buildAppealPackage(input), input);
+        const filed = simulator.fileAppeal(state.tracked.tracking_number!);
+        state.result.appeals.push({ ...appeal, status: filed.accepted ? "submitted" : "denied" });
+        if (filed.accepted) {
+          state.tracked.status = "appealed";
+        } else {
+          state.final = true;
+          state.result.settled_on = today;
+        }
+      }
+    }
+  }
+
+  for (const state of open.values()) state.result.status = state.tracked.status;
+
+  return {
+    claims,
+    status_changes: statusChanges,
+    alerts,
+    postings,
+    stages,
+    started_on: startedOn,
+    finished_on: simulator.today(),
+    unsettled: [...open.values()].filter(s => !s.final).map(s => s.tracked.claim_id),
+  };
+}
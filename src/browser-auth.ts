@@ -4,11 +4,18 @@
  * Uses stored credentials to authenticate via Playwright headless browser,
  * then returns the resulting cookies for authenticated requests.
  *
- * ELLIE-32 / ELLIE-253: Credentials fetched from The Hollow, never logged.
+ * ELLIE-32: Credentials fetched from the vault (src/vault.ts), never logged.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { log } from "./logger.ts";
-import { getCredentialByDomain } from "../../ellie-forest/src/hollow";
+import {
+  getCredentialForDomain,
+  type ApiKeyPayload,
+  type BearerTokenPayload,
+  type CookiePayload,
+  type PasswordPayload,
+} from "./vault.ts";
 
 const logger = log.child("browser-auth");
 
@@ -26,7 +33,7 @@ export interface AuthResult {
  * 4. Extract and return cookies
  */
 export async function getAuthenticatedSession(
-  _supabase: unknown,
+  supabase: SupabaseClient,
   domain: string,
   options?: {
     loginUrl?: string;
@@ -37,11 +44,10 @@ export async function getAuthenticatedSession(
     timeout?: number;
   },
 ): Promise<AuthResult | null> {
-  // Get credential from the Hollow (ELLIE-253)
-  const cred = await getCredentialByDomain(domain, "password");
+  const cred = await getCredentialForDomain(supabase, domain, "password", { actor: "browser-auth", purpose: `login ${domain}` });
   if (!cred) return null;
 
-  const payload = cred.payload as { username: string; password: string };
+  const payload = cred.payload as PasswordPayload;
 
   // Dynamic import — Playwright only loaded when needed
   const { chromium } = await import("playwright-core");
@@ -97,20 +103,20 @@ export async function getAuthenticatedSession(
  * Returns appropriate headers based on credential type.
  */
 export async function getAuthHeaders(
-  _supabase: unknown,
+  supabase: SupabaseClient,
   domain: string,
   type?: "api_key" | "bearer_token",
 ): Promise<Record<string, string> | null> {
-  const cred = await getCredentialByDomain(domain, type);
+  const cred = await getCredentialForDomain(supabase, domain, type, { actor: "browser-auth", purpose: `auth headers ${domain}` });
   if (!cred) return null;
 
-  switch (cred.entry.credential_type) {
+  switch (cred.record.credential_type) {
     case "bearer_token":
-      return { Authorization: `Bearer ${(cred.payload as Record<string, string>).token}` };
+      return { Authorization: `Bearer ${(cred.payload as BearerTokenPayload).token}` };
     case "api_key":
-      return { Authorization: `Bearer ${(cred.payload as Record<string, string>).key}` };
+      return { Authorization: `Bearer ${(cred.payload as ApiKeyPayload).key}` };
     case "cookie":
-      return { Cookie: (cred.payload as Record<string, string>).cookie };
+      return { Cookie: (cred.payload as CookiePayload).cookie };
     default:
       return null;
   }
@@ -0,0 +1,164 @@
+/**
+ * Channel Adapter Contract
+ *
+ * Every chat platform the relay talks to (Telegram, Google Chat, Slack,
+ * Discord, Alexa, ...) is described by one ChannelAdapter: what it can do
+ * (capabilities), how to recognise a genuine inbound request (verify), how
+ * to turn a platform payload into an InboundMessage (normalize), how to
+ * render agent markdown for it (format) and how to post back (send, plus
+ * edit/react where the platform has them).
+ *
+ * Adapters are registered in registry.ts; relay startup, notification
+ * fan-out and delivery look them up by id instead of branching per
+ * platform. conformance.ts checks that an adapter keeps this contract.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Bot } from "grammy";
+
+// ── Capabilities ─────────────────────────────────────────────
+
+export type ChannelMarkup = "markdown" | "mrkdwn" | "plain" | "ssml";
+
+export interface ChannelCapabilities {
+  /** Replies can be kept in a thread under the original message. */
+  threads: boolean;
+  /** A sent message can be edited afterwards (edit()). */
+  edits: boolean;
+  /** Messages can be reacted to (react()). */
+  reactions: boolean;
+  /** Inbound messages can carry files or images. */
+  attachments: boolean;
+  /** Outbound messages can carry tappable buttons. */
+  buttons: boolean;
+  /** Longest single message the platform accepts; send() splits longer text. */
+  maxMessageLength: number;
+  /** What format() produces. */
+  markup: ChannelMarkup;
+  /** Can post unprompted (send()); false for request/response channels like Alexa. */
+  push: boolean;
+}
+
+// ── Inbound ──────────────────────────────────────────────────
+
+export interface InboundMessage {
+  /** Adapter id. */
+  channel: string;
+  messageId: string;
+  /** Chat, space, channel or session the message arrived in. */
+  conversationId: string;
+  /** Thread within the conversation; always null when the channel has no threads. */
+  threadId: string | null;
+  sender: { id: string; name: string };
+  text: string;
+  /** Attachment URLs. */
+  attachments: string[];
+  /** Direct message to the bot rather than a group conversation. */
+  isDirect: boolean;
+  /** The platform payload, for handlers that need platform-specific fields. */
+  raw: unknown;
+}
+
+/** What verify() needs from an inbound HTTP request. Header names are lower-case. */
+export interface InboundRequest {
+  headers: Record<string, string | undefined>;
+  rawBody: string;
+}
+
+/** Same meanings as google-chat/verify.ts: "unconfigured" leaves the decision to the caller. */
+export type ChannelVerifyResult = "allowed" | "unauthorized" | "unconfigured";
+
+// ── Outbound ─────────────────────────────────────────────────
+
+export interface OutboundTarget {
+  conversationId: string;
+  threadId?: string | null;
+  /** Message to reply to, where the platform links replies. */
+  replyTo?: string;
+}
+
+export interface MessageButton {
+  /** Returned to the relay when the button is pressed. */
+  id: string;
+  label: string;
+}
+
+export interface OutboundMessage {
+  text: string;
+  /** Rendered as a numbered list by channels without buttons. */
+  buttons?: MessageButton[];
+}
+
+export interface SendReceipt {
+  /** Platform ids of the posted messages, one per chunk where the platform returns them. */
+  messageIds: string[];
+  threadId: string | null;
+}
+
+// ── Adapter ──────────────────────────────────────────────────
+
+export interface ChannelStartContext {
+  supabase: SupabaseClient | null;
+  bot: Bot;
+}
+
+export interface ChannelAdapter {
+  /** Stable id, used as the channel name in notifications, delivery and saved messages. */
+  readonly id: string;
+  readonly displayName: string;
+  readonly capabilities: ChannelCapabilities;
+
+  /** True when the env has what the adapter needs; unconfigured adapters are not started. */
+  isConfigured(): boolean;
+  start?(ctx: ChannelStartContext): void | Promise<void>;
+  stop?(): void | Promise<void>;
+
+  /** Check an inbound webhook is genuinely from the platform. */
+  verify?(req: InboundRequest): ChannelVerifyResult | Promise<ChannelVerifyResult>;
+  /** Platform payload → InboundMessage, or null for anything not addressed to us. Never throws. */
+  normalize(payload: unknown): InboundMessage | null;
+  /** Agent markdown → the channel's markup. */
+  format(text: string): string;
+
+  /** Post a message, split at capabilities.maxMessageLength. Required when capabilities.push. */
+  send?(target: OutboundTarget, message: OutboundMessage): Promise<SendReceipt>;
+  /** Replace a sent message's text; any buttons on it are removed. */
+  edit?(target: OutboundTarget, messageId: string, text: string): Promise<void>;
+  react?(target: OutboundTarget, messageId: string, emoji: string): Promise<void>;
+  /** Where proactive notifications go, or null when none is configured. */
+  notificationTarget?(): OutboundTarget | null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Split text into chunks of at most max characters, preferring paragraph,
+ * then line, then word boundaries. Pure function.
+ */
+export function chunkText(text: string, max: number): string[] {
+  if (text.length <= max) return [text];
+  const chunks: string[] = [];
+  let remaining = text;
+  while (remaining.length > max) {
+    let at = remaining.lastIndexOf("\n\n", max);
+    if (at < max / 2) at = remaining.lastIndexOf("\n", max);
+    if (at < max / 2) at = remaining.lastIndexOf(" ", max);
+    if (at < max / 2) at = max;
+    chunks.push(remaining.slice(0, at));
+    remaining = remaining.slice(at).replace(/^\s+/, "");
+  }
+  if (remaining) chunks.push(remaining);
+  return chunks;
+}
+
+/** Text of a message for channels without buttons: the options as a numbered list. Pure function. */
+export function withButtonsAsText(message: OutboundMessage): string {
+  if (!message.buttons?.length) return message.text;
+  const options = message.buttons.map((b, i) => `${i + 1}. ${b.label}`).join("\n");
+  return `${message.text}\n\n${options}`;
+}
+
+/** True for a non-null, non-array object. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,61 @@
+/**
+ * Alexa Channel Adapter
+ *
+ * Alexa on the ChannelAdapter contract (../adapter.ts). Alexa is
+ * request/response only: the reply is the body of the webhook response,
+ * so the adapter has no send() and capabilities.push is false. Wraps the
+ * signature check, request parsing and SSML rendering in alexa.ts.
+ */
+
+import type { AlexaRequest } from "../../alexa.ts";
+import { hasAlexaSignatureHeaders, parseAlexaRequest, textToSsml, verifyAlexaRequest } from "../../alexa.ts";
+import type { ChannelAdapter, InboundMessage } from "../adapter.ts";
+import { isRecord } from "../adapter.ts";
+
+const REQUEST_TYPES = new Set(["LaunchRequest", "IntentRequest"]);
+
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload) || !isRecord(payload.request) || !isRecord(payload.session)) return null;
+  if (!REQUEST_TYPES.has(String(payload.request.type)) || typeof payload.request.requestId !== "string") return null;
+  const parsed = parseAlexaRequest(payload as unknown as AlexaRequest);
+  if (!parsed.text) return null;
+  return {
+    channel: "alexa",
+    messageId: payload.request.requestId,
+    conversationId: parsed.sessionId,
+    threadId: null,
+    sender: { id: parsed.userId, name: "Alexa user" },
+    text: parsed.text,
+    attachments: [],
+    isDirect: true,
+    raw: payload,
+  };
+}
+
+export const alexaAdapter: ChannelAdapter = {
+  id: "alexa",
+  displayName: "Alexa",
+  capabilities: {
+    threads: false,
+    edits: false,
+    reactions: false,
+    attachments: false,
+    buttons: false,
+    maxMessageLength: 8000,
+    markup: "ssml",
+    push: false,
+  },
+
+  // The /alexa webhook is always mounted; the skill id lives in alexa.ts.
+  isConfigured: () => true,
+
+  async verify({ headers, rawBody }) {
+    const certUrl = headers.signaturecertchainurl;
+    const signature = headers["signature-256"];
+    if (!hasAlexaSignatureHeaders(certUrl, signature)) return "unauthorized";
+    return await verifyAlexaRequest(certUrl!, signature!, rawBody) ? "allowed" : "unauthorized";
+  },
+
+  normalize,
+  format: textToSsml,
+};
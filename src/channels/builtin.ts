@@ -0,0 +1,20 @@
+/**
+ * Built-in Channel Adapters
+ *
+ * The adapters shipped with the relay. relay.ts registers them at startup;
+ * a new platform adds its adapter module and one line here.
+ */
+
+import { registerChannelAdapter } from "./registry.ts";
+import { telegramAdapter } from "./telegram/adapter.ts";
+import { googleChatAdapter } from "./google-chat/adapter.ts";
+import { slackAdapter } from "./slack/adapter.ts";
+import { discordAdapter } from "./discord/adapter.ts";
+import { alexaAdapter } from "./alexa/adapter.ts";
+import { matrixAdapter } from "./matrix/adapter.ts";
+
+export const BUILTIN_CHANNEL_ADAPTERS = [telegramAdapter, googleChatAdapter, slackAdapter, discordAdapter, alexaAdapter, matrixAdapter];
+
+export function registerBuiltinChannelAdapters(): void {
+  for (const adapter of BUILTIN_CHANNEL_ADAPTERS) registerChannelAdapter(adapter);
+}
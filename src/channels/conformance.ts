@@ -0,0 +1,227 @@
+/**
+ * Channel Adapter Conformance Kit
+ *
+ * Checks that a ChannelAdapter keeps the contract in adapter.ts. Every
+ * adapter's test runs it with a fixture of real platform payloads:
+ *
+ *   const report = await runChannelConformance(fixture);
+ *   expect(report.failures).toEqual([]);
+ *
+ * What it checks:
+ *   - identity: id is a lower-case slug, displayName set, sane maxMessageLength
+ *   - capabilities agree with methods: push ⇔ send, edits → edit, reactions → react
+ *   - normalize: accepted payloads give a complete InboundMessage tagged with
+ *     the adapter id, ignored payloads and junk give null without throwing,
+ *     threadId is null on channels without threads
+ *   - verify: the genuine request is allowed, tampered or unsigned ones are not
+ *   - format: plain prose and code survive
+ *   - send: long text is split within maxMessageLength with nothing lost,
+ *     threaded targets stay in their thread, buttons fall back to text where
+ *     the channel has none
+ *
+ * Framework-agnostic: it returns failures rather than asserting, so it
+ * runs under bun:test or from a script.
+ */
+
+import type { ChannelAdapter, InboundRequest, OutboundTarget } from "./adapter.ts";
+
+/** One message as the platform received it, captured by the fixture's harness. */
+export interface CapturedSend {
+  text: string;
+  threadId?: string | null;
+  /** Button ids attached to the message, when the platform has buttons. */
+  buttonIds?: string[];
+}
+
+/** Captures what the adapter posts; set up per send check, torn down after. */
+export interface OutboundHarness {
+  sent(): CapturedSend[];
+  teardown?(): void | Promise<void>;
+}
+
+export interface ConformanceFixture {
+  adapter: ChannelAdapter;
+  inbound: {
+    /** Payloads normalize() must accept, with the text it should extract. */
+    accept: { payload: unknown; text: string }[];
+    /** Payloads normalize() must ignore (bot echoes, events that are not messages, ...). */
+    ignore: unknown[];
+  };
+  /** Required when the adapter has verify(). */
+  verify?: {
+    /** A genuinely signed request; omit when it cannot be produced offline. */
+    valid?: InboundRequest;
+    tampered: InboundRequest[];
+  };
+  /** Required when capabilities.push. */
+  outbound?: {
+    target: OutboundTarget;
+    /** A thread on the target conversation, checked when capabilities.threads. */
+    threadId?: string;
+    harness(): OutboundHarness | Promise<OutboundHarness>;
+  };
+}
+
+export interface ConformanceFailure {
+  check: string;
+  message: string;
+}
+
+export interface ConformanceReport {
+  adapter: string;
+  passed: string[];
+  failures: ConformanceFailure[];
+}
+
+const JUNK: unknown[] = [null, undefined, 42, "text", [], {}, { message: null }, { event: "x" }];
+const CODE_SAMPLE = "Run this:\n\n```ts\nconst answer = 42;\n```";
+
+export async function runChannelConformance(fixture: ConformanceFixture): Promise<ConformanceReport> {
+  const { adapter } = fixture;
+  const report: ConformanceReport = { adapter: adapter.id, passed: [], failures: [] };
+
+  async function check(name: string, fn: () => void | Promise<void>): Promise<void> {
+    try {
+      await fn();
+      report.passed.push(name);
+    } catch (err) {
+      report.failures.push({ check: name, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const caps = adapter.capabilities;
+
+  await check("identity", () => {
+    assert(/^[a-z][a-z0-9-]*$/.test(adapter.id), `id "${adapter.id}" is not a lower-case slug`);
+    assert(adapter.displayName.trim().length > 0, "displayName is empty");
+    assert(Number.isInteger(caps.maxMessageLength) && caps.maxMessageLength >= 100, `maxMessageLength ${caps.maxMessageLength} is not an integer ≥ 100`);
+    assert(typeof adapter.isConfigured() === "boolean", "isConfigured() must return a boolean");
+  });
+
+  await check("capabilities match methods", () => {
+    assert(caps.push === (typeof adapter.send === "function"), caps.push ? "push channel has no send()" : "send() on a channel without push");
+    if (caps.edits) assert(typeof adapter.edit === "function", "edits capability without edit()");
+    if (caps.reactions) assert(typeof adapter.react === "function", "reactions capability without react()");
+    if (adapter.notificationTarget) assert(caps.push, "notificationTarget() on a channel that cannot push");
+  });
+
+  await check("normalize accepts messages", () => {
+    assert(fixture.inbound.accept.length > 0, "fixture has no accepted payloads");
+    for (const { payload, text } of fixture.inbound.accept) {
+      const msg = adapter.normalize(payload);
+      assert(msg !== null, `payload was ignored: ${preview(payload)}`);
+      assert(msg!.channel === adapter.id, `channel is "${msg!.channel}", expected "${adapter.id}"`);
+      assert(msg!.text === text, `text is ${JSON.stringify(msg!.text)}, expected ${JSON.stringify(text)}`);
+      for (const field of ["messageId", "conversationId"] as const) {
+        assert(typeof msg![field] === "string" && msg![field].length > 0, `${field} is empty`);
+      }
+      assert(typeof msg!.sender?.id === "string" && msg!.sender.id.length > 0, "sender.id is empty");
+      assert(Array.isArray(msg!.attachments), "attachments is not an array");
+      if (!caps.attachments) assert(msg!.attachments.length === 0, "attachments on a channel without attachments");
+      if (!caps.threads) assert(msg!.threadId === null, "threadId set on a channel without threads");
+      assert(msg!.raw === payload, "raw is not the original payload");
+    }
+  });
+
+  await check("normalize ignores the rest", () => {
+    for (const payload of [...fixture.inbound.ignore, ...JUNK]) {
+      let msg: unknown;
+      try {
+        msg = adapter.normalize(payload);
+      } catch (err) {
+        throw new Error(`normalize threw on ${preview(payload)}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      assert(msg === null, `should ignore ${preview(payload)}`);
+    }
+  });
+
+  if (adapter.verify) {
+    await check("verify rejects forgeries", async () => {
+      assert(!!fixture.verify, "adapter has verify() but the fixture has no verify cases");
+      const { valid, tampered } = fixture.verify!;
+      if (valid) assert(await adapter.verify!(valid) === "allowed", "genuine request was not allowed");
+      assert(tampered.length > 0, "fixture has no tampered requests");
+      for (const req of tampered) {
+        assert(await adapter.verify!(req) !== "allowed", `tampered request was allowed: ${preview(req.headers)}`);
+      }
+      const unsigned = await adapter.verify!({ headers: {}, rawBody: valid?.rawBody ?? tampered[0].rawBody });
+      assert(unsigned !== "allowed", "request without signature headers was allowed");
+    });
+  }
+
+  await check("format keeps text and code", () => {
+    const plain = adapter.format("hello world");
+    assert(typeof plain === "string" && plain.includes("hello world"), `plain text became ${JSON.stringify(plain)}`);
+    if (caps.markup !== "ssml") assert(plain === "hello world", `plain text changed to ${JSON.stringify(plain)}`);
+    assert(adapter.format(CODE_SAMPLE).includes("const answer = 42;"), "code was altered");
+  });
+
+  if (caps.push && adapter.send) {
+    const send = adapter.send.bind(adapter);
+    const outbound = fixture.outbound;
+    const withHarness = async (fn: (h: OutboundHarness) => Promise<void>) => {
+      assert(!!outbound, "push adapter but the fixture has no outbound harness");
+      const h = await outbound!.harness();
+      try {
+        await fn(h);
+      } finally {
+        await h.teardown?.();
+      }
+    };
+
+    await check("send posts short text once", () => withHarness(async h => {
+      const receipt = await send(outbound!.target, { text: "hello" });
+      const sent = h.sent();
+      assert(sent.length === 1 && sent[0].text === "hello", `expected one "hello", got ${preview(sent)}`);
+      assert(receipt.messageIds.length >= 1, "receipt has no message ids");
+    }));
+
+    await check("send splits long text", () => withHarness(async h => {
+      const words = Array.from({ length: Math.ceil(caps.maxMessageLength * 2.5 / 8) }, (_, i) => `w${String(i).padStart(6, "0")}`);
+      const text = words.join(" ");
+      await send(outbound!.target, { text });
+      const sent = h.sent();
+      assert(sent.length >= 3, `expected at least 3 chunks, got ${sent.length}`);
+      for (const s of sent) assert(s.text.length <= caps.maxMessageLength, `chunk of ${s.text.length} exceeds ${caps.maxMessageLength}`);
+      const rejoined = sent.map(s => s.text).join(" ").split(/\s+/).filter(Boolean);
+      assert(rejoined.join(" ") === words.join(" "), "text was lost or reordered across chunks");
+    }));
+
+    if (caps.threads) {
+      await check("send stays in thread", () => withHarness(async h => {
+        assert(!!outbound!.threadId, "threaded channel but the fixture has no threadId");
+        const receipt = await send({ ...outbound!.target, threadId: outbound!.threadId }, { text: "x".repeat(caps.maxMessageLength + 10) });
+        const sent = h.sent();
+        assert(sent.length === 2, `expected 2 chunks, got ${sent.length}`);
+        for (const s of sent) assert(s.threadId === outbound!.threadId, `chunk went to thread ${s.threadId ?? "none"}`);
+        assert(receipt.threadId === outbound!.threadId, "receipt lost the thread");
+      }));
+    }
+
+    await check("send handles buttons", () => withHarness(async h => {
+      const buttons = [{ id: "approve", label: "Approve" }, { id: "deny", label: "Deny" }];
+      await send(outbound!.target, { text: "Proceed?", buttons });
+      const sent = h.sent();
+      assert(sent.length === 1, `expected one message, got ${sent.length}`);
+      if (caps.buttons) {
+        assert(JSON.stringify(sent[0].buttonIds) === JSON.stringify(["approve", "deny"]), `buttons not attached: ${preview(sent[0])}`);
+      } else {
+        assert(sent[0].text.includes("Approve") && sent[0].text.includes("Deny"), "button labels missing from the text fallback");
+      }
+    }));
+  }
+
+  return report;
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+function preview(value: unknown): string {
+  try {
+    return (JSON.stringify(value) ?? String(value)).slice(0, 120);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Discord Channel Adapter
+ *
+ * Discord on the ChannelAdapter contract (../adapter.ts): gateway
+ * messages in (normalize.ts), bot-identity sends out. A Discord thread is
+ * itself a channel, so a threaded target is sent to the thread's id.
+ * Buttons are message components whose custom_id is the button id; presses
+ * arrive as gateway interactions (interactions.ts). Agent-identity webhook
+ * sends stay in send.ts.
+ *
+ * The gateway (index.ts, which loads the discord.js client) is imported
+ * lazily so registering the adapter costs nothing when Discord is off.
+ */
+
+import type { Message } from "discord.js";
+import type { ChannelAdapter, InboundMessage, MessageButton, OutboundTarget } from "../adapter.ts";
+import { chunkText, isRecord } from "../adapter.ts";
+import { normalizeMessage } from "./normalize.ts";
+
+/** The slice of discord.js the adapter sends through — lets tests pass a fake client. */
+export interface DiscordSendClient {
+  channels: {
+    fetch(id: string): Promise<unknown>;
+  };
+}
+
+interface SendableChannel {
+  send(options: Record<string, unknown>): Promise<{ id: string }>;
+  messages: { fetch(id: string): Promise<{ edit(options: Record<string, unknown>): Promise<unknown>; react(emoji: string): Promise<unknown> }> };
+}
+
+export interface DiscordAdapterDeps {
+  client?: () => DiscordSendClient | null;
+}
+
+const BUTTONS_PER_ROW = 5;
+const MAX_ROWS = 5;
+
+/** Discord message components: rows of primary buttons. */
+function buttonRows(buttons: MessageButton[]): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (let i = 0; i < buttons.length && rows.length < MAX_ROWS; i += BUTTONS_PER_ROW) {
+    rows.push({
+      type: 1,
+      components: buttons.slice(i, i + BUTTONS_PER_ROW).map(b => ({ type: 2, style: 1, label: b.label.slice(0, 80), custom_id: b.id })),
+    });
+  }
+  return rows;
+}
+
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload) || !isRecord(payload.author) || !isRecord(payload.channel)) return null;
+  let msg: ReturnType<typeof normalizeMessage>;
+  try {
+    msg = normalizeMessage(payload as unknown as Message);
+  } catch {
+    return null; // not a discord.js Message
+  }
+  if (!msg) return null;
+  return {
+    channel: "discord",
+    messageId: msg.messageId,
+    conversationId: msg.parentChannelId ?? msg.channelId,
+    threadId: msg.threadId,
+    sender: { id: msg.authorId, name: msg.authorName },
+    text: msg.text,
+    attachments: msg.attachmentUrls,
+    isDirect: msg.kind === "dm",
+    raw: payload,
+  };
+}
+
+export function createDiscordAdapter(deps: DiscordAdapterDeps = {}): ChannelAdapter {
+  async function channelFor(target: OutboundTarget): Promise<SendableChannel> {
+    const c = deps.client
+      ? deps.client()
+      : (await import("./index.ts")).getDiscordClient() as unknown as DiscordSendClient | null;
+    if (!c) throw new Error("Discord gateway not connected");
+    const id = target.threadId ?? target.conversationId;
+    const channel = await c.channels.fetch(id);
+    if (!isRecord(channel) || typeof channel.send !== "function") throw new Error(`Discord channel ${id} not found or not sendable`);
+    return channel as unknown as SendableChannel;
+  }
+
+  const adapter: ChannelAdapter = {
+    id: "discord",
+    displayName: "Discord",
+    capabilities: {
+      threads: true,
+      edits: true,
+      reactions: true,
+      attachments: true,
+      buttons: true,
+      maxMessageLength: 1990,
+      markup: "markdown",
+      push: true,
+    },
+
+    isConfigured: () => !!process.env.DISCORD_BOT_TOKEN,
+    async start({ supabase }) {
+      const { startDiscordGateway } = await import("./index.ts");
+      startDiscordGateway(supabase);
+    },
+    async stop() {
+      const { stopDiscordGateway } = await import("./index.ts");
+      await stopDiscordGateway();
+    },
+
+    normalize,
+    format: text => text,
+
+    async send(target, message) {
+      const channel = await channelFor(target);
+      const chunks = chunkText(message.text, adapter.capabilities.maxMessageLength);
+      const messageIds: string[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const options: Record<string, unknown> = { content: chunks[i] };
+        if (i === 0 && target.replyTo) options.reply = { messageReference: target.replyTo, failIfNotExists: false };
+        if (i === chunks.length - 1 && message.buttons?.length) options.components = buttonRows(message.buttons);
+        const sent = await channel.send(options);
+        messageIds.push(sent.id);
+      }
+      return { messageIds, threadId: target.threadId ?? null };
+    },
+
+    async edit(target, messageId, text) {
+      const channel = await channelFor(target);
+      const msg = await channel.messages.fetch(messageId);
+      await msg.edit({ content: text.slice(0, adapter.capabilities.maxMessageLength), components: [] });
+    },
+
+    async react(target, messageId, emoji) {
+      const channel = await channelFor(target);
+      const msg = await channel.messages.fetch(messageId);
+      await msg.react(emoji);
+    },
+
+    notificationTarget() {
+      const channelId = process.env.DISCORD_NOTIFICATION_CHANNEL;
+      return channelId ? { conversationId: channelId } : null;
+    },
+  };
+  return adapter;
+}
+
+export const discordAdapter = createDiscordAdapter();
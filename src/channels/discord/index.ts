@@ -8,6 +8,7 @@
  *   - Inbound:  Message events → normalize.ts → enqueue or enqueueEllieChat
  *   - Outbound: send.ts (bot identity) or sendViaWebhook (agent identity)
  *   - Bindings: thread-bindings.ts (Supabase-persisted session → thread map)
+ *   - Buttons:  InteractionCreate → interactions.ts (interactive prompt answers)
  *
  * Channel routing (env-configured):
  *   DISCORD_CHANNEL_GENERAL   → general queue (all agents)
@@ -15,6 +16,8 @@
  *   DISCORD_CHANNEL_STRATEGY  → strategy agent
  *   DISCORD_CHANNEL_RESEARCH  → research agent
  *   DISCORD_ELLIE_CHAT_GUILD  → guild ID where DMs route to ellie-chat pipeline
+ *
+ * Prompt answers: DISCORD_ALLOWED_USER_ID — comma-separated user IDs who may press prompt buttons
  */
 
 import { Client, GatewayIntentBits, Events } from "discord.js";
@@ -23,6 +26,7 @@ import { normalizeMessage, setBotId, type NormalizedDiscordMessage } from "./nor
 import { sendToChannel, initWebhooks } from "./send.ts";
 import { initThreadBindings, cleanExpiredBindings } from "./thread-bindings.ts";
 import { initObservationChannels, setObservationClient } from "./observation.ts";
+import { handleDiscordButton } from "./interactions.ts";
 import { enqueue } from "../../message-queue.ts";
 import { periodicTask } from "../../periodic-task.ts";
 
@@ -118,6 +122,13 @@ export function startDiscordGateway(supabase: any): void {
     });
   });
 
+  client.on(Events.InteractionCreate, (interaction) => {
+    if (!interaction.isButton()) return;
+    handleDiscordButton(interaction).catch(err => {
+      logger.error("Discord interaction handler error", { error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+
   client.on(Events.Error, (err) => {
     logger.error("Discord gateway error", { error: err.message });
   });
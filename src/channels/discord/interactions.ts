@@ -0,0 +1,45 @@
+/**
+ * Discord Interactions — message component button presses
+ *
+ * Presses arrive over the authenticated gateway connection (index.ts), so
+ * there is no webhook signature to check. Buttons carrying an
+ * interactive-prompt custom_id answer the prompt; the pressed message is
+ * updated in the interaction response (Discord requires an answer within
+ * 3s) and a rejected press gets an ephemeral reply.
+ */
+
+import { log } from "../../logger.ts";
+import { answerPrompt, decodePromptAction, promptAnswerFailureText } from "../../interactive-prompts.ts";
+
+const logger = log.child("discord-interactions");
+
+/** The slice of a discord.js ButtonInteraction this module uses — lets tests pass a fake. */
+export interface DiscordButtonInteraction {
+  customId: string;
+  user: { id: string };
+  message: { id: string };
+  update(options: Record<string, unknown>): Promise<unknown>;
+  reply(options: Record<string, unknown>): Promise<unknown>;
+}
+
+/** Returns false for buttons that aren't prompt answers, leaving them to other handlers. */
+export async function handleDiscordButton(interaction: DiscordButtonInteraction): Promise<boolean> {
+  const decoded = decodePromptAction(interaction.customId);
+  if (!decoded) return false;
+
+  const result = await answerPrompt(decoded.promptId, decoded.optionId, {
+    channel: "discord",
+    userId: interaction.user.id,
+    messageId: interaction.message.id,
+  });
+  try {
+    if (result.status === "answered") {
+      await interaction.update({ content: result.text.slice(0, 1990), components: [] });
+    } else {
+      await interaction.reply({ content: promptAnswerFailureText(result.status), ephemeral: true });
+    }
+  } catch (err) {
+    logger.warn("Discord interaction response failed", { error: err instanceof Error ? err.message : String(err) });
+  }
+  return true;
+}
@@ -0,0 +1,130 @@
+/**
+ * Google Chat Channel Adapter
+ *
+ * Google Chat on the ChannelAdapter contract (../adapter.ts): webhook
+ * events (legacy and Workspace Add-on formats) in, spaces.messages.create
+ * out, threaded by thread name. Buttons are a cardsV2 button list whose
+ * onClick calls BUTTON_FUNCTION with the button id; clicks come back as
+ * CARD_CLICKED events (interactions.ts). Wraps google-chat.ts and verify.ts.
+ *
+ * google-chat.ts is imported as a namespace so tests that mock it with
+ * only sendGoogleChatMessage still load this module.
+ */
+
+import * as gchat from "../../google-chat.ts";
+import type { GchatSendResult, GoogleChatEvent } from "../../google-chat.ts";
+import type { ChannelAdapter, InboundMessage, MessageButton } from "../adapter.ts";
+import { chunkText, isRecord } from "../adapter.ts";
+import { verifyGoogleChatRequest } from "./verify.ts";
+
+export interface GoogleChatAdapterDeps {
+  send?: (spaceName: string, text: string, threadName?: string | null, cardsV2?: Record<string, unknown>[]) => Promise<GchatSendResult>;
+  update?: (messageName: string, text: string) => Promise<void>;
+}
+
+/** Card action function name carried by every button; its button_id parameter is the button id. */
+export const BUTTON_FUNCTION = "button_click";
+
+/** cardsV2 with one button list, one button per MessageButton. */
+export function buttonCards(buttons: MessageButton[]): Record<string, unknown>[] {
+  return [{
+    cardId: "buttons",
+    card: {
+      sections: [{
+        widgets: [{
+          buttonList: {
+            buttons: buttons.map(b => ({
+              text: b.label,
+              onClick: { action: { function: BUTTON_FUNCTION, parameters: [{ key: "button_id", value: b.id }] } },
+            })),
+          },
+        }],
+      }],
+    },
+  }];
+}
+
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload)) return null;
+  let parsed: gchat.ParsedGoogleChatMessage | null;
+  try {
+    parsed = gchat.parseGoogleChatEvent(payload as unknown as GoogleChatEvent);
+  } catch {
+    return null; // malformed event (missing space/sender)
+  }
+  if (!parsed?.spaceName || !parsed.messageName) return null;
+  const spaceType = (payload as { space?: { type?: string } }).space?.type
+    ?? (payload as { chat?: { messagePayload?: { space?: { type?: string } } } }).chat?.messagePayload?.space?.type;
+  return {
+    channel: "google-chat",
+    messageId: parsed.messageName,
+    conversationId: parsed.spaceName,
+    threadId: parsed.threadName,
+    sender: { id: parsed.senderEmail, name: parsed.senderName },
+    text: parsed.text,
+    attachments: [],
+    isDirect: spaceType === "DM",
+    raw: payload,
+  };
+}
+
+export function createGoogleChatAdapter(deps: GoogleChatAdapterDeps = {}): ChannelAdapter {
+  const send = deps.send ?? ((space, text, thread, cards) => gchat.sendGoogleChatMessage(space, text, thread, cards));
+  const update = deps.update ?? ((name, text) => gchat.updateGoogleChatMessage(name, text));
+
+  const adapter: ChannelAdapter = {
+    id: "google-chat",
+    displayName: "Google Chat",
+    capabilities: {
+      threads: true,
+      edits: true,
+      reactions: false,
+      attachments: false,
+      buttons: true,
+      maxMessageLength: 4000,
+      markup: "markdown",
+      push: true,
+    },
+
+    isConfigured: () => !!(
+      (process.env.GOOGLE_CHAT_OAUTH_CLIENT_ID && process.env.GOOGLE_CHAT_OAUTH_CLIENT_SECRET && process.env.GOOGLE_CHAT_OAUTH_REFRESH_TOKEN)
+      || process.env.GOOGLE_CHAT_SERVICE_ACCOUNT_KEY_PATH
+    ),
+
+    async start() {
+      if (!await gchat.initGoogleChat()) throw new Error("Google Chat credentials could not be loaded");
+    },
+
+    verify({ headers }) {
+      return verifyGoogleChatRequest(headers.authorization, process.env.GOOGLE_CHAT_VERIFICATION_TOKEN);
+    },
+
+    normalize,
+    format: text => text,
+
+    async send(target, message) {
+      let threadName = target.threadId ?? null;
+      const messageIds: string[] = [];
+      const chunks = chunkText(message.text, adapter.capabilities.maxMessageLength);
+      for (const [i, chunk] of chunks.entries()) {
+        const cards = i === chunks.length - 1 && message.buttons?.length ? buttonCards(message.buttons) : undefined;
+        const result = await send(target.conversationId, chunk, threadName, cards);
+        messageIds.push(result.externalId);
+        threadName = result.threadName ?? threadName;
+      }
+      return { messageIds, threadId: threadName };
+    },
+
+    async edit(_target, messageId, text) {
+      await update(messageId, text);
+    },
+
+    notificationTarget() {
+      const space = process.env.GOOGLE_CHAT_SPACE_NAME;
+      return space ? { conversationId: space } : null;
+    },
+  };
+  return adapter;
+}
+
+export const googleChatAdapter = createGoogleChatAdapter();
@@ -0,0 +1,101 @@
+/**
+ * Google Chat Interactions — card button clicks
+ *
+ * Buttons rendered by the adapter (buttonCards) call BUTTON_FUNCTION with
+ * a button_id parameter. Clicks reach /google-chat as CARD_CLICKED events
+ * (legacy format) or add-on events with commonEventObject, after the
+ * route's bearer-token check (verify.ts). Buttons carrying an
+ * interactive-prompt action id answer the prompt; the response updates
+ * the clicked message in place, or posts why the click didn't count.
+ * Without GOOGLE_CHAT_VERIFICATION_TOKEN anyone can post a click, so no
+ * prompt is answered from Google Chat until it is set.
+ */
+
+import { isRecord } from "../adapter.ts";
+import { answerPrompt, decodePromptAction, promptAnswerFailureText } from "../../interactive-prompts.ts";
+import { BUTTON_FUNCTION } from "./adapter.ts";
+import type { GChatVerifyResult } from "./verify.ts";
+
+/** Reply to prompt answers and approvals while request verification is off. */
+export const UNVERIFIED_ANSWER_TEXT = "Answers from Google Chat are disabled until GOOGLE_CHAT_VERIFICATION_TOKEN is set.";
+
+export interface GoogleChatButtonClick {
+  buttonId: string;
+  userEmail: string;
+  messageName: string | null;
+  /** Which event format it came in — the response must use the same one. */
+  format: "legacy" | "addon";
+}
+
+function param(list: unknown, key: string): string | null {
+  if (!Array.isArray(list)) return null;
+  const hit = list.find(p => isRecord(p) && p.key === key);
+  return isRecord(hit) && typeof hit.value === "string" ? hit.value : null;
+}
+
+/** A click on one of our buttons, or null for any other event. Pure function. */
+export function parseGoogleChatButtonClick(event: unknown): GoogleChatButtonClick | null {
+  if (!isRecord(event)) return null;
+
+  // Workspace add-on: invokedFunction + parameters map under commonEventObject
+  if (isRecord(event.commonEventObject) && isRecord(event.chat)) {
+    const common = event.commonEventObject;
+    const params = isRecord(common.parameters) ? common.parameters : {};
+    if (common.invokedFunction !== BUTTON_FUNCTION || typeof params.button_id !== "string") return null;
+    const user = isRecord(event.chat.user) ? event.chat.user : {};
+    const payload = isRecord(event.chat.buttonClickedPayload) ? event.chat.buttonClickedPayload : {};
+    const message = isRecord(payload.message) ? payload.message : {};
+    return {
+      buttonId: params.button_id,
+      userEmail: typeof user.email === "string" ? user.email : "",
+      messageName: typeof message.name === "string" ? message.name : null,
+      format: "addon",
+    };
+  }
+
+  // Legacy CARD_CLICKED
+  if (event.type !== "CARD_CLICKED" || !isRecord(event.action)) return null;
+  if (event.action.actionMethodName !== BUTTON_FUNCTION) return null;
+  const buttonId = param(event.action.parameters, "button_id");
+  if (!buttonId) return null;
+  const user = isRecord(event.user) ? event.user : {};
+  const message = isRecord(event.message) ? event.message : {};
+  return {
+    buttonId,
+    userEmail: typeof user.email === "string" ? user.email : "",
+    messageName: typeof message.name === "string" ? message.name : null,
+    format: "legacy",
+  };
+}
+
+function respond(click: GoogleChatButtonClick, text: string, update: boolean): Record<string, unknown> {
+  if (click.format === "addon") {
+    const action = update
+      ? { updateMessageAction: { message: { text, cardsV2: [] } } }
+      : { createMessageAction: { message: { text } } };
+    return { hostAppDataAction: { chatDataAction: action } };
+  }
+  return update ? { actionResponse: { type: "UPDATE_MESSAGE" }, text, cardsV2: [] } : { text };
+}
+
+/**
+ * Answer the prompt a click belongs to. Returns the webhook response body,
+ * or null for buttons that aren't prompt answers. `verification` is the
+ * route's verify result; only "allowed" requests may answer.
+ */
+export async function handleGoogleChatButtonClick(
+  click: GoogleChatButtonClick,
+  verification: GChatVerifyResult,
+): Promise<Record<string, unknown> | null> {
+  const decoded = decodePromptAction(click.buttonId);
+  if (!decoded) return null;
+  if (verification !== "allowed") return respond(click, UNVERIFIED_ANSWER_TEXT, false);
+
+  const result = await answerPrompt(decoded.promptId, decoded.optionId, {
+    channel: "google-chat",
+    userId: click.userEmail,
+    messageId: click.messageName ?? undefined,
+  });
+  if (result.status === "answered") return respond(click, result.text, true);
+  return respond(click, promptAnswerFailureText(result.status), false);
+}
@@ -0,0 +1,98 @@
+/**
+ * Matrix Channel Adapter
+ *
+ * Matrix on the ChannelAdapter contract (../adapter.ts): /sync room
+ * events in (`{ room_id, event }`, the same payload the UMS connector
+ * takes), m.room.message out as markdown + org.matrix.custom.html,
+ * threaded with m.thread relations.
+ *
+ * The sync loop (index.ts, which pulls in the Claude handler) is imported
+ * lazily so registering the adapter costs nothing when Matrix is off.
+ */
+
+import type { ChannelAdapter, InboundMessage } from "../adapter.ts";
+import { isRecord, withButtonsAsText } from "../adapter.ts";
+import type { MatrixClient } from "./client.ts";
+import { getMatrixBotUserId, normalizeMatrixEvent } from "./normalize.ts";
+import { MATRIX_MAX_MESSAGE_LENGTH, editMatrixMessage, reactToMatrixEvent, sendMatrixMessage } from "./send.ts";
+
+export interface MatrixAdapterDeps {
+  client?: () => MatrixClient | null;
+}
+
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload) || typeof payload.room_id !== "string") return null;
+  const msg = normalizeMatrixEvent(payload.room_id, payload.event, { botUserId: getMatrixBotUserId() });
+  if (!msg) return null;
+  return {
+    channel: "matrix",
+    messageId: msg.eventId,
+    conversationId: msg.roomId,
+    threadId: msg.threadId,
+    sender: { id: msg.senderId, name: msg.senderName },
+    text: msg.text,
+    attachments: msg.attachmentUrls,
+    isDirect: payload.is_direct === true,
+    raw: payload,
+  };
+}
+
+export function createMatrixAdapter(deps: MatrixAdapterDeps = {}): ChannelAdapter {
+  async function client(): Promise<MatrixClient> {
+    const c = deps.client ? deps.client() : (await import("./index.ts")).getMatrixClient();
+    if (!c) throw new Error("Matrix sync not started");
+    return c;
+  }
+
+  return {
+    id: "matrix",
+    displayName: "Matrix",
+    capabilities: {
+      threads: true,
+      edits: true,
+      reactions: true,
+      attachments: true,
+      buttons: false,
+      maxMessageLength: MATRIX_MAX_MESSAGE_LENGTH,
+      markup: "markdown",
+      push: true,
+    },
+
+    isConfigured: () => !!(process.env.MATRIX_HOMESERVER_URL && process.env.MATRIX_ACCESS_TOKEN),
+    async start({ supabase }) {
+      const { startMatrixSync } = await import("./index.ts");
+      await startMatrixSync(supabase);
+    },
+    async stop() {
+      const { stopMatrixSync } = await import("./index.ts");
+      await stopMatrixSync();
+    },
+
+    normalize,
+    // Markdown stays the body; send() adds the HTML formatted_body
+    format: text => text,
+
+    async send(target, message) {
+      const messageIds = await sendMatrixMessage(await client(), target.conversationId, withButtonsAsText(message), {
+        threadId: target.threadId,
+        replyTo: target.replyTo,
+      });
+      return { messageIds, threadId: target.threadId ?? null };
+    },
+
+    async edit(target, messageId, text) {
+      await editMatrixMessage(await client(), target.conversationId, messageId, text);
+    },
+
+    async react(target, messageId, emoji) {
+      await reactToMatrixEvent(await client(), target.conversationId, messageId, emoji);
+    },
+
+    notificationTarget() {
+      const roomId = process.env.MATRIX_NOTIFICATION_ROOM;
+      return roomId ? { conversationId: roomId } : null;
+    },
+  };
+}
+
+export const matrixAdapter = createMatrixAdapter();
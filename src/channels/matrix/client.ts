@@ -0,0 +1,110 @@
+/**
+ * Matrix Client-Server API client
+ *
+ * The handful of endpoints the Matrix channel needs, over plain fetch —
+ * no SDK. Authenticates with a bot access token (MATRIX_ACCESS_TOKEN);
+ * every call is v3 (https://spec.matrix.org/v1.10/client-server-api/).
+ *
+ * Errors come back as MatrixApiError carrying the homeserver's errcode
+ * (M_FORBIDDEN, M_UNKNOWN_TOKEN, M_LIMIT_EXCEEDED, ...).
+ */
+
+import { randomUUID } from "crypto";
+
+const API = "/_matrix/client/v3";
+
+export class MatrixApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly errcode: string | null,
+    /** From M_LIMIT_EXCEEDED responses. */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "MatrixApiError";
+  }
+}
+
+// ── Event shapes (the parts we read) ─────────────────────────
+
+export interface MatrixEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts?: number;
+  content: Record<string, unknown>;
+  state_key?: string;
+  unsigned?: Record<string, unknown>;
+}
+
+export interface MatrixSyncResponse {
+  next_batch: string;
+  account_data?: { events?: { type: string; content: Record<string, unknown> }[] };
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[]; limited?: boolean } }>;
+    invite?: Record<string, { invite_state?: { events?: Omit<MatrixEvent, "event_id">[] } }>;
+  };
+}
+
+export interface MatrixClientOptions {
+  /** e.g. https://matrix.example.org */
+  homeserverUrl: string;
+  accessToken: string;
+}
+
+export interface MatrixClient {
+  readonly homeserverUrl: string;
+  whoami(): Promise<{ user_id: string }>;
+  /** Long-poll for events. First call (no since) should pass a filter limiting history. */
+  sync(opts: { since?: string; timeoutMs?: number; filter?: Record<string, unknown>; signal?: AbortSignal }): Promise<MatrixSyncResponse>;
+  joinRoom(roomIdOrAlias: string): Promise<{ room_id: string }>;
+  /** Send a room event; returns its event id. A transaction id makes retries idempotent. */
+  sendEvent(roomId: string, type: string, content: Record<string, unknown>, txnId?: string): Promise<string>;
+}
+
+export function createMatrixClient(opts: MatrixClientOptions): MatrixClient {
+  const base = opts.homeserverUrl.replace(/\/+$/, "");
+
+  async function call<T>(method: string, path: string, body?: unknown, init: { signal?: AbortSignal; timeoutMs?: number } = {}): Promise<T> {
+    const signal = init.signal ?? AbortSignal.timeout(init.timeoutMs ?? 15_000);
+    const res = await fetch(`${base}${API}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${opts.accessToken}`,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    const data = await res.json().catch(() => ({})) as Record<string, unknown>;
+    if (!res.ok) {
+      const errcode = typeof data.errcode === "string" ? data.errcode : null;
+      const retryAfter = typeof data.retry_after_ms === "number" ? data.retry_after_ms : null;
+      throw new MatrixApiError(`Matrix ${method} ${path.split("?")[0]} failed: ${res.status} ${errcode ?? ""} ${typeof data.error === "string" ? data.error : ""}`.trim(), res.status, errcode, retryAfter);
+    }
+    return data as T;
+  }
+
+  return {
+    homeserverUrl: base,
+
+    whoami: () => call("GET", "/account/whoami"),
+
+    sync({ since, timeoutMs = 30_000, filter, signal }) {
+      const params = new URLSearchParams({ timeout: String(timeoutMs) });
+      if (since) params.set("since", since);
+      if (filter) params.set("filter", JSON.stringify(filter));
+      // The server holds the request for up to timeoutMs; allow for that plus slack.
+      return call("GET", `/sync?${params}`, undefined, { signal: signal ?? AbortSignal.timeout(timeoutMs + 15_000) });
+    },
+
+    joinRoom: roomIdOrAlias => call("POST", `/join/${encodeURIComponent(roomIdOrAlias)}`, {}),
+
+    async sendEvent(roomId, type, content, txnId = randomUUID()) {
+      const path = `/rooms/${encodeURIComponent(roomId)}/send/${encodeURIComponent(type)}/${encodeURIComponent(txnId)}`;
+      const { event_id } = await call<{ event_id: string }>("PUT", path, content);
+      return event_id;
+    },
+  };
+}
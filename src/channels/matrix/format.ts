@@ -0,0 +1,58 @@
+/**
+ * Markdown → Matrix message content
+ *
+ * Matrix clients render `formatted_body` when `format` is
+ * "org.matrix.custom.html", and fall back to the plain `body`. Claude
+ * writes markdown, so the body keeps the markdown as-is and the HTML is
+ * a conversion restricted to the tags the spec recommends clients support
+ * (https://spec.matrix.org/v1.10/client-server-api/#mroommessage-msgtypes).
+ */
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, c => HTML_ESCAPES[c]);
+}
+
+/**
+ * Convert markdown to Matrix-safe HTML. Code is protected from other
+ * substitutions and HTML in the source is escaped, never passed through.
+ * Pure function.
+ */
+export function markdownToMatrixHtml(markdown: string): string {
+  const protected_: string[] = [];
+  const protect = (s: string): string => `\x00P${protected_.push(s) - 1}\x00`;
+  const restore = (s: string): string => s.replace(/\x00P(\d+)\x00/g, (_, i) => protected_[Number(i)]);
+
+  let text = markdown.replace(/```(\w*)\n?([\s\S]*?)```/g, (_, lang: string, code: string) =>
+    protect(`<pre><code${lang ? ` class="language-${escapeHtml(lang)}"` : ""}>${escapeHtml(code.replace(/\n$/, ""))}</code></pre>`));
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) => protect(`<code>${escapeHtml(code)}</code>`));
+
+  text = escapeHtml(text);
+
+  text = text.replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_, label: string, url: string) => `<a href="${url}">${label}</a>`);
+  text = text.replace(/^(#{1,6})\s+(.+)$/gm, (_, hashes: string, title: string) => `<h${hashes.length}>${title}</h${hashes.length}>`);
+  text = text.replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>");
+  text = text.replace(/(?<![*\w])\*(?!\s)([^*\n]+?)\*(?![*\w])/g, "<em>$1</em>");
+  text = text.replace(/~~(.+?)~~/g, "<del>$1</del>");
+
+  // Bullet lists: consecutive "- " / "* " lines become one <ul>
+  text = text.replace(/(?:^[-*]\s+.+(?:\n|$))+/gm, block => {
+    const items = block.trimEnd().split("\n").map(l => `<li>${l.replace(/^[-*]\s+/, "")}</li>`).join("");
+    return `<ul>${items}</ul>\n`;
+  });
+
+  text = text.replace(/\n{2,}/g, "<br><br>").replace(/\n/g, "<br>");
+  text = text.replace(/(<\/(?:h[1-6]|ul)>)<br>/g, "$1");
+  return restore(text);
+}
+
+/** m.text content with markdown body and HTML formatted_body. Pure function. */
+export function matrixTextContent(markdown: string, msgtype: "m.text" | "m.notice" = "m.text"): Record<string, unknown> {
+  return {
+    msgtype,
+    body: markdown,
+    format: "org.matrix.custom.html",
+    formatted_body: markdownToMatrixHtml(markdown),
+  };
+}
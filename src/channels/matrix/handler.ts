@@ -0,0 +1,218 @@
+/**
+ * Matrix Message Handler
+ *
+ * Bridges normalized Matrix messages and reactions to the Claude pipeline.
+ * Replies go into the message's thread (starting one on the user's message
+ * if it wasn't threaded) as markdown + org.matrix.custom.html.
+ *
+ * Approvals: [CONFIRM: ...] tags in a response become a "Confirm action"
+ * message the bot pre-reacts ✅ / ❌ to. The user tapping either reaction
+ * resolves the pending action (approval.ts) the way Telegram's inline
+ * buttons do, and the decision is sent back to Claude.
+ *
+ * Any other reaction on a message Ellie saved is recorded in
+ * message_reactions via api/reactions.ts, and removed again when the
+ * reaction is redacted.
+ */
+
+import { randomUUID } from "crypto";
+import { log } from "../../logger.ts";
+import { saveMessage } from "../../message-sender.ts";
+import { extractApprovalTags, getPendingAction, removePendingAction, storePendingAction } from "../../approval.ts";
+import type { ReactionsDeps } from "../../api/reactions.ts";
+import type { MatrixClient } from "./client.ts";
+import type { NormalizedMatrixMessage, NormalizedMatrixReaction } from "./normalize.ts";
+import { editMatrixMessage, reactToMatrixEvent, sendMatrixMessage } from "./send.ts";
+
+const logger = log.child("matrix-handler");
+
+const APPROVE_KEYS = new Set(["✅", "✔", "👍"]);
+const DENY_KEYS = new Set(["❌", "✖", "👎"]);
+
+/** Saved-message lookups kept for reactions; older events just aren't recorded. */
+const MAX_TRACKED_EVENTS = 1000;
+
+export interface MatrixHandlerContext {
+  client: MatrixClient;
+  /** null when Supabase isn't configured — reactions are then not recorded */
+  reactions: ReactionsDeps | null;
+}
+
+interface PendingApprovalEvent {
+  actionId: string;
+  roomId: string;
+  threadId: string;
+  agent: string;
+  /** The user message that led to the confirmation — Claude runs without session resume */
+  request: string;
+}
+
+/** Confirm-message event id → the pending action it asks about. */
+const approvalEvents = new Map<string, PendingApprovalEvent>();
+/** Matrix event id → messages.id, for recording reactions. */
+const savedMessageIds = new Map<string, string>();
+/** Reaction event id → what it recorded, so a redaction can remove it. */
+const recordedReactions = new Map<string, { messageId: string; key: string; senderId: string }>();
+
+function remember<V>(map: Map<string, V>, key: string, value: V): void {
+  map.set(key, value);
+  if (map.size > MAX_TRACKED_EVENTS) map.delete(map.keys().next().value!);
+}
+
+/** Reaction keys arrive with or without the emoji variation selector. */
+function reactionDecision(key: string): "approve" | "deny" | null {
+  const bare = key.replace(/\uFE0F/g, "");
+  if (APPROVE_KEYS.has(bare)) return "approve";
+  if (DENY_KEYS.has(bare)) return "deny";
+  return null;
+}
+
+/** Whether this user may message, invite or approve. No allow list means nobody. */
+export function isAllowedMatrixUser(userId: string): boolean {
+  const allowed = process.env.MATRIX_ALLOWED_USER_ID;
+  if (!allowed) return false;
+  return allowed.split(",").map(s => s.trim()).includes(userId);
+}
+
+// ── Responses ─────────────────────────────────────────────────
+
+/**
+ * Send a Claude response into the thread: text first, then one confirm
+ * message per [CONFIRM: ...] tag. Returns the cleaned text.
+ */
+async function sendResponse(
+  ctx: MatrixHandlerContext,
+  response: string,
+  where: { roomId: string; threadId: string; replyTo: string; agent: string; request: string },
+): Promise<string> {
+  const { cleanedText, confirmations } = extractApprovalTags(response);
+
+  let eventIds: string[] = [];
+  if (cleanedText) {
+    eventIds = await sendMatrixMessage(ctx.client, where.roomId, cleanedText, { threadId: where.threadId, replyTo: where.replyTo });
+  }
+  const savedId = await saveMessage("assistant", cleanedText, { matrix_room: where.roomId, matrix_thread: where.threadId }, "matrix");
+  if (savedId) for (const id of eventIds) remember(savedMessageIds, id, savedId);
+
+  for (const description of confirmations) {
+    const actionId = randomUUID();
+    const [eventId] = await sendMatrixMessage(
+      ctx.client,
+      where.roomId,
+      `⚠️ Confirm action:\n${description}\n\nReact ✅ to approve or ❌ to deny.`,
+      { threadId: where.threadId },
+    );
+    storePendingAction(actionId, description, null, 0, 0, { channel: "matrix", agentName: where.agent });
+    remember(approvalEvents, eventId, { actionId, roomId: where.roomId, threadId: where.threadId, agent: where.agent, request: where.request });
+
+    // Seed the two reactions so approving is a single tap
+    for (const key of ["✅", "❌"]) {
+      await reactToMatrixEvent(ctx.client, where.roomId, eventId, key).catch(err => {
+        logger.warn("Matrix: could not seed approval reaction", { key, error: err instanceof Error ? err.message : String(err) });
+      });
+    }
+    logger.info(`Pending approval: ${description.substring(0, 60)}`);
+  }
+
+  return cleanedText;
+}
+
+// ── Inbound message ───────────────────────────────────────────
+
+export async function handleMatrixMessage(
+  ctx: MatrixHandlerContext,
+  msg: NormalizedMatrixMessage,
+  agent: string,
+): Promise<void> {
+  // Reply in the existing thread, or start one on the user's message
+  const threadId = msg.threadId ?? msg.eventId;
+  const text = msg.text || "(image/attachment)";
+
+  const userMessageId = await saveMessage(
+    "user",
+    text,
+    { matrix_room: msg.roomId, matrix_event_id: msg.eventId, matrix_thread: msg.threadId, attachments: msg.attachmentUrls },
+    "matrix",
+    msg.senderId,
+  );
+  if (userMessageId) remember(savedMessageIds, msg.eventId, userMessageId);
+
+  try {
+    const { callClaude } = await import("../../claude-cli.ts");
+    const contextPrefix = `[Matrix · ${agent} · from ${msg.senderName}]\n\n`;
+    const response = await callClaude(contextPrefix + text, { resume: false });
+
+    await sendResponse(ctx, response, { roomId: msg.roomId, threadId, replyTo: msg.eventId, agent, request: text });
+    logger.info("Matrix response sent", { agent, roomId: msg.roomId });
+  } catch (err) {
+    logger.error("Matrix handler error", { agent, error: err instanceof Error ? err.message : String(err) });
+    await sendMatrixMessage(ctx.client, msg.roomId, "Sorry, something went wrong. Please try again.", { threadId }).catch(() => {});
+  }
+}
+
+// ── Reactions ─────────────────────────────────────────────────
+
+async function resolveApproval(
+  ctx: MatrixHandlerContext,
+  reaction: NormalizedMatrixReaction,
+  pending: PendingApprovalEvent,
+  decision: "approve" | "deny",
+): Promise<void> {
+  approvalEvents.delete(reaction.targetEventId);
+  const action = getPendingAction(pending.actionId);
+  if (!action) {
+    await sendMatrixMessage(ctx.client, pending.roomId, "This action has expired.", { threadId: pending.threadId });
+    return;
+  }
+  removePendingAction(pending.actionId);
+
+  const approved = decision === "approve";
+  await editMatrixMessage(ctx.client, pending.roomId, reaction.targetEventId, `${approved ? "✅ Approved" : "❌ Denied"}: ${action.description}`);
+  await saveMessage("user", `[${approved ? "Approved" : "Denied"} action: ${action.description}]`, { matrix_room: pending.roomId }, "matrix", reaction.senderId);
+
+  const resumePrompt = approved
+    ? `The user APPROVED the following action: "${action.description}". Proceed with executing it now.`
+    : `The user DENIED the following action: "${action.description}". Do NOT proceed with this action. Acknowledge briefly.`;
+  const agent = action.agentName || pending.agent;
+
+  try {
+    const { callClaude } = await import("../../claude-cli.ts");
+    const contextPrefix = `[Matrix · ${agent} · from ${reaction.senderId}]\n\nOriginal request: ${pending.request}\n\n`;
+    const response = await callClaude(contextPrefix + resumePrompt, { resume: false });
+    await sendResponse(ctx, response, { roomId: pending.roomId, threadId: pending.threadId, replyTo: reaction.targetEventId, agent, request: pending.request });
+  } catch (err) {
+    logger.error("Matrix approval resume error", { agent, error: err instanceof Error ? err.message : String(err) });
+    await sendMatrixMessage(ctx.client, pending.roomId, "Sorry, something went wrong. Please try again.", { threadId: pending.threadId }).catch(() => {});
+  }
+}
+
+export async function handleMatrixReaction(ctx: MatrixHandlerContext, reaction: NormalizedMatrixReaction): Promise<void> {
+  if (!isAllowedMatrixUser(reaction.senderId)) return;
+
+  const pending = approvalEvents.get(reaction.targetEventId);
+  const decision = reactionDecision(reaction.key);
+  if (pending && decision) {
+    await resolveApproval(ctx, reaction, pending, decision);
+    return;
+  }
+
+  const messageId = savedMessageIds.get(reaction.targetEventId);
+  if (!messageId || !ctx.reactions) return;
+  const recorded = await ctx.reactions.addReaction(messageId, reaction.key, reaction.senderId);
+  if (recorded) remember(recordedReactions, reaction.eventId, { messageId, key: reaction.key, senderId: reaction.senderId });
+}
+
+/** A redacted reaction removes what handleMatrixReaction recorded. */
+export async function handleMatrixRedaction(ctx: MatrixHandlerContext, redactedEventId: string): Promise<void> {
+  const recorded = recordedReactions.get(redactedEventId);
+  if (!recorded || !ctx.reactions) return;
+  recordedReactions.delete(redactedEventId);
+  await ctx.reactions.removeReaction(recorded.messageId, recorded.key, recorded.senderId);
+}
+
+/** Testing only — forget tracked approval, message and reaction events. */
+export function _resetMatrixHandlerForTesting(): void {
+  approvalEvents.clear();
+  savedMessageIds.clear();
+  recordedReactions.clear();
+}
@@ -0,0 +1,179 @@
+/**
+ * Matrix Channel Plugin
+ *
+ * Client-Server API adapter for a self-hosted homeserver. Activates only if
+ * MATRIX_HOMESERVER_URL + MATRIX_ACCESS_TOKEN are set.
+ * Register from relay.ts via the channel registry (adapter.ts).
+ *
+ * Architecture:
+ *   - Inbound:  /sync long-poll → sync.ts → normalize.ts → handler.ts (queued)
+ *   - Outbound: send.ts (m.room.message with org.matrix.custom.html, m.thread replies)
+ *   - UMS:      every inbound room message is ingested as provider "matrix"
+ *   - Routing:  MATRIX_ROOM_* env vars → agent name map
+ *
+ * Ellie replies in mapped rooms, in direct rooms, and anywhere she's
+ * mentioned. Messages, invites and approval reactions are only accepted
+ * from MATRIX_ALLOWED_USER_ID; with it unset, everyone is refused.
+ *
+ * Env vars:
+ *   MATRIX_HOMESERVER_URL     — e.g. https://matrix.example.org (required)
+ *   MATRIX_ACCESS_TOKEN       — bot account access token (required)
+ *   MATRIX_ALLOWED_USER_ID    — comma-separated Matrix user IDs allow list (required to talk to Ellie)
+ *   MATRIX_NOTIFICATION_ROOM  — room ID for proactive notifications
+ *   MATRIX_ROOM_GENERAL       — room ID → general agent
+ *   MATRIX_ROOM_DEV           — room ID → dev agent
+ *   MATRIX_ROOM_STRATEGY      — room ID → strategy agent
+ *   MATRIX_ROOM_RESEARCH      — room ID → research agent
+ *   MATRIX_ROOM_WORKFLOW      — room ID → workflow agent
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { log } from "../../logger.ts";
+import { enqueue } from "../../message-queue.ts";
+import { makeReactionsDeps } from "../../api/reactions.ts";
+import { ingest, registerConnector, matrixConnector } from "../../ums/index.ts";
+import { createMatrixClient, type MatrixClient, type MatrixEvent } from "./client.ts";
+import { setMatrixBotUserId, type NormalizedMatrixMessage } from "./normalize.ts";
+import { createMatrixSyncLoop, type MatrixSyncLoop } from "./sync.ts";
+import { handleMatrixMessage, handleMatrixReaction, handleMatrixRedaction, isAllowedMatrixUser, type MatrixHandlerContext } from "./handler.ts";
+
+const logger = log.child("matrix");
+
+// ── Room → agent routing ──────────────────────────────────────
+
+const ROOM_AGENT_MAP: Record<string, string> = {};
+
+function buildRoomMap(): void {
+  const mappings: Array<[string, string]> = [
+    ["MATRIX_ROOM_GENERAL", "general"],
+    ["MATRIX_ROOM_DEV", "dev"],
+    ["MATRIX_ROOM_STRATEGY", "strategy"],
+    ["MATRIX_ROOM_RESEARCH", "research"],
+    ["MATRIX_ROOM_WORKFLOW", "workflow"],
+  ];
+  for (const [envKey, agent] of mappings) {
+    const roomId = process.env[envKey];
+    if (roomId) ROOM_AGENT_MAP[roomId] = agent;
+  }
+}
+
+export function resolveAgent(roomId: string): string {
+  return ROOM_AGENT_MAP[roomId] ?? "general";
+}
+
+/** Whether Ellie should answer this message (vs. only ingesting it). */
+export function isAddressedToEllie(msg: NormalizedMatrixMessage): boolean {
+  return msg.roomId in ROOM_AGENT_MAP || msg.isDirect || msg.mentioned;
+}
+
+// ── Status ────────────────────────────────────────────────────
+
+export function isMatrixConfigured(): boolean {
+  return !!(process.env.MATRIX_HOMESERVER_URL && process.env.MATRIX_ACCESS_TOKEN);
+}
+
+export function getMatrixNotificationRoom(): string | undefined {
+  return process.env.MATRIX_NOTIFICATION_ROOM || undefined;
+}
+
+// ── Inbound ───────────────────────────────────────────────────
+
+async function handleInbound(
+  ctx: MatrixHandlerContext,
+  supabase: SupabaseClient | null,
+  msg: NormalizedMatrixMessage,
+  event: MatrixEvent,
+): Promise<void> {
+  if (supabase) {
+    await ingest(supabase, "matrix", { room_id: msg.roomId, event, is_direct: msg.isDirect }).catch(err => {
+      logger.warn("Matrix UMS ingest failed", { error: err instanceof Error ? err.message : String(err) });
+    });
+  }
+
+  if (!isAllowedMatrixUser(msg.senderId)) {
+    logger.warn("Matrix: unauthorized user", { userId: msg.senderId });
+    return;
+  }
+  if (!isAddressedToEllie(msg)) return;
+
+  const agent = resolveAgent(msg.roomId);
+  const preview = msg.text.slice(0, 60) || "(attachment)";
+  logger.info("Matrix message received", { agent, senderId: msg.senderId, roomId: msg.roomId, preview });
+
+  await enqueue(() => handleMatrixMessage(ctx, msg, agent), `matrix-${agent}`, preview);
+}
+
+// ── Sync lifecycle ────────────────────────────────────────────
+
+let _client: MatrixClient | null = null;
+let _loop: MatrixSyncLoop | null = null;
+
+export function getMatrixClient(): MatrixClient | null {
+  return _client;
+}
+
+/**
+ * Log in (whoami) and start the /sync loop. Throws if the homeserver
+ * rejects the token, so the channel registry reports the adapter as
+ * not started.
+ */
+export async function startMatrixSync(supabase: SupabaseClient | null): Promise<void> {
+  if (!isMatrixConfigured()) {
+    logger.info("MATRIX_HOMESERVER_URL / MATRIX_ACCESS_TOKEN not set — Matrix channel disabled");
+    return;
+  }
+
+  if (!process.env.MATRIX_ALLOWED_USER_ID) {
+    logger.warn("MATRIX_ALLOWED_USER_ID not set — Matrix messages, invites and approvals will be refused");
+  }
+
+  buildRoomMap();
+  registerConnector(matrixConnector);
+
+  const client = createMatrixClient({
+    homeserverUrl: process.env.MATRIX_HOMESERVER_URL!,
+    accessToken: process.env.MATRIX_ACCESS_TOKEN!,
+  });
+  const { user_id: botUserId } = await client.whoami();
+  setMatrixBotUserId(botUserId);
+
+  const ctx: MatrixHandlerContext = { client, reactions: supabase ? makeReactionsDeps(supabase) : null };
+  const loop = createMatrixSyncLoop({
+    client,
+    botUserId,
+    handlers: {
+      onMessage: (msg, event) => handleInbound(ctx, supabase, msg, event),
+      // Queued: an approval reaction resumes Claude
+      onReaction: reaction =>
+        enqueue(() => handleMatrixReaction(ctx, reaction), `matrix-${resolveAgent(reaction.roomId)}`, `[Reaction ${reaction.key}]`),
+      onRedaction: eventId => handleMatrixRedaction(ctx, eventId),
+      async onInvite(roomId, inviter) {
+        if (!inviter || !isAllowedMatrixUser(inviter)) {
+          logger.warn("Matrix: ignoring invite", { roomId, inviter });
+          return;
+        }
+        await client.joinRoom(roomId);
+        logger.info("Matrix: joined room", { roomId, inviter });
+      },
+    },
+  });
+
+  _client = client;
+  _loop = loop;
+  loop.start();
+  logger.info("Matrix sync started", { userId: botUserId, homeserver: client.homeserverUrl });
+}
+
+export async function stopMatrixSync(): Promise<void> {
+  if (_loop) {
+    await _loop.stop();
+    _loop = null;
+    _client = null;
+    setMatrixBotUserId(null);
+    logger.info("Matrix sync stopped");
+  }
+}
+
+// ── Public send helpers ───────────────────────────────────────
+
+export { sendMatrixMessage, editMatrixMessage, reactToMatrixEvent } from "./send.ts";
@@ -0,0 +1,158 @@
+/**
+ * Matrix Inbound Normalizer
+ *
+ * Converts room timeline events from /sync into clean Ellie inbound
+ * messages before any agent logic sees them. The normalizers are pure —
+ * the bot's own user id and the set of direct rooms are passed in.
+ *
+ * Handles:
+ *   - m.room.message (m.text, m.emote, and file/media msgtypes)
+ *   - Threads (m.relates_to rel_type "m.thread")
+ *   - Reply fallbacks ("> <@user> ..." quote lines) stripped from the body
+ *   - Mentions via m.mentions or the bot's user id / localpart in the body
+ *   - m.reaction annotations (for reaction approvals)
+ *   - m.room.redaction targets (a removed reaction)
+ *
+ * Ignored: the bot's own events, m.notice (other bots), edits (m.replace),
+ * redacted events, and anything that isn't a message or reaction.
+ */
+
+import type { MatrixEvent } from "./client.ts";
+
+export interface NormalizedMatrixMessage {
+  /** Body with reply fallback and bot mention stripped */
+  text: string;
+  eventId: string;
+  roomId: string;
+  senderId: string;
+  /** Localpart of the sender's user id — timeline events don't carry display names */
+  senderName: string;
+  /** Thread root event id if the message is inside a thread */
+  threadId: string | null;
+  isDirect: boolean;
+  /** True if the bot was mentioned */
+  mentioned: boolean;
+  /** mxc:// URIs of attached media */
+  attachmentUrls: string[];
+  timestamp: number | null;
+}
+
+export interface NormalizedMatrixReaction {
+  eventId: string;
+  roomId: string;
+  senderId: string;
+  /** The event being reacted to */
+  targetEventId: string;
+  /** The reaction key — usually an emoji */
+  key: string;
+}
+
+export interface MatrixNormalizeContext {
+  botUserId: string | null;
+  directRooms?: ReadonlySet<string>;
+}
+
+const MEDIA_MSGTYPES = new Set(["m.image", "m.file", "m.audio", "m.video"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Bot user id — set once whoami succeeds. */
+let _botUserId: string | null = null;
+export function setMatrixBotUserId(id: string | null): void { _botUserId = id; }
+export function getMatrixBotUserId(): string | null { return _botUserId; }
+
+/** "@dave:example.org" → "dave" */
+export function localpart(userId: string): string {
+  return userId.replace(/^@/, "").split(":")[0] || userId;
+}
+
+/** Drop the "> <@user> quoted text" lines clients prepend to rich replies. */
+function stripReplyFallback(body: string): string {
+  const lines = body.split("\n");
+  let i = 0;
+  while (i < lines.length && lines[i].startsWith(">")) i++;
+  if (i === 0) return body;
+  return lines.slice(i).join("\n").replace(/^\n+/, "");
+}
+
+function isMatrixEvent(value: unknown): value is MatrixEvent {
+  return isRecord(value) && typeof value.type === "string" && typeof value.event_id === "string"
+    && typeof value.sender === "string" && isRecord(value.content);
+}
+
+/**
+ * Normalize a room timeline event into the standard Ellie format.
+ * Returns null if the event should be ignored.
+ */
+export function normalizeMatrixEvent(roomId: string, event: unknown, ctx: MatrixNormalizeContext): NormalizedMatrixMessage | null {
+  if (!isMatrixEvent(event) || event.type !== "m.room.message") return null;
+  if (ctx.botUserId && event.sender === ctx.botUserId) return null;
+
+  const content = event.content;
+  const msgtype = typeof content.msgtype === "string" ? content.msgtype : null;
+  if (!msgtype || msgtype === "m.notice") return null;
+
+  const relates = isRecord(content["m.relates_to"]) ? content["m.relates_to"] : null;
+  if (relates?.rel_type === "m.replace") return null;
+
+  const attachmentUrls: string[] = [];
+  let body = typeof content.body === "string" ? content.body : "";
+  if (MEDIA_MSGTYPES.has(msgtype)) {
+    if (typeof content.url === "string") attachmentUrls.push(content.url);
+    // For media the body is the filename, not something the user said
+    body = "";
+  } else if (relates && isRecord(relates["m.in_reply_to"])) {
+    body = stripReplyFallback(body);
+  }
+
+  let mentioned = false;
+  if (ctx.botUserId) {
+    const mentions = isRecord(content["m.mentions"]) ? content["m.mentions"] : null;
+    const userIds = Array.isArray(mentions?.user_ids) ? mentions.user_ids : [];
+    // Older clients without m.mentions address the bot as "ellie: ..." at the start
+    const namePrefix = new RegExp(`^@?${localpart(ctx.botUserId).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}:\\s*`, "i");
+    mentioned = userIds.includes(ctx.botUserId) || body.includes(ctx.botUserId) || namePrefix.test(body);
+    body = body.split(ctx.botUserId).join("").trim().replace(/^[:,]\s*/, "").replace(namePrefix, "");
+  }
+
+  const text = (msgtype === "m.emote" ? `* ${localpart(event.sender)} ${body}` : body).trim();
+  if (!text && attachmentUrls.length === 0) return null;
+
+  return {
+    text,
+    eventId: event.event_id,
+    roomId,
+    senderId: event.sender,
+    senderName: localpart(event.sender),
+    threadId: relates?.rel_type === "m.thread" && typeof relates.event_id === "string" ? relates.event_id : null,
+    isDirect: ctx.directRooms?.has(roomId) ?? false,
+    mentioned,
+    attachmentUrls,
+    timestamp: typeof event.origin_server_ts === "number" ? event.origin_server_ts : null,
+  };
+}
+
+/** Normalize an m.reaction annotation. Returns null for anything else or the bot's own. */
+export function normalizeMatrixReaction(roomId: string, event: unknown, ctx: MatrixNormalizeContext): NormalizedMatrixReaction | null {
+  if (!isMatrixEvent(event) || event.type !== "m.reaction") return null;
+  if (ctx.botUserId && event.sender === ctx.botUserId) return null;
+  const relates = isRecord(event.content["m.relates_to"]) ? event.content["m.relates_to"] : null;
+  if (!relates || relates.rel_type !== "m.annotation") return null;
+  if (typeof relates.event_id !== "string" || typeof relates.key !== "string" || !relates.key) return null;
+  return {
+    eventId: event.event_id,
+    roomId,
+    senderId: event.sender,
+    targetEventId: relates.event_id,
+    key: relates.key,
+  };
+}
+
+/** The event id an m.room.redaction removes (top-level before room v11, in content from v11). */
+export function redactedEventId(event: unknown): string | null {
+  if (!isMatrixEvent(event) || event.type !== "m.room.redaction") return null;
+  const redacts = (event as MatrixEvent & { redacts?: unknown }).redacts ?? event.content.redacts;
+  return typeof redacts === "string" ? redacts : null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Matrix Outbound Sender
+ *
+ * Room messages as markdown body + org.matrix.custom.html, threaded via
+ * m.thread relations, edits via m.replace and reactions via m.annotation.
+ * Long responses are chunked; every chunk stays in the same thread.
+ */
+
+import { chunkText } from "../adapter.ts";
+import type { MatrixClient } from "./client.ts";
+import { matrixTextContent } from "./format.ts";
+
+/**
+ * Homeservers cap events at 64 KiB of JSON; body + formatted_body roughly
+ * double the text, so stay well under.
+ */
+export const MATRIX_MAX_MESSAGE_LENGTH = 16_000;
+
+export interface MatrixSendOptions {
+  /** Thread root event id — the reply goes into that thread */
+  threadId?: string | null;
+  /** Event the first chunk replies to (shown as a quote in thread-unaware clients) */
+  replyTo?: string | null;
+  msgtype?: "m.text" | "m.notice";
+}
+
+/** m.relates_to for a message in a thread, with the reply fallback for older clients. */
+export function threadRelation(threadId: string, replyTo?: string | null): Record<string, unknown> {
+  return {
+    rel_type: "m.thread",
+    event_id: threadId,
+    is_falling_back: !replyTo || replyTo === threadId,
+    "m.in_reply_to": { event_id: replyTo ?? threadId },
+  };
+}
+
+/** Send markdown to a room, chunked. Returns the event ids in order. */
+export async function sendMatrixMessage(client: MatrixClient, roomId: string, markdown: string, opts: MatrixSendOptions = {}): Promise<string[]> {
+  const eventIds: string[] = [];
+  const chunks = chunkText(markdown, MATRIX_MAX_MESSAGE_LENGTH);
+  for (let i = 0; i < chunks.length; i++) {
+    const content = matrixTextContent(chunks[i], opts.msgtype);
+    if (opts.threadId) {
+      content["m.relates_to"] = threadRelation(opts.threadId, i === 0 ? opts.replyTo : eventIds[i - 1]);
+    } else if (i === 0 && opts.replyTo) {
+      content["m.relates_to"] = { "m.in_reply_to": { event_id: opts.replyTo } };
+    }
+    eventIds.push(await client.sendEvent(roomId, "m.room.message", content));
+  }
+  return eventIds;
+}
+
+/** Replace the text of a message the bot sent earlier. */
+export async function editMatrixMessage(client: MatrixClient, roomId: string, eventId: string, markdown: string): Promise<string> {
+  const newContent = matrixTextContent(markdown.slice(0, MATRIX_MAX_MESSAGE_LENGTH));
+  return client.sendEvent(roomId, "m.room.message", {
+    msgtype: "m.text",
+    body: `* ${newContent.body}`,
+    format: "org.matrix.custom.html",
+    formatted_body: `* ${newContent.formatted_body}`,
+    "m.new_content": newContent,
+    "m.relates_to": { rel_type: "m.replace", event_id: eventId },
+  });
+}
+
+/** Annotate an event with a reaction key (usually an emoji). */
+export async function reactToMatrixEvent(client: MatrixClient, roomId: string, eventId: string, key: string): Promise<string> {
+  return client.sendEvent(roomId, "m.reaction", {
+    "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key },
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * Matrix /sync Loop
+ *
+ * Long-polls /sync and dispatches room events to handlers. The first sync
+ * fetches no timeline — Ellie answers what arrives while she's running,
+ * not the room history — but still picks up pending invites and the
+ * m.direct account data that marks DM rooms.
+ *
+ * Failures back off exponentially (honouring M_LIMIT_EXCEEDED's
+ * retry_after_ms); M_UNKNOWN_TOKEN stops the loop since retrying a revoked
+ * token can't succeed.
+ */
+
+import { log } from "../../logger.ts";
+import { MatrixApiError, type MatrixClient, type MatrixEvent } from "./client.ts";
+import {
+  normalizeMatrixEvent,
+  normalizeMatrixReaction,
+  redactedEventId,
+  type NormalizedMatrixMessage,
+  type NormalizedMatrixReaction,
+} from "./normalize.ts";
+
+const logger = log.child("matrix-sync");
+
+/** First sync: state and invites only, no timeline. */
+const INITIAL_FILTER = { room: { timeline: { limit: 0 } } };
+
+export interface MatrixSyncHandlers {
+  onMessage(msg: NormalizedMatrixMessage, event: MatrixEvent): void | Promise<void>;
+  onReaction(reaction: NormalizedMatrixReaction): void | Promise<void>;
+  onRedaction?(redactedEventId: string, roomId: string): void | Promise<void>;
+  onInvite?(roomId: string, inviter: string | null, isDirect: boolean): void | Promise<void>;
+}
+
+export interface MatrixSyncLoopOptions {
+  client: MatrixClient;
+  botUserId: string;
+  handlers: MatrixSyncHandlers;
+  /** Server-side long-poll timeout (default 30s) */
+  timeoutMs?: number;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface MatrixSyncLoop {
+  /** One /sync round trip, dispatching everything it returned. */
+  syncOnce(): Promise<void>;
+  /** Run syncOnce until stop(). */
+  start(): void;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+  readonly directRooms: ReadonlySet<string>;
+}
+
+export function createMatrixSyncLoop(opts: MatrixSyncLoopOptions): MatrixSyncLoop {
+  const { client, botUserId, handlers } = opts;
+  const timeoutMs = opts.timeoutMs ?? 30_000;
+  const minBackoff = opts.minBackoffMs ?? 1_000;
+  const maxBackoff = opts.maxBackoffMs ?? 60_000;
+
+  let since: string | undefined;
+  let stopped = true;
+  let running: Promise<void> | null = null;
+  let abort = new AbortController();
+  let wake: (() => void) | null = null;
+  const directRooms = new Set<string>();
+
+  async function dispatch(what: string, fn: () => void | Promise<void>): Promise<void> {
+    try {
+      await fn();
+    } catch (err) {
+      logger.error(`Matrix ${what} handler failed`, { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  async function syncOnce(): Promise<void> {
+    const initial = !since;
+    const res = await client.sync({
+      since,
+      timeoutMs: initial ? 0 : timeoutMs,
+      filter: initial ? INITIAL_FILTER : undefined,
+      signal: stopped ? undefined : abort.signal,
+    });
+    since = res.next_batch;
+
+    for (const event of res.account_data?.events ?? []) {
+      if (event.type !== "m.direct") continue;
+      for (const rooms of Object.values(event.content)) {
+        if (Array.isArray(rooms)) for (const roomId of rooms) if (typeof roomId === "string") directRooms.add(roomId);
+      }
+    }
+
+    for (const [roomId, invite] of Object.entries(res.rooms?.invite ?? {})) {
+      const member = invite.invite_state?.events?.find(e => e.type === "m.room.member" && e.state_key === botUserId);
+      const isDirect = member?.content.is_direct === true;
+      if (isDirect) directRooms.add(roomId);
+      if (handlers.onInvite) await dispatch("invite", () => handlers.onInvite!(roomId, member?.sender ?? null, isDirect));
+    }
+
+    if (initial) return;
+
+    const ctx = { botUserId, directRooms };
+    for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+      for (const event of room.timeline?.events ?? []) {
+        const redacted = redactedEventId(event);
+        if (redacted) {
+          if (handlers.onRedaction) await dispatch("redaction", () => handlers.onRedaction!(redacted, roomId));
+          continue;
+        }
+        const reaction = normalizeMatrixReaction(roomId, event, ctx);
+        if (reaction) {
+          await dispatch("reaction", () => handlers.onReaction(reaction));
+          continue;
+        }
+        const msg = normalizeMatrixEvent(roomId, event, ctx);
+        if (msg) await dispatch("message", () => handlers.onMessage(msg, event));
+      }
+    }
+  }
+
+  async function run(): Promise<void> {
+    let backoff = minBackoff;
+    while (!stopped) {
+      try {
+        await syncOnce();
+        backoff = minBackoff;
+      } catch (err) {
+        if (stopped) break;
+        if (err instanceof MatrixApiError && err.errcode === "M_UNKNOWN_TOKEN") {
+          logger.error("Matrix access token rejected — sync stopped", { error: err.message });
+          stopped = true;
+          break;
+        }
+        const waitMs = err instanceof MatrixApiError && err.retryAfterMs ? err.retryAfterMs : backoff;
+        logger.warn("Matrix sync failed — retrying", { waitMs, error: err instanceof Error ? err.message : String(err) });
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, waitMs);
+          wake = () => { clearTimeout(timer); resolve(); };
+        });
+        wake = null;
+        backoff = Math.min(backoff * 2, maxBackoff);
+      }
+    }
+  }
+
+  return {
+    syncOnce,
+    start() {
+      if (!stopped) return;
+      stopped = false;
+      abort = new AbortController();
+      running = run();
+    },
+    async stop() {
+      stopped = true;
+      abort.abort();
+      wake?.();
+      await running;
+      running = null;
+    },
+    isRunning: () => !stopped,
+    directRooms,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Channel Adapter Registry
+ *
+ * Adapters register here (builtin.ts for the ones shipped with the relay)
+ * and the rest of the relay finds them by id. startChannelAdapters() runs
+ * each configured adapter's start hook at relay startup;
+ * stopChannelAdapters() runs the stop hooks in reverse at shutdown.
+ *
+ * Deliberately free of platform imports so notification-policy.ts and
+ * delivery.ts can look adapters up without loading every SDK.
+ */
+
+import { log } from "../logger.ts";
+import type { ChannelAdapter, ChannelStartContext } from "./adapter.ts";
+
+const logger = log.child("channels");
+
+const adapters = new Map<string, ChannelAdapter>();
+const started: ChannelAdapter[] = [];
+
+/** Register an adapter. Throws if another adapter already has its id. */
+export function registerChannelAdapter(adapter: ChannelAdapter): void {
+  const existing = adapters.get(adapter.id);
+  if (existing && existing !== adapter) throw new Error(`Channel adapter already registered: ${adapter.id}`);
+  adapters.set(adapter.id, adapter);
+}
+
+export function getChannelAdapter(id: string): ChannelAdapter | null {
+  return adapters.get(id) ?? null;
+}
+
+/** All registered adapters, in registration order. */
+export function listChannelAdapters(): ChannelAdapter[] {
+  return [...adapters.values()];
+}
+
+/**
+ * Start every configured adapter. A failing start is logged and skipped so
+ * one broken platform does not keep the relay down. Returns the ids started.
+ */
+export async function startChannelAdapters(ctx: ChannelStartContext): Promise<string[]> {
+  const ids: string[] = [];
+  for (const adapter of adapters.values()) {
+    if (started.includes(adapter)) continue;
+    if (!adapter.isConfigured()) {
+      logger.info(`${adapter.displayName} not configured — skipping`);
+      continue;
+    }
+    try {
+      await adapter.start?.(ctx);
+      started.push(adapter);
+      ids.push(adapter.id);
+    } catch (err) {
+      logger.error(`${adapter.displayName} failed to start`, err);
+    }
+  }
+  logger.info("Channel adapters started", { channels: ids });
+  return ids;
+}
+
+/** Stop started adapters in reverse start order. Errors are logged, never thrown. */
+export async function stopChannelAdapters(): Promise<void> {
+  while (started.length > 0) {
+    const adapter = started.pop()!;
+    try {
+      await adapter.stop?.();
+    } catch (err) {
+      logger.warn(`${adapter.displayName} failed to stop`, err);
+    }
+  }
+}
+
+/** True once startChannelAdapters() has started the adapter. */
+export function isChannelAdapterStarted(id: string): boolean {
+  return started.some(a => a.id === id);
+}
+
+/** For tests: forget all adapters. */
+export function _resetChannelAdaptersForTesting(): void {
+  adapters.clear();
+  started.length = 0;
+}
@@ -0,0 +1,116 @@
+/**
+ * Slack Channel Adapter
+ *
+ * Slack on the ChannelAdapter contract (../adapter.ts): Events API
+ * payloads in, chat.postMessage out, threaded by thread_ts. Buttons are
+ * Block Kit actions whose action_id is the button id; presses come back
+ * through interactions.ts. Wraps the existing verify/format/send modules;
+ * routing and the Claude round-trip stay in handler.ts.
+ */
+
+import type { ChannelAdapter, InboundMessage, MessageButton } from '../adapter.ts'
+import { chunkText, isRecord } from '../adapter.ts'
+import { verifySlackRequest } from './verify.ts'
+import { markdownToMrkdwn, stripMentions } from './format.ts'
+import { sendSlackMessage, updateSlackMessage } from './send.ts'
+import { isSlackConfigured, getSlackNotificationChannel, startSlackChannel } from './index.ts'
+
+function token(): string {
+  return process.env.SLACK_BOT_TOKEN ?? ''
+}
+
+const MAX_ACTIONS = 25
+
+/** Block Kit: the text as a mrkdwn section followed by an actions block of buttons. */
+function buttonBlocks(text: string, buttons: MessageButton[]): Record<string, unknown>[] {
+  return [
+    { type: 'section', text: { type: 'mrkdwn', text } },
+    {
+      type: 'actions',
+      elements: buttons.slice(0, MAX_ACTIONS).map(b => ({
+        type: 'button',
+        text: { type: 'plain_text', text: b.label.slice(0, 75) },
+        action_id: b.id,
+        value: b.id,
+      })),
+    },
+  ]
+}
+
+/** Events API envelope or bare event → InboundMessage. */
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload)) return null
+  const event = payload.type === 'event_callback' ? payload.event : payload
+  if (!isRecord(event)) return null
+  if (event.type !== 'app_mention' && event.type !== 'message') return null
+  if (event.bot_id || event.subtype) return null
+  if (typeof event.channel !== 'string' || typeof event.ts !== 'string' || typeof event.user !== 'string') return null
+
+  const text = stripMentions(typeof event.text === 'string' ? event.text : '')
+  const attachments = (Array.isArray(event.files) ? event.files : [])
+    .map(f => (isRecord(f) && typeof f.url_private === 'string' ? f.url_private : null))
+    .filter((u): u is string => !!u)
+  if (!text && attachments.length === 0) return null
+
+  return {
+    channel: 'slack',
+    messageId: event.ts,
+    conversationId: event.channel,
+    threadId: typeof event.thread_ts === 'string' ? event.thread_ts : null,
+    sender: { id: event.user, name: event.user },
+    text,
+    attachments,
+    isDirect: event.channel_type === 'im',
+    raw: payload,
+  }
+}
+
+export const slackAdapter: ChannelAdapter = {
+  id: 'slack',
+  displayName: 'Slack',
+  capabilities: {
+    threads: true,
+    edits: true,
+    reactions: false,
+    attachments: true,
+    buttons: true,
+    maxMessageLength: 3000,
+    markup: 'mrkdwn',
+    push: true,
+  },
+
+  isConfigured: isSlackConfigured,
+  start: startSlackChannel,
+
+  verify({ headers, rawBody }) {
+    const secret = process.env.SLACK_SIGNING_SECRET
+    if (!secret) return 'unconfigured'
+    const ok = verifySlackRequest(secret, rawBody, headers['x-slack-request-timestamp'] ?? '', headers['x-slack-signature'] ?? '')
+    return ok ? 'allowed' : 'unauthorized'
+  },
+
+  normalize,
+  format: markdownToMrkdwn,
+
+  async send(target, message) {
+    const threadTs = target.threadId ?? undefined
+    const messageIds: string[] = []
+    const chunks = chunkText(message.text, slackAdapter.capabilities.maxMessageLength)
+    for (const [i, chunk] of chunks.entries()) {
+      const blocks = i === chunks.length - 1 && message.buttons?.length ? buttonBlocks(chunk, message.buttons) : undefined
+      const { ts } = await sendSlackMessage(token(), target.conversationId, chunk, threadTs, blocks)
+      if (!ts) throw new Error(`Slack send to ${target.conversationId} failed`)
+      messageIds.push(ts)
+    }
+    return { messageIds, threadId: threadTs ?? null }
+  },
+
+  edit(target, messageId, text) {
+    return updateSlackMessage(token(), target.conversationId, messageId, text)
+  },
+
+  notificationTarget() {
+    const channelId = getSlackNotificationChannel()
+    return channelId && token() ? { conversationId: channelId } : null
+  },
+}
@@ -57,3 +57,11 @@ export function markdownToMrkdwn(text: string): string {
   // ── 7. Restore protected code ───────────────────────────────
   return restore(text)
 }
+
+// ── Bot mention stripping ─────────────────────────────────────
+
+const MENTION_RE = /<@[A-Z0-9]+>/g
+
+export function stripMentions(text: string): string {
+  return text.replace(MENTION_RE, '').trim()
+}
@@ -21,11 +21,13 @@ import { log } from '../../logger.ts'
 import { enqueue } from '../../message-queue.ts'
 import { saveMessage } from '../../message-sender.ts'
 import { sendSlackMessage, deleteSlackMessage, sendSlackCommandResponse } from './send.ts'
-import { markdownToMrkdwn } from './format.ts'
+import { markdownToMrkdwn, stripMentions } from './format.ts'
 import { RELAY_BASE_URL } from '../../relay-config.ts'
 
 const logger = log.child('slack-handler')
 
+export { stripMentions } from './format.ts'
+
 // ── Types ─────────────────────────────────────────────────────
 
 export interface SlackEventPayload {
@@ -51,14 +53,6 @@ export interface SlackCommandPayload {
   trigger_id: string
 }
 
-// ── Bot mention stripping ─────────────────────────────────────
-
-const MENTION_RE = /<@[A-Z0-9]+>/g
-
-export function stripMentions(text: string): string {
-  return text.replace(MENTION_RE, '').trim()
-}
-
 // ── Forest search (for /forest command) ───────────────────────
 
 async function forestSearch(query: string): Promise<string> {
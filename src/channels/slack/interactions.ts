@@ -0,0 +1,59 @@
+/**
+ * Slack Interactivity — Block Kit button presses
+ *
+ * Slack posts block_actions to the same /slack URL as slash commands: a
+ * form-encoded `payload` field, signed like every other request
+ * (verify.ts). Buttons carrying an interactive-prompt action id answer
+ * the prompt; Slack ignores the HTTP response body for block_actions, so
+ * the outcome shows up as the message edit answerPrompt() makes, and a
+ * rejected press gets an ephemeral reply through response_url.
+ */
+
+import { log } from '../../logger.ts'
+import { isRecord } from '../adapter.ts'
+import { answerPrompt, decodePromptAction, promptAnswerFailureText } from '../../interactive-prompts.ts'
+import { sendSlackCommandResponse } from './send.ts'
+
+const logger = log.child('slack-interactions')
+
+export interface SlackButtonPress {
+  userId: string
+  actionId: string
+  channelId: string | null
+  messageTs: string | null
+  responseUrl: string | null
+}
+
+/** block_actions payload → the first button press, or null for anything else. */
+export function parseSlackInteraction(payload: unknown): SlackButtonPress | null {
+  if (!isRecord(payload) || payload.type !== 'block_actions') return null
+  const action = Array.isArray(payload.actions) ? payload.actions[0] : null
+  if (!isRecord(action) || typeof action.action_id !== 'string') return null
+  const user = isRecord(payload.user) ? payload.user : {}
+  if (typeof user.id !== 'string') return null
+  const channel = isRecord(payload.channel) ? payload.channel : {}
+  const container = isRecord(payload.container) ? payload.container : {}
+  return {
+    userId: user.id,
+    actionId: action.action_id,
+    channelId: typeof channel.id === 'string' ? channel.id : null,
+    messageTs: typeof container.message_ts === 'string' ? container.message_ts : null,
+    responseUrl: typeof payload.response_url === 'string' ? payload.response_url : null,
+  }
+}
+
+/** Answer the prompt a press belongs to. Presses on other buttons are ignored. */
+export async function handleSlackInteraction(payload: unknown): Promise<void> {
+  const press = parseSlackInteraction(payload)
+  if (!press) return
+  const decoded = decodePromptAction(press.actionId)
+  if (!decoded) {
+    logger.info('Slack: ignoring unknown action', { actionId: press.actionId })
+    return
+  }
+
+  const result = await answerPrompt(decoded.promptId, decoded.optionId, { channel: 'slack', userId: press.userId })
+  if (result.status !== 'answered' && press.responseUrl) {
+    await sendSlackCommandResponse(press.responseUrl, promptAnswerFailureText(result.status), 'ephemeral')
+  }
+}
@@ -5,6 +5,8 @@
  * No SDK dependency — uses native Bun fetch.
  *
  * sendSlackMessage()         — post text to a channel/thread, auto-chunked at 3000 chars
+ *                              (optional Block Kit blocks ride on the last chunk)
+ * updateSlackMessage()       — replace a posted message with plain text (chat.update)
  * deleteSlackMessage()       — delete a message by ts (used to remove typing indicator)
  * sendSlackCommandResponse() — delayed response via slash command response_url
  */
@@ -38,20 +40,23 @@ export function chunkText(text: string): string[] {
 /**
  * Post a message to a Slack channel or thread.
  * Returns the ts of the first posted message (needed to delete typing indicators).
- * Automatically chunks at 3000 characters.
+ * Automatically chunks at 3000 characters. Blocks, when given, are attached
+ * to the last chunk (its text becomes the notification fallback).
  */
 export async function sendSlackMessage(
   token: string,
   channelId: string,
   text: string,
   threadTs?: string,
+  blocks?: Record<string, unknown>[],
 ): Promise<{ ts?: string }> {
   const chunks = chunkText(text)
   let firstTs: string | undefined
 
-  for (const chunk of chunks) {
+  for (const [i, chunk] of chunks.entries()) {
     const body: Record<string, unknown> = { channel: channelId, text: chunk }
     if (threadTs) body.thread_ts = threadTs
+    if (blocks && i === chunks.length - 1) body.blocks = blocks
 
     try {
       const resp = await fetch(`${SLACK_API}/chat.postMessage`, {
@@ -85,6 +90,30 @@ export async function sendSlackMessage(
   return { ts: firstTs }
 }
 
+/**
+ * Replace a posted message with plain text, dropping any blocks (so
+ * answered buttons disappear). Throws on API errors so callers can tell
+ * an edit that did not land.
+ */
+export async function updateSlackMessage(
+  token: string,
+  channelId: string,
+  ts: string,
+  text: string,
+): Promise<void> {
+  const resp = await fetch(`${SLACK_API}/chat.update`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ channel: channelId, ts, text: text.slice(0, SLACK_CHUNK), blocks: [] }),
+    signal: AbortSignal.timeout(10_000),
+  })
+  const result = await resp.json().catch(() => ({ ok: false })) as { ok: boolean; error?: string }
+  if (!resp.ok || !result.ok) throw new Error(`Slack chat.update failed: ${result.error ?? resp.status}`)
+}
+
 /**
  * Delete a Slack message by channel + ts.
  * Used to remove the typing indicator after Claude responds.
@@ -0,0 +1,124 @@
+/**
+ * Telegram Channel Adapter
+ *
+ * Telegram on the ChannelAdapter contract (../adapter.ts): Bot API
+ * updates in, sendMessage out. The bot long-polls (telegram-handlers.ts
+ * registers the grammy handlers), so there is no webhook to verify.
+ * Forum topics are the threads; buttons are an inline keyboard whose
+ * callback_data is the button id.
+ */
+
+import type { ChannelAdapter, ChannelStartContext, InboundMessage } from "../adapter.ts";
+import { chunkText, isRecord } from "../adapter.ts";
+
+/** The slice of grammy's Api the adapter uses — lets tests pass a fake bot. */
+export interface TelegramSendApi {
+  sendMessage(chatId: string, text: string, other?: Record<string, unknown>): Promise<{ message_id: number }>;
+  editMessageText(chatId: string, messageId: number, text: string): Promise<unknown>;
+  setMessageReaction(chatId: string, messageId: number, reaction: { type: "emoji"; emoji: string }[]): Promise<unknown>;
+}
+
+export interface TelegramAdapterDeps {
+  api?: () => TelegramSendApi | null;
+}
+
+function normalize(payload: unknown): InboundMessage | null {
+  if (!isRecord(payload)) return null;
+  const msg = isRecord(payload.message) ? payload.message : null;
+  if (!msg || !isRecord(msg.chat) || !isRecord(msg.from)) return null;
+  if (msg.from.is_bot) return null;
+  if (typeof msg.message_id !== "number") return null;
+
+  const text = typeof msg.text === "string" ? msg.text : typeof msg.caption === "string" ? msg.caption : "";
+  const attachments: string[] = [];
+  if (Array.isArray(msg.photo) && msg.photo.length > 0) {
+    const largest = msg.photo[msg.photo.length - 1];
+    if (isRecord(largest) && typeof largest.file_id === "string") attachments.push(`telegram:file/${largest.file_id}`);
+  }
+  for (const key of ["document", "voice", "audio", "video"]) {
+    const file = msg[key];
+    if (isRecord(file) && typeof file.file_id === "string") attachments.push(`telegram:file/${file.file_id}`);
+  }
+  if (!text.trim() && attachments.length === 0) return null;
+
+  const from = msg.from;
+  const name = [from.first_name, from.last_name].filter(n => typeof n === "string" && n).join(" ") || String(from.username ?? from.id);
+  return {
+    channel: "telegram",
+    messageId: String(msg.message_id),
+    conversationId: String(msg.chat.id),
+    threadId: msg.is_topic_message && typeof msg.message_thread_id === "number" ? String(msg.message_thread_id) : null,
+    sender: { id: String(from.id), name },
+    text,
+    attachments,
+    isDirect: msg.chat.type === "private",
+    raw: payload,
+  };
+}
+
+export function createTelegramAdapter(deps: TelegramAdapterDeps = {}): ChannelAdapter {
+  let startedApi: TelegramSendApi | null = null;
+  const api = (): TelegramSendApi => {
+    const a = deps.api ? deps.api() : startedApi;
+    if (!a) throw new Error("Telegram bot not started");
+    return a;
+  };
+
+  const adapter: ChannelAdapter = {
+    id: "telegram",
+    displayName: "Telegram",
+    capabilities: {
+      threads: true,
+      edits: true,
+      reactions: true,
+      attachments: true,
+      buttons: true,
+      maxMessageLength: 4096,
+      markup: "markdown",
+      push: true,
+    },
+
+    isConfigured: () => !!process.env.TELEGRAM_BOT_TOKEN,
+    start(ctx: ChannelStartContext) {
+      startedApi = ctx.bot.api as unknown as TelegramSendApi;
+    },
+    stop() {
+      startedApi = null;
+    },
+
+    normalize,
+    format: text => text,
+
+    async send(target, message) {
+      const chunks = chunkText(message.text, adapter.capabilities.maxMessageLength);
+      const messageIds: string[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const other: Record<string, unknown> = {};
+        if (target.threadId) other.message_thread_id = Number(target.threadId);
+        if (i === 0 && target.replyTo) other.reply_parameters = { message_id: Number(target.replyTo), allow_sending_without_reply: true };
+        if (i === chunks.length - 1 && message.buttons?.length) {
+          other.reply_markup = { inline_keyboard: message.buttons.map(b => [{ text: b.label, callback_data: b.id.slice(0, 64) }]) };
+        }
+        const sent = await api().sendMessage(target.conversationId, chunks[i], other);
+        messageIds.push(String(sent.message_id));
+      }
+      return { messageIds, threadId: target.threadId ?? null };
+    },
+
+    async edit(target, messageId, text) {
+      await api().editMessageText(target.conversationId, Number(messageId), text.slice(0, adapter.capabilities.maxMessageLength));
+    },
+
+    async react(target, messageId, emoji) {
+      await api().setMessageReaction(target.conversationId, Number(messageId), [{ type: "emoji", emoji }]);
+    },
+
+    notificationTarget() {
+      const userId = process.env.TELEGRAM_USER_ID;
+      return userId ? { conversationId: userId } : null;
+    },
+  };
+  return adapter;
+}
+
+export const telegramAdapter = createTelegramAdapter();
@@ -0,0 +1,634 @@
+/**
+ * Claim Scrubber — pre-submission edits
+ *
+ * Runs a ClaimDocument through configurable edits before formatEDI837P():
+ * NCCI-style procedure pairs, modifier requirements, diagnosis-to-procedure
+ * medical necessity, age/sex code edits, timely filing and prior auth.
+ * Every finding carries a severity and a suggested fix; any "error"
+ * finding blocks submission.
+ *
+ * Rules are data (claim_scrub_rules), versioned by effective date and
+ * scoped globally, by state, by payer type or by payer. The most specific
+ * version in effect on the date of service wins, so a payer override can
+ * replace or disable a global edit. Timely filing comes from the payer
+ * registry, falling back to compliance-framework state rules.
+ *
+ * Evaluation is pure; lookups and storage are injected.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ClaimDocument, ClaimLineItem } from "./claim-submission";
+import type { Payer, PayerType, TimelyFilingResult } from "./payer-registry";
+import type { StateBillingRule, StateRuleType } from "./compliance-framework";
+
+// ── Types ────────────────────────────────────────────────────
+
+export type ScrubSeverity = "error" | "warning" | "info";
+
+export type ScrubRuleKind =
+  | "procedure_pair"
+  | "modifier_required"
+  | "diagnosis_link"
+  | "age"
+  | "sex"
+  | "timely_filing"
+  | "prior_auth";
+
+export const VALID_SCRUB_RULE_KINDS: ScrubRuleKind[] = [
+  "procedure_pair", "modifier_required", "diagnosis_link", "age", "sex", "timely_filing", "prior_auth",
+];
+
+export const VALID_SCRUB_SEVERITIES: ScrubSeverity[] = ["error", "warning", "info"];
+
+/**
+ * Payer types a rule can be scoped to. Checked against payer-registry's
+ * PayerType at compile time without loading the (forest-backed) registry.
+ */
+const PAYER_TYPE_SET: Record<PayerType, true> = {
+  commercial: true, medicare: true, medicaid: true, tricare: true, workers_comp: true, other: true,
+};
+export const SCRUB_PAYER_TYPES = Object.keys(PAYER_TYPE_SET) as PayerType[];
+
+/**
+ * Code patterns used in rule params: exact ("99213"), range
+ * ("99381-99387", same length) or prefix ("O*").
+ */
+export type CodePattern = string;
+
+/** NCCI procedure-to-procedure edit: column2 is bundled into column1. */
+export interface ProcedurePairParams {
+  column1: CodePattern;
+  column2: CodePattern;
+  /** NCCI modifier indicator: 0 = never billable together, 1 = allowed with a bypass modifier. */
+  modifier_indicator: 0 | 1;
+  /** Default 59, XE, XS, XP, XU. */
+  bypass_modifiers?: string[];
+}
+
+/** Lines matching cpt_codes need one of `modifiers` (when any with_cpt_codes line is also billed). */
+export interface ModifierRequiredParams {
+  cpt_codes: CodePattern[];
+  modifiers: string[];
+  with_cpt_codes?: CodePattern[];
+}
+
+/** Lines matching cpt_codes must point at a diagnosis matching one of diagnosis_codes. */
+export interface DiagnosisLinkParams {
+  cpt_codes: CodePattern[];
+  diagnosis_codes: CodePattern[];
+}
+
+export interface AgeParams {
+  code_type: "procedure" | "diagnosis";
+  codes: CodePattern[];
+  min_years?: number;
+  max_years?: number;
+}
+
+export interface SexParams {
+  code_type: "procedure" | "diagnosis";
+  codes: CodePattern[];
+  sex: "female" | "male";
+}
+
+export interface TimelyFilingParams {
+  /** Also warn when fewer than this many days remain. Default 30. */
+  warn_within_days?: number;
+}
+
+export type ScrubRuleParams =
+  | ProcedurePairParams
+  | ModifierRequiredParams
+  | DiagnosisLinkParams
+  | AgeParams
+  | SexParams
+  | TimelyFilingParams
+  | Record<string, never>;
+
+/** One version of a rule. Row shape of claim_scrub_rules. */
+export interface ScrubRule {
+  id?: string;
+  /** Stable identity across versions and scopes, e.g. "ncci:20610:20611". */
+  rule_key: string;
+  kind: ScrubRuleKind;
+  description: string;
+  severity: ScrubSeverity;
+  params: ScrubRuleParams;
+  suggested_fix?: string | null;
+  payer_id?: string | null;
+  payer_type?: PayerType | null;
+  state_code?: string | null;
+  effective_date: string;
+  expiration_date?: string | null;
+  /** A disabled version switches the rule off in its scope. */
+  enabled: boolean;
+  created_by?: string | null;
+}
+
+export interface ScrubContext {
+  payer_type: PayerType | null;
+  state_code: string | null;
+  timely_filing_days: number | null;
+  timely_filing_source: "payer_specific" | "state_rule" | "general_default" | null;
+  /** "Today" for timely filing (YYYY-MM-DD). */
+  today: string;
+}
+
+export interface ScrubFinding {
+  rule_key: string;
+  kind: ScrubRuleKind;
+  severity: ScrubSeverity;
+  /** Claim line the finding is about; null for claim-level findings. */
+  line_number: number | null;
+  message: string;
+  suggested_fix: string;
+  /** Effective date of the rule version that fired. */
+  rule_version: string;
+}
+
+export interface ScrubResult {
+  claim_id: string;
+  /** False when any finding is an error. */
+  passed: boolean;
+  findings: ScrubFinding[];
+  rules_applied: number;
+  date_of_service: string;
+}
+
+export const DEFAULT_BYPASS_MODIFIERS = ["59", "XE", "XS", "XP", "XU"];
+
+// ── Default Rules ───────────────────────────────────────────
+
+/** Seed edits, in effect unless a stored version with the same rule_key overrides them. */
+export const DEFAULT_SCRUB_RULES: ScrubRule[] = [
+  {
+    rule_key: "ncci:em:36415",
+    kind: "procedure_pair",
+    description: "Venipuncture is bundled into a same-day office visit",
+    severity: "error",
+    params: { column1: "99202-99215", column2: "36415", modifier_indicator: 1 },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "ncci:20610:20611",
+    kind: "procedure_pair",
+    description: "Arthrocentesis without guidance is bundled into arthrocentesis with ultrasound guidance",
+    severity: "error",
+    params: { column1: "20611", column2: "20610", modifier_indicator: 0 },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "modifier:em-with-minor-procedure",
+    kind: "modifier_required",
+    description: "An E/M billed with a minor procedure on the same day needs modifier 25",
+    severity: "error",
+    params: { cpt_codes: ["99202-99215"], modifiers: ["25"], with_cpt_codes: ["10000-29999"] },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "necessity:a1c",
+    kind: "diagnosis_link",
+    description: "Hemoglobin A1c requires a diabetes or hyperglycemia diagnosis",
+    severity: "warning",
+    params: { cpt_codes: ["83036"], diagnosis_codes: ["E08*", "E09*", "E10*", "E11*", "E13*", "R73*", "O24*", "Z79.4"] },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "age:preventive-pediatric",
+    kind: "age",
+    description: "Pediatric preventive visits are for patients under 18",
+    severity: "error",
+    params: { code_type: "procedure", codes: ["99381-99384", "99391-99394"], max_years: 17 },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "age:preventive-adult",
+    kind: "age",
+    description: "Adult preventive visits are for patients 18 and over",
+    severity: "error",
+    params: { code_type: "procedure", codes: ["99385-99387", "99395-99397"], min_years: 18 },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "sex:pregnancy",
+    kind: "sex",
+    description: "Pregnancy diagnoses apply to female patients",
+    severity: "error",
+    params: { code_type: "diagnosis", codes: ["O*", "Z33*", "Z34*"], sex: "female" },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "sex:prostate",
+    kind: "sex",
+    description: "Prostate procedures apply to male patients",
+    severity: "error",
+    params: { code_type: "procedure", codes: ["55700-55899", "G0102", "G0103"], sex: "male" },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "timely-filing",
+    kind: "timely_filing",
+    description: "Claims must be filed within the payer's timely filing window",
+    severity: "error",
+    params: { warn_within_days: 30 },
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+  {
+    rule_key: "prior-auth",
+    kind: "prior_auth",
+    description: "Procedures the payer requires authorization for",
+    severity: "warning",
+    params: {},
+    effective_date: "2020-01-01",
+    enabled: true,
+  },
+];
+
+// ── Validation ──────────────────────────────────────────────
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPatternList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.length > 0 && v.every(p => typeof p === "string" && p.length > 0);
+}
+
+/**
+ * Validate a rule version before it is stored.
+ * Returns errors (empty = valid). Pure function.
+ */
+export function validateScrubRule(rule: ScrubRule): string[] {
+  const errors: string[] = [];
+  if (!rule.rule_key?.trim()) errors.push("rule_key is required");
+  if (!VALID_SCRUB_RULE_KINDS.includes(rule.kind)) errors.push(`kind must be one of ${VALID_SCRUB_RULE_KINDS.join(", ")}`);
+  if (!VALID_SCRUB_SEVERITIES.includes(rule.severity)) errors.push(`severity must be one of ${VALID_SCRUB_SEVERITIES.join(", ")}`);
+  if (!rule.description?.trim()) errors.push("description is required");
+  if (!DATE.test(rule.effective_date ?? "")) errors.push("effective_date must be YYYY-MM-DD");
+  if (rule.expiration_date && (!DATE.test(rule.expiration_date) || rule.expiration_date <= rule.effective_date)) {
+    errors.push("expiration_date must be YYYY-MM-DD after effective_date");
+  }
+  if (rule.state_code && !/^[A-Z]{2}$/.test(rule.state_code)) errors.push("state_code must be a two-letter code");
+  if (rule.payer_type && !SCRUB_PAYER_TYPES.includes(rule.payer_type)) errors.push(`payer_type must be one of ${SCRUB_PAYER_TYPES.join(", ")}`);
+
+  const p = (rule.params ?? {}) as Record<string, unknown>;
+  switch (rule.kind) {
+    case "procedure_pair":
+      if (typeof p.column1 !== "string" || typeof p.column2 !== "string") errors.push("params.column1 and params.column2 are required");
+      if (p.modifier_indicator !== 0 && p.modifier_indicator !== 1) errors.push("params.modifier_indicator must be 0 or 1");
+      break;
+    case "modifier_required":
+      if (!isPatternList(p.cpt_codes)) errors.push("params.cpt_codes is required");
+      if (!isPatternList(p.modifiers)) errors.push("params.modifiers is required");
+      break;
+    case "diagnosis_link":
+      if (!isPatternList(p.cpt_codes)) errors.push("params.cpt_codes is required");
+      if (!isPatternList(p.diagnosis_codes)) errors.push("params.diagnosis_codes is required");
+      break;
+    case "age":
+      if (!isPatternList(p.codes)) errors.push("params.codes is required");
+      if (p.code_type !== "procedure" && p.code_type !== "diagnosis") errors.push("params.code_type must be procedure or diagnosis");
+      if (p.min_years === undefined && p.max_years === undefined) errors.push("params.min_years or params.max_years is required");
+      break;
+    case "sex":
+      if (!isPatternList(p.codes)) errors.push("params.codes is required");
+      if (p.code_type !== "procedure" && p.code_type !== "diagnosis") errors.push("params.code_type must be procedure or diagnosis");
+      if (p.sex !== "female" && p.sex !== "male") errors.push("params.sex must be female or male");
+      break;
+  }
+  return errors;
+}
+
+// ── Rule Selection ──────────────────────────────────────────
+
+function specificity(rule: ScrubRule): number {
+  return (rule.payer_id ? 4 : 0) + (rule.payer_type ? 2 : 0) + (rule.state_code ? 1 : 0);
+}
+
+/**
+ * The rule versions that apply to a claim: in effect on the date of
+ * service, scoped to this payer / payer type / state (or unscoped), one
+ * per rule_key — most specific scope first, then latest effective date.
+ * Disabled winners drop the rule. Pure function.
+ */
+export function selectRules(
+  rules: ScrubRule[],
+  target: { payer_id: string; payer_type: PayerType | null; state_code: string | null; date_of_service: string },
+): ScrubRule[] {
+  const winners = new Map<string, ScrubRule>();
+  for (const rule of rules) {
+    if (rule.effective_date > target.date_of_service) continue;
+    if (rule.expiration_date && rule.expiration_date <= target.date_of_service) continue;
+    if (rule.payer_id && rule.payer_id !== target.payer_id) continue;
+    if (rule.payer_type && rule.payer_type !== target.payer_type) continue;
+    if (rule.state_code && rule.state_code !== target.state_code) continue;
+
+    const current = winners.get(rule.rule_key);
+    if (
+      !current
+      || specificity(rule) > specificity(current)
+      || (specificity(rule) === specificity(current) && rule.effective_date > current.effective_date)
+    ) {
+      winners.set(rule.rule_key, rule);
+    }
+  }
+  return [...winners.values()].filter(r => r.enabled);
+}
+
+// ── Evaluation ──────────────────────────────────────────────
+
+/**
+ * Does a code match a pattern — exact, "A-B" range (same length,
+ * compared as strings) or "PREFIX*"? Pure function.
+ */
+export function codeMatches(code: string, pattern: CodePattern): boolean {
+  const c = code.toUpperCase();
+  const p = pattern.toUpperCase();
+  if (p.endsWith("*")) return c.startsWith(p.slice(0, -1));
+  const range = p.match(/^([A-Z0-9.]+)-([A-Z0-9.]+)$/);
+  if (range && range[1].length === range[2].length) {
+    return c.length === range[1].length && c >= range[1] && c <= range[2];
+  }
+  return c === p;
+}
+
+const matchesAny = (code: string, patterns: CodePattern[]) => patterns.some(p => codeMatches(code, p));
+
+/** Whole years between dob and date (both YYYY-MM-DD). Pure function. */
+export function ageOn(dob: string, date: string): number {
+  const [by, bm, bd] = dob.split("-").map(Number);
+  const [y, m, d] = date.split("-").map(Number);
+  return y - by - (m < bm || (m === bm && d < bd) ? 1 : 0);
+}
+
+function normalizeSex(gender: string): "female" | "male" | null {
+  const g = gender.trim().toLowerCase();
+  if (g === "female" || g === "f") return "female";
+  if (g === "male" || g === "m") return "male";
+  return null;
+}
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+type Emit = (line: ClaimLineItem | null, message: string, fix: string, severity?: ScrubSeverity) => void;
+
+function evaluate(rule: ScrubRule, claim: ClaimDocument, context: ScrubContext, emit: Emit): void {
+  const lines = claim.line_items;
+  switch (rule.kind) {
+    case "procedure_pair": {
+      const p = rule.params as ProcedurePairParams;
+      const bypass = p.bypass_modifiers ?? DEFAULT_BYPASS_MODIFIERS;
+      const primary = lines.find(l => codeMatches(l.cpt_code, p.column1));
+      if (!primary) return;
+      for (const line of lines) {
+        if (line === primary || !codeMatches(line.cpt_code, p.column2)) continue;
+        if (p.modifier_indicator === 1 && line.modifiers.some(m => bypass.includes(m))) continue;
+        emit(
+          line,
+          `${line.cpt_code} is bundled into ${primary.cpt_code} on the same date of service`,
+          p.modifier_indicator === 1
+            ? `Remove ${line.cpt_code}, or append ${bypass.join("/")} if it was a distinct, separately identifiable service`
+            : `Remove ${line.cpt_code}; this pair can never be billed together`,
+        );
+      }
+      return;
+    }
+    case "modifier_required": {
+      const p = rule.params as ModifierRequiredParams;
+      if (p.with_cpt_codes && !lines.some(l => !matchesAny(l.cpt_code, p.cpt_codes) && matchesAny(l.cpt_code, p.with_cpt_codes!))) return;
+      for (const line of lines) {
+        if (!matchesAny(line.cpt_code, p.cpt_codes) || line.modifiers.some(m => p.modifiers.includes(m))) continue;
+        emit(line, `${line.cpt_code} requires modifier ${p.modifiers.join(" or ")}`, `Append modifier ${p.modifiers[0]} to line ${line.line_number}`);
+      }
+      return;
+    }
+    case "diagnosis_link": {
+      const p = rule.params as DiagnosisLinkParams;
+      for (const line of lines) {
+        if (!matchesAny(line.cpt_code, p.cpt_codes)) continue;
+        const pointed = line.diagnosis_pointers.map(i => claim.diagnoses[i]).filter(Boolean);
+        if (pointed.some(code => matchesAny(code, p.diagnosis_codes))) continue;
+        emit(
+          line,
+          `${line.cpt_code} is not supported by the linked diagnoses (${pointed.join(", ") || "none"})`,
+          `Link a supporting diagnosis (${p.diagnosis_codes.join(", ")}) to line ${line.line_number}, or obtain an ABN`,
+        );
+      }
+      return;
+    }
+    case "age": {
+      const p = rule.params as AgeParams;
+      if (!claim.patient.dob) return;
+      const age = ageOn(claim.patient.dob, claim.encounter_date);
+      const outside = (p.min_years !== undefined && age < p.min_years) || (p.max_years !== undefined && age > p.max_years);
+      if (!outside) return;
+      const range = [p.min_years !== undefined ? `${p.min_years}+` : null, p.max_years !== undefined ? `up to ${p.max_years}` : null].filter(Boolean).join(", ");
+      for (const { code, line } of codesOf(claim, p.code_type)) {
+        if (!matchesAny(code, p.codes)) continue;
+        emit(line, `${code} is for ages ${range}; patient is ${age}`, `Use the ${p.code_type} code for the patient's age group`);
+      }
+      return;
+    }
+    case "sex": {
+      const p = rule.params as SexParams;
+      const sex = normalizeSex(claim.patient.gender);
+      if (!sex || sex === p.sex) return;
+      for (const { code, line } of codesOf(claim, p.code_type)) {
+        if (!matchesAny(code, p.codes)) continue;
+        emit(line, `${code} applies to ${p.sex} patients; patient is ${sex}`, `Verify the patient's sex on file or correct the ${p.code_type} code`);
+      }
+      return;
+    }
+    case "timely_filing": {
+      const p = rule.params as TimelyFilingParams;
+      if (!context.timely_filing_days) return;
+      const deadline = addDays(claim.encounter_date, context.timely_filing_days);
+      const remaining = daysBetween(context.today, deadline);
+      const source = context.timely_filing_source ? ` (${context.timely_filing_source.replace("_", " ")})` : "";
+      if (remaining <= 0) {
+        emit(null, `Timely filing deadline ${deadline} has passed${source}`, "Attach proof of timely filing or write off the claim");
+      } else if (remaining <= (p.warn_within_days ?? 30)) {
+        emit(null, `Timely filing deadline ${deadline} is ${remaining} days away${source}`, "Submit today", "warning");
+      }
+      return;
+    }
+    case "prior_auth": {
+      for (const flag of claim.prior_auth_flags) {
+        const line = lines.find(l => l.cpt_code === flag.cpt_code) ?? null;
+        emit(
+          line,
+          `${flag.cpt_code} requires prior authorization from ${flag.payer_id}`,
+          `Obtain authorization${flag.auth_phone ? ` (${flag.auth_phone})` : ""} and add the authorization number to the claim`,
+        );
+      }
+      return;
+    }
+  }
+}
+
+function codesOf(claim: ClaimDocument, type: "procedure" | "diagnosis"): { code: string; line: ClaimLineItem | null }[] {
+  return type === "procedure"
+    ? claim.line_items.map(line => ({ code: line.cpt_code, line }))
+    : claim.diagnoses.map(code => ({ code, line: null }));
+}
+
+/**
+ * Scrub a claim against the given rule versions (use selectRules first).
+ * Findings are sorted errors first, then by line. Pure function.
+ */
+export function scrubClaim(claim: ClaimDocument, rules: ScrubRule[], context: ScrubContext): ScrubResult {
+  const findings: ScrubFinding[] = [];
+  for (const rule of rules) {
+    evaluate(rule, claim, context, (line, message, fix, severity) => {
+      findings.push({
+        rule_key: rule.rule_key,
+        kind: rule.kind,
+        severity: severity ?? rule.severity,
+        line_number: line?.line_number ?? null,
+        message,
+        suggested_fix: rule.suggested_fix ?? fix,
+        rule_version: rule.effective_date,
+      });
+    });
+  }
+
+  const rank = { error: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => rank[a.severity] - rank[b.severity] || (a.line_number ?? 0) - (b.line_number ?? 0));
+
+  return {
+    claim_id: claim.claim_id,
+    passed: !findings.some(f => f.severity === "error"),
+    findings,
+    rules_applied: rules.length,
+    date_of_service: claim.encounter_date,
+  };
+}
+
+/** Rules and context for a pre-submission scrub. */
+export interface SubmissionScrub {
+  /** Rule versions to choose from (all scopes), usually from loadScrubRules. */
+  rules: ScrubRule[];
+  context: Partial<ScrubContext> & Pick<ScrubContext, "today">;
+}
+
+/**
+ * Scrub a claim on its way to submission: select the rule versions in
+ * effect for its payer and date of service, run them and record the
+ * findings on the claim. A claim that doesn't pass must not be sent.
+ */
+export function scrubForSubmission(claim: ClaimDocument, scrub: SubmissionScrub): ScrubResult {
+  const context: ScrubContext = {
+    payer_type: null, state_code: null, timely_filing_days: null, timely_filing_source: null, ...scrub.context,
+  };
+  const rules = selectRules(scrub.rules, {
+    payer_id: claim.insurance.payer_id, payer_type: context.payer_type, state_code: context.state_code,
+    date_of_service: claim.encounter_date,
+  });
+  const result = scrubClaim(claim, rules, context);
+  claim.scrub_findings = result.findings;
+  return result;
+}
+
+// ── Context ─────────────────────────────────────────────────
+
+/** Payer registry and compliance-framework lookups, injected for testability. */
+export interface ScrubContextDeps {
+  getPayer: (id: string) => Promise<Payer | null>;
+  getTimelyFiling: (payerId: string) => Promise<TimelyFilingResult>;
+  getStateRules: (stateCode: string, ruleType?: StateRuleType) => Promise<StateBillingRule[]>;
+}
+
+/**
+ * Build the scrub context for a claim. Timely filing is the payer's own
+ * window when the registry has one, else the state's rule for this payer
+ * type (or "all"), else the registry default.
+ */
+export async function loadScrubContext(
+  claim: ClaimDocument,
+  deps: ScrubContextDeps,
+  opts: { state_code?: string | null; today?: string } = {},
+): Promise<ScrubContext> {
+  const today = opts.today ?? new Date().toISOString().slice(0, 10);
+  const stateCode = opts.state_code ?? null;
+  const payer = await deps.getPayer(claim.insurance.payer_id);
+  const payerType = payer?.type ?? null;
+  const filing = await deps.getTimelyFiling(claim.insurance.payer_id);
+
+  let days = filing.timely_filing_days;
+  let source: ScrubContext["timely_filing_source"] = filing.source;
+  if (filing.source !== "payer_specific" && stateCode) {
+    const stateRule = (await deps.getStateRules(stateCode, "timely_filing")).find(r =>
+      r.value_days
+      && (r.payer_type === "all" || r.payer_type === null || r.payer_type === payerType)
+      && (!r.effective_date || r.effective_date <= claim.encounter_date)
+      && (!r.expiration_date || r.expiration_date > claim.encounter_date),
+    );
+    if (stateRule) {
+      days = stateRule.value_days!;
+      source = "state_rule";
+    }
+  }
+
+  return { payer_type: payerType, state_code: stateCode, timely_filing_days: days, timely_filing_source: source, today };
+}
+
+// ── Storage ─────────────────────────────────────────────────
+
+/**
+ * Stored rule versions (all scopes), optionally for one rule_key.
+ * Throws on a database error.
+ */
+export async function listScrubRules(
+  supabase: SupabaseClient,
+  opts: { rule_key?: string } = {},
+): Promise<ScrubRule[]> {
+  let query = supabase.from("claim_scrub_rules").select("*");
+  if (opts.rule_key) query = query.eq("rule_key", opts.rule_key);
+  const { data, error } = await query.order("effective_date", { ascending: true });
+  if (error) throw new Error(`Failed to load scrub rules: ${error.message}`);
+  return (data ?? []) as ScrubRule[];
+}
+
+/**
+ * Store a new rule version. Versions are never edited in place — a change
+ * is a new row with a later effective_date.
+ */
+export async function createScrubRuleVersion(supabase: SupabaseClient, rule: ScrubRule): Promise<ScrubRule> {
+  const { data, error } = await supabase
+    .from("claim_scrub_rules")
+    .insert({
+      rule_key: rule.rule_key,
+      kind: rule.kind,
+      description: rule.description,
+      severity: rule.severity,
+      params: rule.params ?? {},
+      suggested_fix: rule.suggested_fix ?? null,
+      payer_id: rule.payer_id ?? null,
+      payer_type: rule.payer_type ?? null,
+      state_code: rule.state_code ?? null,
+      effective_date: rule.effective_date,
+      expiration_date: rule.expiration_date ?? null,
+      enabled: rule.enabled ?? true,
+      created_by: rule.created_by ?? null,
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to store scrub rule: ${error.message}`);
+  return data as ScrubRule;
+}
+
+/** Defaults plus stored versions — stored versions compete with the seeds in selectRules. */
+export async function loadScrubRules(supabase: SupabaseClient | null): Promise<ScrubRule[]> {
+  return supabase ? [...DEFAULT_SCRUB_RULES, ...(await listScrubRules(supabase))] : DEFAULT_SCRUB_RULES;
+}
@@ -9,6 +9,8 @@
  * are injected as dependencies for testability.
  */
 
+import type { ScrubFinding } from "./claim-scrubber";
+
 // ── Types ────────────────────────────────────────────────────
 
 /** FHIR-derived encounter input for claim submission. */
@@ -94,6 +96,8 @@ export interface ClaimDocument {
   requires_prior_auth: boolean;
   prior_auth_flags: PriorAuthFlag[];
   validation_warnings: string[];
+  /** Pre-submission scrubber findings (claim-scrubber.ts), set before EDI generation. */
+  scrub_findings?: ScrubFinding[];
 }
 
 export interface PriorAuthFlag {
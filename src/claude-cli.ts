@@ -13,6 +13,7 @@ import type Anthropic from "@anthropic-ai/sdk";
 import { setTimeoutRecoveryLock } from "./plane.ts";
 import { notify, type NotifyContext } from "./notification-policy.ts";
 import { log } from "./logger.ts";
+import { withSpan } from "./trace.ts";
 import { emitEvent } from "./orchestration-ledger.ts";
 import { heartbeat as trackerHeartbeat, setRunPid } from "./orchestration-tracker.ts";
 import { markJobTimedOutByRunId } from "./jobs-ledger.ts";
@@ -128,10 +129,25 @@ process.on("SIGTERM", async () => {
 
 // ── callClaude ──────────────────────────────────────────────
 
-export async function callClaude(
-  prompt: string,
-  options?: { resume?: boolean; imagePath?: string; allowedTools?: string[]; model?: string; sessionId?: string; timeoutMs?: number; runId?: string; abortSignal?: AbortSignal; outputFormat?: "text" | "json" }
-): Promise<string> {
+type CallClaudeOptions = { resume?: boolean; imagePath?: string; allowedTools?: string[]; model?: string; sessionId?: string; timeoutMs?: number; runId?: string; abortSignal?: AbortSignal; outputFormat?: "text" | "json" };
+
+export async function callClaude(prompt: string, options?: CallClaudeOptions): Promise<string> {
+  return withSpan("claude.cli", async (span) => {
+    const output = await runClaudeCli(prompt, options);
+    span.setAttribute("output_chars", output.length);
+    return output;
+  }, {
+    kind: "client",
+    attributes: {
+      prompt_chars: prompt.length,
+      resume: !!options?.resume,
+      model: options?.model,
+      run_id: options?.runId,
+    },
+  });
+}
+
+async function runClaudeCli(prompt: string, options?: CallClaudeOptions): Promise<string> {
   // Prompt is piped via stdin to avoid E2BIG (ARG_MAX) on large prompts.
   // The positional [prompt] arg is omitted; claude -p reads from stdin.
   const args = [CLAUDE_PATH, "-p"];
@@ -684,3 +700,51 @@ export async function callClaudeVoice(systemPrompt: string, userMessage: string)
   logger.info(`Voice CLI responded in ${Date.now() - start}ms`);
   return output.trim();
 }
+
+/**
+ * Streaming variant of callClaudeVoice: yields text deltas as the model
+ * produces them so a voice call can start speaking the first sentence
+ * early. Stops quietly when the signal aborts (caller barged in). Falls
+ * back to one non-streamed reply when the API is unavailable or fails
+ * before any text arrived.
+ */
+export async function* streamClaudeVoice(
+  systemPrompt: string,
+  userMessage: string,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const start = Date.now();
+  let yielded = false;
+
+  if (_anthropic) {
+    try {
+      const stream = await _anthropic.messages.create({
+        model: "claude-haiku-4-5-20251001",
+        max_tokens: 300,
+        system: systemPrompt,
+        messages: [{ role: "user", content: userMessage }],
+        stream: true,
+      }, { signal });
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yielded = true;
+          yield event.delta.text;
+        }
+      }
+      logger.info(`Voice API stream finished in ${Date.now() - start}ms`);
+      return;
+    } catch (err) {
+      if (signal?.aborted) return;
+      if (yielded) {
+        logger.error("Voice API stream broke off", err);
+        return;
+      }
+      const { recordAnthropicFailure } = await import("./llm-provider.ts");
+      recordAnthropicFailure(err);
+      logger.error("Voice API stream error, falling back", err);
+    }
+  }
+
+  if (signal?.aborted) return;
+  yield await callClaudeVoice(systemPrompt, userMessage);
+}
@@ -0,0 +1,430 @@
+/**
+ * Clearinghouse Simulator — offline ClearinghouseAdapter
+ *
+ * Stands in for a real clearinghouse in end-to-end billing tests.
+ * Accepts 837P interchanges and answers each with a 999, then plays
+ * every accepted claim through a scripted payer scenario over simulated
+ * days: 277 status changes, denials carrying CARC/RARC codes, appeal
+ * decisions, and 835 remittances. Nothing moves until advance() is called.
+ *
+ * Pure module — no network, no wall clock.
+ */
+
+import { build999 } from "../x12-ack";
+import {
+  buildInterchange,
+  centsToAmount,
+  createControlNumberAllocator,
+  parseX12,
+  sanitizeElement,
+  x12DateTime,
+  type ControlNumberAllocator,
+  type X12Party,
+} from "../x12";
+import { build835, parseEDI837P, type ParsedClaim837P } from "../payer-integration";
+import type { RemittanceLine } from "../payment-posting";
+import {
+  parseClaimStatus277,
+  type ClearinghouseAdapter,
+  type ClearinghouseName,
+  type EligibilityRequest,
+  type EligibilityResponse,
+  type StatusResponse,
+  type SubmissionError,
+  type SubmissionResponse,
+} from "./clearinghouse";
+
+// ── Types ────────────────────────────────────────────────────
+
+/** How the payer pays a claim (first time, or on an overturned appeal). */
+export interface ScriptedPayment {
+  /** Allowed amount as a fraction of billed. Default 0.8. */
+  allowed_ratio?: number;
+  /** Coinsurance owed by the patient (PR-2), capped at the allowed amount. Default 0. */
+  patient_responsibility_cents?: number;
+}
+
+/** How the payer denies a claim. */
+export interface ScriptedDenial {
+  /** CAS group code. Default "CO". */
+  group_code?: "CO" | "PR" | "OA" | "PI";
+  /** Claim adjustment reason code, e.g. "50". */
+  carc: string;
+  /** Remittance advice remark codes, e.g. ["N115"]. */
+  rarc?: string[];
+  /** 277 status text. Defaults to the CARC description. */
+  reason?: string;
+}
+
+/** The payer's script for one claim. Omitted fields give a clean payment. */
+export interface ClaimScenario {
+  /** Set to deny the claim at adjudication. */
+  denial?: ScriptedDenial;
+  payment?: ScriptedPayment;
+  /** Days from submission until the claim enters adjudication. Default 3. */
+  adjudication_after_days?: number;
+  /** Days from submission until the claim is paid or denied. Default 14. */
+  decision_after_days?: number;
+  /** What happens if the denial is appealed. Default: upheld after 30 days. */
+  appeal?: { overturn: boolean; decided_after_days?: number };
+}
+
+/** A status the payer has reported for a claim (one 277 STC). */
+export interface SimulatedStatus {
+  date: string;
+  /** STC01-1 category code, e.g. "A1", "F2". */
+  category: string;
+  /** STC01-2 status code. */
+  code: string;
+  message: string;
+}
+
+/** Everything the simulator knows about one submitted claim. */
+export interface SimulatedClaim {
+  tracking_number: string;
+  claim: ParsedClaim837P;
+  scenario: ClaimScenario;
+  /** ISA sender of the 837 — the receiver of every 277 and 835 for this claim. */
+  submitter: X12Party;
+  submitted_on: string;
+  /** Reported statuses, oldest first. */
+  statuses: SimulatedStatus[];
+  /** Lines already delivered in an 835. */
+  remitted: RemittanceLine[];
+  appeals_filed: number;
+}
+
+export interface SimulatorOptions {
+  name?: ClearinghouseName;
+  /** First simulated day (YYYY-MM-DD). Default 2026-04-01. */
+  start?: string;
+  /** A scenario for every claim, or one chosen per claim. Default: pay. */
+  scenario?: ClaimScenario | ((claim: ParsedClaim837P) => ClaimScenario);
+  eligibility?: (request: EligibilityRequest) => EligibilityResponse;
+  /** Control numbers for outgoing 999, 277 and 835 interchanges. */
+  controlNumbers?: ControlNumberAllocator;
+}
+
+export interface ClearinghouseSimulator extends ClearinghouseAdapter {
+  /** The simulated date, YYYY-MM-DD. */
+  today: () => string;
+  /** Move the clock forward and apply every scripted event now due. Returns the statuses reported. */
+  advance: (days?: number) => SimulatedStatus[];
+  /** File an appeal for a denied claim. */
+  fileAppeal: (trackingNumber: string) => { accepted: boolean; error: string | null };
+  /** 835s for every claim decided since the last collection, one per payer and payee. */
+  collectRemittances: () => string[];
+  /** 277 for the given claims (all when omitted), reflecting their latest status. */
+  statusReport: (trackingNumbers?: string[]) => string;
+  claims: () => SimulatedClaim[];
+  findClaim: (claimId: string) => SimulatedClaim | null;
+}
+
+// ── Constants ───────────────────────────────────────────────
+
+export const IMPLEMENTATION_277 = "005010X212";
+
+/** Short descriptions for the CARCs scenarios commonly use. */
+export const CARC_DESCRIPTIONS: Record<string, string> = {
+  "1": "Deductible amount",
+  "2": "Coinsurance amount",
+  "4": "Procedure code inconsistent with the modifier used",
+  "11": "Diagnosis inconsistent with the procedure",
+  "16": "Claim lacks information or has submission/billing errors",
+  "18": "Exact duplicate claim/service",
+  "29": "The time limit for filing has expired",
+  "45": "Charge exceeds fee schedule/maximum allowable",
+  "50": "Not deemed a medical necessity by the payer",
+  "96": "Non-covered charge(s)",
+  "197": "Precertification/authorization absent",
+};
+
+const DEFAULT_ALLOWED_RATIO = 0.8;
+const DEFAULT_APPEAL_DAYS = 30;
+const SIMULATOR_PARTY: X12Party = { qualifier: "ZZ", id: "SIMCLEARING" };
+
+// ── Helpers ─────────────────────────────────────────────────
+
+const addDays = (isoDate: string, days: number) =>
+  new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+
+const toX12Date = (isoDate: string) => isoDate.replace(/-/g, "");
+
+/** Noon on a simulated day, so envelope dates never straddle midnight. */
+const envelopeDate = (isoDate: string) => new Date(`${isoDate}T12:00:00Z`);
+
+/**
+ * Remittance line for a paid claim: CO-45 down to the allowed amount,
+ * PR-2 for the patient's share. Pure function.
+ */
+export function paymentLine(claim: ParsedClaim837P, payment: ScriptedPayment = {}): RemittanceLine {
+  const billed = claim.total_charge_cents;
+  const allowed = Math.round(billed * (payment.allowed_ratio ?? DEFAULT_ALLOWED_RATIO));
+  const patient = Math.min(payment.patient_responsibility_cents ?? 0, allowed);
+  const adjustments = [
+    { group_code: "CO", reason_code: "45", amount_cents: billed - allowed },
+    { group_code: "PR", reason_code: "2", amount_cents: patient },
+  ].filter(a => a.amount_cents > 0);
+
+  return {
+    claim_id: claim.claim_id,
+    patient_name: `${claim.patient.last_name}, ${claim.patient.first_name}`,
+    cpt_code: claim.line_items[0]?.cpt_code ?? "",
+    billed_cents: billed,
+    allowed_cents: allowed,
+    paid_cents: allowed - patient,
+    adjustments,
+    patient_responsibility_cents: patient,
+  };
+}
+
+/**
+ * Remittance line for a denied claim: the full charge adjusted under the
+ * denial's group and CARC, with its RARCs. Pure function.
+ */
+export function denialLine(claim: ParsedClaim837P, denial: ScriptedDenial): RemittanceLine {
+  const group = denial.group_code ?? "CO";
+  const billed = claim.total_charge_cents;
+  return {
+    claim_id: claim.claim_id,
+    patient_name: `${claim.patient.last_name}, ${claim.patient.first_name}`,
+    cpt_code: claim.line_items[0]?.cpt_code ?? "",
+    billed_cents: billed,
+    allowed_cents: 0,
+    paid_cents: 0,
+    adjustments: [{ group_code: group, reason_code: denial.carc, amount_cents: billed }],
+    patient_responsibility_cents: group === "PR" ? billed : 0,
+    ...(denial.rarc?.length ? { remark_codes: denial.rarc } : {}),
+  };
+}
+
+function denialMessage(denial: ScriptedDenial): string {
+  return denial.reason ?? CARC_DESCRIPTIONS[denial.carc] ?? `Denied (CARC ${denial.carc})`;
+}
+
+// ── Simulator ───────────────────────────────────────────────
+
+interface ScheduledEvent {
+  day: number;
+  tracking_number: string;
+  status: Omit<SimulatedStatus, "date">;
+  remit: RemittanceLine | null;
+}
+
+/**
+ * Create a simulated clearinghouse. Claims submitted on day N follow
+ * their scenario relative to N; events fire in day order as the clock
+ * advances.
+ */
+export function createClearinghouseSimulator(options: SimulatorOptions = {}): ClearinghouseSimulator {
+  const start = options.start ?? "2026-04-01";
+  const controlNumbers = options.controlNumbers ?? createControlNumberAllocator();
+  const claims = new Map<string, SimulatedClaim>();
+  let scheduled: ScheduledEvent[] = [];
+  let undelivered: { tracking_number: string; line: RemittanceLine }[] = [];
+  let day = 0;
+  let traceSeq = 0;
+
+  const today = () => addDays(start, day);
+  const scenarioFor = (claim: ParsedClaim837P): ClaimScenario =>
+    typeof options.scenario === "function" ? options.scenario(claim) : options.scenario ?? {};
+
+  function report(sim: SimulatedClaim, status: Omit<SimulatedStatus, "date">): SimulatedStatus {
+    const reported = { date: today(), ...status };
+    sim.statuses.push(reported);
+    return reported;
+  }
+
+  function schedule(sim: SimulatedClaim, afterDays: number, status: Omit<SimulatedStatus, "date">, remit: RemittanceLine | null = null) {
+    scheduled.push({ day: day + afterDays, tracking_number: sim.tracking_number, status, remit });
+  }
+
+  function scheduleAdjudication(sim: SimulatedClaim) {
+    const { scenario, claim } = sim;
+    schedule(sim, scenario.adjudication_after_days ?? 3, { category: "P1", code: "20", message: "Accepted into adjudication" });
+    const decisionDay = scenario.decision_after_days ?? 14;
+    if (scenario.denial) {
+      schedule(sim, decisionDay, { category: "F2", code: "65", message: denialMessage(scenario.denial) }, denialLine(claim, scenario.denial));
+    } else {
+      schedule(sim, decisionDay, { category: "F1", code: "65", message: "Claim paid" }, paymentLine(claim, scenario.payment));
+    }
+  }
+
+  async function submitClaim(payload: string, format: string): Promise<SubmissionResponse> {
+    if (format !== "x12_837p") {
+      return rejected([{ code: "FORMAT", message: `Unsupported format: ${format}`, category: "validation", retryable: false }]);
+    }
+    const { interchange } = parseX12(payload);
+    const { claims: parsed, issues } = parseEDI837P(payload);
+    if (!interchange) {
+      return rejected(issues.map(i => ({ code: i.code, message: i.message, category: "rejection" as const, retryable: false })));
+    }
+
+    const ack = build999(interchange, issues, { controlNumbers, date: envelopeDate(today()) }).edi;
+    if (issues.length > 0) {
+      return {
+        ...rejected(issues.map(i => ({ code: i.code, message: i.message, category: "rejection" as const, retryable: false }))),
+        acknowledgement_code: "R",
+        raw_response: ack,
+      };
+    }
+
+    const tracking: string[] = [];
+    for (const claim of parsed) {
+      const sim: SimulatedClaim = {
+        tracking_number: `SIM${String(claims.size + 1).padStart(8, "0")}`,
+        claim,
+        scenario: scenarioFor(claim),
+        submitter: interchange.sender,
+        submitted_on: today(),
+        statuses: [],
+        remitted: [],
+        appeals_filed: 0,
+      };
+      claims.set(sim.tracking_number, sim);
+      tracking.push(sim.tracking_number);
+      report(sim, { category: "A1", code: "19", message: "Received by clearinghouse" });
+      scheduleAdjudication(sim);
+    }
+
+    return {
+      success: true,
+      // One tracking number per claim; a batch is answered with the first (see claims()).
+      tracking_number: tracking[0] ?? null,
+      acknowledgement_code: "A",
+      errors: [],
+      raw_response: ack,
+    };
+  }
+
+  function advance(days = 1): SimulatedStatus[] {
+    day += days;
+    const due = scheduled.filter(e => e.day <= day).sort((a, b) => a.day - b.day);
+    scheduled = scheduled.filter(e => e.day > day);
+
+    const fired: SimulatedStatus[] = [];
+    for (const event of due) {
+      const sim = claims.get(event.tracking_number)!;
+      fired.push(report(sim, event.status));
+      if (event.remit) undelivered.push({ tracking_number: sim.tracking_number, line: event.remit });
+    }
+    return fired;
+  }
+
+  function fileAppeal(trackingNumber: string): { accepted: boolean; error: string | null } {
+    const sim = claims.get(trackingNumber);
+    if (!sim) return { accepted: false, error: `Unknown tracking number ${trackingNumber}` };
+    if (sim.statuses.at(-1)?.category !== "F2") return { accepted: false, error: "Only a denied claim can be appealed" };
+
+    const appeal = sim.scenario.appeal ?? { overturn: false };
+    const decisionDays = appeal.decided_after_days ?? DEFAULT_APPEAL_DAYS;
+    sim.appeals_filed++;
+    report(sim, { category: "P1", code: "20", message: "Appeal received, under review" });
+    if (appeal.overturn) {
+      schedule(sim, decisionDays, { category: "F1", code: "65", message: "Claim paid on appeal" }, paymentLine(sim.claim, sim.scenario.payment));
+    } else {
+      const denial = sim.scenario.denial ?? { carc: "16" };
+      schedule(sim, decisionDays, { category: "F2", code: "65", message: `Denial upheld on appeal: ${denialMessage(denial)}` });
+    }
+    return { accepted: true, error: null };
+  }
+
+  function collectRemittances(): string[] {
+    const batches = new Map<string, { sim: SimulatedClaim; lines: RemittanceLine[] }>();
+    for (const { tracking_number, line } of undelivered) {
+      const sim = claims.get(tracking_number)!;
+      const key = `${sim.claim.insurance.payer_id}|${sim.claim.provider.npi}|${sim.submitter.id}`;
+      const batch = batches.get(key) ?? { sim, lines: [] };
+      batch.lines.push(line);
+      batches.set(key, batch);
+      sim.remitted.push(line);
+    }
+    undelivered = [];
+
+    return [...batches.values()].map(({ sim, lines }) => build835({
+      payer: { id: sim.claim.insurance.payer_id, name: sim.claim.insurance.payer_name },
+      payee: { npi: sim.claim.provider.npi, name: sim.claim.provider.name },
+      trace_number: `SIMEFT${String(++traceSeq).padStart(6, "0")}`,
+      payment_date: today(),
+      lines,
+    }, { controlNumbers, date: envelopeDate(today()), sender: SIMULATOR_PARTY, receiver: sim.submitter }).edi);
+  }
+
+  function statusReport(trackingNumbers?: string[]): string {
+    const selected = (trackingNumbers ?? [...claims.keys()]).map(t => claims.get(t)).filter((s): s is SimulatedClaim => !!s);
+    const { date, time } = x12DateTime(envelopeDate(today()));
+    const v = (value: string) => sanitizeElement(value);
+    const segments: string[][] = [["BHT", "0010", "08", `SIM${date}`, date, time, "DG"]];
+
+    let hl = 0;
+    for (const sim of selected) {
+      const { claim } = sim;
+      const status = sim.statuses.at(-1)!;
+      const payer = ++hl;
+      segments.push(["HL", String(payer), "", "20", "1"], ["NM1", "PR", "2", v(claim.insurance.payer_name), "", "", "", "", "PI", v(claim.insurance.payer_id)]);
+      const receiver = ++hl;
+      segments.push(["HL", String(receiver), String(payer), "21", "1"], ["NM1", "41", "2", v(sim.submitter.id), "", "", "", "", "46", v(sim.submitter.id)]);
+      const provider = ++hl;
+      segments.push(["HL", String(provider), String(receiver), "19", "1"], ["NM1", "1P", "2", v(claim.provider.name), "", "", "", "", "XX", claim.provider.npi]);
+      segments.push(
+        ["HL", String(++hl), String(provider), "22", "0"],
+        ["NM1", "IL", "1", v(claim.patient.last_name), v(claim.patient.first_name), "", "", "", "MI", v(claim.patient.member_id)],
+        ["TRN", "2", v(claim.claim_id)],
+        ["STC", `${status.category}:${status.code}`, toX12Date(status.date), v(status.message), "", centsToAmount(claim.total_charge_cents)],
+        ["REF", "1K", sim.tracking_number],
+        ["DTP", "472", "D8", toX12Date(claim.encounter_date)],
+      );
+    }
+
+    return buildInterchange([{ id: "277", segments }], {
+      sender: SIMULATOR_PARTY,
+      receiver: selected[0]?.submitter ?? { qualifier: "ZZ", id: "RECEIVER" },
+      functional_id: "HN",
+      implementation: IMPLEMENTATION_277,
+      controlNumbers,
+      date: envelopeDate(today()),
+    }).edi;
+  }
+
+  async function checkStatus(trackingNumber: string): Promise<StatusResponse> {
+    if (!claims.has(trackingNumber)) {
+      return { claim_id: null, status: "unknown", status_code: null, status_message: `Unknown tracking number ${trackingNumber}`, effective_date: null };
+    }
+    // Round-trip through the wire format so the 277 parser is exercised too
+    return parseClaimStatus277(statusReport([trackingNumber]))[0];
+  }
+
+  async function checkEligibility(request: EligibilityRequest): Promise<EligibilityResponse> {
+    if (options.eligibility) return options.eligibility(request);
+    return {
+      eligible: true,
+      payer_name: request.payer_id,
+      plan_name: null,
+      coverage_status: "active",
+      copay_cents: null,
+      deductible_cents: null,
+      deductible_remaining_cents: null,
+      coinsurance_percent: null,
+      prior_auth_required: false,
+      errors: [],
+    };
+  }
+
+  return {
+    name: options.name ?? "availity",
+    submitClaim,
+    checkStatus,
+    checkEligibility,
+    today,
+    advance,
+    fileAppeal,
+    collectRemittances,
+    statusReport,
+    claims: () => [...claims.values()],
+    findClaim: (claimId: string) => [...claims.values()].find(c => c.claim.claim_id === claimId) ?? null,
+  };
+}
+
+function rejected(errors: SubmissionError[]): SubmissionResponse {
+  return { success: false, tracking_number: null, acknowledgement_code: null, errors, raw_response: null };
+}
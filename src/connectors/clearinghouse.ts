@@ -8,6 +8,21 @@
  * Pure module — HTTP calls are injected as deps.
  */
 
+import {
+  DEFAULT_DELIMITERS,
+  DEFAULT_RECEIVER,
+  DEFAULT_SENDER,
+  buildInterchange,
+  components,
+  defaultControlNumbers,
+  detectDelimiters,
+  sanitizeElement,
+  tokenizeX12,
+  x12DateTime,
+  type BuiltInterchange,
+  type X12BuildOptions,
+} from "../x12";
+
 // ── Types ────────────────────────────────────────────────────
 
 export type ClearinghouseName = "availity" | "change_healthcare" | "trizetto" | "office_ally";
@@ -175,32 +190,49 @@ export async function executeWithRetry<T>(
 
 // ── Eligibility Request Builder (270) ───────────────────────
 
+export const IMPLEMENTATION_270 = "005010X279A1";
+
 /**
- * Build an X12 270 eligibility inquiry.
- * Simplified — covers core segments.
- * Pure function.
+ * Build an X12 270 eligibility inquiry interchange, returning the control
+ * numbers assigned. Simplified — covers core segments.
+ * Pure apart from control-number allocation.
  */
-export function buildEligibilityRequest270(req: EligibilityRequest): string {
-  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+export function build270(req: EligibilityRequest, options: X12BuildOptions = {}): BuiltInterchange {
+  const now = options.date ?? new Date();
+  const { date, time } = x12DateTime(now);
+  const v = (value: string) => sanitizeElement(value);
+  const serviceDate = req.date_of_service ?? now.toISOString().slice(0, 10);
+
   const segments = [
-    `ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *${date.slice(2, 8)}*1200*^*00501*000000001*0*P*:`,
-    `GS*HS*SENDER*RECEIVER*${date}*1200*1*X*005010X279A1`,
-    `ST*270*0001*005010X279A1`,
-    `BHT*0022*13*ELG${date}*${date}*1200`,
-    `HL*1**20*1`,
-    `NM1*PR*2*${req.payer_id}****PI*${req.payer_id}`,
-    `HL*2*1*21*1`,
-    `NM1*1P*1*****XX*1234567890`,
-    `HL*3*2*22*0`,
-    `NM1*IL*1*${req.patient_last_name}*${req.patient_first_name}****MI*${req.member_id}`,
-    `DMG*D8*${req.patient_dob.replace(/-/g, "")}`,
-    `DTP*291*D8*${(req.date_of_service ?? new Date().toISOString().slice(0, 10)).replace(/-/g, "")}`,
-    `EQ*${req.service_type_code ?? "30"}`,
-    `SE*13*0001`,
-    `GE*1*1`,
-    `IEA*1*000000001`,
+    ["BHT", "0022", "13", `ELG${date}`, date, time],
+    ["HL", "1", "", "20", "1"],
+    ["NM1", "PR", "2", v(req.payer_id), "", "", "", "", "PI", v(req.payer_id)],
+    ["HL", "2", "1", "21", "1"],
+    ["NM1", "1P", "1", "", "", "", "", "", "XX", "1234567890"],
+    ["HL", "3", "2", "22", "0"],
+    ["NM1", "IL", "1", v(req.patient_last_name), v(req.patient_first_name), "", "", "", "MI", v(req.member_id)],
+    ["DMG", "D8", req.patient_dob.replace(/-/g, "")],
+    ["DTP", "291", "D8", serviceDate.replace(/-/g, "")],
+    ["EQ", v(req.service_type_code ?? "30")],
   ];
-  return segments.join("~\n") + "~\n";
+
+  return buildInterchange([{ id: "270", segments }], {
+    sender: options.sender ?? DEFAULT_SENDER,
+    receiver: options.receiver ?? DEFAULT_RECEIVER,
+    functional_id: "HS",
+    implementation: IMPLEMENTATION_270,
+    controlNumbers: options.controlNumbers ?? defaultControlNumbers,
+    date: now,
+    usage: options.usage,
+  });
+}
+
+/**
+ * Build an X12 270 eligibility inquiry.
+ * Pure function.
+ */
+export function buildEligibilityRequest270(req: EligibilityRequest, options: X12BuildOptions = {}): string {
+  return build270(req, options).edi;
 }
 
 // ── Eligibility Response Parser (271) ───────────────────────
@@ -211,7 +243,7 @@ export function buildEligibilityRequest270(req: EligibilityRequest): string {
  * Pure function.
  */
 export function parseEligibilityResponse271(raw: string): EligibilityResponse {
-  const segments = raw.split("~").map(s => s.trim()).filter(Boolean);
+  const segments = tokenizeX12(raw);
   const response: EligibilityResponse = {
     eligible: false,
     payer_name: null,
@@ -225,9 +257,7 @@ export function parseEligibilityResponse271(raw: string): EligibilityResponse {
     errors: [],
   };
 
-  for (const seg of segments) {
-    const el = seg.split("*");
-
+  for (const { elements: el } of segments) {
     if (el[0] === "NM1" && el[1] === "PR") {
       response.payer_name = el[3] ?? null;
     }
@@ -275,20 +305,18 @@ export function parseEligibilityResponse271(raw: string): EligibilityResponse {
  * Pure function.
  */
 export function parseClaimStatus277(raw: string): StatusResponse[] {
-  const segments = raw.split("~").map(s => s.trim()).filter(Boolean);
+  const delimiters = detectDelimiters(raw) ?? DEFAULT_DELIMITERS;
   const responses: StatusResponse[] = [];
   let current: Partial<StatusResponse> = {};
 
-  for (const seg of segments) {
-    const el = seg.split("*");
-
+  for (const { elements: el } of tokenizeX12(raw, delimiters)) {
     if (el[0] === "TRN") {
       if (current.claim_id) responses.push(finalizeStatus(current));
       current = { claim_id: el[2] ?? null };
     }
 
     if (el[0] === "STC") {
-      const statusCode = el[1]?.split(":")[0] ?? null;
+      const statusCode = components(el[1], delimiters)[0] ?? null;
       current.status_code = statusCode;
       current.status_message = el[3] ?? null;
       current.effective_date = el[2] ?? null;
@@ -304,10 +332,11 @@ function mapStatusCode(code: string | null): StatusResponse["status"] {
   if (!code) return "unknown";
   const map: Record<string, StatusResponse["status"]> = {
     "A0": "accepted", "A1": "accepted", "A2": "accepted",
+    "A3": "rejected", "A7": "rejected",
     "R0": "rejected", "R1": "rejected", "R3": "rejected",
     "P0": "pending", "P1": "pending", "P2": "pending",
     "F0": "paid", "F1": "paid",
-    "D0": "denied",
+    "F2": "denied", "D0": "denied",
   };
   return map[code] ?? "unknown";
 }
@@ -23,6 +23,12 @@ export interface FHIRConfig {
 
 // ── FHIR Resource Types (minimal R4 shapes) ─────────────────
 
+/** Any resource, before its resourceType has been checked. */
+export interface FHIRResource {
+  resourceType: string;
+  id?: string;
+}
+
 export interface FHIRPatient {
   resourceType: "Patient";
   id: string;
@@ -41,6 +47,7 @@ export interface FHIREncounter {
   subject?: { reference: string };
   participant?: { individual?: { reference: string; display?: string } }[];
   serviceProvider?: { reference?: string; display?: string };
+  diagnosis?: { condition?: { reference: string }; rank?: number }[];
 }
 
 export interface FHIRCondition {
@@ -72,10 +79,38 @@ export interface FHIRCoverage {
   class?: { type?: { coding?: { code: string }[] }; value?: string; name?: string }[];
 }
 
+export interface FHIRPractitioner {
+  resourceType: "Practitioner";
+  id: string;
+  name?: { family?: string; given?: string[]; prefix?: string[]; text?: string }[];
+  identifier?: { system?: string; value: string }[];
+  qualification?: { code?: { coding?: { system?: string; code: string }[] } }[];
+}
+
+export interface FHIROrganization {
+  resourceType: "Organization";
+  id: string;
+  name?: string;
+  identifier?: { system?: string; value: string }[];
+}
+
+export interface FHIRChargeItem {
+  resourceType: "ChargeItem";
+  id: string;
+  status?: string;
+  code?: { coding?: { system?: string; code: string; display?: string }[] };
+  subject?: { reference: string };
+  context?: { reference: string };
+  quantity?: { value?: number };
+  priceOverride?: { value: number; currency?: string };
+  service?: { reference: string }[];
+}
+
 export interface FHIRBundle {
   resourceType: "Bundle";
+  type?: string;
   total?: number;
-  entry?: { resource: any }[];
+  entry?: { fullUrl?: string; resource: any }[];
 }
 
 // ── Normalized Billing Types ────────────────────────────────
@@ -222,6 +257,34 @@ export function extractFromBundle<T>(
     .filter(r => r?.resourceType === resourceType) as T[];
 }
 
+/**
+ * Parse an NDJSON bulk-export file (one resource per line).
+ * Blank lines are skipped; lines that aren't a JSON resource are reported
+ * with their 1-based line number. Pure function.
+ */
+export function parseNDJSON(text: string): {
+  resources: FHIRResource[];
+  errors: { line: number; message: string }[];
+} {
+  const resources: FHIRResource[] = [];
+  const errors: { line: number; message: string }[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    try {
+      const resource = JSON.parse(line);
+      if (typeof resource?.resourceType !== "string") {
+        errors.push({ line: i + 1, message: "missing resourceType" });
+        return;
+      }
+      resources.push(resource);
+    } catch {
+      errors.push({ line: i + 1, message: "invalid JSON" });
+    }
+  });
+  return { resources, errors };
+}
+
 // ── OAuth2 Token Request Builder ────────────────────────────
 
 export interface TokenRequest {
@@ -9,6 +9,8 @@
 
 import Anthropic from "@anthropic-ai/sdk";
 import { log } from "./logger.ts";
+import { chat, isOutageError, type ChatMessage } from "./llm-provider.ts";
+import { startSpan, withSpan, type Span } from "./trace.ts";
 import type { FoundationRegistry } from "./foundation-registry.ts";
 import { CoordinatorContext } from "./coordinator-context.ts";
 import {
@@ -250,450 +252,485 @@ export async function runCoordinatorLoop(opts: CoordinatorOpts): Promise<Coordin
     client = new Anthropic();
   }
 
-  // 4. LOOP
-  for (let iteration = 0; iteration < effectiveMaxIterations; iteration++) {
-    loopIterations = iteration + 1;
-
-    // 4a. Check wall-clock timeout
-    if (Date.now() - startTime > sessionTimeoutMs) {
-      hitSafetyRail = true;
-      response = "I've reached the session time limit. Here's what I've accomplished so far — please send a follow-up message to continue.";
-      logger.warn("Session timeout reached", { iteration, elapsed: Date.now() - startTime });
-      break;
-    }
-
-    // Check cost cap — ONLY coordinator API cost counts (specialists run on Max subscription via CLI)
-    // ELLIE-1136: Specialist cost is computed but not real — CLI uses subscription, not API credits
-    const coordinatorCost = computeCost(effectiveModel, totalTokensIn, totalTokensOut);
-    if (coordinatorCost > effectiveCostCap) {
-      hitSafetyRail = true;
-      response = "I've reached the cost limit for this session. Here's what I've accomplished so far.";
-      logger.warn("Cost cap reached", { iteration, coordinatorCost, specialistCost: specialistCostUsd, cap: effectiveCostCap });
-      break;
-    }
-
-    // 4b. Call Messages API (or use test responses)
-    let apiResponse: {
-      stop_reason: string;
-      content: Array<Record<string, unknown>>;
-      usage: { input_tokens: number; output_tokens: number };
-    };
+  // 4. LOOP — one span per iteration under a loop span, so the waterfall shows where time went
+  const loopSpan = startSpan("coordinator.loop", { root: true, attributes: { channel, work_item_id: workItemId } });
+  let iterationSpan: Span | null = null;
+  let loopFailure: unknown;
+  try {
+    for (let iteration = 0; iteration < effectiveMaxIterations; iteration++) {
+      loopIterations = iteration + 1;
+      iterationSpan?.end();
+      iterationSpan = startSpan("coordinator.iteration", { parent: loopSpan, attributes: { iteration: loopIterations } });
+      const parentSpan = iterationSpan;
+
+      // 4a. Check wall-clock timeout
+      if (Date.now() - startTime > sessionTimeoutMs) {
+        hitSafetyRail = true;
+        response = "I've reached the session time limit. Here's what I've accomplished so far — please send a follow-up message to continue.";
+        logger.warn("Session timeout reached", { iteration, elapsed: Date.now() - startTime });
+        break;
+      }
 
-    if (isTestMode && !_apiCallFn) {
-      if (testResponseIdx >= _testResponses!.length) {
+      // Check cost cap — ONLY coordinator API cost counts (specialists run on Max subscription via CLI)
+      // ELLIE-1136: Specialist cost is computed but not real — CLI uses subscription, not API credits
+      const coordinatorCost = computeCost(effectiveModel, totalTokensIn, totalTokensOut);
+      if (coordinatorCost > effectiveCostCap) {
         hitSafetyRail = true;
-        response = "Test responses exhausted.";
+        response = "I've reached the cost limit for this session. Here's what I've accomplished so far.";
+        logger.warn("Cost cap reached", { iteration, coordinatorCost, specialistCost: specialistCostUsd, cap: effectiveCostCap });
         break;
       }
-      apiResponse = _testResponses![testResponseIdx++];
-    } else {
-      try {
-        if (_apiCallFn) {
-          apiResponse = await _apiCallFn();
-        } else {
-          const anthropicResponse = await callMessagesAPI(client!, {
-            model: effectiveModel,
-            systemPrompt: ctx.getSystemPrompt(),
-            messages: ctx.getMessages(),
-          });
-          apiResponse = {
-            stop_reason: anthropicResponse.stop_reason ?? "end_turn",
-            content: anthropicResponse.content as unknown as Array<Record<string, unknown>>,
-            usage: anthropicResponse.usage,
-          };
+
+      // 4b. Call Messages API (or use test responses)
+      let apiResponse: {
+        stop_reason: string;
+        content: Array<Record<string, unknown>>;
+        usage: { input_tokens: number; output_tokens: number };
+      };
+
+      if (isTestMode && !_apiCallFn) {
+        if (testResponseIdx >= _testResponses!.length) {
+          hitSafetyRail = true;
+          response = "Test responses exhausted.";
+          break;
         }
-      } catch (err: unknown) {
-        // Rate limit: exponential backoff
-        if (isRateLimitError(err)) {
-          const backoff = Math.min(1000 * Math.pow(2, iteration), 30000);
-          logger.warn("Rate limited, backing off", { backoff, iteration });
-          await sleep(backoff);
-          iteration--; // Don't count rate-limit retries against iteration budget
-          continue;
+        apiResponse = _testResponses![testResponseIdx++];
+      } else {
+        try {
+          if (_apiCallFn) {
+            apiResponse = await _apiCallFn();
+          } else {
+            const anthropicResponse = await withSpan("coordinator.messages_api", () => callMessagesAPI(client!, {
+              model: effectiveModel,
+              systemPrompt: ctx.getSystemPrompt(),
+              messages: ctx.getMessages(),
+            }), { parent: parentSpan, kind: "client", attributes: { model: effectiveModel } });
+            apiResponse = {
+              stop_reason: anthropicResponse.stop_reason ?? "end_turn",
+              content: anthropicResponse.content as unknown as Array<Record<string, unknown>>,
+              usage: anthropicResponse.usage,
+            };
+          }
+        } catch (err: unknown) {
+          // Rate limit: exponential backoff
+          if (isRateLimitError(err)) {
+            const backoff = Math.min(1000 * Math.pow(2, iteration), 30000);
+            logger.warn("Rate limited, backing off", { backoff, iteration });
+            await sleep(backoff);
+            iteration--; // Don't count rate-limit retries against iteration budget
+            continue;
+          }
+          // Anthropic down: let the registry's coordinator chain (OpenAI, local) take the turn
+          const fallback = client && isOutageError(err)
+            ? await withSpan("coordinator.fallback_chat", () => callCoordinatorFallback({
+              systemPrompt: ctx.getSystemPrompt(),
+              messages: ctx.getMessages(),
+            }), { parent: parentSpan, kind: "client" }).catch((fallbackErr: unknown) => {
+              logger.error("Fallback providers failed", { error: fallbackErr instanceof Error ? fallbackErr.message : String(fallbackErr) });
+              return null;
+            })
+            : null;
+          if (!fallback) {
+            // Unknown API error: break with safety rail
+            hitSafetyRail = true;
+            response = "I encountered an unexpected error communicating with Claude. Please try again.";
+            logger.error("API error", { error: err instanceof Error ? err.message : String(err) });
+            break;
+          }
+          logger.warn("Messages API unavailable — turn answered by a fallback provider", { iteration });
+          apiResponse = fallback;
         }
-        // Unknown API error: break with safety rail
-        hitSafetyRail = true;
-        response = "I encountered an unexpected error communicating with Claude. Please try again.";
-        logger.error("API error", { error: err instanceof Error ? err.message : String(err) });
-        break;
       }
-    }
 
-    // 4c. Track tokens
-    totalTokensIn += apiResponse.usage.input_tokens;
-    totalTokensOut += apiResponse.usage.output_tokens;
-    ctx.recordTokenUsage(totalTokensIn);
+      // 4c. Track tokens
+      totalTokensIn += apiResponse.usage.input_tokens;
+      totalTokensOut += apiResponse.usage.output_tokens;
+      ctx.recordTokenUsage(totalTokensIn);
 
-    // 4d. Add assistant response to context
-    ctx.addAssistantMessage(apiResponse.content as unknown as Anthropic.ContentBlockParam[]);
+      // 4d. Add assistant response to context
+      ctx.addAssistantMessage(apiResponse.content as unknown as Anthropic.ContentBlockParam[]);
 
-    // 4e. If end_turn: extract text and break
-    if (apiResponse.stop_reason === "end_turn") {
-      response = extractText(apiResponse.content);
-      if (!response) {
-        logger.warn("end_turn with empty text — forcing a completion message");
-        response = "I processed your request but the response was empty. Please try again.";
+      // 4e. If end_turn: extract text and break
+      if (apiResponse.stop_reason === "end_turn") {
+        response = extractText(apiResponse.content);
+        if (!response) {
+          logger.warn("end_turn with empty text — forcing a completion message");
+          response = "I processed your request but the response was empty. Please try again.";
+        }
+        break;
       }
-      break;
-    }
 
-    // 4f. Process tool calls
-    const toolUses = apiResponse.content.filter(
-      (block) => block.type === "tool_use"
-    );
+      // 4f. Process tool calls
+      const toolUses = apiResponse.content.filter(
+        (block) => block.type === "tool_use"
+      );
 
-    if (toolUses.length === 0) {
-      // No tool calls and not end_turn — extract text and break
-      response = extractText(apiResponse.content);
-      break;
-    }
+      if (toolUses.length === 0) {
+        // No tool calls and not end_turn — extract text and break
+        response = extractText(apiResponse.content);
+        break;
+      }
 
-    let shouldBreak = false;
+      let shouldBreak = false;
 
-    // Separate dispatch_agent calls (parallel) from other tools (sequential)
-    const dispatchCalls: Array<Record<string, unknown>> = [];
-    const otherCalls: Array<Record<string, unknown>> = [];
+      // Separate dispatch_agent calls (parallel) from other tools (sequential)
+      const dispatchCalls: Array<Record<string, unknown>> = [];
+      const otherCalls: Array<Record<string, unknown>> = [];
 
-    for (const tool of toolUses) {
-      if (tool.name === "complete") {
-        // Handle complete tool — extract response, optionally promote
-        const input = tool.input as unknown as CompleteInput;
-        response = input.response || "";
-        logger.info("Complete tool called", { responseLength: response.length, responsePreview: response.slice(0, 200) });
+      for (const tool of toolUses) {
+        if (tool.name === "complete") {
+          // Handle complete tool — extract response, optionally promote
+          const input = tool.input as unknown as CompleteInput;
+          response = input.response || "";
+          logger.info("Complete tool called", { responseLength: response.length, responsePreview: response.slice(0, 200) });
 
-        if (input.promote_to_memory) {
-          try {
-            await deps.promoteToForest();
-          } catch (err) {
-            logger.error("Failed to promote to forest", { error: err instanceof Error ? err.message : String(err) });
+          if (input.promote_to_memory) {
+            try {
+              await deps.promoteToForest();
+            } catch (err) {
+              logger.error("Failed to promote to forest", { error: err instanceof Error ? err.message : String(err) });
+            }
           }
-        }
 
-        // Feed tool result back
-        ctx.addToolResult(tool.id as string, JSON.stringify({ status: "completed", response: input.response }));
-        shouldBreak = true;
-        break;
-      } else if (tool.name === "ask_user") {
-        // ELLIE-1101: Pause the loop — save state so next message can resume
-        const askInput = tool.input as unknown as AskUserInput;
-
-        // ELLIE-1264: Validate choice format requires non-empty choices array
-        if (askInput.answer_format === 'choice' && (!askInput.choices || askInput.choices.length === 0)) {
-          logger.warn("ask_user with answer_format='choice' but no choices — falling back to text format");
-          askInput.answer_format = 'text';
-        }
-
-        // ELLIE-1276: Generate question ID upfront so it's shared between GTD item and paused state metadata
-        let questionId: string;
-        try {
-          const gtdMod = await import("./gtd-orchestration.ts");
-          questionId = gtdMod.generateQuestionId();
-        } catch {
-          questionId = `q-${Math.random().toString(16).slice(2, 10)}`;
-        }
+          // Feed tool result back
+          ctx.addToolResult(tool.id as string, JSON.stringify({ status: "completed", response: input.response }));
+          shouldBreak = true;
+          break;
+        } else if (tool.name === "ask_user") {
+          // ELLIE-1101: Pause the loop — save state so next message can resume
+          const askInput = tool.input as unknown as AskUserInput;
+
+          // ELLIE-1264: Validate choice format requires non-empty choices array
+          if (askInput.answer_format === 'choice' && (!askInput.choices || askInput.choices.length === 0)) {
+            logger.warn("ask_user with answer_format='choice' but no choices — falling back to text format");
+            askInput.answer_format = 'text';
+          }
 
-        // ELLIE-1276: Format the question with structured metadata before sending
-        const formattedQuestion = formatQuestionMessage({
-          agentName: "ellie",
-          questionId,
-          question: askInput.question,
-          whatINeed: askInput.what_i_need ?? "",
-          decisionUnlocked: askInput.decision_unlocked ?? "",
-          choices: askInput.choices,
-        });
-        await deps.sendMessage(channel, formattedQuestion);
-        logger.info("ask_user pausing loop", { question: askInput.question.slice(0, 200), toolUseId: tool.id });
-
-        // ELLIE-1152: Create question item in GTD for dispatch panel visibility
-        // Parent under the last dispatched agent's child item if available,
-        // otherwise fall back to the orchestration root parent.
-        // NOTE: If multiple agents were dispatched in parallel, lastDispatchChildId
-        // points to the last one resolved — may not be the agent that triggered the question.
-        if (orchestrationParentId) {
+          // ELLIE-1276: Generate question ID upfront so it's shared between GTD item and paused state metadata
+          let questionId: string;
           try {
             const gtdMod = await import("./gtd-orchestration.ts");
-            const questionParent = lastDispatchChildId || orchestrationParentId;
-            await gtdMod.createQuestionItem({
-              parentId: questionParent,
-              content: askInput.question,
-              createdBy: effectiveCoordinatorAgent,
-              urgency: askInput.urgency === "high" ? "blocking" : "normal",
-              metadata: {
-                question_id: questionId,
-                what_i_need: askInput.what_i_need,
-                decision_unlocked: askInput.decision_unlocked,
-                answer_format: askInput.answer_format ?? "text",
-                choices: askInput.choices ?? null,
-              },
-            }).catch((err: unknown) => logger.warn("GTD question item creation failed", { error: err instanceof Error ? err.message : String(err) }));
-          } catch (err) { logger.warn("GTD question import failed", { error: err instanceof Error ? err.message : String(err) }); }
-        }
+            questionId = gtdMod.generateQuestionId();
+          } catch {
+            questionId = `q-${Math.random().toString(16).slice(2, 10)}`;
+          }
 
-        // Add the assistant message with the ask_user tool_use to context before saving
-        // (it was already added above via addAssistantMessage)
-        // Save the full conversation state for resume
-        const pausedState: CoordinatorPausedState = {
-          messages: ctx.getMessages() as unknown[],
-          systemPrompt: fullSystemPrompt,
-          toolUseId: tool.id as string,
-          question: askInput.question,
-          foundation,
-          model: effectiveModel,
-          agentRoster: effectiveRoster,
-          envelopes: [...envelopes],
-          totalTokensIn,
-          totalTokensOut,
-          iteration: loopIterations,
-          orchestrationParentId,       // ELLIE-1152: Preserve GTD tree across resume
-          lastDispatchChildId,         // ELLIE-1152: Preserve for question parenting
-          questionMetadata: {          // ELLIE-1276: Metadata for formatted question display
-            question_id: questionId,
-            what_i_need: askInput.what_i_need ?? "",
-            decision_unlocked: askInput.decision_unlocked ?? "",
-            answer_format: askInput.answer_format,
-            choices: askInput.choices,
+          // ELLIE-1276: Format the question with structured metadata before sending
+          const formattedQuestion = formatQuestionMessage({
             agentName: "ellie",
-          },
-        };
-
-        // Return with paused state — the handler will store this
-        const durationMs = Date.now() - startTime;
-        const finalEnvelope = completeEnvelope(coordEnvelope, { tokens_in: totalTokensIn, tokens_out: totalTokensOut, model: effectiveModel });
-        envelopes[0] = finalEnvelope;
-
-        return {
-          response: askInput.question,
-          loopIterations,
-          envelopes,
-          totalTokensIn,
-          totalTokensOut,
-          totalCostUsd: computeCost(effectiveModel, totalTokensIn, totalTokensOut) + specialistCostUsd,
-          hitSafetyRail: false,
-          durationMs,
-          paused: pausedState,
-        };
-      } else if (tool.name === "dispatch_agent") {
-        dispatchCalls.push(tool);
-      } else {
-        otherCalls.push(tool);
-      }
-    }
+            questionId,
+            question: askInput.question,
+            whatINeed: askInput.what_i_need ?? "",
+            decisionUnlocked: askInput.decision_unlocked ?? "",
+            choices: askInput.choices,
+          });
+          await deps.sendMessage(channel, formattedQuestion);
+          logger.info("ask_user pausing loop", { question: askInput.question.slice(0, 200), toolUseId: tool.id });
+
+          // ELLIE-1152: Create question item in GTD for dispatch panel visibility
+          // Parent under the last dispatched agent's child item if available,
+          // otherwise fall back to the orchestration root parent.
+          // NOTE: If multiple agents were dispatched in parallel, lastDispatchChildId
+          // points to the last one resolved — may not be the agent that triggered the question.
+          if (orchestrationParentId) {
+            try {
+              const gtdMod = await import("./gtd-orchestration.ts");
+              const questionParent = lastDispatchChildId || orchestrationParentId;
+              await gtdMod.createQuestionItem({
+                parentId: questionParent,
+                content: askInput.question,
+                createdBy: effectiveCoordinatorAgent,
+                urgency: askInput.urgency === "high" ? "blocking" : "normal",
+                metadata: {
+                  question_id: questionId,
+                  what_i_need: askInput.what_i_need,
+                  decision_unlocked: askInput.decision_unlocked,
+                  answer_format: askInput.answer_format ?? "text",
+                  choices: askInput.choices ?? null,
+                },
+              }).catch((err: unknown) => logger.warn("GTD question item creation failed", { error: err instanceof Error ? err.message : String(err) }));
+            } catch (err) { logger.warn("GTD question import failed", { error: err instanceof Error ? err.message : String(err) }); }
+          }
 
-    if (shouldBreak) break;
+          // Add the assistant message with the ask_user tool_use to context before saving
+          // (it was already added above via addAssistantMessage)
+          // Save the full conversation state for resume
+          const pausedState: CoordinatorPausedState = {
+            messages: ctx.getMessages() as unknown[],
+            systemPrompt: fullSystemPrompt,
+            toolUseId: tool.id as string,
+            question: askInput.question,
+            foundation,
+            model: effectiveModel,
+            agentRoster: effectiveRoster,
+            envelopes: [...envelopes],
+            totalTokensIn,
+            totalTokensOut,
+            iteration: loopIterations,
+            orchestrationParentId,       // ELLIE-1152: Preserve GTD tree across resume
+            lastDispatchChildId,         // ELLIE-1152: Preserve for question parenting
+            questionMetadata: {          // ELLIE-1276: Metadata for formatted question display
+              question_id: questionId,
+              what_i_need: askInput.what_i_need ?? "",
+              decision_unlocked: askInput.decision_unlocked ?? "",
+              answer_format: askInput.answer_format,
+              choices: askInput.choices,
+              agentName: "ellie",
+            },
+          };
 
-    // ELLIE-1152: Cache GTD module import — avoid repeated dynamic imports in the dispatch loop
-    const gtdModule = await import("./gtd-orchestration.ts").catch((err) => {
-      logger.warn("GTD orchestration module unavailable", { error: err instanceof Error ? err.message : String(err) });
-      return null;
-    });
+          // Return with paused state — the handler will store this
+          const durationMs = Date.now() - startTime;
+          const finalEnvelope = completeEnvelope(coordEnvelope, { tokens_in: totalTokensIn, tokens_out: totalTokensOut, model: effectiveModel });
+          envelopes[0] = finalEnvelope;
 
-    // Run all dispatch_agent calls in parallel
-    if (dispatchCalls.length > 0) {
-      // ELLIE-1152: Create orchestration parent BEFORE entering parallel block to avoid
-      // race condition where multiple parallel dispatches each try to create the parent
-      if (!orchestrationParentId && gtdModule) {
-        try {
-          const parent = await gtdModule.createOrchestrationParent({
-            content: message.slice(0, 200),
-            createdBy: effectiveCoordinatorAgent,
-            sourceRef: workItemId,
-          }).catch(() => null);
-          if (parent) orchestrationParentId = parent.id;
-        } catch (err) {
-          logger.warn("GTD parent creation failed", { error: err instanceof Error ? err.message : String(err) });
+          return {
+            response: askInput.question,
+            loopIterations,
+            envelopes,
+            totalTokensIn,
+            totalTokensOut,
+            totalCostUsd: computeCost(effectiveModel, totalTokensIn, totalTokensOut) + specialistCostUsd,
+            hitSafetyRail: false,
+            durationMs,
+            paused: pausedState,
+          };
+        } else if (tool.name === "dispatch_agent") {
+          dispatchCalls.push(tool);
+        } else {
+          otherCalls.push(tool);
         }
       }
 
-      const dispatchPromises = dispatchCalls.map(async (tool) => {
-        const input = tool.input as unknown as DispatchAgentInput;
-        const toolId = tool.id as string;
-
-        // Validate agent is in roster
-        if (!effectiveRoster.includes(input.agent)) {
-          const errorMsg = `Agent "${input.agent}" is not in the roster. Available: ${effectiveRoster.join(", ")}`;
-          logger.warn("Agent not in roster", { agent: input.agent, roster: effectiveRoster });
-          return { toolId, result: errorMsg };
-        }
-
-        // Create specialist envelope
-        const specEnvelope = createEnvelope({
-          type: "specialist",
-          agent: input.agent,
-          foundation,
-          parent_id: coordEnvelope.id,
-          model: effectiveModel,
-          work_item_id: workItemId,
-        });
+      if (shouldBreak) break;
 
-        // ELLIE-1099: Send spawn_status so dashboard shows agent activity
-        try {
-          await deps.sendEvent({
-            type: "spawn_status",
-            spawnId: specEnvelope.id,
-            agent: input.agent,
-            task: input.task.slice(0, 200),
-            status: "running",
-            ts: Date.now(),
-          });
-        } catch { /* best-effort */ }
+      // ELLIE-1152: Cache GTD module import — avoid repeated dynamic imports in the dispatch loop
+      const gtdModule = await import("./gtd-orchestration.ts").catch((err) => {
+        logger.warn("GTD orchestration module unavailable", { error: err instanceof Error ? err.message : String(err) });
+        return null;
+      });
 
-        // ELLIE-1152: Create GTD child item for dispatch tracking
-        let gtdItem: { id: string } | null = null;
-        if (gtdModule) {
+      // Run all dispatch_agent calls in parallel
+      if (dispatchCalls.length > 0) {
+        // ELLIE-1152: Create orchestration parent BEFORE entering parallel block to avoid
+        // race condition where multiple parallel dispatches each try to create the parent
+        if (!orchestrationParentId && gtdModule) {
           try {
-            // Create child for this dispatch (parent already created above)
-            if (orchestrationParentId) {
-              gtdItem = await gtdModule.createDispatchChild({
-                parentId: orchestrationParentId,
-                content: input.task.slice(0, 200),
-                assignedAgent: input.agent,
-                assignedTo: input.agent,
-                createdBy: effectiveCoordinatorAgent,
-                dispatchEnvelopeId: specEnvelope.id,
-              });
-              // ELLIE-1152: Track last dispatch child for question parenting.
-              // KNOWN LIMITATION: When multiple agents are dispatched in parallel,
-              // lastDispatchChildId is nondeterministic — it will be whichever
-              // Promise resolves last. The correct fix would be a Map<agent, childId>
-              // so questions can be parented to the specific agent's child item.
-              // For now, this is acceptable because ask_user questions reference
-              // the orchestration parent as fallback when the specific child isn't known.
-              if (gtdItem) lastDispatchChildId = gtdItem.id;
-            }
+            const parent = await gtdModule.createOrchestrationParent({
+              content: message.slice(0, 200),
+              createdBy: effectiveCoordinatorAgent,
+              sourceRef: workItemId,
+            }).catch(() => null);
+            if (parent) orchestrationParentId = parent.id;
           } catch (err) {
-            logger.warn("GTD dispatch tracking failed", { error: err instanceof Error ? err.message : String(err) });
+            logger.warn("GTD parent creation failed", { error: err instanceof Error ? err.message : String(err) });
           }
         }
 
-        try {
-          const specResult = await deps.callSpecialist(
-            input.agent,
-            input.task,
-            input.context,
-            input.timeout_ms
-          );
+        const dispatchPromises = dispatchCalls.map(async (tool) => {
+          const input = tool.input as unknown as DispatchAgentInput;
+          const toolId = tool.id as string;
 
-          // Aggregate specialist cost into session total
-          specialistCostUsd += specResult.cost_usd;
-
-          const completed = completeEnvelope(specEnvelope, {
-            tokens_in: specResult.tokens_used,
-            tokens_out: 0,
-          });
-          // Override envelope cost with actual CLI-reported cost when available
-          if (specResult.cost_usd > 0) {
-            completed.cost_usd = specResult.cost_usd;
+          // Validate agent is in roster
+          if (!effectiveRoster.includes(input.agent)) {
+            const errorMsg = `Agent "${input.agent}" is not in the roster. Available: ${effectiveRoster.join(", ")}`;
+            logger.warn("Agent not in roster", { agent: input.agent, roster: effectiveRoster });
+            return { toolId, result: errorMsg };
           }
-          envelopes.push(completed);
-          try { await deps.logEnvelope(completed); } catch { /* best-effort */ }
 
-          // ELLIE-1152: Update GTD item with specialist result
-          if (gtdItem && gtdModule) {
-            try {
-              const gtdStatus = specResult.status === "completed" ? "done" : "failed";
-              await gtdModule.updateItemStatus(gtdItem.id, gtdStatus, { output_preview: specResult.output?.slice(0, 500) });
-            } catch (err) {
-              logger.warn("GTD status update failed", { itemId: gtdItem.id, error: err instanceof Error ? err.message : String(err) });
-            }
-          }
+          // Create specialist envelope
+          const specEnvelope = createEnvelope({
+            type: "specialist",
+            agent: input.agent,
+            foundation,
+            parent_id: coordEnvelope.id,
+            model: effectiveModel,
+            work_item_id: workItemId,
+          });
 
-          // ELLIE-1099: Send spawn_announcement so dashboard shows completion
+          // ELLIE-1099: Send spawn_status so dashboard shows agent activity
           try {
             await deps.sendEvent({
-              type: "spawn_announcement",
+              type: "spawn_status",
               spawnId: specEnvelope.id,
               agent: input.agent,
-              status: specResult.status === "error" ? "failed" : "completed",
-              durationSec: Math.round(specResult.duration_ms / 1000),
-              costCents: Math.round(completed.cost_usd * 100),
-              resultPreview: specResult.status === "error"
-                ? (specResult.error || "Unknown error")
-                : specResult.output.slice(0, 300),
-              error: specResult.error || null,
+              task: input.task.slice(0, 200),
+              status: "running",
               ts: Date.now(),
             });
           } catch { /* best-effort */ }
 
-          if (specResult.status === "error") {
+          // ELLIE-1152: Create GTD child item for dispatch tracking
+          let gtdItem: { id: string } | null = null;
+          if (gtdModule) {
+            try {
+              // Create child for this dispatch (parent already created above)
+              if (orchestrationParentId) {
+                gtdItem = await gtdModule.createDispatchChild({
+                  parentId: orchestrationParentId,
+                  content: input.task.slice(0, 200),
+                  assignedAgent: input.agent,
+                  assignedTo: input.agent,
+                  createdBy: effectiveCoordinatorAgent,
+                  dispatchEnvelopeId: specEnvelope.id,
+                });
+                // ELLIE-1152: Track last dispatch child for question parenting.
+                // KNOWN LIMITATION: When multiple agents are dispatched in parallel,
+                // lastDispatchChildId is nondeterministic — it will be whichever
+                // Promise resolves last. The correct fix would be a Map<agent, childId>
+                // so questions can be parented to the specific agent's child item.
+                // For now, this is acceptable because ask_user questions reference
+                // the orchestration parent as fallback when the specific child isn't known.
+                if (gtdItem) lastDispatchChildId = gtdItem.id;
+              }
+            } catch (err) {
+              logger.warn("GTD dispatch tracking failed", { error: err instanceof Error ? err.message : String(err) });
+            }
+          }
+
+          try {
+            const specResult = await withSpan("coordinator.dispatch", async (span) => {
+              const result = await deps.callSpecialist(
+                input.agent,
+                input.task,
+                input.context,
+                input.timeout_ms
+              );
+              span.setAttribute("tokens_used", result.tokens_used);
+              if (result.status === "error") span.end(result.error ?? "specialist error");
+              return result;
+            }, { parent: parentSpan, attributes: { agent: input.agent } });
+
+            // Aggregate specialist cost into session total
+            specialistCostUsd += specResult.cost_usd;
+
+            const completed = completeEnvelope(specEnvelope, {
+              tokens_in: specResult.tokens_used,
+              tokens_out: 0,
+            });
+            // Override envelope cost with actual CLI-reported cost when available
+            if (specResult.cost_usd > 0) {
+              completed.cost_usd = specResult.cost_usd;
+            }
+            envelopes.push(completed);
+            try { await deps.logEnvelope(completed); } catch { /* best-effort */ }
+
+            // ELLIE-1152: Update GTD item with specialist result
+            if (gtdItem && gtdModule) {
+              try {
+                const gtdStatus = specResult.status === "completed" ? "done" : "failed";
+                await gtdModule.updateItemStatus(gtdItem.id, gtdStatus, { output_preview: specResult.output?.slice(0, 500) });
+              } catch (err) {
+                logger.warn("GTD status update failed", { itemId: gtdItem.id, error: err instanceof Error ? err.message : String(err) });
+              }
+            }
+
+            // ELLIE-1099: Send spawn_announcement so dashboard shows completion
+            try {
+              await deps.sendEvent({
+                type: "spawn_announcement",
+                spawnId: specEnvelope.id,
+                agent: input.agent,
+                status: specResult.status === "error" ? "failed" : "completed",
+                durationSec: Math.round(specResult.duration_ms / 1000),
+                costCents: Math.round(completed.cost_usd * 100),
+                resultPreview: specResult.status === "error"
+                  ? (specResult.error || "Unknown error")
+                  : specResult.output.slice(0, 300),
+                error: specResult.error || null,
+                ts: Date.now(),
+              });
+            } catch { /* best-effort */ }
+
+            if (specResult.status === "error") {
+              return {
+                toolId,
+                result: JSON.stringify({
+                  status: "error",
+                  agent: input.agent,
+                  error: specResult.error || "Unknown specialist error",
+                }),
+              };
+            }
+
+            return {
+              toolId,
+              result: JSON.stringify({
+                status: "completed",
+                agent: input.agent,
+                output: specResult.output,
+              }),
+            };
+          } catch (err) {
+            const failed = failEnvelope(specEnvelope, err instanceof Error ? err.message : String(err));
+            envelopes.push(failed);
+            try { await deps.logEnvelope(failed); } catch { /* best-effort */ }
+
             return {
               toolId,
               result: JSON.stringify({
                 status: "error",
                 agent: input.agent,
-                error: specResult.error || "Unknown specialist error",
+                error: err instanceof Error ? err.message : String(err),
               }),
             };
           }
+        });
 
-          return {
-            toolId,
-            result: JSON.stringify({
-              status: "completed",
-              agent: input.agent,
-              output: specResult.output,
-            }),
-          };
-        } catch (err) {
-          const failed = failEnvelope(specEnvelope, err instanceof Error ? err.message : String(err));
-          envelopes.push(failed);
-          try { await deps.logEnvelope(failed); } catch { /* best-effort */ }
-
-          return {
-            toolId,
-            result: JSON.stringify({
-              status: "error",
-              agent: input.agent,
-              error: err instanceof Error ? err.message : String(err),
-            }),
-          };
+        const dispatchResults = await Promise.all(dispatchPromises);
+        for (const { toolId, result } of dispatchResults) {
+          ctx.addToolResult(toolId, result ?? "No output returned.");
         }
-      });
-
-      const dispatchResults = await Promise.all(dispatchPromises);
-      for (const { toolId, result } of dispatchResults) {
-        ctx.addToolResult(toolId, result ?? "No output returned.");
       }
-    }
 
-    // Run other tools sequentially
-    for (const tool of otherCalls) {
-      const toolId = tool.id as string;
-      const toolName = tool.name as string;
+      // Run other tools sequentially
+      for (const tool of otherCalls) {
+        const toolId = tool.id as string;
+        const toolName = tool.name as string;
 
-      try {
-        const result = await handleTool(toolName, tool.input as Record<string, unknown>, channel, deps, opts.registry);
-        ctx.addToolResult(toolId, result ?? "OK");
-      } catch (err) {
-        ctx.addToolResult(toolId, JSON.stringify({
-          status: "error",
-          error: err instanceof Error ? err.message : String(err),
-        }));
+        try {
+          const result = await handleTool(toolName, tool.input as Record<string, unknown>, channel, deps, opts.registry);
+          ctx.addToolResult(toolId, result ?? "OK");
+        } catch (err) {
+          ctx.addToolResult(toolId, JSON.stringify({
+            status: "error",
+            error: err instanceof Error ? err.message : String(err),
+          }));
+        }
       }
-    }
 
-    // 4g. Check context pressure — compact if needed
-    const pressure = ctx.getPressure();
-    if (pressure === "critical") {
-      const summary = await deps.getWorkingMemorySummary();
-      ctx.rebuildFromSummary(summary);
-      logger.warn("Context rebuilt from working memory", { iteration });
-
-      // ELLIE-1273: Recover dispatch state from GTD after compaction via gtd-recovery module
-      void rebuildDispatchStateFromGTD(
-        channel,
-        orchestrationParentId,
-        deps.updateWorkingMemory,
-      );
-    } else if (pressure === "hot" || pressure === "warm") {
-      ctx.compact(pressure);
-      logger.info("Context compacted", { pressure, iteration });
+      // 4g. Check context pressure — compact if needed
+      const pressure = ctx.getPressure();
+      if (pressure === "critical") {
+        const summary = await deps.getWorkingMemorySummary();
+        ctx.rebuildFromSummary(summary);
+        logger.warn("Context rebuilt from working memory", { iteration });
+
+        // ELLIE-1273: Recover dispatch state from GTD after compaction via gtd-recovery module
+        void rebuildDispatchStateFromGTD(
+          channel,
+          orchestrationParentId,
+          deps.updateWorkingMemory,
+        );
+      } else if (pressure === "hot" || pressure === "warm") {
+        ctx.compact(pressure);
+        logger.info("Context compacted", { pressure, iteration });
+      }
     }
-  }
 
-  // If we hit maxIterations without breaking
-  if (!response && loopIterations >= effectiveMaxIterations) {
-    hitSafetyRail = true;
-    response = "I've reached the maximum number of iterations for this request. Here's where things stand — please send a follow-up to continue.";
+    // If we hit maxIterations without breaking
+    if (!response && loopIterations >= effectiveMaxIterations) {
+      hitSafetyRail = true;
+      response = "I've reached the maximum number of iterations for this request. Here's where things stand — please send a follow-up to continue.";
+    }
+  } catch (err) {
+    loopFailure = err;
+    throw err;
+  } finally {
+    // Spans close even when the loop throws, so the trace does not stay open
+    iterationSpan?.end(loopFailure);
+    loopSpan.setAttributes({ iterations: loopIterations, hit_safety_rail: hitSafetyRail });
+    loopSpan.end(loopFailure);
   }
 
   // Finalize coordinator envelope
@@ -828,6 +865,68 @@ async function callMessagesAPI(
   });
 }
 
+/**
+ * One coordinator turn down the registry's "coordinator" chain without
+ * Anthropic. The transcript and tools are translated to the registry's chat
+ * shape and the reply back into Messages API content blocks.
+ */
+async function callCoordinatorFallback(opts: {
+  systemPrompt: string;
+  messages: Anthropic.MessageParam[];
+}): Promise<{
+  stop_reason: string;
+  content: Array<Record<string, unknown>>;
+  usage: { input_tokens: number; output_tokens: number };
+}> {
+  const reply = await chat("coordinator", {
+    system: opts.systemPrompt,
+    messages: opts.messages.flatMap(toChatMessages),
+    tools: COORDINATOR_TOOL_DEFINITIONS.map(t => ({
+      name: t.name,
+      description: t.description ?? "",
+      input_schema: t.input_schema as Record<string, unknown>,
+    })),
+    max_tokens: 4096,
+  }, { exclude: ["anthropic"] });
+
+  return {
+    stop_reason: reply.stop_reason === "end" ? "end_turn" : reply.stop_reason,
+    content: [
+      ...(reply.text ? [{ type: "text", text: reply.text }] : []),
+      ...reply.tool_calls.map(c => ({ type: "tool_use", id: c.id, name: c.name, input: c.input })),
+    ],
+    usage: reply.usage ?? { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+/** A Messages API turn as registry chat messages — tool results become tool messages. */
+function toChatMessages(message: Anthropic.MessageParam): ChatMessage[] {
+  if (typeof message.content === "string") return [{ role: message.role, content: message.content }];
+
+  const text = message.content
+    .filter((b): b is Anthropic.TextBlockParam => b.type === "text")
+    .map(b => b.text)
+    .join("\n");
+
+  if (message.role === "assistant") {
+    const toolCalls = message.content
+      .filter((b): b is Anthropic.ToolUseBlockParam => b.type === "tool_use")
+      .map(b => ({ id: b.id, name: b.name, input: b.input as Record<string, unknown> }));
+    return [{ role: "assistant", content: text, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) }];
+  }
+
+  const results: ChatMessage[] = message.content
+    .filter((b): b is Anthropic.ToolResultBlockParam => b.type === "tool_result")
+    .map(b => ({
+      role: "tool",
+      tool_call_id: b.tool_use_id,
+      content: typeof b.content === "string"
+        ? b.content
+        : (b.content ?? []).map(c => (c.type === "text" ? c.text : "")).join("\n"),
+    }));
+  return text ? [...results, { role: "user", content: text }] : results;
+}
+
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
 function extractText(content: Array<Record<string, unknown>>): string {
@@ -4,13 +4,16 @@
  * Handles reliable message delivery with:
  * - Retry logic with exponential backoff
  * - Delivery status tracking (updates message metadata in Supabase)
- * - Channel fallback (Google Chat → Telegram)
+ * - Channel fallback (Google Chat or any adapter channel → Telegram, Telegram → Google Chat)
  * - Pending response awareness (nudges if no reply)
  */
 
 import { SupabaseClient } from "@supabase/supabase-js";
 import { sendGoogleChatMessage, type GchatSendResult } from "./google-chat.ts";
 import { log } from "./logger.ts";
+import { withSpan } from "./trace.ts";
+import type { OutboundTarget } from "./channels/adapter.ts";
+import { getChannelAdapter } from "./channels/registry.ts";
 
 const logger = log.child("delivery");
 
@@ -28,8 +31,10 @@ export interface DeliveryResult {
 }
 
 export interface DeliveryOptions {
-  /** Primary channel to deliver on */
-  channel: "google-chat" | "telegram";
+  /** Primary channel to deliver on: google-chat, telegram, or a registered channel adapter id */
+  channel: "google-chat" | "telegram" | (string & {});
+  /** Where to post on an adapter channel */
+  target?: OutboundTarget;
   /** Supabase message ID (for updating delivery status) */
   messageId?: string;
   /** Google Chat space name */
@@ -135,6 +140,22 @@ export async function deliverMessage(
   supabase: SupabaseClient | null,
   text: string,
   options: DeliveryOptions,
+): Promise<DeliveryResult> {
+  return withSpan("channel.deliver", async (span) => {
+    const delivery = await deliverWithRetry(supabase, text, options);
+    span.setAttributes({ status: delivery.status, delivered_via: delivery.channel, attempts: delivery.attempts });
+    if (delivery.status === "failed") span.end(delivery.error ?? "delivery failed");
+    return delivery;
+  }, {
+    kind: "client",
+    attributes: { channel: options.channel, message_id: options.messageId, chars: text.length },
+  });
+}
+
+async function deliverWithRetry(
+  supabase: SupabaseClient | null,
+  text: string,
+  options: DeliveryOptions,
 ): Promise<DeliveryResult> {
   const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
 
@@ -184,6 +205,30 @@ export async function deliverMessage(
       return delivery;
     }
 
+    const adapter = getChannelAdapter(options.channel);
+    if (adapter?.send) {
+      const { result, attempts } = await retry(
+        async () => {
+          if (!options.target) throw new Error(`No ${adapter.displayName} target given`);
+          return adapter.send!(options.target, { text: adapter.format(text) });
+        },
+        maxRetries,
+        `${adapter.id}→${options.target?.conversationId}`,
+      );
+
+      const delivery: DeliveryResult = {
+        status: "sent",
+        channel: adapter.id,
+        externalId: result.messageIds[0],
+        threadName: result.threadId ?? undefined,
+        attempts,
+      };
+
+      await updateDeliveryStatus(supabase, options.messageId, delivery);
+      trackPendingResponse(options.messageId, options.channel);
+      return delivery;
+    }
+
     throw new Error(`Unknown channel: ${options.channel}`);
   } catch (primaryErr) {
     const errMsg = primaryErr instanceof Error ? primaryErr.message : String(primaryErr);
@@ -213,12 +258,13 @@ async function attemptFallback(
   primaryError: string,
 ): Promise<DeliveryResult> {
   // Determine fallback channel
-  const fallbackChannel = options.channel === "google-chat" ? "telegram" : "google-chat";
+  const fallbackChannel = options.channel === "telegram" ? "google-chat" : "telegram";
+  const primaryName = options.channel === "google-chat" ? "Google Chat" : getChannelAdapter(options.channel)?.displayName ?? options.channel;
   logger.info("Attempting fallback", { from: options.channel, to: fallbackChannel });
 
   try {
     if (fallbackChannel === "telegram" && options.telegramBot && options.telegramChatId) {
-      const prefix = `[Sent via Telegram — Google Chat delivery failed]\n\n`;
+      const prefix = `[Sent via Telegram — ${primaryName} delivery failed]\n\n`;
       const sent = await options.telegramBot.api.sendMessage(
         options.telegramChatId,
         prefix + text,
@@ -114,3 +114,32 @@ export function failEnvelope(env: DispatchEnvelope, error: string): DispatchEnve
   logger.debug("envelope failed", { id: env.id, error });
   return failed;
 }
+
+// ── Queued dispatch envelopes ────────────────────────────────
+
+export type DispatchPriority = "urgent" | "high" | "normal" | "low";
+
+export const DISPATCH_PRIORITIES: readonly DispatchPriority[] = ["urgent", "high", "normal", "low"];
+
+/**
+ * Serializable form of a dispatch waiting in dispatch-queue.ts. Everything
+ * needed to re-fire it after a restart lives in `kind` + `payload`; the
+ * live closure is rebuilt from the handler registered for `kind`.
+ */
+export interface QueuedDispatchEnvelope {
+  id: string;
+  /** Rehydration handler, e.g. "tracked-dispatch" or "playbook-send". */
+  kind: string;
+  agent_type: string;
+  work_item_id: string;
+  channel: string;
+  message: string | null;
+  priority: DispatchPriority;
+  /** "lock": waits for its own work item; "capacity": waits for any free dispatch slot. */
+  reason: "lock" | "capacity";
+  enqueued_at: string;
+  /** Ordering timestamp — enqueued_at unless the item was manually reordered. */
+  sort_at: string;
+  expires_at: string | null;
+  payload: Record<string, unknown>;
+}
@@ -0,0 +1,65 @@
+/**
+ * Dispatch queue rehydration — boot-time restore of persisted queued work.
+ *
+ * dispatch-queue.ts persists serializable envelopes but cannot rebuild the
+ * live closures itself: those need the bot, Supabase client and Claude
+ * wiring that only exist once relay deps are set. This module maps each
+ * envelope kind back onto the function that originally queued it, then
+ * drains the restored work items (no run is active to trigger the drain).
+ *
+ * Runs from the relay's "dispatch-queue" startup phase (after dep-wiring).
+ */
+
+import { log } from "./logger.ts";
+import { rehydrateQueue, drainNext, type RehydrateHandler } from "./dispatch-queue.ts";
+import { executeTrackedDispatch, type QueuedTrackedDispatchPayload } from "./orchestration-dispatch.ts";
+import { executePlaybookCommands, type PlaybookCommand, type PlaybookContext } from "./playbook.ts";
+import { getRelayDeps, getNotifyCtx } from "./relay-state.ts";
+import { ALLOWED_USER_ID, GCHAT_SPACE_NOTIFY } from "./relay-config.ts";
+import { callClaude } from "./claude-cli.ts";
+import { buildPrompt } from "./prompt-builder.ts";
+
+const logger = log.child("dispatch-queue");
+
+function playbookContext(channel: string): PlaybookContext {
+  const { bot, supabase } = getRelayDeps();
+  return {
+    bot,
+    supabase,
+    telegramUserId: ALLOWED_USER_ID,
+    gchatSpaceName: GCHAT_SPACE_NOTIFY,
+    channel,
+    callClaudeFn: callClaude,
+    buildPromptFn: buildPrompt,
+  };
+}
+
+const handlers: Record<string, RehydrateHandler> = {
+  "tracked-dispatch": (env) => {
+    const payload = env.payload as unknown as QueuedTrackedDispatchPayload;
+    executeTrackedDispatch({
+      agentType: payload.agentType,
+      workItemId: payload.workItemId,
+      channel: payload.channel,
+      message: payload.message,
+      sandbox: payload.sandbox,
+      priority: payload.priority,
+      queueTtlMs: payload.queueTtlMs,
+      queuedAt: Date.parse(env.enqueued_at),
+      playbookCtx: playbookContext(payload.playbookChannel),
+    });
+  },
+  "playbook-send": (env) => {
+    const { cmd, channel } = env.payload as { cmd: PlaybookCommand; channel: string };
+    executePlaybookCommands([cmd], playbookContext(channel)).catch(err => {
+      logger.error("Rehydrated playbook send failed", { queueId: env.id.slice(0, 8) }, err);
+    });
+  },
+};
+
+/** Restore persisted queued dispatches and start draining them. */
+export async function restoreDispatchQueue(): Promise<{ restored: number; dropped: number }> {
+  const { restored, dropped, workItemIds } = await rehydrateQueue(handlers, getNotifyCtx());
+  for (const workItemId of workItemIds) drainNext(workItemId);
+  return { restored, dropped };
+}
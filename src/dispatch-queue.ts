@@ -1,24 +1,39 @@
 /**
  * Dispatch Queue — ELLIE-396
  *
- * Per-agent FIFO queue for sequential task execution.
- * When an agent is busy (dispatch lock blocks), the new dispatch
- * is enqueued instead of rejected. Queued items execute in order
- * when the current run completes.
+ * Per-work-item queue for dispatches that can't start yet.
+ * When an agent is busy (dispatch lock blocks) or the concurrency cap is
+ * reached, the new dispatch is enqueued instead of rejected. Queued items
+ * execute when a run completes — highest priority first, oldest first
+ * within a priority.
  *
  * Queue lifecycle:
- *   1. Dispatch blocked by lock → enqueue()
+ *   1. Dispatch blocked by lock or capacity → enqueue()
  *   2. Current run ends → drainNext() fires
  *   3. Next queued item dispatches (or queue empties)
- *   4. User can inspect or cancel queued items
+ *   4. User can inspect, reorder or cancel queued items
+ *
+ * Items that carry a `kind` are written through to the Forest
+ * dispatch_queue table as QueuedDispatchEnvelopes and rehydrated at boot
+ * (rehydrateQueue), so a relay restart no longer loses queued work.
+ * Items expire after DEFAULT_QUEUE_TTL_MS unless given their own expiry.
  */
 
 import { log } from "./logger.ts";
 import { emitEvent } from "./orchestration-ledger.ts";
-import { notify, type NotifyContext } from "./notification-policy.ts";
+import type { NotifyContext } from "./notification-policy.ts";
+import type { DispatchPriority, QueuedDispatchEnvelope } from "./dispatch-envelope.ts";
 
 const logger = log.child("dispatch-queue");
 
+/** Queued work older than this is dropped rather than run stale. */
+export const DEFAULT_QUEUE_TTL_MS = 24 * 60 * 60_000;
+
+/** Each this-long wait raises a non-urgent item one priority level (never past "high"). */
+export const AGE_PROMOTION_MS = 30 * 60_000;
+
+const PRIORITY_RANK: Record<DispatchPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
 // ── Types ────────────────────────────────────────────────────
 
 export interface QueuedDispatch {
@@ -32,6 +47,24 @@ export interface QueuedDispatch {
   execute: () => void;
   /** Notification context for user alerts. */
   notifyCtx: NotifyContext;
+  /** Default "normal". */
+  priority?: DispatchPriority;
+  /** Default "lock" — waits for its own work item's run to end. */
+  reason?: "lock" | "capacity";
+  /** Epoch ms; default enqueuedAt + DEFAULT_QUEUE_TTL_MS, null = never. */
+  expiresAt?: number | null;
+  /** Rehydration handler name. Items without one are not persisted. */
+  kind?: string;
+  /** Serializable inputs for the `kind` handler. */
+  payload?: Record<string, unknown>;
+}
+
+/** A queued item with its defaults applied. */
+interface QueueEntry extends QueuedDispatch {
+  priority: DispatchPriority;
+  reason: "lock" | "capacity";
+  expiresAt: number | null;
+  sortAt: number;
 }
 
 export interface QueueStatus {
@@ -46,13 +79,140 @@ export interface QueueStatus {
     workItemId: string;
     enqueuedAt: number;
     position: number;
+    priority: DispatchPriority;
+    reason: "lock" | "capacity";
+    expiresAt: number | null;
   }>;
 }
 
+/** Persistence for queued envelopes. The default writes to Forest. */
+export interface QueueStore {
+  save(envelope: QueuedDispatchEnvelope): Promise<void>;
+  remove(id: string): Promise<void>;
+  loadAll(): Promise<QueuedDispatchEnvelope[]>;
+}
+
+/** Re-fires a rehydrated envelope. Registered per `kind` by the relay. */
+export type RehydrateHandler = (envelope: QueuedDispatchEnvelope) => void;
+
 // ── In-memory queue state ────────────────────────────────────
 
 /** Per work-item queues. Key = workItemId. */
-const queues = new Map<string, QueuedDispatch[]>();
+const queues = new Map<string, QueueEntry[]>();
+
+// ── Persistence ──────────────────────────────────────────────
+
+// Lazy-load Forest DB to avoid circular deps at import time
+let _sql: ReturnType<typeof import("postgres").default> | null = null;
+
+async function getSql() {
+  if (!_sql) {
+    const mod = await import("../../ellie-forest/src/db");
+    _sql = mod.default;
+  }
+  return _sql;
+}
+
+const forestStore: QueueStore = {
+  async save(e) {
+    const sql = await getSql();
+    await sql`
+      INSERT INTO dispatch_queue (id, kind, agent_type, work_item_id, channel, message, priority, reason,
+                                  enqueued_at, sort_at, expires_at, payload)
+      VALUES (${e.id}, ${e.kind}, ${e.agent_type}, ${e.work_item_id}, ${e.channel}, ${e.message},
+              ${e.priority}, ${e.reason}, ${e.enqueued_at}, ${e.sort_at}, ${e.expires_at}, ${JSON.stringify(e.payload)})
+      ON CONFLICT (id) DO UPDATE SET
+        priority = EXCLUDED.priority,
+        sort_at = EXCLUDED.sort_at,
+        expires_at = EXCLUDED.expires_at
+    `;
+  },
+  async remove(id) {
+    const sql = await getSql();
+    await sql`DELETE FROM dispatch_queue WHERE id = ${id}`;
+  },
+  async loadAll() {
+    const sql = await getSql();
+    const rows = await sql`SELECT * FROM dispatch_queue ORDER BY sort_at`;
+    return rows.map((r: Record<string, unknown>) => ({
+      ...r,
+      enqueued_at: new Date(r.enqueued_at as string).toISOString(),
+      sort_at: new Date(r.sort_at as string).toISOString(),
+      expires_at: r.expires_at ? new Date(r.expires_at as string).toISOString() : null,
+    })) as QueuedDispatchEnvelope[];
+  },
+};
+
+let store: QueueStore | null = forestStore;
+
+/** Swap the persistence backend (tests use an in-memory store; null disables persistence). */
+export function setQueueStore(next: QueueStore | null): void {
+  store = next;
+}
+
+/** Fire-and-forget write — a store outage must never block dispatching. */
+function persist(op: "save" | "remove", entry: QueueEntry): void {
+  if (!store || !entry.kind) return;
+  const write = op === "save" ? store.save(toEnvelope(entry)) : store.remove(entry.id);
+  write.catch(err => {
+    logger.warn(`Dispatch queue ${op} failed (queue stays in memory)`, {
+      queueId: entry.id.slice(0, 8),
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+}
+
+export function toEnvelope(entry: QueuedDispatch & { sortAt?: number }): QueuedDispatchEnvelope {
+  const expiresAt = entry.expiresAt === undefined ? entry.enqueuedAt + DEFAULT_QUEUE_TTL_MS : entry.expiresAt;
+  return {
+    id: entry.id,
+    kind: entry.kind ?? "",
+    agent_type: entry.agentType,
+    work_item_id: entry.workItemId,
+    channel: entry.channel,
+    message: entry.message ?? null,
+    priority: entry.priority ?? "normal",
+    reason: entry.reason ?? "lock",
+    enqueued_at: new Date(entry.enqueuedAt).toISOString(),
+    sort_at: new Date(entry.sortAt ?? entry.enqueuedAt).toISOString(),
+    expires_at: expiresAt === null ? null : new Date(expiresAt).toISOString(),
+    payload: entry.payload ?? {},
+  };
+}
+
+// ── Ordering ─────────────────────────────────────────────────
+
+function effectiveRank(entry: QueueEntry, now: number): number {
+  const rank = PRIORITY_RANK[entry.priority];
+  if (entry.priority === "urgent") return rank;
+  const promoted = rank - Math.floor(Math.max(0, now - entry.sortAt) / AGE_PROMOTION_MS);
+  return Math.max(PRIORITY_RANK.high, promoted);
+}
+
+function compareEntries(a: QueueEntry, b: QueueEntry, now: number): number {
+  return effectiveRank(a, now) - effectiveRank(b, now) || a.sortAt - b.sortAt;
+}
+
+/** A work item's queue in drain order. */
+function ordered(workItemId: string, now: number): QueueEntry[] {
+  return [...(queues.get(workItemId) ?? [])].sort((a, b) => compareEntries(a, b, now));
+}
+
+function removeEntry(entry: QueueEntry): void {
+  const q = queues.get(entry.workItemId);
+  if (!q) return;
+  const idx = q.indexOf(entry);
+  if (idx >= 0) q.splice(idx, 1);
+  if (q.length === 0) queues.delete(entry.workItemId);
+}
+
+function findEntry(queueId: string): QueueEntry | null {
+  for (const q of queues.values()) {
+    const entry = q.find(item => item.id === queueId);
+    if (entry) return entry;
+  }
+  return null;
+}
 
 // ── Enqueue ──────────────────────────────────────────────────
 
@@ -60,20 +220,30 @@ const queues = new Map<string, QueuedDispatch[]>();
  * Add a dispatch to the queue for a work item.
  * Returns the queue ID and position.
  */
-export function enqueue(item: QueuedDispatch): { queueId: string; position: number } {
+export function enqueue(item: QueuedDispatch, now = Date.now()): { queueId: string; position: number } {
   const { workItemId } = item;
+  const entry: QueueEntry = {
+    ...item,
+    priority: item.priority ?? "normal",
+    reason: item.reason ?? "lock",
+    expiresAt: item.expiresAt === undefined ? item.enqueuedAt + DEFAULT_QUEUE_TTL_MS : item.expiresAt,
+    sortAt: item.enqueuedAt,
+  };
+
   let q = queues.get(workItemId);
   if (!q) {
     q = [];
     queues.set(workItemId, q);
   }
-  q.push(item);
-  const position = q.length;
+  q.push(entry);
+  persist("save", entry);
+  const position = ordered(workItemId, now).indexOf(entry) + 1;
 
   logger.info("Dispatch queued", {
     queueId: item.id.slice(0, 8),
     agentType: item.agentType,
     workItemId,
+    priority: entry.priority,
     position,
   });
 
@@ -83,24 +253,34 @@ export function enqueue(item: QueuedDispatch): { queueId: string; position: numb
 // ── Drain ────────────────────────────────────────────────────
 
 /**
- * Called when a run ends for a work item.
- * Dequeues and executes the next pending dispatch, if any.
+ * Called when a run ends for a work item. Dequeues and executes the best
+ * candidate from this work item's own queue, by priority then age. Only
+ * when that queue is empty does the freed slot go to capacity-blocked
+ * items elsewhere — otherwise a busy relay could keep lock-queued items
+ * waiting behind other work until they expire. Expired items are dropped
+ * first.
  */
-export function drainNext(workItemId: string): void {
-  const q = queues.get(workItemId);
-  if (!q || q.length === 0) {
+export function drainNext(workItemId: string, now = Date.now()): void {
+  expireQueued(now);
+
+  const next = ordered(workItemId, now)[0]
+    ?? [...queues.values()].flat()
+      .filter(e => e.reason === "capacity")
+      .sort((a, b) => compareEntries(a, b, now))[0];
+  if (!next) {
     queues.delete(workItemId);
     return;
   }
 
-  const next = q.shift()!;
-  if (q.length === 0) queues.delete(workItemId);
+  removeEntry(next);
+  persist("remove", next);
 
   logger.info("Draining queued dispatch", {
     queueId: next.id.slice(0, 8),
     agentType: next.agentType,
-    workItemId,
-    remaining: q.length,
+    workItemId: next.workItemId,
+    priority: next.priority,
+    remaining: getQueueDepth(next.workItemId),
   });
 
   // Fire the dispatch asynchronously
@@ -109,11 +289,82 @@ export function drainNext(workItemId: string): void {
   } catch (err) {
     logger.error("Queued dispatch execute failed", {
       queueId: next.id.slice(0, 8),
-      workItemId,
+      workItemId: next.workItemId,
     }, err);
   }
 }
 
+// ── Expiry ───────────────────────────────────────────────────
+
+/**
+ * Drop queued items past their expiry. Returns how many were removed.
+ * Runs on every drain and from a periodic sweep.
+ */
+export function expireQueued(now = Date.now()): number {
+  const expired = [...queues.values()].flat().filter(e => e.expiresAt !== null && e.expiresAt <= now);
+  for (const entry of expired) {
+    removeEntry(entry);
+    persist("remove", entry);
+    emitEvent(entry.id, "timeout", entry.agentType, entry.workItemId, {
+      reason: "queue_expired",
+      queued_ms: now - entry.enqueuedAt,
+    });
+  }
+  if (expired.length > 0) {
+    logger.warn("Expired queued dispatches", { count: expired.length });
+  }
+  return expired.length;
+}
+
+// ── Reorder ──────────────────────────────────────────────────
+
+/**
+ * Change a queued item's priority and/or move it to a 1-based position in
+ * its work item's queue. Moving takes the priority and age of the item
+ * currently at that position, so it stays put as both age.
+ * Returns the item's new position, or null if not found.
+ */
+export function reorderQueued(
+  queueId: string,
+  opts: { priority?: DispatchPriority; position?: number },
+  now = Date.now(),
+): { position: number; priority: DispatchPriority } | null {
+  const entry = findEntry(queueId);
+  if (!entry) return null;
+
+  if (opts.priority) {
+    entry.priority = opts.priority;
+  }
+
+  if (opts.position !== undefined) {
+    const others = ordered(entry.workItemId, now).filter(e => e !== entry);
+    const target = Math.max(1, Math.floor(opts.position));
+    if (others.length > 0) {
+      if (target <= others.length) {
+        const anchor = others[target - 1];
+        entry.priority = anchor.priority;
+        entry.sortAt = anchor.sortAt - 1;
+      } else {
+        const last = others[others.length - 1];
+        entry.priority = last.priority;
+        entry.sortAt = last.sortAt + 1;
+      }
+    }
+  }
+
+  persist("save", entry);
+  const position = ordered(entry.workItemId, now).indexOf(entry) + 1;
+
+  logger.info("Queued dispatch reordered", {
+    queueId: queueId.slice(0, 8),
+    workItemId: entry.workItemId,
+    priority: entry.priority,
+    position,
+  });
+
+  return { position, priority: entry.priority };
+}
+
 // ── Cancel ───────────────────────────────────────────────────
 
 /**
@@ -121,26 +372,23 @@ export function drainNext(workItemId: string): void {
  * Returns true if found and removed.
  */
 export function cancelQueued(queueId: string): boolean {
-  for (const [workItemId, q] of queues) {
-    const idx = q.findIndex(item => item.id === queueId);
-    if (idx >= 0) {
-      const removed = q.splice(idx, 1)[0];
-      if (q.length === 0) queues.delete(workItemId);
-
-      logger.info("Queued dispatch cancelled", {
-        queueId: queueId.slice(0, 8),
-        agentType: removed.agentType,
-        workItemId: removed.workItemId,
-      });
+  const removed = findEntry(queueId);
+  if (!removed) return false;
 
-      emitEvent(queueId, "cancelled", removed.agentType, removed.workItemId, {
-        reason: "user_cancel_queued",
-      });
+  removeEntry(removed);
+  persist("remove", removed);
 
-      return true;
-    }
-  }
-  return false;
+  logger.info("Queued dispatch cancelled", {
+    queueId: queueId.slice(0, 8),
+    agentType: removed.agentType,
+    workItemId: removed.workItemId,
+  });
+
+  emitEvent(queueId, "cancelled", removed.agentType, removed.workItemId, {
+    reason: "user_cancel_queued",
+  });
+
+  return true;
 }
 
 /**
@@ -153,6 +401,7 @@ export function cancelAllForWorkItem(workItemId: string): number {
 
   const count = q.length;
   for (const item of q) {
+    persist("remove", item);
     emitEvent(item.id, "cancelled", item.agentType, item.workItemId, {
       reason: "user_cancel_all_queued",
     });
@@ -167,14 +416,78 @@ export function cancelAllForWorkItem(workItemId: string): number {
   return count;
 }
 
+// ── Rehydration ──────────────────────────────────────────────
+
+/**
+ * Load persisted envelopes back into memory at boot. Each envelope's live
+ * closure calls the handler registered for its kind; expired envelopes and
+ * kinds with no handler are deleted. Returns the work items that now have
+ * queued work — the caller drains them, since no run is active to do so.
+ */
+export async function rehydrateQueue(
+  handlers: Record<string, RehydrateHandler>,
+  notifyCtx: NotifyContext,
+  now = Date.now(),
+): Promise<{ restored: number; dropped: number; workItemIds: string[] }> {
+  if (!store) return { restored: 0, dropped: 0, workItemIds: [] };
+
+  const envelopes = await store.loadAll();
+  let restored = 0;
+  let dropped = 0;
+
+  for (const env of envelopes) {
+    const expiresAt = env.expires_at ? Date.parse(env.expires_at) : null;
+    const handler = Object.hasOwn(handlers, env.kind) ? handlers[env.kind] : null;
+    if (findEntry(env.id)) continue;
+
+    if (!handler || (expiresAt !== null && expiresAt <= now)) {
+      dropped++;
+      logger.warn("Dropping persisted queued dispatch", {
+        queueId: env.id.slice(0, 8),
+        workItemId: env.work_item_id,
+        reason: handler === null ? `no handler for kind "${env.kind}"` : "expired",
+      });
+      await store.remove(env.id).catch(() => {});
+      continue;
+    }
+
+    const entry: QueueEntry = {
+      id: env.id,
+      agentType: env.agent_type,
+      workItemId: env.work_item_id,
+      channel: env.channel,
+      message: env.message ?? undefined,
+      enqueuedAt: Date.parse(env.enqueued_at),
+      sortAt: Date.parse(env.sort_at),
+      priority: env.priority,
+      reason: env.reason,
+      expiresAt,
+      kind: env.kind,
+      payload: env.payload,
+      notifyCtx,
+      execute: () => handler(env),
+    };
+    const q = queues.get(entry.workItemId) ?? [];
+    q.push(entry);
+    queues.set(entry.workItemId, q);
+    restored++;
+  }
+
+  if (restored > 0 || dropped > 0) {
+    logger.info("Dispatch queue rehydrated", { restored, dropped });
+  }
+  return { restored, dropped, workItemIds: [...queues.keys()] };
+}
+
 // ── Status ───────────────────────────────────────────────────
 
-/** Get current queue status across all agents. */
-export function getQueueStatus(): QueueStatus {
+/** Get current queue status across all agents, each work item in drain order. */
+export function getQueueStatus(now = Date.now()): QueueStatus {
   const agents: Record<string, number> = {};
   const items: QueueStatus["items"] = [];
 
-  for (const [, q] of queues) {
+  for (const workItemId of queues.keys()) {
+    const q = ordered(workItemId, now);
     for (let i = 0; i < q.length; i++) {
       const item = q[i];
       agents[item.agentType] = (agents[item.agentType] || 0) + 1;
@@ -184,6 +497,9 @@ export function getQueueStatus(): QueueStatus {
         workItemId: item.workItemId,
         enqueuedAt: item.enqueuedAt,
         position: i + 1,
+        priority: item.priority,
+        reason: item.reason,
+        expiresAt: item.expiresAt,
       });
     }
   }
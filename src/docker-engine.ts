@@ -0,0 +1,206 @@
+/**
+ * Docker Engine client — HTTP over the Engine's Unix socket
+ *
+ * The transport shared by sandbox-manager.ts, docker-sandbox.ts and
+ * overnight/docker-executor.ts. Talks to the Engine API directly; never
+ * shells out to the docker CLI.
+ *
+ * setDockerSocketPath() points every caller at another socket — tests run
+ * a fake Engine (tests/helpers/fake-docker-engine.ts) on a temp socket.
+ */
+
+import http from "node:http";
+
+export const DOCKER_SOCKET = "/var/run/docker.sock";
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+let socketPath = DOCKER_SOCKET;
+
+/** Use another Engine socket; null restores /var/run/docker.sock. */
+export function setDockerSocketPath(path: string | null): void {
+  socketPath = path ?? DOCKER_SOCKET;
+}
+
+export function getDockerSocketPath(): string {
+  return socketPath;
+}
+
+// ── Types ────────────────────────────────────────────────────
+
+/** JSON body of an Engine reply; error replies carry `message`. */
+export type DockerReply = { Id?: string; message?: string } & Record<string, unknown>;
+
+export interface DockerResponse<T> {
+  status: number;
+  data: T;
+}
+
+export interface DockerRequestOpts {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/** One frame of a multiplexed attach/exec/logs stream. */
+export interface DockerFrame {
+  stream: "stdin" | "stdout" | "stderr";
+  data: Buffer;
+}
+
+// ── Requests ─────────────────────────────────────────────────
+
+function send(
+  method: string,
+  path: string,
+  body: Record<string, unknown> | null | undefined,
+  opts: DockerRequestOpts,
+  onResponse: (res: http.IncomingMessage, done: (err?: Error) => void) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const done = (err?: Error) => {
+      if (settled) return;
+      settled = true;
+      opts.signal?.removeEventListener("abort", onAbort);
+      if (err) reject(err); else resolve();
+    };
+    const req = http.request(
+      { socketPath, path, method, headers: { "Content-Type": "application/json" } },
+      res => onResponse(res, done),
+    );
+    const onAbort = () => { req.destroy(); done(new Error("Docker request aborted")); };
+    if (opts.signal?.aborted) { onAbort(); return; }
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+    req.on("error", err => done(err));
+    req.setTimeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => { req.destroy(); done(new Error("Docker API timeout")); });
+    if (body) req.write(JSON.stringify(body));
+    req.end();
+  });
+}
+
+/**
+ * JSON request. Non-JSON replies come back as `{ message: <text> }`.
+ */
+export async function dockerRequest<T = DockerReply>(
+  method: string,
+  path: string,
+  body?: Record<string, unknown> | null,
+  opts: DockerRequestOpts = {},
+): Promise<DockerResponse<T>> {
+  const { status, body: buf } = await dockerRequestRaw(method, path, body, opts);
+  const text = buf.toString("utf8");
+  try {
+    return { status, data: (text ? JSON.parse(text) : {}) as T };
+  } catch {
+    return { status, data: { message: text } as T };
+  }
+}
+
+/** Request returning the raw reply body. */
+export async function dockerRequestRaw(
+  method: string,
+  path: string,
+  body?: Record<string, unknown> | null,
+  opts: DockerRequestOpts = {},
+): Promise<{ status: number; body: Buffer }> {
+  let status = 0;
+  const chunks: Buffer[] = [];
+  await send(method, path, body, opts, (res, done) => {
+    status = res.statusCode ?? 0;
+    res.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+    res.on("end", () => done());
+    res.on("error", done);
+  });
+  return { status, body: Buffer.concat(chunks) };
+}
+
+/**
+ * Request whose reply is a multiplexed stream (exec start, attach, logs):
+ * frames are delivered as they arrive. Resolves with the HTTP status once
+ * the stream ends; an error reply is delivered as a single stderr frame.
+ */
+export async function dockerStream(
+  method: string,
+  path: string,
+  body: Record<string, unknown> | null,
+  onFrame: (frame: DockerFrame) => void,
+  opts: DockerRequestOpts = {},
+): Promise<number> {
+  let status = 0;
+  await send(method, path, body, opts, (res, done) => {
+    status = res.statusCode ?? 0;
+    if (status >= 400) {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+      res.on("end", () => { onFrame({ stream: "stderr", data: Buffer.concat(chunks) }); done(); });
+      return;
+    }
+    const demux = createStreamDemuxer(onFrame);
+    res.on("data", (chunk: Buffer) => demux.push(chunk));
+    res.on("end", () => { demux.end(); done(); });
+    res.on("error", done);
+  });
+  return status;
+}
+
+// ── Stream demultiplexing ────────────────────────────────────
+
+const STREAM_TYPES: DockerFrame["stream"][] = ["stdin", "stdout", "stderr"];
+
+/**
+ * Split a complete multiplexed buffer into frames. Each frame has an
+ * 8-byte header: byte 0 is the stream (0 stdin, 1 stdout, 2 stderr),
+ * bytes 4-7 the payload size (big-endian). A trailing partial frame is
+ * dropped. Pure function.
+ */
+export function demuxDockerStream(buf: Buffer): DockerFrame[] {
+  const frames: DockerFrame[] = [];
+  let offset = 0;
+  while (offset + 8 <= buf.length) {
+    const size = buf.readUInt32BE(offset + 4);
+    if (offset + 8 + size > buf.length) break;
+    frames.push({ stream: STREAM_TYPES[buf[offset]] ?? "stdout", data: buf.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size;
+  }
+  return frames;
+}
+
+/**
+ * Incremental demuxer for chunks off the socket, which need not align
+ * with frames. A stream with no valid header (TTY mode, plain-text error)
+ * is passed through as stdout.
+ */
+export function createStreamDemuxer(onFrame: (frame: DockerFrame) => void): { push(chunk: Buffer): void; end(): void } {
+  let pending: Buffer = Buffer.alloc(0);
+  let raw = false;
+  return {
+    push(chunk) {
+      if (raw) { onFrame({ stream: "stdout", data: chunk }); return; }
+      pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+      if (pending.length >= 8 && (pending[0] > 2 || pending[1] !== 0 || pending[2] !== 0 || pending[3] !== 0)) {
+        raw = true;
+        onFrame({ stream: "stdout", data: pending });
+        pending = Buffer.alloc(0);
+        return;
+      }
+      while (pending.length >= 8) {
+        const size = pending.readUInt32BE(4);
+        if (pending.length < 8 + size) break;
+        onFrame({ stream: STREAM_TYPES[pending[0]], data: pending.subarray(8, 8 + size) });
+        pending = pending.subarray(8 + size);
+      }
+    },
+    end() {
+      if (pending.length > 0 && pending.length < 8 && !raw) onFrame({ stream: "stdout", data: pending });
+      pending = Buffer.alloc(0);
+    },
+  };
+}
+
+/** Encode frames in the multiplexed format (for fakes and tests). Pure function. */
+export function muxDockerFrame(stream: DockerFrame["stream"], data: string | Buffer): Buffer {
+  const payload = typeof data === "string" ? Buffer.from(data) : data;
+  const header = Buffer.alloc(8);
+  header[0] = STREAM_TYPES.indexOf(stream);
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
@@ -3,6 +3,8 @@
  *
  * Container lifecycle manager for agent sandbox execution.
  * Calls Docker Engine API directly via Unix socket — does NOT shell out to docker CLI.
+ * Engine operations are shared with the overnight executor through
+ * sandbox-manager.ts, which also runs multi-container sessions.
  *
  * Features:
  *   - Create/start/stop/remove containers with resource limits
@@ -12,16 +14,24 @@
  *   - Auto-cleanup expired containers
  */
 
-import http from "node:http";
+import { DOCKER_SOCKET, dockerRequest, type DockerReply } from "./docker-engine.ts";
+import {
+  CONTAINER_PREFIX,
+  DEFAULT_CPU_QUOTA,
+  DEFAULT_MEMORY_LIMIT,
+  ensureImage,
+  execStream,
+  getSession,
+  inspectContainer as inspectEngineContainer,
+  removeContainer as removeEngineContainer,
+  runContainer,
+  stopContainer as stopEngineContainer,
+} from "./sandbox-manager.ts";
 import { log } from "./logger.ts";
 
 const logger = log.child("docker-sandbox");
 
-const DOCKER_SOCKET = "/var/run/docker.sock";
-const CONTAINER_PREFIX = "ellie-sandbox-";
 const DEFAULT_IMAGE = "ubuntu:24.04";
-const DEFAULT_MEMORY_LIMIT = 512 * 1024 * 1024; // 512MB
-const DEFAULT_CPU_QUOTA = 100_000; // 1 CPU
 const MAX_CONTAINER_AGE_MS = 4 * 60 * 60_000; // 4 hours
 
 // ── Types ────────────────────────────────────────────────────
@@ -35,6 +45,8 @@ export interface ContainerInfo {
   created: string;
   agent?: string;
   workItemId?: string;
+  /** Sandbox session the container belongs to (sandbox-manager.ts). */
+  session?: string;
 }
 
 export interface ContainerStats {
@@ -64,38 +76,23 @@ export interface ExecResult {
   exitCode: number | null;
 }
 
-// ── Docker API Client ────────────────────────────────────────
-
-function dockerApi(
-  method: string,
-  path: string,
-  body?: Record<string, unknown> | null,
-): Promise<{ status: number; data: any }> {
-  return new Promise((resolve, reject) => {
-    const req = http.request(
-      {
-        socketPath: DOCKER_SOCKET,
-        path,
-        method,
-        headers: { "Content-Type": "application/json" },
-      },
-      (res) => {
-        let data = "";
-        res.on("data", (chunk: Buffer) => { data += chunk; });
-        res.on("end", () => {
-          try {
-            resolve({ status: res.statusCode ?? 0, data: data ? JSON.parse(data) : {} });
-          } catch {
-            resolve({ status: res.statusCode ?? 0, data: { message: data } });
-          }
-        });
-      },
-    );
-    req.on("error", reject);
-    req.setTimeout(30_000, () => { req.destroy(); reject(new Error("Docker API timeout")); });
-    if (body) req.write(JSON.stringify(body));
-    req.end();
-  });
+/** The parts of GET /containers/{id}/stats this module reads. */
+interface EngineStats {
+  cpu_stats?: { cpu_usage?: { total_usage?: number }; system_cpu_usage?: number; online_cpus?: number };
+  precpu_stats?: { cpu_usage?: { total_usage?: number }; system_cpu_usage?: number };
+  memory_stats?: { usage?: number; limit?: number };
+  networks?: Record<string, { rx_bytes?: number; tx_bytes?: number }>;
+}
+
+/** An entry of GET /containers/json. */
+interface EngineContainerSummary {
+  Id: string;
+  Names?: string[];
+  State: ContainerInfo["state"];
+  Status: string;
+  Image: string;
+  Created: number;
+  Labels?: Record<string, string>;
 }
 
 // ── Container Lifecycle ──────────────────────────────────────
@@ -107,21 +104,13 @@ export async function createContainer(opts: CreateContainerOpts = {}): Promise<C
   const name = opts.name || `${CONTAINER_PREFIX}${Date.now().toString(36)}`;
   const image = opts.image || DEFAULT_IMAGE;
 
-  // Ensure image exists locally
-  const inspectRes = await dockerApi("GET", `/images/${encodeURIComponent(image)}/json`);
-  if (inspectRes.status !== 200) {
-    const [fromImage, tag] = image.includes(":") ? image.split(":") : [image, "latest"];
-    const pullRes = await dockerApi("POST", `/images/create?fromImage=${encodeURIComponent(fromImage)}&tag=${encodeURIComponent(tag)}`);
-    if (pullRes.status !== 200) {
-      throw new Error(`Docker pull failed (${pullRes.status}): ${pullRes.data?.message}`);
-    }
-  }
+  await ensureImage(image);
 
   const labels: Record<string, string> = { "ellie.sandbox": "true" };
   if (opts.agent) labels["ellie.agent"] = opts.agent;
   if (opts.workItemId) labels["ellie.work-item"] = opts.workItemId;
 
-  const createRes = await dockerApi("POST", `/containers/create?name=${encodeURIComponent(name)}`, {
+  const containerId = await runContainer(name, {
     Image: image,
     Env: opts.env || [],
     Labels: labels,
@@ -137,19 +126,6 @@ export async function createContainer(opts: CreateContainerOpts = {}): Promise<C
     },
   });
 
-  if (createRes.status !== 201) {
-    throw new Error(`Docker create failed (${createRes.status}): ${createRes.data?.message}`);
-  }
-
-  const containerId = createRes.data.Id;
-
-  const startRes = await dockerApi("POST", `/containers/${containerId}/start`);
-  if (startRes.status !== 204 && startRes.status !== 304) {
-    // Clean up failed container
-    await dockerApi("DELETE", `/containers/${containerId}?force=true`).catch(() => {});
-    throw new Error(`Docker start failed (${startRes.status}): ${startRes.data?.message}`);
-  }
-
   logger.info(`Created: ${name}`, { image, agent: opts.agent, workItemId: opts.workItemId });
 
   return {
@@ -168,28 +144,21 @@ export async function createContainer(opts: CreateContainerOpts = {}): Promise<C
  * Stop a running container.
  */
 export async function stopContainer(nameOrId: string): Promise<void> {
-  const { status, data } = await dockerApi("POST", `/containers/${encodeURIComponent(nameOrId)}/stop?t=10`);
-  if (status === 204 || status === 304 || status === 404) return;
-  throw new Error(`Docker stop failed (${status}): ${data?.message}`);
+  await stopEngineContainer(nameOrId);
 }
 
 /**
  * Remove a container (force).
  */
 export async function removeContainer(nameOrId: string): Promise<void> {
-  const { status, data } = await dockerApi("DELETE", `/containers/${encodeURIComponent(nameOrId)}?force=true`);
-  if (status === 204 || status === 404) return;
-  throw new Error(`Docker remove failed (${status}): ${data?.message}`);
+  await removeEngineContainer(nameOrId);
 }
 
 /**
  * Inspect a container by name or ID.
  */
-export async function inspectContainer(nameOrId: string): Promise<any | null> {
-  const { status, data } = await dockerApi("GET", `/containers/${encodeURIComponent(nameOrId)}/json`);
-  if (status === 404) return null;
-  if (status === 200) return data;
-  throw new Error(`Docker inspect failed (${status}): ${data?.message}`);
+export async function inspectContainer(nameOrId: string): Promise<DockerReply | null> {
+  return inspectEngineContainer(nameOrId);
 }
 
 // ── Container Stats ──────────────────────────────────────────
@@ -199,7 +168,7 @@ export async function inspectContainer(nameOrId: string): Promise<any | null> {
  */
 export async function getContainerStats(nameOrId: string): Promise<ContainerStats | null> {
   try {
-    const { status, data } = await dockerApi("GET",
+    const { status, data } = await dockerRequest<EngineStats>("GET",
       `/containers/${encodeURIComponent(nameOrId)}/stats?stream=false`,
     );
     if (status !== 200 || !data) return null;
@@ -215,7 +184,7 @@ export async function getContainerStats(nameOrId: string): Promise<ContainerStat
 
     let netRx = 0, netTx = 0;
     if (data.networks) {
-      for (const iface of Object.values(data.networks) as any[]) {
+      for (const iface of Object.values(data.networks)) {
         netRx += iface.rx_bytes || 0;
         netTx += iface.tx_bytes || 0;
       }
@@ -241,12 +210,12 @@ export async function getContainerStats(nameOrId: string): Promise<ContainerStat
  */
 export async function listContainers(): Promise<ContainerInfo[]> {
   const filters = JSON.stringify({ label: ["ellie.sandbox=true"] });
-  const { status, data } = await dockerApi("GET",
+  const { status, data } = await dockerRequest<EngineContainerSummary[]>("GET",
     `/containers/json?all=true&filters=${encodeURIComponent(filters)}`,
   );
   if (status !== 200 || !Array.isArray(data)) return [];
 
-  return data.map((c: any) => ({
+  return data.map((c) => ({
     id: c.Id,
     name: (c.Names?.[0] || "").replace(/^\//, ""),
     state: c.State,
@@ -255,6 +224,7 @@ export async function listContainers(): Promise<ContainerInfo[]> {
     created: new Date(c.Created * 1000).toISOString(),
     agent: c.Labels?.["ellie.agent"],
     workItemId: c.Labels?.["ellie.work-item"],
+    session: c.Labels?.["ellie.session"],
   }));
 }
 
@@ -284,57 +254,15 @@ export async function execInContainer(
   cmd: string,
   timeoutMs = 10_000,
 ): Promise<ExecResult> {
-  const createRes = await dockerApi("POST",
-    `/containers/${encodeURIComponent(nameOrId)}/exec`,
-    {
-      Cmd: ["sh", "-c", cmd],
-      AttachStdout: true,
-      AttachStderr: true,
-    },
-  );
-  if (createRes.status !== 201 || !createRes.data?.Id) {
-    return { stdout: "", exitCode: -1 };
-  }
-
-  const execId = createRes.data.Id;
-
-  const buf = await new Promise<Buffer>((resolve, reject) => {
-    const timer = setTimeout(() => reject(new Error("exec timeout")), timeoutMs);
-    const req = http.request(
-      {
-        socketPath: DOCKER_SOCKET,
-        path: `/exec/${execId}/start`,
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-      },
-      (res) => {
-        const chunks: Buffer[] = [];
-        res.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
-        res.on("end", () => { clearTimeout(timer); resolve(Buffer.concat(chunks)); });
-      },
-    );
-    req.on("error", (err) => { clearTimeout(timer); reject(err); });
-    req.write(JSON.stringify({ Detach: false, Tty: false }));
-    req.end();
-  });
-
-  // Parse Docker multiplexed stream: 8-byte headers
-  let stdout = "";
-  let offset = 0;
-  while (offset + 8 <= buf.length) {
-    const size = buf.readUInt32BE(offset + 4);
-    if (offset + 8 + size > buf.length) break;
-    if (buf[offset] === 1) { // stdout
-      stdout += buf.subarray(offset + 8, offset + 8 + size).toString("utf8");
+  try {
+    const { stdout, exitCode } = await execStream(nameOrId, cmd, { timeoutMs });
+    return { stdout, exitCode };
+  } catch (err) {
+    if (err instanceof Error && err.message.startsWith("Docker exec create failed")) {
+      return { stdout: "", exitCode: -1 };
     }
-    offset += 8 + size;
+    throw err;
   }
-
-  // Get exit code
-  const inspectRes = await dockerApi("GET", `/exec/${execId}/json`);
-  const exitCode = inspectRes.data?.ExitCode ?? null;
-
-  return { stdout, exitCode };
 }
 
 // ── Cleanup ──────────────────────────────────────────────────
@@ -342,6 +270,7 @@ export async function execInContainer(
 /**
  * Remove containers older than MAX_CONTAINER_AGE_MS.
  * Called by periodic task to prevent sandbox accumulation.
+ * Containers of live sessions are left to cleanupExpiredSessions().
  */
 export async function cleanupExpiredContainers(): Promise<number> {
   const containers = await listContainers();
@@ -349,6 +278,7 @@ export async function cleanupExpiredContainers(): Promise<number> {
   let removed = 0;
 
   for (const c of containers) {
+    if (c.session && getSession(c.session)) continue;
     const age = now - new Date(c.created).getTime();
     if (age > MAX_CONTAINER_AGE_MS) {
       try {
@@ -371,7 +301,7 @@ export async function cleanupExpiredContainers(): Promise<number> {
  */
 export async function isDockerAvailable(): Promise<boolean> {
   try {
-    const { status } = await dockerApi("GET", "/_ping");
+    const { status } = await dockerRequest("GET", "/_ping");
     return status === 200;
   } catch {
     return false;
@@ -380,7 +310,7 @@ export async function isDockerAvailable(): Promise<boolean> {
 
 // ── Test Utilities ───────────────────────────────────────────
 
-export { dockerApi as _dockerApiForTesting };
+export { dockerRequest as _dockerApiForTesting };
 export const CONSTANTS = {
   CONTAINER_PREFIX,
   DEFAULT_IMAGE,
@@ -6,11 +6,13 @@
  *
  * Uses the same raw fetch() pattern as src/elasticsearch.ts.
  * All functions are fire-and-forget — ES failures never block
- * Postgres operations.
+ * Postgres operations. Documents are PHI-redacted before they
+ * leave the process.
  */
 
 import "dotenv/config";
 import { log } from "../logger.ts";
+import { recordRedaction, redactValue } from "../phi-redaction.ts";
 
 const logger = log.child("es-forest");
 
@@ -42,6 +44,13 @@ async function checkHealth(): Promise<boolean> {
   }
 }
 
+/** Strip PHI from a document bound for an index, counting it in the audit trail. */
+function redactDoc(index: string, doc: object): object {
+  const { value, counts, total } = redactValue(doc);
+  if (total > 0) recordRedaction("search-index", counts, { actor: "es-forest", resource_id: index });
+  return value;
+}
+
 async function esRequest(
   method: string,
   path: string,
@@ -52,7 +61,7 @@ async function esRequest(
     headers: { "Content-Type": "application/json" },
     signal: AbortSignal.timeout(10_000),
   };
-  if (body) opts.body = JSON.stringify(body);
+  if (body) opts.body = JSON.stringify(redactDoc(path.split("/")[1], body));
 
   const res = await fetch(`${ES_URL}${path}`, opts);
   if (!res.ok) {
@@ -348,7 +357,7 @@ export async function bulkIndexForest(
   const lines: string[] = [];
   for (const op of operations) {
     lines.push(JSON.stringify({ index: { _index: op.index, _id: op.id } }));
-    lines.push(JSON.stringify(op.doc));
+    lines.push(JSON.stringify(redactDoc(op.index, op.doc)));
   }
   const ndjson = lines.join("\n") + "\n";
 
@@ -0,0 +1,441 @@
+/**
+ * FHIR Ingestion — claim-ready encounters from EHR exports
+ *
+ * Takes the resources of a FHIR R4 transaction/collection Bundle or an
+ * NDJSON bulk export, resolves references between them, and builds one
+ * EncounterInput (claim-submission.ts) per Encounter. PHI is encrypted
+ * with hipaa-compliance.ts before anything is stored, and every row is
+ * scoped to the clinic's company.
+ *
+ * Resolution and building are pure; storage takes an injected Supabase client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizePatient,
+  normalizeCoverage,
+  type FHIRBundle,
+  type FHIRChargeItem,
+  type FHIRCondition,
+  type FHIRCoverage,
+  type FHIREncounter,
+  type FHIROrganization,
+  type FHIRPatient,
+  type FHIRPractitioner,
+  type FHIRProcedure,
+  type FHIRResource,
+} from "./connectors/fhir";
+import {
+  validateEncounterInput,
+  generateClaimId,
+  type DiagnosisCode,
+  type EncounterInput,
+  type FacilityInfo,
+  type ProcedureCode,
+  type ProviderInfo,
+} from "./claim-submission";
+import { deriveKey, encryptPHIFields, decryptPHIFields } from "./hipaa-compliance";
+
+// ── Code Systems ────────────────────────────────────────────
+
+export const SYSTEM_ICD10 = ["http://hl7.org/fhir/sid/icd-10-cm", "http://hl7.org/fhir/sid/icd-10"];
+export const SYSTEM_CPT = "http://www.ama-assn.org/go/cpt";
+export const SYSTEM_HCPCS = "https://www.cms.gov/Medicare/Coding/HCPCSReleaseCodeSets";
+export const SYSTEM_NPI = "http://hl7.org/fhir/sid/us-npi";
+export const SYSTEM_TAXONOMY = "http://nucc.org/provider-taxonomy";
+
+/** Encounter class (v3 ActCode) → CMS place of service. */
+const PLACE_OF_SERVICE: Record<string, string> = {
+  AMB: "11",
+  VR: "02",
+  HH: "12",
+  IMP: "21",
+  EMER: "23",
+  OBSENC: "22",
+};
+
+/** Encounter statuses that never produce a claim. */
+const UNBILLABLE_STATUSES = ["planned", "cancelled", "entered-in-error"];
+
+type Coding = { system?: string; code: string; display?: string };
+
+// ── Resource Index ──────────────────────────────────────────
+
+export interface ResourceEntry {
+  fullUrl?: string;
+  resource: FHIRResource;
+}
+
+export interface ResourceIndex {
+  /** Every indexed resource, in input order. */
+  all: FHIRResource[];
+  /** Resolve a reference (relative, urn:uuid or absolute URL); null if absent. */
+  resolve(reference: string | undefined): FHIRResource | null;
+}
+
+/**
+ * Index resources by `Type/id` and by fullUrl so references resolve the
+ * way a FHIR server would. Pure function.
+ */
+export function indexResources(entries: ResourceEntry[]): ResourceIndex {
+  const byKey = new Map<string, FHIRResource>();
+  const all: FHIRResource[] = [];
+  for (const { fullUrl, resource } of entries) {
+    if (!resource?.resourceType) continue;
+    all.push(resource);
+    if (resource.id) byKey.set(`${resource.resourceType}/${resource.id}`, resource);
+    if (fullUrl) byKey.set(fullUrl, resource);
+  }
+
+  return {
+    all,
+    resolve(reference) {
+      if (!reference) return null;
+      const direct = byKey.get(reference);
+      if (direct) return direct;
+      // Absolute URL or versioned reference: match on the trailing Type/id
+      const m = reference.match(/([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})(?:\/_history\/[^/]+)?$/);
+      return m ? byKey.get(`${m[1]}/${m[2]}`) ?? null : null;
+    },
+  };
+}
+
+/**
+ * Entries of a Bundle, or an error for bundle types we don't ingest.
+ * Pure function.
+ */
+export function bundleEntries(bundle: FHIRBundle): { entries: ResourceEntry[]; error: string | null } {
+  if (bundle.resourceType !== "Bundle") return { entries: [], error: "resourceType must be Bundle" };
+  if (bundle.type && !["transaction", "collection"].includes(bundle.type)) {
+    return { entries: [], error: `unsupported bundle type: ${bundle.type}` };
+  }
+  return { entries: (bundle.entry ?? []).filter(e => e?.resource), error: null };
+}
+
+// ── Encounter Building ──────────────────────────────────────
+
+export interface ImportedEncounter {
+  fhir_encounter_id: string;
+  input: EncounterInput | null;
+  errors: string[];
+  warnings: string[];
+}
+
+function findCoding(codings: Coding[] | undefined, systems: string[]): Coding | null {
+  return codings?.find(c => c.system && systems.includes(c.system) && c.code) ?? null;
+}
+
+function identifierValue(identifiers: { system?: string; value: string }[] | undefined, match: (system: string) => boolean): string | null {
+  return identifiers?.find(i => i.system && match(i.system))?.value ?? null;
+}
+
+function practitionerName(practitioner: FHIRPractitioner, fallback?: string): string {
+  const name = practitioner.name?.[0];
+  if (name?.text) return name.text;
+  const parts = [...(name?.prefix ?? []), ...(name?.given ?? []), name?.family].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : fallback ?? "";
+}
+
+function ofType<T extends FHIRResource>(index: ResourceIndex, resourceType: string): T[] {
+  return index.all.filter(r => r.resourceType === resourceType) as T[];
+}
+
+function refersTo(index: ResourceIndex, reference: string | undefined, target: FHIRResource): boolean {
+  return !!reference && index.resolve(reference) === target;
+}
+
+function buildDiagnoses(index: ResourceIndex, encounter: FHIREncounter, warnings: string[]): DiagnosisCode[] {
+  // Encounter.diagnosis carries the rank; conditions pointing at the encounter follow in input order
+  const ranked = [...(encounter.diagnosis ?? [])]
+    .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+    .map(d => index.resolve(d.condition?.reference))
+    .filter((c): c is FHIRCondition => c?.resourceType === "Condition");
+  const linked = ofType<FHIRCondition>(index, "Condition")
+    .filter(c => refersTo(index, c.encounter?.reference, encounter));
+
+  const conditions = [...new Set([...ranked, ...linked])];
+  const diagnoses: DiagnosisCode[] = [];
+  for (const condition of conditions) {
+    const coding = findCoding(condition.code?.coding, SYSTEM_ICD10);
+    if (!coding) {
+      warnings.push(`Condition/${condition.id} has no ICD-10 code`);
+      continue;
+    }
+    if (diagnoses.some(d => d.code === coding.code)) continue;
+    diagnoses.push({ code: coding.code, description: coding.display ?? "", is_primary: diagnoses.length === 0 });
+  }
+  return diagnoses;
+}
+
+function buildProcedures(index: ResourceIndex, encounter: FHIREncounter, warnings: string[]): ProcedureCode[] {
+  const procedures = ofType<FHIRProcedure>(index, "Procedure")
+    .filter(p => refersTo(index, p.encounter?.reference, encounter));
+  const charges = ofType<FHIRChargeItem>(index, "ChargeItem")
+    .filter(c => refersTo(index, c.context?.reference, encounter));
+  const used = new Set<FHIRChargeItem>();
+  const lines: ProcedureCode[] = [];
+
+  const line = (coding: Coding, charge: FHIRChargeItem | null): ProcedureCode => ({
+    cpt_code: coding.code,
+    description: coding.display ?? "",
+    modifiers: [],
+    units: charge?.quantity?.value ?? 1,
+    charge_cents: charge?.priceOverride ? Math.round(charge.priceOverride.value * 100) : 0,
+  });
+
+  for (const procedure of procedures) {
+    const coding = findCoding(procedure.code?.coding, [SYSTEM_CPT, SYSTEM_HCPCS]);
+    if (!coding) {
+      warnings.push(`Procedure/${procedure.id} has no CPT or HCPCS code`);
+      continue;
+    }
+    const charge = charges.find(c => !used.has(c) && c.service?.some(s => index.resolve(s.reference) === procedure))
+      ?? charges.find(c => !used.has(c) && !c.service?.length && findCoding(c.code?.coding, [SYSTEM_CPT, SYSTEM_HCPCS])?.code === coding.code)
+      ?? null;
+    if (charge) used.add(charge);
+    else warnings.push(`Procedure/${procedure.id} (${coding.code}) has no ChargeItem; charge set to 0`);
+    lines.push(line(coding, charge));
+  }
+
+  // Charges billed without a Procedure resource become their own lines
+  for (const charge of charges) {
+    if (used.has(charge)) continue;
+    const coding = findCoding(charge.code?.coding, [SYSTEM_CPT, SYSTEM_HCPCS]);
+    if (coding) lines.push(line(coding, charge));
+  }
+  return lines;
+}
+
+function buildProvider(index: ResourceIndex, encounter: FHIREncounter): ProviderInfo | null {
+  for (const participant of encounter.participant ?? []) {
+    const practitioner = index.resolve(participant.individual?.reference) as FHIRPractitioner | null;
+    if (practitioner?.resourceType !== "Practitioner") continue;
+    const npi = identifierValue(practitioner.identifier, s => s === SYSTEM_NPI);
+    if (!npi) continue;
+    const taxonomy = practitioner.qualification
+      ?.flatMap(q => q.code?.coding ?? [])
+      .find(c => c.system === SYSTEM_TAXONOMY)?.code ?? null;
+    return { npi, name: practitionerName(practitioner, participant.individual?.display), taxonomy_code: taxonomy };
+  }
+  return null;
+}
+
+function buildFacility(index: ResourceIndex, encounter: FHIREncounter): FacilityInfo | undefined {
+  const org = index.resolve(encounter.serviceProvider?.reference) as FHIROrganization | null;
+  if (org?.resourceType !== "Organization") return undefined;
+  const npi = identifierValue(org.identifier, s => s === SYSTEM_NPI);
+  if (!npi) return undefined;
+  return {
+    npi,
+    name: org.name ?? encounter.serviceProvider?.display ?? "",
+    place_of_service: PLACE_OF_SERVICE[encounter.class?.code ?? ""] ?? "11",
+  };
+}
+
+function findCoverage(index: ResourceIndex, patient: FHIRPatient): FHIRCoverage | null {
+  const coverages = ofType<FHIRCoverage>(index, "Coverage")
+    .filter(c => refersTo(index, c.beneficiary?.reference, patient));
+  return coverages.find(c => c.status === "active") ?? null;
+}
+
+/**
+ * Build one EncounterInput per Encounter in the export. Encounters that
+ * can't be billed come back with `input: null` and the reasons in
+ * `errors`; `warnings` flag data that was defaulted. Pure function.
+ */
+export function buildEncounterInputs(index: ResourceIndex, companyId: string): ImportedEncounter[] {
+  const encounters = ofType<FHIREncounter>(index, "Encounter");
+
+  return encounters.map(encounter => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const result = (input: EncounterInput | null): ImportedEncounter =>
+      ({ fhir_encounter_id: encounter.id, input, errors, warnings });
+
+    if (UNBILLABLE_STATUSES.includes(encounter.status)) {
+      errors.push(`encounter status ${encounter.status} is not billable`);
+      return result(null);
+    }
+    const date = encounter.period?.start?.slice(0, 10);
+    if (!date) errors.push("encounter period.start is required");
+
+    const patient = index.resolve(encounter.subject?.reference) as FHIRPatient | null;
+    if (patient?.resourceType !== "Patient") {
+      errors.push(`unresolved subject: ${encounter.subject?.reference ?? "(none)"}`);
+      return result(null);
+    }
+
+    const coverage = findCoverage(index, patient);
+    if (!coverage) errors.push(`no active Coverage for Patient/${patient.id}`);
+    const payer = index.resolve(coverage?.payor?.[0]?.reference) as FHIROrganization | null;
+    const payerId = payer?.resourceType === "Organization"
+      ? identifierValue(payer.identifier, s => s.includes("payer")) ?? payer.identifier?.[0]?.value ?? null
+      : null;
+    if (coverage && !payerId) errors.push(`no payer identifier for Coverage/${coverage.id}`);
+
+    const provider = buildProvider(index, encounter);
+    if (!provider) errors.push("no participant Practitioner with an NPI");
+
+    if (errors.length > 0) return result(null);
+
+    const normalizedPatient = normalizePatient(patient);
+    const normalizedCoverage = normalizeCoverage(coverage!);
+    const planClass = coverage!.class?.find(c => c.type?.coding?.[0]?.code === "plan");
+
+    const input: EncounterInput = {
+      encounter_id: encounter.id,
+      encounter_date: date!,
+      patient: {
+        id: patient.id,
+        first_name: normalizedPatient.first_name,
+        last_name: normalizedPatient.last_name,
+        dob: normalizedPatient.dob ?? "",
+        gender: normalizedPatient.gender ?? "unknown",
+        member_id: normalizedCoverage.subscriber_id ?? normalizedPatient.member_id ?? "",
+      },
+      insurance: {
+        payer_id: payerId!,
+        payer_name: payer!.name ?? normalizedCoverage.payer_name ?? "",
+        plan_id: planClass?.value ?? "",
+        group_number: normalizedCoverage.group_number,
+        subscriber_id: normalizedCoverage.subscriber_id ?? "",
+      },
+      diagnoses: buildDiagnoses(index, encounter, warnings),
+      procedures: buildProcedures(index, encounter, warnings),
+      provider: provider!,
+      facility: buildFacility(index, encounter),
+      company_id: companyId,
+    };
+
+    errors.push(...validateEncounterInput(input));
+    return result(errors.length === 0 ? input : null);
+  });
+}
+
+// ── PHI Sealing ─────────────────────────────────────────────
+
+/** Row shape of billing_encounter_imports. PHI columns hold EncryptedValue fields. */
+export interface SealedEncounter {
+  company_id: string;
+  fhir_encounter_id: string;
+  encounter_id: string;
+  claim_id: string;
+  encounter_date: string;
+  payer_id: string;
+  patient: Record<string, unknown>;
+  insurance: Record<string, unknown>;
+  clinical: Record<string, unknown>;
+  provider: ProviderInfo;
+  facility: FacilityInfo | null;
+}
+
+/**
+ * The PHI encryption key, derived from PHI_ENCRYPTION_KEY.
+ * Null when unset — callers must refuse to store rather than store plaintext.
+ */
+export function phiKeyFromEnv(env: Record<string, string | undefined> = process.env): Buffer | null {
+  const passphrase = env.PHI_ENCRYPTION_KEY;
+  return passphrase ? deriveKey(passphrase) : null;
+}
+
+/**
+ * Encrypt an EncounterInput for storage. Patient and insurance PHI fields
+ * are encrypted in place; diagnoses and procedures are encrypted whole.
+ * patient.id is the EHR's patient identifier, stored as the PHI field
+ * fhir_patient_id.
+ */
+export function sealEncounterInput(input: EncounterInput, companyId: string, key: Buffer): SealedEncounter {
+  const { id: fhirPatientId, ...patient } = input.patient;
+  return {
+    company_id: companyId,
+    fhir_encounter_id: input.encounter_id,
+    encounter_id: input.encounter_id,
+    claim_id: generateClaimId(input),
+    encounter_date: input.encounter_date,
+    payer_id: input.insurance.payer_id,
+    patient: encryptPHIFields({ ...patient, fhir_patient_id: fhirPatientId }, key),
+    insurance: encryptPHIFields({ ...input.insurance }, key),
+    clinical: encryptPHIFields({
+      diagnosis_codes: JSON.stringify(input.diagnoses),
+      procedure_codes: JSON.stringify(input.procedures),
+    }, key),
+    provider: input.provider,
+    facility: input.facility ?? null,
+  };
+}
+
+/** Inverse of sealEncounterInput. Throws if the key doesn't match. */
+export function openEncounterInput(row: SealedEncounter, key: Buffer): EncounterInput {
+  const clinical = decryptPHIFields(row.clinical, key);
+  const { fhir_patient_id, ...patient } = decryptPHIFields(row.patient, key);
+  return {
+    encounter_id: row.encounter_id,
+    encounter_date: row.encounter_date,
+    patient: { id: fhir_patient_id, ...patient } as unknown as EncounterInput["patient"],
+    insurance: decryptPHIFields(row.insurance, key) as unknown as EncounterInput["insurance"],
+    diagnoses: JSON.parse(clinical.diagnosis_codes as string),
+    procedures: JSON.parse(clinical.procedure_codes as string),
+    provider: row.provider,
+    ...(row.facility ? { facility: row.facility } : {}),
+    company_id: row.company_id,
+  };
+}
+
+// ── Import ──────────────────────────────────────────────────
+
+/** Per-encounter outcome. No PHI — safe to return to the caller and log. */
+export interface EncounterImportResult {
+  fhir_encounter_id: string;
+  claim_id: string | null;
+  status: "stored" | "valid" | "invalid";
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportSummary {
+  company_id: string;
+  resources: number;
+  encounters: EncounterImportResult[];
+  stored: number;
+  dry_run: boolean;
+}
+
+/**
+ * Build encounters from an export and, unless dryRun, upsert the valid ones
+ * (sealed) into billing_encounter_imports on (company_id, fhir_encounter_id).
+ * Re-importing the same export is idempotent.
+ */
+export async function importFHIRResources(
+  supabase: SupabaseClient | null,
+  entries: ResourceEntry[],
+  opts: { companyId: string; key: Buffer | null; dryRun?: boolean },
+): Promise<ImportSummary> {
+  const index = indexResources(entries);
+  const built = buildEncounterInputs(index, opts.companyId);
+  const dryRun = opts.dryRun ?? false;
+
+  const valid = built.filter(e => e.input);
+  if (!dryRun && valid.length > 0) {
+    if (!supabase) throw new Error("Supabase is required to store encounters");
+    if (!opts.key) throw new Error("PHI encryption key is required to store encounters");
+    const rows = valid.map(e => sealEncounterInput(e.input!, opts.companyId, opts.key!));
+    const { error } = await supabase
+      .from("billing_encounter_imports")
+      .upsert(rows, { onConflict: "company_id,fhir_encounter_id" });
+    if (error) throw new Error(`Failed to store encounters: ${error.message}`);
+  }
+
+  return {
+    company_id: opts.companyId,
+    resources: index.all.length,
+    encounters: built.map(e => ({
+      fhir_encounter_id: e.fhir_encounter_id,
+      claim_id: e.input ? generateClaimId(e.input) : null,
+      status: !e.input ? "invalid" : dryRun ? "valid" : "stored",
+      errors: e.errors,
+      warnings: e.warnings,
+    })),
+    stored: dryRun ? 0 : valid.length,
+    dry_run: dryRun,
+  };
+}
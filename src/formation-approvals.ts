@@ -2,12 +2,14 @@
  * Formation Approval Gates — ELLIE-726
  *
  * Human-in-the-loop approval for high-stakes formation outputs.
- * Request, approve, reject, timeout lifecycle.
+ * Request, approve, reject, timeout lifecycle. Each request is also
+ * posted as an interactive prompt (Slack / Discord / Google Chat buttons).
  *
  * Database functions module — uses postgres.js via ellie-forest.
  */
 
 import { sql } from "../../ellie-forest/src/index";
+import { closePrompt, openPrompt } from "./interactive-prompts.ts";
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -85,6 +87,21 @@ export async function requestApproval(
     RETURNING *
   `;
 
+  if (approval) {
+    openPrompt({
+      kind: "formation_approval",
+      itemId: approval.id,
+      question: approval.summary,
+      options: [{ id: "approve", label: "Approve" }, { id: "reject", label: "Reject" }],
+      expiresAt: Date.now() + (input.timeout_seconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+      async onAnswer(optionId, responder) {
+        const respondedBy = `${responder.channel}:${responder.userId}`;
+        if (optionId === "approve") await approveRequest(approval.id, respondedBy);
+        else await rejectRequest(approval.id, respondedBy);
+      },
+    });
+  }
+
   return approval;
 }
 
@@ -109,6 +126,7 @@ export async function approveRequest(
     RETURNING *
   `;
 
+  if (approval) await closePrompt("formation_approval", approvalId, `✅ Approved by ${respondedBy}`);
   return approval ?? null;
 }
 
@@ -132,6 +150,7 @@ export async function rejectRequest(
     RETURNING *
   `;
 
+  if (approval) await closePrompt("formation_approval", approvalId, `❌ Rejected by ${respondedBy}`);
   return approval ?? null;
 }
 
@@ -143,7 +162,7 @@ export async function rejectRequest(
  *   status = 'pending' AND NOW() > requested_at + timeout_seconds
  */
 export async function expireTimedOutApprovals(): Promise<FormationApproval[]> {
-  return sql<FormationApproval[]>`
+  const expired = await sql<FormationApproval[]>`
     UPDATE formation_approvals
     SET
       status = 'timed_out',
@@ -152,6 +171,8 @@ export async function expireTimedOutApprovals(): Promise<FormationApproval[]> {
       AND requested_at + (timeout_seconds || ' seconds')::interval < NOW()
     RETURNING *
   `;
+  for (const approval of expired) await closePrompt("formation_approval", approval.id, "⌛ Timed out");
+  return expired;
 }
 
 // ── Gate Check ──────────────────────────────────────────────
@@ -269,21 +269,26 @@ export interface GchatSendResult {
 /**
  * Send a message to a Google Chat space, optionally in a thread.
  * Automatically splits long messages. Returns the external ID of the last chunk.
+ * cardsV2, when given, ride on the last chunk (cards need app/service-account auth).
  */
 export async function sendGoogleChatMessage(
   spaceName: string,
   text: string,
   threadName?: string | null,
+  cardsV2?: Record<string, unknown>[],
 ): Promise<GchatSendResult> {
   const token = await getAccessToken();
   const chunks = splitMessage(text);
   let lastResult: GchatSendResult = { externalId: "", threadName: null };
 
-  for (const chunk of chunks) {
+  for (const [i, chunk] of chunks.entries()) {
     const body: Record<string, unknown> = { text: chunk };
     if (threadName) {
       body.thread = { name: threadName };
     }
+    if (cardsV2 && i === chunks.length - 1) {
+      body.cardsV2 = cardsV2;
+    }
 
     // messageReplyOption ensures replies stay in-thread
     let url = `https://chat.googleapis.com/v1/${spaceName}/messages`;
@@ -325,6 +330,27 @@ export async function sendGoogleChatMessage(
   return lastResult;
 }
 
+/**
+ * Replace a sent message's text and remove its cards (spaces.messages.patch).
+ */
+export async function updateGoogleChatMessage(messageName: string, text: string): Promise<void> {
+  const token = await getAccessToken();
+  const res = await fetch(`https://chat.googleapis.com/v1/${messageName}?updateMask=text,cardsV2`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text: text.slice(0, GCHAT_MAX_LENGTH), cardsV2: [] }),
+    signal: AbortSignal.timeout(15_000),
+  });
+  if (!res.ok) {
+    const errBody = await res.text();
+    logger.error("Update failed", { status: res.status, body: errBody });
+    throw new Error(`Google Chat update failed: ${res.status}`);
+  }
+}
+
 // ============================================================
 // PARSE WEBHOOK EVENTS
 // ============================================================
@@ -293,6 +293,9 @@ export const PHI_FLOW: PHIFlowPoint[] = [
   { stage: "RAG Retrieval", phi_present: false, encrypted: false, external_api: false, baa_covered: true },
   { stage: "Claim Submission to Payer", phi_present: true, encrypted: true, external_api: true, baa_covered: true },
   { stage: "Agent Prompt (LLM)", phi_present: true, encrypted: false, external_api: true, baa_covered: false },
+  // Redacted on the way out by phi-redaction.ts
+  { stage: "Application Logs", phi_present: false, encrypted: false, external_api: false, baa_covered: true },
+  { stage: "Search Index (Elasticsearch)", phi_present: false, encrypted: false, external_api: false, baa_covered: true },
 ];
 
 /**
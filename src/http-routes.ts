@@ -33,6 +33,7 @@ import {
   getTTSProviderInfo,
 } from "./tts.ts";
 import { signToken, authenticateRequest } from "./api/jwt-auth.ts";
+import { getApiRouter } from "./api/route-manifest.ts";
 import {
   buildPrompt,
   getArchetypeContext,
@@ -175,6 +176,10 @@ import {
 import { getSummaryState } from "./ums/consumers/summary.ts";
 import { getAllWatermarks } from "./ums/consumer-watermark.ts";
 import { getAllConsumerStates, resetConsumer } from "./ums/consumer-backoff.ts";
+import { listDeliveries, listDeadLetters as listUmsDeadLetters, requeueDeadLetter } from "./ums/consumer-delivery.ts";
+import { replayConsumer } from "./ums/events.ts";
+import { importEmails } from "./ums/email-import.ts";
+import { splitMbox } from "./ums/mime.ts";
 import { log } from "./logger.ts";
 import { resilientTask } from "./resilient-task.ts";
 import { detectAndCaptureCorrection } from "./correction-detector.ts";
@@ -193,6 +198,7 @@ import { getRecentEvents, getRunEvents } from "./orchestration-ledger.ts";
 import { executeTrackedDispatch } from "./orchestration-dispatch.ts";
 import { withTrace } from "./trace.ts";
 import { getQueueStatus } from "./dispatch-queue.ts";
+import { DISPATCH_PRIORITIES } from "./dispatch-envelope.ts";
 // ELLIE-550: per-domain route handlers extracted from handleHttpRequest()
 import { handleAnalyticsRoute } from "./api/routes/analytics.ts";
 import { handleMemoryRoute } from "./api/routes/memory.ts";
@@ -204,6 +210,9 @@ import { handleAlertsRoute } from "./api/routes/alerts.ts";
 import { handleReactionsRoute } from "./api/routes/reactions.ts";
 import { handleEmojiPrefsRoute } from "./api/routes/emoji-prefs.ts";
 import { handleAgentMemoryRoute } from "./api/routes/agent-memory.ts";
+import { handleWorkflowsRoute } from "./api/routes/workflows.ts";
+import { handleDispatchQueueRoute } from "./api/routes/dispatch-queue.ts";
+import { handleTracesRoute } from "./api/routes/traces.ts";
 import { handleOsAuthRoute, parseOsAuthRoute } from "./os-auth/index.ts";
 import { getRedisClient } from "./os-auth/redis.ts";
 import { handleAvatarRoutes } from "./avatar-routes.ts";
@@ -242,6 +251,7 @@ async function getFoundationRegistry(): Promise<FoundationRegistry | null> {
  *   - /api/app-auth/*     — handles its own auth flow
  *   - /api/os-auth/*      — OS identity, handles its own auth
  *   - /api/agentmail/webhooks — uses HMAC signature verification
+ *   - /api/webhooks/trigger/* — URL token + optional HMAC/IP allowlist (webhook-triggers.ts)
  *   - Localhost IPs       — on-machine agents bypass auth
  */
 export function requiresApiAuth(pathname: string, clientIp: string): boolean {
@@ -252,6 +262,7 @@ export function requiresApiAuth(pathname: string, clientIp: string): boolean {
   if (pathname.startsWith("/api/os-auth/")) return false;
   if (pathname === "/.well-known/jwks.json") return false;
   if (pathname === "/api/agentmail/webhooks") return false;
+  if (pathname.startsWith("/api/webhooks/trigger/")) return false;
   const isLocalhost = clientIp === "127.0.0.1" || clientIp === "::1" || clientIp === "::ffff:127.0.0.1";
   if (isLocalhost) return false;
   return true;
@@ -329,22 +340,32 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
     req.on("end", async () => {
       try {
         // ELLIE-553: Bearer token verification
-        const { verifyGoogleChatRequest } = await import("./channels/google-chat/verify.ts");
-        const gchatVerifyResult = verifyGoogleChatRequest(
-          req.headers["authorization"] as string | undefined,
-          process.env.GOOGLE_CHAT_VERIFICATION_TOKEN,
-        );
+        const { googleChatAdapter } = await import("./channels/google-chat/adapter.ts");
+        const gchatVerifyResult = await googleChatAdapter.verify!({
+          headers: { authorization: req.headers["authorization"] as string | undefined },
+          rawBody: body,
+        });
         if (gchatVerifyResult === "unauthorized") {
           res.writeHead(401, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "Unauthorized" }));
           return;
         }
         if (gchatVerifyResult === "unconfigured") {
-          logger.warn("Google Chat verification not configured — set GOOGLE_CHAT_VERIFICATION_TOKEN");
+          logger.warn("Google Chat verification not configured — set GOOGLE_CHAT_VERIFICATION_TOKEN; prompt answers and approvals are refused");
         }
 
         const event: GoogleChatEvent = JSON.parse(body);
 
+        // Interactive prompt buttons (tool approvals, formation gates, questions)
+        const { parseGoogleChatButtonClick, handleGoogleChatButtonClick, UNVERIFIED_ANSWER_TEXT } = await import("./channels/google-chat/interactions.ts");
+        const buttonClick = parseGoogleChatButtonClick(event);
+        if (buttonClick) {
+          const clickResponse = await handleGoogleChatButtonClick(buttonClick, gchatVerifyResult);
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(clickResponse ?? {}));
+          return;
+        }
+
         // Handle card button clicks (approval actions)
         const eventRecord = event as Record<string, unknown>;
         const cardAction = (eventRecord as { chat?: { cardClickedPayload?: unknown } })?.chat?.cardClickedPayload ||
@@ -358,6 +379,11 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
           const actionId = params.find((p: { key: string; value: string }) => p.key === "action_id")?.value;
 
           if (actionId && (actionFn === "approve_action" || actionFn === "deny_action")) {
+            if (gchatVerifyResult !== "allowed") {
+              res.writeHead(200, { "Content-Type": "application/json" });
+              res.end(JSON.stringify({ text: UNVERIFIED_ANSWER_TEXT }));
+              return;
+            }
             const pending = getPendingAction(actionId);
             if (pending) {
               const approved = actionFn === "approve_action";
@@ -1006,10 +1032,15 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
       }
 
       // Signature verification
-      const { verifySlackRequest } = await import("./channels/slack/verify.ts");
-      const timestamp = req.headers["x-slack-request-timestamp"] as string ?? "";
-      const signature = req.headers["x-slack-signature"] as string ?? "";
-      if (!verifySlackRequest(signingSecret, rawBody, timestamp, signature)) {
+      const { slackAdapter } = await import("./channels/slack/adapter.ts");
+      const verdict = await slackAdapter.verify!({
+        headers: {
+          "x-slack-request-timestamp": req.headers["x-slack-request-timestamp"] as string | undefined,
+          "x-slack-signature": req.headers["x-slack-signature"] as string | undefined,
+        },
+        rawBody,
+      });
+      if (verdict !== "allowed") {
         res.writeHead(401, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Invalid signature" }));
         return;
@@ -1017,10 +1048,31 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
 
       const contentType = req.headers["content-type"] ?? "";
 
-      // ── Slash commands (application/x-www-form-urlencoded) ───
+      // ── Slash commands + interactivity (application/x-www-form-urlencoded) ───
       if (contentType.includes("application/x-www-form-urlencoded")) {
-        const { handleSlackCommand } = await import("./channels/slack/handler.ts");
         const params = new URLSearchParams(rawBody);
+
+        // Block Kit button presses arrive as a JSON `payload` field
+        const interactionPayload = params.get("payload");
+        if (interactionPayload) {
+          let interaction: unknown;
+          try {
+            interaction = JSON.parse(interactionPayload);
+          } catch {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "Invalid payload" }));
+            return;
+          }
+          // Acknowledge within Slack's 3s; the outcome shows as a message edit
+          res.writeHead(200);
+          res.end();
+          const { handleSlackInteraction } = await import("./channels/slack/interactions.ts");
+          handleSlackInteraction(interaction)
+            .catch(err => logger.error("Slack interaction handler error", { error: err instanceof Error ? err.message : String(err) }));
+          return;
+        }
+
+        const { handleSlackCommand } = await import("./channels/slack/handler.ts");
         const payload = {
           command: params.get("command") ?? "",
           text: params.get("text") ?? "",
@@ -1286,13 +1338,14 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
         const certUrl = req.headers["signaturecertchainurl"] as string | undefined;
         const signature = req.headers["signature-256"] as string | undefined;
 
-        const { verifyAlexaRequest, hasAlexaSignatureHeaders } = await import("./alexa.ts");
+        const { hasAlexaSignatureHeaders } = await import("./alexa.ts");
         if (!hasAlexaSignatureHeaders(certUrl, signature)) {
           res.writeHead(400, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "Missing Alexa signature headers" }));
           return;
         }
-        const valid = await verifyAlexaRequest(certUrl!, signature!, body);
+        const { alexaAdapter } = await import("./channels/alexa/adapter.ts");
+        const valid = await alexaAdapter.verify!({ headers: { signaturecertchainurl: certUrl, "signature-256": signature }, rawBody: body }) === "allowed";
         if (!valid) {
           res.writeHead(400, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "Invalid signature" }));
@@ -1600,6 +1653,10 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
     return;
   }
 
+  // Manifest routes (scheduled tasks, vault, OpenAPI) — see api/route-manifest.ts.
+  // Auth, rate limits and body validation are declared per route.
+  if (await (await getApiRouter())(req, res, url)) return;
+
   // ELLIE-546: API auth middleware — see requiresApiAuth() for exemption rules.
   if (requiresApiAuth(url.pathname, req.socket?.remoteAddress ?? "")) {
     const auth = await authenticateRequest(req, "api", EXTENSION_API_KEY);
@@ -1931,12 +1988,17 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
     req.on("end", async () => {
       try {
         const data = JSON.parse(body);
-        const { agent_type, work_item_id, message } = data;
+        const { agent_type, work_item_id, message, priority, queue_ttl_ms } = data;
         if (!agent_type || !work_item_id) {
           res.writeHead(400, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "agent_type and work_item_id are required" }));
           return;
         }
+        if (priority !== undefined && !DISPATCH_PRIORITIES.includes(priority)) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: `priority must be one of ${DISPATCH_PRIORITIES.join(", ")}` }));
+          return;
+        }
 
         // ELLIE-924: Log deprecation warning
         logger.warn("DEPRECATED: /api/orchestration/dispatch called. Use Agent tool for interactive work.", {
@@ -1959,6 +2021,8 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
           workItemId: work_item_id,
           channel: "api",
           message: message || `Work on ${work_item_id}`,
+          priority,
+          queueTtlMs: typeof queue_ttl_ms === "number" && queue_ttl_ms > 0 ? queue_ttl_ms : undefined,
           playbookCtx: {
             bot: relayBot,
             supabase: relaySb,
@@ -2001,13 +2065,6 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
     if (handled) return;
   }
 
-  // ── ELLIE-975/976: Scheduled Tasks CRUD + tick ──
-  if (url.pathname.startsWith("/api/scheduled-tasks")) {
-    const { handleScheduledTasksRoute } = await import("./api/scheduled-tasks.ts");
-    const handled = await handleScheduledTasksRoute(req, res, url.pathname);
-    if (handled) return;
-  }
-
   // ── ELLIE-946: Spawn Sub-Agent — POST /api/spawn ──
   if (url.pathname === "/api/spawn" && req.method === "POST") {
     let body = "";
@@ -2386,6 +2443,114 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
     return;
   }
 
+  // UMS redelivery queue — GET /api/ums/deliveries?consumer=&status=
+  if (url.pathname === "/api/ums/deliveries" && req.method === "GET") {
+    const consumer = url.searchParams.get("consumer") || undefined;
+    const status = url.searchParams.get("status");
+    const deliveries = listDeliveries({
+      consumer,
+      status: status === "pending" || status === "dead_letter" ? status : undefined,
+    });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ deliveries }));
+    return;
+  }
+
+  // UMS dead letters — GET /api/ums/dead-letters?consumer=
+  if (url.pathname === "/api/ums/dead-letters" && req.method === "GET") {
+    const deadLetters = listUmsDeadLetters(url.searchParams.get("consumer") || undefined);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ dead_letters: deadLetters }));
+    return;
+  }
+
+  // UMS dead letter requeue — POST /api/ums/consumers/:name/dead-letters/:messageId/requeue
+  const requeueMatch = url.pathname.match(/^\/api\/ums\/consumers\/([^/]+)\/dead-letters\/([^/]+)\/requeue$/);
+  if (requeueMatch && req.method === "POST") {
+    (async () => {
+      const [, name, messageId] = requeueMatch.map(decodeURIComponent);
+      const ok = await requeueDeadLetter(supabase, name, messageId);
+      res.writeHead(ok ? 200 : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(ok ? { ok: true, consumer: name, message_id: messageId } : { error: "Dead letter not found" }));
+    })().catch((err) => {
+      logger.error("UMS dead letter requeue failed", err);
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Requeue failed" }));
+    });
+    return;
+  }
+
+  // UMS email archive import — POST /api/ums/import/email
+  // Body: { messages?: string[] (raw RFC 5322), mbox?: string, source?, mailbox? }
+  if (url.pathname === "/api/ums/import/email" && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
+    req.on("end", async () => {
+      try {
+        if (!supabase) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Supabase not configured" }));
+          return;
+        }
+        const data = JSON.parse(body || "{}");
+        const messages: string[] = Array.isArray(data.messages) ? data.messages.filter((m: unknown) => typeof m === "string") : [];
+        if (typeof data.mbox === "string") messages.push(...splitMbox(data.mbox));
+        if (messages.length === 0) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "messages array or mbox string required" }));
+          return;
+        }
+        const result = await importEmails(supabase, messages, { source: data.source, mailbox: data.mailbox });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result));
+      } catch (err) {
+        logger.error("UMS email import failed", err);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Email import failed" }));
+      }
+    });
+    return;
+  }
+
+  // UMS consumer replay — POST /api/ums/consumers/:name/replay
+  // Body: { from_message_id?, since?, until?, limit? } — omit both starts to resume from the watermark
+  if (url.pathname.startsWith("/api/ums/consumers/") && url.pathname.endsWith("/replay") && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
+    req.on("end", async () => {
+      const name = decodeURIComponent(url.pathname.slice("/api/ums/consumers/".length, -"/replay".length));
+      try {
+        if (!supabase) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Supabase not configured" }));
+          return;
+        }
+        let data: { from_message_id?: string; since?: string; until?: string; limit?: number };
+        try {
+          data = body ? JSON.parse(body) : {};
+        } catch {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Invalid JSON body" }));
+          return;
+        }
+        const result = await replayConsumer(supabase, name, {
+          fromMessageId: data.from_message_id,
+          since: data.since,
+          until: data.until,
+          limit: data.limit,
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result));
+      } catch (err) {
+        logger.error("UMS replay failed", { consumer: name, err });
+        const message = err instanceof Error ? err.message : String(err);
+        res.writeHead(message.startsWith("Unknown UMS subscriber") ? 404 : 500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: message }));
+      }
+    });
+    return;
+  }
+
   // JWT token endpoint — exchange API key for a short-lived JWT (ELLIE-233)
   if (url.pathname === "/api/auth/token" && req.method === "POST") {
     let body = "";
@@ -2443,12 +2608,15 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
           return;
         }
         const fast = data.fast === true || url.searchParams.get("fast") === "1";
-        const providerOverride = (data.provider === "elevenlabs" || data.provider === "openai") ? data.provider : undefined;
+        const request = {
+          provider: typeof data.provider === "string" ? data.provider : undefined,
+          voice: typeof data.voice === "string" ? data.voice : undefined,
+        };
 
         // ELLIE-258: Stream audio directly from provider to client
         const stream = fast
-          ? await textToSpeechFastStream(data.text, providerOverride)
-          : await textToSpeechOggStream(data.text, providerOverride);
+          ? await textToSpeechFastStream(data.text, request)
+          : await textToSpeechOggStream(data.text, request);
         if (!stream) {
           res.writeHead(503, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "TTS unavailable" }));
@@ -2487,7 +2655,7 @@ export async function handleHttpRequest(req: IncomingMessage, res: ServerRespons
           res.end(JSON.stringify({ error: "No audio data" }));
           return;
         }
-        const text = await transcribe(audioBuffer);
+        const text = await transcribe(audioBuffer, { channel: "dashboard" });
         if (!text) {
           res.writeHead(200, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ text: "", error: "Could not transcribe" }));
@@ -3371,7 +3539,7 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
     (async () => {
       try {
         const { loadSkillEntries } = await import("./skills/loader.ts");
-        const { filterEligibleSkills } = await import("./skills/eligibility.ts");
+        const { filterEligibleSkills, getCredentialDomains } = await import("./skills/eligibility.ts");
         const { getSkillSnapshot } = await import("./skills/snapshot.ts");
         const { SKILL_LIMITS } = await import("./skills/types.ts");
 
@@ -3381,13 +3549,7 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
         const eligibleNames = new Set(eligible.map(s => s.name));
 
         // Build per-requirement met/unmet status for dashboard
-        // Fetch credential domains from The Hollow (ELLIE-253)
-        let credentialDomains: Set<string> = new Set();
-        try {
-          const { listCredentialDomains } = await import("../../ellie-forest/src/hollow");
-          const domains = await listCredentialDomains();
-          credentialDomains = new Set(domains);
-        } catch {}
+        const credentialDomains = await getCredentialDomains();
 
         const skills = allSkills.map(s => {
           const reqs: Array<{ type: string; key: string; met: boolean }> = [];
@@ -3459,7 +3621,7 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
     (async () => {
       try {
         const { loadSkillEntries } = await import("./skills/loader.ts");
-        const { filterEligibleSkills } = await import("./skills/eligibility.ts");
+        const { filterEligibleSkills, getCredentialDomains } = await import("./skills/eligibility.ts");
 
         const allSkills = await loadSkillEntries();
         const skill = allSkills.find(s => s.name === skillName);
@@ -3474,12 +3636,7 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
         const isEligible = eligible.some(s => s.name === skillName);
 
         // Build requirement status
-        let credentialDomains: Set<string> = new Set();
-        try {
-          const { listCredentialDomains } = await import("../../ellie-forest/src/hollow");
-          const domains = await listCredentialDomains();
-          credentialDomains = new Set(domains);
-        } catch {}
+        const credentialDomains = await getCredentialDomains();
 
         const reqs: Array<{ type: string; key: string; met: boolean }> = [];
         if (skill.frontmatter.requires?.env) {
@@ -4426,8 +4583,18 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
           }
         }
 
+        const { supabase } = getRelayDeps();
+        if (!supabase) {
+          res.writeHead(503, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Vault unavailable" }));
+          return;
+        }
         const { sql } = await import("../../ellie-forest/src/index");
-        const { retrieveSecret, storeSecret } = await import("../../ellie-forest/src/hollow");
+        const vault = await import("./vault.ts");
+        const retrieveSecret = (keychainId: string, key: string) =>
+          vault.retrieveSecret(supabase, keychainId, key, { actor: "os-auth", purpose: key });
+        const storeSecret = (keychainId: string, key: string, value: string) =>
+          vault.storeSecret(supabase, keychainId, key, value);
 
         const mockReq: ApiRequest & { headers: Record<string, string> } = {
           body: data,
@@ -5457,90 +5624,6 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
     return;
   }
 
-  // Vault credential endpoints (ELLIE-32)
-  if (url.pathname.startsWith("/api/vault/")) {
-    let body = "";
-    req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
-    req.on("end", async () => {
-      try {
-        let data: Record<string, unknown> = {};
-        if (body) {
-          try {
-            data = JSON.parse(body);
-          } catch (parseErr) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "Invalid JSON body" }));
-            return;
-          }
-        }
-
-        const {
-          createVaultCredential, listVaultCredentials, getVaultCredential,
-          updateVaultCredential, deleteVaultCredential,
-          resolveVaultCredential, authenticatedFetch,
-        } = await import("./api/vault.ts");
-
-        // Parse query params for GET requests
-        const queryParams: Record<string, string> = {};
-        url.searchParams.forEach((v: string, k: string) => { queryParams[k] = v; });
-
-        // Extract ID from path: /api/vault/credentials/:id
-        const pathParts = url.pathname.replace("/api/vault/", "").split("/");
-        const segment = pathParts[0]; // "credentials", "resolve", or "fetch"
-        const id = pathParts[1] || null;
-
-        const mockReq: ApiRequest = { body: data, params: { id }, query: queryParams };
-        const mockRes: ApiResponse = {
-          status: (code: number) => ({
-            json: (data: unknown) => {
-              res.writeHead(code, { "Content-Type": "application/json" });
-              res.end(JSON.stringify(data));
-            }
-          }),
-          json: (data: unknown) => {
-            res.writeHead(200, { "Content-Type": "application/json" });
-            res.end(JSON.stringify(data));
-          }
-        };
-
-        if (!supabase) {
-          res.writeHead(500, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: "Database not configured" }));
-          return;
-        }
-
-        if (segment === "credentials") {
-          if (req.method === "POST" && !id) {
-            await createVaultCredential(mockReq, mockRes, supabase);
-          } else if (req.method === "GET" && !id) {
-            await listVaultCredentials(mockReq, mockRes, supabase);
-          } else if (req.method === "GET" && id) {
-            await getVaultCredential(mockReq, mockRes, supabase);
-          } else if (req.method === "PATCH" && id) {
-            await updateVaultCredential(mockReq, mockRes, supabase);
-          } else if (req.method === "DELETE" && id) {
-            await deleteVaultCredential(mockReq, mockRes, supabase);
-          } else {
-            res.writeHead(405, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "Method not allowed" }));
-          }
-        } else if (segment === "resolve" && req.method === "POST") {
-          await resolveVaultCredential(mockReq, mockRes, supabase);
-        } else if (segment === "fetch" && req.method === "POST") {
-          await authenticatedFetch(mockReq, mockRes, supabase);
-        } else {
-          res.writeHead(404, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: "Unknown vault endpoint" }));
-        }
-      } catch (err) {
-        logger.error("Vault error", err);
-        res.writeHead(500, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "Internal server error" }));
-      }
-    });
-    return;
-  }
-
   // Comms endpoints (ELLIE-318) — extracted to api/routes/comms.ts
   if (await handleCommsRoute(req, res, url, supabase)) return;
 
@@ -5942,6 +6025,11 @@ If no Forest-worthy knowledge exists, return: { "candidates": [] }`;
   // Agent memory (ELLIE-1027) — per-agent filesystem-based persistent memory
   if (await handleAgentMemoryRoute(req, res, url, supabase)) return;
 
+  // Workflow dry-run simulator — mocked agents, in-memory checkpoints
+  if (await handleWorkflowsRoute(req, res, url)) return;
+  if (await handleDispatchQueueRoute(req, res, url)) return;
+  if (await handleTracesRoute(req, res, url)) return;
+
   // Rollup endpoints
   if (url.pathname.startsWith("/api/rollup/") && req.method === "POST") {
     let body = "";
@@ -37,6 +37,7 @@ import { getConversationContext } from "./conversations.ts";
 import { matchSkillCommand } from "./skills/commands.ts";
 import { matchWorkflow } from "./workflow-templates.ts";
 import { log } from "./logger.ts";
+import { completeWithoutAnthropic, isOutageError } from "./llm-provider.ts";
 import { writeToDisk, readFromDisk } from "./config-cache.ts";
 import { buildRoutingDecision, logRoutingDecision } from "./routing-decision-log.ts";
 
@@ -532,16 +533,7 @@ async function classifyWithHaiku(
   const prompt = buildClassifierPrompt(message, agents, skills, conversationContext);
 
   try {
-    const response = await _anthropic!.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 250,
-      messages: [{ role: "user", content: prompt }],
-    });
-
-    const text = response.content
-      .filter((b: { type: string }) => b.type === "text")
-      .map((b: { type: string; text: string }) => b.text)
-      .join("");
+    const text = await classifierText(prompt);
 
     const cleaned = text
       .trim()
@@ -615,6 +607,25 @@ async function classifyWithHaiku(
   }
 }
 
+/** Haiku's reply, or the "classification" chain without Anthropic while the API is down. */
+async function classifierText(prompt: string): Promise<string> {
+  try {
+    const response = await _anthropic!.messages.create({
+      model: "claude-haiku-4-5-20251001",
+      max_tokens: 250,
+      messages: [{ role: "user", content: prompt }],
+    });
+    return response.content
+      .filter((b: { type: string }) => b.type === "text")
+      .map((b: { type: string; text: string }) => b.text)
+      .join("");
+  } catch (err) {
+    if (!isOutageError(err)) throw err;
+    logger.warn("Haiku unavailable — classifying with a fallback provider", { error: err instanceof Error ? err.message : String(err) });
+    return completeWithoutAnthropic("classification", prompt, { max_tokens: 250 });
+  }
+}
+
 function buildClassifierPrompt(
   message: string,
   agents: AgentDescription[],
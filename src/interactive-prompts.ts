@@ -0,0 +1,318 @@
+/**
+ * Interactive Prompts — channel-neutral questions with buttons
+ *
+ * Tool approvals (tool-approval.ts), formation approval gates
+ * (formation-approvals.ts) and ask-user questions (ask-user-queue.ts) each
+ * keep their own pending state; this module gives them one way to ask
+ * on chat platforms with native buttons. A prompt is a question, its
+ * options, an expiry and who may answer it.
+ *
+ * openPrompt() posts the prompt to every started channel adapter that
+ * has buttons and a notification target (INTERACTIVE_PROMPT_CHANNELS,
+ * default Slack, Discord and Google Chat). Each platform's verified
+ * interaction callback decodes the button id and calls answerPrompt(),
+ * which checks the responder, resolves the pending item through the
+ * prompt's onAnswer and edits every posted copy to show the outcome.
+ * closePrompt() does the same for items resolved elsewhere (Ellie Chat,
+ * Telegram, timeouts) so stale buttons don't linger.
+ *
+ * Env vars:
+ *   INTERACTIVE_PROMPT_CHANNELS — comma-separated adapter ids (default slack,discord,google-chat)
+ *   SLACK_ALLOWED_USER_ID / DISCORD_ALLOWED_USER_ID / GOOGLE_CHAT_ALLOWED_EMAIL
+ *     — who may answer on each channel when a prompt names no responders.
+ *       Unset means nobody may answer there.
+ */
+
+import { randomUUID } from "crypto";
+import { log } from "./logger.ts";
+import type { MessageButton, OutboundTarget } from "./channels/adapter.ts";
+
+const logger = log.child("interactive-prompts");
+
+// ── Types ────────────────────────────────────────────────────
+
+export type PromptKind = "tool_approval" | "formation_approval" | "question";
+
+export interface PromptOption {
+  id: string;
+  label: string;
+}
+
+/** Someone pressing a button: adapter id + the platform's user id (email on Google Chat). */
+export interface PromptResponder {
+  channel: string;
+  userId: string;
+  /** Platform message the button was on, when the callback updates it itself. */
+  messageId?: string;
+}
+
+export interface OpenPromptInput {
+  kind: PromptKind;
+  /** Id of the pending item in its own module (approval id, question id). */
+  itemId: string;
+  question: string;
+  options: PromptOption[];
+  expiresAt: number;
+  /** Who may answer; null or empty means each channel's allow list. */
+  responders?: { channel: string; userId: string }[] | null;
+  /** Resolve the pending item. Called at most once. */
+  onAnswer(optionId: string, responder: PromptResponder): void | Promise<void>;
+}
+
+export interface InteractivePrompt {
+  id: string;
+  kind: PromptKind;
+  itemId: string;
+  question: string;
+  options: PromptOption[];
+  expiresAt: number;
+  responders: { channel: string; userId: string }[] | null;
+  createdAt: number;
+}
+
+export type PromptAnswerResult =
+  | { status: "answered"; prompt: InteractivePrompt; option: PromptOption; text: string }
+  | { status: "not_found" }
+  | { status: "forbidden"; prompt: InteractivePrompt }
+  | { status: "invalid_option"; prompt: InteractivePrompt };
+
+/** One posted copy of a prompt. */
+export interface PromptDelivery {
+  channel: string;
+  target: OutboundTarget;
+  messageId: string;
+}
+
+/** How a prompt reaches the platforms — swapped out in tests. */
+export interface PromptPublisher {
+  publish(prompt: InteractivePrompt, buttons: MessageButton[]): Promise<PromptDelivery[]>;
+  update(deliveries: PromptDelivery[], text: string): Promise<void>;
+}
+
+interface OpenEntry {
+  prompt: InteractivePrompt;
+  onAnswer: OpenPromptInput["onAnswer"];
+  deliveries: Promise<PromptDelivery[]>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ── Button ids ───────────────────────────────────────────────
+
+const ACTION_PREFIX = "ip:";
+
+/** Button id for an option: `ip:<promptId>:<optionId>` (fits Telegram's 64-byte callback_data). */
+export function encodePromptAction(promptId: string, optionId: string): string {
+  return `${ACTION_PREFIX}${promptId}:${optionId}`;
+}
+
+/** Inverse of encodePromptAction; null for button ids that aren't prompt answers. */
+export function decodePromptAction(actionId: string): { promptId: string; optionId: string } | null {
+  if (!actionId.startsWith(ACTION_PREFIX)) return null;
+  const rest = actionId.slice(ACTION_PREFIX.length);
+  const sep = rest.lastIndexOf(":");
+  if (sep <= 0 || sep === rest.length - 1) return null;
+  return { promptId: rest.slice(0, sep), optionId: rest.slice(sep + 1) };
+}
+
+// ── Responders ───────────────────────────────────────────────
+
+const CHANNEL_ALLOW_LISTS: Record<string, string> = {
+  slack: "SLACK_ALLOWED_USER_ID",
+  discord: "DISCORD_ALLOWED_USER_ID",
+  "google-chat": "GOOGLE_CHAT_ALLOWED_EMAIL",
+  telegram: "TELEGRAM_USER_ID",
+  matrix: "MATRIX_ALLOWED_USER_ID",
+};
+
+/** Whether this responder may answer the prompt. Ids compare case-insensitively (emails). */
+export function mayAnswerPrompt(prompt: Pick<InteractivePrompt, "responders">, responder: PromptResponder): boolean {
+  const userId = responder.userId.toLowerCase();
+  if (!userId) return false;
+  if (prompt.responders?.length) {
+    return prompt.responders.some(r => r.channel === responder.channel && r.userId.toLowerCase() === userId);
+  }
+  const envKey = CHANNEL_ALLOW_LISTS[responder.channel];
+  const allowed = envKey ? process.env[envKey] : undefined;
+  if (!allowed) {
+    logger.warn("No allow list for prompt responders — rejecting", { channel: responder.channel, envKey });
+    return false;
+  }
+  return allowed.split(",").some(id => id.trim().toLowerCase() === userId);
+}
+
+// ── Rendering ────────────────────────────────────────────────
+
+const KIND_TITLES: Record<PromptKind, string> = {
+  tool_approval: "🔐 Tool approval",
+  formation_approval: "🛂 Formation approval",
+  question: "❓ Question",
+};
+
+/** Message text posted with the buttons. Pure function. */
+export function promptText(prompt: Pick<InteractivePrompt, "kind" | "question" | "expiresAt">): string {
+  const minutes = Math.max(1, Math.round((prompt.expiresAt - Date.now()) / 60_000));
+  return `**${KIND_TITLES[prompt.kind]}**\n${prompt.question}\n\n_Expires in ${minutes} min._`;
+}
+
+/** Text the posted copies are edited to once the prompt is closed. Pure function. */
+export function closedPromptText(prompt: Pick<InteractivePrompt, "kind" | "question">, outcome: string): string {
+  return `**${KIND_TITLES[prompt.kind]}**\n${prompt.question}\n\n${outcome}`;
+}
+
+/** What to tell someone whose button press didn't answer the prompt. */
+export function promptAnswerFailureText(status: Exclude<PromptAnswerResult["status"], "answered">): string {
+  switch (status) {
+    case "not_found": return "This prompt has expired or was already answered.";
+    case "forbidden": return "You're not allowed to answer this prompt.";
+    case "invalid_option": return "That option is no longer available.";
+  }
+}
+
+// ── Default publisher: channel adapters ──────────────────────
+
+function promptChannels(): string[] {
+  return (process.env.INTERACTIVE_PROMPT_CHANNELS ?? "slack,discord,google-chat")
+    .split(",").map(s => s.trim()).filter(Boolean);
+}
+
+const adapterPublisher: PromptPublisher = {
+  async publish(prompt, buttons) {
+    const { getChannelAdapter, isChannelAdapterStarted } = await import("./channels/registry.ts");
+    const deliveries: PromptDelivery[] = [];
+    for (const id of promptChannels()) {
+      const adapter = getChannelAdapter(id);
+      if (!adapter?.send || !adapter.capabilities.buttons || !isChannelAdapterStarted(id)) continue;
+      const target = adapter.notificationTarget?.();
+      if (!target) continue;
+      try {
+        const receipt = await adapter.send(target, { text: adapter.format(promptText(prompt)), buttons });
+        const messageId = receipt.messageIds[receipt.messageIds.length - 1];
+        if (messageId) deliveries.push({ channel: id, target: { ...target, threadId: receipt.threadId }, messageId });
+      } catch (err) {
+        logger.warn("Prompt send failed", { channel: id, promptId: prompt.id.slice(0, 8), error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    return deliveries;
+  },
+
+  async update(deliveries, text) {
+    const { getChannelAdapter } = await import("./channels/registry.ts");
+    await Promise.all(deliveries.map(async d => {
+      const adapter = getChannelAdapter(d.channel);
+      if (!adapter?.edit) return;
+      await adapter.edit(d.target, d.messageId, adapter.format(text)).catch(err => {
+        logger.warn("Prompt update failed", { channel: d.channel, error: err instanceof Error ? err.message : String(err) });
+      });
+    }));
+  },
+};
+
+let _publisher: PromptPublisher = adapterPublisher;
+
+export function setPromptPublisher(publisher: PromptPublisher | null): void {
+  _publisher = publisher ?? adapterPublisher;
+}
+
+// ── Lifecycle ────────────────────────────────────────────────
+
+const _open = new Map<string, OpenEntry>();
+
+/**
+ * Post a prompt to the button-capable channels. Returns immediately with
+ * the prompt; sending happens in the background. The prompt closes itself
+ * as "expired" at expiresAt — the owning module still times out its item.
+ */
+export function openPrompt(input: OpenPromptInput): InteractivePrompt {
+  const prompt: InteractivePrompt = {
+    id: randomUUID(),
+    kind: input.kind,
+    itemId: input.itemId,
+    question: input.question,
+    options: input.options,
+    expiresAt: input.expiresAt,
+    responders: input.responders?.length ? input.responders : null,
+    createdAt: Date.now(),
+  };
+  const buttons = prompt.options.map(o => ({ id: encodePromptAction(prompt.id, o.id), label: o.label }));
+  const deliveries = _publisher.publish(prompt, buttons).catch(err => {
+    logger.warn("Prompt publish failed", { promptId: prompt.id.slice(0, 8), error: err instanceof Error ? err.message : String(err) });
+    return [] as PromptDelivery[];
+  });
+  const timer = setTimeout(() => { void closeEntry(prompt.id, "⌛ Expired"); }, Math.max(0, prompt.expiresAt - Date.now()));
+  timer.unref?.();
+  _open.set(prompt.id, { prompt, onAnswer: input.onAnswer, deliveries, timer });
+  logger.info("Prompt opened", { promptId: prompt.id.slice(0, 8), kind: prompt.kind, itemId: prompt.itemId.slice(0, 8) });
+  return prompt;
+}
+
+async function closeEntry(promptId: string, outcome: string): Promise<void> {
+  const entry = _open.get(promptId);
+  if (!entry) return;
+  _open.delete(promptId);
+  await finish(entry, outcome);
+}
+
+/** Stop the expiry timer and edit the posted copies to show the outcome. */
+async function finish(entry: OpenEntry, outcome: string, skipMessageId?: string): Promise<string> {
+  clearTimeout(entry.timer);
+  const text = closedPromptText(entry.prompt, outcome);
+  const deliveries = (await entry.deliveries).filter(d => d.messageId !== skipMessageId);
+  if (deliveries.length) await _publisher.update(deliveries, text);
+  return text;
+}
+
+/**
+ * Answer a prompt from a platform button press. The caller has already
+ * verified the callback came from the platform; this checks the responder
+ * may answer. Closed and expired prompts report not_found.
+ */
+export async function answerPrompt(promptId: string, optionId: string, responder: PromptResponder): Promise<PromptAnswerResult> {
+  const entry = _open.get(promptId);
+  if (!entry || entry.prompt.expiresAt <= Date.now()) return { status: "not_found" };
+  const { prompt } = entry;
+  if (!mayAnswerPrompt(prompt, responder)) {
+    logger.warn("Prompt answer rejected", { promptId: promptId.slice(0, 8), channel: responder.channel, userId: responder.userId });
+    return { status: "forbidden", prompt };
+  }
+  const option = prompt.options.find(o => o.id === optionId);
+  if (!option) return { status: "invalid_option", prompt };
+
+  // Close before resolving so a concurrent press on another platform sees not_found
+  _open.delete(promptId);
+  logger.info("Prompt answered", { promptId: promptId.slice(0, 8), kind: prompt.kind, option: optionId, channel: responder.channel });
+  try {
+    await entry.onAnswer(option.id, responder);
+  } catch (err) {
+    logger.error("Prompt answer handler failed", { promptId: promptId.slice(0, 8), error: err instanceof Error ? err.message : String(err) });
+  }
+  const text = await finish(entry, `${option.label} — by ${responder.userId} on ${responder.channel}`, responder.messageId);
+  return { status: "answered", prompt, option, text };
+}
+
+/**
+ * Close the prompt for an item resolved some other way (Ellie Chat,
+ * Telegram, a text reply, its own timeout). No-op when none is open.
+ */
+export async function closePrompt(kind: PromptKind, itemId: string, outcome: string): Promise<void> {
+  for (const entry of _open.values()) {
+    if (entry.prompt.kind === kind && entry.prompt.itemId === itemId) {
+      await closeEntry(entry.prompt.id, outcome);
+      return;
+    }
+  }
+}
+
+export function getOpenPrompt(promptId: string): InteractivePrompt | null {
+  return _open.get(promptId)?.prompt ?? null;
+}
+
+export function listOpenPrompts(): InteractivePrompt[] {
+  return [..._open.values()].map(e => e.prompt);
+}
+
+/** For testing only. */
+export function _resetInteractivePromptsForTesting(): void {
+  for (const entry of _open.values()) clearTimeout(entry.timer);
+  _open.clear();
+  _publisher = adapterPublisher;
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON Schema — the subset the relay uses to describe and validate
+ * request bodies (route manifests, OpenAPI generation).
+ *
+ * Supported keywords: type (single or list), properties, required,
+ * additionalProperties (boolean), items, enum, minLength, maxLength,
+ * pattern, minimum, maximum, format (documentation only), description.
+ * Anything else is carried through to OpenAPI but not enforced.
+ */
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaError {
+  /** JSON-pointer-ish path to the offending value ("" = root). */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/** Validate a value; returns every violation found (empty = valid). */
+export function validateJson(schema: JsonSchema, value: unknown, path = ""): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const at = path || "/";
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push({ path: at, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(v => v === value)) {
+    errors.push({ path: at, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(", ")}` });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJson(schema.items!, item, `${path}/${i}`)));
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push({ path: `${path}/${key}`, message: "is required" });
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        if (child !== undefined) errors.push(...validateJson(propSchema, child, `${path}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}/${key}`, message: "is not allowed" });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** One-line summary of validation errors for 400 responses and logs. */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(e => `${e.path} ${e.message}`).join("; ");
+}
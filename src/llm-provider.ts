@@ -1,15 +1,23 @@
 /**
- * LLM Provider Fallback — ELLIE-408
+ * LLM Provider Registry & Fallback — ELLIE-408
  *
- * Tracks Anthropic availability and provides OpenAI (GPT-4o) fallback
- * for basic conversation when Claude is unreachable.
+ * Providers (Anthropic, OpenAI, any local OpenAI-compatible endpoint such as
+ * llama.cpp or Ollama, and a deterministic fake for tests) share one
+ * chat/tool-call interface. Each use case — coordinator, summaries,
+ * classification, conversation — has an ordered failover chain; chat()
+ * walks it, skipping providers whose health says they're down until their
+ * recovery probe window comes round.
  *
- * Flow:
+ * Anthropic outage flow (the Claude CLI path reports into the same health):
  *   - callClaude() succeeds → recordAnthropicSuccess() resets failure counter
  *   - callClaude() fails with outage error → recordAnthropicFailure() bumps counter
  *   - After FAILURE_THRESHOLD consecutive failures → fallback activates
  *   - Recovery probe runs every 2 min via relay housekeeping interval
  *   - On successful probe → recordAnthropicSuccess() deactivates fallback
+ *
+ * Env: ANTHROPIC_API_KEY, OPENAI_API_KEY, LLM_LOCAL_BASE_URL (e.g.
+ * http://localhost:11434/v1), LLM_LOCAL_MODEL, LLM_LOCAL_API_KEY, and
+ * LLM_CHAIN_<USE_CASE> to override a chain ("local:qwen2.5,anthropic").
  */
 
 import { readFile } from "node:fs/promises";
@@ -21,14 +29,119 @@ const logger = log.child("llm-provider");
 const FAILURE_THRESHOLD = 2;
 const RECOVERY_PROBE_MS = 120_000; // 2 minutes
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
 const PROJECT_ROOT = dirname(dirname(import.meta.path));
 const SOUL_PATH = join(PROJECT_ROOT, "config", "soul.md");
 
+// ── Types ────────────────────────────────────────────────────
+
+export type LlmUseCase = "coordinator" | "summaries" | "classification" | "conversation";
+
+export const LLM_USE_CASES: readonly LlmUseCase[] = ["coordinator", "summaries", "classification", "conversation"];
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool input. */
+  input_schema: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; tool_calls?: ToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+export interface ChatRequest {
+  /**
+   * Model for the requested provider — `opts.prefer`, else the head of the
+   * chain. Other providers use their chain entry's model, then their default.
+   */
+  model?: string;
+  system?: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  max_tokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  provider: string;
+  model: string;
+  text: string;
+  tool_calls: ToolCall[];
+  stop_reason: "end" | "tool_use" | "max_tokens";
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export interface LlmProvider {
+  name: string;
+  defaultModel: string;
+  /** True when requests never leave this machine / network. */
+  isLocal: boolean;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/** One link in a failover chain. Without a model the provider's default is used. */
+export interface ChainEntry {
+  provider: string;
+  model?: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  consecutive_failures: number;
+  /** Set once FAILURE_THRESHOLD consecutive outage errors are seen; cleared by a success. */
+  degraded: boolean;
+  last_error: string | null;
+  last_failure_at: number | null;
+  last_success_at: number | null;
+}
+
+export interface ChatOpts {
+  /** Try this provider (and model) first, ahead of the chain — e.g. from a step stylesheet. */
+  prefer?: ChainEntry;
+  /** Providers to leave out of this call. */
+  exclude?: string[];
+  now?: number;
+}
+
+// ── Default chains ───────────────────────────────────────────
+
+export const DEFAULT_CHAINS: Record<LlmUseCase, ChainEntry[]> = {
+  coordinator: [
+    { provider: "anthropic", model: "claude-sonnet-4-6" },
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "local" },
+  ],
+  summaries: [
+    { provider: "anthropic", model: "claude-haiku-4-5-20251001" },
+    { provider: "local" },
+    { provider: "openai", model: "gpt-4o-mini" },
+  ],
+  classification: [
+    { provider: "anthropic", model: "claude-haiku-4-5-20251001" },
+    { provider: "local" },
+    { provider: "openai", model: "gpt-4o-mini" },
+  ],
+  conversation: [
+    { provider: "anthropic", model: "claude-sonnet-4-6" },
+    { provider: "openai", model: "gpt-4o" },
+    { provider: "local" },
+  ],
+};
+
 // ── State ────────────────────────────────────────────────────
 
-let consecutiveFailures = 0;
-let fallbackActive = false;
+const providers = new Map<string, LlmProvider>();
+const health = new Map<string, ProviderHealth>();
+const chains = new Map<LlmUseCase, ChainEntry[]>();
+let defaultsRegistered = false;
 let fallbackJustActivated = false;
 let lastRecoveryProbeAt = 0;
 let soulPromptCache: string | null = null;
@@ -50,30 +163,71 @@ export function isOutageError(err: unknown): boolean {
   );
 }
 
-// ── Failure tracking ─────────────────────────────────────────
+// ── Provider health ──────────────────────────────────────────
 
-export function recordAnthropicSuccess(): void {
-  if (consecutiveFailures > 0 || fallbackActive) {
-    logger.info(`Anthropic back online after ${consecutiveFailures} failures`);
+function healthOf(provider: string): ProviderHealth {
+  let h = health.get(provider);
+  if (!h) {
+    h = { provider, consecutive_failures: 0, degraded: false, last_error: null, last_failure_at: null, last_success_at: null };
+    health.set(provider, h);
   }
-  consecutiveFailures = 0;
-  fallbackActive = false;
+  return h;
+}
+
+export function recordProviderSuccess(provider: string, now = Date.now()): void {
+  const h = healthOf(provider);
+  if (h.consecutive_failures > 0 || h.degraded) {
+    logger.info(`${provider} back online after ${h.consecutive_failures} failures`);
+  }
+  h.consecutive_failures = 0;
+  h.degraded = false;
+  h.last_success_at = now;
+}
+
+/** Count an outage error against a provider. Returns true if this failure degraded it. */
+export function recordProviderFailure(provider: string, err: unknown, now = Date.now()): boolean {
+  if (!isOutageError(err)) return false; // ignore non-outage errors (user input errors, etc.)
+  const h = healthOf(provider);
+  const message = err instanceof Error ? err.message : String(err);
+  h.consecutive_failures++;
+  h.last_error = message.substring(0, 200);
+  h.last_failure_at = now;
+  logger.warn(`${provider} failure #${h.consecutive_failures}: ${message.substring(0, 100)}`);
+  if (!h.degraded && h.consecutive_failures >= FAILURE_THRESHOLD) {
+    h.degraded = true;
+    logger.warn(`${provider} outage threshold reached — failing over`);
+    return true;
+  }
+  return false;
+}
+
+export function getProviderHealth(provider: string): ProviderHealth {
+  return { ...healthOf(provider) };
+}
+
+export function listProviderHealth(): ProviderHealth[] {
+  return [...providers.keys()].map(getProviderHealth);
+}
+
+/** Degraded providers get one trial request per recovery window. */
+function isAvailable(provider: string, now: number): boolean {
+  const h = healthOf(provider);
+  return !h.degraded || now - (h.last_failure_at ?? 0) >= RECOVERY_PROBE_MS;
+}
+
+// ── Anthropic fallback state (Claude CLI path) ───────────────
+
+export function recordAnthropicSuccess(): void {
+  recordProviderSuccess("anthropic");
   fallbackJustActivated = false;
 }
 
 export function recordAnthropicFailure(err: unknown): void {
-  if (!isOutageError(err)) return; // ignore non-outage errors (user input errors, etc.)
-  consecutiveFailures++;
-  logger.warn(`Anthropic failure #${consecutiveFailures}: ${err instanceof Error ? err.message.substring(0, 100) : String(err).substring(0, 100)}`);
-  if (!fallbackActive && consecutiveFailures >= FAILURE_THRESHOLD) {
-    fallbackActive = true;
-    fallbackJustActivated = true;
-    logger.warn("Anthropic outage threshold reached — activating OpenAI fallback");
-  }
+  if (recordProviderFailure("anthropic", err)) fallbackJustActivated = true;
 }
 
 export function isFallbackActive(): boolean {
-  return fallbackActive;
+  return healthOf("anthropic").degraded;
 }
 
 /**
@@ -89,7 +243,7 @@ export function consumeFallbackJustActivated(): boolean {
 }
 
 export function shouldProbeRecovery(): boolean {
-  if (!fallbackActive) return false;
+  if (!isFallbackActive()) return false;
   return Date.now() - lastRecoveryProbeAt >= RECOVERY_PROBE_MS;
 }
 
@@ -97,6 +251,363 @@ export function markRecoveryProbeAttempted(): void {
   lastRecoveryProbeAt = Date.now();
 }
 
+// ── Registry ─────────────────────────────────────────────────
+
+export function registerProvider(provider: LlmProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function unregisterProvider(name: string): void {
+  providers.delete(name);
+}
+
+export function getProvider(name: string): LlmProvider | null {
+  ensureDefaultProviders();
+  return providers.get(name) ?? null;
+}
+
+export function listProviders(): LlmProvider[] {
+  ensureDefaultProviders();
+  return [...providers.values()];
+}
+
+export function setChain(useCase: LlmUseCase, entries: ChainEntry[]): void {
+  chains.set(useCase, entries);
+}
+
+/** The configured chain: setChain(), else LLM_CHAIN_<USE_CASE>, else the default. */
+export function getChain(useCase: LlmUseCase): ChainEntry[] {
+  const set = chains.get(useCase);
+  if (set) return set;
+  const fromEnv = process.env[`LLM_CHAIN_${useCase.toUpperCase()}`];
+  return fromEnv ? fromEnv.split(",").map(s => parseModelRef(s.trim())).filter(e => e.provider) as ChainEntry[] : DEFAULT_CHAINS[useCase];
+}
+
+/**
+ * Parse "provider:model" (e.g. "local:qwen2.5", "anthropic:claude-haiku-4-5").
+ * A bare name is a provider if one is registered under it, else a model.
+ */
+export function parseModelRef(ref: string): { provider?: string; model?: string } {
+  const i = ref.indexOf(":");
+  if (i > 0) return { provider: ref.slice(0, i), model: ref.slice(i + 1) || undefined };
+  return getProvider(ref) ? { provider: ref } : { model: ref };
+}
+
+/** Register the providers configured in the environment (once, lazily). */
+function ensureDefaultProviders(): void {
+  if (defaultsRegistered) return;
+  defaultsRegistered = true;
+
+  if (process.env.ANTHROPIC_API_KEY && !providers.has("anthropic")) {
+    registerProvider(createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY }));
+  }
+  if (process.env.OPENAI_API_KEY && !providers.has("openai")) {
+    registerProvider(createOpenAiCompatibleProvider({
+      name: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: process.env.OPENAI_API_KEY,
+      defaultModel: "gpt-4o",
+    }));
+  }
+  if (process.env.LLM_LOCAL_BASE_URL && !providers.has("local")) {
+    registerProvider(createOpenAiCompatibleProvider({
+      name: "local",
+      baseUrl: process.env.LLM_LOCAL_BASE_URL,
+      apiKey: process.env.LLM_LOCAL_API_KEY,
+      defaultModel: process.env.LLM_LOCAL_MODEL || "llama3.1",
+      isLocal: true,
+    }));
+  }
+}
+
+// ── Chat with failover ───────────────────────────────────────
+
+/**
+ * Send a chat request down the use case's failover chain. Unregistered and
+ * degraded providers are skipped; if every provider is degraded they are
+ * tried anyway, in order, rather than failing without an attempt.
+ */
+export async function chat(useCase: LlmUseCase, request: ChatRequest, opts: ChatOpts = {}): Promise<ChatResponse> {
+  ensureDefaultProviders();
+  const now = opts.now ?? Date.now();
+  const exclude = new Set(opts.exclude ?? []);
+
+  const chain = [...(opts.prefer ? [opts.prefer] : []), ...getChain(useCase)];
+  const requested = chain[0]?.provider;
+  const entries = chain.filter(e => providers.has(e.provider) && !exclude.has(e.provider));
+  if (entries.length === 0) throw new Error(`No LLM provider configured for ${useCase}`);
+
+  const available = entries.filter(e => isAvailable(e.provider, now));
+  const attempts = available.length > 0 ? available : entries;
+  const errors: string[] = [];
+
+  for (const entry of attempts) {
+    const provider = providers.get(entry.provider)!;
+    try {
+      // A Claude model name means nothing to OpenAI or Ollama — failover uses the entry's own model
+      const model = (entry.provider === requested ? request.model : undefined) ?? entry.model ?? provider.defaultModel;
+      const response = await provider.chat({ ...request, model });
+      recordProviderSuccess(provider.name, now);
+      return response;
+    } catch (err) {
+      if (request.signal?.aborted) throw err;
+      recordProviderFailure(provider.name, err, now);
+      errors.push(`${provider.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  throw new Error(`All LLM providers failed for ${useCase} — ${errors.join("; ")}`);
+}
+
+// ── Providers ────────────────────────────────────────────────
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** Anthropic Messages API over fetch — no SDK required. */
+export function createAnthropicProvider(opts: {
+  apiKey: string;
+  defaultModel?: string;
+  baseUrl?: string;
+  fetchFn?: FetchFn;
+}): LlmProvider {
+  const fetchFn = opts.fetchFn ?? fetch;
+  const baseUrl = opts.baseUrl ?? "https://api.anthropic.com/v1";
+  const defaultModel = opts.defaultModel ?? "claude-sonnet-4-6";
+
+  return {
+    name: "anthropic",
+    defaultModel,
+    isLocal: false,
+    async chat(request) {
+      const model = request.model ?? defaultModel;
+      const resp = await fetchFn(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": opts.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.max_tokens ?? 2048,
+          ...(request.system ? { system: request.system } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          messages: toAnthropicMessages(request.messages),
+          ...(request.tools?.length ? { tools: request.tools } : {}),
+        }),
+        signal: request.signal,
+      });
+      if (!resp.ok) {
+        const errText = await resp.text().catch(() => "");
+        throw new Error(`Anthropic API error ${resp.status}: ${errText.substring(0, 200)}`);
+      }
+
+      const data = await resp.json() as {
+        model?: string;
+        stop_reason?: string;
+        content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
+        usage?: { input_tokens: number; output_tokens: number };
+      };
+      const toolCalls = data.content
+        .filter(b => b.type === "tool_use")
+        .map(b => ({ id: b.id ?? "", name: b.name ?? "", input: b.input ?? {} }));
+      return {
+        provider: "anthropic",
+        model: data.model ?? model,
+        text: data.content.filter(b => b.type === "text").map(b => b.text ?? "").join("\n").trim(),
+        tool_calls: toolCalls,
+        stop_reason: data.stop_reason === "tool_use" ? "tool_use" : data.stop_reason === "max_tokens" ? "max_tokens" : "end",
+        usage: data.usage,
+      };
+    },
+  };
+}
+
+function toAnthropicMessages(messages: ChatMessage[]): Array<{ role: "user" | "assistant"; content: unknown }> {
+  const out: Array<{ role: "user" | "assistant"; content: unknown }> = [];
+  for (const m of messages) {
+    if (m.role === "tool") {
+      // Tool results ride in a user turn; consecutive results share one turn
+      const block = { type: "tool_result", tool_use_id: m.tool_call_id, content: m.content };
+      const prev = out[out.length - 1];
+      if (prev?.role === "user" && Array.isArray(prev.content)) prev.content.push(block);
+      else out.push({ role: "user", content: [block] });
+    } else if (m.role === "assistant" && m.tool_calls?.length) {
+      out.push({
+        role: "assistant",
+        content: [
+          ...(m.content ? [{ type: "text", text: m.content }] : []),
+          ...m.tool_calls.map(c => ({ type: "tool_use", id: c.id, name: c.name, input: c.input })),
+        ],
+      });
+    } else {
+      out.push({ role: m.role, content: m.content });
+    }
+  }
+  return out;
+}
+
+/**
+ * OpenAI Chat Completions, or anything that speaks it — llama.cpp server,
+ * Ollama (/v1), vLLM, LM Studio. The API key is optional for local servers.
+ */
+export function createOpenAiCompatibleProvider(opts: {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  isLocal?: boolean;
+  fetchFn?: FetchFn;
+}): LlmProvider {
+  const fetchFn = opts.fetchFn ?? fetch;
+  const baseUrl = opts.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: opts.name,
+    defaultModel: opts.defaultModel,
+    isLocal: opts.isLocal ?? false,
+    async chat(request) {
+      const model = request.model ?? opts.defaultModel;
+      const resp = await fetchFn(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(opts.apiKey ? { "Authorization": `Bearer ${opts.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.max_tokens ?? 2048,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          messages: [
+            ...(request.system ? [{ role: "system", content: request.system }] : []),
+            ...request.messages.map(toOpenAiMessage),
+          ],
+          ...(request.tools?.length ? {
+            tools: request.tools.map(t => ({
+              type: "function",
+              function: { name: t.name, description: t.description, parameters: t.input_schema },
+            })),
+          } : {}),
+        }),
+        signal: request.signal,
+      });
+      if (!resp.ok) {
+        const errText = await resp.text().catch(() => "");
+        throw new Error(`${opts.name} API error ${resp.status}: ${errText.substring(0, 200)}`);
+      }
+
+      const data = await resp.json() as {
+        model?: string;
+        choices: Array<{
+          finish_reason?: string;
+          message: {
+            content: string | null;
+            tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+          };
+        }>;
+        usage?: { prompt_tokens: number; completion_tokens: number };
+      };
+      const choice = data.choices?.[0];
+      const toolCalls = (choice?.message?.tool_calls ?? []).map(c => ({
+        id: c.id,
+        name: c.function.name,
+        input: parseArguments(c.function.arguments),
+      }));
+      return {
+        provider: opts.name,
+        model: data.model ?? model,
+        text: choice?.message?.content?.trim() ?? "",
+        tool_calls: toolCalls,
+        stop_reason: toolCalls.length > 0 ? "tool_use" : choice?.finish_reason === "length" ? "max_tokens" : "end",
+        usage: data.usage ? { input_tokens: data.usage.prompt_tokens, output_tokens: data.usage.completion_tokens } : undefined,
+      };
+    },
+  };
+}
+
+function toOpenAiMessage(m: ChatMessage): Record<string, unknown> {
+  if (m.role === "tool") return { role: "tool", tool_call_id: m.tool_call_id, content: m.content };
+  if (m.role === "assistant" && m.tool_calls?.length) {
+    return {
+      role: "assistant",
+      content: m.content || null,
+      tool_calls: m.tool_calls.map(c => ({
+        id: c.id,
+        type: "function",
+        function: { name: c.name, arguments: JSON.stringify(c.input) },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+/** Local models sometimes emit malformed tool arguments — keep the raw text rather than throwing. */
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? parsed : { value: parsed };
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+export type FakeReply = string | Partial<ChatResponse> | Error;
+
+export interface FakeProvider extends LlmProvider {
+  /** Every request received, in order. */
+  requests: ChatRequest[];
+}
+
+/**
+ * Deterministic provider for tests. Replies are consumed in order (the last
+ * one repeats); a function computes the reply from the request instead.
+ * An Error reply is thrown.
+ */
+export function createFakeProvider(opts: {
+  name?: string;
+  defaultModel?: string;
+  isLocal?: boolean;
+  replies?: FakeReply[] | ((request: ChatRequest) => FakeReply);
+}): FakeProvider {
+  const name = opts.name ?? "fake";
+  const requests: ChatRequest[] = [];
+
+  return {
+    name,
+    defaultModel: opts.defaultModel ?? "fake-model",
+    isLocal: opts.isLocal ?? true,
+    requests,
+    async chat(request) {
+      requests.push(request);
+      const replies = opts.replies ?? [""];
+      const reply = typeof replies === "function"
+        ? replies(request)
+        : replies[Math.min(requests.length - 1, replies.length - 1)] ?? "";
+      if (reply instanceof Error) throw reply;
+      const partial = typeof reply === "string" ? { text: reply } : reply;
+      const toolCalls = partial.tool_calls ?? [];
+      return {
+        provider: name,
+        model: request.model ?? opts.defaultModel ?? "fake-model",
+        text: partial.text ?? "",
+        tool_calls: toolCalls,
+        stop_reason: partial.stop_reason ?? (toolCalls.length > 0 ? "tool_use" : "end"),
+        usage: partial.usage,
+      };
+    },
+  };
+}
+
+/** For testing — clear providers, chains and health (env providers re-register on next use). */
+export function _resetRegistryForTesting(opts: { skipEnvProviders?: boolean } = {}): void {
+  providers.clear();
+  health.clear();
+  chains.clear();
+  defaultsRegistered = opts.skipEnvProviders ?? false;
+  fallbackJustActivated = false;
+  lastRecoveryProbeAt = 0;
+}
+
 // ── Soul prompt loading ───────────────────────────────────────
 
 async function loadSoulPrompt(): Promise<string> {
@@ -111,45 +622,36 @@ async function loadSoulPrompt(): Promise<string> {
   }
 }
 
-// ── OpenAI fallback ───────────────────────────────────────────
+// ── Fallback completions ──────────────────────────────────────
 
 /**
- * Call OpenAI GPT-4o for fallback conversation.
- * Uses fetch directly — no SDK required.
+ * One-shot completion down a use case's chain with Anthropic left out, for
+ * callers whose Claude path (CLI or SDK) just failed.
  */
-export async function callOpenAiFallback(userText: string): Promise<string> {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY not configured — cannot use fallback");
-  }
-
-  const systemPrompt = await loadSoulPrompt();
-
-  const body = JSON.stringify({
-    model: "gpt-4o",
-    max_tokens: 2048,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userText },
-    ],
-  });
-
-  const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${OPENAI_API_KEY}`,
-    },
-    body,
-  });
+export async function completeWithoutAnthropic(
+  useCase: LlmUseCase,
+  prompt: string,
+  opts: { system?: string; max_tokens?: number } = {},
+): Promise<string> {
+  const response = await chat(useCase, {
+    system: opts.system,
+    messages: [{ role: "user", content: prompt }],
+    max_tokens: opts.max_tokens,
+  }, { exclude: ["anthropic"] });
+  return response.text;
+}
 
-  if (!resp.ok) {
-    const errText = await resp.text().catch(() => "");
-    throw new Error(`OpenAI fallback error ${resp.status}: ${errText.substring(0, 200)}`);
+/**
+ * Basic conversation while Anthropic is down: the conversation chain
+ * without Anthropic — GPT-4o by default, then the local endpoint.
+ */
+export async function callOpenAiFallback(userText: string): Promise<string> {
+  try {
+    return await completeWithoutAnthropic("conversation", userText, { system: await loadSoulPrompt(), max_tokens: 2048 });
+  } catch (err) {
+    if (err instanceof Error && err.message.startsWith("No LLM provider configured")) {
+      throw new Error("No fallback LLM provider configured (set OPENAI_API_KEY or LLM_LOCAL_BASE_URL) — cannot use fallback");
+    }
+    throw err;
   }
-
-  const data = await resp.json() as {
-    choices: Array<{ message: { content: string } }>;
-  };
-
-  return data.choices?.[0]?.message?.content?.trim() ?? "";
 }
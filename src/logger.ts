@@ -5,6 +5,7 @@
  * - Structured JSON output (level, timestamp, module, message, context)
  * - Correlation IDs (conversation_id, session_id, work_item_id)
  * - Error/warn indexing to Elasticsearch (ellie-logs index)
+ * - PHI redaction (phi-redaction.ts) before anything is printed or indexed
  * - Module-scoped child loggers via logger.child("module-name")
  *
  * Usage:
@@ -18,7 +19,8 @@
  *   log.error("Something broke", { module: "relay" });
  */
 
-import { getTraceId } from "./trace.ts";
+import { getTraceId, getSpanId } from "./trace.ts";
+import { recordRedaction, redactValue } from "./phi-redaction.ts";
 
 const ES_URL = process.env.ELASTICSEARCH_URL || "";
 const LOG_LEVEL = (process.env.LOG_LEVEL || "info") as LogLevel;
@@ -35,6 +37,7 @@ interface LogEntry {
   message: string;
   context?: Record<string, unknown>;
   trace_id?: string;
+  span_id?: string;
   conversation_id?: string;
   session_id?: string;
   work_item_id?: string;
@@ -135,7 +138,7 @@ function emitLog(
     error = contextOrError;
   }
 
-  const entry: LogEntry = {
+  let entry: LogEntry = {
     timestamp: new Date().toISOString(),
     level,
     module,
@@ -145,6 +148,9 @@ function emitLog(
   // ELLIE-398: Auto-inject trace ID from async context
   const traceId = context?.trace_id as string || getTraceId();
   if (traceId) entry.trace_id = traceId;
+  // Ties ES log lines to the waterfall span they were written from
+  const spanId = getSpanId();
+  if (spanId && traceId === getTraceId()) entry.span_id = spanId;
 
   // Extract correlation IDs from context
   if (context) {
@@ -159,6 +165,13 @@ function emitLog(
 
   if (error) entry.error = serializeError(error);
 
+  // PHI never reaches the console or ellie-logs
+  const redacted = redactValue(entry);
+  if (redacted.total > 0) {
+    entry = redacted.value;
+    recordRedaction("log", redacted.counts, { actor: module });
+  }
+
   // Console output — human-readable with bracket prefix for compatibility
   const prefix = `[${module}]`;
   const traceStr = entry.trace_id ? ` [t:${entry.trace_id.slice(0, 8)}]` : "";
@@ -167,17 +180,17 @@ function emitLog(
 
   switch (level) {
     case "debug":
-      console.log(`${prefix}${traceStr} ${message}${contextStr}${errorStr}`);
+      console.log(`${prefix}${traceStr} ${entry.message}${contextStr}${errorStr}`);
       break;
     case "info":
-      console.log(`${prefix}${traceStr} ${message}${contextStr}${errorStr}`);
+      console.log(`${prefix}${traceStr} ${entry.message}${contextStr}${errorStr}`);
       break;
     case "warn":
-      console.warn(`${prefix}${traceStr} ${message}${contextStr}${errorStr}`);
+      console.warn(`${prefix}${traceStr} ${entry.message}${contextStr}${errorStr}`);
       break;
     case "error":
     case "fatal":
-      console.error(`${prefix}${traceStr} ${message}${contextStr}${errorStr}`);
+      console.error(`${prefix}${traceStr} ${entry.message}${contextStr}${errorStr}`);
       break;
   }
 
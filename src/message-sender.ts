@@ -10,6 +10,7 @@ import { InputFile, InlineKeyboard } from "grammy";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { WebSocket } from "ws";
 import { log } from "./logger.ts";
+import { withSpan } from "./trace.ts";
 import { indexMessage } from "./elasticsearch.ts";
 import { resilientTask } from "./resilient-task.ts";
 import { ingestMessage, type MessageChannel } from "./mountain/message-ingestion.ts";
@@ -114,6 +115,13 @@ export async function saveMessage(
 // ── sendResponse (Telegram long message splitting) ───────────
 
 export async function sendResponse(ctx: Context, response: string): Promise<void> {
+  return withSpan("channel.deliver", () => sendTelegramChunks(ctx, response), {
+    kind: "client",
+    attributes: { channel: "telegram", chars: response.length },
+  });
+}
+
+async function sendTelegramChunks(ctx: Context, response: string): Promise<void> {
   const MAX_LENGTH = 4000;
   const FILE_THRESHOLD = 8000;
 
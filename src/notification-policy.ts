@@ -10,11 +10,15 @@
  * - Telegram: summaries + critical alerts (phone-friendly, brief)
  * - Google Chat: full detail, threaded by work item (desktop, verbose)
  * - Voice/Alexa: on-demand only (never unsolicited)
+ * - Other channel adapters (Discord, ...): critical and high priority events,
+ *   posted to the adapter's notificationTarget()
  */
 
 import { sendGoogleChatMessage } from "./google-chat.ts";
 import type { Bot } from "grammy";
 import { log } from "./logger.ts";
+import type { ChannelAdapter } from "./channels/adapter.ts";
+import { getChannelAdapter, isChannelAdapterStarted, listChannelAdapters } from "./channels/registry.ts";
 
 const logger = log.child("notify");
 
@@ -22,7 +26,10 @@ const logger = log.child("notify");
 // TYPES
 // ============================================================
 
-export type NotificationChannel = "telegram" | "google-chat" | "slack";
+/** Channels with their own column in NOTIFICATION_POLICY and a NotifyContext field. */
+export type BuiltinNotificationChannel = "telegram" | "google-chat" | "slack";
+/** A built-in channel or the id of a registered channel adapter. */
+export type NotificationChannel = BuiltinNotificationChannel | (string & {});
 export type NotificationPriority = "critical" | "high" | "normal" | "low";
 
 export type NotificationEvent =
@@ -52,7 +59,8 @@ interface ChannelPolicy {
 
 interface EventPolicy {
   priority: NotificationPriority;
-  channels: Record<NotificationChannel, ChannelPolicy>;
+  /** Adapter channels may be given their own entry; otherwise adapterChannelPolicy() applies. */
+  channels: Record<BuiltinNotificationChannel, ChannelPolicy> & Partial<Record<string, ChannelPolicy>>;
 }
 
 // ============================================================
@@ -200,6 +208,25 @@ export const NOTIFICATION_POLICY: Record<NotificationEvent, EventPolicy> = {
   },
 };
 
+const BUILTIN_CHANNELS: ReadonlySet<string> = new Set<BuiltinNotificationChannel>(["telegram", "google-chat", "slack"]);
+
+/** Policy for an adapter channel without its own entry: urgent events only, unthrottled. */
+function adapterChannelPolicy(priority: NotificationPriority): ChannelPolicy {
+  return { enabled: priority === "critical" || priority === "high", minIntervalSec: 0 };
+}
+
+function channelPolicy(event: NotificationEvent, channel: NotificationChannel): ChannelPolicy | undefined {
+  const policy = NOTIFICATION_POLICY[event];
+  if (!policy) return undefined;
+  return policy.channels[channel] ?? (BUILTIN_CHANNELS.has(channel) ? undefined : adapterChannelPolicy(policy.priority));
+}
+
+/** Started, non-built-in adapters that can push and have somewhere to send notifications. */
+function notifiableAdapters(): ChannelAdapter[] {
+  return listChannelAdapters().filter(a =>
+    !BUILTIN_CHANNELS.has(a.id) && a.send && isChannelAdapterStarted(a.id) && a.notificationTarget?.());
+}
+
 // ============================================================
 // THROTTLE STATE
 // ============================================================
@@ -219,7 +246,7 @@ function throttleKey(event: NotificationEvent, channel: NotificationChannel, wor
  * Returns true if allowed, false if throttled.
  */
 function isThrottled(event: NotificationEvent, channel: NotificationChannel, workItemId: string): boolean {
-  const policy = NOTIFICATION_POLICY[event]?.channels[channel];
+  const policy = channelPolicy(event, channel);
   if (!policy?.enabled || policy.minIntervalSec === 0) return false;
 
   const key = throttleKey(event, channel, workItemId);
@@ -280,6 +307,9 @@ function tryCoalesce(ctx: NotifyContext, options: NotifyOptions): boolean {
   if (policy.channels.telegram.enabled) channels.push("telegram");
   if (policy.channels["google-chat"].enabled && ctx.gchatSpaceName) channels.push("google-chat");
   if (policy.channels["slack"]?.enabled && ctx.slackSend) channels.push("slack");
+  for (const adapter of notifiableAdapters()) {
+    if (channelPolicy(options.event, adapter.id)?.enabled) channels.push(adapter.id);
+  }
 
   for (const channel of channels) {
     const existing = coalesceBuffers.get(channel);
@@ -367,21 +397,31 @@ async function sendDirect(
 ): Promise<number | undefined> {
   markSent(event, channel, workItemId);
   try {
-    if (channel === "telegram") {
-      const sent = await ctx.bot.api.sendMessage(ctx.telegramUserId, message, { parse_mode: "Markdown" });
-      logger.info(`${channel}/${event}/${workItemId}: sent`);
-      return sent.message_id;
-    } else if (channel === "google-chat" && ctx.gchatSpaceName) {
-      await sendGoogleChatMessage(ctx.gchatSpaceName, message);
-    } else if (channel === "slack" && ctx.slackSend) {
-      await ctx.slackSend(message);
-    }
+    const messageId = await deliver(ctx, channel, message);
     logger.info(`${channel}/${event}/${workItemId}: sent`);
+    return messageId;
   } catch (err: unknown) {
     logger.error(`${channel} send failed`, { channel, event, work_item_id: workItemId }, err);
   }
 }
 
+/** Post to one channel. Returns the Telegram message id for Telegram sends. */
+async function deliver(ctx: NotifyContext, channel: NotificationChannel, message: string): Promise<number | undefined> {
+  if (channel === "telegram") {
+    const sent = await ctx.bot.api.sendMessage(ctx.telegramUserId, message, { parse_mode: "Markdown" });
+    return sent.message_id;
+  } else if (channel === "google-chat" && ctx.gchatSpaceName) {
+    await sendGoogleChatMessage(ctx.gchatSpaceName, message);
+  } else if (channel === "slack" && ctx.slackSend) {
+    await ctx.slackSend(message);
+  } else {
+    const adapter = getChannelAdapter(channel);
+    const target = adapter?.notificationTarget?.();
+    if (adapter?.send && target) await adapter.send(target, { text: adapter.format(message) });
+  }
+  return undefined;
+}
+
 // ============================================================
 // NOTIFICATION DISPATCH
 // ============================================================
@@ -415,7 +455,7 @@ export async function notify(ctx: NotifyContext, options: NotifyOptions): Promis
   // ELLIE-397: Try coalescing for failure events
   if (tryCoalesce(ctx, options)) return {};
 
-  const sends: Promise<void>[] = [];
+  const sends: Promise<unknown>[] = [];
   let telegramMessageId: number | undefined;
 
   // Telegram
@@ -449,6 +489,17 @@ export async function notify(ctx: NotifyContext, options: NotifyOptions): Promis
     }
   }
 
+  // Channel adapters (channels/registry.ts) with a notification target
+  for (const adapter of notifiableAdapters()) {
+    if (!channelPolicy(event, adapter.id)?.enabled) continue;
+    const msg = gchatMessage || telegramMessage;
+    if (!isThrottled(event, adapter.id, workItemId)) {
+      sends.push(sendDirect(ctx, event, adapter.id, workItemId, msg));
+    } else {
+      scheduleBatchedSend(ctx, event, adapter.id, workItemId, msg);
+    }
+  }
+
   await Promise.allSettled(sends);
   return { telegramMessageId };
 }
@@ -465,7 +516,8 @@ function scheduleBatchedSend(
   message: string,
 ): void {
   const key = throttleKey(event, channel, workItemId);
-  const policy = NOTIFICATION_POLICY[event].channels[channel];
+  const policy = channelPolicy(event, channel);
+  if (!policy) return;
 
   // Cancel existing timer if we're replacing the message
   const existing = pendingBatch.get(key);
@@ -483,13 +535,7 @@ function scheduleBatchedSend(
     markSent(event, channel, workItemId);
 
     try {
-      if (channel === "telegram") {
-        await ctx.bot.api.sendMessage(ctx.telegramUserId, message, { parse_mode: "Markdown" });
-      } else if (channel === "google-chat" && ctx.gchatSpaceName) {
-        await sendGoogleChatMessage(ctx.gchatSpaceName, message);
-      } else if (channel === "slack" && ctx.slackSend) {
-        await ctx.slackSend(message);
-      }
+      await deliver(ctx, channel, message);
       logger.info(`${channel}/${event}/${workItemId}: batched send`);
     } catch (err: unknown) {
       logger.error("Batched send failed", { channel, event, work_item_id: workItemId }, err);
@@ -506,9 +552,13 @@ function scheduleBatchedSend(
 export function getEnabledChannels(event: NotificationEvent): NotificationChannel[] {
   const policy = NOTIFICATION_POLICY[event];
   if (!policy) return [];
-  return (Object.entries(policy.channels) as [NotificationChannel, ChannelPolicy][])
+  const builtin = (Object.entries(policy.channels) as [NotificationChannel, ChannelPolicy][])
     .filter(([, p]) => p.enabled)
     .map(([ch]) => ch);
+  const adapters = notifiableAdapters()
+    .filter(a => channelPolicy(event, a.id)?.enabled)
+    .map(a => a.id);
+  return [...builtin, ...adapters];
 }
 
 /**
@@ -20,8 +20,9 @@ import { getRiverContextForAgent } from "./context-sources.ts";
 import type { PlaybookContext } from "./playbook.ts";
 import { withRetry, classifyError } from "./dispatch-retry.ts";
 import { getAdviceForDispatch, enrichPromptWithAdvice } from "./dispatch-advice-injector.ts";
-import { enqueue, getQueueDepth } from "./dispatch-queue.ts";
-import { withTrace, getTraceId, generateTraceId } from "./trace.ts";
+import { enqueue, getQueueDepth, type QueuedDispatch } from "./dispatch-queue.ts";
+import type { DispatchPriority } from "./dispatch-envelope.ts";
+import { withTrace, withSpan, getTraceId, generateTraceId } from "./trace.ts";
 import { enterDispatchMode, exitDispatchMode } from "./tool-approval.ts";
 import { createJob, updateJob, appendJobEvent, verifyJobWork, estimateJobCost, writeJobTouchpointForAgent } from "./jobs-ledger.ts";
 import { estimateTokens } from "./relay-utils.ts";
@@ -62,6 +63,24 @@ export interface TrackedDispatchOpts {
     env?: string[];
     binds?: string[];
   };
+  /** Queue priority if the dispatch has to wait (default "normal"). */
+  priority?: DispatchPriority;
+  /** Drop the dispatch if it is still queued after this long (default: dispatch-queue's TTL). */
+  queueTtlMs?: number;
+  /** When this dispatch was first queued — keeps its age if it has to re-queue. */
+  queuedAt?: number;
+}
+
+/** Serializable part of TrackedDispatchOpts — the playbook context is rebuilt on rehydration. */
+export interface QueuedTrackedDispatchPayload {
+  agentType: string;
+  workItemId: string;
+  channel: string;
+  message?: string;
+  sandbox?: TrackedDispatchOpts["sandbox"];
+  priority?: DispatchPriority;
+  queueTtlMs?: number;
+  playbookChannel: string;
 }
 
 export interface TrackedDispatchResult {
@@ -69,6 +88,43 @@ export interface TrackedDispatchResult {
   promise: Promise<void>;
 }
 
+/** Queue entry for a dispatch that has to wait, persisted as a "tracked-dispatch" envelope. */
+function queuedDispatchItem(
+  opts: TrackedDispatchOpts,
+  queueId: string,
+  notifyCtx: NotifyContext,
+  reason: "lock" | "capacity",
+): QueuedDispatch {
+  const enqueuedAt = opts.queuedAt ?? Date.now();
+  const payload: QueuedTrackedDispatchPayload = {
+    agentType: opts.agentType,
+    workItemId: opts.workItemId,
+    channel: opts.channel,
+    message: opts.message,
+    sandbox: opts.sandbox,
+    priority: opts.priority,
+    queueTtlMs: opts.queueTtlMs,
+    playbookChannel: opts.playbookCtx.channel,
+  };
+  return {
+    id: queueId,
+    agentType: opts.agentType,
+    workItemId: opts.workItemId,
+    channel: opts.channel,
+    message: opts.message,
+    enqueuedAt,
+    notifyCtx,
+    priority: opts.priority,
+    reason,
+    ...(opts.queueTtlMs ? { expiresAt: enqueuedAt + opts.queueTtlMs } : {}),
+    kind: "tracked-dispatch",
+    payload: payload as unknown as Record<string, unknown>,
+    execute: () => {
+      executeTrackedDispatch({ ...opts, queuedAt: enqueuedAt });
+    },
+  };
+}
+
 /**
  * Execute a tracked dispatch. Returns runId immediately;
  * the actual agent work runs in the background.
@@ -88,19 +144,8 @@ export function executeTrackedDispatch(opts: TrackedDispatchOpts): TrackedDispat
       gchatSpaceName: opts.playbookCtx.gchatSpaceName,
     };
 
-    const { position } = enqueue({
-      id: queueId,
-      agentType: opts.agentType,
-      workItemId: opts.workItemId,
-      channel: opts.channel,
-      message: opts.message,
-      enqueuedAt: Date.now(),
-      notifyCtx,
-      execute: () => {
-        // Re-dispatch when the current run completes
-        executeTrackedDispatch(opts);
-      },
-    });
+    // Re-dispatches when the current run completes
+    const { position } = enqueue(queuedDispatchItem(opts, queueId, notifyCtx, "lock"));
 
     logger.info("Dispatch queued — active run exists", {
       workItemId: opts.workItemId,
@@ -128,18 +173,7 @@ export function executeTrackedDispatch(opts: TrackedDispatchOpts): TrackedDispat
       gchatSpaceName: opts.playbookCtx.gchatSpaceName,
     };
 
-    const { position } = enqueue({
-      id: queueId,
-      agentType: opts.agentType,
-      workItemId: opts.workItemId,
-      channel: opts.channel,
-      message: opts.message,
-      enqueuedAt: Date.now(),
-      notifyCtx,
-      execute: () => {
-        executeTrackedDispatch(opts);
-      },
-    });
+    const { position } = enqueue(queuedDispatchItem(opts, queueId, notifyCtx, "capacity"));
 
     logger.info("Dispatch queued — concurrency limit reached", {
       workItemId: opts.workItemId,
@@ -175,7 +209,15 @@ export function executeTrackedDispatch(opts: TrackedDispatchOpts): TrackedDispat
 
   // Run the actual dispatch async within trace context
   const promise = withTrace(
-    () => runDispatch(runId, opts).catch((err) => {
+    () => withSpan("dispatch.specialist", () => runDispatch(runId, opts), {
+      attributes: {
+        run_id: runId,
+        agent: opts.agentType,
+        work_item_id: opts.workItemId,
+        channel: opts.channel,
+        queued_ms: opts.queuedAt ? Date.now() - opts.queuedAt : undefined,
+      },
+    }).catch((err) => {
       logger.error("Tracked dispatch failed", { runId: runId.slice(0, 8), error: err.message });
     }),
     traceId,
@@ -10,6 +10,7 @@ import type Anthropic from "@anthropic-ai/sdk";
 import type { DispatchResult } from "./agent-router.ts";
 import type { ExecutionMode } from "./intent-classifier.ts";
 import type { FailureAction, PipelineCheckpoint } from "./pipeline-state.ts";
+import type { ModelStylesheet } from "./step-model-router.ts";
 
 // ────────────────────────────────────────────────────────────────
 // Interfaces
@@ -111,6 +112,12 @@ export interface OrchestratorOptions {
    * Defaults to 2. Set to 0 to disable retry.
    */
   synthesisMaxRetries?: number;
+  /**
+   * ELLIE-1080: Per-step model routing, matched on the step's skill (else
+   * agent) name. A rule naming an LLM registry provider runs the step
+   * through that provider; Claude aliases apply when the agent sets no model.
+   */
+  modelStylesheet?: ModelStylesheet;
 }
 
 // ────────────────────────────────────────────────────────────────
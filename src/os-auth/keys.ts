@@ -106,7 +106,7 @@ function deserializeKeyStore(json: string): StoredKeyRecord[] {
   }
 }
 
-/** Persist key store to Hollow vault. */
+/** Persist key store to the vault keychain. */
 async function persistKeyStore(deps: KeyDeps): Promise<void> {
   if (!deps.storeSecret) return
   await deps.storeSecret(OS_AUTH_KEYCHAIN_ID, "key_store", serializeKeyStore(_keyStore))
@@ -127,7 +127,7 @@ function getCurrentKey(now: number = Date.now()): StoredKeyRecord | null {
 
 /**
  * Load or generate the signing key pair.
- * On first call: checks The Hollow for existing keys. If none, generates + stores.
+ * On first call: checks the vault keychain for existing keys. If none, generates + stores.
  * Subsequent calls return the current (newest) signing key.
  *
  * Backwards-compatible: migrates single-key storage to multi-key format.
@@ -140,13 +140,13 @@ export async function getSigningKeys(deps: KeyDeps): Promise<{ privateKey: strin
     }
   }
 
-  // Try loading multi-key store from Hollow
+  // Try loading multi-key store from the vault
   const storedKeyStore = await deps.retrieveSecret(OS_AUTH_KEYCHAIN_ID, "key_store")
   if (storedKeyStore) {
     _keyStore = deserializeKeyStore(storedKeyStore)
     const current = getCurrentKey()
     if (current) {
-      logger.info("Loaded OS auth key store from Hollow", { keyCount: _keyStore.length, currentKid: current.kid })
+      logger.info("Loaded OS auth key store from the vault", { keyCount: _keyStore.length, currentKid: current.kid })
       return { privateKey: current.privateKey, publicKey: current.publicKey, kid: current.kid }
     }
   }
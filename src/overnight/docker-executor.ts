@@ -4,19 +4,29 @@
  * Container lifecycle manager for overnight autonomous agent work.
  * Calls Docker Engine API directly via Unix socket — does NOT shell out to docker CLI.
  *
- * Follows the same patterns as src/docker-sandbox.ts:
- *   - node:http for Unix socket communication
+ * Shares Engine plumbing with src/docker-sandbox.ts through
+ * src/sandbox-manager.ts:
+ *   - docker-engine.ts for Unix socket communication
  *   - Structured logging via logger.child()
  *   - Resource limits + security hardening
  */
 
-import http from "node:http";
+import { DOCKER_SOCKET, dockerRequest } from "../docker-engine.ts";
+import {
+  containerLogs,
+  createVolume as createEngineVolume,
+  ensureNetwork,
+  inspectContainer,
+  removeContainer,
+  removeVolume as removeEngineVolume,
+  runContainer,
+  waitContainer,
+} from "../sandbox-manager.ts";
 import { log } from "../logger.ts";
 import type { ContainerResult } from "./types.ts";
 
 const logger = log.child("docker-executor");
 
-const DOCKER_SOCKET = "/var/run/docker.sock";
 const OVERNIGHT_IMAGE = "ghcr.io/anthropics/claude-code:latest";
 const CONTAINER_PREFIX = "ellie-overnight-";
 const ISOLATED_NETWORK_NAME = "ellie-overnight-isolated";
@@ -53,83 +63,6 @@ export interface ContainerEnvOpts {
   [key: string]: string | undefined;
 }
 
-// ── Docker API Client ────────────────────────────────────────
-
-function dockerApi(
-  method: string,
-  path: string,
-  body?: Record<string, unknown> | null,
-): Promise<{ status: number; data: any }> {
-  return new Promise((resolve, reject) => {
-    const req = http.request(
-      {
-        socketPath: DOCKER_SOCKET,
-        path,
-        method,
-        headers: { "Content-Type": "application/json" },
-      },
-      (res) => {
-        let data = "";
-        res.on("data", (chunk: Buffer) => { data += chunk; });
-        res.on("end", () => {
-          try {
-            resolve({ status: res.statusCode ?? 0, data: data ? JSON.parse(data) : {} });
-          } catch {
-            resolve({ status: res.statusCode ?? 0, data: { message: data } });
-          }
-        });
-      },
-    );
-    req.on("error", reject);
-    req.setTimeout(30_000, () => { req.destroy(); reject(new Error("Docker API timeout")); });
-    if (body) req.write(JSON.stringify(body));
-    req.end();
-  });
-}
-
-/**
- * Docker API call that returns raw response body (for logs endpoint which returns plain text).
- */
-function dockerApiRaw(
-  method: string,
-  path: string,
-): Promise<{ status: number; data: string }> {
-  return new Promise((resolve, reject) => {
-    const req = http.request(
-      {
-        socketPath: DOCKER_SOCKET,
-        path,
-        method,
-      },
-      (res) => {
-        const chunks: Buffer[] = [];
-        res.on("data", (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
-        res.on("end", () => {
-          const buf = Buffer.concat(chunks);
-          // Docker log stream uses multiplexed format: 8-byte header per frame
-          // Byte 0: stream type (1=stdout, 2=stderr), Bytes 4-7: frame size (big-endian)
-          let text = "";
-          let offset = 0;
-          while (offset + 8 <= buf.length) {
-            const size = buf.readUInt32BE(offset + 4);
-            if (offset + 8 + size > buf.length) break;
-            text += buf.subarray(offset + 8, offset + 8 + size).toString("utf8");
-            offset += 8 + size;
-          }
-          // Fallback: if no multiplexed frames were parsed, treat as plain text
-          if (!text && buf.length > 0) {
-            text = buf.toString("utf8");
-          }
-          resolve({ status: res.statusCode ?? 0, data: text });
-        });
-      },
-    );
-    req.on("error", reject);
-    req.setTimeout(30_000, () => { req.destroy(); reject(new Error("Docker API timeout")); });
-    req.end();
-  });
-}
-
 // ── Build Helpers ────────────────────────────────────────────
 
 /**
@@ -192,13 +125,7 @@ export function buildHostConfig(volumeName: string): Record<string, unknown> {
  * Create a Docker volume for task workspace.
  */
 export async function createVolume(name: string): Promise<void> {
-  const { status, data } = await dockerApi("POST", "/volumes/create", {
-    Name: name,
-    Labels: { "ellie.overnight": "true" },
-  });
-  if (status !== 201 && status !== 200) {
-    throw new Error(`Docker volume create failed (${status}): ${data?.message}`);
-  }
+  await createEngineVolume(name, { "ellie.overnight": "true" });
   logger.info(`Volume created: ${name}`);
 }
 
@@ -206,12 +133,8 @@ export async function createVolume(name: string): Promise<void> {
  * Remove a Docker volume.
  */
 export async function removeVolume(name: string): Promise<void> {
-  const { status, data } = await dockerApi("DELETE", `/volumes/${encodeURIComponent(name)}`);
-  if (status === 204 || status === 200 || status === 404) {
-    logger.info(`Volume removed: ${name}`);
-    return;
-  }
-  throw new Error(`Docker volume remove failed (${status}): ${data?.message}`);
+  await removeEngineVolume(name);
+  logger.info(`Volume removed: ${name}`);
 }
 
 // ── Network Isolation (ELLIE-1144) ──────────────────────────
@@ -228,32 +151,22 @@ let networkReady = false;
 export async function ensureIsolatedNetwork(): Promise<void> {
   if (networkReady) return;
 
-  // Check if network already exists
-  const inspectRes = await dockerApi("GET",
-    `/networks/${encodeURIComponent(ISOLATED_NETWORK_NAME)}`,
-  );
-  if (inspectRes.status === 200) {
-    networkReady = true;
-    logger.info(`Isolated network already exists: ${ISOLATED_NETWORK_NAME}`);
-    return;
-  }
-
-  // Create the network
-  const createRes = await dockerApi("POST", "/networks/create", {
-    Name: ISOLATED_NETWORK_NAME,
-    Driver: "bridge",
-    Labels: { "ellie.overnight": "true" },
-    Options: {
-      "com.docker.network.bridge.enable_icc": "false",
-    },
-  });
-
-  if (createRes.status !== 201 && createRes.status !== 200) {
-    logger.error(`Failed to create isolated network (${createRes.status}): ${createRes.data?.message}`);
-    throw new Error(`Docker network create failed (${createRes.status}): ${createRes.data?.message}`);
+  let created: boolean;
+  try {
+    created = await ensureNetwork(ISOLATED_NETWORK_NAME, {
+      labels: { "ellie.overnight": "true" },
+      options: { "com.docker.network.bridge.enable_icc": "false" },
+    });
+  } catch (err) {
+    logger.error(`Failed to create isolated network: ${err instanceof Error ? err.message : String(err)}`);
+    throw err;
   }
 
   networkReady = true;
+  if (!created) {
+    logger.info(`Isolated network already exists: ${ISOLATED_NETWORK_NAME}`);
+    return;
+  }
   logger.info(`Created isolated network: ${ISOLATED_NETWORK_NAME}`);
 }
 
@@ -280,31 +193,15 @@ export async function launchContainer(
 
   const hostConfig = buildHostConfig(volumeName);
 
-  const createRes = await dockerApi("POST",
-    `/containers/create?name=${encodeURIComponent(containerName)}`,
-    {
-      Image: OVERNIGHT_IMAGE,
-      Env: env,
-      Labels: {
-        "ellie.overnight": "true",
-        "ellie.container-name": containerName,
-      },
-      HostConfig: hostConfig,
+  const containerId = await runContainer(containerName, {
+    Image: OVERNIGHT_IMAGE,
+    Env: env,
+    Labels: {
+      "ellie.overnight": "true",
+      "ellie.container-name": containerName,
     },
-  );
-
-  if (createRes.status !== 201) {
-    throw new Error(`Docker create failed (${createRes.status}): ${createRes.data?.message}`);
-  }
-
-  const containerId = createRes.data.Id;
-
-  const startRes = await dockerApi("POST", `/containers/${containerId}/start`);
-  if (startRes.status !== 204 && startRes.status !== 304) {
-    // Clean up on failed start
-    await dockerApi("DELETE", `/containers/${containerId}?force=true`).catch(() => {});
-    throw new Error(`Docker start failed (${startRes.status}): ${startRes.data?.message}`);
-  }
+    HostConfig: hostConfig,
+  });
 
   logger.info(`Launched container: ${containerName}`, { containerId });
   return containerId;
@@ -314,41 +211,8 @@ export async function launchContainer(
  * Wait for a container to exit. Returns the exit code.
  */
 export async function waitForContainer(containerId: string): Promise<number> {
-  // Docker wait API blocks until container stops
-  const { status, data } = await new Promise<{ status: number; data: any }>((resolve, reject) => {
-    const req = http.request(
-      {
-        socketPath: DOCKER_SOCKET,
-        path: `/containers/${containerId}/wait`,
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-      },
-      (res) => {
-        let body = "";
-        res.on("data", (chunk: Buffer) => { body += chunk; });
-        res.on("end", () => {
-          try {
-            resolve({ status: res.statusCode ?? 0, data: body ? JSON.parse(body) : {} });
-          } catch {
-            resolve({ status: res.statusCode ?? 0, data: { message: body } });
-          }
-        });
-      },
-    );
-    req.on("error", reject);
-    // Long timeout — container may run for hours
-    req.setTimeout(8 * 60 * 60_000, () => {
-      req.destroy();
-      reject(new Error("Docker wait timeout (8h)"));
-    });
-    req.end();
-  });
-
-  if (status !== 200) {
-    throw new Error(`Docker wait failed (${status}): ${data?.message}`);
-  }
-
-  const exitCode = data.StatusCode ?? -1;
+  // Docker wait API blocks until container stops — long timeout, container may run for hours
+  const exitCode = await waitContainer(containerId, 8 * 60 * 60_000);
   logger.info(`Container exited`, { containerId, exitCode });
   return exitCode;
 }
@@ -357,14 +221,12 @@ export async function waitForContainer(containerId: string): Promise<number> {
  * Get container logs (stdout + stderr combined).
  */
 export async function getContainerLogs(containerId: string): Promise<string> {
-  const { status, data } = await dockerApiRaw("GET",
-    `/containers/${containerId}/logs?stdout=true&stderr=true&timestamps=false`,
-  );
+  const { status, text } = await containerLogs(containerId);
   if (status !== 200) {
     logger.warn(`Failed to get logs for ${containerId}`, { status });
     return "";
   }
-  return data;
+  return text;
 }
 
 /**
@@ -372,8 +234,7 @@ export async function getContainerLogs(containerId: string): Promise<string> {
  */
 export async function isContainerRunning(containerId: string): Promise<boolean> {
   try {
-    const { status, data } = await dockerApi("GET", `/containers/${containerId}/json`);
-    if (status !== 200) return false;
+    const data = await inspectContainer(containerId) as { State?: { Running?: boolean } } | null;
     return data?.State?.Running === true;
   } catch {
     return false;
@@ -386,7 +247,7 @@ export async function isContainerRunning(containerId: string): Promise<boolean>
  */
 export async function killContainer(containerId: string): Promise<void> {
   try {
-    await dockerApi("POST", `/containers/${containerId}/kill`);
+    await dockerRequest("POST", `/containers/${containerId}/kill`);
     logger.info("Killed container", { containerId });
   } catch (err) {
     // Container may already be stopped — that's fine
@@ -397,7 +258,7 @@ export async function killContainer(containerId: string): Promise<void> {
   }
   // Force remove after kill
   try {
-    await dockerApi("DELETE", `/containers/${containerId}?force=true`);
+    await removeContainer(containerId);
   } catch {
     // Best-effort cleanup
   }
@@ -445,7 +306,7 @@ export async function runOvernightTask(
 
     // Remove container now that logs have been collected
     try {
-      await dockerApi("DELETE", `/containers/${containerId}?force=true`);
+      await removeContainer(containerId);
       logger.debug(`Removed container after log collection`, { containerId });
     } catch {
       // Best-effort cleanup — container may already be gone (timeout path)
@@ -516,7 +377,9 @@ async function waitWithTimeout(
  */
 export async function cleanupOrphanedContainers(): Promise<number> {
   const filterParam = encodeURIComponent(JSON.stringify({ name: [`${CONTAINER_PREFIX}`] }));
-  const { status, data } = await dockerApi("GET", `/containers/json?all=true&filters=${filterParam}`);
+  const { status, data } = await dockerRequest<{ Id: string; Names?: string[]; State: string }[]>(
+    "GET", `/containers/json?all=true&filters=${filterParam}`,
+  );
   if (status !== 200 || !Array.isArray(data)) return 0;
 
   let cleaned = 0;
@@ -526,11 +389,11 @@ export async function cleanupOrphanedContainers(): Promise<number> {
     try {
       // Stop if running
       if (container.State === "running") {
-        await dockerApi("POST", `/containers/${id}/stop?t=10`);
+        await dockerRequest("POST", `/containers/${id}/stop?t=10`);
         logger.info("Stopped orphaned container", { id, name });
       }
       // Force remove
-      await dockerApi("DELETE", `/containers/${id}?force=true`);
+      await removeContainer(id);
       logger.info("Removed orphaned container", { id, name });
       cleaned++;
     } catch (err) {
@@ -545,11 +408,11 @@ export async function cleanupOrphanedContainers(): Promise<number> {
   // Also clean up orphaned volumes
   try {
     const volFilterParam = encodeURIComponent(JSON.stringify({ label: ["ellie.overnight=true"] }));
-    const volRes = await dockerApi("GET", `/volumes?filters=${volFilterParam}`);
+    const volRes = await dockerRequest<{ Volumes?: { Name: string }[] }>("GET", `/volumes?filters=${volFilterParam}`);
     if (volRes.status === 200 && volRes.data?.Volumes) {
       for (const vol of volRes.data.Volumes) {
         try {
-          await dockerApi("DELETE", `/volumes/${encodeURIComponent(vol.Name)}`);
+          await removeEngineVolume(vol.Name);
           logger.info("Removed orphaned volume", { name: vol.Name });
         } catch {
           // Best-effort
@@ -565,7 +428,7 @@ export async function cleanupOrphanedContainers(): Promise<number> {
 
 // ── Exports for Testing ──────────────────────────────────────
 
-export { dockerApi as _dockerApiForTesting };
+export { dockerRequest as _dockerApiForTesting };
 export const CONSTANTS = {
   DOCKER_SOCKET,
   OVERNIGHT_IMAGE,
@@ -1,15 +1,46 @@
 /**
  * Payer Integration Layer — ELLIE-755
  *
- * EDI-837 claim formatter, EDI-835 remittance parser,
- * submission routing, clearinghouse connector patterns.
+ * EDI-837P claim formatter/parser, EDI-835 remittance formatter/parser,
+ * loop-level X12 validation, submission routing, clearinghouse connector
+ * patterns. Envelopes and control numbers come from x12.ts.
  *
  * Pure module — no actual HTTP/SFTP calls. Generates formatted
  * data and request structures for callers to execute.
  */
 
-import type { ClaimDocument, ClaimLineItem } from "./claim-submission";
+import type {
+  ClaimDocument, ClaimLineItem, PatientInfo, InsuranceInfo, ProviderInfo, FacilityInfo,
+} from "./claim-submission";
 import type { RemittanceLine, AdjustmentEntry } from "./payment-posting";
+import { scrubForSubmission, type ScrubFinding, type SubmissionScrub } from "./claim-scrubber";
+import {
+  DEFAULT_DELIMITERS,
+  amountToCents,
+  buildInterchange,
+  centsToAmount,
+  checkTransactionType,
+  components,
+  DEFAULT_RECEIVER,
+  DEFAULT_SENDER,
+  defaultControlNumbers,
+  detectDelimiters,
+  el,
+  findLoops,
+  findSegment,
+  formatX12Issue,
+  parseLoops,
+  parseX12,
+  sanitizeElement,
+  tokenizeX12,
+  validateHierarchy,
+  x12DateTime,
+  type BuiltInterchange,
+  type LoopSpec,
+  type TransactionSpec,
+  type X12BuildOptions,
+  type X12Issue,
+} from "./x12";
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -45,138 +76,619 @@ export interface SubmissionRequest {
   payload: string;
   format: "x12_837p" | "json" | "file";
   filename: string | null;
+  /** ISA13 of an X12 payload, for matching TA1/999 acknowledgements. */
+  interchange_control_number: string | null;
+  /**
+   * Scrubber errors or validation issues in an X12 payload — a request
+   * with issues must not be sent.
+   */
+  issues: X12Issue[];
+  /** Pre-submission scrubber findings, warnings included. */
+  scrub_findings: ScrubFinding[];
 }
 
-// ── EDI-837P Formatter (X12) ────────────────────────────────
-
-/** X12 segment separator. */
-const SEG = "~\n";
-/** X12 element separator. */
-const EL = "*";
+// ── X12 Helpers ─────────────────────────────────────────────
+
+const v = (value: string | null | undefined) => sanitizeElement(value ?? "");
+const toX12Date = (isoDate: string) => isoDate.replace(/-/g, "").slice(0, 8);
+const fromX12Date = (d8: string) => (d8.length === 8 ? `${d8.slice(0, 4)}-${d8.slice(4, 6)}-${d8.slice(6, 8)}` : d8);
+
+/** ICD-10 codes are sent without the decimal point. */
+const toX12Diagnosis = (code: string) => code.replace(".", "");
+const fromX12Diagnosis = (code: string) => (code.length > 3 ? `${code.slice(0, 3)}.${code.slice(3)}` : code);
+
+const GENDER_CODES: Record<string, string> = { female: "F", male: "M" };
+const GENDERS: Record<string, string> = { F: "female", M: "male", U: "unknown" };
+
+const AMOUNT = /^-?\d+(\.\d{1,2})?$/;
+const D8 = /^\d{8}$/;
+const NPI = /^\d{10}$/;
+
+// ── EDI-837P (X12 005010X222A1) ─────────────────────────────
+
+export const IMPLEMENTATION_837P = "005010X222A1";
+
+const nm1 = (...qualifiers: string[]) => ({ id: "NM1", qualifier: { element: 1, values: qualifiers } });
+
+/** 2300 claim loop — under the subscriber (2000B) or patient (2000C) level. */
+const CLAIM_LOOP_837P: LoopSpec = {
+  id: "2300",
+  name: "Claim Information",
+  trigger: {
+    id: "CLM",
+    elements: [
+      { position: 1, name: "Patient Control Number", required: true },
+      { position: 2, name: "Total Claim Charge Amount", required: true, pattern: AMOUNT },
+      { position: 5, name: "Health Care Service Location Information", required: true },
+    ],
+  },
+  max: 100,
+  segments: [
+    { id: "DTP", max: 17 },
+    { id: "PWK", max: 10 },
+    { id: "CN1" },
+    { id: "AMT" },
+    { id: "REF", max: 14 },
+    { id: "K3", max: 10 },
+    { id: "NTE" },
+    { id: "CR1" },
+    { id: "CR2" },
+    { id: "CRC", max: 8 },
+    { id: "HI", required: true, max: 4 },
+    { id: "HCP" },
+  ],
+  loops: [
+    { id: "2310A", name: "Referring Provider Name", trigger: nm1("DN", "P3"), max: 2, segments: [{ id: "REF", max: 3 }] },
+    {
+      id: "2310B",
+      name: "Rendering Provider Name",
+      trigger: nm1("82"),
+      max: 1,
+      segments: [{ id: "PRV" }, { id: "REF", max: 4 }],
+    },
+    {
+      id: "2310C",
+      name: "Service Facility Location Name",
+      trigger: { ...nm1("77"), elements: [{ position: 9, name: "Laboratory or Facility Primary Identifier", pattern: NPI }] },
+      max: 1,
+      segments: [{ id: "N3" }, { id: "N4" }, { id: "REF", max: 3 }, { id: "PER" }],
+    },
+    {
+      id: "2400",
+      name: "Service Line Number",
+      trigger: { id: "LX", elements: [{ position: 1, name: "Assigned Number", required: true, pattern: /^\d+$/ }] },
+      required: true,
+      max: 50,
+      segments: [
+        {
+          id: "SV1",
+          required: true,
+          elements: [
+            { position: 1, name: "Composite Medical Procedure Identifier", required: true },
+            { position: 2, name: "Line Item Charge Amount", required: true, pattern: AMOUNT },
+            { position: 3, name: "Unit or Basis for Measurement Code", required: true, values: ["MJ", "UN"] },
+            { position: 4, name: "Service Unit Count", required: true },
+          ],
+        },
+        { id: "PWK", max: 10 },
+        { id: "CR1" },
+        { id: "CRC", max: 3 },
+        { id: "DTP", max: 9, elements: [{ position: 3, name: "Date Time Period", required: true, pattern: D8 }] },
+        { id: "REF", max: 17 },
+        { id: "AMT", max: 2 },
+        { id: "NTE", max: 2 },
+      ],
+      loops: [{ id: "2420A", name: "Rendering Provider Name", trigger: nm1("82"), max: 1, segments: [{ id: "PRV" }, { id: "REF", max: 20 }] }],
+    },
+  ],
+};
 
 /**
- * Format a claim into EDI-837P (Professional) X12 format.
- * Simplified — covers the core segments for a valid 837P.
- * Pure function.
+ * Loop hierarchy of the 837P — the segments this pipeline produces and
+ * commonly receives. Address segments (N3/N4) are optional here because
+ * ClaimDocument doesn't carry addresses yet.
  */
-export function formatEDI837P(claim: ClaimDocument): string {
-  const segments: string[] = [];
-  const now = new Date();
-  const date = now.toISOString().slice(0, 10).replace(/-/g, "");
-  const time = now.toISOString().slice(11, 15).replace(":", "");
-  const controlNum = claim.claim_id.replace(/[^A-Z0-9]/gi, "").slice(0, 9).padEnd(9, "0");
-
-  // ISA - Interchange Control Header
-  segments.push(`ISA${EL}00${EL}          ${EL}00${EL}          ${EL}ZZ${EL}SENDER         ${EL}ZZ${EL}RECEIVER       ${EL}${date.slice(2)}${EL}${time}${EL}^${EL}00501${EL}${controlNum}${EL}0${EL}P${EL}:`);
-
-  // GS - Functional Group Header
-  segments.push(`GS${EL}HC${EL}SENDER${EL}RECEIVER${EL}${date}${EL}${time}${EL}1${EL}X${EL}005010X222A1`);
+export const SPEC_837P: TransactionSpec = {
+  id: "837",
+  implementation: IMPLEMENTATION_837P,
+  header: [
+    {
+      id: "BHT",
+      required: true,
+      elements: [
+        { position: 1, name: "Hierarchical Structure Code", required: true, values: ["0019"] },
+        { position: 2, name: "Transaction Set Purpose Code", required: true, values: ["00", "18"] },
+        { position: 3, name: "Originator Application Transaction Identifier", required: true },
+        { position: 4, name: "Transaction Set Creation Date", required: true, pattern: D8 },
+      ],
+    },
+  ],
+  loops: [
+    { id: "1000A", name: "Submitter Name", trigger: nm1("41"), required: true, max: 1, segments: [{ id: "PER", max: 2 }] },
+    { id: "1000B", name: "Receiver Name", trigger: nm1("40"), required: true, max: 1 },
+    {
+      id: "2000A",
+      name: "Billing Provider Hierarchical Level",
+      trigger: { id: "HL", qualifier: { element: 3, values: ["20"] } },
+      required: true,
+      segments: [{ id: "PRV" }, { id: "CUR" }],
+      loops: [
+        {
+          id: "2010AA",
+          name: "Billing Provider Name",
+          trigger: {
+            ...nm1("85"),
+            elements: [{ position: 9, name: "Billing Provider Identifier", required: true, pattern: NPI }],
+          },
+          required: true,
+          max: 1,
+          segments: [{ id: "N3" }, { id: "N4" }, { id: "REF", max: 2 }, { id: "PER", max: 2 }],
+        },
+        { id: "2010AB", name: "Pay-to Address Name", trigger: nm1("87"), max: 1, segments: [{ id: "N3" }, { id: "N4" }] },
+        {
+          id: "2000B",
+          name: "Subscriber Hierarchical Level",
+          trigger: { id: "HL", qualifier: { element: 3, values: ["22"] } },
+          required: true,
+          segments: [
+            { id: "SBR", required: true, elements: [{ position: 1, name: "Payer Responsibility Sequence Number Code", required: true }] },
+            { id: "PAT" },
+          ],
+          loops: [
+            {
+              id: "2010BA",
+              name: "Subscriber Name",
+              trigger: { ...nm1("IL"), elements: [{ position: 3, name: "Subscriber Last Name", required: true }] },
+              required: true,
+              max: 1,
+              segments: [
+                { id: "N3" },
+                { id: "N4" },
+                { id: "DMG", elements: [{ position: 2, name: "Subscriber Birth Date", required: true, pattern: D8 }] },
+                { id: "REF", max: 2 },
+              ],
+            },
+            {
+              id: "2010BB",
+              name: "Payer Name",
+              trigger: { ...nm1("PR"), elements: [{ position: 9, name: "Payer Identifier", required: true }] },
+              required: true,
+              max: 1,
+              segments: [{ id: "N3" }, { id: "N4" }, { id: "REF", max: 5 }],
+            },
+            {
+              id: "2000C",
+              name: "Patient Hierarchical Level",
+              trigger: { id: "HL", qualifier: { element: 3, values: ["23"] } },
+              segments: [{ id: "PAT", required: true }],
+              loops: [
+                { id: "2010CA", name: "Patient Name", trigger: nm1("QC"), required: true, max: 1, segments: [{ id: "N3" }, { id: "N4" }, { id: "DMG" }] },
+                CLAIM_LOOP_837P,
+              ],
+            },
+            CLAIM_LOOP_837P,
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/** Place-of-service code, "B" facility qualifier, frequency "1" (original claim). */
+function serviceLocation(claim: ClaimDocument): string {
+  return `${claim.facility ? claim.facility.place_of_service : "11"}:B:1`;
+}
 
-  // ST - Transaction Set Header
-  segments.push(`ST${EL}837${EL}0001${EL}005010X222A1`);
+function body837P(claim: ClaimDocument, createdAt: Date): string[][] {
+  const { date, time } = x12DateTime(createdAt);
+  const { provider, insurance, patient } = claim;
+  const segments: string[][] = [];
 
-  // BHT - Beginning of Hierarchical Transaction
-  segments.push(`BHT${EL}0019${EL}00${EL}${controlNum}${EL}${date}${EL}${time}${EL}CH`);
+  // Header
+  segments.push(["BHT", "0019", "00", v(claim.claim_id), date, time, "CH"]);
 
-  // Submitter (1000A)
-  segments.push(`NM1${EL}41${EL}2${EL}${claim.provider.name}${EL}${EL}${EL}${EL}${EL}46${EL}${claim.provider.npi}`);
+  // Submitter (1000A) and receiver (1000B)
+  segments.push(["NM1", "41", "2", v(provider.name), "", "", "", "", "46", provider.npi]);
+  segments.push(["NM1", "40", "2", v(insurance.payer_name), "", "", "", "", "46", v(insurance.payer_id)]);
 
-  // Receiver (1000B)
-  segments.push(`NM1${EL}40${EL}2${EL}${claim.insurance.payer_name}${EL}${EL}${EL}${EL}${EL}46${EL}${claim.insurance.payer_id}`);
+  // Billing provider (2000A/2010AA)
+  segments.push(["HL", "1", "", "20", "1"]);
+  if (provider.taxonomy_code) segments.push(["PRV", "BI", "PXC", v(provider.taxonomy_code)]);
+  segments.push(["NM1", "85", "2", v(provider.name), "", "", "", "", "XX", provider.npi]);
 
-  // Subscriber (2000B/2010BA)
-  segments.push(`HL${EL}1${EL}${EL}20${EL}1`);
-  segments.push(`SBR${EL}P${EL}18${EL}${claim.insurance.plan_id}${EL}${EL}${EL}${EL}${EL}${EL}CI`);
-  segments.push(`NM1${EL}IL${EL}1${EL}${claim.patient.last_name}${EL}${claim.patient.first_name}${EL}${EL}${EL}${EL}MI${EL}${claim.patient.member_id}`);
-  segments.push(`DMG${EL}D8${EL}${claim.patient.dob.replace(/-/g, "")}${EL}${claim.patient.gender === "female" ? "F" : "M"}`);
+  // Subscriber (2000B/2010BA) — patient is the subscriber
+  segments.push(["HL", "2", "1", "22", "0"]);
+  segments.push(["SBR", "P", "18", v(insurance.group_number), v(insurance.plan_id), "", "", "", "", "CI"]);
+  segments.push(["NM1", "IL", "1", v(patient.last_name), v(patient.first_name), "", "", "", "MI", v(patient.member_id)]);
+  segments.push(["DMG", "D8", toX12Date(patient.dob), GENDER_CODES[patient.gender.toLowerCase()] ?? "U"]);
 
   // Payer (2010BB)
-  segments.push(`NM1${EL}PR${EL}2${EL}${claim.insurance.payer_name}${EL}${EL}${EL}${EL}${EL}PI${EL}${claim.insurance.payer_id}`);
+  segments.push(["NM1", "PR", "2", v(insurance.payer_name), "", "", "", "", "PI", v(insurance.payer_id)]);
 
   // Claim (2300)
-  segments.push(`CLM${EL}${claim.claim_id}${EL}${(claim.total_charge_cents / 100).toFixed(2)}${EL}${EL}${EL}${claim.facility ? claim.facility.place_of_service : "11"}:B:1${EL}Y${EL}A${EL}Y${EL}Y`);
+  segments.push(["CLM", v(claim.claim_id), centsToAmount(claim.total_charge_cents), "", "", serviceLocation(claim), "Y", "A", "Y", "Y"]);
+  for (let i = 0; i < claim.diagnoses.length; i += 12) {
+    segments.push(["HI", ...claim.diagnoses.slice(i, i + 12).map((d, j) =>
+      `${i + j === 0 ? "ABK" : "ABF"}:${toX12Diagnosis(v(d))}`,
+    )]);
+  }
 
-  // Diagnosis (2300 - HI segment)
-  const diagPointers = claim.diagnoses.map((d, i) =>
-    `${i === 0 ? "ABK" : "ABF"}:${d}`,
-  );
-  segments.push(`HI${EL}${diagPointers.join(EL)}`);
+  // Service facility (2310C)
+  if (claim.facility) {
+    segments.push(["NM1", "77", "2", v(claim.facility.name), "", "", "", "", "XX", claim.facility.npi]);
+  }
 
-  // Service Lines (2400)
+  // Service lines (2400)
   for (const li of claim.line_items) {
-    const modStr = li.modifiers.length > 0 ? `:${li.modifiers.join(":")}` : "";
-    segments.push(`LX${EL}${li.line_number}`);
-    segments.push(`SV1${EL}HC:${li.cpt_code}${modStr}${EL}${(li.charge_cents / 100).toFixed(2)}${EL}UN${EL}${li.units}${EL}${EL}${EL}${li.diagnosis_pointers.map(p => p + 1).join(":")}`);
-    segments.push(`DTP${EL}472${EL}D8${EL}${claim.encounter_date.replace(/-/g, "")}`);
+    const procedure = ["HC", li.cpt_code, ...li.modifiers].map(v).join(":");
+    segments.push(["LX", String(li.line_number)]);
+    segments.push(["SV1", procedure, centsToAmount(li.charge_cents), "UN", String(li.units), "", "", li.diagnosis_pointers.slice(0, 4).map(p => p + 1).join(":")]);
+    segments.push(["DTP", "472", "D8", toX12Date(claim.encounter_date)]);
   }
 
-  // SE - Transaction Set Trailer
-  segments.push(`SE${EL}${segments.length + 1}${EL}0001`);
+  return segments;
+}
 
-  // GE - Functional Group Trailer
-  segments.push(`GE${EL}1${EL}1`);
+/**
+ * Build an EDI-837P (Professional) interchange for a claim, returning the
+ * control numbers assigned so acknowledgements can be matched back.
+ * Pure apart from control-number allocation.
+ */
+export function build837P(claim: ClaimDocument, options: X12BuildOptions = {}): BuiltInterchange {
+  const date = options.date ?? new Date();
+  return buildInterchange([{ id: "837", segments: body837P(claim, date) }], {
+    sender: options.sender ?? DEFAULT_SENDER,
+    receiver: options.receiver ?? DEFAULT_RECEIVER,
+    functional_id: "HC",
+    implementation: IMPLEMENTATION_837P,
+    controlNumbers: options.controlNumbers ?? defaultControlNumbers,
+    date,
+    usage: options.usage,
+  });
+}
 
-  // IEA - Interchange Control Trailer
-  segments.push(`IEA${EL}1${EL}${controlNum}`);
+/**
+ * Format a claim into EDI-837P (Professional) X12 format.
+ */
+export function formatEDI837P(claim: ClaimDocument, options: X12BuildOptions = {}): string {
+  return build837P(claim, options).edi;
+}
 
-  return segments.join(SEG) + SEG;
+/** A claim recovered from an 837P — everything the format carries. */
+export interface ParsedClaim837P {
+  claim_id: string;
+  encounter_date: string;
+  patient: Omit<PatientInfo, "id">;
+  insurance: Omit<InsuranceInfo, "subscriber_id">;
+  provider: ProviderInfo;
+  facility: FacilityInfo | null;
+  diagnoses: string[];
+  line_items: Omit<ClaimLineItem, "expected_reimbursement_cents">[];
+  total_charge_cents: number;
 }
 
-// ── EDI-835 Parser ──────────────────────────────────────────
+/**
+ * Parse an EDI-837P interchange back into claims, with every envelope
+ * and loop-level issue found on the way.
+ */
+export function parseEDI837P(raw: string): { claims: ParsedClaim837P[]; issues: X12Issue[] } {
+  const { interchange, issues } = parseX12(raw);
+  const claims: ParsedClaim837P[] = [];
+  if (!interchange) return { claims, issues };
+  const d = interchange.delimiters;
+  issues.push(...checkTransactionType(interchange, "837", "HC", IMPLEMENTATION_837P));
+
+  for (const tx of interchange.groups.flatMap(g => g.transactions).filter(t => t.id === "837")) {
+    const parsed = parseLoops(tx, SPEC_837P);
+    issues.push(...parsed.issues, ...validateHierarchy(tx));
+
+    for (const billing of findLoops(parsed.loops, "2000A")) {
+      const billingName = findLoops(billing.loops, "2010AA")[0];
+      const nm185 = findSegment(billingName, "NM1");
+      const prv = findSegment(billing, "PRV");
+      const provider: ProviderInfo = {
+        npi: nm185 ? el(nm185, 9) : "",
+        name: nm185 ? el(nm185, 3) : "",
+        taxonomy_code: prv ? el(prv, 3) : null,
+      };
+
+      for (const subscriber of findLoops(billing.loops, "2000B")) {
+        const sbr = findSegment(subscriber, "SBR");
+        const nmIL = findSegment(findLoops(subscriber.loops, "2010BA")[0], "NM1");
+        const dmg = findSegment(findLoops(subscriber.loops, "2010BA")[0], "DMG");
+        const nmPR = findSegment(findLoops(subscriber.loops, "2010BB")[0], "NM1");
+
+        for (const claimLoop of findLoops(subscriber.loops, "2300")) {
+          const clm = claimLoop.segments[0];
+          const facility = findSegment(findLoops(claimLoop.loops, "2310C")[0], "NM1");
+          const lines = findLoops(claimLoop.loops, "2400");
+          const placeOfService = components(el(clm, 5), d)[0] ?? "11";
+          const serviceDate = findSegment(lines[0], "DTP", "472");
+
+          claims.push({
+            claim_id: el(clm, 1),
+            encounter_date: serviceDate ? fromX12Date(el(serviceDate, 3)) : "",
+            patient: {
+              first_name: nmIL ? el(nmIL, 4) : "",
+              last_name: nmIL ? el(nmIL, 3) : "",
+              dob: dmg ? fromX12Date(el(dmg, 2)) : "",
+              gender: GENDERS[dmg ? el(dmg, 3) : "U"] ?? "unknown",
+              member_id: nmIL ? el(nmIL, 9) : "",
+            },
+            insurance: {
+              payer_id: nmPR ? el(nmPR, 9) : "",
+              payer_name: nmPR ? el(nmPR, 3) : "",
+              plan_id: sbr ? el(sbr, 4) : "",
+              group_number: (sbr && el(sbr, 3)) || null,
+            },
+            provider,
+            facility: facility ? { npi: el(facility, 9), name: el(facility, 3), place_of_service: placeOfService } : null,
+            diagnoses: claimLoop.segments
+              .filter(s => s.id === "HI")
+              .flatMap(s => s.elements.slice(1).filter(Boolean).map(c => fromX12Diagnosis(components(c, d)[1] ?? ""))),
+            line_items: lines.map(line => {
+              const sv1 = findSegment(line, "SV1");
+              const [, cpt = "", ...modifiers] = components(sv1 ? el(sv1, 1) : "", d);
+              return {
+                line_number: Number(el(line.segments[0], 1)),
+                cpt_code: cpt,
+                modifiers,
+                diagnosis_pointers: components(sv1 ? el(sv1, 7) : "", d).map(p => Number(p) - 1),
+                units: Number(sv1 ? el(sv1, 4) : 0),
+                charge_cents: amountToCents(sv1 ? el(sv1, 2) : ""),
+              };
+            }),
+            total_charge_cents: amountToCents(el(clm, 2)),
+          });
+        }
+      }
+    }
+  }
+
+  return { claims, issues };
+}
+
+// ── EDI-835 (X12 005010X221A1) ──────────────────────────────
+
+export const IMPLEMENTATION_835 = "005010X221A1";
+
+/** Loop hierarchy of the 835 remittance advice. */
+export const SPEC_835: TransactionSpec = {
+  id: "835",
+  implementation: IMPLEMENTATION_835,
+  header: [
+    {
+      id: "BPR",
+      required: true,
+      elements: [
+        { position: 1, name: "Transaction Handling Code", required: true, values: ["C", "D", "H", "I", "P", "U", "X"] },
+        { position: 2, name: "Total Actual Provider Payment Amount", required: true, pattern: AMOUNT },
+        { position: 16, name: "Check Issue or EFT Effective Date", required: true, pattern: D8 },
+      ],
+    },
+    { id: "TRN", required: true, elements: [{ position: 2, name: "Check or EFT Trace Number", required: true }] },
+    { id: "CUR" },
+    { id: "REF", max: 2 },
+    { id: "DTM" },
+    { id: "PLB", max: 1000 },
+  ],
+  loops: [
+    {
+      id: "1000A",
+      name: "Payer Identification",
+      trigger: { id: "N1", qualifier: { element: 1, values: ["PR"] } },
+      required: true,
+      max: 1,
+      segments: [{ id: "N3" }, { id: "N4" }, { id: "REF", max: 4 }, { id: "PER", max: 3 }],
+    },
+    {
+      id: "1000B",
+      name: "Payee Identification",
+      trigger: { id: "N1", qualifier: { element: 1, values: ["PE"] } },
+      required: true,
+      max: 1,
+      segments: [{ id: "N3" }, { id: "N4" }, { id: "REF", max: 2 }, { id: "RDM" }],
+    },
+    {
+      id: "2000",
+      name: "Header Number",
+      trigger: { id: "LX" },
+      segments: [{ id: "TS3" }, { id: "TS2" }],
+      loops: [
+        {
+          id: "2100",
+          name: "Claim Payment Information",
+          trigger: {
+            id: "CLP",
+            elements: [
+              { position: 1, name: "Patient Control Number", required: true },
+              { position: 2, name: "Claim Status Code", required: true },
+              { position: 3, name: "Total Claim Charge Amount", required: true, pattern: AMOUNT },
+              { position: 4, name: "Claim Payment Amount", required: true, pattern: AMOUNT },
+            ],
+          },
+          required: true,
+          segments: [
+            { id: "CAS", max: 99 },
+            { id: "NM1", max: 7 },
+            { id: "MIA" },
+            { id: "MOA" },
+            { id: "REF", max: 15 },
+            { id: "DTM", max: 4 },
+            { id: "PER", max: 2 },
+            { id: "AMT", max: 13 },
+            { id: "QTY", max: 14 },
+          ],
+          loops: [
+            {
+              id: "2110",
+              name: "Service Payment Information",
+              trigger: {
+                id: "SVC",
+                elements: [
+                  { position: 1, name: "Composite Medical Procedure Identifier", required: true },
+                  { position: 2, name: "Line Item Charge Amount", required: true, pattern: AMOUNT },
+                  { position: 3, name: "Line Item Provider Payment Amount", required: true, pattern: AMOUNT },
+                ],
+              },
+              max: 999,
+              segments: [
+                { id: "DTM", max: 2 },
+                { id: "CAS", max: 99 },
+                { id: "REF", max: 15 },
+                { id: "AMT", max: 9 },
+                { id: "QTY", max: 6 },
+                { id: "LQ", max: 99 },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/** Everything an 835 carries beyond the remittance lines themselves. */
+export interface RemittanceAdvice {
+  payer: { id: string; name: string };
+  payee: { npi: string; name: string };
+  /** TRN02 — check or EFT trace number. */
+  trace_number: string;
+  payment_date: string;
+  lines: RemittanceLine[];
+}
+
+/** CLP02: 1 = processed as primary, 4 = denied. */
+function claimStatusCode(line: RemittanceLine): string {
+  return line.paid_cents === 0 && line.billed_cents > 0 ? "4" : "1";
+}
+
+function casSegments(adjustments: AdjustmentEntry[]): string[][] {
+  const byGroup = new Map<string, AdjustmentEntry[]>();
+  for (const a of adjustments) byGroup.set(a.group_code, [...(byGroup.get(a.group_code) ?? []), a]);
+
+  const segments: string[][] = [];
+  for (const [group, entries] of byGroup) {
+    // Up to six reason/amount/quantity triplets per CAS
+    for (let i = 0; i < entries.length; i += 6) {
+      const triplets = entries.slice(i, i + 6).flatMap((a, j, chunk) =>
+        j === chunk.length - 1 ? [a.reason_code, centsToAmount(a.amount_cents)] : [a.reason_code, centsToAmount(a.amount_cents), ""],
+      );
+      segments.push(["CAS", group, ...triplets]);
+    }
+  }
+  return segments;
+}
+
+function body835(advice: RemittanceAdvice): string[][] {
+  const totalPaid = advice.lines.reduce((s, l) => s + l.paid_cents, 0);
+  const segments: string[][] = [
+    ["BPR", "I", centsToAmount(totalPaid), "C", "CHK", "", "", "", "", "", "", "", "", "", "", "", toX12Date(advice.payment_date)],
+    ["TRN", "1", v(advice.trace_number), v(advice.payer.id)],
+    ["N1", "PR", v(advice.payer.name), "PI", v(advice.payer.id)],
+    ["N1", "PE", v(advice.payee.name), "XX", advice.payee.npi],
+  ];
+  if (advice.lines.length === 0) return segments;
+
+  segments.push(["LX", "1"]);
+  for (const line of advice.lines) {
+    const [last = "", first = ""] = (line.patient_name ?? "").split(", ");
+    segments.push(["CLP", v(line.claim_id), claimStatusCode(line), centsToAmount(line.billed_cents), centsToAmount(line.paid_cents),
+      centsToAmount(line.patient_responsibility_cents), "12", v(line.claim_id)]);
+    if (line.patient_name) segments.push(["NM1", "QC", "1", v(last), v(first)]);
+    segments.push(["SVC", `HC:${v(line.cpt_code)}`, centsToAmount(line.billed_cents), centsToAmount(line.paid_cents)]);
+    segments.push(...casSegments(line.adjustments));
+    segments.push(["AMT", "B6", centsToAmount(line.allowed_cents)]);
+    for (const code of line.remark_codes ?? []) segments.push(["LQ", "HE", v(code)]);
+  }
+  return segments;
+}
+
+/**
+ * Build an EDI-835 remittance advice interchange. The clearinghouse
+ * simulator and fixtures use this; production 835s come from payers.
+ */
+export function build835(advice: RemittanceAdvice, options: X12BuildOptions = {}): BuiltInterchange {
+  const date = options.date ?? new Date();
+  return buildInterchange([{ id: "835", segments: body835(advice) }], {
+    sender: options.sender ?? { qualifier: "ZZ", id: advice.payer.id },
+    receiver: options.receiver ?? DEFAULT_RECEIVER,
+    functional_id: "HP",
+    implementation: IMPLEMENTATION_835,
+    controlNumbers: options.controlNumbers ?? defaultControlNumbers,
+    date,
+    usage: options.usage,
+  });
+}
+
+export function formatEDI835(advice: RemittanceAdvice, options: X12BuildOptions = {}): string {
+  return build835(advice, options).edi;
+}
 
 /**
  * Parse an EDI-835 (ERA) string into structured remittance lines.
- * Simplified parser — handles CLP (claim payment) and SVC (service) segments.
+ * Lenient: accepts a full interchange or bare CLP/SVC/CAS fragments;
+ * use validateEDI835 first to reject malformed interchanges.
  * Pure function.
  */
 export function parseEDI835(raw: string): RemittanceLine[] {
   const lines: RemittanceLine[] = [];
-  const segments = raw.split("~").map(s => s.trim()).filter(Boolean);
+  const delimiters = detectDelimiters(raw) ?? DEFAULT_DELIMITERS;
 
   let currentClaim: Partial<RemittanceLine> | null = null;
   let currentAdjustments: AdjustmentEntry[] = [];
+  let currentRemarks: string[] = [];
 
-  for (const seg of segments) {
-    const elements = seg.split("*");
-    const id = elements[0];
+  for (const seg of tokenizeX12(raw, delimiters)) {
+    const elements = seg.elements;
+    const id = seg.id;
 
     if (id === "CLP") {
       // Save previous claim
       if (currentClaim?.claim_id) {
-        lines.push(finalizeLine(currentClaim, currentAdjustments));
+        lines.push(finalizeLine(currentClaim, currentAdjustments, currentRemarks));
       }
       currentClaim = {
         claim_id: elements[1] ?? "",
         patient_name: null,
         cpt_code: "",
-        billed_cents: parseCents(elements[3]),
-        paid_cents: parseCents(elements[4]),
-        allowed_cents: 0,
+        billed_cents: amountToCents(elements[3]),
+        paid_cents: amountToCents(elements[4]),
         adjustments: [],
         patient_responsibility_cents: 0,
       };
       currentAdjustments = [];
+      currentRemarks = [];
     }
 
     if (id === "SVC" && currentClaim) {
-      const codeInfo = elements[1]?.split(":") ?? [];
+      const codeInfo = components(elements[1], delimiters);
       currentClaim.cpt_code = codeInfo[1] ?? "";
-      currentClaim.billed_cents = parseCents(elements[2]);
-      currentClaim.paid_cents = parseCents(elements[3]);
-      if (elements[5]) currentClaim.allowed_cents = parseCents(elements[5]);
+      currentClaim.billed_cents = amountToCents(elements[2]);
+      currentClaim.paid_cents = amountToCents(elements[3]);
+    }
+
+    // Service line allowed amount
+    if (id === "AMT" && elements[1] === "B6" && currentClaim) {
+      currentClaim.allowed_cents = amountToCents(elements[2]);
     }
 
     if (id === "CAS" && currentClaim) {
       const groupCode = elements[1] ?? "";
       for (let i = 2; i < elements.length; i += 3) {
         const reasonCode = elements[i];
-        const amount = parseCents(elements[i + 1]);
+        const amount = amountToCents(elements[i + 1]);
         if (reasonCode && amount > 0) {
           currentAdjustments.push({ group_code: groupCode, reason_code: reasonCode, amount_cents: amount });
         }
       }
     }
 
+    // Remittance advice remark codes (RARC)
+    if (id === "LQ" && elements[1] === "HE" && elements[2] && currentClaim) {
+      currentRemarks.push(elements[2]);
+    }
+
     if (id === "NM1" && elements[1] === "QC" && currentClaim) {
       currentClaim.patient_name = [elements[3], elements[4]].filter(Boolean).join(", ");
     }
@@ -184,19 +696,13 @@ export function parseEDI835(raw: string): RemittanceLine[] {
 
   // Save last claim
   if (currentClaim?.claim_id) {
-    lines.push(finalizeLine(currentClaim, currentAdjustments));
+    lines.push(finalizeLine(currentClaim, currentAdjustments, currentRemarks));
   }
 
   return lines;
 }
 
-function parseCents(val: string | undefined): number {
-  if (!val) return 0;
-  const num = parseFloat(val);
-  return isNaN(num) ? 0 : Math.round(num * 100);
-}
-
-function finalizeLine(partial: Partial<RemittanceLine>, adjustments: AdjustmentEntry[]): RemittanceLine {
+function finalizeLine(partial: Partial<RemittanceLine>, adjustments: AdjustmentEntry[], remarks: string[]): RemittanceLine {
   const patientResp = adjustments
     .filter(a => a.group_code === "PR")
     .reduce((s, a) => s + a.amount_cents, 0);
@@ -206,10 +712,12 @@ function finalizeLine(partial: Partial<RemittanceLine>, adjustments: AdjustmentE
     patient_name: partial.patient_name ?? null,
     cpt_code: partial.cpt_code ?? "",
     billed_cents: partial.billed_cents ?? 0,
-    allowed_cents: partial.allowed_cents ?? partial.billed_cents ?? 0,
+    // Without AMT*B6 the allowed amount is what the payer paid plus what the patient owes
+    allowed_cents: partial.allowed_cents ?? (partial.paid_cents ?? 0) + patientResp,
     paid_cents: partial.paid_cents ?? 0,
     adjustments,
     patient_responsibility_cents: patientResp,
+    ...(remarks.length > 0 ? { remark_codes: remarks } : {}),
   };
 }
 
@@ -217,23 +725,50 @@ function finalizeLine(partial: Partial<RemittanceLine>, adjustments: AdjustmentE
 
 /**
  * Route a claim to the correct submission method based on payer integration config.
- * Pure function.
+ * The claim is scrubbed first; scrubber errors block it — no payload is
+ * built and the errors come back as issues. The caller supplies the rule
+ * versions (loadScrubRules) and today's date.
  */
 export function routeSubmission(
   claim: ClaimDocument,
   integration: PayerIntegration,
+  scrub: SubmissionScrub,
 ): SubmissionRequest {
+  const { passed, findings } = scrubForSubmission(claim, scrub);
+  if (!passed) {
+    return {
+      method: integration.submission_method,
+      payer_id: integration.payer_id,
+      clearinghouse: integration.clearinghouse,
+      endpoint: null,
+      payload: "",
+      format: integration.submission_method === "api" || integration.submission_method === "portal" ? "json" : "x12_837p",
+      filename: null,
+      interchange_control_number: null,
+      issues: findings.filter(f => f.severity === "error").map(f => ({
+        code: "SCRUB_ERROR",
+        message: `${f.rule_key}: ${f.message}`,
+        segment_id: null,
+        position: null,
+      })),
+      scrub_findings: findings,
+    };
+  }
+
   switch (integration.submission_method) {
     case "edi": {
-      const payload = formatEDI837P(claim);
+      const built = build837P(claim);
       return {
         method: "edi",
         payer_id: integration.payer_id,
         clearinghouse: integration.clearinghouse,
         endpoint: integration.endpoint_url,
-        payload,
+        payload: built.edi,
         format: "x12_837p",
         filename: `837P_${claim.claim_id}_${Date.now()}.edi`,
+        interchange_control_number: built.interchange_control_number,
+        issues: validateEDI837P(built.edi).issues,
+        scrub_findings: findings,
       };
     }
     case "api":
@@ -245,17 +780,23 @@ export function routeSubmission(
         payload: JSON.stringify(claim),
         format: "json",
         filename: null,
+        interchange_control_number: null,
+        issues: [],
+        scrub_findings: findings,
       };
     case "sftp": {
-      const payload = formatEDI837P(claim);
+      const built = build837P(claim);
       return {
         method: "sftp",
         payer_id: integration.payer_id,
         clearinghouse: null,
         endpoint: integration.sftp_host,
-        payload,
+        payload: built.edi,
         format: "x12_837p",
         filename: `837P_${claim.claim_id}_${Date.now()}.edi`,
+        interchange_control_number: built.interchange_control_number,
+        issues: validateEDI837P(built.edi).issues,
+        scrub_findings: findings,
       };
     }
     case "portal":
@@ -267,36 +808,53 @@ export function routeSubmission(
         payload: JSON.stringify(claim),
         format: "json",
         filename: null,
+        interchange_control_number: null,
+        issues: [],
+        scrub_findings: findings,
       };
   }
 }
 
 // ── Validation ──────────────────────────────────────────────
 
+export interface EDIValidationResult {
+  valid: boolean;
+  /** One line per issue, for logs and UI. */
+  errors: string[];
+  issues: X12Issue[];
+}
+
+function toValidationResult(issues: X12Issue[]): EDIValidationResult {
+  return { valid: issues.length === 0, errors: issues.map(formatX12Issue), issues };
+}
+
 /**
- * Validate an EDI-837P output has required segments.
+ * Validate an EDI-837P interchange: envelope, control numbers and counts,
+ * loop hierarchy, required segments and element formats.
  * Pure function.
  */
-export function validateEDI837P(edi: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  const required = ["ISA", "GS", "ST", "BHT", "NM1", "CLM", "HI", "SV1", "SE", "GE", "IEA"];
-
-  for (const seg of required) {
-    if (!edi.includes(`${seg}*`)) {
-      errors.push(`Missing required segment: ${seg}`);
-    }
-  }
-
-  if (!edi.includes("837")) errors.push("Missing transaction set identifier 837");
-
-  return { valid: errors.length === 0, errors };
+export function validateEDI837P(edi: string): EDIValidationResult {
+  return toValidationResult(parseEDI837P(edi).issues);
 }
 
 /**
- * Validate an EDI-835 has basic structure.
+ * Validate an EDI-835. A full interchange gets envelope and loop-level
+ * validation; a bare fragment (no ISA) is only checked for claim payments.
  */
-export function validateEDI835(edi: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  if (!edi.includes("CLP*")) errors.push("Missing CLP (claim payment) segment");
-  return { valid: errors.length === 0, errors };
+export function validateEDI835(edi: string): EDIValidationResult {
+  if (!detectDelimiters(edi)) {
+    const hasClaims = tokenizeX12(edi).some(s => s.id === "CLP");
+    return toValidationResult(hasClaims ? [] : [{
+      code: "MISSING_SEGMENT", message: "Missing CLP (claim payment) segment", segment_id: "CLP", position: null,
+    }]);
+  }
+
+  const { interchange, issues } = parseX12(edi);
+  if (interchange) {
+    issues.push(...checkTransactionType(interchange, "835", "HP", IMPLEMENTATION_835));
+    for (const tx of interchange.groups.flatMap(g => g.transactions).filter(t => t.id === "835")) {
+      issues.push(...parseLoops(tx, SPEC_835).issues);
+    }
+  }
+  return toValidationResult(issues);
 }
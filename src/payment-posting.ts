@@ -27,6 +27,8 @@ export interface RemittanceLine {
   paid_cents: number;
   adjustments: AdjustmentEntry[];
   patient_responsibility_cents: number;
+  /** RARC remark codes (835 LQ*HE), e.g. "N290". Present only when the payer sent any. */
+  remark_codes?: string[];
 }
 
 export interface AdjustmentEntry {
@@ -36,8 +36,9 @@ export function initPeriodicTasks(deps: PeriodicTaskDeps): void {
   // One-time registration at startup
   (async () => {
     try {
-      const { registerConnector, googleTasksConnector } = await import("./ums/index.ts");
+      const { registerConnector, googleTasksConnector, emlConnector } = await import("./ums/index.ts");
       registerConnector(googleTasksConnector);
+      registerConnector(emlConnector);
       logger.info("UMS connectors registered");
     } catch (err) {
       logger.error("UMS connector registration failed", err);
@@ -165,6 +166,12 @@ export function initPeriodicTasks(deps: PeriodicTaskDeps): void {
     await purgeCompleted();
   }, 24 * 60 * 60_000, "plane-queue-purge");
 
+  // Queued dispatch expiry — every minute, so idle work items don't hold stale dispatches
+  periodicTask(async () => {
+    const { expireQueued } = await import("./dispatch-queue.ts");
+    expireQueued();
+  }, 60_000, "dispatch-queue-expiry");
+
   // Phone history TTL sweep — hourly (ELLIE-489)
   // Removes ellieChatPhoneHistories entries unused for >24h to prevent memory leak.
   periodicTask(async () => {
@@ -494,10 +501,11 @@ export function initPeriodicTasks(deps: PeriodicTaskDeps): void {
   periodicTask(async () => {
     const { schedulerTick, getDefaultExecutors } = await import("./scheduled-tasks.ts");
     const result = await schedulerTick(getDefaultExecutors());
-    if (result.triggered.length > 0 || result.failed.length > 0) {
+    if (result.triggered.length > 0 || result.failed.length > 0 || result.skipped.length > 0) {
       logger.info("Scheduled tasks tick", {
         triggered: result.triggered,
         failed: result.failed.map(f => f.name),
+        skipped: result.skipped.map(s => `${s.name}: ${s.reason}`),
       });
     }
   }, 60_000, "scheduled-tasks-tick");
@@ -505,11 +513,20 @@ export function initPeriodicTasks(deps: PeriodicTaskDeps): void {
   // ELLIE-979: Docker sandbox cleanup — remove expired containers (every 15 minutes)
   periodicTask(async () => {
     const { cleanupExpiredContainers, isDockerAvailable } = await import("./docker-sandbox.ts");
+    const { cleanupExpiredSessions } = await import("./sandbox-manager.ts");
     if (!(await isDockerAvailable())) return;
+    const sessions = await cleanupExpiredSessions();
+    if (sessions > 0) logger.info(`Sandbox cleanup: removed ${sessions} expired session(s)`);
     const removed = await cleanupExpiredContainers();
     if (removed > 0) logger.info(`Sandbox cleanup: removed ${removed} expired container(s)`);
   }, 15 * 60_000, "sandbox-cleanup");
 
+  // Terminal recordings — drop recordings past their retention (daily)
+  periodicTask(async () => {
+    const { pruneRecordings } = await import("./terminal-recorder.ts");
+    pruneRecordings();
+  }, 24 * 60 * 60_000, "terminal-recording-prune");
+
   // ELLIE-1265: OS auth cleanup — purge expired verification tokens + sessions (every 6 hours)
   periodicTask(async () => {
     const forestSql = (await import("../../ellie-forest/src/db")).default;
@@ -569,6 +586,18 @@ export function runStartupTasks(deps: PeriodicTaskDeps): void {
 }
 
 async function initUmsConsumers(supabase: SupabaseClient, bot: Bot): Promise<void> {
+  // Restore queued redeliveries from before the restart, then retry them on a tick
+  try {
+    const { loadPendingDeliveries } = await import("./ums/consumer-delivery.ts");
+    await loadPendingDeliveries(supabase);
+    periodicTask(async () => {
+      const { redeliverPending } = await import("./ums/events.ts");
+      await redeliverPending(supabase);
+    }, 60_000, "ums-redelivery");
+  } catch (err) {
+    logger.error("UMS redelivery init failed", err);
+  }
+
   // GTD consumer (ELLIE-303)
   try {
     const { initGtdConsumer } = await import("./ums/consumers/gtd.ts");
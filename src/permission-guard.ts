@@ -2,10 +2,15 @@
  * Permission Guard — ELLIE-794
  * Middleware layer that checks permissions before agent dispatch,
  * tool execution, and work session operations.
+ * Agent dispatch and tool execution consult the attribute policies
+ * (access-policy.ts) first; RBAC decides when no policy rule applies.
  * Pure functions with injected dependencies for testability.
  */
 
 import { canEntityDo, checkPermissionPure, type Role, type Permission } from "./permissions.ts";
+import { evaluatePolicies, getActivePolicies, type PolicyAttributes, type PolicyRequest, type PolicyRuleRef, type PolicySql } from "./access-policy.ts";
+import { redactText } from "./phi-redaction.ts";
+import { DEFAULT_COMPANY_ID } from "./types/company.ts";
 
 // Types
 
@@ -16,12 +21,23 @@ export interface PermissionDenial {
   action: string;
   scope?: string;
   reason: string;
+  /** "policy#rule_id" when an attribute policy denied. */
+  policy_rule?: string;
   timestamp: string;
 }
 
 export interface GuardResult {
   allowed: boolean;
   denial?: PermissionDenial;
+  /** The policy rule that decided, when one applied. */
+  policy_rule?: PolicyRuleRef;
+}
+
+export interface ToolGuardContext {
+  /** Agent running the tool, for policy subjects. */
+  agent?: string;
+  args?: Record<string, unknown>;
+  attributes?: PolicyAttributes;
 }
 
 export interface GuardConfig {
@@ -114,6 +130,25 @@ export function getToolPermission(toolName: string): { resource: string; action:
   return null;
 }
 
+// Attribute policies — an applicable rule decides before RBAC is asked
+
+function applyPolicies(request: PolicyRequest, entityId: string, config: GuardConfig): GuardResult | null {
+  const evaluation = evaluatePolicies(getActivePolicies(), request);
+  if (!evaluation.rule) return null;
+  if (evaluation.decision === "allow") return { allowed: true, policy_rule: evaluation.rule };
+
+  const denial: PermissionDenial = {
+    entity_id: entityId,
+    resource: request.resource,
+    action: request.action,
+    reason: evaluation.reason,
+    policy_rule: `${evaluation.rule.policy}#${evaluation.rule.rule_id}`,
+    timestamp: new Date().toISOString(),
+  };
+  if (config.log_denials) logDenial(denial);
+  return config.enforce ? { allowed: false, denial, policy_rule: evaluation.rule } : null;
+}
+
 // Guard checks
 
 export async function guardAgentDispatch(
@@ -121,9 +156,17 @@ export async function guardAgentDispatch(
   entityId: string,
   agentName: string,
   config: GuardConfig = DEFAULT_GUARD_CONFIG,
+  attributes?: PolicyAttributes,
 ): Promise<GuardResult> {
   if (!config.enabled) return { allowed: true };
 
+  const byPolicy = applyPolicies(
+    { subject: { agent: agentName, entity_id: entityId }, resource: "agents", action: "dispatch", attributes },
+    entityId,
+    config,
+  );
+  if (byPolicy) return byPolicy;
+
   const required = getRequiredPermissions(agentName);
 
   for (const { resource, action } of required) {
@@ -149,10 +192,24 @@ export async function guardToolExecution(
   entityId: string,
   toolName: string,
   config: GuardConfig = DEFAULT_GUARD_CONFIG,
+  context: ToolGuardContext = {},
 ): Promise<GuardResult> {
   if (!config.enabled) return { allowed: true };
 
   const perm = getToolPermission(toolName);
+  // Unmapped tools are "tools.call" for policy targeting
+  const target = perm ?? { resource: "tools", action: "call" };
+  const byPolicy = applyPolicies(
+    {
+      subject: { agent: context.agent ?? "", entity_id: entityId },
+      ...target,
+      attributes: { ...context.attributes, tool: { name: toolName, args: context.args ?? {} } },
+    },
+    entityId,
+    config,
+  );
+  if (byPolicy) return byPolicy;
+
   if (!perm) return { allowed: true }; // Unknown tools pass through (read-only tools etc.)
 
   const allowed = await canEntityDo(sql, entityId, perm.resource, perm.action);
@@ -171,6 +228,39 @@ export async function guardToolExecution(
   return { allowed: true };
 }
 
+/**
+ * Tool check for a named agent, as the tool-approval path needs it:
+ * resolves the RBAC entity (unknown agents are denied), builds the
+ * policy attributes from the sources, then runs guardToolExecution.
+ */
+export async function guardAgentTool(
+  sql: PolicySql,
+  agentName: string,
+  toolName: string,
+  args: Record<string, unknown> = {},
+  sources: AttributeSources = {},
+  config: GuardConfig = DEFAULT_GUARD_CONFIG,
+): Promise<GuardResult> {
+  if (!config.enabled) return { allowed: true };
+
+  const entityId = await resolveRbacEntityId(sql, agentName);
+  if (!entityId) {
+    const denial: PermissionDenial = {
+      entity_id: "unknown",
+      entity_name: agentName,
+      resource: "tools",
+      action: "call",
+      reason: `No RBAC entity for agent "${agentName}"`,
+      timestamp: new Date().toISOString(),
+    };
+    if (config.log_denials) logDenial(denial);
+    return { allowed: false, denial };
+  }
+
+  const attributes = await resolvePolicyAttributes(sql, agentName, sources);
+  return guardToolExecution(sql, entityId, toolName, config, { agent: agentName, args, attributes });
+}
+
 export async function guardWorkSession(
   sql: any,
   entityId: string,
@@ -257,6 +347,42 @@ export function clearRbacEntityCache(): void {
   rbacEntityCache.clear();
 }
 
+// Policy attributes — facts about the request for attribute policies
+
+export interface AttributeSources {
+  channel?: string | null;
+  work_item_id?: string | null;
+  /** Message or tool input; scanned for PHI to set sensitivity. */
+  text?: string | null;
+  /** Work item state lookup (e.g. Plane state group); null when unknown. */
+  workItemState?: (workItemId: string) => Promise<string | null>;
+}
+
+/**
+ * Build the policy attributes for an agent's request: the agent's company
+ * (default company when unassigned), the work item and its state, and
+ * "phi" sensitivity when the text carries PHI ("internal" otherwise).
+ */
+export async function resolvePolicyAttributes(
+  sql: PolicySql,
+  agentName: string,
+  sources: AttributeSources = {},
+): Promise<PolicyAttributes> {
+  const workItemId = sources.work_item_id ?? null;
+  const [rows, state] = await Promise.all([
+    sql`SELECT company_id FROM agents WHERE name = ${agentName} LIMIT 1`,
+    workItemId && sources.workItemState
+      ? sources.workItemState(workItemId).catch(() => null)
+      : Promise.resolve(null),
+  ]);
+  return {
+    company_id: (rows[0]?.company_id as string | null | undefined) ?? DEFAULT_COMPANY_ID,
+    channel: sources.channel ?? null,
+    work_item: workItemId ? { id: workItemId, state } : null,
+    sensitivity: sources.text == null ? null : redactText(sources.text).total > 0 ? "phi" : "internal",
+  };
+}
+
 // Format denial for user display
 
 export function formatDenialMessage(denial: PermissionDenial): string {
@@ -0,0 +1,150 @@
+/**
+ * PHI Audit Store
+ *
+ * Persists the PHI redaction audit trail (phi-redaction.ts) to the
+ * Supabase `phi_audit_log` table and reads it back for review. Entries
+ * are buffered and written in batches, because the sink runs on the
+ * logging path: it must never block, throw or log.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PHIAuditEntry } from "./hipaa-compliance.ts";
+import { setPHIAuditSink } from "./phi-redaction.ts";
+
+export interface PHIAuditRow extends PHIAuditEntry {
+  id: string;
+  created_at: string;
+}
+
+export interface PHIAuditQueryFilters {
+  actor?: string;
+  resource_type?: string;
+  /** ISO timestamp; only entries at or after it. */
+  since?: string;
+  limit?: number;
+}
+
+// In-memory batch buffer between the sink and Supabase
+
+const buffer: PHIAuditEntry[] = [];
+const BUFFER_SIZE = 50;
+/** Entries kept across failed writes before the oldest are dropped. */
+const MAX_PENDING = 1000;
+const FLUSH_INTERVAL_MS = 10_000;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let client: SupabaseClient | null = null;
+let flushing: Promise<number> | null = null;
+
+function toRow(e: PHIAuditEntry) {
+  return {
+    occurred_at: e.timestamp,
+    actor: e.actor,
+    actor_type: e.actor_type,
+    action: e.action,
+    resource_type: e.resource_type,
+    resource_id: e.resource_id,
+    company_id: e.company_id || null,
+    ip_address: e.ip_address,
+    session_id: e.session_id,
+    phi_fields_accessed: e.phi_fields_accessed,
+    detail: e.detail,
+  };
+}
+
+async function writeBuffer(): Promise<number> {
+  if (!client || buffer.length === 0) return 0;
+  const entries = buffer.splice(0, buffer.length);
+  try {
+    const { error } = await client.from("phi_audit_log").insert(entries.map(toRow));
+    if (error) throw new Error(error.message);
+    return entries.length;
+  } catch {
+    // Re-add on failure (drop oldest if too many)
+    buffer.unshift(...entries);
+    if (buffer.length > MAX_PENDING) buffer.splice(0, buffer.length - MAX_PENDING);
+    return 0;
+  }
+}
+
+/** Write buffered entries now. Resolves to the number written. */
+export function flushPHIAudit(): Promise<number> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  // Chain behind an in-flight write so entries land in order
+  const next = (flushing ?? Promise.resolve(0)).then(writeBuffer);
+  flushing = next;
+  return next.finally(() => {
+    if (flushing === next) flushing = null;
+  });
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushPHIAudit();
+  }, FLUSH_INTERVAL_MS);
+}
+
+function sink(entry: PHIAuditEntry): void {
+  buffer.push(entry);
+  if (buffer.length >= BUFFER_SIZE) void flushPHIAudit();
+  else scheduleFlush();
+}
+
+/** Persist every PHI redaction audit entry from now on. Called at relay startup. */
+export function startPHIAuditStore(supabase: SupabaseClient): void {
+  client = supabase;
+  setPHIAuditSink(sink);
+}
+
+/** Detach the sink and write what is still buffered. Called at shutdown. */
+export async function stopPHIAuditStore(): Promise<void> {
+  setPHIAuditSink(null);
+  await flushPHIAudit();
+  client = null;
+}
+
+export async function listPHIAudit(
+  supabase: SupabaseClient,
+  filters: PHIAuditQueryFilters = {},
+): Promise<PHIAuditRow[]> {
+  let query = supabase
+    .from("phi_audit_log")
+    .select("*")
+    .order("occurred_at", { ascending: false })
+    .limit(filters.limit ?? 100);
+  if (filters.actor) query = query.eq("actor", filters.actor);
+  if (filters.resource_type) query = query.eq("resource_type", filters.resource_type);
+  if (filters.since) query = query.gte("occurred_at", filters.since);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to list PHI audit log: ${error.message}`);
+  return (data ?? []).map((row: Record<string, unknown>) => ({
+    id: row.id as string,
+    created_at: row.created_at as string,
+    timestamp: row.occurred_at as string,
+    actor: row.actor as string,
+    actor_type: row.actor_type as PHIAuditEntry["actor_type"],
+    action: row.action as PHIAuditEntry["action"],
+    resource_type: row.resource_type as string,
+    resource_id: row.resource_id as string,
+    company_id: (row.company_id as string | null) ?? "",
+    ip_address: (row.ip_address as string | null) ?? null,
+    session_id: (row.session_id as string | null) ?? null,
+    phi_fields_accessed: (row.phi_fields_accessed as string[] | null) ?? [],
+    detail: (row.detail as string | null) ?? null,
+  }));
+}
+
+/** For tests. */
+export function _resetPHIAuditStore(): void {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  flushing = null;
+  buffer.length = 0;
+  client = null;
+  setPHIAuditSink(null);
+}
@@ -0,0 +1,275 @@
+/**
+ * PHI Redaction
+ *
+ * One redaction pipeline for everything that leaves the process as
+ * text: log lines (console + ellie-logs), Elasticsearch documents and
+ * agent prompts. Values are redacted by field name (PHI_FIELDS plus
+ * common aliases, camelCase or snake_case) and by pattern in free text
+ * (SSN, labeled MRN / DOB / member ID, phone numbers).
+ *
+ * Redaction is role- and scope-aware: an agent role sees the PHI
+ * fields whose source table it holds in AGENT_ACCESS_MATRIX, nothing
+ * else. Logs and search indexes have no role and get everything
+ * redacted. Each redaction is counted in the PHI audit trail.
+ */
+
+import {
+  AGENT_ACCESS_MATRIX,
+  buildPHIAuditEntry,
+  canAccess,
+  isPHIField,
+  type AgentRole,
+  type PHIAuditEntry,
+  type PHIField,
+} from "./hipaa-compliance.ts";
+
+// ── Types ────────────────────────────────────────────────────
+
+export type RedactionCounts = Partial<Record<PHIField, number>>;
+
+export interface RedactionOptions {
+  /** Agent role whose grants decide what stays visible; null/undefined = redact all. */
+  role?: AgentRole | null;
+  /** Accumulate into this tally instead of a fresh one (e.g. across prompt sections). */
+  counts?: RedactionCounts;
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  /** Redactions per PHI field, including any carried in via options.counts. */
+  counts: RedactionCounts;
+  /** Redactions made by this call. */
+  total: number;
+}
+
+/** Where redacted output was headed; becomes the audit entry's resource_type. */
+export type RedactionSurface = "log" | "search-index" | "prompt";
+
+// ── Scope ────────────────────────────────────────────────────
+
+/** Table each PHI field is stored in — the grant an agent needs to see it. */
+export const PHI_FIELD_SOURCE: Record<PHIField, string> = {
+  first_name: "billing_patients",
+  last_name: "billing_patients",
+  dob: "billing_patients",
+  ssn: "billing_patients",
+  mrn: "billing_patients",
+  phone: "billing_patients",
+  email: "billing_patients",
+  address: "billing_patients",
+  fhir_patient_id: "billing_patients",
+  member_id: "billing_coverage",
+  subscriber_id: "billing_coverage",
+  diagnosis_codes: "billing_claims",
+  procedure_codes: "billing_claims",
+  account_number: "billing_claims",
+};
+
+/**
+ * Map an agent name ("claim-submission", "Claims Tracking", ...) to its
+ * billing role, or null for agents outside AGENT_ACCESS_MATRIX.
+ * Pure function.
+ */
+export function phiRoleForAgent(agentName: string | null | undefined): AgentRole | null {
+  if (!agentName) return null;
+  const key = agentName.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return key in AGENT_ACCESS_MATRIX ? key as AgentRole : null;
+}
+
+/**
+ * Whether a role may see a PHI field unredacted.
+ * Pure function.
+ */
+export function canSeePHIField(role: AgentRole | null | undefined, field: PHIField): boolean {
+  return !!role && canAccess(role, PHI_FIELD_SOURCE[field]);
+}
+
+// ── Field names ──────────────────────────────────────────────
+
+/** Field names that carry PHI under another name. */
+const FIELD_ALIASES: Record<string, PHIField> = {
+  patient_name: "first_name",
+  full_name: "first_name",
+  given_name: "first_name",
+  family_name: "last_name",
+  surname: "last_name",
+  date_of_birth: "dob",
+  birth_date: "dob",
+  birthdate: "dob",
+  social_security_number: "ssn",
+  medical_record_number: "mrn",
+  phone_number: "phone",
+  email_address: "email",
+  member_number: "member_id",
+  subscriber_number: "subscriber_id",
+};
+
+/**
+ * The PHI field a key holds, if any: "firstName", "first_name" and
+ * "DOB" all resolve. Pure function.
+ */
+export function phiFieldForKey(key: string): PHIField | null {
+  const snake = key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+  if (isPHIField(snake)) return snake as PHIField;
+  return FIELD_ALIASES[snake] ?? null;
+}
+
+// ── Text patterns ────────────────────────────────────────────
+
+interface TextPattern {
+  field: PHIField;
+  /** Labeled patterns capture the label as group 1 and keep it. */
+  pattern: RegExp;
+  labeled: boolean;
+}
+
+/** An identifier after a label must contain a digit, so "member ID lookup" is left alone. */
+const LABELED_ID = "((?=[A-Z-]*\\d)[A-Z0-9][A-Z0-9-]{3,})\\b";
+
+const TEXT_PATTERNS: TextPattern[] = [
+  { field: "ssn", pattern: /\b\d{3}-\d{2}-\d{4}\b/g, labeled: false },
+  {
+    field: "dob",
+    pattern: /\b((?:DOB|date of birth|birth ?date|born(?: on)?)\s*[:=]?\s*)(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4})/gi,
+    labeled: true,
+  },
+  { field: "mrn", pattern: new RegExp(`\\b((?:MRN|medical record (?:number|no\\.?))\\s*[:#]?\\s*)${LABELED_ID}`, "gi"), labeled: true },
+  { field: "member_id", pattern: new RegExp(`\\b(member\\s*(?:id|#|no\\.?|number)\\s*[:#]?\\s*)${LABELED_ID}`, "gi"), labeled: true },
+  { field: "subscriber_id", pattern: new RegExp(`\\b(subscriber\\s*(?:id|#|no\\.?|number)\\s*[:#]?\\s*)${LABELED_ID}`, "gi"), labeled: true },
+  { field: "phone", pattern: /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g, labeled: false },
+];
+
+function placeholder(field: PHIField): string {
+  return `[REDACTED:${field}]`;
+}
+
+function bump(counts: RedactionCounts, field: PHIField): void {
+  counts[field] = (counts[field] ?? 0) + 1;
+}
+
+// ── Redaction ────────────────────────────────────────────────
+
+/**
+ * Redact PHI patterns from free text. Pure function.
+ */
+export function redactText(text: string, opts: RedactionOptions = {}): RedactionResult<string> {
+  const counts = opts.counts ?? {};
+  let total = 0;
+  let value = text;
+  for (const { field, pattern, labeled } of TEXT_PATTERNS) {
+    if (canSeePHIField(opts.role, field)) continue;
+    value = value.replace(pattern, (match: string, label?: string) => {
+      bump(counts, field);
+      total++;
+      return labeled ? `${label}${placeholder(field)}` : placeholder(field);
+    });
+  }
+  return { value, counts, total };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Redact PHI from any JSON-like value: keys naming a PHI field have
+ * their whole value replaced, strings elsewhere go through redactText.
+ * Class instances (Date, Buffer, ...) pass through. Pure function.
+ */
+export function redactValue<T>(input: T, opts: RedactionOptions = {}): RedactionResult<T> {
+  const counts = opts.counts ?? {};
+  let total = 0;
+  const seen = new WeakSet<object>();
+
+  const walk = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const r = redactText(value, { role: opts.role, counts });
+      total += r.total;
+      return r.value;
+    }
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) return "[Circular]";
+      seen.add(value);
+    }
+    if (Array.isArray(value)) return value.map(walk);
+    if (!isPlainObject(value)) return value;
+
+    const out: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      const field = phiFieldForKey(key);
+      if (field && inner != null && inner !== "" && !canSeePHIField(opts.role, field)) {
+        bump(counts, field);
+        total++;
+        out[key] = placeholder(field);
+      } else {
+        out[key] = walk(inner);
+      }
+    }
+    return out;
+  };
+
+  return { value: walk(input) as T, counts, total };
+}
+
+// ── Audit trail ──────────────────────────────────────────────
+
+export type PHIAuditSink = (entry: PHIAuditEntry) => void;
+
+const AUDIT_TRAIL_LIMIT = 1000;
+const auditTrail: PHIAuditEntry[] = [];
+let auditSink: PHIAuditSink | null = null;
+
+/**
+ * Also send redaction audit entries somewhere durable (phi-audit-store.ts
+ * at relay startup). Pass null to keep only the in-memory trail. The sink
+ * runs inside the logger, so it must not log through it.
+ */
+export function setPHIAuditSink(sink: PHIAuditSink | null): void {
+  auditSink = sink;
+}
+
+/** The most recent entries (up to 1000) since startup, oldest first. */
+export function getPHIAuditTrail(): PHIAuditEntry[] {
+  return [...auditTrail];
+}
+
+/** For tests. */
+export function _resetPHIAuditTrail(): void {
+  auditTrail.length = 0;
+  auditSink = null;
+}
+
+/**
+ * Record what was redacted before output reached a surface.
+ * No-op when nothing was redacted.
+ */
+export function recordRedaction(
+  surface: RedactionSurface,
+  counts: RedactionCounts,
+  opts: { actor: string; actor_type?: PHIAuditEntry["actor_type"]; resource_id?: string; company_id?: string },
+): PHIAuditEntry | null {
+  const fields = (Object.keys(counts) as PHIField[]).filter(f => (counts[f] ?? 0) > 0).sort();
+  if (fields.length === 0) return null;
+
+  const total = fields.reduce((sum, f) => sum + (counts[f] ?? 0), 0);
+  const entry = buildPHIAuditEntry({
+    actor: opts.actor,
+    actor_type: opts.actor_type ?? (surface === "prompt" ? "agent" : "system"),
+    action: "export",
+    resource_type: surface,
+    resource_id: opts.resource_id ?? opts.actor,
+    company_id: opts.company_id ?? "",
+    phi_fields_accessed: fields,
+    detail: `redacted ${total}: ${fields.map(f => `${f}=${counts[f]}`).join(", ")}`,
+  });
+  auditTrail.push(entry);
+  if (auditTrail.length > AUDIT_TRAIL_LIMIT) auditTrail.shift();
+  try {
+    auditSink?.(entry);
+  } catch {
+    // A failing sink must never take down the output path it audits
+  }
+  return entry;
+}
@@ -135,6 +135,13 @@ export async function resolveWorkItemId(workItemId: string) {
   return { projectId, issueId: issue.id };
 }
 
+/** State group ("started", "completed", ...) of a work item like ELLIE-5; null when unknown. */
+export async function getWorkItemStateGroup(workItemId: string): Promise<string | null> {
+  if (!isPlaneConfigured()) return null;
+  const ref = await resolveWorkItemId(workItemId);
+  return ref ? getIssueStateGroup(ref.projectId, ref.issueId as string) : null;
+}
+
 /** Update a Plane issue's state */
 export async function updateIssueState(projectId: string, issueId: string, stateId: string) {
   return planeRequest(`/projects/${projectId}/issues/${issueId}/`, {
@@ -311,6 +311,8 @@ async function handleSend(cmd: PlaybookCommand, ctx: PlaybookContext): Promise<v
       message: `Work on ${ticketId}`,
       enqueuedAt: Date.now(),
       notifyCtx,
+      kind: "playbook-send",
+      payload: { cmd, channel: ctx.channel },
       execute: () => {
         handleSend(cmd, ctx);
       },
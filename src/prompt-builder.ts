@@ -9,6 +9,7 @@
 import { readFile, readdir } from "fs/promises";
 import { watch, type FSWatcher } from "fs";
 import { log } from "./logger.ts";
+import { phiRoleForAgent, recordRedaction, redactText, type RedactionCounts } from "./phi-redaction.ts";
 import { parseCreatureProfile, setCreatureProfile, getCreatureProfile, validateSectionLabels } from "./creature-profile.ts";
 
 const logger = log.child("prompt-builder");
@@ -1365,6 +1366,17 @@ export async function buildPrompt(
     filteredSections = filteredSections.filter(s => !suppressed.has(s.label));
   }
 
+  // ── PHI redaction: only a billing role's grants keep patient identifiers visible ──
+  // The user's own message is left as typed.
+  const phiRole = phiRoleForAgent(agentConfig?.name);
+  const phiCounts: RedactionCounts = {};
+  filteredSections = filteredSections.map(s => {
+    if (s.label === "user-message") return s;
+    const redacted = redactText(s.content, { role: phiRole, counts: phiCounts });
+    return redacted.total > 0 ? { ...s, content: redacted.value } : s;
+  });
+  recordRedaction("prompt", phiCounts, { actor: agentConfig?.name || "general" });
+
   // ── Apply token budget (ELLIE-185 + ELLIE-261 + ELLIE-334 + ELLIE-367 + ELLIE-446) ──
   // Creature budget (agent-specific) > channel profile budget > mode budget > strategy budget.
   // ELLIE-446: Creature budget must win — a specialist agent's wiring (e.g. dev-ant: 40k)
@@ -224,6 +224,19 @@ export function checkHttpRateLimit(req: IncomingMessage, res: ServerResponse): b
   return false;
 }
 
+/**
+ * Count a manifest route request against its declared bucket (route-table.ts).
+ * Returns ms to wait if limited, or null if allowed.
+ *
+ * LIMITS DISABLED (2026-03-30): Single-user Mac subscription — see checkMessageRate.
+ * Tracks only; returns the limiter's verdict once limits are re-enabled.
+ */
+export function checkBucketRate(bucket: "api" | "tool" | "voice" | "message", key: string): number | null {
+  const limiter = { api: apiLimiter, tool: toolLimiter, voice: voiceLimiter, message: messageLimiter }[bucket];
+  limiter.check(`route:${key}`);
+  return null;
+}
+
 /** Get status of all limiters (for health endpoint). */
 export function getRateLimitStatus() {
   return {
@@ -15,26 +15,28 @@
  *
  * DEPTH 0 — No dependencies (all run in parallel):
  *   config, directories, supabase, lock, anthropic, dead-letters,
- *   approval-expiry, plane-queue, plane-reconcile, job-vines,
- *   mode-restore, archetype-validate, bridge-write, slack,
+ *   approval-expiry, plane-queue, plane-reconcile, sandbox-reconcile, job-vines,
+ *   mode-restore, archetype-validate, bridge-write,
  *   routing-rules, workflow-templates, voice-providers, skill-watcher,
- *   google-chat, outlook, http-server, forest-sync
+ *   outlook, http-server, forest-sync, trace-export
  *
  * DEPTH 1 — Depends on depth-0 phases:
  *   bot (← config)
  *   orchestration (← supabase)
  *   overnight (← supabase) — ELLIE-1148
- *   discord (← supabase)
+ *   phi-audit (← supabase)
+ *   channels (← supabase + bot) — channel adapters (channels/builtin.ts)
  *   model-costs (← supabase)
  *   classifiers (← anthropic + supabase)
  *
  * DEPTH 2 — Depends on depth-1:
  *   dep-wiring (← bot + anthropic + supabase) [CRITICAL]
  *   telegram-handlers (← bot)
- *   nudge-checker (← bot + google-chat)
+ *   nudge-checker (← channels)
  *
  * DEPTH 3:
  *   periodic-tasks (← dep-wiring)
+ *   dispatch-queue (← dep-wiring + orchestration)
  *   websocket-servers (← http-server + dep-wiring)
  *   bot-start (← telegram-handlers)
  *
@@ -49,12 +51,12 @@
  * ── Shutdown (reverse order) ─────────────────────────────────
  *
  * 1. bot.stop() — stop accepting Telegram messages
- * 2. discord — stop Discord gateway
+ * 2. channels — stopChannelAdapters() (Discord gateway, ...)
  * 3. periodic-tasks — stopAllTasks() (includes creature reaper, health checks, etc.)
  * 4. orchestration — stopWatchdog() + stopReconciler()
  * 5. plane-queue — stopPlaneQueueWorker()
  * 6. message-queues — drainQueues(20s) for in-flight tasks
- * 7. http-server — close HTTP + personality watchers
+ * 7. http-server — close HTTP + personality watchers, flush spans + PHI audit
  * 8. lock — releaseLock() with 5s timeout
  *
  * See src/startup-dag.ts for the formal DAG engine and tests.
@@ -96,7 +98,6 @@ import { setVoicePipelineDeps } from "./voice-pipeline.ts";
 import { setSenderDeps } from "./message-sender.ts";
 import { initDelivery } from "./ws-delivery.ts";
 import { initForestSync } from "./elasticsearch/context.ts";
-import { initGoogleChat, sendGoogleChatMessage, isGoogleChatEnabled } from "./google-chat.ts";
 import { startNudgeChecker } from "./delivery.ts";
 import { initClassifier, warmTreeRoutingRules } from "./intent-classifier.ts";
 import { initEntailmentClassifier } from "./entailment-classifier.ts";
@@ -114,12 +115,16 @@ import { restoreModeState } from "./context-mode.ts";
 import { registerJobVines } from "./jobs-ledger.ts";
 import { initOrchestration } from "./orchestration-init.ts";
 import { onBridgeWrite } from "./api/bridge.ts";
-import { setBroadcastToEllieChat } from "./tool-approval.ts";
+import { setBroadcastToEllieChat, setToolPolicyGuard } from "./tool-approval.ts";
 import { stopAllTasks } from "./periodic-task.ts";
 import { initPeriodicTasks, runStartupTasks } from "./periodic-tasks.ts";
 import { initIdentitySystem, shutdownIdentitySystem } from "./identity-startup.ts";
 import { initOvernight, shutdownOvernight } from "./overnight/init.ts";
 import { initEmailProvider } from "./os-auth/email.ts";
+import { restoreDispatchQueue } from "./dispatch-queue-rehydrate.ts";
+import { createTracedFetch } from "./trace.ts";
+import { initTraceExport, shutdownTraceExport } from "./trace-export.ts";
+import { startPHIAuditStore, stopPHIAuditStore } from "./phi-audit-store.ts";
 
 // ── Startup phase timer (ELLIE-497) ─────────────────────────
 const _startupBegin = Date.now();
@@ -147,6 +152,9 @@ if (!BOT_TOKEN) {
 }
 _doneConfig();
 
+// Span export — OTLP/JSON to TRACE_EXPORT_FILE and/or OTEL_EXPORTER_OTLP_ENDPOINT
+{ const _done = startPhase("trace-export"); initTraceExport(); _done(); }
+
 // Email provider — auto-detect SMTP from env (ELLIE-1260)
 { const _done = startPhase("email-provider"); initEmailProvider(); _done(); }
 
@@ -163,10 +171,15 @@ _doneDirectories();
 const _doneSupabase = startPhase("supabase");
 const supabase: SupabaseClient | null =
   process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY
-    ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY)
+    ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY, {
+        global: { fetch: createTracedFetch("db.supabase") },
+      })
     : null;
 _doneSupabase();
 
+// PHI redaction audit entries persist to phi_audit_log (read via /api/phi/audit)
+if (supabase) { const _done = startPhase("phi-audit"); startPHIAuditStore(supabase); _done(); }
+
 // Acquire lock
 const _doneLock = startPhase("lock");
 if (!(await acquireLock())) {
@@ -211,6 +224,16 @@ let _lastBotRestartAt = 0;
   }).then(() => _done()).catch(err => { _done(); logger.warn("Dashboard reconciliation failed (non-fatal)", err); });
 }
 
+// Sandbox sessions live in memory — remove what the last run left behind
+{ const _done = startPhase("sandbox-reconcile");
+  (async () => {
+    const { isDockerAvailable } = await import("./docker-sandbox.ts");
+    if (!(await isDockerAvailable())) return;
+    const { reconcileOrphanedSessions } = await import("./sandbox-manager.ts");
+    await reconcileOrphanedSessions();
+  })().then(() => _done()).catch(err => { _done(); logger.warn("Sandbox session reconciliation failed (non-fatal)", err); });
+}
+
 // Orchestration tracker — ELLIE-349: heartbeat watchdog + orphan recovery
 // ELLIE-387: Wire proactive notifications to watchdog (deferred — needs setRelayDeps first)
 // ELLIE-563: Marked critical — relay exits if orchestration fails to initialize
@@ -330,6 +353,16 @@ setVoicePipelineDeps({ supabase, getActiveAgent, broadcastExtension, getContextD
 setBroadcastToEllieChat(broadcastToEllieChatClients);
 _doneDepWiring();
 
+// Restore dispatches that were queued when the relay last stopped
+{ const _done = startPhase("dispatch-queue");
+  restoreDispatchQueue()
+    .then(({ restored, dropped }) => {
+      if (restored > 0 || dropped > 0) logger.info("Dispatch queue restored", { restored, dropped });
+      _done();
+    })
+    .catch(err => { _done(); logger.warn("Dispatch queue restore failed (non-fatal)", { error: err instanceof Error ? err.message : String(err) }); });
+}
+
 // ── ELLIE-492: Unified periodic task runner ──────────────────
 // All background periodic tasks registered in one place.
 // Must run after dependency wiring so supabase/anthropic/bot are available.
@@ -353,13 +386,11 @@ runStartupTasks({ supabase, bot, anthropic, botRestart: {
 }});
 _donePeriodicTasks();
 
-// ELLIE-469: Discord channel plugin — only activates if DISCORD_BOT_TOKEN is set
-import { startDiscordGateway } from "./channels/discord/index.ts";
-{ const _done = startPhase("discord"); startDiscordGateway(supabase); _done(); }
-
-// ELLIE-443: Slack channel plugin — only activates if SLACK_BOT_TOKEN + SLACK_SIGNING_SECRET are set
-import { startSlackChannel } from "./channels/slack/index.ts";
-{ const _done = startPhase("slack"); startSlackChannel(); _done(); }
+// Channel adapters (Telegram, Google Chat, Slack, Discord, Alexa) — each starts only if its env is configured
+import { registerBuiltinChannelAdapters } from "./channels/builtin.ts";
+import { getChannelAdapter, isChannelAdapterStarted, startChannelAdapters, stopChannelAdapters } from "./channels/registry.ts";
+{ const _done = startPhase("channels"); registerBuiltinChannelAdapters(); await startChannelAdapters({ supabase, bot }); _done(); }
+const gchatEnabled = isChannelAdapterStarted("google-chat");
 
 // Initialize classifiers
 { const _done = startPhase("classifiers");
@@ -405,11 +436,6 @@ const _doneHttpServer = startPhase("http-server");
 const httpServer = createServer(handleHttpRequest);
 _doneHttpServer();
 
-// Init Google Chat (optional — skips gracefully if not configured)
-const _doneGchat = startPhase("google-chat");
-const gchatEnabled = await initGoogleChat();
-_doneGchat();
-
 // Init Microsoft Outlook (optional — skips gracefully if not configured)
 const _doneOutlook = startPhase("outlook");
 const outlookEnabled = await initOutlook();
@@ -421,12 +447,9 @@ startNudgeChecker(async (channel, count) => {
   const nudgeText = `Hey Dave \u2014 I sent you a response${count > 1 ? ` (${count} messages)` : ""} a few minutes ago. Did it come through?`;
   logger.info("Nudging user", { channel, pendingResponses: count });
   try {
-    if (channel === "google-chat" && gchatEnabled) {
-      const gchatSpace = process.env.GOOGLE_CHAT_SPACE_NAME;
-      if (gchatSpace) await sendGoogleChatMessage(gchatSpace, nudgeText);
-    } else if (channel === "telegram" && ALLOWED_USER_ID) {
-      await bot.api.sendMessage(ALLOWED_USER_ID, nudgeText);
-    }
+    const adapter = getChannelAdapter(channel);
+    const target = isChannelAdapterStarted(channel) ? adapter?.notificationTarget?.() : null;
+    if (adapter?.send && target) await adapter.send(target, { text: nudgeText });
   } catch (err) {
     logger.error("Nudge failed", { channel }, err);
   }
@@ -470,6 +493,19 @@ logger.info("Starting Ellie Chat Relay...", {
     `;
   });
   logger.info("[rbac] Audit flush callback registered");
+
+  // Tool approvals pass the RBAC / attribute policy guard first
+  const { guardAgentTool, formatDenialMessage } = await import("./permission-guard.ts");
+  const { getWorkItemStateGroup } = await import("./plane.ts");
+  setToolPolicyGuard(async (req) => {
+    const guard = await guardAgentTool(forestSql, req.agent ?? "general", req.tool_name, req.tool_input, {
+      channel: req.channel,
+      work_item_id: req.work_item_id,
+      text: JSON.stringify(req.tool_input ?? {}),
+      workItemState: getWorkItemStateGroup,
+    });
+    return { allowed: guard.allowed, reason: guard.denial ? formatDenialMessage(guard.denial) : undefined };
+  });
 }
 
 // Start HTTP + WebSocket server
@@ -524,10 +560,9 @@ async function gracefulShutdown(signal: string): Promise<void> {
   logger.info("Stopping telegram bot...");
   try { await bot.stop(); } catch {}
   logger.info("Telegram bot stopped");
-  logger.info("Stopping discord...");
-  const { stopDiscordGateway } = await import("./channels/discord/index.ts");
-  await stopDiscordGateway().catch(() => {});
-  logger.info("Discord gateway stopped");
+  logger.info("Stopping channel adapters...");
+  await stopChannelAdapters();
+  logger.info("Channel adapters stopped");
 
   // 2. Stop all background tasks (reverse of periodic-tasks + orchestration)
   logger.info("Stopping background tasks...");
@@ -572,6 +607,8 @@ async function gracefulShutdown(signal: string): Promise<void> {
   stopPersonalityWatchers();
   shutdownIdentitySystem(); // ELLIE-615
   logger.info("HTTP server closed");
+  await shutdownTraceExport(); // flush buffered spans
+  await stopPHIAuditStore(); // flush buffered PHI audit entries
 
   // 5. Release lock file (reverse of lock — deepest foundation)
   logger.info("Releasing lock...");
@@ -4,11 +4,21 @@
  * Provides path matching, body parsing, and ApiRequest/ApiResponse adapters
  * so that route handlers can be tested in isolation without the 5,000-line
  * handleHttpRequest() monolith.
+ *
+ * Route manifests: API modules export `routes: RouteSpec[]` declaring
+ * method, path, auth, rate-limit bucket and request/response schemas.
+ * createRouter() mounts them (auth, rate limit and body validation are
+ * applied here, not in each handler) and buildOpenApiDocument() describes
+ * them. See src/api/route-manifest.ts for the list of mounted modules.
  */
 
 import type { IncomingMessage, ServerResponse } from "http";
 import type { ApiRequest, ApiResponse } from "./api/types.ts";
 import type { RelayDeps } from "./relay-state.ts";
+import { validateJson, formatSchemaErrors, type JsonSchema } from "./json-schema.ts";
+import { log } from "./logger.ts";
+
+const logger = log.child("route-table");
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -30,6 +40,42 @@ export interface Route {
   handler: RouteHandler;
 }
 
+/**
+ * Who may call a manifest route:
+ *   - "api"   — JWT bearer (scope) or legacy x-api-key; localhost exempt (default)
+ *   - "local" — localhost only
+ *   - "none"  — public
+ *   - "self"  — the handler verifies the caller itself (bridge key, HMAC, ...)
+ */
+export type RouteAuth = "api" | "local" | "none" | "self";
+
+/** Limiter a route counts against — see rate-limiter.ts. */
+export type RateLimitBucket = "api" | "tool" | "voice" | "message";
+
+export interface RouteSpec extends Route {
+  summary: string;
+  description?: string;
+  /** Default "api". */
+  auth?: RouteAuth;
+  /** JWT scope for auth "api". Default "api". */
+  scope?: string;
+  rateLimit?: RateLimitBucket;
+  request?: {
+    /** Validated before the handler runs; 400 on mismatch. */
+    body?: JsonSchema;
+    /** Query values are strings — validated against this object schema. */
+    query?: JsonSchema;
+  };
+  /** Keyed by status code. Documentation only. */
+  responses?: Record<number, { description: string; schema?: JsonSchema }>;
+}
+
+/** One API module's routes. `name` becomes the OpenAPI tag. */
+export interface RouteModule {
+  name: string;
+  routes: RouteSpec[];
+}
+
 // ── Path matching ────────────────────────────────────────────
 
 /**
@@ -168,3 +214,176 @@ export function buildApiRequest(ctx: RouteContext, extras?: Partial<ApiRequest>)
     ...extras,
   };
 }
+
+// ── Manifest router ──────────────────────────────────────────
+
+export interface RouterOptions {
+  /** Resolve auth for "api" routes. Return false to reject with 401. */
+  authenticate: (req: IncomingMessage, scope: string, pathname: string) => Promise<boolean>;
+  /** Count a request against a bucket. Return ms to wait if limited, else null. */
+  checkRate?: (bucket: RateLimitBucket, key: string) => number | null;
+  getDeps: () => RelayDeps;
+}
+
+export type ManifestRouter = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<boolean>;
+
+export function isLocalRequest(req: IncomingMessage): boolean {
+  const ip = req.socket?.remoteAddress ?? "";
+  return ip === "127.0.0.1" || ip === "::1" || ip === "::ffff:127.0.0.1";
+}
+
+/**
+ * Mount manifest routes. The returned function handles a request and
+ * resolves true, or resolves false if no route matches so the caller can
+ * fall through to legacy routing. A path that matches with the wrong
+ * method gets 405.
+ */
+export function createRouter(modules: RouteModule[], opts: RouterOptions): ManifestRouter {
+  const routes = modules.flatMap(m => m.routes);
+
+  return async (req, res, url) => {
+    const method = req.method ?? "GET";
+    const match = matchRoute(method, url.pathname, routes);
+    if (!match) {
+      if (routes.some(r => matchPath(r.path, url.pathname))) {
+        jsonReply(res, { error: "Method not allowed" }, 405);
+        return true;
+      }
+      return false;
+    }
+    const route = match.route as RouteSpec;
+
+    const auth = route.auth ?? "api";
+    if (auth === "local" && !isLocalRequest(req)) {
+      jsonReply(res, { error: "Forbidden" }, 403);
+      return true;
+    }
+    if (auth === "api" && !(await opts.authenticate(req, route.scope ?? "api", url.pathname))) {
+      jsonReply(res, { error: "Unauthorized" }, 401);
+      return true;
+    }
+
+    if (route.rateLimit && opts.checkRate) {
+      const retryAfterMs = opts.checkRate(route.rateLimit, req.socket?.remoteAddress ?? "unknown");
+      if (retryAfterMs !== null) {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": String(Math.ceil(retryAfterMs / 1000)) });
+        res.end(JSON.stringify({ error: "Rate limited", retryAfterMs }));
+        return true;
+      }
+    }
+
+    const query = extractQuery(url);
+    if (route.request?.query) {
+      const errors = validateJson(route.request.query, query);
+      if (errors.length > 0) {
+        jsonReply(res, { error: "Invalid query", details: errors, message: formatSchemaErrors(errors) }, 400);
+        return true;
+      }
+    }
+
+    const rawBody = method === "GET" || method === "HEAD" ? "" : await readBody(req);
+    if (route.request?.body) {
+      let body: unknown;
+      try {
+        body = parseJson(rawBody);
+      } catch {
+        jsonReply(res, { error: "Invalid JSON body" }, 400);
+        return true;
+      }
+      const errors = validateJson(route.request.body, body);
+      if (errors.length > 0) {
+        jsonReply(res, { error: "Invalid request body", details: errors, message: formatSchemaErrors(errors) }, 400);
+        return true;
+      }
+    }
+
+    try {
+      await route.handler({ url, req, res, params: match.params, query, rawBody, deps: opts.getDeps() });
+    } catch (err) {
+      logger.error(`${method} ${route.path} failed`, err);
+      if (!res.headersSent) jsonReply(res, { error: "Internal server error" }, 500);
+    }
+    return true;
+  };
+}
+
+// ── OpenAPI ──────────────────────────────────────────────────
+
+/** "/api/jobs/:id" → "/api/jobs/{id}", "/forest/*" → "/forest/{path}". */
+export function toOpenApiPath(path: string): string {
+  return path
+    .replace(/\/\*$/, "/{path}")
+    .replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function pathParams(path: string): string[] {
+  const names = [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map(m => m[1]);
+  if (path.endsWith("/*")) names.push("path");
+  return names;
+}
+
+const SECURITY: Record<RouteAuth, Array<Record<string, string[]>>> = {
+  api: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+  local: [],
+  none: [],
+  self: [],
+};
+
+/** OpenAPI 3.1 document for the given manifest modules. */
+export function buildOpenApiDocument(
+  modules: RouteModule[],
+  info: { title: string; version: string; description?: string },
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const mod of modules) {
+    for (const route of mod.routes) {
+      const auth = route.auth ?? "api";
+      const methods = route.method === "ANY" ? ["get", "post", "put", "patch", "delete"] : [route.method.toLowerCase()];
+      const queryProps = route.request?.query?.properties ?? {};
+      const queryRequired = new Set(route.request?.query?.required ?? []);
+
+      const operation: Record<string, unknown> = {
+        tags: [mod.name],
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        parameters: [
+          ...pathParams(route.path).map(name => ({ name, in: "path", required: true, schema: { type: "string" } })),
+          ...Object.entries(queryProps).map(([name, schema]) => ({
+            name,
+            in: "query",
+            required: queryRequired.has(name),
+            schema,
+          })),
+        ],
+        ...(route.request?.body ? {
+          requestBody: { required: true, content: { "application/json": { schema: route.request.body } } },
+        } : {}),
+        responses: Object.fromEntries(
+          Object.entries(route.responses ?? { 200: { description: "OK" } }).map(([status, r]) => [
+            status,
+            { description: r.description, ...(r.schema ? { content: { "application/json": { schema: r.schema } } } : {}) },
+          ]),
+        ),
+        security: SECURITY[auth],
+        "x-auth": auth,
+        ...(route.rateLimit ? { "x-rate-limit-bucket": route.rateLimit } : {}),
+      };
+
+      const entry = paths[toOpenApiPath(route.path)] ??= {};
+      for (const m of methods) entry[m] = operation;
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        apiKeyAuth: { type: "apiKey", in: "header", name: "x-api-key" },
+      },
+    },
+  };
+}
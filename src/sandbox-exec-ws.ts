@@ -0,0 +1,136 @@
+/**
+ * Sandbox Exec Stream — WebSocket exec output for the dashboard
+ *
+ * Runs a command in a sandbox session container (sandbox-manager.ts) and
+ * streams its output as the Engine delivers it. Mounted at /ws/sandbox-exec.
+ *
+ * Protocol (JSON text frames):
+ *   → { type: "auth", key }                                   first message, within 5s
+ *   ← { type: "ready" }
+ *   → { type: "exec", id?, session, container, cmd, timeout? }
+ *   ← { type: "output", id, stream: "stdout" | "stderr", data }
+ *   ← { type: "exit", id, exitCode }   or   { type: "error", id?, message }
+ *   → { type: "cancel", id }                                  stop streaming an exec
+ *
+ * Several execs may run at once on one connection; `id` tells them apart.
+ * Cancelling (or disconnecting) detaches from the exec; the Engine has no
+ * exec kill, so the process runs on until it exits or the session goes.
+ */
+
+import { WebSocket, WebSocketServer } from "ws";
+import { execInSession } from "./sandbox-manager.ts";
+import { EXTENSION_API_KEY } from "./relay-config.ts";
+import { log } from "./logger.ts";
+
+const logger = log.child("sandbox-exec-ws");
+
+const AUTH_TIMEOUT_MS = 5_000;
+const DEFAULT_EXEC_TIMEOUT_MS = 5 * 60_000;
+const MAX_EXEC_TIMEOUT_MS = 60 * 60_000;
+
+export interface SandboxExecWssOpts {
+  /** Accepts the key from the auth message; defaults to the extension API key. */
+  authenticate?: (key: unknown) => boolean;
+}
+
+interface ExecRequest {
+  type: "exec";
+  id?: string;
+  session: string;
+  container: string;
+  cmd: string;
+  timeout?: number;
+}
+
+function defaultAuthenticate(key: unknown): boolean {
+  return !!EXTENSION_API_KEY && key === EXTENSION_API_KEY;
+}
+
+function handleConnection(ws: WebSocket, authenticate: (key: unknown) => boolean): void {
+  let authenticated = false;
+  let nextId = 1;
+  const running = new Map<string, AbortController>();
+
+  const send = (msg: Record<string, unknown>) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  const authTimer = setTimeout(() => {
+    if (!authenticated) ws.close(4001, "Auth timeout");
+  }, AUTH_TIMEOUT_MS);
+
+  const runExec = async (msg: ExecRequest) => {
+    const id = msg.id ?? String(nextId++);
+    if (typeof msg.session !== "string" || typeof msg.container !== "string" || typeof msg.cmd !== "string" || !msg.cmd) {
+      send({ type: "error", id, message: "session, container and cmd are required" });
+      return;
+    }
+    if (running.has(id)) {
+      send({ type: "error", id, message: `exec ${id} is already running` });
+      return;
+    }
+
+    const ctrl = new AbortController();
+    running.set(id, ctrl);
+    try {
+      const result = await execInSession(msg.session, msg.container, msg.cmd, {
+        timeoutMs: Math.min(msg.timeout || DEFAULT_EXEC_TIMEOUT_MS, MAX_EXEC_TIMEOUT_MS),
+        signal: ctrl.signal,
+        onOutput: (stream, data) => send({ type: "output", id, stream, data }),
+      });
+      send({ type: "exit", id, exitCode: result.exitCode });
+    } catch (err) {
+      const message = ctrl.signal.aborted ? "cancelled" : err instanceof Error ? err.message : String(err);
+      send({ type: "error", id, message });
+    } finally {
+      running.delete(id);
+    }
+  };
+
+  ws.on("message", (data: Buffer | string) => {
+    let msg: { type?: string; key?: unknown; id?: string };
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      send({ type: "error", message: "Expected JSON" });
+      return;
+    }
+
+    if (!authenticated) {
+      if (msg.type !== "auth" || !authenticate(msg.key)) {
+        ws.close(4003, "Invalid key");
+        return;
+      }
+      authenticated = true;
+      clearTimeout(authTimer);
+      send({ type: "ready" });
+      return;
+    }
+
+    if (msg.type === "exec") {
+      void runExec(msg as ExecRequest);
+    } else if (msg.type === "cancel" && msg.id) {
+      running.get(msg.id)?.abort();
+    } else if (msg.type === "ping") {
+      send({ type: "pong", ts: Date.now() });
+    }
+  });
+
+  ws.on("close", () => {
+    clearTimeout(authTimer);
+    for (const ctrl of running.values()) ctrl.abort();
+    if (running.size > 0) logger.info(`Client left with ${running.size} exec(s) running — cancelled`);
+  });
+
+  ws.on("error", () => {
+    clearTimeout(authTimer);
+  });
+}
+
+/** Create the sandbox exec WebSocket server and wire into upgrade routing. */
+export function createSandboxExecWss(opts: SandboxExecWssOpts = {}): WebSocketServer {
+  const authenticate = opts.authenticate ?? defaultAuthenticate;
+  const wss = new WebSocketServer({ noServer: true });
+  wss.on("connection", (ws: WebSocket) => handleConnection(ws, authenticate));
+  return wss;
+}
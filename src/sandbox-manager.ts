@@ -0,0 +1,604 @@
+/**
+ * Sandbox Manager — containers, volumes, networks and sessions
+ *
+ * One layer of Docker Engine operations shared by docker-sandbox.ts
+ * (throwaway agent containers), overnight/docker-executor.ts (overnight
+ * agent jobs) and multi-container sessions.
+ *
+ * A session is a named group of containers on a private network, e.g. an
+ * app plus Postgres, each reachable from the others by its role name.
+ * Sessions can be snapshotted — container filesystems with `docker
+ * commit`, named volumes by copying them into snapshot volumes — and
+ * restored to any snapshot. Exec output can be streamed as it arrives.
+ *
+ * Sessions live in memory. Everything a session creates carries its
+ * ellie.session label, so reconcileOrphanedSessions() can remove what a
+ * relay restart left behind: containers, volumes, networks and snapshot
+ * images.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  dockerRequest,
+  dockerRequestRaw,
+  dockerStream,
+  demuxDockerStream,
+  type DockerReply,
+  type DockerResponse,
+} from "./docker-engine.ts";
+import { log } from "./logger.ts";
+
+const logger = log.child("sandbox-manager");
+
+export const CONTAINER_PREFIX = "ellie-sandbox-";
+export const SESSION_PREFIX = "ellie-sbx-";
+export const SNAPSHOT_REPO = "ellie-sandbox-snapshot";
+export const COPY_HELPER_IMAGE = "busybox:1.36";
+export const DEFAULT_MEMORY_LIMIT = 512 * 1024 * 1024; // 512MB
+export const DEFAULT_CPU_QUOTA = 100_000; // 1 CPU
+export const MAX_SESSION_AGE_MS = 4 * 60 * 60_000; // 4 hours
+const VOLUME_COPY_TIMEOUT_MS = 10 * 60_000;
+const NAME_RE = /^[a-z0-9][a-z0-9_.-]{0,39}$/;
+
+// ── Types ────────────────────────────────────────────────────
+
+/** Body of POST /containers/create. */
+export type ContainerConfig = Record<string, unknown>;
+
+export interface ExecOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+export interface ExecOpts {
+  /** Called with each chunk as the Engine delivers it. */
+  onOutput?: (stream: "stdout" | "stderr", text: string) => void;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  workingDir?: string;
+}
+
+export interface SessionContainerSpec {
+  /** Hostname on the session network, e.g. "app" or "db". */
+  role: string;
+  image: string;
+  env?: string[];
+  /** Defaults to the image's own command. */
+  cmd?: string[];
+  workingDir?: string;
+  memoryLimit?: number;
+  cpuQuota?: number;
+  /** Session volume name → mount path; volumes are shared across the session. */
+  volumes?: Record<string, string>;
+}
+
+export interface CreateSessionOpts {
+  name: string;
+  containers: SessionContainerSpec[];
+  agent?: string;
+  workItemId?: string;
+  /** Allow outbound traffic from the session network (default: none). */
+  outbound?: boolean;
+}
+
+export interface SessionContainer {
+  role: string;
+  id: string;
+  name: string;
+  /** Image the container currently runs — the spec's, or a snapshot's after restore. */
+  image: string;
+  spec: SessionContainerSpec;
+}
+
+export interface SandboxSnapshot {
+  id: string;
+  label?: string;
+  createdAt: string;
+  /** Role → committed image. */
+  images: Record<string, string>;
+  /** Session volume → snapshot volume. */
+  volumes: Record<string, string>;
+}
+
+export interface SandboxSession {
+  name: string;
+  network: string;
+  createdAt: string;
+  agent?: string;
+  workItemId?: string;
+  outbound: boolean;
+  containers: SessionContainer[];
+  /** Session volume name → Docker volume name. */
+  volumes: Record<string, string>;
+  snapshots: SandboxSnapshot[];
+  /** Latest snapshot restored, if any. */
+  restoredFrom?: string;
+}
+
+// ── Engine helpers ───────────────────────────────────────────
+
+function dockerError(op: string, res: DockerResponse<DockerReply>): Error {
+  return new Error(`Docker ${op} failed (${res.status}): ${res.data?.message}`);
+}
+
+function shortId(): string {
+  return `${Date.now().toString(36)}${randomBytes(2).toString("hex")}`;
+}
+
+/** Pull an image unless it is already present. */
+export async function ensureImage(image: string): Promise<void> {
+  const inspect = await dockerRequest("GET", `/images/${encodeURIComponent(image)}/json`);
+  if (inspect.status === 200) return;
+  const [fromImage, tag] = image.includes(":") ? image.split(":") : [image, "latest"];
+  const pull = await dockerRequest("POST", `/images/create?fromImage=${encodeURIComponent(fromImage)}&tag=${encodeURIComponent(tag)}`);
+  if (pull.status !== 200) throw dockerError("pull", pull);
+}
+
+/**
+ * Create and start a container. A container that fails to start is
+ * removed again. Returns the container ID.
+ */
+export async function runContainer(name: string, config: ContainerConfig): Promise<string> {
+  const created = await dockerRequest("POST", `/containers/create?name=${encodeURIComponent(name)}`, config);
+  if (created.status !== 201 || !created.data.Id) throw dockerError("create", created);
+  const id = created.data.Id;
+
+  const started = await dockerRequest("POST", `/containers/${id}/start`);
+  if (started.status !== 204 && started.status !== 304) {
+    await dockerRequest("DELETE", `/containers/${id}?force=true`).catch(() => {});
+    throw dockerError("start", started);
+  }
+  return id;
+}
+
+export async function stopContainer(nameOrId: string): Promise<void> {
+  const res = await dockerRequest("POST", `/containers/${encodeURIComponent(nameOrId)}/stop?t=10`);
+  if (res.status === 204 || res.status === 304 || res.status === 404) return;
+  throw dockerError("stop", res);
+}
+
+/** Force-remove a container; a missing one is not an error. */
+export async function removeContainer(nameOrId: string): Promise<void> {
+  const res = await dockerRequest("DELETE", `/containers/${encodeURIComponent(nameOrId)}?force=true`);
+  if (res.status === 204 || res.status === 404) return;
+  throw dockerError("remove", res);
+}
+
+export async function inspectContainer(nameOrId: string): Promise<DockerReply | null> {
+  const res = await dockerRequest("GET", `/containers/${encodeURIComponent(nameOrId)}/json`);
+  if (res.status === 404) return null;
+  if (res.status === 200) return res.data;
+  throw dockerError("inspect", res);
+}
+
+/** Block until a container exits; returns its exit code. */
+export async function waitContainer(nameOrId: string, timeoutMs: number): Promise<number> {
+  const res = await dockerRequest<DockerReply & { StatusCode?: number }>(
+    "POST", `/containers/${encodeURIComponent(nameOrId)}/wait`, null, { timeoutMs },
+  );
+  if (res.status !== 200) throw dockerError("wait", res);
+  return res.data.StatusCode ?? -1;
+}
+
+/** stdout and stderr combined, in order. */
+export async function containerLogs(nameOrId: string): Promise<{ status: number; text: string }> {
+  const { status, body } = await dockerRequestRaw("GET", `/containers/${encodeURIComponent(nameOrId)}/logs?stdout=true&stderr=true&timestamps=false`);
+  const frames = demuxDockerStream(body);
+  // Containers started with a TTY return plain text
+  const text = frames.length > 0 ? frames.map(f => f.data.toString("utf8")).join("") : body.toString("utf8");
+  return { status, text };
+}
+
+async function setPaused(nameOrId: string, paused: boolean): Promise<void> {
+  const res = await dockerRequest("POST", `/containers/${encodeURIComponent(nameOrId)}/${paused ? "pause" : "unpause"}`);
+  if (res.status !== 204) throw dockerError(paused ? "pause" : "unpause", res);
+}
+
+export async function createVolume(name: string, labels: Record<string, string>): Promise<void> {
+  const res = await dockerRequest("POST", "/volumes/create", { Name: name, Labels: labels });
+  if (res.status !== 201 && res.status !== 200) throw dockerError("volume create", res);
+}
+
+/** Remove a volume; a missing one is not an error. */
+export async function removeVolume(name: string): Promise<void> {
+  const res = await dockerRequest("DELETE", `/volumes/${encodeURIComponent(name)}`);
+  if (res.status === 204 || res.status === 200 || res.status === 404) return;
+  throw dockerError("volume remove", res);
+}
+
+/** Copy one volume's contents into another with a throwaway helper container. */
+export async function copyVolume(from: string, to: string): Promise<void> {
+  await ensureImage(COPY_HELPER_IMAGE);
+  const id = await runContainer(`${CONTAINER_PREFIX}copy-${shortId()}`, {
+    Image: COPY_HELPER_IMAGE,
+    Cmd: ["sh", "-c", "cp -a /from/. /to/"],
+    Labels: { "ellie.sandbox-helper": "true" },
+    HostConfig: {
+      NetworkMode: "none",
+      SecurityOpt: ["no-new-privileges"],
+      Binds: [`${from}:/from:ro`, `${to}:/to`],
+    },
+  });
+  try {
+    const exitCode = await waitContainer(id, VOLUME_COPY_TIMEOUT_MS);
+    if (exitCode !== 0) throw new Error(`Volume copy ${from} → ${to} exited with ${exitCode}`);
+  } finally {
+    await removeContainer(id).catch(() => {});
+  }
+}
+
+export interface NetworkOpts {
+  /** No route outside the network. */
+  internal?: boolean;
+  labels?: Record<string, string>;
+  options?: Record<string, string>;
+}
+
+/** Create a bridge network unless it exists. Returns true when created. */
+export async function ensureNetwork(name: string, opts: NetworkOpts = {}): Promise<boolean> {
+  const inspect = await dockerRequest("GET", `/networks/${encodeURIComponent(name)}`);
+  if (inspect.status === 200) return false;
+  const res = await dockerRequest("POST", "/networks/create", {
+    Name: name,
+    Driver: "bridge",
+    Internal: opts.internal ?? false,
+    Labels: opts.labels ?? {},
+    ...(opts.options ? { Options: opts.options } : {}),
+  });
+  if (res.status !== 201 && res.status !== 200) throw dockerError("network create", res);
+  return true;
+}
+
+export async function removeNetwork(name: string): Promise<void> {
+  const res = await dockerRequest("DELETE", `/networks/${encodeURIComponent(name)}`);
+  if (res.status === 204 || res.status === 200 || res.status === 404) return;
+  throw dockerError("network remove", res);
+}
+
+/** Commit a container's filesystem as repo:tag. Returns the image reference. */
+export async function commitContainer(
+  nameOrId: string,
+  repo: string,
+  tag: string,
+  labels: Record<string, string>,
+): Promise<string> {
+  const query = `container=${encodeURIComponent(nameOrId)}&repo=${encodeURIComponent(repo)}&tag=${encodeURIComponent(tag)}&pause=false`;
+  const res = await dockerRequest("POST", `/commit?${query}`, { Labels: labels });
+  if (res.status !== 201) throw dockerError("commit", res);
+  return `${repo}:${tag}`;
+}
+
+export async function removeImage(ref: string): Promise<void> {
+  const res = await dockerRequest("DELETE", `/images/${encodeURIComponent(ref)}?force=true`);
+  if (res.status === 200 || res.status === 404) return;
+  throw dockerError("image remove", res);
+}
+
+/**
+ * Run a command in a running container, streaming output through
+ * opts.onOutput as it arrives. A string runs under `sh -c`.
+ */
+export async function execStream(nameOrId: string, cmd: string | string[], opts: ExecOpts = {}): Promise<ExecOutput> {
+  const created = await dockerRequest("POST", `/containers/${encodeURIComponent(nameOrId)}/exec`, {
+    Cmd: typeof cmd === "string" ? ["sh", "-c", cmd] : cmd,
+    AttachStdout: true,
+    AttachStderr: true,
+    ...(opts.workingDir ? { WorkingDir: opts.workingDir } : {}),
+  });
+  if (created.status !== 201 || !created.data.Id) throw dockerError("exec create", created);
+  const execId = created.data.Id;
+
+  const out = { stdout: "", stderr: "" };
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), opts.timeoutMs ?? 10_000);
+  const signal = opts.signal ? AbortSignal.any([opts.signal, timeout.signal]) : timeout.signal;
+  try {
+    await dockerStream("POST", `/exec/${execId}/start`, { Detach: false, Tty: false }, frame => {
+      if (frame.stream === "stdin") return;
+      const text = frame.data.toString("utf8");
+      out[frame.stream] += text;
+      opts.onOutput?.(frame.stream, text);
+    }, { signal, timeoutMs: opts.timeoutMs });
+  } catch (err) {
+    if (timeout.signal.aborted) throw new Error("exec timeout");
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const inspect = await dockerRequest<DockerReply & { ExitCode?: number | null }>("GET", `/exec/${execId}/json`);
+  return { ...out, exitCode: inspect.data?.ExitCode ?? null };
+}
+
+// ── Sessions ─────────────────────────────────────────────────
+
+const sessions = new Map<string, SandboxSession>();
+
+function sessionLabels(session: Pick<SandboxSession, "name" | "agent" | "workItemId">): Record<string, string> {
+  const labels: Record<string, string> = { "ellie.sandbox": "true", "ellie.session": session.name };
+  if (session.agent) labels["ellie.agent"] = session.agent;
+  if (session.workItemId) labels["ellie.work-item"] = session.workItemId;
+  return labels;
+}
+
+function containerConfig(session: SandboxSession, spec: SessionContainerSpec, image: string): ContainerConfig {
+  const binds = Object.entries(spec.volumes ?? {}).map(([vol, mount]) => `${session.volumes[vol]}:${mount}`);
+  return {
+    Image: image,
+    Env: spec.env ?? [],
+    Hostname: spec.role,
+    Labels: { ...sessionLabels(session), "ellie.session.role": spec.role },
+    ...(spec.cmd ? { Cmd: spec.cmd } : {}),
+    ...(spec.workingDir ? { WorkingDir: spec.workingDir } : {}),
+    HostConfig: {
+      Memory: spec.memoryLimit || DEFAULT_MEMORY_LIMIT,
+      CpuQuota: spec.cpuQuota || DEFAULT_CPU_QUOTA,
+      CpuPeriod: 100_000,
+      NetworkMode: session.network,
+      SecurityOpt: ["no-new-privileges"],
+      ...(binds.length > 0 ? { Binds: binds } : {}),
+    },
+    NetworkingConfig: { EndpointsConfig: { [session.network]: { Aliases: [spec.role] } } },
+  };
+}
+
+function containerName(session: string, role: string): string {
+  return `${CONTAINER_PREFIX}${session}-${role}`;
+}
+
+/** Problems with a session request; empty when valid. Pure function. */
+export function validateSessionOpts(opts: CreateSessionOpts): string[] {
+  const errors: string[] = [];
+  if (!NAME_RE.test(opts.name ?? "")) errors.push("name must be lowercase letters, digits, '.', '_' or '-' (max 40)");
+  if (!Array.isArray(opts.containers) || opts.containers.length === 0) {
+    errors.push("containers must list at least one container");
+    return errors;
+  }
+  const roles = new Set<string>();
+  for (const [i, c] of opts.containers.entries()) {
+    if (!NAME_RE.test(c.role ?? "")) errors.push(`containers[${i}].role is invalid`);
+    else if (roles.has(c.role)) errors.push(`containers[${i}].role "${c.role}" is repeated`);
+    roles.add(c.role);
+    if (!c.image) errors.push(`containers[${i}].image is required`);
+    for (const [vol, mount] of Object.entries(c.volumes ?? {})) {
+      if (!NAME_RE.test(vol)) errors.push(`containers[${i}].volumes: "${vol}" is not a valid volume name`);
+      if (!mount.startsWith("/")) errors.push(`containers[${i}].volumes.${vol} must be an absolute path`);
+    }
+  }
+  return errors;
+}
+
+export function getSession(name: string): SandboxSession | null {
+  return sessions.get(name) ?? null;
+}
+
+export function listSessions(): SandboxSession[] {
+  return [...sessions.values()];
+}
+
+async function teardown(session: SandboxSession, opts: { snapshots: boolean }): Promise<void> {
+  for (const c of session.containers) await removeContainer(c.id).catch(err => logger.warn(`Remove ${c.name} failed`, err));
+  for (const vol of Object.values(session.volumes)) await removeVolume(vol).catch(err => logger.warn(`Remove volume ${vol} failed`, err));
+  if (opts.snapshots) {
+    for (const snap of session.snapshots) {
+      for (const image of Object.values(snap.images)) await removeImage(image).catch(() => {});
+      for (const vol of Object.values(snap.volumes)) await removeVolume(vol).catch(() => {});
+    }
+  }
+  await removeNetwork(session.network).catch(err => logger.warn(`Remove network ${session.network} failed`, err));
+}
+
+/**
+ * Create a session: its private network, its volumes, then its containers
+ * in the order given (list dependencies such as a database first).
+ * Anything created is removed again if a step fails.
+ */
+export async function createSession(opts: CreateSessionOpts): Promise<SandboxSession> {
+  const errors = validateSessionOpts(opts);
+  if (errors.length > 0) throw new Error(`Invalid session: ${errors.join("; ")}`);
+  if (sessions.has(opts.name)) throw new Error(`Session ${opts.name} already exists`);
+
+  const session: SandboxSession = {
+    name: opts.name,
+    network: `${SESSION_PREFIX}${opts.name}`,
+    createdAt: new Date().toISOString(),
+    agent: opts.agent,
+    workItemId: opts.workItemId,
+    outbound: opts.outbound ?? false,
+    containers: [],
+    volumes: {},
+    snapshots: [],
+  };
+  sessions.set(session.name, session);
+
+  try {
+    await ensureNetwork(session.network, { internal: !session.outbound, labels: sessionLabels(session) });
+    for (const vol of new Set(opts.containers.flatMap(c => Object.keys(c.volumes ?? {})))) {
+      session.volumes[vol] = `${SESSION_PREFIX}${session.name}-${vol}`;
+      await createVolume(session.volumes[vol], sessionLabels(session));
+    }
+    for (const spec of opts.containers) {
+      await ensureImage(spec.image);
+      const name = containerName(session.name, spec.role);
+      const id = await runContainer(name, containerConfig(session, spec, spec.image));
+      session.containers.push({ role: spec.role, id, name, image: spec.image, spec });
+    }
+  } catch (err) {
+    sessions.delete(session.name);
+    await teardown(session, { snapshots: false });
+    throw err;
+  }
+
+  logger.info(`Session created: ${session.name}`, {
+    containers: session.containers.map(c => c.role),
+    agent: opts.agent,
+    workItemId: opts.workItemId,
+  });
+  return session;
+}
+
+function requireSession(name: string): SandboxSession {
+  const session = sessions.get(name);
+  if (!session) throw new Error(`Session ${name} not found`);
+  return session;
+}
+
+function requireContainer(session: SandboxSession, role: string): SessionContainer {
+  const container = session.containers.find(c => c.role === role);
+  if (!container) throw new Error(`Session ${session.name} has no container "${role}"`);
+  return container;
+}
+
+/** Run a command in one of a session's containers. */
+export async function execInSession(name: string, role: string, cmd: string | string[], opts: ExecOpts = {}): Promise<ExecOutput> {
+  const container = requireContainer(requireSession(name), role);
+  return execStream(container.id, cmd, opts);
+}
+
+/**
+ * Snapshot every container filesystem and volume of a session. Containers
+ * are paused for the duration so the copies are consistent with each other.
+ */
+export async function snapshotSession(name: string, label?: string): Promise<SandboxSnapshot> {
+  const session = requireSession(name);
+  const snapshot: SandboxSnapshot = { id: shortId(), label, createdAt: new Date().toISOString(), images: {}, volumes: {} };
+  const labels = { ...sessionLabels(session), "ellie.snapshot": snapshot.id };
+
+  const paused: string[] = [];
+  try {
+    for (const c of session.containers) {
+      await setPaused(c.id, true);
+      paused.push(c.id);
+    }
+    for (const [vol, dockerVol] of Object.entries(session.volumes)) {
+      const copy = `${dockerVol}-snap-${snapshot.id}`;
+      await createVolume(copy, labels);
+      snapshot.volumes[vol] = copy;
+      await copyVolume(dockerVol, copy);
+    }
+    for (const c of session.containers) {
+      snapshot.images[c.role] = await commitContainer(c.id, SNAPSHOT_REPO, `${session.name}-${snapshot.id}-${c.role}`, labels);
+    }
+  } catch (err) {
+    for (const image of Object.values(snapshot.images)) await removeImage(image).catch(() => {});
+    for (const vol of Object.values(snapshot.volumes)) await removeVolume(vol).catch(() => {});
+    throw err;
+  } finally {
+    for (const id of paused) await setPaused(id, false).catch(err => logger.warn(`Unpause ${id} failed`, err));
+  }
+
+  session.snapshots.push(snapshot);
+  logger.info(`Session snapshot: ${session.name}/${snapshot.id}`, { label, volumes: Object.keys(snapshot.volumes) });
+  return snapshot;
+}
+
+/**
+ * Put a session back to a snapshot: containers are replaced by ones
+ * started from the snapshot images, and volumes are refilled from the
+ * snapshot copies. The snapshot itself is kept for further restores.
+ */
+export async function restoreSession(name: string, snapshotId: string): Promise<SandboxSession> {
+  const session = requireSession(name);
+  const snapshot = session.snapshots.find(s => s.id === snapshotId || s.label === snapshotId);
+  if (!snapshot) throw new Error(`Session ${name} has no snapshot ${snapshotId}`);
+
+  for (const c of session.containers) await removeContainer(c.id);
+  for (const [vol, dockerVol] of Object.entries(session.volumes)) {
+    await removeVolume(dockerVol);
+    await createVolume(dockerVol, sessionLabels(session));
+    await copyVolume(snapshot.volumes[vol], dockerVol);
+  }
+
+  const restored: SessionContainer[] = [];
+  for (const c of session.containers) {
+    const image = snapshot.images[c.role];
+    const id = await runContainer(c.name, containerConfig(session, c.spec, image));
+    restored.push({ ...c, id, image });
+  }
+  session.containers = restored;
+  session.restoredFrom = snapshot.id;
+
+  logger.info(`Session restored: ${session.name} → ${snapshot.id}`);
+  return session;
+}
+
+/** Remove a session with its containers, volumes, network and snapshots. */
+export async function destroySession(name: string): Promise<boolean> {
+  const session = sessions.get(name);
+  if (!session) return false;
+  sessions.delete(name);
+  await teardown(session, { snapshots: true });
+  logger.info(`Session destroyed: ${name}`);
+  return true;
+}
+
+/** Destroy sessions older than maxAgeMs. Returns how many were removed. */
+export async function cleanupExpiredSessions(maxAgeMs = MAX_SESSION_AGE_MS, now = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const session of listSessions()) {
+    if (now - new Date(session.createdAt).getTime() <= maxAgeMs) continue;
+    try {
+      await destroySession(session.name);
+      removed++;
+    } catch (err) {
+      logger.warn(`Session cleanup failed: ${session.name}`, err);
+    }
+  }
+  return removed;
+}
+
+export interface ReconcileResult {
+  containers: number;
+  volumes: number;
+  networks: number;
+  images: number;
+}
+
+type LabeledResource = { Labels?: Record<string, string> | null };
+
+/**
+ * Remove Docker resources labelled with a session that is not in memory —
+ * what survives a relay restart. Run at startup. Containers go first so
+ * their volumes and networks are no longer in use.
+ */
+export async function reconcileOrphanedSessions(): Promise<ReconcileResult> {
+  const filters = encodeURIComponent(JSON.stringify({ label: ["ellie.session"] }));
+  const orphaned = (r: LabeledResource) => {
+    const name = r.Labels?.["ellie.session"];
+    return !!name && !sessions.has(name);
+  };
+  const result: ReconcileResult = { containers: 0, volumes: 0, networks: 0, images: 0 };
+  const remove = async (kind: keyof ReconcileResult, ref: string, fn: (ref: string) => Promise<void>) => {
+    try {
+      await fn(ref);
+      result[kind]++;
+    } catch (err) {
+      logger.warn(`Orphaned ${kind} ${ref} not removed`, err);
+    }
+  };
+
+  const containers = await dockerRequest<({ Id: string } & LabeledResource)[]>("GET", `/containers/json?all=true&filters=${filters}`);
+  if (containers.status !== 200 || !Array.isArray(containers.data)) throw new Error(`Docker container list failed (${containers.status})`);
+  for (const c of containers.data.filter(orphaned)) await remove("containers", c.Id, removeContainer);
+
+  const volumes = await dockerRequest<{ Volumes?: ({ Name: string } & LabeledResource)[] | null }>("GET", `/volumes?filters=${filters}`);
+  for (const v of (volumes.data.Volumes ?? []).filter(orphaned)) await remove("volumes", v.Name, removeVolume);
+
+  const images = await dockerRequest<({ Id: string; RepoTags?: string[] | null } & LabeledResource)[]>("GET", `/images/json?filters=${filters}`);
+  for (const img of (Array.isArray(images.data) ? images.data : []).filter(orphaned)) {
+    await remove("images", img.RepoTags?.[0] ?? img.Id, removeImage);
+  }
+
+  const networks = await dockerRequest<({ Name: string } & LabeledResource)[]>("GET", `/networks?filters=${filters}`);
+  for (const n of (Array.isArray(networks.data) ? networks.data : []).filter(orphaned)) await remove("networks", n.Name, removeNetwork);
+
+  const total = result.containers + result.volumes + result.networks + result.images;
+  if (total > 0) logger.info("Removed orphaned session resources", { ...result });
+  return result;
+}
+
+/** For tests. */
+export function _resetSessionsForTesting(): void {
+  sessions.clear();
+}
@@ -10,14 +10,25 @@
  *   dispatch   — dispatch to an agent via orchestration-dispatch
  *   http       — POST to an internal relay endpoint
  *   reminder   — send a notification to Dave
+ *
+ * Schedules are evaluated as wall-clock time in the task's timezone.
+ * Runs missed while the relay was down are handled per task by
+ * `catch_up` (see planCatchUp):
+ *   skip     — drop them; the next on-time run proceeds as normal
+ *   run_once — run once now for all of them (default)
+ *   run_all  — replay the most recent `catch_up_max`, oldest first
+ * Every run records its trigger (schedule, catch_up, manual) and the
+ * fire time it stands for in scheduled_task_runs.metadata.
  */
 
 import { log } from "./logger.ts";
 import {
   parseCron,
   nextCronRun,
+  nextCronRuns,
   type ParsedCron,
 } from "./types/formation-heartbeats";
+import { isValidTimeZone } from "./timezone.ts";
 
 const logger = log.child("scheduled-tasks");
 
@@ -25,6 +36,8 @@ const logger = log.child("scheduled-tasks");
 
 export type TaskType = "formation" | "dispatch" | "http" | "reminder";
 export type RunStatus = "started" | "completed" | "failed" | "skipped";
+export type CatchUpPolicy = "skip" | "run_once" | "run_all";
+export type RunTrigger = "schedule" | "catch_up" | "manual";
 
 export interface ScheduledTask {
   id: string;
@@ -42,6 +55,8 @@ export interface ScheduledTask {
   last_status: RunStatus | null;
   last_error: string | null;
   consecutive_failures: number;
+  catch_up: CatchUpPolicy;
+  catch_up_max: number;
   created_by: string | null;
 }
 
@@ -66,6 +81,8 @@ export interface CreateTaskInput {
   timezone?: string;
   enabled?: boolean;
   config: Record<string, unknown>;
+  catch_up?: CatchUpPolicy;
+  catch_up_max?: number;
   created_by?: string;
 }
 
@@ -76,6 +93,8 @@ export interface UpdateTaskInput {
   timezone?: string;
   enabled?: boolean;
   config?: Record<string, unknown>;
+  catch_up?: CatchUpPolicy;
+  catch_up_max?: number;
 }
 
 export interface TickResult {
@@ -85,10 +104,30 @@ export interface TickResult {
   failed: { id: string; name: string; error: string }[];
 }
 
+/** What a tick does with a due task's fire times (oldest first). */
+export interface CatchUpPlan {
+  /** Fire times to execute now. */
+  run: Date[];
+  /** Fire times dropped by the policy, recorded as one skipped run. */
+  skipped: Date[];
+  /** True if more fire times were missed than were scanned. */
+  truncated: boolean;
+}
+
+export type TaskExecutor = (task: ScheduledTask) => Promise<Record<string, unknown>>;
+
 // ── Validation ───────────────────────────────────────────────
 
 const VALID_TASK_TYPES: TaskType[] = ["formation", "dispatch", "http", "reminder"];
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ["skip", "run_once", "run_all"];
 const MAX_CONSECUTIVE_FAILURES = 5;
+const DEFAULT_TIMEZONE = "America/Chicago";
+
+/** A fire time this close to now is on time, not missed (covers tick jitter). */
+export const CATCH_UP_GRACE_MS = 5 * 60_000;
+/** Upper bound on catch_up_max, and on fire times scanned per tick. */
+export const MAX_CATCH_UP_RUNS = 100;
+const MAX_CATCH_UP_SCAN = 1_000;
 
 export function validateTaskInput(input: CreateTaskInput): string | null {
   if (!input.name?.trim()) return "name is required";
@@ -98,7 +137,22 @@ export function validateTaskInput(input: CreateTaskInput): string | null {
   } catch (err) {
     return `invalid schedule: ${err instanceof Error ? err.message : String(err)}`;
   }
-  return validateConfig(input.task_type, input.config);
+  return validateScheduleOptions(input) ?? validateConfig(input.task_type, input.config);
+}
+
+/** Validate timezone and catch-up fields, when present. */
+export function validateScheduleOptions(input: Pick<UpdateTaskInput, "timezone" | "catch_up" | "catch_up_max">): string | null {
+  if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+    return `invalid timezone: ${input.timezone}`;
+  }
+  if (input.catch_up !== undefined && !CATCH_UP_POLICIES.includes(input.catch_up)) {
+    return `invalid catch_up: ${input.catch_up}`;
+  }
+  if (input.catch_up_max !== undefined &&
+      (!Number.isInteger(input.catch_up_max) || input.catch_up_max < 1 || input.catch_up_max > MAX_CATCH_UP_RUNS)) {
+    return `catch_up_max must be an integer from 1 to ${MAX_CATCH_UP_RUNS}`;
+  }
+  return null;
 }
 
 export function validateConfig(taskType: TaskType, config: Record<string, unknown>): string | null {
@@ -138,23 +192,25 @@ async function getSql() {
 
 export async function createTask(input: CreateTaskInput): Promise<ScheduledTask> {
   const sql = await getSql();
-  const cron = parseCron(input.schedule);
-  const nextRun = nextCronRun(cron, new Date());
+  const timezone = input.timezone ?? DEFAULT_TIMEZONE;
+  const nextRun = nextCronRun(parseCron(input.schedule), new Date(), timezone);
 
   const [task] = await sql<ScheduledTask[]>`
     INSERT INTO scheduled_tasks (
       name, description, task_type, schedule, timezone, enabled,
-      config, next_run_at, created_by
+      config, next_run_at, catch_up, catch_up_max, created_by
     )
     VALUES (
       ${input.name},
       ${input.description ?? ""},
       ${input.task_type},
       ${input.schedule},
-      ${input.timezone ?? "America/Chicago"},
+      ${timezone},
       ${input.enabled ?? true},
       ${sql.json(input.config)},
       ${nextRun ? nextRun.toISOString() : null}::timestamptz,
+      ${input.catch_up ?? "run_once"},
+      ${input.catch_up_max ?? 10},
       ${input.created_by ?? null}
     )
     RETURNING *
@@ -204,10 +260,10 @@ export async function updateTask(id: string, input: UpdateTaskInput): Promise<Sc
   if (!existing) return null;
 
   const newSchedule = input.schedule ?? existing.schedule;
+  const newTimezone = input.timezone ?? existing.timezone;
   let nextRun = existing.next_run_at;
-  if (input.schedule) {
-    const cron = parseCron(input.schedule);
-    nextRun = nextCronRun(cron, new Date());
+  if (input.schedule || input.timezone) {
+    nextRun = nextCronRun(parseCron(newSchedule), new Date(), newTimezone);
   }
 
   const [task] = await sql<ScheduledTask[]>`
@@ -215,9 +271,11 @@ export async function updateTask(id: string, input: UpdateTaskInput): Promise<Sc
       name = ${input.name ?? existing.name},
       description = ${input.description ?? existing.description},
       schedule = ${newSchedule},
-      timezone = ${input.timezone ?? existing.timezone},
+      timezone = ${newTimezone},
       enabled = ${input.enabled ?? existing.enabled},
       config = ${sql.json(input.config ?? existing.config)},
+      catch_up = ${input.catch_up ?? existing.catch_up},
+      catch_up_max = ${input.catch_up_max ?? existing.catch_up_max},
       next_run_at = ${nextRun ? (nextRun instanceof Date ? nextRun.toISOString() : nextRun) : null}::timestamptz,
       updated_at = NOW()
     WHERE id = ${id}::uuid
@@ -257,16 +315,24 @@ export async function getTaskRuns(taskId: string, limit = 20): Promise<Scheduled
   `;
 }
 
-async function recordRunStart(taskId: string): Promise<string> {
+async function recordRunStart(taskId: string, metadata: Record<string, unknown>): Promise<string> {
   const sql = await getSql();
   const [run] = await sql<{ id: string }[]>`
-    INSERT INTO scheduled_task_runs (task_id, status, started_at)
-    VALUES (${taskId}::uuid, 'started', NOW())
+    INSERT INTO scheduled_task_runs (task_id, status, started_at, metadata)
+    VALUES (${taskId}::uuid, 'started', NOW(), ${sql.json(metadata)})
     RETURNING id
   `;
   return run.id;
 }
 
+async function recordSkippedRun(taskId: string, metadata: Record<string, unknown>): Promise<void> {
+  const sql = await getSql();
+  await sql`
+    INSERT INTO scheduled_task_runs (task_id, status, started_at, completed_at, duration_ms, metadata)
+    VALUES (${taskId}::uuid, 'skipped', NOW(), NOW(), 0, ${sql.json(metadata)})
+  `;
+}
+
 async function completeRun(
   runId: string,
   status: RunStatus,
@@ -285,10 +351,10 @@ async function completeRun(
   `;
 }
 
-async function advanceNextRun(task: ScheduledTask): Promise<void> {
+async function advanceNextRun(task: ScheduledTask, now: Date = new Date()): Promise<void> {
   const sql = await getSql();
   const cron = parseCron(task.schedule);
-  const nextRun = nextCronRun(cron, new Date());
+  const nextRun = nextCronRun(cron, now, task.timezone);
 
   await sql`
     UPDATE scheduled_tasks SET
@@ -319,9 +385,22 @@ async function markTaskStatus(
         consecutive_failures = consecutive_failures + 1, updated_at = NOW()
       WHERE id = ${taskId}::uuid
     `;
+  } else if (status === "skipped") {
+    await sql`
+      UPDATE scheduled_tasks SET last_status = 'skipped', updated_at = NOW()
+      WHERE id = ${taskId}::uuid
+    `;
   }
 }
 
+async function touchLastRun(taskId: string): Promise<void> {
+  const sql = await getSql();
+  await sql`
+    UPDATE scheduled_tasks SET last_run_at = NOW(), updated_at = NOW()
+    WHERE id = ${taskId}::uuid
+  `;
+}
+
 // ── Scheduler Tick ───────────────────────────────────────────
 
 /**
@@ -341,14 +420,77 @@ export async function getDueTasks(now?: Date): Promise<ScheduledTask[]> {
 }
 
 /**
- * Execute a single scheduler tick. Finds due tasks, runs each, records results.
+ * Fire times from `from` (inclusive) through `until`, oldest first,
+ * at most `limit` of them.
+ */
+export function fireTimesBetween(cron: ParsedCron, from: Date, until: Date, timeZone: string, limit: number): Date[] {
+  const times: Date[] = [];
+  let t: Date | null = from;
+  while (t && t <= until && times.length < limit) {
+    times.push(t);
+    t = nextCronRun(cron, t, timeZone);
+  }
+  return times;
+}
+
+/**
+ * Decide which of a due task's fire times to run. A fire time within
+ * CATCH_UP_GRACE_MS of now is on time; older ones were missed and are
+ * handled by the task's catch_up policy.
+ */
+export function planCatchUp(task: ScheduledTask, now: Date): CatchUpPlan {
+  if (!task.next_run_at) return { run: [], skipped: [], truncated: false };
+  const due = fireTimesBetween(parseCron(task.schedule), new Date(task.next_run_at), now, task.timezone, MAX_CATCH_UP_SCAN);
+  const truncated = due.length === MAX_CATCH_UP_SCAN;
+  const missed = due.filter(t => now.getTime() - t.getTime() > CATCH_UP_GRACE_MS);
+  const onTime = due.slice(missed.length);
+
+  switch (task.catch_up) {
+    case "skip":
+      return { run: onTime.slice(-1), skipped: [...missed, ...onTime.slice(0, -1)], truncated };
+    case "run_all": {
+      const cap = Math.min(task.catch_up_max, MAX_CATCH_UP_RUNS);
+      // Over the cap the oldest are dropped — the most recent runs matter most
+      return { run: due.slice(-cap), skipped: due.slice(0, -cap), truncated };
+    }
+    default:
+      return { run: due.slice(-1), skipped: due.slice(0, -1), truncated };
+  }
+}
+
+/** Execute one run of a task, recording it and updating the task's status. */
+async function executeRun(
+  task: ScheduledTask,
+  executor: TaskExecutor,
+  metadata: { trigger: RunTrigger; scheduled_for?: string },
+): Promise<{ runId: string; error: string | null }> {
+  const runId = await recordRunStart(task.id, metadata);
+  try {
+    const execResult = await executor(task);
+    await completeRun(runId, "completed", null, execResult);
+    await markTaskStatus(task.id, "completed");
+    logger.info(`Executed: ${task.name}`, { taskType: task.task_type, trigger: metadata.trigger });
+    return { runId, error: null };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    await completeRun(runId, "failed", errorMsg);
+    await markTaskStatus(task.id, "failed", errorMsg);
+    logger.error(`Failed: ${task.name}`, { error: errorMsg, trigger: metadata.trigger });
+    return { runId, error: errorMsg };
+  }
+}
+
+/**
+ * Execute a single scheduler tick. Finds due tasks, runs each per its
+ * catch-up plan, records results.
  * The executors map provides the actual execution logic per task type.
  */
 export async function schedulerTick(
-  executors: Partial<Record<TaskType, (task: ScheduledTask) => Promise<Record<string, unknown>>>>,
+  executors: Partial<Record<TaskType, TaskExecutor>>,
   now?: Date,
 ): Promise<TickResult> {
-  const due = await getDueTasks(now);
+  const asOf = now ?? new Date();
+  const due = await getDueTasks(asOf);
   const result: TickResult = {
     evaluated: due.length,
     triggered: [],
@@ -360,32 +502,76 @@ export async function schedulerTick(
     const executor = executors[task.task_type];
     if (!executor) {
       result.skipped.push({ id: task.id, name: task.name, reason: `no executor for type: ${task.task_type}` });
-      await advanceNextRun(task);
+      await advanceNextRun(task, asOf);
       continue;
     }
 
-    const runId = await recordRunStart(task.id);
-
-    try {
-      const execResult = await executor(task);
-      await completeRun(runId, "completed", null, execResult);
-      await markTaskStatus(task.id, "completed");
-      await advanceNextRun(task);
-      result.triggered.push(task.name);
-      logger.info(`Executed: ${task.name}`, { taskType: task.task_type });
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      await completeRun(runId, "failed", errorMsg);
-      await markTaskStatus(task.id, "failed", errorMsg);
-      await advanceNextRun(task);
-      result.failed.push({ id: task.id, name: task.name, error: errorMsg });
-      logger.error(`Failed: ${task.name}`, { error: errorMsg });
+    const plan = planCatchUp(task, asOf);
+    if (plan.skipped.length > 0) {
+      await recordSkippedRun(task.id, {
+        trigger: "catch_up",
+        reason: "missed",
+        policy: task.catch_up,
+        missed: plan.skipped.length,
+        truncated: plan.truncated,
+        first: plan.skipped[0].toISOString(),
+        last: plan.skipped[plan.skipped.length - 1].toISOString(),
+      });
+      result.skipped.push({
+        id: task.id,
+        name: task.name,
+        reason: `missed ${plan.skipped.length}${plan.truncated ? "+" : ""} run(s) (catch_up=${task.catch_up})`,
+      });
+      if (plan.run.length === 0) await markTaskStatus(task.id, "skipped");
+    }
+
+    let lastError: string | null = null;
+    for (const fireTime of plan.run) {
+      const late = asOf.getTime() - fireTime.getTime() > CATCH_UP_GRACE_MS;
+      const { error } = await executeRun(task, executor, {
+        trigger: late ? "catch_up" : "schedule",
+        scheduled_for: fireTime.toISOString(),
+      });
+      if (error) lastError = error;
     }
+
+    await advanceNextRun(task, asOf);
+    if (plan.run.length === 0) continue;
+    if (lastError) result.failed.push({ id: task.id, name: task.name, error: lastError });
+    else result.triggered.push(task.name);
   }
 
   return result;
 }
 
+/**
+ * Run a task immediately, outside its schedule. Records a normal run
+ * (trigger "manual") and updates last_run_at/status; next_run_at is
+ * left alone.
+ */
+export async function runTaskNow(
+  id: string,
+  executors: Partial<Record<TaskType, TaskExecutor>> = getDefaultExecutors(),
+): Promise<{ task: ScheduledTask; runId: string; status: RunStatus; error: string | null } | null> {
+  const task = await getTask(id);
+  if (!task) return null;
+  const executor = executors[task.task_type];
+  if (!executor) throw new Error(`no executor for type: ${task.task_type}`);
+
+  const { runId, error } = await executeRun(task, executor, { trigger: "manual" });
+  await touchLastRun(task.id);
+  return { task, runId, status: error ? "failed" : "completed", error };
+}
+
+/**
+ * Next `count` fire times for a cron expression evaluated in `timeZone`.
+ * Throws on an invalid expression or timezone.
+ */
+export function previewSchedule(schedule: string, timeZone: string = DEFAULT_TIMEZONE, count = 5, from: Date = new Date()): Date[] {
+  if (!isValidTimeZone(timeZone)) throw new Error(`invalid timezone: ${timeZone}`);
+  return nextCronRuns(parseCron(schedule), from, count, timeZone);
+}
+
 // ── Built-in Executors ───────────────────────────────────────
 
 export async function executeFormation(task: ScheduledTask): Promise<Record<string, unknown>> {
@@ -457,7 +643,7 @@ export async function executeReminder(task: ScheduledTask): Promise<Record<strin
 }
 
 /** Default executor map. */
-export function getDefaultExecutors(): Record<TaskType, (task: ScheduledTask) => Promise<Record<string, unknown>>> {
+export function getDefaultExecutors(): Record<TaskType, TaskExecutor> {
   return {
     formation: executeFormation,
     dispatch: executeDispatch,
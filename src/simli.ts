@@ -2,31 +2,34 @@
  * Simli API client — avatar session management.
  *
  * The relay creates session tokens (keeps API key server-side).
- * API key is stored in The Hollow (encrypted credential store).
+ * API key is stored in the vault (simli.ai / api_key).
  * The browser uses simli-client SDK for WebRTC + video.
  */
 
 import { log } from "./logger.ts";
-import { getCredentialByDomain } from "../../ellie-forest/src/hollow";
+import { getRelayDeps } from "./relay-state.ts";
+import { getCredentialForDomain, type ApiKeyPayload } from "./vault.ts";
 
 const logger = log.child("simli");
 
 const SIMLI_API_URL = process.env.SIMLI_API_URL || "https://api.simli.ai";
 const SIMLI_FACE_ID = process.env.SIMLI_FACE_ID || "";
 
-// Cache the API key after first Hollow lookup
+// Cache the API key after first vault lookup
 let _cachedApiKey: string | null = null;
 
 async function getSimliApiKey(): Promise<string> {
   if (_cachedApiKey) return _cachedApiKey;
   try {
-    const cred = await getCredentialByDomain("simli.ai", "api_key");
-    if (cred?.payload) {
-      _cachedApiKey = typeof cred.payload === "string" ? cred.payload : String(cred.payload);
+    const { supabase } = getRelayDeps();
+    const cred = supabase ? await getCredentialForDomain(supabase, "simli.ai", "api_key", { actor: "simli", purpose: "avatar session" }) : null;
+    const key = (cred?.payload as ApiKeyPayload | undefined)?.key;
+    if (key) {
+      _cachedApiKey = key;
       return _cachedApiKey;
     }
   } catch (err) {
-    logger.error("Failed to fetch Simli API key from Hollow", err);
+    logger.error("Failed to fetch Simli API key from the vault", err);
   }
   return "";
 }
@@ -41,7 +44,7 @@ export async function getSimliSessionToken(
 ): Promise<string | null> {
   const apiKey = await getSimliApiKey();
   if (!apiKey) {
-    logger.error("SIMLI_API_KEY not found in Hollow (simli.ai/api_key)");
+    logger.error("Simli API key not found in the vault (simli.ai/api_key)");
     return null;
   }
 
@@ -102,7 +105,7 @@ export async function getSimliIceServers(): Promise<any[] | null> {
   }
 }
 
-/** Check if Simli is configured (checks Hollow for API key). */
+/** Check if Simli is configured (checks the vault for the API key). */
 export async function isSimliConfigured(): Promise<boolean> {
   const apiKey = await getSimliApiKey();
   return !!(apiKey && SIMLI_FACE_ID);
@@ -4,8 +4,7 @@
  * Determines which loaded skills are eligible to run on this system.
  * Checks: OS, required binaries, required env vars, credential domains.
  *
- * ELLIE-253: Credential lookup now uses The Hollow (Forest DB) instead of
- * the old Supabase Credential Vault.
+ * Credential domains come from the vault (src/vault.ts).
  */
 
 import type { SkillEntry } from "./types.ts";
@@ -52,7 +51,7 @@ export function isSkillEligible(entry: SkillEntry, credentialDomains?: Set<strin
 
   // Required credentials (check by domain)
   if (requires?.credentials) {
-    if (!credentialDomains) return false; // no hollow available — fail closed
+    if (!credentialDomains) return false; // no vault available — fail closed
     for (const domain of requires.credentials) {
       if (!credentialDomains.has(domain)) return false;
     }
@@ -62,7 +61,7 @@ export function isSkillEligible(entry: SkillEntry, credentialDomains?: Set<strin
 }
 
 /**
- * Fetch all domains that have credentials in the Hollow.
+ * Fetch all domains that have credentials in the vault.
  * Cached for 60s to avoid hammering the DB on every snapshot rebuild.
  */
 let domainCache: Set<string> | null = null;
@@ -70,15 +69,17 @@ let domainCacheTime = 0;
 // ELLIE-235: Extended from 60s to 10min — credential domains rarely change
 const CACHE_TTL = 10 * 60_000;
 
-async function getCredentialDomains(): Promise<Set<string>> {
+export async function getCredentialDomains(): Promise<Set<string>> {
   const now = Date.now();
   if (domainCache && now - domainCacheTime < CACHE_TTL) {
     return domainCache;
   }
 
   try {
-    const { listCredentialDomains } = await import("../../../ellie-forest/src/hollow");
-    const domains = await listCredentialDomains();
+    const { getRelayDeps } = await import("../relay-state.ts");
+    const { listCredentialDomains } = await import("../vault.ts");
+    const { supabase } = getRelayDeps();
+    const domains = supabase ? await listCredentialDomains(supabase) : [];
     domainCache = new Set(domains);
     logger.info(`Credential domains: ${domains.join(", ") || "(none)"}`);
   } catch (err: unknown) {
@@ -0,0 +1,23 @@
+/**
+ * Built-in Speech Providers
+ *
+ * The TTS / STT providers shipped with the relay, in default fallback
+ * order. tts.ts and transcribe.ts register them on first load; a new
+ * backend adds its provider module and one line here.
+ */
+
+import { registerSttProvider, registerTtsProvider } from "./registry.ts";
+import { elevenLabsTts } from "./elevenlabs.ts";
+import { openaiTts } from "./openai.ts";
+import { piperTts } from "./piper.ts";
+import { groqStt } from "./groq.ts";
+import { whisperCppStt } from "./whisper-cpp.ts";
+
+export const BUILTIN_TTS_PROVIDERS = [elevenLabsTts, openaiTts, piperTts];
+export const BUILTIN_STT_PROVIDERS = [groqStt, whisperCppStt];
+
+/** Idempotent — safe to call from every module that needs speech. */
+export function registerBuiltinSpeechProviders(): void {
+  for (const provider of BUILTIN_TTS_PROVIDERS) registerTtsProvider(provider);
+  for (const provider of BUILTIN_STT_PROVIDERS) registerSttProvider(provider);
+}
@@ -0,0 +1,61 @@
+/**
+ * ElevenLabs TTS — cloud, streaming, native output in every format we use.
+ *
+ * ELEVENLABS_VOICE_ID is the default voice; ELEVENLABS_VOICES lists other
+ * voice ids routes may pick (TTS_ROUTES="avatar=elevenlabs:<voice id>").
+ */
+
+import { log } from "../logger.ts";
+import { TTS_CONTENT_TYPES, type TtsFormat, type TtsProvider } from "./provider.ts";
+
+const logger = log.child("tts-elevenlabs");
+
+const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || "";
+const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || "EXAVITQu4vr4xnSDxMaL";
+const ELEVENLABS_VOICES = (process.env.ELEVENLABS_VOICES || "").split(",").map(v => v.trim()).filter(Boolean);
+
+const OUTPUT_FORMATS: Record<TtsFormat, string> = {
+  mulaw: "ulaw_8000",
+  ogg: "opus_48000_64",
+  mp3: "mp3_22050_32",
+  pcm16: "pcm_16000",
+};
+
+export const elevenLabsTts: TtsProvider = {
+  id: "elevenlabs",
+  displayName: "ElevenLabs",
+  capabilities: {
+    streaming: true,
+    local: false,
+    // eleven_turbo_v2_5 is multilingual
+    languages: ["*"],
+    formats: ["mulaw", "ogg", "mp3", "pcm16"],
+    voices: [...new Set([ELEVENLABS_VOICE_ID, ...ELEVENLABS_VOICES])],
+  },
+
+  isConfigured: () => !!ELEVENLABS_API_KEY,
+
+  async synthesize(text, { format, voice, signal }) {
+    // /stream endpoint for lower TTFB
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${voice || ELEVENLABS_VOICE_ID}/stream?output_format=${OUTPUT_FORMATS[format]}`,
+      {
+        method: "POST",
+        headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text,
+          model_id: "eleven_turbo_v2_5",
+          voice_settings: { stability: 0.5, similarity_boost: 0.75 },
+        }),
+        signal,
+      }
+    );
+
+    if (!response.ok || !response.body) {
+      logger.error("ElevenLabs stream error", { format, status: response.status, body: await response.text() });
+      return null;
+    }
+
+    return { body: response.body, contentType: TTS_CONTENT_TYPES[format] };
+  },
+};
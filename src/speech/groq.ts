@@ -0,0 +1,36 @@
+/**
+ * Groq STT — cloud Whisper (whisper-large-v3-turbo). Fast and accurate;
+ * the default first choice when GROQ_API_KEY is set.
+ */
+
+import type { SttProvider } from "./provider.ts";
+
+const GROQ_API_KEY = process.env.GROQ_API_KEY || "";
+
+export const groqStt: SttProvider = {
+  id: "groq",
+  displayName: "Groq",
+  capabilities: {
+    streaming: false,
+    local: false,
+    languages: ["*"],
+    formats: ["ogg", "wav"],
+  },
+
+  isConfigured: () => !!GROQ_API_KEY,
+
+  /** Groq auto-detects the format from the filename. */
+  async transcribe(audio, { format, signal }) {
+    const Groq = (await import("groq-sdk")).default;
+    const groq = new Groq(); // reads GROQ_API_KEY from env
+    const bytes = new Uint8Array(audio);
+    const file = format === "wav"
+      ? new File([bytes], "call.wav", { type: "audio/wav" })
+      : new File([bytes], "voice.ogg", { type: "audio/ogg" });
+    const result = await groq.audio.transcriptions.create(
+      { file, model: "whisper-large-v3-turbo" },
+      { signal },
+    );
+    return result.text.trim();
+  },
+};
@@ -0,0 +1,60 @@
+/**
+ * OpenAI TTS — cloud, streaming. MP3 and Opus come back natively; mulaw
+ * (Twilio) and 16kHz PCM (avatar) are transcoded from its 24kHz PCM.
+ */
+
+import { log } from "../logger.ts";
+import { TTS_CONTENT_TYPES, type TtsProvider } from "./provider.ts";
+import { transcodePcm16Stream } from "./transcode.ts";
+
+const logger = log.child("tts-openai");
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+const OPENAI_TTS_VOICE = process.env.OPENAI_TTS_VOICE || "nova";
+const OPENAI_TTS_MODEL = process.env.OPENAI_TTS_MODEL || "tts-1";
+
+const OPENAI_VOICES = ["alloy", "ash", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"];
+/** response_format "pcm" is 24kHz mono s16le. */
+const OPENAI_PCM_RATE = 24_000;
+
+export const openaiTts: TtsProvider = {
+  id: "openai",
+  displayName: "OpenAI",
+  capabilities: {
+    streaming: true,
+    local: false,
+    languages: ["*"],
+    formats: ["mulaw", "ogg", "mp3", "pcm16"],
+    voices: [...new Set([OPENAI_TTS_VOICE, ...OPENAI_VOICES])],
+  },
+
+  isConfigured: () => !!OPENAI_API_KEY,
+
+  async synthesize(text, { format, voice, signal }) {
+    const native = format === "mp3" ? "mp3" : format === "ogg" ? "opus" : "pcm";
+    const response = await fetch("https://api.openai.com/v1/audio/speech", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${OPENAI_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: OPENAI_TTS_MODEL,
+        input: text,
+        voice: voice || OPENAI_TTS_VOICE,
+        response_format: native,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      logger.error("OpenAI TTS stream error", { format, status: response.status, body: await response.text() });
+      return null;
+    }
+
+    const body = native === "pcm"
+      ? transcodePcm16Stream(response.body, OPENAI_PCM_RATE, format, signal)
+      : response.body;
+    return { body, contentType: TTS_CONTENT_TYPES[format] };
+  },
+};
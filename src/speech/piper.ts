@@ -0,0 +1,106 @@
+/**
+ * Piper TTS — fully local neural TTS (https://github.com/rhasspy/piper).
+ *
+ * Runs the piper binary on this machine, so voice keeps working offline
+ * and text from PHI-heavy conversations is never sent anywhere. Piper
+ * writes raw PCM as it synthesizes each sentence; ffmpeg turns that into
+ * the requested format on the fly.
+ *
+ * Config:
+ *   PIPER_BINARY      piper executable (default "piper")
+ *   PIPER_MODEL_PATH  voice model(s), comma-separated .onnx paths; the
+ *                     first is the default. A voice's id is its file name
+ *                     without .onnx (e.g. "en_US-amy-medium").
+ */
+
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { spawn } from "bun";
+import { log } from "../logger.ts";
+import { TTS_CONTENT_TYPES, type TtsProvider } from "./provider.ts";
+import { firstChunkOrNull, transcodePcm16Stream } from "./transcode.ts";
+
+const logger = log.child("tts-piper");
+
+const PIPER_BINARY = process.env.PIPER_BINARY || "piper";
+const PIPER_MODELS = (process.env.PIPER_MODEL_PATH || "").split(",").map(p => p.trim()).filter(Boolean);
+
+/** Piper's default when a model has no readable .onnx.json config. */
+const DEFAULT_SAMPLE_RATE = 22_050;
+
+/** "…/en_US-amy-medium.onnx" → "en_US-amy-medium". Pure. */
+export function piperVoiceId(modelPath: string): string {
+  return basename(modelPath).replace(/\.onnx$/, "");
+}
+
+/** Language from Piper's "<lang>_<REGION>-<name>-<quality>" naming; "*" when it doesn't follow it. Pure. */
+export function piperVoiceLanguage(voiceId: string): string {
+  const match = /^([a-z]{2,3})_[A-Z]{2}-/.exec(voiceId);
+  return match ? match[1] : "*";
+}
+
+const sampleRates = new Map<string, number>();
+
+function sampleRate(modelPath: string): number {
+  let rate = sampleRates.get(modelPath);
+  if (rate === undefined) {
+    try {
+      const config = JSON.parse(readFileSync(`${modelPath}.json`, "utf-8"));
+      rate = Number(config?.audio?.sample_rate) || DEFAULT_SAMPLE_RATE;
+    } catch {
+      rate = DEFAULT_SAMPLE_RATE;
+    }
+    sampleRates.set(modelPath, rate);
+  }
+  return rate;
+}
+
+export interface PiperOptions {
+  binary: string;
+  /** .onnx model paths; the first is the default voice. */
+  models: string[];
+}
+
+export function createPiperTts({ binary, models }: PiperOptions): TtsProvider {
+  const voices = models.map(piperVoiceId);
+  return {
+    id: "piper",
+    displayName: "Piper (local)",
+    capabilities: {
+      streaming: true,
+      local: true,
+      languages: [...new Set(voices.map(piperVoiceLanguage))],
+      formats: ["mulaw", "ogg", "mp3", "pcm16"],
+      voices,
+    },
+
+    isConfigured: () => models.length > 0,
+
+    async synthesize(text, { format, voice, signal }) {
+      const model = voice ? models[voices.indexOf(voice)] : models[0];
+      if (!model) return null;
+
+      const piper = spawn([binary, "--model", model, "--output_raw"], {
+        stdin: new Blob([text]),
+        stdout: "pipe",
+        stderr: "ignore",
+      });
+      signal?.addEventListener("abort", () => piper.kill(), { once: true });
+
+      const rate = sampleRate(model);
+      const pcm = format === "pcm16" && rate === 16_000
+        ? piper.stdout
+        : transcodePcm16Stream(piper.stdout, rate, format, signal);
+
+      // A missing model or crashed piper shows up as an empty stream — report it so the registry falls back
+      const body = await firstChunkOrNull(pcm);
+      if (!body) {
+        if (!signal?.aborted) logger.error("Piper produced no audio", { model, exitCode: await piper.exited });
+        return null;
+      }
+      return { body, contentType: TTS_CONTENT_TYPES[format] };
+    },
+  };
+}
+
+export const piperTts = createPiperTts({ binary: PIPER_BINARY, models: PIPER_MODELS });
@@ -0,0 +1,97 @@
+/**
+ * Speech Provider Contract — text-to-speech and speech-to-text
+ *
+ * Every TTS / STT backend (ElevenLabs, OpenAI, Piper, Groq, whisper.cpp)
+ * implements one of these interfaces and declares what it can do, so
+ * registry.ts can route a request — "OGG for a Telegram voice note",
+ * "mulaw for a Twilio call", "local only" — to a provider that supports
+ * it, falling back down the channel's list when one fails.
+ *
+ * Local providers run on this machine: audio and text never leave it,
+ * which is what PHI-heavy conversations and offline use need.
+ */
+
+// ── Formats ──────────────────────────────────────────────────
+
+/**
+ * Output formats: mulaw 8kHz (Twilio), OGG/Opus (Telegram voice notes,
+ * dashboard), MP3 (dashboard fast path), raw PCM s16le 16kHz (avatar).
+ */
+export type TtsFormat = "mulaw" | "ogg" | "mp3" | "pcm16";
+
+/** Input formats: OGG/Opus (Telegram, dashboard mic) and WAV 16kHz (phone calls). */
+export type SttFormat = "ogg" | "wav";
+
+export const TTS_CONTENT_TYPES: Record<TtsFormat, string> = {
+  mulaw: "audio/basic",
+  ogg: "audio/ogg",
+  mp3: "audio/mpeg",
+  pcm16: "audio/pcm",
+};
+
+/** Audio streamed from a provider — piped to the client without buffering. */
+export interface TTSStream {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+}
+
+// ── Capabilities ─────────────────────────────────────────────
+
+export interface SpeechCapabilities {
+  /** Audio (TTS) or text (STT) arrives incrementally rather than all at the end. */
+  streaming: boolean;
+  /** Runs on this machine — nothing is sent to a third party. */
+  local: boolean;
+  /** ISO 639-1 codes, or ["*"] for multilingual models. */
+  languages: string[];
+}
+
+export interface TtsCapabilities extends SpeechCapabilities {
+  formats: TtsFormat[];
+  /** Voice ids this provider is set up with; the first is its default. */
+  voices: string[];
+}
+
+export interface SttCapabilities extends SpeechCapabilities {
+  formats: SttFormat[];
+}
+
+// ── Providers ────────────────────────────────────────────────
+
+export interface SynthesizeOptions {
+  format: TtsFormat;
+  /** One of capabilities.voices; the provider's default when omitted. */
+  voice?: string;
+  signal?: AbortSignal;
+}
+
+export interface TtsProvider {
+  id: string;
+  displayName: string;
+  capabilities: TtsCapabilities;
+  /** Credentials / binaries present — unconfigured providers are never routed to. */
+  isConfigured(): boolean;
+  /** Null (or a throw) means this provider failed; the registry tries the next one. */
+  synthesize(text: string, opts: SynthesizeOptions): Promise<TTSStream | null>;
+}
+
+export interface TranscribeOptions {
+  format: SttFormat;
+  signal?: AbortSignal;
+}
+
+export interface SttProvider {
+  id: string;
+  displayName: string;
+  capabilities: SttCapabilities;
+  isConfigured(): boolean;
+  /** Throws on failure; the registry tries the next provider. */
+  transcribe(audio: Buffer, opts: TranscribeOptions): Promise<string>;
+}
+
+/** Whether a provider's languages cover a requested ISO 639-1 code. Pure. */
+export function supportsLanguage(caps: SpeechCapabilities, language: string | undefined): boolean {
+  if (!language) return true;
+  const base = language.toLowerCase().split(/[-_]/)[0];
+  return caps.languages.includes("*") || caps.languages.includes(base);
+}
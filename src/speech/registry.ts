@@ -0,0 +1,294 @@
+/**
+ * Speech Provider Registry — TTS / STT providers and per-channel routing
+ *
+ * Providers register here (builtin.ts for the ones shipped with the
+ * relay). A request names the channel it is for and the audio format it
+ * needs; the registry picks providers in this order, skipping any that
+ * aren't configured or can't do the format, language or voice:
+ *
+ *   1. an explicit provider (e.g. the dashboard's provider picker)
+ *   2. the channel's route — TTS_ROUTES / STT_ROUTES
+ *   3. the default order — TTS_PROVIDER / VOICE_PROVIDER first, then the rest
+ *
+ * and falls through to the next when one fails. Routes are
+ * `channel=provider[:voice],provider;channel=...`, e.g.
+ *
+ *   TTS_ROUTES="telegram=openai,elevenlabs;voice=elevenlabs;avatar=piper"
+ *   STT_ROUTES="voice=whisper-cpp"
+ *
+ * SPEECH_LOCAL_ONLY=true (or a channel list) restricts routing to local
+ * providers, so audio and transcripts for those channels never leave the
+ * machine; a request can also ask for localOnly itself. When no local
+ * provider qualifies the request fails rather than leak.
+ *
+ * Deliberately free of provider imports, like channels/registry.ts.
+ */
+
+import { log } from "../logger.ts";
+import {
+  supportsLanguage,
+  type SttFormat,
+  type SttProvider,
+  type TtsFormat,
+  type TtsProvider,
+  type TTSStream,
+} from "./provider.ts";
+
+const logger = log.child("speech");
+
+// ── Providers ────────────────────────────────────────────────
+
+const ttsProviders = new Map<string, TtsProvider>();
+const sttProviders = new Map<string, SttProvider>();
+
+/** Register a TTS provider. Throws if another provider already has its id. */
+export function registerTtsProvider(provider: TtsProvider): void {
+  const existing = ttsProviders.get(provider.id);
+  if (existing && existing !== provider) throw new Error(`TTS provider already registered: ${provider.id}`);
+  ttsProviders.set(provider.id, provider);
+}
+
+/** Register an STT provider. Throws if another provider already has its id. */
+export function registerSttProvider(provider: SttProvider): void {
+  const existing = sttProviders.get(provider.id);
+  if (existing && existing !== provider) throw new Error(`STT provider already registered: ${provider.id}`);
+  sttProviders.set(provider.id, provider);
+}
+
+export function getTtsProvider(id: string): TtsProvider | null {
+  return ttsProviders.get(id) ?? null;
+}
+
+export function getSttProvider(id: string): SttProvider | null {
+  return sttProviders.get(id) ?? null;
+}
+
+/** All registered TTS providers, in registration order. */
+export function listTtsProviders(): TtsProvider[] {
+  return [...ttsProviders.values()];
+}
+
+/** All registered STT providers, in registration order. */
+export function listSttProviders(): SttProvider[] {
+  return [...sttProviders.values()];
+}
+
+// ── Routes ───────────────────────────────────────────────────
+
+export interface SpeechRouteEntry {
+  provider: string;
+  voice?: string;
+}
+
+export interface SpeechRoutes {
+  tts: Record<string, SpeechRouteEntry[]>;
+  stt: Record<string, SpeechRouteEntry[]>;
+  /** Providers tried first for channels without a route (or after it). */
+  defaultTts: string[];
+  defaultStt: string[];
+  /** Channels restricted to local providers, or "all". */
+  localOnly: string[] | "all";
+}
+
+/** Parse `channel=provider[:voice],provider;channel=...`. Malformed parts are skipped. Pure. */
+export function parseSpeechRoutes(spec: string): Record<string, SpeechRouteEntry[]> {
+  const routes: Record<string, SpeechRouteEntry[]> = {};
+  for (const part of spec.split(";")) {
+    const [channel, list] = part.split("=", 2).map(s => s?.trim());
+    if (!channel || !list) continue;
+    const entries = list.split(",").map(s => s.trim()).filter(Boolean).map(item => {
+      const at = item.indexOf(":");
+      return at > 0 ? { provider: item.slice(0, at), voice: item.slice(at + 1) } : { provider: item };
+    });
+    if (entries.length) routes[channel] = entries;
+  }
+  return routes;
+}
+
+/** Routes from the environment. Pure given env. */
+export function speechRoutesFromEnv(env: Record<string, string | undefined> = process.env): SpeechRoutes {
+  const ttsPreferred = env.TTS_PROVIDER || "elevenlabs";
+  const voicePreferred = env.VOICE_PROVIDER === "local" ? "whisper-cpp" : (env.VOICE_PROVIDER || "groq");
+  const localOnly = (env.SPEECH_LOCAL_ONLY || "").trim();
+  return {
+    tts: parseSpeechRoutes(env.TTS_ROUTES || ""),
+    stt: parseSpeechRoutes(env.STT_ROUTES || ""),
+    defaultTts: [ttsPreferred],
+    defaultStt: [voicePreferred],
+    localOnly: localOnly === "true" || localOnly === "all"
+      ? "all"
+      : localOnly.split(",").map(s => s.trim()).filter(s => s && s !== "false"),
+  };
+}
+
+let routes: SpeechRoutes | null = null;
+
+export function getSpeechRoutes(): SpeechRoutes {
+  routes ??= speechRoutesFromEnv();
+  return routes;
+}
+
+/** Replace the routes (tests, or a config reload). */
+export function setSpeechRoutes(next: SpeechRoutes): void {
+  routes = next;
+}
+
+// ── Routing ──────────────────────────────────────────────────
+
+export interface SpeechRequest {
+  /** Which surface the audio is for — "telegram", "voice", "avatar", "dashboard", ... */
+  channel?: string;
+  /** Try this provider first. */
+  provider?: string;
+  voice?: string;
+  /** ISO 639-1 code the provider must support. */
+  language?: string;
+  /** Only local providers, whatever the channel's setting. */
+  localOnly?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface RoutedProvider<P> {
+  provider: P;
+  voice?: string;
+}
+
+function isLocalOnly(req: SpeechRequest): boolean {
+  if (req.localOnly) return true;
+  const { localOnly } = getSpeechRoutes();
+  return localOnly === "all" || (!!req.channel && localOnly.includes(req.channel));
+}
+
+function route<P extends TtsProvider | SttProvider>(
+  providers: Map<string, P>,
+  channelRoutes: Record<string, SpeechRouteEntry[]>,
+  defaults: string[],
+  req: SpeechRequest,
+  accepts: (provider: P, voice: string | undefined) => boolean,
+): RoutedProvider<P>[] {
+  const entries: SpeechRouteEntry[] = [
+    ...(req.provider ? [{ provider: req.provider, voice: req.voice }] : []),
+    ...(req.channel ? channelRoutes[req.channel] ?? [] : []).map(e => ({ ...e, voice: req.voice ?? e.voice })),
+    ...[...defaults, ...providers.keys()].map(provider => ({ provider, voice: req.voice })),
+  ];
+  const localOnly = isLocalOnly(req);
+  const seen = new Set<string>();
+  const out: RoutedProvider<P>[] = [];
+  for (const entry of entries) {
+    if (seen.has(entry.provider)) continue;
+    const provider = providers.get(entry.provider);
+    if (!provider) continue;
+    seen.add(entry.provider);
+    if (!provider.isConfigured()) continue;
+    if (localOnly && !provider.capabilities.local) continue;
+    if (!supportsLanguage(provider.capabilities, req.language)) continue;
+    if (!accepts(provider, entry.voice)) continue;
+    out.push({ provider, voice: entry.voice });
+  }
+  return out;
+}
+
+/** TTS providers to try, in order, for a format and request. */
+export function resolveTtsProviders(format: TtsFormat, req: SpeechRequest = {}): RoutedProvider<TtsProvider>[] {
+  const r = getSpeechRoutes();
+  return route(ttsProviders, r.tts, r.defaultTts, req, (p, voice) =>
+    p.capabilities.formats.includes(format) && (!voice || p.capabilities.voices.includes(voice)));
+}
+
+/** STT providers to try, in order, for a format and request. */
+export function resolveSttProviders(format: SttFormat, req: SpeechRequest = {}): RoutedProvider<SttProvider>[] {
+  const r = getSpeechRoutes();
+  return route(sttProviders, r.stt, r.defaultStt, req, p => p.capabilities.formats.includes(format));
+}
+
+// ── Synthesis / transcription ────────────────────────────────
+
+/**
+ * Synthesize with the first routed provider that succeeds. Returns null
+ * when none is available or all failed (logged), or on abort.
+ */
+export async function synthesizeSpeech(
+  text: string,
+  format: TtsFormat,
+  req: SpeechRequest = {},
+): Promise<(TTSStream & { provider: string }) | null> {
+  const candidates = resolveTtsProviders(format, req);
+  if (!candidates.length) {
+    logger.error("No TTS provider available", { format, channel: req.channel, localOnly: isLocalOnly(req) });
+    return null;
+  }
+  for (const { provider, voice } of candidates) {
+    if (req.signal?.aborted) return null;
+    try {
+      const stream = await provider.synthesize(text, { format, voice, signal: req.signal });
+      if (stream) return { ...stream, provider: provider.id };
+      logger.warn(`${provider.displayName} TTS returned nothing — trying next`, { format });
+    } catch (err) {
+      if (req.signal?.aborted) return null;
+      logger.warn(`${provider.displayName} TTS failed — trying next`, {
+        format,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  logger.error("All TTS providers failed", { format, channel: req.channel });
+  return null;
+}
+
+/**
+ * Transcribe with the first routed provider that succeeds. Returns null
+ * when none is available or all failed (logged), or on abort.
+ */
+export async function transcribeSpeech(
+  audio: Buffer,
+  format: SttFormat,
+  req: SpeechRequest = {},
+): Promise<{ text: string; provider: string } | null> {
+  const candidates = resolveSttProviders(format, req);
+  if (!candidates.length) {
+    logger.error("No STT provider available", { format, channel: req.channel, localOnly: isLocalOnly(req) });
+    return null;
+  }
+  for (const { provider } of candidates) {
+    if (req.signal?.aborted) return null;
+    try {
+      const text = await provider.transcribe(audio, { format, signal: req.signal });
+      logger.info(`Transcribed via ${provider.id}`, { format });
+      return { text, provider: provider.id };
+    } catch (err) {
+      if (req.signal?.aborted) return null;
+      logger.warn(`${provider.displayName} STT failed — trying next`, {
+        format,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  logger.error("All STT providers failed", { format, channel: req.channel });
+  return null;
+}
+
+// ── Introspection ────────────────────────────────────────────
+
+/** Providers with their capabilities and configuration, plus the routes — for /api/tts/provider. */
+export function describeSpeechProviders() {
+  const describe = (p: TtsProvider | SttProvider) => ({
+    id: p.id,
+    name: p.displayName,
+    configured: p.isConfigured(),
+    capabilities: p.capabilities,
+  });
+  const r = getSpeechRoutes();
+  return {
+    tts: listTtsProviders().map(describe),
+    stt: listSttProviders().map(describe),
+    routes: { tts: r.tts, stt: r.stt },
+    localOnly: r.localOnly,
+  };
+}
+
+/** For tests: forget all providers and re-read routes from env on next use. */
+export function _resetSpeechProvidersForTesting(): void {
+  ttsProviders.clear();
+  sttProviders.clear();
+  routes = null;
+}
@@ -0,0 +1,80 @@
+/**
+ * Audio transcoding via ffmpeg — raw PCM into the TTS output formats.
+ *
+ * For providers whose native output doesn't match what a channel needs
+ * (OpenAI PCM → mulaw for Twilio, Piper PCM → anything). The stream
+ * variant pipes through ffmpeg so audio reaches the client while it is
+ * still being synthesized.
+ */
+
+import { spawn } from "bun";
+import type { TtsFormat } from "./provider.ts";
+
+const FFMPEG_OUTPUT: Record<TtsFormat, string[]> = {
+  mulaw: ["-f", "mulaw", "-ar", "8000", "-ac", "1"],
+  pcm16: ["-f", "s16le", "-ar", "16000", "-ac", "1"],
+  mp3: ["-f", "mp3", "-ar", "22050", "-ac", "1", "-b:a", "32k"],
+  ogg: ["-c:a", "libopus", "-b:a", "64k", "-f", "ogg"],
+};
+
+function ffmpegArgs(inputRate: number, format: TtsFormat): string[] {
+  return [
+    "ffmpeg", "-loglevel", "error",
+    "-f", "s16le", "-ar", String(inputRate), "-ac", "1", "-i", "pipe:0",
+    ...FFMPEG_OUTPUT[format], "pipe:1",
+  ];
+}
+
+/** Stream mono PCM s16le at inputRate through ffmpeg into format. Aborting kills ffmpeg. */
+export function transcodePcm16Stream(
+  source: ReadableStream<Uint8Array>,
+  inputRate: number,
+  format: TtsFormat,
+  signal?: AbortSignal,
+): ReadableStream<Uint8Array> {
+  const ffmpeg = spawn(ffmpegArgs(inputRate, format), { stdin: source, stdout: "pipe", stderr: "ignore" });
+  signal?.addEventListener("abort", () => ffmpeg.kill(), { once: true });
+  return ffmpeg.stdout;
+}
+
+/** Convert a whole mono PCM s16le buffer. Throws with ffmpeg's stderr on failure. */
+export async function transcodePcm16(pcm: Buffer, inputRate: number, format: TtsFormat): Promise<Buffer> {
+  const ffmpeg = spawn(ffmpegArgs(inputRate, format), { stdin: pcm, stdout: "pipe", stderr: "pipe" });
+  const out = Buffer.from(await new Response(ffmpeg.stdout).arrayBuffer());
+  const exit = await ffmpeg.exited;
+  if (exit !== 0) {
+    const stderr = await new Response(ffmpeg.stderr).text();
+    throw new Error(`ffmpeg failed (code ${exit}): ${stderr.slice(0, 200)}`);
+  }
+  return out;
+}
+
+/**
+ * Wait for a stream's first chunk: null if it ends without any (the
+ * producing process died), otherwise an equivalent stream. Lets a
+ * provider report failure while the registry can still fall back.
+ */
+export async function firstChunkOrNull(body: ReadableStream<Uint8Array>): Promise<ReadableStream<Uint8Array> | null> {
+  const reader = body.getReader();
+  const first = await reader.read();
+  if (first.done || !first.value?.length) {
+    reader.releaseLock();
+    return null;
+  }
+  let pending: Uint8Array | null = first.value;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (pending) {
+        controller.enqueue(pending);
+        pending = null;
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * whisper.cpp STT — local transcription, nothing leaves the machine.
+ *
+ * Config:
+ *   WHISPER_BINARY      whisper.cpp executable (default "whisper-cpp")
+ *   WHISPER_MODEL_PATH  ggml model; "*.en.bin" models are English-only
+ *
+ * OGG input is converted to WAV 16kHz via ffmpeg first.
+ */
+
+import { spawn } from "bun";
+import { writeFile, readFile, unlink } from "fs/promises";
+import { basename, join } from "path";
+import type { SttProvider } from "./provider.ts";
+
+export const WHISPER_BINARY = process.env.WHISPER_BINARY || "whisper-cpp";
+export const WHISPER_MODEL_PATH = process.env.WHISPER_MODEL_PATH || "";
+const TMP_DIR = process.env.TMPDIR || "/tmp";
+
+async function oggToWav(oggPath: string, wavPath: string): Promise<void> {
+  const ffmpeg = spawn(
+    ["ffmpeg", "-i", oggPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath, "-y"],
+    { stdout: "pipe", stderr: "pipe" },
+  );
+  const ffmpegExit = await ffmpeg.exited;
+  if (ffmpegExit !== 0) {
+    const stderr = await new Response(ffmpeg.stderr).text();
+    throw new Error(`ffmpeg failed (code ${ffmpegExit}): ${stderr.slice(0, 200)}`);
+  }
+}
+
+export const whisperCppStt: SttProvider = {
+  id: "whisper-cpp",
+  displayName: "whisper.cpp (local)",
+  capabilities: {
+    streaming: false,
+    local: true,
+    languages: /\.en\.bin$/.test(basename(WHISPER_MODEL_PATH)) ? ["en"] : ["*"],
+    formats: ["ogg", "wav"],
+  },
+
+  isConfigured: () => !!WHISPER_MODEL_PATH,
+
+  async transcribe(audio, { format, signal }) {
+    const ts = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const oggPath = join(TMP_DIR, `voice_${ts}.ogg`);
+    const wavPath = join(TMP_DIR, `voice_${ts}.wav`);
+    const txtPath = join(TMP_DIR, `voice_${ts}.txt`);
+
+    try {
+      if (format === "ogg") {
+        await writeFile(oggPath, audio);
+        await oggToWav(oggPath, wavPath);
+      } else {
+        await writeFile(wavPath, audio);
+      }
+
+      const whisper = spawn(
+        [WHISPER_BINARY, "--model", WHISPER_MODEL_PATH, "--file", wavPath,
+         "--output-txt", "--output-file", join(TMP_DIR, `voice_${ts}`), "--no-prints"],
+        { stdout: "pipe", stderr: "pipe" },
+      );
+      signal?.addEventListener("abort", () => whisper.kill(), { once: true });
+      const whisperExit = await whisper.exited;
+      if (whisperExit !== 0) {
+        const stderr = await new Response(whisper.stderr).text();
+        throw new Error(`whisper-cpp failed (code ${whisperExit}): ${stderr.slice(0, 200)}`);
+      }
+
+      return (await readFile(txtPath, "utf-8")).trim();
+    } finally {
+      await unlink(oggPath).catch(() => {});
+      await unlink(wavPath).catch(() => {});
+      await unlink(txtPath).catch(() => {});
+    }
+  },
+};
@@ -2,9 +2,14 @@
  * Per-Step Model Routing — ELLIE-1080
  * Route different models per workflow step.
  * Classification → Haiku, Implementation → Opus, Review → Sonnet.
+ *
+ * A rule may also name a provider from the LLM registry (llm-provider.ts),
+ * either as `provider` or as a "provider:model" model string, e.g.
+ * `{ match: "summarize*", model: "local:qwen2.5" }`.
  */
 
 import { log } from "./logger.ts";
+import type { ChainEntry } from "./llm-provider.ts";
 
 const logger = log.child("step-model-router");
 
@@ -13,9 +18,16 @@ export interface ModelStylesheet {
   default: string;
 }
 
+export interface ResolvedStepModel {
+  model: string;
+  provider?: string;
+  reasoning_effort?: string;
+}
+
 export interface ModelRule {
   match: string;  // Step ID pattern (supports * wildcard)
   model: string;
+  provider?: string;  // LLM registry provider name; unset = the use case's chain decides
   reasoning_effort?: "low" | "medium" | "high";
 }
 
@@ -42,21 +54,42 @@ export function resolveStepModel(
   stepId: string,
   stepModel?: string,  // Explicit model override in step definition
   stylesheet?: ModelStylesheet
-): { model: string; reasoning_effort?: string } {
+): ResolvedStepModel {
   // Explicit step-level override takes priority
   if (stepModel) {
-    return { model: stepModel };
+    return splitProvider(stepModel);
   }
 
   const ss = stylesheet ?? DEFAULT_STYLESHEET;
 
   for (const rule of ss.rules) {
     if (matchPattern(rule.match, stepId)) {
-      return { model: rule.model, reasoning_effort: rule.reasoning_effort };
+      const { model, provider } = splitProvider(rule.model, rule.provider);
+      return { model, ...(provider ? { provider } : {}), reasoning_effort: rule.reasoning_effort };
     }
   }
 
-  return { model: ss.default };
+  return splitProvider(ss.default);
+}
+
+/**
+ * The registry entry to prefer for a resolved step model, for
+ * `chat(useCase, request, { prefer })`. Null when no provider is named —
+ * Claude aliases like "haiku" go through the Claude CLI, not the registry.
+ */
+export function preferredChainEntry(resolved: ResolvedStepModel): ChainEntry | null {
+  return resolved.provider ? { provider: resolved.provider, model: resolved.model } : null;
+}
+
+/**
+ * "local:qwen2.5" → { provider: "local", model: "qwen2.5" }. With an explicit
+ * provider the model is taken whole, since Ollama tags contain colons too.
+ */
+function splitProvider(model: string, provider?: string): { model: string; provider?: string } {
+  if (provider) return { model, provider };
+  const i = model.indexOf(":");
+  if (i > 0) return { provider: model.slice(0, i), model: model.slice(i + 1) };
+  return { model };
 }
 
 /**
@@ -82,6 +115,7 @@ export function parseStylesheet(config: Record<string, unknown>): ModelStyleshee
       rules.push({
         match: (rule.match as string) || "*",
         model: (rule.model as string) || defaultModel,
+        ...(rule.provider ? { provider: rule.provider as string } : {}),
         reasoning_effort: rule.reasoning_effort as ModelRule["reasoning_effort"],
       });
     }
@@ -22,6 +22,8 @@ import {
   STEP_TIMEOUT_HEAVY_MS,
 } from "./orchestrator-types.ts";
 import { calculateStepCost } from "./orchestrator-costs.ts";
+import { resolveStepModel, preferredChainEntry } from "./step-model-router.ts";
+import { chat } from "./llm-provider.ts";
 
 const logger = log.child("orchestrator");
 
@@ -268,9 +270,13 @@ export async function executeStep(
     throw new PipelineStepError(stepIndex, step, "dispatch_failed", previousOutput);
   }
 
-  // 2. Determine light vs heavy
+  // 2. Determine light vs heavy (ELLIE-1080: a stylesheet provider runs the step directly)
+  const stepModel = options.modelStylesheet
+    ? resolveStepModel(step.skill_name || step.agent_name, undefined, options.modelStylesheet)
+    : null;
+  const prefer = stepModel ? preferredChainEntry(stepModel) : null;
   const skillComplexity = await getSkillComplexity(options.supabase, step.skill_name);
-  const isLight = skillComplexity === "light" && options.anthropicClient;
+  const isLight = !!prefer || (skillComplexity === "light" && !!options.anthropicClient);
 
   // 3. Build prompt
   const stepPrompt = buildStepPrompt(
@@ -287,8 +293,22 @@ export async function executeStep(
   let rawOutput: string;
   let inputTokens = 0;
   let outputTokens = 0;
-
-  if (isLight) {
+  let modelId = isLight ? "claude-haiku-4-5-20251001" : (dispatch.agent.model || stepModel?.model || "claude-sonnet-4-5-20250929");
+
+  if (prefer) {
+    const response = await withStepTimeout(
+      chat("coordinator", {
+        system: dispatch.agent.system_prompt || undefined,
+        messages: [{ role: "user", content: stepPrompt }],
+      }, { prefer }),
+      stepTimeoutMs,
+      timeoutError,
+    );
+    rawOutput = response.text;
+    modelId = response.model;
+    inputTokens = response.usage?.input_tokens ?? estimateTokens(stepPrompt);
+    outputTokens = response.usage?.output_tokens ?? estimateTokens(rawOutput);
+  } else if (isLight) {
     const result = await withStepTimeout(
       callLightSkill(stepPrompt, options, {
         systemPrompt: dispatch.agent.system_prompt || undefined,
@@ -306,7 +326,7 @@ export async function executeStep(
         allowedTools: dispatch.agent.tools_enabled?.length
           ? dispatch.agent.tools_enabled
           : undefined,
-        model: dispatch.agent.model || undefined,
+        model: dispatch.agent.model || stepModel?.model || undefined,
         runId: options.runId,
       }),
       stepTimeoutMs,
@@ -326,7 +346,6 @@ export async function executeStep(
   }
 
   // 6. Calculate cost
-  const modelId = isLight ? "claude-haiku-4-5-20251001" : (dispatch.agent.model || "claude-sonnet-4-5-20250929");
   const cost = await calculateStepCost(options.supabase, modelId, inputTokens, outputTokens);
 
   // 7. Build result
@@ -1,15 +1,33 @@
 /**
  * Simple Claude CLI helper for conversation summaries and memory extraction.
  * Extracted from conversations.ts for testability (ELLIE-506).
+ *
+ * When the CLI fails the prompt goes down the "summaries" chain of the LLM
+ * registry without Anthropic (local endpoint, then OpenAI).
  */
 
 import { spawn } from "bun";
 import { log } from "./logger.ts";
+import { completeWithoutAnthropic } from "./llm-provider.ts";
 
 const logger = log.child("summary-cli");
 const CLAUDE_PATH = process.env.CLAUDE_PATH || "claude";
 
 export async function callClaudeCLI(prompt: string): Promise<string> {
+  try {
+    return await runClaudeCLI(prompt);
+  } catch (err) {
+    try {
+      const text = await completeWithoutAnthropic("summaries", prompt);
+      logger.warn("Claude CLI failed — answered by a fallback provider", { error: err instanceof Error ? err.message : String(err) });
+      return text.trim();
+    } catch {
+      throw err;
+    }
+  }
+}
+
+async function runClaudeCLI(prompt: string): Promise<string> {
   const args = [CLAUDE_PATH, "-p", "--output-format", "text"];
 
   const proc = spawn(args, {
@@ -0,0 +1,283 @@
+/**
+ * Terminal Recorder — asciicast v2 recordings of web terminal sessions
+ *
+ * Every web terminal (web-terminal.ts) is recorded as an asciicast v2 file
+ * (https://docs.asciinema.org/manual/asciicast/v2/) that the dashboard
+ * replays with asciinema-player: a JSON header line, then one
+ * `[seconds, code, data]` event per line — "o" output, "r" resize
+ * ("COLSxROWS"), "m" marker. Keystrokes are not recorded; whatever the
+ * terminal echoes is, so passwords typed at a no-echo prompt stay out.
+ *
+ * Next to each <id>.cast sits <id>.json with what the API lists: who
+ * started the session, the work item or dispatch it belongs to, and how it
+ * ended. Recordings older than TERMINAL_RECORDING_RETENTION_DAYS (default
+ * 30) are pruned by the periodic tasks.
+ */
+
+import { createWriteStream, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync, type WriteStream } from "node:fs";
+import { join } from "node:path";
+import { log } from "./logger.ts";
+
+const logger = log.child("terminal-recorder");
+
+const DEFAULT_DIR = join(import.meta.dir, "../data/terminal-recordings");
+const DEFAULT_RETENTION_DAYS = 30;
+/** Output kept in memory per live recording to bring late viewers up to date. */
+const REPLAY_BUFFER_BYTES = 1024 * 1024;
+const ID_RE = /^[a-z0-9-]{1,64}$/;
+
+let recordingsDir = process.env.TERMINAL_RECORDINGS_DIR || DEFAULT_DIR;
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix seconds. */
+  timestamp: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+export type CastEventCode = "o" | "i" | "r" | "m";
+export type CastEvent = [number, CastEventCode, string];
+
+export interface RecordingLinks {
+  workItemId?: string | null;
+  /** Orchestration ledger run_id of the dispatch. */
+  dispatchId?: string | null;
+}
+
+export interface RecordingMeta {
+  id: string;
+  title: string | null;
+  /** Agent name, or "dashboard" for a person at the dashboard. */
+  startedBy: string;
+  workItemId: string | null;
+  dispatchId: string | null;
+  cols: number;
+  rows: number;
+  startedAt: string;
+  endedAt: string | null;
+  durationSec: number | null;
+  exitCode: number | null;
+  endReason: string | null;
+  bytes: number;
+}
+
+export interface StartRecordingOpts extends RecordingLinks {
+  id: string;
+  cols: number;
+  rows: number;
+  title?: string;
+  startedBy?: string;
+  shell?: string;
+}
+
+// ── Format ───────────────────────────────────────────────────
+
+/** Header line of a cast file. Pure function. */
+export function castHeader(header: CastHeader): string {
+  return JSON.stringify(header);
+}
+
+/** One event line; time is rounded to microseconds. Pure function. */
+export function castEvent(seconds: number, code: CastEventCode, data: string): string {
+  return JSON.stringify([Math.round(seconds * 1e6) / 1e6, code, data]);
+}
+
+/**
+ * Parse a cast file. Throws on a missing or non-v2 header; skips blank
+ * lines. Pure function.
+ */
+export function parseCast(text: string): { header: CastHeader; events: CastEvent[] } {
+  const lines = text.split("\n").filter(l => l.trim());
+  const header = JSON.parse(lines[0] ?? "null") as CastHeader | null;
+  if (!header || header.version !== 2) throw new Error("Not an asciicast v2 recording");
+  return { header, events: lines.slice(1).map(l => JSON.parse(l) as CastEvent) };
+}
+
+// ── Storage ──────────────────────────────────────────────────
+
+export function isRecordingId(id: string): boolean {
+  return ID_RE.test(id);
+}
+
+function castPath(id: string): string {
+  return join(recordingsDir, `${id}.cast`);
+}
+
+function metaPath(id: string): string {
+  return join(recordingsDir, `${id}.json`);
+}
+
+function writeMeta(meta: RecordingMeta): void {
+  writeFileSync(metaPath(meta.id), JSON.stringify(meta, null, 2));
+}
+
+export function getRecording(id: string): RecordingMeta | null {
+  if (!isRecordingId(id) || !existsSync(metaPath(id))) return null;
+  return JSON.parse(readFileSync(metaPath(id), "utf8")) as RecordingMeta;
+}
+
+/** Absolute path of a recording's cast file, or null. */
+export function getRecordingCastPath(id: string): string | null {
+  return isRecordingId(id) && existsSync(castPath(id)) ? castPath(id) : null;
+}
+
+/** Recordings, newest first, optionally for one work item or dispatch. */
+export function listRecordings(filter: RecordingLinks & { limit?: number } = {}): RecordingMeta[] {
+  if (!existsSync(recordingsDir)) return [];
+  const all: RecordingMeta[] = [];
+  for (const file of readdirSync(recordingsDir)) {
+    if (!file.endsWith(".json")) continue;
+    const meta = getRecording(file.slice(0, -".json".length));
+    if (!meta) continue;
+    if (filter.workItemId && meta.workItemId !== filter.workItemId) continue;
+    if (filter.dispatchId && meta.dispatchId !== filter.dispatchId) continue;
+    all.push(meta);
+  }
+  all.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  return filter.limit ? all.slice(0, filter.limit) : all;
+}
+
+/** Attach a recording to a work item and/or dispatch. Returns null if unknown. */
+export function linkRecording(id: string, links: RecordingLinks): RecordingMeta | null {
+  const meta = getRecording(id);
+  if (!meta) return null;
+  if (links.workItemId !== undefined) meta.workItemId = links.workItemId;
+  if (links.dispatchId !== undefined) meta.dispatchId = links.dispatchId;
+  const live = active.get(id);
+  if (live) Object.assign(live.meta, { workItemId: meta.workItemId, dispatchId: meta.dispatchId });
+  writeMeta(meta);
+  return meta;
+}
+
+/** Delete finished recordings that ended more than maxAgeDays ago. Returns how many. */
+export function pruneRecordings(maxAgeDays = Number(process.env.TERMINAL_RECORDING_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS, now = Date.now()): number {
+  let removed = 0;
+  for (const meta of listRecordings()) {
+    if (active.has(meta.id)) continue;
+    const ended = meta.endedAt ? Date.parse(meta.endedAt) : statSync(metaPath(meta.id)).mtimeMs;
+    if (now - ended <= maxAgeDays * 24 * 60 * 60_000) continue;
+    rmSync(castPath(meta.id), { force: true });
+    rmSync(metaPath(meta.id), { force: true });
+    removed++;
+  }
+  if (removed > 0) logger.info(`Pruned ${removed} terminal recording(s)`);
+  return removed;
+}
+
+// ── Recording ────────────────────────────────────────────────
+
+export interface TerminalRecording {
+  readonly meta: RecordingMeta;
+  output(data: string): void;
+  resize(cols: number, rows: number): void;
+  marker(label: string): void;
+  /** Output so far (the most recent 1MB), for a viewer joining late. */
+  replay(): string;
+  /** Finish the recording; further events are ignored. */
+  close(end: { exitCode?: number | null; reason: string }): Promise<void>;
+}
+
+const active = new Map<string, TerminalRecording>();
+
+/** Start recording a terminal. Throws if the recordings directory is unwritable. */
+export function startRecording(opts: StartRecordingOpts, now = Date.now): TerminalRecording {
+  if (!isRecordingId(opts.id)) throw new Error(`Invalid recording id: ${opts.id}`);
+  mkdirSync(recordingsDir, { recursive: true });
+
+  const startedAt = now();
+  const meta: RecordingMeta = {
+    id: opts.id,
+    title: opts.title ?? null,
+    startedBy: opts.startedBy ?? "dashboard",
+    workItemId: opts.workItemId ?? null,
+    dispatchId: opts.dispatchId ?? null,
+    cols: opts.cols,
+    rows: opts.rows,
+    startedAt: new Date(startedAt).toISOString(),
+    endedAt: null,
+    durationSec: null,
+    exitCode: null,
+    endReason: null,
+    bytes: 0,
+  };
+  writeMeta(meta);
+
+  const stream: WriteStream = createWriteStream(castPath(opts.id), { flags: "w" });
+  stream.on("error", err => logger.warn(`Recording ${opts.id} write failed`, err));
+  stream.write(castHeader({
+    version: 2,
+    width: opts.cols,
+    height: opts.rows,
+    timestamp: Math.floor(startedAt / 1000),
+    ...(opts.title ? { title: opts.title } : {}),
+    env: { SHELL: opts.shell ?? "/bin/bash", TERM: "xterm-256color" },
+  }) + "\n");
+
+  let closed = false;
+  let buffer = "";
+  const event = (code: CastEventCode, data: string) => {
+    if (closed) return;
+    stream.write(castEvent((now() - startedAt) / 1000, code, data) + "\n");
+  };
+
+  const recording: TerminalRecording = {
+    meta,
+    output(data) {
+      if (closed) return;
+      event("o", data);
+      meta.bytes += Buffer.byteLength(data);
+      buffer += data;
+      if (buffer.length > REPLAY_BUFFER_BYTES) buffer = buffer.slice(buffer.length - REPLAY_BUFFER_BYTES);
+    },
+    resize(cols, rows) {
+      event("r", `${cols}x${rows}`);
+    },
+    marker(label) {
+      event("m", label);
+    },
+    replay() {
+      return buffer;
+    },
+    close(end) {
+      if (closed) return Promise.resolve();
+      closed = true;
+      active.delete(meta.id);
+      const endedAt = now();
+      Object.assign(meta, {
+        endedAt: new Date(endedAt).toISOString(),
+        durationSec: Math.round((endedAt - startedAt) / 10) / 100,
+        exitCode: end.exitCode ?? null,
+        endReason: end.reason,
+      });
+      buffer = "";
+      return new Promise<void>(resolve => {
+        stream.end(() => {
+          try {
+            writeMeta(meta);
+          } catch (err) {
+            logger.warn(`Recording ${meta.id} metadata write failed`, err);
+          }
+          resolve();
+        });
+      });
+    },
+  };
+  active.set(meta.id, recording);
+  return recording;
+}
+
+/** The live recording of a running terminal. */
+export function getActiveRecording(id: string): TerminalRecording | null {
+  return active.get(id) ?? null;
+}
+
+/** For tests: record into another directory (null restores the default). */
+export function _setRecordingsDirForTesting(dir: string | null): void {
+  recordingsDir = dir ?? (process.env.TERMINAL_RECORDINGS_DIR || DEFAULT_DIR);
+  active.clear();
+}
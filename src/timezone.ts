@@ -116,3 +116,57 @@ export function formatRelativeDateTime(
 
   return `${formatDateShort(d, tz)} at ${timeStr}`;
 }
+
+/** Wall-clock fields of an instant in a timezone (month 1-12, weekday 0=Sun, hour 0-23). */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Break an instant into wall-clock fields in `tz`.
+ * Throws RangeError for an unknown timezone.
+ */
+export function getZonedParts(date: Date | string | number, tz: string = USER_TIMEZONE): ZonedParts {
+  let fmt = zonedFormatters.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    zonedFormatters.set(tz, fmt);
+  }
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(new Date(date))) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/** True if `tz` is an IANA timezone name the runtime knows. */
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    getZonedParts(0, tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -7,11 +7,14 @@
  *
  * Auto-approved tools (read-only, safe) bypass the frontend entirely.
  * Session-remembered approvals also bypass on subsequent calls.
+ * Pending approvals are also posted as interactive prompts, so they can
+ * be answered from Slack / Discord / Google Chat buttons.
  */
 
 import { randomUUID } from "crypto";
 import type { IncomingMessage, ServerResponse } from "http";
 import { log } from "./logger.ts";
+import { closePrompt, openPrompt, type PromptOption } from "./interactive-prompts.ts";
 
 const logger = log.child("tool-approval");
 
@@ -21,8 +24,15 @@ export interface ToolApprovalRequest {
   tool_name: string;
   tool_input: Record<string, unknown>;
   session_id?: string;
+  /** Agent running the tool; the policy guard assumes "general" when unset. */
+  agent?: string;
+  work_item_id?: string;
+  channel?: string;
 }
 
+/** Verdict of the RBAC / attribute policy guard for a tool call. */
+export type ToolPolicyGuard = (req: ToolApprovalRequest) => Promise<{ allowed: boolean; reason?: string }>;
+
 interface PendingToolApproval {
   id: string;
   tool_name: string;
@@ -202,6 +212,12 @@ const pendingApprovals = new Map<string, PendingToolApproval>();
 const APPROVAL_TIMEOUT_MS = 60_000; // 60 seconds
 const DISPATCH_APPROVAL_TIMEOUT_MS = 5 * 60_000; // 5 minutes for re-requests during dispatches
 
+const PROMPT_OPTIONS: PromptOption[] = [
+  { id: "approve", label: "Approve" },
+  { id: "remember", label: "Approve & remember" },
+  { id: "deny", label: "Deny" },
+];
+
 // ── WebSocket broadcaster (set by relay.ts at startup) ───────
 
 let _broadcastToEllieChat: (msg: Record<string, unknown>) => void = () => {};
@@ -210,11 +226,34 @@ export function setBroadcastToEllieChat(fn: typeof _broadcastToEllieChat): void
   _broadcastToEllieChat = fn;
 }
 
+// ── Policy guard (set by relay.ts at startup) ────────────────
+
+let _toolPolicyGuard: ToolPolicyGuard | null = null;
+export function setToolPolicyGuard(fn: ToolPolicyGuard | null): void {
+  _toolPolicyGuard = fn;
+}
+
 // ── Core approval logic ──────────────────────────────────────
 
 export async function checkToolApproval(req: ToolApprovalRequest): Promise<{ approved: boolean; reason?: string }> {
   const { tool_name, tool_input } = req;
 
+  // Policy denials win over auto-approval and remembered approvals;
+  // a guard failure denies (security checks fail closed)
+  if (_toolPolicyGuard) {
+    let verdict: { allowed: boolean; reason?: string };
+    try {
+      verdict = await _toolPolicyGuard(req);
+    } catch (err) {
+      logger.error("Policy guard failed, denying tool", err);
+      verdict = { allowed: false, reason: "Permission check failed" };
+    }
+    if (!verdict.allowed) {
+      logger.warn("Tool denied by policy", { tool: tool_name, agent: req.agent ?? "general", reason: verdict.reason });
+      return { approved: false, reason: verdict.reason ?? "Denied by access policy" };
+    }
+  }
+
   // Broadcast tool_call_start for ALL tool calls (ELLIE-985)
   const callId = randomUUID();
   const shortDescription = formatToolDescription(tool_name, tool_input);
@@ -286,6 +325,16 @@ export async function checkToolApproval(req: ToolApprovalRequest): Promise<{ app
     // Fix 3: Use longer timeout (5min) during active dispatches
     const timeoutMs = _activeDispatches > 0 ? DISPATCH_APPROVAL_TIMEOUT_MS : APPROVAL_TIMEOUT_MS;
     const timeoutLabel = _activeDispatches > 0 ? "5min" : "60s";
+
+    // Same approval as chat buttons; the prompt expires with this timeout
+    openPrompt({
+      kind: "tool_approval",
+      itemId: id,
+      question: description,
+      options: PROMPT_OPTIONS,
+      expiresAt: Date.now() + timeoutMs,
+      onAnswer: optionId => { resolveToolApproval(id, optionId !== "deny", optionId === "remember"); },
+    });
     setTimeout(() => {
       if (pendingApprovals.has(id)) {
         pendingApprovals.delete(id);
@@ -313,6 +362,7 @@ export function resolveToolApproval(id: string, approved: boolean, remember?: bo
   if (!pending) return false;
 
   pendingApprovals.delete(id);
+  void closePrompt("tool_approval", id, approved ? "✅ Approved" : "❌ Denied");
 
   if (approved && remember) {
     sessionApprovals.set(pending.tool_name, Date.now());
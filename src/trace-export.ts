@@ -0,0 +1,244 @@
+/**
+ * Trace Export — OTLP/JSON span export and waterfall layout
+ *
+ * Finished spans from trace.ts are batched and shipped as OTLP/JSON
+ * ExportTraceServiceRequest payloads to either (or both):
+ *   - TRACE_EXPORT_FILE — one JSON payload per line, appended
+ *   - OTEL_EXPORTER_OTLP_ENDPOINT — an OTLP/HTTP collector (POST {endpoint}/v1/traces)
+ * With neither set, spans still land in trace.ts's in-memory store and
+ * the /api/traces routes keep working.
+ *
+ * Relay trace IDs are 16 hex chars; OTLP wants 32, so they are
+ * left-padded with zeros on export.
+ */
+
+import { appendFile } from "fs/promises";
+import { log } from "./logger.ts";
+import { onSpanEnd, getTraceSpans, type SpanRecord, type SpanAttributeValue } from "./trace.ts";
+
+const logger = log.child("trace-export");
+
+export const SERVICE_NAME = "ellie-relay";
+const FLUSH_INTERVAL_MS = 5_000;
+const MAX_BATCH = 200;
+/** Spans held while the exporter is failing — beyond this the oldest are dropped. */
+const MAX_BUFFERED = 5_000;
+
+// ── OTLP/JSON encoding ───────────────────────────────────────
+
+const OTLP_KIND = { internal: 1, server: 2, client: 3 } as const;
+const OTLP_STATUS = { unset: 0, ok: 1, error: 2 } as const;
+
+type OtlpAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+function otlpValue(value: SpanAttributeValue): OtlpAnyValue {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+function otlpAttributes(attrs: Record<string, SpanAttributeValue>) {
+  return Object.entries(attrs).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+function unixNano(ms: number): string {
+  return (BigInt(ms) * 1_000_000n).toString();
+}
+
+/** Encode spans as an OTLP/JSON ExportTraceServiceRequest. */
+export function toOtlpJson(spans: SpanRecord[], serviceName = SERVICE_NAME) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+      scopeSpans: [{
+        scope: { name: serviceName },
+        spans: spans.map(s => ({
+          traceId: s.traceId.padStart(32, "0"),
+          spanId: s.spanId,
+          ...(s.parentSpanId ? { parentSpanId: s.parentSpanId } : {}),
+          name: s.name,
+          kind: OTLP_KIND[s.kind],
+          startTimeUnixNano: unixNano(s.startTime),
+          endTimeUnixNano: unixNano(s.endTime ?? s.startTime),
+          attributes: otlpAttributes(s.attributes),
+          status: {
+            code: OTLP_STATUS[s.status],
+            ...(s.statusMessage ? { message: s.statusMessage } : {}),
+          },
+        })),
+      }],
+    }],
+  };
+}
+
+// ── Exporter ─────────────────────────────────────────────────
+
+export interface TraceExportOptions {
+  /** File to append OTLP/JSON lines to. */
+  file?: string;
+  /** OTLP/HTTP base URL, e.g. http://localhost:4318 */
+  endpoint?: string;
+  serviceName?: string;
+}
+
+type Destination = "file" | "endpoint";
+
+/**
+ * Spans waiting for each configured destination. Each keeps its own
+ * queue so a failing collector is retried without re-appending to the
+ * file, and vice versa.
+ */
+let pending: Partial<Record<Destination, SpanRecord[]>> = {};
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let unsubscribe: (() => void) | null = null;
+let activeOpts: TraceExportOptions = {};
+
+/**
+ * Start exporting finished spans. Options default to TRACE_EXPORT_FILE
+ * and OTEL_EXPORTER_OTLP_ENDPOINT. Returns false (and does nothing)
+ * when no destination is configured.
+ */
+export function initTraceExport(opts: TraceExportOptions = {}): boolean {
+  const file = opts.file ?? process.env.TRACE_EXPORT_FILE;
+  const endpoint = opts.endpoint ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (!file && !endpoint) return false;
+
+  stopTraceExport();
+  activeOpts = { file, endpoint, serviceName: opts.serviceName ?? SERVICE_NAME };
+  if (file) pending.file = [];
+  if (endpoint) pending.endpoint = [];
+  unsubscribe = onSpanEnd((span) => {
+    let full = false;
+    for (const queue of Object.values(pending)) {
+      queue.push(span);
+      if (queue.length > MAX_BUFFERED) queue.splice(0, queue.length - MAX_BUFFERED);
+      if (queue.length >= MAX_BATCH) full = true;
+    }
+    if (full) flushSpans().catch(() => {});
+  });
+  flushTimer = setInterval(() => { flushSpans().catch(() => {}); }, FLUSH_INTERVAL_MS);
+  flushTimer.unref?.();
+
+  logger.info("Trace export enabled", { file: file || undefined, endpoint: endpoint || undefined });
+  return true;
+}
+
+async function sendTo(dest: Destination, body: string): Promise<void> {
+  if (dest === "file") {
+    await appendFile(activeOpts.file!, body + "\n");
+    return;
+  }
+  const res = await fetch(`${activeOpts.endpoint!.replace(/\/$/, "")}/v1/traces`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!res.ok) throw new Error(`collector returned ${res.status}`);
+}
+
+async function flushDestination(dest: Destination): Promise<number> {
+  const queue = pending[dest];
+  if (!queue || queue.length === 0) return 0;
+  const batch = queue.splice(0, MAX_BATCH);
+
+  try {
+    await sendTo(dest, JSON.stringify(toOtlpJson(batch, activeOpts.serviceName)));
+    return batch.length;
+  } catch (err) {
+    queue.unshift(...batch);
+    if (queue.length > MAX_BUFFERED) queue.splice(0, queue.length - MAX_BUFFERED);
+    logger.warn("Span export failed (will retry)", { destination: dest, spans: batch.length, error: err instanceof Error ? err.message : String(err) });
+    return 0;
+  }
+}
+
+/**
+ * Ship buffered spans now, one batch per destination. A failed batch
+ * goes back on that destination's queue only. Resolves to the most
+ * spans any destination accepted.
+ */
+export async function flushSpans(): Promise<number> {
+  const shipped = await Promise.all((Object.keys(pending) as Destination[]).map(flushDestination));
+  return Math.max(0, ...shipped);
+}
+
+/** Stop exporting. Buffered spans are flushed first. */
+export async function shutdownTraceExport(): Promise<void> {
+  await flushSpans().catch(() => {});
+  stopTraceExport();
+}
+
+function stopTraceExport(): void {
+  if (flushTimer) clearInterval(flushTimer);
+  flushTimer = null;
+  unsubscribe?.();
+  unsubscribe = null;
+  pending = {};
+}
+
+// ── Waterfall ────────────────────────────────────────────────
+
+export interface WaterfallRow {
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  depth: number;
+  /** ms from trace start. */
+  offsetMs: number;
+  /** null while the span is still open. */
+  durationMs: number | null;
+  status: SpanRecord["status"];
+  statusMessage?: string;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+export interface Waterfall {
+  traceId: string;
+  startTime: number;
+  /** Wall time from first span start to last span end (or now, if open). */
+  durationMs: number;
+  rows: WaterfallRow[];
+}
+
+/**
+ * Lay out a trace's spans depth-first, children under their parent in
+ * start order. Spans whose parent was not recorded are shown as roots.
+ * Returns null for an unknown trace.
+ */
+export function buildWaterfall(traceId: string, now = Date.now()): Waterfall | null {
+  const spans = getTraceSpans(traceId);
+  if (spans.length === 0) return null;
+
+  const ids = new Set(spans.map(s => s.spanId));
+  const children = new Map<string | null, SpanRecord[]>();
+  for (const span of spans) {
+    const key = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : null;
+    const list = children.get(key) ?? [];
+    list.push(span);
+    children.set(key, list);
+  }
+
+  const start = spans[0].startTime;
+  const rows: WaterfallRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const span of children.get(parentId) ?? []) {
+      rows.push({
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        depth,
+        offsetMs: span.startTime - start,
+        durationMs: span.endTime === null ? null : span.endTime - span.startTime,
+        status: span.status,
+        ...(span.statusMessage ? { statusMessage: span.statusMessage } : {}),
+        attributes: span.attributes,
+      });
+      visit(span.spanId, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  const end = Math.max(...spans.map(s => s.endTime ?? now));
+  return { traceId, startTime: start, durationMs: end - start, rows };
+}
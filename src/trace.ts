@@ -17,6 +17,18 @@
  *
  *   // Manual access:
  *   const traceId = getTraceId(); // returns current trace ID or null
+ *
+ *   // Timed spans — children nest under the active span automatically:
+ *   await withSpan("claude.cli", async (span) => {
+ *     span.setAttribute("model", model);
+ *     return runCli();
+ *   });
+ *
+ * Started spans are kept in a bounded in-memory store (getTraceSpans) for
+ * the waterfall route; finished spans go to onSpanEnd listeners, which is
+ * how trace-export.ts ships them as OTLP/JSON. Outside a trace, spans are
+ * no-ops unless started with `root: true`, so stray calls can't evict
+ * real traces from the store.
  */
 
 import { AsyncLocalStorage } from "node:async_hooks";
@@ -25,10 +37,74 @@ import { AsyncLocalStorage } from "node:async_hooks";
 
 interface TraceContext {
   traceId: string;
+  /** Active span, if the context was entered through withSpan(). */
+  spanId?: string;
 }
 
 const traceStore = new AsyncLocalStorage<TraceContext>();
 
+// ── Span types ───────────────────────────────────────────────
+
+export type SpanKind = "internal" | "server" | "client";
+export type SpanStatus = "unset" | "ok" | "error";
+export type SpanAttributeValue = string | number | boolean;
+
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  /** Epoch ms. */
+  startTime: number;
+  /** Epoch ms; null while the span is still open. */
+  endTime: number | null;
+  status: SpanStatus;
+  statusMessage?: string;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly record: SpanRecord;
+  /** False for a no-op span: not stored, not exported. */
+  readonly recording: boolean;
+  setAttribute(key: string, value: SpanAttributeValue | null | undefined): void;
+  setAttributes(attrs: Record<string, SpanAttributeValue | null | undefined>): void;
+  /** End the span; an error marks it failed. Later calls are ignored. */
+  end(error?: unknown): void;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Record<string, SpanAttributeValue | null | undefined>;
+  /**
+   * Explicit parent; defaults to the active span. null makes a root span
+   * in the active trace. A no-op parent gives a no-op child.
+   */
+  parent?: Span | null;
+  /** With no active trace, start a new one rather than return a no-op span. */
+  root?: boolean;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  rootName: string;
+  startTime: number;
+  durationMs: number | null;
+  spanCount: number;
+  errorCount: number;
+}
+
+/** Traces kept for the waterfall route — oldest evicted first. */
+export const MAX_STORED_TRACES = 200;
+/** Spans kept per trace — a runaway loop can't grow one trace without bound. */
+export const MAX_SPANS_PER_TRACE = 500;
+
+const spanStore = new Map<string, SpanRecord[]>();
+const endListeners = new Set<(span: SpanRecord) => void>();
+
 // ── Public API ───────────────────────────────────────────────
 
 /** Generate a short trace ID (16 hex chars — compact but unique enough). */
@@ -38,11 +114,21 @@ export function generateTraceId(): string {
   return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
 }
 
+/** Generate a span ID (16 hex chars, the OTLP span ID width). */
+export function generateSpanId(): string {
+  return generateTraceId();
+}
+
 /** Get the current trace ID from async context (null if none active). */
 export function getTraceId(): string | null {
   return traceStore.getStore()?.traceId ?? null;
 }
 
+/** Get the active span ID from async context (null outside withSpan). */
+export function getSpanId(): string | null {
+  return traceStore.getStore()?.spanId ?? null;
+}
+
 /**
  * Run a function within a trace context.
  * All async operations within the callback inherit the trace ID.
@@ -61,3 +147,184 @@ export async function withTraceAsync<T>(fn: () => Promise<T>, traceId?: string):
   const id = traceId ?? generateTraceId();
   return traceStore.run({ traceId: id }, fn);
 }
+
+// ── Spans ────────────────────────────────────────────────────
+
+function storeSpan(record: SpanRecord): void {
+  let spans = spanStore.get(record.traceId);
+  if (!spans) {
+    spans = [];
+    spanStore.set(record.traceId, spans);
+    if (spanStore.size > MAX_STORED_TRACES) {
+      const oldest = spanStore.keys().next().value;
+      if (oldest !== undefined) spanStore.delete(oldest);
+    }
+  }
+  if (spans.length < MAX_SPANS_PER_TRACE) spans.push(record);
+}
+
+/**
+ * Start a span. The caller must end() it. Use withSpan() instead when
+ * the work fits in a callback — it also makes the span active for
+ * nested spans and log lines.
+ */
+export function startSpan(name: string, opts: SpanOptions = {}): Span {
+  const active = traceStore.getStore();
+  const { parent } = opts;
+  if (parent ? !parent.recording : !active && !opts.root) return noopSpan(name);
+  const traceId = parent?.traceId ?? active?.traceId ?? generateTraceId();
+  const parentSpanId = parent ? parent.spanId : parent === null ? null : active?.spanId ?? null;
+
+  const record: SpanRecord = {
+    traceId,
+    spanId: generateSpanId(),
+    parentSpanId,
+    name,
+    kind: opts.kind ?? "internal",
+    startTime: Date.now(),
+    endTime: null,
+    status: "unset",
+    attributes: {},
+  };
+
+  const setAttribute = (key: string, value: SpanAttributeValue | null | undefined) => {
+    if (value !== null && value !== undefined) record.attributes[key] = value;
+  };
+  if (opts.attributes) {
+    for (const [k, v] of Object.entries(opts.attributes)) setAttribute(k, v);
+  }
+  storeSpan(record);
+
+  return {
+    traceId,
+    spanId: record.spanId,
+    record,
+    recording: true,
+    setAttribute,
+    setAttributes: (attrs) => {
+      for (const [k, v] of Object.entries(attrs)) setAttribute(k, v);
+    },
+    end: (error?: unknown) => {
+      if (record.endTime !== null) return;
+      record.endTime = Date.now();
+      if (error !== undefined) {
+        record.status = "error";
+        record.statusMessage = error instanceof Error ? error.message : String(error);
+      } else {
+        record.status = "ok";
+      }
+      for (const listener of endListeners) {
+        try { listener(record); } catch { /* exporters must not break callers */ }
+      }
+    },
+  };
+}
+
+/** A span that records nothing — what startSpan returns outside a trace. */
+function noopSpan(name: string): Span {
+  const record: SpanRecord = {
+    traceId: "",
+    spanId: "",
+    parentSpanId: null,
+    name,
+    kind: "internal",
+    startTime: Date.now(),
+    endTime: null,
+    status: "unset",
+    attributes: {},
+  };
+  return {
+    traceId: "",
+    spanId: "",
+    record,
+    recording: false,
+    setAttribute: () => {},
+    setAttributes: () => {},
+    end: () => {},
+  };
+}
+
+/**
+ * Run fn inside a new span that is active for its duration — nested
+ * spans become children and log lines carry its trace ID. Ends the span
+ * when fn returns or its promise settles; a throw/rejection marks it
+ * failed and is rethrown. Outside a trace (without `root`) fn just runs
+ * with a no-op span.
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T, opts: SpanOptions = {}): T {
+  const span = startSpan(name, opts);
+  if (!span.recording) return fn(span);
+  let result: T;
+  try {
+    result = traceStore.run({ traceId: span.traceId, spanId: span.spanId }, () => fn(span));
+  } catch (err) {
+    span.end(err);
+    throw err;
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => { span.end(); return value; },
+      (err) => { span.end(err); throw err; },
+    ) as T;
+  }
+  span.end();
+  return result;
+}
+
+/**
+ * Wrap fetch so each request made inside a trace records a client span
+ * (method, path, status). Requests outside any trace pass straight through
+ * rather than each starting a trace of their own. Handed to HTTP-based
+ * clients — e.g. Supabase's `global.fetch` — to time DB calls.
+ */
+export function createTracedFetch(spanName: string, baseFetch: typeof fetch = fetch): typeof fetch {
+  const traced = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (!getTraceId()) return baseFetch(input, init);
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = init?.method ?? (input instanceof Request ? input.method : "GET");
+    return withSpan(spanName, async (span) => {
+      const res = await baseFetch(input, init);
+      span.setAttribute("http.status_code", res.status);
+      if (res.status >= 500) span.end(`HTTP ${res.status}`);
+      return res;
+    }, { kind: "client", attributes: { "http.method": method, "http.target": url.pathname } });
+  };
+  return Object.assign(traced, baseFetch) as typeof fetch;
+}
+
+/** Subscribe to finished spans. Returns an unsubscribe function. */
+export function onSpanEnd(listener: (span: SpanRecord) => void): () => void {
+  endListeners.add(listener);
+  return () => { endListeners.delete(listener); };
+}
+
+/** All stored spans for a trace (open and finished), in start order. */
+export function getTraceSpans(traceId: string): SpanRecord[] {
+  return [...(spanStore.get(traceId) ?? [])].sort((a, b) => a.startTime - b.startTime);
+}
+
+/** Most recent stored traces first. */
+export function listRecentTraces(limit = 50): TraceSummary[] {
+  const summaries: TraceSummary[] = [];
+  for (const [traceId, spans] of spanStore) {
+    const ids = new Set(spans.map(s => s.spanId));
+    const root = spans.find(s => !s.parentSpanId || !ids.has(s.parentSpanId)) ?? spans[0];
+    const start = Math.min(...spans.map(s => s.startTime));
+    const open = spans.some(s => s.endTime === null);
+    summaries.push({
+      traceId,
+      rootName: root.name,
+      startTime: start,
+      durationMs: open ? null : Math.max(...spans.map(s => s.endTime!)) - start,
+      spanCount: spans.length,
+      errorCount: spans.filter(s => s.status === "error").length,
+    });
+  }
+  return summaries.sort((a, b) => b.startTime - a.startTime).slice(0, limit);
+}
+
+/** Clear stored spans and listeners (tests only). */
+export function _resetSpansForTesting(): void {
+  spanStore.clear();
+  endListeners.clear();
+}
@@ -1,9 +1,12 @@
 /**
- * TTS (ElevenLabs / OpenAI) + Transcription (Whisper/Groq) utilities.
+ * TTS (ElevenLabs / OpenAI / Piper) + Transcription (Whisper/Groq) utilities.
  *
  * Extracted from relay.ts — ELLIE-184.
- * Provider selection via TTS_PROVIDER env var ("elevenlabs" | "openai").
- * Falls back to the other provider if the primary fails or is unconfigured.
+ * Each function asks the speech provider registry (speech/registry.ts)
+ * for the format it needs, routed by channel: TTS_ROUTES picks providers
+ * per channel, TTS_PROVIDER is the default first choice, and the registry
+ * falls back to the next configured provider if one fails. Piper runs
+ * locally for offline / PHI-safe speech (SPEECH_LOCAL_ONLY).
  */
 
 import { spawn } from "bun";
@@ -12,94 +15,36 @@ import { join } from "path";
 import type { WebSocket } from "ws";
 import { log } from "./logger.ts";
 import { transcribeWav } from "./transcribe.ts";
+import { registerBuiltinSpeechProviders } from "./speech/builtin.ts";
+import { describeSpeechProviders, resolveTtsProviders, synthesizeSpeech, type SpeechRequest } from "./speech/registry.ts";
+import type { TTSStream } from "./speech/provider.ts";
+
+export type { TTSStream } from "./speech/provider.ts";
 
 const logger = log.child("tts");
 
+registerBuiltinSpeechProviders();
+
 // ── Config (from env) ───────────────────────────────────────
 
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || "";
-const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || "EXAVITQu4vr4xnSDxMaL";
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
-const OPENAI_TTS_VOICE = process.env.OPENAI_TTS_VOICE || "nova";
-const OPENAI_TTS_MODEL = process.env.OPENAI_TTS_MODEL || "tts-1";
-const TTS_PROVIDER = (process.env.TTS_PROVIDER || "elevenlabs") as "elevenlabs" | "openai";
+const TTS_PROVIDER = process.env.TTS_PROVIDER || "elevenlabs";
 const TMP_DIR = process.env.TMPDIR || "/tmp";
 
-/** Returns which provider to use, falling back if primary is unconfigured. */
-function getProvider(override?: "elevenlabs" | "openai"): "elevenlabs" | "openai" | null {
-  const preferred = override || TTS_PROVIDER;
-  if (preferred === "openai" && OPENAI_API_KEY) return "openai";
-  if (preferred === "elevenlabs" && ELEVENLABS_API_KEY) return "elevenlabs";
-  // Fallback: try the other one
-  if (OPENAI_API_KEY) return "openai";
-  if (ELEVENLABS_API_KEY) return "elevenlabs";
-  return null;
-}
-
-/** Returns the current default provider and which providers are available. */
+/** Returns the current default provider, which providers are available, and their capabilities and routes. */
 export function getTTSProviderInfo() {
+  const info = describeSpeechProviders();
   return {
     default: TTS_PROVIDER,
-    current: getProvider(),
-    available: {
-      elevenlabs: !!ELEVENLABS_API_KEY,
-      openai: !!OPENAI_API_KEY,
-    },
+    current: resolveTtsProviders("ogg")[0]?.provider.id ?? null,
+    available: Object.fromEntries(info.tts.map(p => [p.id, p.configured])) as Record<string, boolean>,
+    ...info,
   };
 }
 
-// ── OpenAI TTS helper ───────────────────────────────────────
-
-type OpenAIFormat = "opus" | "mp3" | "aac" | "flac" | "wav" | "pcm";
-
-async function openaiTTS(text: string, format: OpenAIFormat): Promise<Buffer | null> {
-  const response = await fetch("https://api.openai.com/v1/audio/speech", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: OPENAI_TTS_MODEL,
-      input: text,
-      voice: OPENAI_TTS_VOICE,
-      response_format: format,
-    }),
-  });
-
-  if (!response.ok) {
-    logger.error("OpenAI TTS error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return Buffer.from(await response.arrayBuffer());
-}
-
-/** Convert PCM s16le to mulaw 8kHz via ffmpeg (for Twilio). */
-async function pcmToMulaw(pcmBuf: Buffer): Promise<Buffer> {
-  const ts = Date.now();
-  const pcmPath = join(TMP_DIR, `tts_pcm_${ts}.raw`);
-  const mulawPath = join(TMP_DIR, `tts_mulaw_${ts}.raw`);
-
-  try {
-    await writeFile(pcmPath, pcmBuf);
-    const ffmpeg = spawn([
-      "ffmpeg", "-f", "s16le", "-ar", "24000", "-ac", "1",
-      "-i", pcmPath,
-      "-f", "mulaw", "-ar", "8000", "-ac", "1",
-      mulawPath, "-y",
-    ], { stdout: "pipe", stderr: "pipe" });
-
-    if (await ffmpeg.exited !== 0) {
-      logger.error("pcmToMulaw ffmpeg error", { detail: await new Response(ffmpeg.stderr).text() });
-      return Buffer.alloc(0);
-    }
-
-    return await readFile(mulawPath);
-  } finally {
-    await unlink(pcmPath).catch(() => {});
-    await unlink(mulawPath).catch(() => {});
-  }
+async function readAll(stream: TTSStream | null): Promise<Buffer | null> {
+  if (!stream) return null;
+  const buf = Buffer.from(await new Response(stream.body).arrayBuffer());
+  return buf.length ? buf : null;
 }
 
 // ── Mulaw energy detection ──────────────────────────────────
@@ -122,11 +67,12 @@ export function mulawEnergy(buf: Buffer): number {
 
 // ── Whisper transcription (mulaw → text) ────────────────────
 
-export async function transcribeMulaw(mulawChunks: Buffer[]): Promise<string> {
+export async function transcribeMulaw(mulawChunks: Buffer[], req: SpeechRequest = {}): Promise<string> {
   const combined = Buffer.concat(mulawChunks);
   if (combined.length < 400) return "";
 
-  const timestamp = Date.now();
+  // Unique per call: partial and final transcriptions of one utterance can overlap
+  const timestamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const mulawPath = join(TMP_DIR, `call_${timestamp}.raw`);
   const wavPath = join(TMP_DIR, `call_${timestamp}.wav`);
 
@@ -146,9 +92,9 @@ export async function transcribeMulaw(mulawChunks: Buffer[]): Promise<string> {
       return "";
     }
 
-    // Use shared fallback chain: Groq → local → ""
+    // Use shared fallback chain (STT_ROUTES for "voice"): Groq → local → ""
     const wavBuffer = await readFile(wavPath);
-    return await transcribeWav(wavBuffer);
+    return await transcribeWav(wavBuffer, req);
   } finally {
     await unlink(mulawPath).catch(() => {});
     await unlink(wavPath).catch(() => {});
@@ -158,339 +104,98 @@ export async function transcribeMulaw(mulawChunks: Buffer[]): Promise<string> {
 // ── TTS: Twilio streaming ───────────────────────────────────
 
 /**
- * Stream TTS audio directly to Twilio WebSocket.
- * ElevenLabs: true streaming (chunks as they arrive).
- * OpenAI: fetch full audio, convert PCM→mulaw, then chunk to WS.
+ * Stream TTS audio directly to Twilio WebSocket, chunk by chunk as the
+ * provider produces it.
  */
 export async function streamTTSToTwilio(
   text: string,
   ws: WebSocket,
   streamSid: string,
+  req: SpeechRequest = {},
 ): Promise<boolean> {
-  const provider = getProvider();
-  if (!provider) { logger.error("No TTS provider configured"); return false; }
-
   const start = Date.now();
   const CHUNK_SIZE = 160 * 20; // ~400ms of mulaw audio per Twilio chunk
 
-  if (provider === "openai") {
-    // OpenAI: fetch PCM, convert to mulaw, chunk to WS
-    const pcmBuf = await openaiTTS(text, "pcm");
-    if (!pcmBuf) return false;
-
-    const mulawBuf = await pcmToMulaw(pcmBuf);
-    if (mulawBuf.length === 0) return false;
-
-    let offset = 0;
-    let firstChunkSent = false;
-    while (offset < mulawBuf.length) {
-      const end = Math.min(offset + CHUNK_SIZE, mulawBuf.length);
-      const chunk = mulawBuf.subarray(offset, end);
-      offset = end;
-
-      ws.send(JSON.stringify({
-        event: "media",
-        streamSid,
-        media: { payload: chunk.toString("base64") },
-      }));
-
-      if (!firstChunkSent) {
-        logger.info(`First TTS chunk sent in ${Date.now() - start}ms (openai)`);
-        firstChunkSent = true;
-      }
-    }
-
-    logger.info(`TTS complete in ${Date.now() - start}ms (openai)`);
-    return true;
-  }
-
-  // ElevenLabs: true streaming
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/stream?output_format=ulaw_8000`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok || !response.body) {
-    logger.error("ElevenLabs stream error", { status: response.status, body: await response.text() });
-    return false;
-  }
+  const stream = await synthesizeSpeech(text, "mulaw", { channel: "voice", ...req });
+  if (!stream) return false;
 
   let buffer = Buffer.alloc(0);
   let firstChunkSent = false;
+  const send = (chunk: Buffer) => {
+    ws.send(JSON.stringify({
+      event: "media",
+      streamSid,
+      media: { payload: chunk.toString("base64") },
+    }));
+    if (!firstChunkSent) {
+      logger.info(`First TTS chunk sent in ${Date.now() - start}ms (${stream.provider})`);
+      firstChunkSent = true;
+    }
+  };
 
-  const reader = response.body.getReader();
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
+  for await (const value of stream.body) {
     buffer = Buffer.concat([buffer, Buffer.from(value)]);
-
     while (buffer.length >= CHUNK_SIZE) {
-      const chunk = buffer.subarray(0, CHUNK_SIZE);
+      send(buffer.subarray(0, CHUNK_SIZE));
       buffer = buffer.subarray(CHUNK_SIZE);
-
-      ws.send(JSON.stringify({
-        event: "media",
-        streamSid,
-        media: { payload: chunk.toString("base64") },
-      }));
-
-      if (!firstChunkSent) {
-        logger.info(`First TTS chunk sent in ${Date.now() - start}ms (elevenlabs)`);
-        firstChunkSent = true;
-      }
     }
   }
+  if (buffer.length > 0) send(buffer);
 
-  if (buffer.length > 0) {
-    ws.send(JSON.stringify({
-      event: "media",
-      streamSid,
-      media: { payload: buffer.toString("base64") },
-    }));
-  }
-
-  logger.info(`TTS stream complete in ${Date.now() - start}ms (elevenlabs)`);
-  return true;
+  logger.info(`TTS stream complete in ${Date.now() - start}ms (${stream.provider})`);
+  return firstChunkSent;
 }
 
 // ── TTS: Mulaw (non-streaming, for Twilio fallback) ─────────
 
-/** Non-streaming mulaw TTS (fallback for when streaming not possible). */
-export async function textToSpeechMulaw(text: string): Promise<string> {
-  const provider = getProvider();
-  if (!provider) { logger.error("No TTS provider configured"); return ""; }
-
-  if (provider === "openai") {
-    const pcmBuf = await openaiTTS(text, "pcm");
-    if (!pcmBuf) return "";
-    const mulawBuf = await pcmToMulaw(pcmBuf);
-    return mulawBuf.toString("base64");
-  }
-
-  // ElevenLabs
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}?output_format=ulaw_8000`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    logger.error("ElevenLabs error", { status: response.status, body: await response.text() });
-    return "";
-  }
-
-  return Buffer.from(await response.arrayBuffer()).toString("base64");
+/** Non-streaming mulaw TTS (fallback for when streaming not possible). Base64, "" on failure. */
+export async function textToSpeechMulaw(text: string, req: SpeechRequest = {}): Promise<string> {
+  const audio = await readAll(await synthesizeSpeech(text, "mulaw", { channel: "voice", ...req }));
+  return audio ? audio.toString("base64") : "";
 }
 
 // ── TTS: OGG/Opus (for Telegram voice messages) ─────────────
 
 /** Convert text to OGG/Opus audio (for Telegram voice messages). */
-export async function textToSpeechOgg(text: string, providerOverride?: "elevenlabs" | "openai"): Promise<Buffer | null> {
-  const provider = getProvider(providerOverride);
-  if (!provider) return null;
-
-  if (provider === "openai") {
-    return await openaiTTS(text, "opus");
-  }
-
-  // ElevenLabs
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}?output_format=opus_48000_64`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    logger.error("ElevenLabs error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return Buffer.from(await response.arrayBuffer());
+export async function textToSpeechOgg(text: string, req: SpeechRequest = {}): Promise<Buffer | null> {
+  return readAll(await synthesizeSpeech(text, "ogg", { channel: "telegram", ...req }));
 }
 
 // ── TTS: MP3 (for dashboard / ellie-chat playback) ──────────
 
 /** Low-bandwidth TTS for dashboard playback (MP3). */
-export async function textToSpeechFast(text: string, providerOverride?: "elevenlabs" | "openai"): Promise<Buffer | null> {
-  const provider = getProvider(providerOverride);
-  if (!provider) return null;
-
-  if (provider === "openai") {
-    return await openaiTTS(text, "mp3");
-  }
-
-  // ElevenLabs
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}?output_format=mp3_22050_32`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    logger.error("ElevenLabs fast error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return Buffer.from(await response.arrayBuffer());
+export async function textToSpeechFast(text: string, req: SpeechRequest = {}): Promise<Buffer | null> {
+  return readAll(await synthesizeSpeech(text, "mp3", { channel: "dashboard", ...req }));
 }
 
 // ── Streaming TTS (ELLIE-258) ────────────────────────────────
 // Returns the raw response body as a ReadableStream for piping
 // directly to the HTTP client — no buffering in relay memory.
 
-interface TTSStream {
-  body: ReadableStream<Uint8Array>;
-  contentType: string;
+export interface FastStreamOptions extends SpeechRequest {
+  /** "mp3" (default) for dashboard playback, "mulaw" (8kHz) for Twilio calls. */
+  format?: "mp3" | "mulaw";
 }
 
-async function openaiTTSStream(text: string, format: OpenAIFormat, contentType: string): Promise<TTSStream | null> {
-  const response = await fetch("https://api.openai.com/v1/audio/speech", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: OPENAI_TTS_MODEL,
-      input: text,
-      voice: OPENAI_TTS_VOICE,
-      response_format: format,
-    }),
-  });
-
-  if (!response.ok || !response.body) {
-    logger.error("OpenAI TTS stream error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return { body: response.body, contentType };
-}
-
-/** Streaming MP3 TTS for dashboard playback — pipes directly to client. */
-export async function textToSpeechFastStream(text: string, providerOverride?: "elevenlabs" | "openai"): Promise<TTSStream | null> {
-  const provider = getProvider(providerOverride);
-  if (!provider) return null;
-
-  if (provider === "openai") {
-    return await openaiTTSStream(text, "mp3", "audio/mpeg");
-  }
-
-  // ElevenLabs — use /stream endpoint for lower TTFB
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/stream?output_format=mp3_22050_32`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok || !response.body) {
-    logger.error("ElevenLabs fast stream error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return { body: response.body, contentType: "audio/mpeg" };
+/**
+ * Streaming low-latency TTS — pipes directly to client. MP3 for dashboard
+ * playback by default; mulaw for voice calls, which speak one sentence
+ * at a time as the model produces them (voice-duplex.ts).
+ */
+export async function textToSpeechFastStream(text: string, opts: FastStreamOptions = {}): Promise<TTSStream | null> {
+  const { format = "mp3", ...req } = opts;
+  return synthesizeSpeech(text, format, { channel: format === "mulaw" ? "voice" : "dashboard", ...req });
 }
 
 /**
  * Streaming PCM16 TTS at 16kHz mono — for Simli avatar lip-sync.
  * Returns raw PCM s16le audio chunks suitable for piping to Simli.
  */
-export async function textToSpeechPCM16Stream(
-  text: string,
-  providerOverride?: "elevenlabs" | "openai"
-): Promise<TTSStream | null> {
-  const provider = getProvider(providerOverride);
-  if (!provider) return null;
-
-  if (provider === "openai") {
-    return await openaiTTSStream(text, "pcm", "audio/pcm");
-  }
-
-  // ElevenLabs — PCM 16kHz output
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/stream?output_format=pcm_16000`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok || !response.body) {
-    logger.error("ElevenLabs PCM16 stream error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return { body: response.body, contentType: "audio/pcm" };
+export async function textToSpeechPCM16Stream(text: string, req: SpeechRequest = {}): Promise<TTSStream | null> {
+  return synthesizeSpeech(text, "pcm16", { channel: "avatar", ...req });
 }
 
 /** Streaming OGG/Opus TTS — pipes directly to client. */
-export async function textToSpeechOggStream(text: string, providerOverride?: "elevenlabs" | "openai"): Promise<TTSStream | null> {
-  const provider = getProvider(providerOverride);
-  if (!provider) return null;
-
-  if (provider === "openai") {
-    return await openaiTTSStream(text, "opus", "audio/ogg");
-  }
-
-  // ElevenLabs — use /stream endpoint for lower TTFB
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/stream?output_format=opus_48000_64`,
-    {
-      method: "POST",
-      headers: { "xi-api-key": ELEVENLABS_API_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-      }),
-    }
-  );
-
-  if (!response.ok || !response.body) {
-    logger.error("ElevenLabs ogg stream error", { status: response.status, body: await response.text() });
-    return null;
-  }
-
-  return { body: response.body, contentType: "audio/ogg" };
+export async function textToSpeechOggStream(text: string, req: SpeechRequest = {}): Promise<TTSStream | null> {
+  return synthesizeSpeech(text, "ogg", { channel: "dashboard", ...req });
 }
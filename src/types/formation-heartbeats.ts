@@ -7,6 +7,8 @@
  * Pure module — types, parsing, and helpers only, no side effects.
  */
 
+import { getZonedParts } from "../timezone.ts";
+
 // ── Database Types ──────────────────────────────────────────
 
 /** A scheduled formation heartbeat (maps to formation_heartbeats table). */
@@ -152,51 +154,102 @@ export function parseCronField(field: string, min: number, max: number): number[
   return Array.from(values).sort((a, b) => a - b);
 }
 
+/** Wall-clock fields a cron expression is matched against. */
+interface CronClock {
+  month: number;
+  dayOfMonth: number;
+  dayOfWeek: number;
+  hour: number;
+  minute: number;
+}
+
+function cronClock(time: Date, timeZone?: string): CronClock {
+  if (!timeZone) {
+    return {
+      month: time.getUTCMonth() + 1,
+      dayOfMonth: time.getUTCDate(),
+      dayOfWeek: time.getUTCDay(),
+      hour: time.getUTCHours(),
+      minute: time.getUTCMinutes(),
+    };
+  }
+  const p = getZonedParts(time, timeZone);
+  return { month: p.month, dayOfMonth: p.day, dayOfWeek: p.weekday, hour: p.hour, minute: p.minute };
+}
+
+/**
+ * True if `time` is the second occurrence of its wall-clock minute — the
+ * repeated hour when clocks fall back. Cron fires once per wall time.
+ */
+function isRepeatedWallTime(time: Date, timeZone: string): boolean {
+  const offsetAt = (t: number) => {
+    const p = getZonedParts(t, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(t / 60_000) * 60_000;
+  };
+  const shift = offsetAt(time.getTime() - 3 * 3_600_000) - offsetAt(time.getTime());
+  if (shift <= 0) return false;
+  const a = getZonedParts(time, timeZone);
+  const b = getZonedParts(time.getTime() - shift, timeZone);
+  return a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+}
+
 /**
  * Compute the next run time after `after` for a parsed cron expression.
+ * Fields are matched in UTC, or as wall-clock time in `timeZone` when given
+ * (local times skipped by DST never fire; repeated ones fire once).
  * Searches forward up to 366 days before giving up.
  *
  * Returns null if no match is found (should not happen for valid crons).
  */
-export function nextCronRun(cron: ParsedCron, after: Date): Date | null {
-  // Start from the next full minute after `after` (all UTC)
+export function nextCronRun(cron: ParsedCron, after: Date, timeZone?: string): Date | null {
+  // Start from the next full minute after `after`
   const d = new Date(after);
   d.setUTCSeconds(0, 0);
   d.setUTCMinutes(d.getUTCMinutes() + 1);
 
-  const maxIterations = 366 * 24 * 60; // 1 year of minutes
-  for (let i = 0; i < maxIterations; i++) {
-    const month = d.getUTCMonth() + 1; // 1-indexed
-    const dayOfMonth = d.getUTCDate();
-    const dayOfWeek = d.getUTCDay(); // 0=Sun
-    const hour = d.getUTCHours();
-    const minute = d.getUTCMinutes();
-
-    if (
-      cron.months.includes(month) &&
-      cron.daysOfMonth.includes(dayOfMonth) &&
-      cron.daysOfWeek.includes(dayOfWeek) &&
-      cron.hours.includes(hour) &&
-      cron.minutes.includes(minute)
-    ) {
+  const limit = after.getTime() + 366 * 24 * 3_600_000;
+  while (d.getTime() <= limit) {
+    const c = cronClock(d, timeZone);
+    let skipMinutes = 1;
+
+    if (!cron.months.includes(c.month) || !cron.daysOfMonth.includes(c.dayOfMonth) || !cron.daysOfWeek.includes(c.dayOfWeek)) {
+      // Jump toward the next day, an hour short so a DST change can't overshoot midnight
+      skipMinutes = Math.max((23 - c.hour) * 60 - c.minute, 60 - c.minute);
+    } else if (!cron.hours.includes(c.hour)) {
+      skipMinutes = 60 - c.minute;
+    } else if (cron.minutes.includes(c.minute) && !(timeZone && isRepeatedWallTime(d, timeZone))) {
       return new Date(d);
     }
 
-    d.setUTCMinutes(d.getUTCMinutes() + 1);
+    d.setTime(d.getTime() + skipMinutes * 60_000);
   }
 
   return null;
 }
 
 /**
- * Check if a given time matches a cron expression.
+ * The next `count` run times after `after` (fewer if the schedule runs out
+ * within a year of the last one found).
+ */
+export function nextCronRuns(cron: ParsedCron, after: Date, count: number, timeZone?: string): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = after;
+  while (runs.length < count && (cursor = nextCronRun(cron, cursor, timeZone))) {
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+/**
+ * Check if a given time matches a cron expression (UTC, or wall-clock time in `timeZone`).
  */
-export function cronMatches(cron: ParsedCron, time: Date): boolean {
+export function cronMatches(cron: ParsedCron, time: Date, timeZone?: string): boolean {
+  const c = cronClock(time, timeZone);
   return (
-    cron.minutes.includes(time.getUTCMinutes()) &&
-    cron.hours.includes(time.getUTCHours()) &&
-    cron.daysOfMonth.includes(time.getUTCDate()) &&
-    cron.months.includes(time.getUTCMonth() + 1) &&
-    cron.daysOfWeek.includes(time.getUTCDay())
+    cron.minutes.includes(c.minute) &&
+    cron.hours.includes(c.hour) &&
+    cron.daysOfMonth.includes(c.dayOfMonth) &&
+    cron.months.includes(c.month) &&
+    cron.daysOfWeek.includes(c.dayOfWeek)
   );
 }
@@ -0,0 +1,123 @@
+/**
+ * UMS Connector: Raw RFC 5322 email (.eml / mbox)
+ *
+ * Normalizes raw MIME messages from mail exports — .eml files, or single
+ * entries split out of an mbox archive — so years of mail can be backfilled
+ * without a live IMAP server. Parsing lives in ../mime.ts; this connector
+ * only maps the parsed message onto UnifiedMessageInsert, using the same
+ * metadata keys as connectors/imap.ts so downstream consumers treat both alike.
+ *
+ * Payload: the raw message string, or { raw, source?, mailbox? } where
+ * `source` labels the export (e.g. "gmail-takeout-2019") and becomes the channel.
+ *
+ * Cross-ref: connectors/imap.ts for pre-parsed IMAP messages
+ * Cross-ref: email-import.ts for the batch ingestion path
+ */
+
+import type { UMSConnector } from "../connector.ts";
+import type { UnifiedMessageInsert } from "../types.ts";
+import { parseEmail, type EmailAddress } from "../mime.ts";
+import { contentHash } from "../content-hash.ts";
+
+// ── Payload shape ─────────────────────────────────────────────
+
+export interface EmlPayload {
+  /** The full raw message: headers, blank line, body. */
+  raw: string;
+
+  /** Export label — becomes the channel (defaults to "import"). */
+  source?: string;
+
+  /** Folder the message came from, if the export preserves one. */
+  mailbox?: string;
+}
+
+// ── Connector ─────────────────────────────────────────────────
+
+export const emlConnector: UMSConnector = {
+  provider: "eml",
+
+  normalize(rawPayload: unknown): UnifiedMessageInsert | null {
+    const payload: EmlPayload | null = typeof rawPayload === "string"
+      ? { raw: rawPayload }
+      : (rawPayload as EmlPayload | null);
+    if (!payload?.raw || typeof payload.raw !== "string") return null;
+
+    const email = parseEmail(payload.raw);
+    if (Object.keys(email.headers).length === 0) return null;
+
+    const from = email.from[0] ?? email.sender;
+    const subject = email.subject || "(no subject)";
+    const body = email.text || (email.html ? stripHtml(email.html) : "");
+    const content = `${subject}\n\n${body}`.trim();
+
+    // Messages without a Message-ID still need a stable key so re-imports dedupe
+    const providerId = email.message_id
+      || `<sha256:${contentHash(`${email.date}|${from?.address}|${subject}|${body.slice(0, 2000)}`)}>`;
+
+    // Thread root: first References entry, else the parent, else self
+    const threadId = email.references[0] || email.in_reply_to || providerId;
+    const source = payload.source || "import";
+
+    return {
+      provider: "eml",
+      provider_id: providerId,
+      channel: `eml:${source}`,
+      sender: from ? { name: from.name, email: from.address } : null,
+      content: content.slice(0, 5000), // Cap content length
+      content_type: "text",
+      // Headers + decoded text only — attachment bodies are never stored
+      raw: {
+        headers: email.headers,
+        text: email.text?.slice(0, 20_000) ?? null,
+        source,
+        mailbox: payload.mailbox,
+      },
+      provider_timestamp: email.date,
+      metadata: {
+        subject,
+        message_id: email.message_id,
+        to: addresses(email.to),
+        cc: addresses(email.cc),
+        bcc: addresses(email.bcc),
+        reply_to: addresses(email.reply_to),
+        recipients: [...email.to, ...email.cc, ...email.bcc].map(a => ({ name: a.name, email: a.address })),
+        mailbox: payload.mailbox,
+        has_attachments: email.attachments.some(a => !a.inline),
+        attachments: email.attachments.map(a => ({
+          filename: a.filename,
+          size: a.size,
+          content_type: a.content_type,
+          inline: a.inline,
+        })),
+        in_reply_to: email.in_reply_to,
+        references: email.references,
+        thread_id: threadId,
+        has_html: email.html !== null,
+        source,
+        imported: true,
+      },
+    };
+  },
+};
+
+// ── Helpers ───────────────────────────────────────────────────
+
+function addresses(list: EmailAddress[]): string[] {
+  return list.map(a => a.address);
+}
+
+/** Basic HTML tag stripping. */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
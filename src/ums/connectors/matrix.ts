@@ -0,0 +1,58 @@
+/**
+ * UMS Connector: Matrix
+ *
+ * Normalizes Matrix room messages (as delivered by /sync) into
+ * UnifiedMessage format. The Matrix channel ingests
+ * `{ room_id, event, is_direct? }` for each inbound m.room.message.
+ */
+
+import type { UMSConnector } from "../connector.ts";
+import type { UnifiedMessageInsert } from "../types.ts";
+
+const CONTENT_TYPES: Record<string, string> = {
+  "m.text": "text",
+  "m.emote": "text",
+  "m.notice": "notification",
+  "m.image": "image",
+  "m.audio": "voice",
+  "m.file": "text",
+  "m.video": "text",
+};
+
+export const matrixConnector: UMSConnector = {
+  provider: "matrix",
+
+  normalize(rawPayload: unknown): UnifiedMessageInsert | null {
+    const payload = rawPayload as Record<string, unknown>;
+    const roomId = payload?.room_id as string | undefined;
+    const event = payload?.event as Record<string, unknown> | undefined;
+    if (!roomId || !event || event.type !== "m.room.message") return null;
+
+    const content = event.content as Record<string, unknown> | undefined;
+    const msgtype = content?.msgtype as string | undefined;
+    const body = content?.body as string | undefined;
+    if (!event.event_id || !msgtype || !body) return null;
+
+    const relates = content?.["m.relates_to"] as Record<string, unknown> | undefined;
+    if (relates?.rel_type === "m.replace") return null;
+    const sender = event.sender as string;
+
+    return {
+      provider: "matrix",
+      provider_id: event.event_id as string,
+      channel: `matrix:${roomId}`,
+      sender: { id: sender, username: sender?.replace(/^@/, "").split(":")[0] },
+      content: body,
+      content_type: CONTENT_TYPES[msgtype] ?? "text",
+      raw: payload,
+      provider_timestamp: typeof event.origin_server_ts === "number" ? new Date(event.origin_server_ts).toISOString() : null,
+      metadata: {
+        room_id: roomId,
+        msgtype,
+        thread_id: relates?.rel_type === "m.thread" ? relates.event_id : null,
+        is_direct: payload.is_direct === true,
+        ...(typeof content?.url === "string" ? { media_url: content.url } : {}),
+      },
+    };
+  },
+};
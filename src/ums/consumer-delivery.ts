@@ -0,0 +1,210 @@
+/**
+ * Consumer Redelivery & Dead Letters
+ * Durable push delivery for UMS subscribers. A message whose handler throws
+ * (or that arrives while the consumer is backing off) is queued for
+ * redelivery with exponential backoff. After MAX_DELIVERY_ATTEMPTS it moves
+ * to the dead-letter list, where it stays until someone requeues it.
+ *
+ * The in-memory queue is the working copy; when Supabase is available every
+ * change is written through to ums_consumer_deliveries so the queue survives
+ * a relay restart (see loadPendingDeliveries).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { UnifiedMessage } from "./types.ts";
+import { log } from "../logger.ts";
+import { calculateBackoffMs } from "./consumer-backoff.ts";
+
+const logger = log.child("ums:delivery");
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const MAX_PENDING_PER_CONSUMER = 1000;
+
+export type DeliveryStatus = "pending" | "dead_letter";
+
+export interface PendingDelivery {
+  consumer_name: string;
+  message_id: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  status: DeliveryStatus;
+  created_at: string;
+}
+
+interface QueuedDelivery extends PendingDelivery {
+  message: UnifiedMessage;
+}
+
+const queue = new Map<string, QueuedDelivery>();
+
+function key(consumerName: string, messageId: string): string {
+  return `${consumerName}:${messageId}`;
+}
+
+function toRow(entry: QueuedDelivery): PendingDelivery {
+  const { message: _message, ...row } = entry;
+  return row;
+}
+
+async function persist(supabase: SupabaseClient | null | undefined, entry: QueuedDelivery): Promise<void> {
+  if (!supabase) return;
+  const { error } = await supabase
+    .from("ums_consumer_deliveries")
+    .upsert({ ...toRow(entry), updated_at: new Date().toISOString() }, { onConflict: "consumer_name,message_id" });
+  if (error) logger.warn("Failed to persist delivery state", { consumer: entry.consumer_name, messageId: entry.message_id, error: error.message });
+}
+
+async function remove(supabase: SupabaseClient | null | undefined, consumerName: string, messageId: string): Promise<void> {
+  if (!supabase) return;
+  const { error } = await supabase
+    .from("ums_consumer_deliveries")
+    .delete()
+    .eq("consumer_name", consumerName)
+    .eq("message_id", messageId);
+  if (error) logger.warn("Failed to clear delivery state", { consumer: consumerName, messageId, error: error.message });
+}
+
+function countPending(consumerName: string): number {
+  let count = 0;
+  for (const entry of queue.values()) {
+    if (entry.consumer_name === consumerName && entry.status === "pending") count++;
+  }
+  return count;
+}
+
+/**
+ * Queue a message for redelivery to a consumer.
+ * `countAttempt` is false when the handler was never called (consumer in backoff),
+ * so a skipped delivery doesn't burn one of the message's attempts.
+ */
+export async function scheduleRedelivery(
+  supabase: SupabaseClient | null | undefined,
+  consumerName: string,
+  message: UnifiedMessage,
+  error: string,
+  opts: { countAttempt?: boolean } = {},
+): Promise<PendingDelivery> {
+  const countAttempt = opts.countAttempt ?? true;
+  const existing = queue.get(key(consumerName, message.id));
+  const entry: QueuedDelivery = existing || {
+    consumer_name: consumerName,
+    message_id: message.id,
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    last_error: null,
+    status: "pending",
+    created_at: new Date().toISOString(),
+    message,
+  };
+
+  if (countAttempt) entry.attempts++;
+  entry.last_error = error.slice(0, 500);
+  entry.next_attempt_at = new Date(Date.now() + calculateBackoffMs(Math.max(entry.attempts, 1))).toISOString();
+
+  if (entry.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    entry.status = "dead_letter";
+    logger.error("Message dead-lettered", { consumer: consumerName, messageId: message.id, attempts: entry.attempts, lastError: entry.last_error });
+  } else if (!existing && countPending(consumerName) >= MAX_PENDING_PER_CONSUMER) {
+    // Queue is full — dead-letter immediately rather than growing without bound
+    entry.status = "dead_letter";
+    logger.warn("Redelivery queue full, message dead-lettered", { consumer: consumerName, messageId: message.id });
+  }
+
+  queue.set(key(consumerName, message.id), entry);
+  await persist(supabase, entry);
+  return toRow(entry);
+}
+
+/** Clear a message from the queue after a successful (re)delivery. */
+export async function markDelivered(
+  supabase: SupabaseClient | null | undefined,
+  consumerName: string,
+  messageId: string,
+): Promise<void> {
+  if (!queue.delete(key(consumerName, messageId))) return;
+  await remove(supabase, consumerName, messageId);
+}
+
+/** Pending deliveries whose backoff has elapsed, oldest first. */
+export function getDueDeliveries(now: number = Date.now()): Array<{ consumerName: string; message: UnifiedMessage; attempts: number }> {
+  return [...queue.values()]
+    .filter(e => e.status === "pending" && new Date(e.next_attempt_at).getTime() <= now)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(e => ({ consumerName: e.consumer_name, message: e.message, attempts: e.attempts }));
+}
+
+/** List queued deliveries (for API/dashboard). Optionally filter by consumer and status. */
+export function listDeliveries(filter: { consumer?: string; status?: DeliveryStatus } = {}): PendingDelivery[] {
+  return [...queue.values()]
+    .filter(e => !filter.consumer || e.consumer_name === filter.consumer)
+    .filter(e => !filter.status || e.status === filter.status)
+    .map(toRow);
+}
+
+/** Dead-lettered messages for a consumer (or all consumers). */
+export function listDeadLetters(consumerName?: string): PendingDelivery[] {
+  return listDeliveries({ consumer: consumerName, status: "dead_letter" });
+}
+
+/**
+ * Move a dead letter back onto the redelivery queue with a fresh attempt budget.
+ * Returns false if the message isn't dead-lettered for that consumer.
+ */
+export async function requeueDeadLetter(
+  supabase: SupabaseClient | null | undefined,
+  consumerName: string,
+  messageId: string,
+): Promise<boolean> {
+  const entry = queue.get(key(consumerName, messageId));
+  if (!entry || entry.status !== "dead_letter") return false;
+
+  entry.status = "pending";
+  entry.attempts = 0;
+  entry.next_attempt_at = new Date().toISOString();
+  await persist(supabase, entry);
+  logger.info("Dead letter requeued", { consumer: consumerName, messageId });
+  return true;
+}
+
+/**
+ * Rehydrate the queue from ums_consumer_deliveries at startup.
+ * Rows whose message no longer exists are dropped.
+ */
+export async function loadPendingDeliveries(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("ums_consumer_deliveries")
+    .select("*, message:unified_messages(*)")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    logger.error("Failed to load pending deliveries", { error: error.message });
+    return 0;
+  }
+
+  let loaded = 0;
+  for (const row of (data || []) as Array<PendingDelivery & { message: UnifiedMessage | null }>) {
+    if (!row.message) continue;
+    queue.set(key(row.consumer_name, row.message_id), {
+      consumer_name: row.consumer_name,
+      message_id: row.message_id,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at,
+      last_error: row.last_error,
+      status: row.status,
+      created_at: row.created_at,
+      message: row.message,
+    });
+    loaded++;
+  }
+
+  if (loaded > 0) logger.info("Pending deliveries restored", { count: loaded });
+  return loaded;
+}
+
+/** Reset for testing */
+export function _resetForTesting(): void {
+  queue.clear();
+}
+
+export { MAX_DELIVERY_ATTEMPTS, MAX_PENDING_PER_CONSUMER };
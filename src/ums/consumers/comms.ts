@@ -16,7 +16,7 @@ import { log } from "../../logger.ts";
 const logger = log.child("ums-consumer-comms");
 
 /** Channels where thread tracking makes sense. */
-const THREADED_PROVIDERS = new Set(["telegram", "gchat", "gmail"]);
+const THREADED_PROVIDERS = new Set(["telegram", "gchat", "gmail", "eml"]);
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -52,6 +52,7 @@ let staleThresholds: Record<string, number> = {
   telegram: 4,
   gchat: 4,
   gmail: 48,
+  eml: 48,
 };
 
 /** Owner identities — emails, usernames, names that identify the user's own messages. */
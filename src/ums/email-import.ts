@@ -0,0 +1,67 @@
+/**
+ * UMS — Email archive import
+ *
+ * Batch ingestion for raw mail exports (.eml files, mbox archives). Each
+ * message goes through the eml connector and ingestNormalized(), so it lands
+ * in unified_messages and fans out to push consumers (relationship, comms,
+ * summary...) exactly like live mail. Re-importing the same export is safe:
+ * the provider+provider_id unique index drops duplicates.
+ *
+ * Driven by POST /api/ums/import/email and scripts/import-email.ts.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ingestNormalized } from "./index.ts";
+import { emlConnector } from "./connectors/eml.ts";
+import { splitMbox } from "./mime.ts";
+import { log } from "../logger.ts";
+
+const logger = log.child("ums:email-import");
+
+export interface EmailImportOptions {
+  /** Export label — becomes the `eml:<source>` channel. */
+  source?: string;
+  /** Folder the messages came from. */
+  mailbox?: string;
+}
+
+export interface EmailImportResult {
+  total: number;
+  ingested: number;
+  /** Duplicates and insert failures (ingestNormalized doesn't distinguish). */
+  skipped: number;
+  /** Messages the connector couldn't parse. */
+  unparseable: number;
+}
+
+/** Import a list of raw RFC 5322 messages. Processed sequentially to keep consumer load steady. */
+export async function importEmails(
+  supabase: SupabaseClient,
+  messages: string[],
+  opts: EmailImportOptions = {},
+): Promise<EmailImportResult> {
+  const result: EmailImportResult = { total: messages.length, ingested: 0, skipped: 0, unparseable: 0 };
+
+  for (const raw of messages) {
+    const insert = emlConnector.normalize({ raw, source: opts.source, mailbox: opts.mailbox });
+    if (!insert) {
+      result.unparseable++;
+      continue;
+    }
+    const message = await ingestNormalized(supabase, insert);
+    if (message) result.ingested++;
+    else result.skipped++;
+  }
+
+  logger.info("Email import batch complete", { source: opts.source, ...result });
+  return result;
+}
+
+/** Import every message in an mbox archive. */
+export async function importMbox(
+  supabase: SupabaseClient,
+  archive: string,
+  opts: EmailImportOptions = {},
+): Promise<EmailImportResult> {
+  return importEmails(supabase, splitMbox(archive), opts);
+}
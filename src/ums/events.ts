@@ -6,15 +6,18 @@
  *   - Pull: query the unified_messages table with filters on your own schedule
  *
  * Push is an in-process EventEmitter — no external queue. If a push handler
- * fails, the consumer can catch up via pull. Simple beats complex.
+ * fails, the message is queued for redelivery with backoff and eventually
+ * dead-lettered (consumer-delivery.ts). replayConsumer() reprocesses a
+ * consumer's messages from its watermark or a timestamp after a fix.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { UnifiedMessage, MessageQueryFilters, Provider, ContentType } from "./types.ts";
 import { log } from "../logger.ts";
-import { advanceWatermark, recordWatermarkError } from "./consumer-watermark.ts";
+import { advanceWatermark, recordWatermarkError, getWatermark } from "./consumer-watermark.ts";
 import { shouldProcess, recordSuccess, recordFailure } from "./consumer-backoff.ts";
 import { recordProcessed, recordError } from "./consumer-health.ts";
+import { scheduleRedelivery, markDelivered, getDueDeliveries } from "./consumer-delivery.ts";
 
 const logger = log.child("ums-events");
 
@@ -41,7 +44,8 @@ const subscriptions: Subscription[] = [];
 /**
  * Register a push subscriber.
  * The handler fires for every new UnifiedMessage matching the filter.
- * Handlers should be fast and non-blocking — failures are logged, not retried.
+ * Handlers should be fast and non-blocking — failures are queued for
+ * redelivery with backoff, then dead-lettered.
  */
 export function subscribe(name: string, filter: SubscriptionFilter, handler: MessageHandler): void {
   subscriptions.push({ name, filter, handler });
@@ -75,25 +79,177 @@ export async function notify(message: UnifiedMessage, supabase?: SupabaseClient
     const check = shouldProcess(sub.name);
     if (!check.allowed) {
       logger.debug("Consumer skipped (backoff)", { name: sub.name, reason: check.reason });
+      // Hold the message until the consumer comes out of backoff
+      await scheduleRedelivery(supabase, sub.name, message, `skipped: ${check.reason}`, { countAttempt: false });
       continue;
     }
 
-    try {
-      await sub.handler(message);
-      recordSuccess(sub.name);
-      // ELLIE-1053: Track consumer health for /health endpoint
-      recordProcessed(sub.name);
-      // ELLIE-1032: Track successful processing
-      if (supabase) advanceWatermark(supabase, sub.name, message.id).catch(() => {});
-    } catch (err) {
-      recordFailure(sub.name, String(err));
-      // ELLIE-1053: Track consumer errors for /health endpoint
-      recordError(sub.name, String(err));
-      logger.error("UMS subscriber handler failed", { subscriber: sub.name, messageId: message.id, err });
-      // ELLIE-1032: Track consumer errors
-      if (supabase) recordWatermarkError(supabase, sub.name, String(err)).catch(() => {});
+    const error = await deliver(sub, message, supabase);
+    if (error) await scheduleRedelivery(supabase, sub.name, message, error);
+  }
+}
+
+/** Run one handler and record the outcome. Returns the error string on failure, null on success. */
+async function deliver(sub: Subscription, message: UnifiedMessage, supabase?: SupabaseClient | null): Promise<string | null> {
+  try {
+    await sub.handler(message);
+    recordSuccess(sub.name);
+    // ELLIE-1053: Track consumer health for /health endpoint
+    recordProcessed(sub.name);
+    // ELLIE-1032: Track successful processing
+    if (supabase) advanceWatermark(supabase, sub.name, message.id).catch(() => {});
+    return null;
+  } catch (err) {
+    recordFailure(sub.name, String(err));
+    // ELLIE-1053: Track consumer errors for /health endpoint
+    recordError(sub.name, String(err));
+    logger.error("UMS subscriber handler failed", { subscriber: sub.name, messageId: message.id, err });
+    // ELLIE-1032: Track consumer errors
+    if (supabase) recordWatermarkError(supabase, sub.name, String(err)).catch(() => {});
+    return String(err);
+  }
+}
+
+// ── Redelivery ─────────────────────────────────────────────────
+
+/**
+ * Retry queued deliveries whose backoff has elapsed.
+ * Called on a periodic tick. Consumers still in backoff are left queued;
+ * deliveries for consumers that are no longer subscribed are left untouched.
+ */
+export async function redeliverPending(
+  supabase?: SupabaseClient | null,
+  now: number = Date.now(),
+): Promise<{ delivered: number; failed: number }> {
+  let delivered = 0;
+  let failed = 0;
+
+  for (const due of getDueDeliveries(now)) {
+    const sub = subscriptions.find(s => s.name === due.consumerName);
+    if (!sub || !shouldProcess(sub.name).allowed) continue;
+
+    const error = await deliver(sub, due.message, supabase);
+    if (error) {
+      await scheduleRedelivery(supabase, sub.name, due.message, error);
+      failed++;
+    } else {
+      await markDelivered(supabase, sub.name, due.message.id);
+      delivered++;
+    }
+  }
+
+  if (delivered > 0 || failed > 0) {
+    logger.info("UMS redelivery pass complete", { delivered, failed });
+  }
+  return { delivered, failed };
+}
+
+// ── Replay ─────────────────────────────────────────────────────
+
+export interface ReplayOptions {
+  /** Replay messages received after this message (exclusive). */
+  fromMessageId?: string;
+  /** Replay messages received at or after this ISO timestamp. */
+  since?: string;
+  /** Stop at messages received at or before this ISO timestamp. */
+  until?: string;
+  /** Maximum messages to hand to the consumer (default 1000, max 10000). */
+  limit?: number;
+}
+
+export interface ReplayResult {
+  consumer: string;
+  from: string | null;
+  matched: number;
+  processed: number;
+  failed: number;
+  lastMessageId: string | null;
+}
+
+const DEFAULT_REPLAY_LIMIT = 1000;
+const MAX_REPLAY_LIMIT = 10_000;
+
+/**
+ * Replay a consumer from a watermark or timestamp.
+ *
+ * With no options the consumer resumes from its persisted watermark. Messages
+ * are handed to the handler oldest-first, bypassing backoff — replay is an
+ * explicit operator action after a consumer has been fixed. Failures go to
+ * the redelivery queue like any other failed delivery.
+ */
+export async function replayConsumer(
+  supabase: SupabaseClient,
+  name: string,
+  opts: ReplayOptions = {},
+): Promise<ReplayResult> {
+  const sub = subscriptions.find(s => s.name === name);
+  if (!sub) throw new Error(`Unknown UMS subscriber: ${name}`);
+
+  const limit = Math.min(opts.limit || DEFAULT_REPLAY_LIMIT, MAX_REPLAY_LIMIT);
+  // Keyset on (received_at, id) so rows sharing a timestamp aren't skipped at a page boundary.
+  // A cursor without an id (a `since` timestamp) is inclusive.
+  let cursor: { received_at: string; id: string | null } | null = opts.since ? { received_at: opts.since, id: null } : null;
+
+  if (!cursor) {
+    const fromId = opts.fromMessageId ?? (await getWatermark(supabase, name))?.last_message_id ?? null;
+    if (fromId) {
+      const { data } = await supabase
+        .from("unified_messages")
+        .select("received_at")
+        .eq("id", fromId)
+        .maybeSingle();
+      if (!data) throw new Error(`Replay start message not found: ${fromId}`);
+      cursor = { received_at: (data as { received_at: string }).received_at, id: fromId };
+    }
+  }
+
+  const result: ReplayResult = { consumer: name, from: cursor?.received_at ?? null, matched: 0, processed: 0, failed: 0, lastMessageId: null };
+  logger.info("UMS replay started", { consumer: name, from: result.from, until: opts.until, limit });
+
+  while (result.matched < limit) {
+    let query = supabase
+      .from("unified_messages")
+      .select("*")
+      .order("received_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(MAX_PULL_LIMIT);
+
+    if (cursor?.id) {
+      query = query.or(`received_at.gt."${cursor.received_at}",and(received_at.eq."${cursor.received_at}",id.gt."${cursor.id}")`);
+    } else if (cursor) {
+      query = query.gte("received_at", cursor.received_at);
+    }
+    if (opts.until) query = query.lte("received_at", opts.until);
+    if (sub.filter.provider) query = query.eq("provider", sub.filter.provider);
+    if (sub.filter.content_type) query = query.eq("content_type", sub.filter.content_type);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Replay query failed: ${error.message}`);
+
+    const batch = (data || []) as UnifiedMessage[];
+    for (const message of batch) {
+      if (result.matched >= limit) break;
+      if (!matchesFilter(message, sub.filter)) continue;
+      result.matched++;
+
+      const deliveryError = await deliver(sub, message, supabase);
+      if (deliveryError) {
+        await scheduleRedelivery(supabase, name, message, deliveryError);
+        result.failed++;
+      } else {
+        await markDelivered(supabase, name, message.id);
+        result.processed++;
+      }
+      result.lastMessageId = message.id;
     }
+
+    if (batch.length < MAX_PULL_LIMIT) break;
+    const last = batch[batch.length - 1];
+    cursor = { received_at: last.received_at, id: last.id };
   }
+
+  logger.info("UMS replay complete", { ...result });
+  return result;
 }
 
 function matchesFilter(message: UnifiedMessage, filter: SubscriptionFilter): boolean {
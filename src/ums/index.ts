@@ -94,9 +94,11 @@ export async function ingestNormalized(
 
 // ── Re-export core ─────────────────────────────────────────────
 export { registerConnector, getConnector, listProviders } from "./connector.ts";
-export { subscribe, unsubscribe, listSubscribers, queryMessages } from "./events.ts";
+export { subscribe, unsubscribe, listSubscribers, queryMessages, redeliverPending, replayConsumer } from "./events.ts";
+export { listDeliveries, listDeadLetters, requeueDeadLetter, loadPendingDeliveries } from "./consumer-delivery.ts";
 export type { UMSConnector } from "./connector.ts";
-export type { SubscriptionFilter, MessageHandler } from "./events.ts";
+export type { SubscriptionFilter, MessageHandler, ReplayOptions, ReplayResult } from "./events.ts";
+export type { PendingDelivery, DeliveryStatus } from "./consumer-delivery.ts";
 export type { UnifiedMessage, UnifiedMessageInsert, MessageQueryFilters, Provider, ContentType, Sender } from "./types.ts";
 
 // ── Connectors ─────────────────────────────────────────────────
@@ -110,6 +112,15 @@ export { githubConnector } from "./connectors/github.ts";
 export { documentsConnector } from "./connectors/documents.ts";
 export { microsoftGraphConnector } from "./connectors/microsoft-graph.ts";
 export { imapConnector } from "./connectors/imap.ts";
+export { emlConnector } from "./connectors/eml.ts";
+export { matrixConnector } from "./connectors/matrix.ts";
+export type { EmlPayload } from "./connectors/eml.ts";
+
+// ── Email archive import ──────────────────────────────────────
+export { importEmails, importMbox } from "./email-import.ts";
+export type { EmailImportOptions, EmailImportResult } from "./email-import.ts";
+export { parseEmail, splitMbox } from "./mime.ts";
+export type { ParsedEmail, EmailAddress, EmailAttachment } from "./mime.ts";
 
 // ── Domain Events (ELLIE-664) ─────────────────────────────────
 export { emitDomainEvent, _buildDomainEventMessage } from "./domain-events.ts";
@@ -0,0 +1,385 @@
+/**
+ * UMS — RFC 5322 / MIME message parsing
+ *
+ * Turns a raw email (an .eml file, or one entry of an mbox archive) into a
+ * structured ParsedEmail: decoded headers, address lists, threading IDs,
+ * text/html bodies and attachment metadata. Attachment content is measured
+ * but never kept — UMS stores what arrived, not the payload.
+ *
+ * Pure and dependency-free so the eml connector stays a pure normalizer.
+ * Handles: header folding, RFC 2047 encoded-words, RFC 2231 filenames,
+ * nested multipart, base64 / quoted-printable, non-UTF-8 charsets, and
+ * mboxo/mboxrd "From " escaping.
+ *
+ * The raw message may be decoded text or a byte string — one character per
+ * byte, as from a file read as latin1. Byte strings keep 8bit bodies intact
+ * whatever their charset; their headers and 8bit parts are decoded here
+ * (UTF-8 headers, each part with its declared charset).
+ */
+
+// ── Types ─────────────────────────────────────────────────────
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string | null;
+  content_type: string;
+  size: number;
+  content_id: string | null;
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  /** Lower-cased header name → all values, decoded, in order of appearance. */
+  headers: Record<string, string[]>;
+  message_id: string | null;
+  subject: string | null;
+  from: EmailAddress[];
+  sender: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  reply_to: EmailAddress[];
+  /** ISO 8601, or null if the Date header is missing or unparseable. */
+  date: string | null;
+  in_reply_to: string | null;
+  references: string[];
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Record<string, string[]>;
+  body: string;
+}
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+// ── Message parsing ───────────────────────────────────────────
+
+/** Parse a raw RFC 5322 message. */
+export function parseEmail(raw: string): ParsedEmail {
+  const root = splitPart(raw);
+  const h = (name: string) => root.headers[name]?.[0] ?? null;
+
+  const parsed: ParsedEmail = {
+    headers: root.headers,
+    message_id: extractMessageIds(h("message-id") || "")[0] ?? null,
+    subject: h("subject"),
+    from: parseAddressList(h("from") || ""),
+    sender: parseAddressList(h("sender") || "")[0] ?? null,
+    to: (root.headers["to"] || []).flatMap(parseAddressList),
+    cc: (root.headers["cc"] || []).flatMap(parseAddressList),
+    bcc: (root.headers["bcc"] || []).flatMap(parseAddressList),
+    reply_to: parseAddressList(h("reply-to") || ""),
+    date: parseDate(h("date")),
+    in_reply_to: extractMessageIds(h("in-reply-to") || "")[0] ?? null,
+    references: extractMessageIds(h("references") || ""),
+    text: null,
+    html: null,
+    attachments: [],
+  };
+
+  walkPart(root, parsed);
+  return parsed;
+}
+
+/** Recursively collect bodies and attachments from a MIME part. */
+function walkPart(part: MimePart, out: ParsedEmail): void {
+  const ct = parseContentType(part.headers["content-type"]?.[0] || "text/plain");
+  const disposition = parseContentType(part.headers["content-disposition"]?.[0] || "");
+  const filename = disposition.params["filename"] || ct.params["name"] || null;
+  const isAttachment = disposition.type === "attachment" || (!!filename && !ct.type.startsWith("multipart/"));
+
+  if (ct.type.startsWith("multipart/") && ct.params["boundary"]) {
+    for (const child of splitMultipart(part.body, ct.params["boundary"])) {
+      walkPart(splitPart(child), out);
+    }
+    return;
+  }
+
+  const encoding = (part.headers["content-transfer-encoding"]?.[0] || "7bit").toLowerCase().trim();
+  const bytes = decodeTransfer(part.body, encoding);
+
+  // Unencoded bodies are already text unless they arrived as bytes
+  const isUnencoded = encoding !== "base64" && encoding !== "quoted-printable";
+  const text = () => isUnencoded
+    ? decodeByteString(part.body, ct.params["charset"])
+    : decodeCharset(bytes, ct.params["charset"]);
+
+  if (!isAttachment && ct.type === "text/plain" && out.text === null) {
+    out.text = text();
+    return;
+  }
+  if (!isAttachment && ct.type === "text/html" && out.html === null) {
+    out.html = text();
+    return;
+  }
+
+  out.attachments.push({
+    filename,
+    content_type: ct.type,
+    size: bytes.length,
+    content_id: extractMessageIds(part.headers["content-id"]?.[0] || "")[0] ?? null,
+    inline: disposition.type === "inline",
+  });
+}
+
+/** Split a part into headers and body at the first blank line. */
+function splitPart(raw: string): MimePart {
+  const text = raw.replace(/\r\n/g, "\n");
+  const sep = text.indexOf("\n\n");
+  const headerBlock = sep >= 0 ? text.slice(0, sep) : text;
+  const body = sep >= 0 ? text.slice(sep + 2) : "";
+  return { headers: parseHeaders(decodeByteString(headerBlock, "utf-8")), body };
+}
+
+/** Parse a header block: unfold continuation lines, decode encoded-words. */
+export function parseHeaders(block: string): Record<string, string[]> {
+  const headers: Record<string, string[]> = {};
+  const unfolded = block.replace(/\r\n/g, "\n").replace(/\n[ \t]+/g, " ");
+  for (const line of unfolded.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = decodeEncodedWords(line.slice(colon + 1).trim());
+    (headers[name] ||= []).push(value);
+  }
+  return headers;
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split("\n")) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) break;
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join("\n"));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) parts.push(current.join("\n"));
+  return parts;
+}
+
+// ── Header values ─────────────────────────────────────────────
+
+/** Parse a Content-Type / Content-Disposition value into type + params. */
+export function parseContentType(value: string): ContentType {
+  const [type, ...rest] = splitOutsideQuotes(value, ";");
+  const params: Record<string, string> = {};
+  const continuations: Record<string, string[]> = {};
+
+  for (const raw of rest) {
+    const eq = raw.indexOf("=");
+    if (eq < 0) continue;
+    let key = raw.slice(0, eq).trim().toLowerCase();
+    let val = raw.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+
+    // RFC 2231: filename*=utf-8''na%C3%AFve.pdf, filename*0*=..., filename*1*=...
+    const ext = key.match(/^([^*]+)\*(\d+)?\*?$/);
+    if (ext) {
+      key = ext[1];
+      if (raw.slice(0, eq).trim().endsWith("*")) val = decodeRfc2231(val);
+      if (ext[2] !== undefined) {
+        (continuations[key] ||= [])[Number(ext[2])] = val;
+        continue;
+      }
+    }
+    params[key] = val;
+  }
+  for (const [key, pieces] of Object.entries(continuations)) {
+    params[key] = pieces.join("");
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeRfc2231(value: string): string {
+  const m = value.match(/^([^']*)'[^']*'(.*)$/);
+  const charset = m ? m[1] : "utf-8";
+  const encoded = m ? m[2] : value;
+  const bytes: number[] = [];
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === "%" && /^[0-9a-f]{2}$/i.test(encoded.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(encoded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  }
+  return decodeCharset(Uint8Array.from(bytes), charset || "utf-8");
+}
+
+/** Decode RFC 2047 encoded-words (=?charset?B|Q?text?=). Whitespace between adjacent words is dropped. */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bqBQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bqBQ]\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([bqBQ])\?([^?]*)\?=/g, (_m, charset: string, enc: string, text: string) => {
+      const bytes = enc.toUpperCase() === "B"
+        ? decodeTransfer(text, "base64")
+        : decodeTransfer(text.replace(/_/g, " "), "quoted-printable");
+      return decodeCharset(bytes, charset.replace(/\*.*$/, ""));
+    });
+}
+
+/** Parse an address-list header (From, To, Cc...) into name/address pairs. */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  // Groups ("Team: a@x, b@y;") contribute their members
+  const flattened = value.replace(/(^|,)\s*[^,"<>@]*:\s*([^;]*);/g, "$1$2");
+
+  for (const item of splitOutsideQuotes(flattened, ",")) {
+    const entry = item.trim();
+    if (!entry) continue;
+    const angle = entry.match(/^(.*)<([^>]*)>\s*$/);
+    if (angle) {
+      const name = angle[1].trim().replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1");
+      const address = angle[2].trim();
+      if (!address) continue;
+      addresses.push(name ? { name, address } : { address });
+    } else if (entry.includes("@")) {
+      // Legacy form: addr (Comment Name)
+      const comment = entry.match(/^(\S+)\s*\((.*)\)$/);
+      addresses.push(comment ? { name: comment[2], address: comment[1] } : { address: entry });
+    }
+  }
+  return addresses;
+}
+
+/** Extract <message-id> tokens from Message-ID / In-Reply-To / References. */
+export function extractMessageIds(value: string): string[] {
+  return value.match(/<[^<>\s]+>/g) || [];
+}
+
+function parseDate(value: string | null): string | null {
+  if (!value) return null;
+  // Strip trailing comments like "(PST)" that some clients append
+  const ts = Date.parse(value.replace(/\s*\([^)]*\)\s*$/, ""));
+  return Number.isNaN(ts) ? null : new Date(ts).toISOString();
+}
+
+function splitOutsideQuotes(value: string, sep: string): string[] {
+  const out: string[] = [];
+  let current = "";
+  let quoted = false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "\\" && quoted) {
+      current += ch + (value[++i] ?? "");
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === "<") depth++;
+    else if (!quoted && ch === ">") depth = Math.max(0, depth - 1);
+    if (ch === sep && !quoted && depth === 0) {
+      out.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  out.push(current);
+  return out;
+}
+
+// ── Body decoding ─────────────────────────────────────────────
+
+function decodeTransfer(body: string, encoding: string): Uint8Array {
+  if (encoding === "base64") {
+    return Uint8Array.from(Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64"));
+  }
+  if (encoding === "quoted-printable") {
+    const bytes: number[] = [];
+    const text = body.replace(/=\r?\n/g, "");
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+        bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+        i += 2;
+      } else {
+        for (const b of Buffer.from(text[i], byteEncoding(text))) bytes.push(b);
+      }
+    }
+    return Uint8Array.from(bytes);
+  }
+  // 7bit / 8bit / binary — the string holds the characters, or the bytes themselves
+  return Uint8Array.from(Buffer.from(body, byteEncoding(body)));
+}
+
+/** True when every character fits in a byte, so the string may be raw bytes. */
+function isByteString(value: string): boolean {
+  return !/[^\x00-\xff]/.test(value);
+}
+
+function byteEncoding(value: string): BufferEncoding {
+  return isByteString(value) ? "latin1" : "utf8";
+}
+
+/**
+ * Decode a string that may hold raw bytes with the given charset. Text
+ * that is already decoded (wider characters, or bytes that are not valid
+ * in the charset) is returned unchanged.
+ */
+function decodeByteString(value: string, charset: string | undefined): string {
+  if (!/[\x80-\xff]/.test(value) || !isByteString(value)) return value;
+  const label = (charset || "utf-8").trim().toLowerCase();
+  try {
+    return new TextDecoder(label, { fatal: true }).decode(Buffer.from(value, "latin1"));
+  } catch {
+    return value;
+  }
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  const label = (charset || "utf-8").trim().toLowerCase();
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// ── mbox ──────────────────────────────────────────────────────
+
+/**
+ * Split an mbox archive into raw messages.
+ * A message starts at a "From " line at the top of the file or after a blank
+ * line. Escaped ">From " lines (mboxo and mboxrd) lose one leading ">".
+ */
+export function splitMbox(archive: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+  let prevBlank = true;
+
+  for (const line of archive.replace(/\r\n/g, "\n").split("\n")) {
+    if (prevBlank && line.startsWith("From ")) {
+      if (current) messages.push(finishMboxMessage(current));
+      current = [];
+      prevBlank = false;
+      continue;
+    }
+    prevBlank = line === "";
+    current?.push(/^>+From /.test(line) ? line.slice(1) : line);
+  }
+  if (current) messages.push(finishMboxMessage(current));
+  return messages.filter(m => m.trim().length > 0);
+}
+
+function finishMboxMessage(lines: string[]): string {
+  // The blank line before the next "From " separator belongs to the archive, not the message
+  if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines.join("\n");
+}
@@ -15,6 +15,7 @@ export type Provider =
   | "outlook"
   | "slack"
   | "discord"
+  | "matrix"
   | "voice"
   | "mountain"
   | (string & {});
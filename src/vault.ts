@@ -2,13 +2,34 @@
  * Credential Vault — AES-256-GCM encrypted credential storage
  *
  * ELLIE-32: Secure credential vault for authenticated site access.
- * Master key from VAULT_MASTER_KEY env var (64 hex chars = 32 bytes).
  * Credentials are encrypted before storage and decrypted on retrieval.
  * Plaintext credentials must NEVER appear in logs.
+ *
+ * Envelope encryption: each credential's payload is encrypted with its own
+ * random data key; the data key is stored wrapped (encrypted) by a versioned
+ * master key, and `key_version` records which one. Rotating the master key
+ * only re-wraps data keys — payload ciphertext is untouched.
+ *
+ * Master keys (64 hex chars = 32 bytes each):
+ *   VAULT_MASTER_KEY          — version 1
+ *   VAULT_MASTER_KEY_V<n>     — version n
+ *   VAULT_ACTIVE_KEY_VERSION  — version that wraps new data keys (default: highest set)
+ *
+ * Rows written before envelope encryption (wrapped_key NULL) are encrypted
+ * directly with version 1 and are upgraded by rotateVaultKeys().
+ *
+ * Every decryption is recorded in credential_access_log with the accessor.
+ *
+ * This is the relay's only credential store: site credentials and the
+ * keychain secrets services sign with both live here. Entries from the
+ * retired Hollow store are copied in by `bun run vault:import-hollow`.
  */
 
 import { randomBytes, createCipheriv, createDecipheriv } from "crypto";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { log } from "./logger.ts";
+
+const logger = log.child("vault");
 
 // ============================================================
 // TYPES
@@ -56,23 +77,66 @@ export interface CredentialRecord {
   notes: string | null;
   last_used_at: string | null;
   expires_at: string | null;
+  /** Master key version wrapping this credential's data key (null = legacy, pre-envelope). */
+  key_version: number | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Who is reading a credential — recorded in credential_access_log. */
+export interface VaultAccessor {
+  /** User, service or "agent:<name>". */
+  actor: string;
+  agent?: string;
+  purpose?: string;
+}
+
+/** Encrypted columns of a credentials row. */
+export interface SealedPayload {
+  encrypted_data: string;
+  wrapped_key: string | null;
+  key_version: number | null;
+}
+
 // Columns returned in list/get queries (never includes encrypted_data)
 const SAFE_COLUMNS =
-  "id, label, domain, credential_type, notes, last_used_at, expires_at, created_at, updated_at";
+  "id, label, domain, credential_type, notes, last_used_at, expires_at, key_version, created_at, updated_at";
+
+// Domain prefix of keychain secrets (see KEYCHAIN SECRETS)
+const KEYCHAIN_DOMAIN_PREFIX = "keychain:";
 
 // ============================================================
 // KEY MANAGEMENT
 // ============================================================
 
-function getMasterKey(): Buffer {
-  const hex = process.env.VAULT_MASTER_KEY;
+function keyEnvName(version: number): string {
+  return version === 1 ? "VAULT_MASTER_KEY" : `VAULT_MASTER_KEY_V${version}`;
+}
+
+/** Master key versions configured in the environment, ascending. */
+export function getKeyVersions(): number[] {
+  const versions = new Set<number>();
+  if (process.env.VAULT_MASTER_KEY) versions.add(1);
+  for (const name of Object.keys(process.env)) {
+    const m = name.match(/^VAULT_MASTER_KEY_V(\d+)$/);
+    if (m && process.env[name]) versions.add(Number(m[1]));
+  }
+  return [...versions].sort((a, b) => a - b);
+}
+
+/** Version used to wrap new data keys. */
+export function getActiveKeyVersion(): number {
+  const configured = process.env.VAULT_ACTIVE_KEY_VERSION;
+  if (configured) return Number(configured);
+  return getKeyVersions().at(-1) ?? 1;
+}
+
+function getMasterKey(version: number = getActiveKeyVersion()): Buffer {
+  const name = keyEnvName(version);
+  const hex = process.env[name];
   if (!hex || hex.length !== 64) {
     throw new Error(
-      "VAULT_MASTER_KEY must be set as a 64-character hex string (32 bytes)",
+      `${name} must be set as a 64-character hex string (32 bytes)`,
     );
   }
   return Buffer.from(hex, "hex");
@@ -82,12 +146,12 @@ function getMasterKey(): Buffer {
 // ENCRYPT / DECRYPT
 // ============================================================
 
-export function encrypt(plaintext: string): string {
-  const key = getMasterKey();
+/** AES-256-GCM with `key` (default: the active master key). */
+export function encrypt(plaintext: string | Buffer, key: Buffer = getMasterKey()): string {
   const iv = randomBytes(12); // 96-bit IV for GCM
   const cipher = createCipheriv("aes-256-gcm", key, iv);
   const encrypted = Buffer.concat([
-    cipher.update(plaintext, "utf8"),
+    typeof plaintext === "string" ? cipher.update(plaintext, "utf8") : cipher.update(plaintext),
     cipher.final(),
   ]);
   const authTag = cipher.getAuthTag(); // 128-bit integrity tag
@@ -96,19 +160,109 @@ export function encrypt(plaintext: string): string {
   return combined.toString("base64");
 }
 
-export function decrypt(packed: string): string {
-  const key = getMasterKey();
+export function decrypt(packed: string, key: Buffer = getMasterKey()): string {
+  return decryptBytes(packed, key).toString("utf8");
+}
+
+function decryptBytes(packed: string, key: Buffer): Buffer {
   const combined = Buffer.from(packed, "base64");
   const iv = combined.subarray(0, 12);
   const authTag = combined.subarray(combined.length - 16);
   const ciphertext = combined.subarray(12, combined.length - 16);
   const decipher = createDecipheriv("aes-256-gcm", key, iv);
   decipher.setAuthTag(authTag);
-  const decrypted = Buffer.concat([
+  return Buffer.concat([
     decipher.update(ciphertext),
     decipher.final(),
   ]);
-  return decrypted.toString("utf8");
+}
+
+// ============================================================
+// ENVELOPE
+// ============================================================
+
+/** Encrypt a payload under a fresh data key wrapped by master key `version`. */
+export function sealPayload(plaintext: string, version: number = getActiveKeyVersion()): SealedPayload {
+  const dataKey = randomBytes(32);
+  return {
+    encrypted_data: encrypt(plaintext, dataKey),
+    wrapped_key: encrypt(dataKey, getMasterKey(version)),
+    key_version: version,
+  };
+}
+
+function unwrapDataKey(sealed: SealedPayload): Buffer {
+  return decryptBytes(sealed.wrapped_key!, getMasterKey(sealed.key_version ?? 1));
+}
+
+/** Decrypt a sealed payload (or a legacy row encrypted directly with master key v1). */
+export function openPayload(sealed: SealedPayload): string {
+  if (!sealed.wrapped_key) return decrypt(sealed.encrypted_data, getMasterKey(1));
+  return decrypt(sealed.encrypted_data, unwrapDataKey(sealed));
+}
+
+/**
+ * Re-wrap a row's data key under master key `version`. Legacy rows are
+ * sealed from scratch (they have no data key yet).
+ */
+export function rewrapPayload(sealed: SealedPayload, version: number = getActiveKeyVersion()): SealedPayload {
+  if (!sealed.wrapped_key) return sealPayload(openPayload(sealed), version);
+  return {
+    encrypted_data: sealed.encrypted_data,
+    wrapped_key: encrypt(unwrapDataKey(sealed), getMasterKey(version)),
+    key_version: version,
+  };
+}
+
+// ============================================================
+// ACCESS AUDIT
+// ============================================================
+
+/**
+ * Record a credential read. Throws if the entry can't be written —
+ * a decrypted payload is never returned without an audit trail.
+ */
+async function recordAccess(
+  supabase: SupabaseClient,
+  credentialId: string,
+  accessor: VaultAccessor,
+  via: string,
+): Promise<void> {
+  const { error } = await supabase.from("credential_access_log").insert({
+    credential_id: credentialId,
+    actor: accessor.actor,
+    agent: accessor.agent ?? null,
+    purpose: accessor.purpose ?? null,
+    via,
+  });
+  if (error) throw new Error(`Failed to record credential access: ${error.message}`);
+}
+
+export interface CredentialAccessEntry {
+  id: string;
+  credential_id: string;
+  actor: string;
+  agent: string | null;
+  purpose: string | null;
+  via: string;
+  accessed_at: string;
+}
+
+export async function listCredentialAccess(
+  supabase: SupabaseClient,
+  filters: { credential_id?: string; actor?: string; limit?: number } = {},
+): Promise<CredentialAccessEntry[]> {
+  let query = supabase
+    .from("credential_access_log")
+    .select("*")
+    .order("accessed_at", { ascending: false })
+    .limit(filters.limit ?? 100);
+  if (filters.credential_id) query = query.eq("credential_id", filters.credential_id);
+  if (filters.actor) query = query.eq("actor", filters.actor);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to list credential access: ${error.message}`);
+  return (data ?? []) as CredentialAccessEntry[];
 }
 
 // ============================================================
@@ -126,7 +280,7 @@ export async function createCredential(
     expires_at?: string;
   },
 ): Promise<CredentialRecord> {
-  const encrypted_data = encrypt(JSON.stringify(params.payload));
+  const sealed = sealPayload(JSON.stringify(params.payload));
 
   const { data, error } = await supabase
     .from("credentials")
@@ -134,7 +288,7 @@ export async function createCredential(
       label: params.label,
       domain: params.domain,
       credential_type: params.credential_type,
-      encrypted_data,
+      ...sealed,
       notes: params.notes || null,
       expires_at: params.expires_at || null,
     })
@@ -155,6 +309,7 @@ export async function listCredentials(
     .order("created_at", { ascending: false });
 
   if (filters?.domain) query = query.eq("domain", filters.domain);
+  else query = query.not("domain", "like", `${KEYCHAIN_DOMAIN_PREFIX}%`);
   if (filters?.credential_type)
     query = query.eq("credential_type", filters.credential_type);
 
@@ -166,20 +321,21 @@ export async function listCredentials(
 export async function getCredential(
   supabase: SupabaseClient,
   id: string,
-): Promise<CredentialRecord> {
+): Promise<CredentialRecord | null> {
   const { data, error } = await supabase
     .from("credentials")
     .select(SAFE_COLUMNS)
     .eq("id", id)
-    .single();
+    .maybeSingle();
 
   if (error) throw new Error(`Failed to get credential: ${error.message}`);
-  return data as CredentialRecord;
+  return (data as CredentialRecord | null) ?? null;
 }
 
 export async function getDecryptedPayload(
   supabase: SupabaseClient,
   id: string,
+  accessor: VaultAccessor,
 ): Promise<{ record: CredentialRecord; payload: CredentialPayload }> {
   const { data, error } = await supabase
     .from("credentials")
@@ -189,7 +345,8 @@ export async function getDecryptedPayload(
 
   if (error) throw new Error(`Failed to get credential: ${error.message}`);
 
-  const payload = JSON.parse(decrypt(data.encrypted_data)) as CredentialPayload;
+  const payload = JSON.parse(openPayload(data)) as CredentialPayload;
+  await recordAccess(supabase, id, accessor, "getDecryptedPayload");
 
   // Update last_used_at (fire-and-forget)
   supabase
@@ -198,14 +355,15 @@ export async function getDecryptedPayload(
     .eq("id", id)
     .then(() => {});
 
-  const { encrypted_data: _, ...record } = data;
+  const { encrypted_data: _, wrapped_key: _wk, ...record } = data;
   return { record: record as CredentialRecord, payload };
 }
 
 export async function getCredentialForDomain(
   supabase: SupabaseClient,
   domain: string,
-  type?: CredentialType,
+  type: CredentialType | undefined,
+  accessor: VaultAccessor,
 ): Promise<{ record: CredentialRecord; payload: CredentialPayload } | null> {
   let query = supabase
     .from("credentials")
@@ -221,7 +379,8 @@ export async function getCredentialForDomain(
   if (!data?.length) return null;
 
   const row = data[0];
-  const payload = JSON.parse(decrypt(row.encrypted_data)) as CredentialPayload;
+  const payload = JSON.parse(openPayload(row)) as CredentialPayload;
+  await recordAccess(supabase, row.id, accessor, "getCredentialForDomain");
 
   // Update last_used_at (fire-and-forget)
   supabase
@@ -230,7 +389,7 @@ export async function getCredentialForDomain(
     .eq("id", row.id)
     .then(() => {});
 
-  const { encrypted_data: _, ...record } = row;
+  const { encrypted_data: _, wrapped_key: _wk, ...record } = row;
   return { record: record as CredentialRecord, payload };
 }
 
@@ -257,7 +416,7 @@ export async function updateCredential(
   if (updates.notes !== undefined) updateData.notes = updates.notes;
   if (updates.expires_at !== undefined) updateData.expires_at = updates.expires_at;
   if (updates.payload !== undefined) {
-    updateData.encrypted_data = encrypt(JSON.stringify(updates.payload));
+    Object.assign(updateData, sealPayload(JSON.stringify(updates.payload)));
   }
 
   const { data, error } = await supabase
@@ -278,3 +437,272 @@ export async function deleteCredential(
   const { error } = await supabase.from("credentials").delete().eq("id", id);
   if (error) throw new Error(`Failed to delete credential: ${error.message}`);
 }
+
+/** Domains with at least one stored credential (keychain secrets excluded). */
+export async function listCredentialDomains(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("credentials")
+    .select("domain")
+    .not("domain", "like", `${KEYCHAIN_DOMAIN_PREFIX}%`);
+  if (error) throw new Error(`Failed to list credential domains: ${error.message}`);
+  return [...new Set((data ?? []).map((r: { domain: string }) => r.domain))].sort();
+}
+
+// ============================================================
+// KEYCHAIN SECRETS
+// ============================================================
+
+// Service secrets (JWT signing secret, gateway HMAC secret, OS auth keys)
+// are credentials like any other: domain "keychain:<keychainId>", label the
+// secret name, payload { key: value }. They share envelope encryption,
+// rotation and the access log, but are left out of the credential list.
+
+/** The owner's keychain (single-user system). */
+export const DEFAULT_KEYCHAIN_ID = "568c0a6a-0c98-4784-87f3-d909139d8c35";
+
+export function keychainDomain(keychainId: string): string {
+  return `${KEYCHAIN_DOMAIN_PREFIX}${keychainId}`;
+}
+
+async function findSecretRow(supabase: SupabaseClient, keychainId: string, name: string) {
+  const { data, error } = await supabase
+    .from("credentials")
+    .select("*, encrypted_data")
+    .eq("domain", keychainDomain(keychainId))
+    .eq("label", name)
+    .order("updated_at", { ascending: false })
+    .limit(1);
+  if (error) throw new Error(`Failed to find secret: ${error.message}`);
+  return data?.[0] ?? null;
+}
+
+/** A keychain secret's value, or null if it isn't stored. The read is audited. */
+export async function retrieveSecret(
+  supabase: SupabaseClient,
+  keychainId: string,
+  name: string,
+  accessor: VaultAccessor,
+): Promise<string | null> {
+  const row = await findSecretRow(supabase, keychainId, name);
+  if (!row) return null;
+  const payload = JSON.parse(openPayload(row)) as ApiKeyPayload;
+  await recordAccess(supabase, row.id, accessor, "retrieveSecret");
+  return payload.key;
+}
+
+/** Create or replace a keychain secret. */
+export async function storeSecret(
+  supabase: SupabaseClient,
+  keychainId: string,
+  name: string,
+  value: string,
+): Promise<void> {
+  const existing = await findSecretRow(supabase, keychainId, name);
+  if (existing) {
+    await updateCredential(supabase, existing.id, { payload: { key: value } });
+    return;
+  }
+  await createCredential(supabase, {
+    label: name,
+    domain: keychainDomain(keychainId),
+    credential_type: "api_key",
+    payload: { key: value },
+  });
+}
+
+// ============================================================
+// HOLLOW IMPORT
+// ============================================================
+
+/** The parts of the retired Hollow store the import reads. */
+export interface LegacyVaultSource {
+  /** Site credentials with their decrypted payloads. */
+  listCredentials(): Promise<Array<{
+    label: string;
+    domain: string;
+    credential_type: CredentialType;
+    payload: unknown;
+    notes?: string | null;
+    expires_at?: string | Date | null;
+  }>>;
+  retrieveSecret(keychainId: string, name: string): Promise<string | null>;
+}
+
+/** Keychain secrets the relay reads, by keychain. */
+export const KEYCHAIN_SECRETS: Record<string, string[]> = {
+  [DEFAULT_KEYCHAIN_ID]: ["jwt_signing_secret", "gateway_hmac_secret"],
+  "os-auth-signing-keys": ["key_store", "private_key", "public_key", "kid"],
+};
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  failed: { label: string; error: string }[];
+}
+
+/** Hollow payloads are JSON text, or the bare key for some api_key entries. */
+function legacyPayload(type: CredentialType, payload: unknown): CredentialPayload {
+  let value = payload;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // bare secret
+    }
+  }
+  if (typeof value === "string") {
+    if (type === "api_key") return { key: value };
+    if (type === "bearer_token") return { token: value };
+    if (type === "cookie") return { cookie: value };
+    throw new Error(`Unreadable ${type} payload`);
+  }
+  return value as CredentialPayload;
+}
+
+async function credentialExists(supabase: SupabaseClient, domain: string, label: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("credentials")
+    .select("id")
+    .eq("domain", domain)
+    .eq("label", label)
+    .limit(1);
+  if (error) throw new Error(`Failed to look up credential: ${error.message}`);
+  return !!data?.length;
+}
+
+/**
+ * Copy every Hollow credential and keychain secret into the vault, sealed
+ * under the active master key. Idempotent: entries already in the vault
+ * (same domain and label) are skipped, so a re-run never overwrites a value
+ * changed since the first import.
+ */
+export async function importLegacyCredentials(
+  supabase: SupabaseClient,
+  source: LegacyVaultSource,
+  secrets: Record<string, string[]> = KEYCHAIN_SECRETS,
+): Promise<ImportResult> {
+  getMasterKey(getActiveKeyVersion()); // fail fast if the key is missing
+  const result: ImportResult = { imported: 0, skipped: 0, failed: [] };
+
+  for (const entry of await source.listCredentials()) {
+    const label = `${entry.domain}/${entry.label}`;
+    try {
+      if (await credentialExists(supabase, entry.domain, entry.label)) {
+        result.skipped++;
+        continue;
+      }
+      const expires = entry.expires_at instanceof Date ? entry.expires_at.toISOString() : entry.expires_at;
+      await createCredential(supabase, {
+        label: entry.label,
+        domain: entry.domain,
+        credential_type: entry.credential_type,
+        payload: legacyPayload(entry.credential_type, entry.payload),
+        notes: entry.notes ?? undefined,
+        expires_at: expires ?? undefined,
+      });
+      result.imported++;
+    } catch (err) {
+      result.failed.push({ label, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  for (const [keychainId, names] of Object.entries(secrets)) {
+    for (const name of names) {
+      const label = `${keychainDomain(keychainId)}/${name}`;
+      try {
+        if (await credentialExists(supabase, keychainDomain(keychainId), name)) {
+          result.skipped++;
+          continue;
+        }
+        const value = await source.retrieveSecret(keychainId, name);
+        if (!value) continue;
+        await storeSecret(supabase, keychainId, name, value);
+        result.imported++;
+      } catch (err) {
+        result.failed.push({ label, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  }
+
+  logger.info("Hollow import finished", { imported: result.imported, skipped: result.skipped, failed: result.failed.length });
+  return result;
+}
+
+// ============================================================
+// KEY ROTATION
+// ============================================================
+
+export interface RotationResult {
+  toVersion: number;
+  rotated: number;
+  failed: { id: string; error: string }[];
+  /** Rows still not on toVersion (failures, or rows left when maxRows was hit). */
+  remaining: number;
+}
+
+/**
+ * Re-wrap every credential's data key under master key `toVersion`
+ * (default: the active version). Resumable: progress is the data itself —
+ * rows already on `toVersion` are never selected, so a crashed or
+ * interrupted run simply picks up where it stopped.
+ *
+ * Each update is conditional on the row's wrapped key being unchanged, so
+ * a credential rewritten concurrently is left alone rather than clobbered.
+ */
+export async function rotateVaultKeys(
+  supabase: SupabaseClient,
+  opts: { toVersion?: number; batchSize?: number; maxRows?: number } = {},
+): Promise<RotationResult> {
+  const toVersion = opts.toVersion ?? getActiveKeyVersion();
+  getMasterKey(toVersion); // fail fast if the target key is missing
+  const batchSize = opts.batchSize ?? 100;
+  const result: RotationResult = { toVersion, rotated: 0, failed: [], remaining: 0 };
+  const stale = `key_version.is.null,key_version.neq.${toVersion}`;
+
+  let cursor: string | null = null;
+  let processed = 0;
+  while (opts.maxRows === undefined || processed < opts.maxRows) {
+    let query = supabase
+      .from("credentials")
+      .select("id, encrypted_data, wrapped_key, key_version")
+      .or(stale)
+      .order("id", { ascending: true })
+      .limit(batchSize);
+    if (cursor) query = query.gt("id", cursor);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to list credentials for rotation: ${error.message}`);
+    if (!data?.length) break;
+
+    for (const row of data as (SealedPayload & { id: string })[]) {
+      cursor = row.id;
+      processed++;
+      try {
+        const next = rewrapPayload(row, toVersion);
+        let update = supabase.from("credentials").update({ ...next, updated_at: new Date().toISOString() }).eq("id", row.id);
+        update = row.wrapped_key ? update.eq("wrapped_key", row.wrapped_key) : update.eq("encrypted_data", row.encrypted_data);
+        const { data: updated, error: updateError } = await update.select("id");
+        if (updateError) throw new Error(updateError.message);
+        if (updated?.length) result.rotated++;
+        else logger.info("Credential rewritten during rotation — left for the next pass", { id: row.id });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        result.failed.push({ id: row.id, error: message });
+        logger.error("Credential re-wrap failed", { id: row.id, error: message });
+      }
+      if (opts.maxRows !== undefined && processed >= opts.maxRows) break;
+    }
+    if (data.length < batchSize) break;
+  }
+
+  const { count } = await supabase
+    .from("credentials")
+    .select("id", { count: "exact", head: true })
+    .or(stale);
+  result.remaining = count ?? 0;
+
+  logger.info("Vault key rotation pass finished", {
+    toVersion, rotated: result.rotated, failed: result.failed.length, remaining: result.remaining,
+  });
+  return result;
+}
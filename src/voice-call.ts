@@ -1,13 +1,17 @@
 /**
  * Voice Call Module
  *
- * Bidirectional voice calls via Twilio + Whisper + Claude + ElevenLabs TTS.
+ * Bidirectional voice calls via Twilio + Whisper + Claude + TTS.
  *
  * Flow:
  *   Phone call → Twilio Media Stream (mulaw 8kHz)
- *     → accumulate audio chunks → silence detection → ffmpeg mulaw→WAV
- *     → Whisper transcription → Claude response → ElevenLabs TTS (ulaw_8000)
- *     → stream back to caller via WebSocket
+ *     → voice activity detection → Whisper transcription (partials while
+ *       the caller is still talking) → Claude response → sentence-by-sentence
+ *       TTS (mulaw 8kHz, routed for the "voice" channel — TTS_ROUTES)
+ *       → stream back to caller via WebSocket
+ *
+ * The caller can talk over Ellie: speech during playback cancels the reply
+ * and clears Twilio's buffer (barge-in). Turn handling is voice-duplex.ts.
  */
 
 import { WebSocketServer, WebSocket } from "ws";
@@ -18,7 +22,7 @@ import { join, dirname } from "path";
 import { ElevenLabsClient } from "elevenlabs";
 import Twilio from "twilio";
 import { log } from "./logger.ts";
-import { transcribeMulaw } from "./tts.ts";
+import { createDuplexVoiceSession, type TwilioStreamMessage } from "./voice-duplex.ts";
 
 const logger = log.child("voice-call");
 
@@ -33,7 +37,6 @@ const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || "";
 const TWILIO_PHONE_NUMBER = process.env.TWILIO_PHONE_NUMBER || "";
 const DAVE_PHONE_NUMBER = process.env.DAVE_PHONE_NUMBER || "";
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || "";
-const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || "EXAVITQu4vr4xnSDxMaL";
 
 const VOICE_CALL_PORT = parseInt(process.env.VOICE_CALL_PORT || "8765");
 const PUBLIC_URL = process.env.PUBLIC_URL || ""; // ngrok/cloudflare URL
@@ -48,9 +51,9 @@ const KNOWN_CALLERS: Record<string, string> = {
   "+12145389677": "Georgia",
 };
 
-// Silence detection: how long to wait after last audio before processing
-const SILENCE_THRESHOLD_MS = 1500;
-// Minimum audio duration to bother transcribing (ms)
+// Silence detection: how long after the caller stops talking before processing
+const SILENCE_THRESHOLD_MS = 1000;
+// Minimum speech duration to bother transcribing (ms)
 const MIN_AUDIO_MS = 500;
 
 // ============================================================
@@ -76,7 +79,7 @@ const DEFAULT_TOOLS = "Read,Edit,Write,Bash,Glob,Grep,WebSearch,WebFetch";
 const MCP_TOOLS = "mcp__google-workspace__*,mcp__github__*,mcp__memory__*,mcp__sequential-thinking__*";
 const ALLOWED_TOOLS = (process.env.ALLOWED_TOOLS || `${DEFAULT_TOOLS},${MCP_TOOLS}`).split(",").map(t => t.trim());
 
-async function callClaude(prompt: string): Promise<string> {
+async function callClaude(prompt: string, signal?: AbortSignal): Promise<string> {
   const args = [CLAUDE_PATH, "-p", "--output-format", "text"];
   if (AGENT_MODE) {
     args.push("--allowedTools", ...ALLOWED_TOOLS);
@@ -93,11 +96,15 @@ async function callClaude(prompt: string): Promise<string> {
   });
 
   const timeout = setTimeout(() => proc.kill(), 120_000);
+  const onAbort = () => proc.kill();
+  signal?.addEventListener("abort", onAbort, { once: true });
   const output = await new Response(proc.stdout).text();
   const stderr = await new Response(proc.stderr).text();
   clearTimeout(timeout);
+  signal?.removeEventListener("abort", onAbort);
 
   const exitCode = await proc.exited;
+  if (signal?.aborted) return "";
   if (exitCode !== 0) {
     logger.error("Claude error", { stderr });
     return "Sorry, I had trouble processing that. Could you repeat?";
@@ -106,187 +113,55 @@ async function callClaude(prompt: string): Promise<string> {
   return output.trim();
 }
 
-// ============================================================
-// ELEVENLABS TTS (text → mulaw base64 for Twilio)
-// ============================================================
-
-async function textToSpeechMulaw(text: string): Promise<string> {
-  if (!ELEVENLABS_API_KEY) {
-    logger.error("No ElevenLabs API key");
-    return "";
-  }
-
-  // Use the REST API directly for output_format control
-  const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}`,
-    {
-      method: "POST",
-      headers: {
-        "xi-api-key": ELEVENLABS_API_KEY,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_turbo_v2_5",
-        output_format: "ulaw_8000",
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.75,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const err = await response.text();
-    logger.error("ElevenLabs error", { status: response.status, body: err });
-    return "";
-  }
-
-  const audioBuffer = Buffer.from(await response.arrayBuffer());
-  return audioBuffer.toString("base64");
-}
-
 // ============================================================
 // CALL SESSION — one per active call
 // ============================================================
 
 interface CallSession {
-  ws: WebSocket;
-  streamSid: string | null;
-  callSid: string | null;
   callerName: string;
   callerNumber: string;
-  audioChunks: Buffer[];
-  silenceTimer: ReturnType<typeof setTimeout> | null;
-  lastAudioTime: number;
-  processing: boolean;
   conversationHistory: Array<{ role: string; content: string }>;
 }
 
-function createSession(ws: WebSocket, callerName: string, callerNumber: string): CallSession {
-  return {
-    ws,
-    streamSid: null,
-    callSid: null,
-    callerName,
-    callerNumber,
-    audioChunks: [],
-    silenceTimer: null,
-    lastAudioTime: 0,
-    processing: false,
-    conversationHistory: [],
-  };
-}
-
-async function processAudio(session: CallSession): Promise<void> {
-  if (session.processing || session.audioChunks.length === 0) return;
-  session.processing = true;
-
-  const chunks = session.audioChunks.splice(0);
-
-  try {
-    // 1. Transcribe
-    logger.info("Transcribing chunks", { count: chunks.length });
-    const text = await transcribeMulaw(chunks);
-
-    if (!text || text.length < 2) {
-      logger.info("Empty transcription, skipping");
-      session.processing = false;
-      return;
-    }
-
-    logger.info("User said", { text });
-    session.conversationHistory.push({ role: "user", content: text });
-
-    // 2. Get Claude response
-    const conversationContext = session.conversationHistory
-      .slice(-6) // last 6 turns (reduced for latency)
-      .map(m => `${m.role}: ${m.content}`)
-      .join("\n");
-
-    // Format current time with timezone
-    const now = new Date();
-    const { USER_TIMEZONE } = await import("./timezone.ts");
-    const timeStr = now.toLocaleString("en-US", {
-      timeZone: USER_TIMEZONE,
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-
-    const prompt = [
-      `You are Ellie, Dave's AI assistant. You are on a VOICE CALL with ${session.callerName}.`,
-      "Keep responses SHORT and natural for speech — 1-3 sentences max.",
-      "No markdown, no bullet points, no formatting. Just spoken words.",
-      "Be warm and conversational, like talking to a friend.",
-      "",
-      `Speaking with: ${session.callerName}`,
-      `Current time: ${timeStr}`,
-      "",
-      "Conversation so far:",
-      conversationContext,
-      "",
-      `${session.callerName} just said: ${text}`,
-    ].join("\n");
-
-    const response = await callClaude(prompt);
-    // Strip any memory tags from voice response
-    const cleanResponse = response
-      .replace(/\[REMEMBER:.*?\]/g, "")
-      .replace(/\[GOAL:.*?\]/g, "")
-      .replace(/\[DONE:.*?\]/g, "")
-      .trim();
-
-    logger.info("Ellie says", { response: cleanResponse });
-    session.conversationHistory.push({ role: "assistant", content: cleanResponse });
-
-    // 3. TTS → mulaw
-    const audioBase64 = await textToSpeechMulaw(cleanResponse);
-
-    if (!audioBase64 || !session.streamSid) {
-      logger.error("No audio or no stream SID");
-      session.processing = false;
-      return;
-    }
-
-    // 4. Send audio back to caller
-    // Clear any buffered audio first (in case caller interrupted)
-    session.ws.send(JSON.stringify({
-      event: "clear",
-      streamSid: session.streamSid,
-    }));
-
-    // Send audio in chunks (Twilio recommends ~20ms chunks = 160 bytes of mulaw)
-    const CHUNK_SIZE = 160 * 20; // ~400ms chunks for smoother streaming
-    const audioBuffer = Buffer.from(audioBase64, "base64");
-
-    for (let i = 0; i < audioBuffer.length; i += CHUNK_SIZE) {
-      const chunk = audioBuffer.subarray(i, i + CHUNK_SIZE);
-      session.ws.send(JSON.stringify({
-        event: "media",
-        streamSid: session.streamSid,
-        media: {
-          payload: chunk.toString("base64"),
-        },
-      }));
-    }
-
-    // Send mark to know when playback finishes
-    session.ws.send(JSON.stringify({
-      event: "mark",
-      streamSid: session.streamSid,
-      mark: { name: `response_${Date.now()}` },
-    }));
-
-  } catch (error) {
-    logger.error("Processing error", error);
-  }
+async function* respondToCaller(session: CallSession, text: string, signal: AbortSignal): AsyncGenerator<string> {
+  logger.info("User said", { text });
+
+  const conversationContext = session.conversationHistory
+    .slice(-6) // last 6 turns (reduced for latency)
+    .map(m => `${m.role}: ${m.content}`)
+    .join("\n");
+
+  // Format current time with timezone
+  const now = new Date();
+  const { USER_TIMEZONE } = await import("./timezone.ts");
+  const timeStr = now.toLocaleString("en-US", {
+    timeZone: USER_TIMEZONE,
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
 
-  session.processing = false;
+  const prompt = [
+    `You are Ellie, Dave's AI assistant. You are on a VOICE CALL with ${session.callerName}.`,
+    "Keep responses SHORT and natural for speech — 1-3 sentences max.",
+    "No markdown, no bullet points, no formatting. Just spoken words.",
+    "Be warm and conversational, like talking to a friend.",
+    "The caller can interrupt you; if a previous reply ends with —, they cut you off there.",
+    "",
+    `Speaking with: ${session.callerName}`,
+    `Current time: ${timeStr}`,
+    "",
+    "Conversation so far:",
+    conversationContext,
+    "",
+    `${session.callerName} just said: ${text}`,
+  ].join("\n");
+
+  // The CLI answers in one piece; the session still speaks it sentence by sentence
+  yield await callClaude(prompt, signal);
 }
 
 // ============================================================
@@ -366,11 +241,25 @@ wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
   const callerName = KNOWN_CALLERS[callerNumber] || "Unknown Caller";
 
   logger.info("Session started", { callerName, from: callerNumber });
-  const session = createSession(ws, callerName, callerNumber);
+  const session: CallSession = { callerName, callerNumber, conversationHistory: [] };
+
+  const duplex = createDuplexVoiceSession({
+    send: message => ws.send(JSON.stringify(message)),
+    respond: (text, signal) => respondToCaller(session, text, signal),
+    vad: { endMs: SILENCE_THRESHOLD_MS },
+    minUtteranceMs: MIN_AUDIO_MS,
+    onTranscript: text => { session.conversationHistory.push({ role: "user", content: text }); },
+    onTurnComplete: ({ replyText, spokenText, interrupted, metrics }) => {
+      logger.info("Ellie says", { response: spokenText, interrupted, metrics });
+      const said = interrupted ? (spokenText ? `${spokenText} —` : "") : replyText;
+      if (said) session.conversationHistory.push({ role: "assistant", content: said });
+    },
+    onBargeIn: () => logger.info("Caller interrupted"),
+  });
 
-  ws.on("message", async (data: Buffer | string) => {
+  ws.on("message", (data: Buffer | string) => {
     try {
-      const msg = JSON.parse(data.toString());
+      const msg = JSON.parse(data.toString()) as TwilioStreamMessage & { protocol?: string };
 
       switch (msg.event) {
         case "connected":
@@ -378,36 +267,11 @@ wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
           break;
 
         case "start":
-          session.streamSid = msg.streamSid;
-          session.callSid = msg.callSid;
-          logger.info("Call started", { streamSid: msg.streamSid, callSid: msg.callSid });
+          logger.info("Call started", { streamSid: msg.start?.streamSid ?? msg.streamSid, callSid: msg.start?.callSid ?? msg.callSid });
           break;
 
-        case "media": {
-          // Decode base64 mulaw audio
-          const payload = Buffer.from(msg.media.payload, "base64");
-          session.audioChunks.push(payload);
-          session.lastAudioTime = Date.now();
-
-          // Reset silence timer
-          if (session.silenceTimer) clearTimeout(session.silenceTimer);
-
-          if (!session.processing) {
-            session.silenceTimer = setTimeout(() => {
-              // Check if enough audio accumulated
-              const totalBytes = session.audioChunks.reduce((sum, c) => sum + c.length, 0);
-              const estimatedMs = (totalBytes / 8000) * 1000; // 8000 bytes/sec for mulaw
-
-              if (estimatedMs >= MIN_AUDIO_MS) {
-                processAudio(session);
-              } else {
-                // Too short, discard
-                session.audioChunks = [];
-              }
-            }, SILENCE_THRESHOLD_MS);
-          }
+        case "media":
           break;
-        }
 
         case "mark":
           logger.info("Playback mark", { name: msg.mark?.name });
@@ -415,12 +279,12 @@ wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
 
         case "stop":
           logger.info("Stream stopped");
-          if (session.silenceTimer) clearTimeout(session.silenceTimer);
           break;
 
         default:
           logger.warn("Unknown event", { event: msg.event });
       }
+      duplex.handleMessage(msg);
     } catch (error) {
       logger.error("Message parse error", error);
     }
@@ -428,7 +292,7 @@ wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
 
   ws.on("close", () => {
     logger.info("WebSocket closed");
-    if (session.silenceTimer) clearTimeout(session.silenceTimer);
+    duplex.close();
   });
 
   ws.on("error", (error) => {
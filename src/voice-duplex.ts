@@ -0,0 +1,475 @@
+/**
+ * Full-Duplex Voice Session — Twilio media stream turn engine
+ *
+ * One session per call. Inbound mulaw frames run through voice activity
+ * detection (voice-vad.ts) all the time — including while Ellie is
+ * talking — so the caller can interrupt:
+ *
+ *   speech_start  → barge-in: abort the in-flight turn (STT / model / TTS)
+ *                   and send Twilio "clear" to drop queued audio
+ *   while talking → partial transcription every partialIntervalMs of audio
+ *   speech_end    → final transcript (reusing the last partial when it
+ *                   already covers every voiced frame) → model deltas →
+ *                   sentence chunks → TTS per sentence, streamed to Twilio
+ *                   as each sentence's audio arrives
+ *
+ * Each turn reports latency split into STT, LLM and TTS (VoiceTurnMetrics).
+ * STT, TTS and the model are injected, so tests drive a session with
+ * recorded mulaw and fake providers; the defaults use tts.ts.
+ *
+ * Hosts (voice-pipeline.ts, voice-call.ts) own prompts, history and
+ * persistence through the respond / onTranscript / onTurnComplete hooks.
+ */
+
+import { log } from "./logger.ts";
+import { transcribeMulaw, textToSpeechFastStream } from "./tts.ts";
+import { createVoiceActivityDetector, MULAW_BYTES_PER_MS, type VadOptions } from "./voice-vad.ts";
+
+const logger = log.child("voice-duplex");
+
+// ── Providers ────────────────────────────────────────────────
+
+export interface SpeechToTextProvider {
+  /** Transcribe mulaw 8kHz audio. partial: a snapshot of an utterance still in progress. */
+  transcribe(chunks: Buffer[], opts: { partial: boolean; signal?: AbortSignal }): Promise<string>;
+}
+
+export interface TextToSpeechProvider {
+  /** Synthesize one sentence as mulaw 8kHz audio; null when synthesis failed. */
+  stream(text: string, signal: AbortSignal): Promise<AsyncIterable<Uint8Array> | null>;
+}
+
+export const defaultSpeechToText: SpeechToTextProvider = {
+  transcribe: (chunks, { signal }) => transcribeMulaw(chunks, { signal }),
+};
+
+export const defaultTextToSpeech: TextToSpeechProvider = {
+  async stream(text, signal) {
+    const tts = await textToSpeechFastStream(text, { format: "mulaw", signal });
+    return tts?.body ?? null;
+  },
+};
+
+// ── Metrics ──────────────────────────────────────────────────
+
+export interface VoiceTurnMetrics {
+  turn: number;
+  /** Speech end → final transcript. */
+  sttMs: number | null;
+  /** The final transcript came from a partial already in flight. */
+  partialReused: boolean;
+  /** Transcript → first model text. */
+  llmFirstTokenMs: number | null;
+  /** Transcript → model finished. */
+  llmMs: number | null;
+  /** First sentence sent to TTS → its first audio byte. */
+  ttsFirstByteMs: number | null;
+  /** Time spent waiting on TTS across all sentences. */
+  ttsMs: number;
+  /** Speech end → first audio frame sent to the caller (the latency they hear). */
+  firstAudioMs: number | null;
+  totalMs: number;
+  sentences: number;
+  interrupted: boolean;
+}
+
+export interface VoiceTurnResult {
+  userText: string;
+  /** Everything the model said. */
+  replyText: string;
+  /** The sentences that were fully sent before any interruption. */
+  spokenText: string;
+  interrupted: boolean;
+  metrics: VoiceTurnMetrics;
+}
+
+const RECENT_METRICS_LIMIT = 50;
+const _recentMetrics: VoiceTurnMetrics[] = [];
+
+/** Latest turn metrics across all calls, newest last. */
+export function getRecentVoiceTurnMetrics(): VoiceTurnMetrics[] {
+  return [..._recentMetrics];
+}
+
+// ── Sentence chunking ────────────────────────────────────────
+
+export interface SentenceChunker {
+  /** Add model text; returns the sentences it completed. */
+  push(delta: string): string[];
+  /** Whatever is left once the model is done. */
+  flush(): string;
+}
+
+/**
+ * Split streamed text at sentence ends (. ! ? or a newline followed by
+ * whitespace), never inside [TAG: ...] brackets and never before minChars
+ * so "Sure." and "Dr." don't become their own TTS requests. Pure.
+ */
+export function createSentenceChunker(minChars = 12): SentenceChunker {
+  let buf = "";
+
+  function nextBoundary(): number {
+    let depth = 0;
+    for (let i = 0; i < buf.length - 1; i++) {
+      const c = buf[i];
+      if (c === "[") depth++;
+      else if (c === "]") depth = Math.max(0, depth - 1);
+      else if (depth === 0 && i + 1 >= minChars && /[.!?\n]/.test(c) && /\s/.test(buf[i + 1])) return i + 1;
+    }
+    return -1;
+  }
+
+  return {
+    push(delta) {
+      buf += delta;
+      const out: string[] = [];
+      for (let at = nextBoundary(); at > 0; at = nextBoundary()) {
+        const sentence = buf.slice(0, at).trim();
+        buf = buf.slice(at);
+        if (sentence) out.push(sentence);
+      }
+      return out;
+    },
+    flush() {
+      const rest = buf.trim();
+      buf = "";
+      return rest;
+    },
+  };
+}
+
+/** Drop memory/goal tags the model may emit; they are never spoken. Pure. */
+export function cleanSpokenText(text: string): string {
+  return text
+    .replace(/\[REMEMBER:.*?\]/gs, "")
+    .replace(/\[GOAL:.*?\]/gs, "")
+    .replace(/\[DONE:.*?\]/gs, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+function isBlankTranscript(text: string): boolean {
+  return text.length < 2 || text.includes("[BLANK_AUDIO]") || text.includes("(blank audio)");
+}
+
+// ── Session ──────────────────────────────────────────────────
+
+/** Twilio media stream message (the fields a session reads). */
+export interface TwilioStreamMessage {
+  event: string;
+  streamSid?: string;
+  callSid?: string;
+  start?: { streamSid?: string; callSid?: string };
+  media?: { payload: string };
+  mark?: { name?: string };
+}
+
+export interface DuplexVoiceSessionOptions {
+  /** Send a JSON message to Twilio over the media stream socket. */
+  send(message: Record<string, unknown>): void;
+  stt?: SpeechToTextProvider;
+  tts?: TextToSpeechProvider;
+  /** The model's reply as text deltas. Must stop when the signal aborts. */
+  respond(userText: string, signal: AbortSignal): AsyncIterable<string>;
+  onTranscript?(text: string): void | Promise<void>;
+  onPartialTranscript?(text: string): void;
+  onTurnComplete?(result: VoiceTurnResult): void;
+  onBargeIn?(): void;
+  vad?: VadOptions;
+  /** Energy a caller needs to interrupt while Ellie is talking (default 2× the VAD threshold). */
+  bargeInThreshold?: number;
+  /** Utterances with less voiced audio are dropped (default 300ms). */
+  minUtteranceMs?: number;
+  /** Audio between partial transcriptions (default 800ms). */
+  partialIntervalMs?: number;
+}
+
+export interface DuplexVoiceSession {
+  handleMessage(msg: TwilioStreamMessage): void;
+  readonly streamSid: string | null;
+  readonly callSid: string | null;
+  /** Resolves once every turn, including interrupted ones, has finished. */
+  whenIdle(): Promise<void>;
+  close(): void;
+}
+
+const PREROLL_MS = 200;
+const OUTBOUND_CHUNK_BYTES = 160 * 20; // ~400ms of mulaw per Twilio media message
+
+interface ActiveTurn {
+  id: number;
+  controller: AbortController;
+  speechEndAt: number;
+  /** The utterance audio, kept until a transcript exists so a barge-in can re-use it. */
+  chunks: Buffer[] | null;
+  audioSent: boolean;
+  spoken: string[];
+  metrics: VoiceTurnMetrics;
+  done: Promise<void>;
+}
+
+export function createDuplexVoiceSession(opts: DuplexVoiceSessionOptions): DuplexVoiceSession {
+  const stt = opts.stt ?? defaultSpeechToText;
+  const tts = opts.tts ?? defaultTextToSpeech;
+  const vadThreshold = opts.vad?.energyThreshold ?? 10;
+  const bargeInThreshold = opts.bargeInThreshold ?? vadThreshold * 2;
+  const minUtteranceBytes = (opts.minUtteranceMs ?? 300) * MULAW_BYTES_PER_MS;
+  const partialIntervalBytes = (opts.partialIntervalMs ?? 800) * MULAW_BYTES_PER_MS;
+  const vad = createVoiceActivityDetector(opts.vad);
+
+  let streamSid: string | null = null;
+  let callSid: string | null = null;
+  let closed = false;
+
+  let preroll: Buffer[] = [];
+  let prerollBytes = 0;
+  let utterance: Buffer[] | null = null;
+  let utteranceBytes = 0;
+  let lastVoicedByte = 0;
+  let partial: { bytes: number; promise: Promise<string> } | null = null;
+  let partialInFlight = false;
+  let nextPartialAt = 0;
+
+  let turnSeq = 0;
+  let current: ActiveTurn | null = null;
+  /** Turns still winding down, including interrupted ones. */
+  const unfinished = new Set<Promise<void>>();
+  /** Audio sent whose playback mark hasn't come back yet. */
+  let playingMark: string | null = null;
+
+  function sendAudio(turn: ActiveTurn, audio: Buffer): void {
+    if (!turn.audioSent) {
+      turn.audioSent = true;
+      turn.metrics.firstAudioMs = Date.now() - turn.speechEndAt;
+    }
+    opts.send({ event: "media", streamSid, media: { payload: audio.toString("base64") } });
+  }
+
+  async function speakSentence(turn: ActiveTurn, sentence: string): Promise<void> {
+    const { signal } = turn.controller;
+    if (signal.aborted) return;
+    const t0 = Date.now();
+    const audio = await tts.stream(sentence, signal).catch(err => {
+      if (!signal.aborted) logger.warn("TTS failed", { error: err instanceof Error ? err.message : String(err) });
+      return null;
+    });
+    if (!audio) {
+      turn.metrics.ttsMs += Date.now() - t0;
+      return;
+    }
+    let pending = Buffer.alloc(0);
+    try {
+      for await (const chunk of audio) {
+        if (signal.aborted) break;
+        turn.metrics.ttsFirstByteMs ??= Date.now() - t0;
+        pending = Buffer.concat([pending, Buffer.from(chunk)]);
+        while (pending.length >= OUTBOUND_CHUNK_BYTES) {
+          sendAudio(turn, pending.subarray(0, OUTBOUND_CHUNK_BYTES));
+          pending = pending.subarray(OUTBOUND_CHUNK_BYTES);
+        }
+      }
+    } catch (err) {
+      if (!signal.aborted) logger.warn("TTS stream broke off", { error: err instanceof Error ? err.message : String(err) });
+    }
+    turn.metrics.ttsMs += Date.now() - t0;
+    if (signal.aborted) return;
+    if (pending.length) sendAudio(turn, pending);
+    turn.spoken.push(sentence);
+  }
+
+  async function runTurn(turn: ActiveTurn, reuse: Promise<string> | null): Promise<void> {
+    const { signal } = turn.controller;
+    const m = turn.metrics;
+    const text = (reuse ? await reuse : await stt.transcribe(turn.chunks!, { partial: false, signal })).trim();
+    if (signal.aborted) return;
+    m.sttMs = Date.now() - turn.speechEndAt;
+    turn.chunks = null;
+    if (isBlankTranscript(text)) {
+      logger.info("Empty/blank transcription, skipping", { turn: turn.id });
+      return;
+    }
+    await opts.onTranscript?.(text);
+
+    const llmStart = Date.now();
+    const chunker = createSentenceChunker();
+    let speaking = Promise.resolve();
+    const speak = (raw: string) => {
+      const sentence = cleanSpokenText(raw);
+      if (!sentence) return;
+      m.sentences++;
+      speaking = speaking.then(() => speakSentence(turn, sentence));
+    };
+
+    let reply = "";
+    try {
+      for await (const delta of opts.respond(text, signal)) {
+        if (signal.aborted) break;
+        m.llmFirstTokenMs ??= Date.now() - llmStart;
+        reply += delta;
+        for (const sentence of chunker.push(delta)) speak(sentence);
+      }
+    } catch (err) {
+      if (!signal.aborted) logger.error("Voice model failed", err);
+    }
+    if (!signal.aborted) {
+      m.llmMs = Date.now() - llmStart;
+      speak(chunker.flush());
+    }
+    await speaking;
+
+    if (!signal.aborted && turn.audioSent) {
+      playingMark = `turn_${turn.id}`;
+      opts.send({ event: "mark", streamSid, mark: { name: playingMark } });
+    }
+    m.interrupted = signal.aborted;
+    m.totalMs = Date.now() - turn.speechEndAt;
+    _recentMetrics.push(m);
+    if (_recentMetrics.length > RECENT_METRICS_LIMIT) _recentMetrics.shift();
+    logger.info("Voice turn complete", { ...m });
+    opts.onTurnComplete?.({
+      userText: text,
+      replyText: cleanSpokenText(reply),
+      spokenText: turn.spoken.join(" "),
+      interrupted: signal.aborted,
+      metrics: m,
+    });
+  }
+
+  function startTurn(chunks: Buffer[], reuse: Promise<string> | null): void {
+    const turn: ActiveTurn = {
+      id: ++turnSeq,
+      controller: new AbortController(),
+      speechEndAt: Date.now(),
+      chunks,
+      audioSent: false,
+      spoken: [],
+      metrics: {
+        turn: turnSeq,
+        sttMs: null,
+        partialReused: !!reuse,
+        llmFirstTokenMs: null,
+        llmMs: null,
+        ttsFirstByteMs: null,
+        ttsMs: 0,
+        firstAudioMs: null,
+        totalMs: 0,
+        sentences: 0,
+        interrupted: false,
+      },
+      done: Promise.resolve(),
+    };
+    current = turn;
+    turn.done = runTurn(turn, reuse)
+      .catch(err => logger.error("Voice turn failed", err))
+      .finally(() => {
+        if (current === turn) current = null;
+        unfinished.delete(turn.done);
+      });
+    unfinished.add(turn.done);
+  }
+
+  /** Caller started talking over Ellie (or before she answered): drop the turn in flight. */
+  function bargeIn(): Buffer[] {
+    const turn = current;
+    let carried: Buffer[] = [];
+    if (turn) {
+      turn.controller.abort();
+      current = null;
+      // Still transcribing: the caller only paused — keep their words for the next utterance
+      if (turn.chunks) carried = turn.chunks;
+    }
+    if (turn?.audioSent || playingMark) {
+      opts.send({ event: "clear", streamSid });
+      playingMark = null;
+    }
+    logger.info("Barge-in", { turn: turn?.id, hadAudio: !!turn?.audioSent });
+    opts.onBargeIn?.();
+    return carried;
+  }
+
+  function startPartial(): void {
+    const snapshot = utterance!.slice();
+    const promise = stt.transcribe(snapshot, { partial: true }).catch(() => "");
+    partial = { bytes: utteranceBytes, promise };
+    partialInFlight = true;
+    nextPartialAt = utteranceBytes + partialIntervalBytes;
+    void promise.then(text => {
+      partialInFlight = false;
+      if (text.trim() && partial?.promise === promise) opts.onPartialTranscript?.(text.trim());
+    });
+  }
+
+  function handleMedia(frame: Buffer): void {
+    const talking = !!current?.audioSent || !!playingMark;
+    const event = vad.push(frame, talking ? bargeInThreshold : undefined);
+
+    if (event === "speech_start") {
+      const carried = current || playingMark ? bargeIn() : [];
+      utterance = [...carried, ...preroll, frame];
+      utteranceBytes = utterance.reduce((sum, c) => sum + c.length, 0);
+      lastVoicedByte = utteranceBytes;
+      partial = null;
+      nextPartialAt = utteranceBytes + partialIntervalBytes;
+      preroll = [];
+      prerollBytes = 0;
+      return;
+    }
+
+    if (utterance) {
+      utterance.push(frame);
+      utteranceBytes += frame.length;
+      if (vad.speaking && event === null && vad.voiced) lastVoicedByte = utteranceBytes;
+      if (event === "speech_end") {
+        const chunks = utterance;
+        const reuse = partial && partial.bytes >= lastVoicedByte ? partial.promise : null;
+        utterance = null;
+        partial = null;
+        if (lastVoicedByte < minUtteranceBytes) {
+          logger.info("Utterance too short, dropping", { ms: lastVoicedByte / MULAW_BYTES_PER_MS });
+          return;
+        }
+        startTurn(chunks, reuse);
+        return;
+      }
+      if (utteranceBytes >= nextPartialAt && !partialInFlight) startPartial();
+      return;
+    }
+
+    preroll.push(frame);
+    prerollBytes += frame.length;
+    while (preroll.length > 1 && prerollBytes - preroll[0].length >= PREROLL_MS * MULAW_BYTES_PER_MS) {
+      prerollBytes -= preroll.shift()!.length;
+    }
+  }
+
+  return {
+    handleMessage(msg) {
+      if (closed) return;
+      switch (msg.event) {
+        case "start":
+          streamSid = msg.start?.streamSid ?? msg.streamSid ?? null;
+          callSid = msg.start?.callSid ?? msg.callSid ?? null;
+          break;
+        case "media":
+          if (msg.media?.payload) handleMedia(Buffer.from(msg.media.payload, "base64"));
+          break;
+        case "mark":
+          if (msg.mark?.name && msg.mark.name === playingMark) playingMark = null;
+          break;
+        case "stop":
+          current?.controller.abort();
+          break;
+      }
+    },
+    get streamSid() { return streamSid; },
+    get callSid() { return callSid; },
+    async whenIdle() {
+      while (unfinished.size) await Promise.all(unfinished);
+    },
+    close() {
+      closed = true;
+      current?.controller.abort();
+      current = null;
+    },
+  };
+}
@@ -2,14 +2,15 @@
  * Voice Pipeline — Twilio media stream handler + voice processing.
  *
  * Extracted from relay.ts — ELLIE-211.
- * Handles: VoiceCallSession lifecycle, silence detection, audio processing,
- * transcription → LLM → TTS pipeline, WebSocket connection management.
+ * Handles: call lifecycle, context retrieval and prompts, persistence and
+ * WebSocket connection management. The turn engine — VAD with barge-in,
+ * partial transcription, sentence-streamed model → TTS, latency metrics —
+ * is voice-duplex.ts.
  */
 
 import type { WebSocket } from "ws";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { mulawEnergy, transcribeMulaw, streamTTSToTwilio, textToSpeechMulaw } from "./tts.ts";
-import { callClaudeVoice } from "./claude-cli.ts";
+import { streamClaudeVoice } from "./claude-cli.ts";
 import { saveMessage } from "./message-sender.ts";
 import { getRelevantContext } from "./memory.ts";
 import { searchElastic } from "./elasticsearch.ts";
@@ -18,6 +19,7 @@ import { trimSearchContext } from "./relay-utils.ts";
 import { USER_NAME } from "./prompt-builder.ts";
 import { log } from "./logger.ts";
 import { processVoiceCall } from "./voice-extraction.ts";
+import { createDuplexVoiceSession, type DuplexVoiceSession, type TwilioStreamMessage } from "./voice-duplex.ts";
 
 const logger = log.child("voice-pipeline");
 
@@ -25,7 +27,7 @@ const logger = log.child("voice-pipeline");
 
 const MULAW_ENERGY_THRESHOLD = 10;
 const SILENCE_THRESHOLD_MS = 800;
-const MIN_AUDIO_MS = 400;
+const MIN_AUDIO_MS = 300;
 
 // ── External dependencies (registered by relay.ts at startup) ──
 
@@ -50,142 +52,51 @@ export function setVoicePipelineDeps(deps: VoicePipelineDeps): void { _deps = de
 // ── VoiceCallSession ─────────────────────────────────────────
 
 interface VoiceCallSession {
-  ws: WebSocket;
-  streamSid: string | null;
-  callSid: string | null;
-  audioChunks: Buffer[];
-  silenceTimer: ReturnType<typeof setTimeout> | null;
-  lastAudioTime: number;
-  lastSpeechTime: number;
-  hasSpeech: boolean;
-  processing: boolean;
-  speaking: boolean;
+  duplex: DuplexVoiceSession | null;
+  /** Context docket fetch, started on the first partial transcript of a turn */
+  docket: Promise<string> | null;
   conversationHistory: Array<{ role: string; content: string }>;
 }
 
-// ── processVoiceAudio ────────────────────────────────────────
-
-async function processVoiceAudio(session: VoiceCallSession): Promise<void> {
-  if (session.processing || session.audioChunks.length === 0) return;
-  session.processing = true;
-
-  const chunks = session.audioChunks.splice(0);
-  const pipelineStart = Date.now();
-
-  try {
-    // Start context retrieval in parallel with transcription
-    const contextDocketPromise = _deps.getContextDocket();
-
-    logger.info("Transcribing audio", { chunks: chunks.length });
-    const text = await transcribeMulaw(chunks);
-
-    if (!text || text.length < 2 || text.includes("[BLANK_AUDIO]") || text.includes("(blank audio)")) {
-      logger.info("Empty/blank transcription, skipping");
-      session.processing = false;
-      return;
-    }
-
-    logger.info("User transcription complete", { length: text.length, transcribeMs: Date.now() - pipelineStart });
-    session.conversationHistory.push({ role: "user", content: text });
-
-    // Fire-and-forget: save user message
-    saveMessage("user", text, { callSid: session.callSid }, "voice", session.callSid || undefined).catch(() => {});
-    _deps.broadcastExtension({ type: "message_in", channel: "voice", preview: text.substring(0, 200) });
-
-    const conversationContext = session.conversationHistory
-      .slice(-6)
-      .map(m => `${m.role}: ${m.content}`)
-      .join("\n");
-
-    // Text-dependent searches in parallel with pre-started docket fetch
-    const [contextDocket, relevantContext, elasticContext, forestContext] = await Promise.all([
-      contextDocketPromise,
-      getRelevantContext(_deps.supabase, text, "voice", _deps.getActiveAgent("voice")),
-      searchElastic(text, { limit: 3, recencyBoost: true, channel: "voice", sourceAgent: _deps.getActiveAgent("voice") }),
-      getForestContext(text),
-    ]);
-
-    const systemParts = [
-      "You are Ellie, Dave's AI assistant. You are on a VOICE CALL.",
-      "Keep responses SHORT and natural for speech — 1-3 sentences max.",
-      "No markdown, no bullet points, no formatting. Just spoken words.",
-      "Be warm and conversational, like talking to a friend.",
-    ];
-    if (USER_NAME) systemParts.push(`You are speaking with ${USER_NAME}.`);
-    if (contextDocket) systemParts.push(`\n${contextDocket}`);
-    const voiceSearchBlock = trimSearchContext([relevantContext || '', elasticContext || '', forestContext || '']);
-    if (voiceSearchBlock) systemParts.push(`\n${voiceSearchBlock}`);
-
-    const systemPrompt = systemParts.join("\n");
-
-    const userPrompt = conversationContext
-      ? `Conversation so far:\n${conversationContext}\n\nDave just said: ${text}`
-      : `Dave said: ${text}`;
-
-    const response = await callClaudeVoice(systemPrompt, userPrompt);
-    const cleanResponse = response
-      .replace(/\[REMEMBER:.*?\]/g, "")
-      .replace(/\[GOAL:.*?\]/g, "")
-      .replace(/\[DONE:.*?\]/g, "")
-      .trim();
-
-    logger.info("LLM response ready", { length: cleanResponse.length, llmMs: Date.now() - pipelineStart });
-    session.conversationHistory.push({ role: "assistant", content: cleanResponse });
-
-    // Fire-and-forget: save assistant message
-    saveMessage("assistant", cleanResponse, { callSid: session.callSid }, "voice", session.callSid || undefined).catch(() => {});
-    _deps.broadcastExtension({ type: "message_out", channel: "voice", agent: "voice", preview: cleanResponse.substring(0, 200) });
-
-    if (!session.streamSid) {
-      logger.error("No stream SID");
-      session.processing = false;
-      return;
-    }
-
-    // Mark as speaking — ignore inbound audio until playback finishes
-    session.speaking = true;
-
-    // Clear buffered audio then stream response
-    session.ws.send(JSON.stringify({ event: "clear", streamSid: session.streamSid }));
-
-    // Stream TTS chunks to Twilio as they arrive from ElevenLabs
-    const streamed = await streamTTSToTwilio(cleanResponse, session.ws, session.streamSid);
-
-    if (!streamed) {
-      // Fallback to non-streaming TTS
-      logger.info("Streaming failed, falling back to buffered TTS");
-      const audioBase64 = await textToSpeechMulaw(cleanResponse);
-      if (!audioBase64) {
-        logger.error("No audio from fallback TTS");
-        session.speaking = false;
-        session.processing = false;
-        return;
-      }
-      const CHUNK_SIZE = 160 * 20;
-      const audioBuffer = Buffer.from(audioBase64, "base64");
-      for (let i = 0; i < audioBuffer.length; i += CHUNK_SIZE) {
-        const chunk = audioBuffer.subarray(i, i + CHUNK_SIZE);
-        session.ws.send(JSON.stringify({
-          event: "media",
-          streamSid: session.streamSid,
-          media: { payload: chunk.toString("base64") },
-        }));
-      }
-    }
-
-    // Send mark to detect when playback finishes
-    session.ws.send(JSON.stringify({
-      event: "mark",
-      streamSid: session.streamSid,
-      mark: { name: `response_${Date.now()}` },
-    }));
-
-    logger.info("Total pipeline complete", { pipelineMs: Date.now() - pipelineStart });
-  } catch (error) {
-    logger.error("Processing error", error);
-  }
-
-  session.processing = false;
+// ── Model reply ──────────────────────────────────────────────
+
+async function* respondToCaller(session: VoiceCallSession, text: string, signal: AbortSignal): AsyncGenerator<string> {
+  const contextDocketPromise = session.docket ?? _deps.getContextDocket();
+  session.docket = null;
+
+  const conversationContext = session.conversationHistory
+    .slice(-7, -1)
+    .map(m => `${m.role}: ${m.content}`)
+    .join("\n");
+
+  // Text-dependent searches in parallel with the docket fetch
+  const [contextDocket, relevantContext, elasticContext, forestContext] = await Promise.all([
+    contextDocketPromise,
+    getRelevantContext(_deps.supabase, text, "voice", _deps.getActiveAgent("voice")),
+    searchElastic(text, { limit: 3, recencyBoost: true, channel: "voice", sourceAgent: _deps.getActiveAgent("voice") }),
+    getForestContext(text),
+  ]);
+  if (signal.aborted) return;
+
+  const systemParts = [
+    "You are Ellie, Dave's AI assistant. You are on a VOICE CALL.",
+    "Keep responses SHORT and natural for speech — 1-3 sentences max.",
+    "No markdown, no bullet points, no formatting. Just spoken words.",
+    "Be warm and conversational, like talking to a friend.",
+    "The caller can interrupt you; if a previous reply ends with —, they cut you off there.",
+  ];
+  if (USER_NAME) systemParts.push(`You are speaking with ${USER_NAME}.`);
+  if (contextDocket) systemParts.push(`\n${contextDocket}`);
+  const voiceSearchBlock = trimSearchContext([relevantContext || '', elasticContext || '', forestContext || '']);
+  if (voiceSearchBlock) systemParts.push(`\n${voiceSearchBlock}`);
+
+  const systemPrompt = systemParts.join("\n");
+
+  const userPrompt = conversationContext
+    ? `Conversation so far:\n${conversationContext}\n\nDave just said: ${text}`
+    : `Dave said: ${text}`;
+
+  yield* streamClaudeVoice(systemPrompt, userPrompt, signal);
 }
 
 // ── handleVoiceConnection ────────────────────────────────────
@@ -196,83 +107,60 @@ async function processVoiceAudio(session: VoiceCallSession): Promise<void> {
  */
 export function handleVoiceConnection(ws: WebSocket): void {
   logger.info("Media stream connected");
-  const session: VoiceCallSession = {
-    ws, streamSid: null, callSid: null,
-    audioChunks: [], silenceTimer: null,
-    lastAudioTime: 0, lastSpeechTime: 0,
-    hasSpeech: false, processing: false, speaking: false,
-    conversationHistory: [],
-  };
-
-  ws.on("message", async (data: Buffer | string) => {
-    try {
-      const msg = JSON.parse(data.toString());
+  const session: VoiceCallSession = { duplex: null, docket: null, conversationHistory: [] };
+  const callSid = () => session.duplex?.callSid ?? null;
+
+  const duplex = createDuplexVoiceSession({
+    send: message => ws.send(JSON.stringify(message)),
+    respond: (text, signal) => respondToCaller(session, text, signal),
+    vad: { energyThreshold: MULAW_ENERGY_THRESHOLD, endMs: SILENCE_THRESHOLD_MS },
+    minUtteranceMs: MIN_AUDIO_MS,
+
+    onPartialTranscript(text) {
+      session.docket ??= _deps.getContextDocket();
+      _deps.broadcastExtension({ type: "voice_partial", channel: "voice", preview: text.substring(0, 200) });
+    },
+
+    onTranscript(text) {
+      logger.info("User transcription complete", { length: text.length });
+      session.conversationHistory.push({ role: "user", content: text });
+      // Fire-and-forget: save user message
+      saveMessage("user", text, { callSid: callSid() }, "voice", callSid() || undefined).catch(() => {});
+      _deps.broadcastExtension({ type: "message_in", channel: "voice", preview: text.substring(0, 200) });
+    },
+
+    onTurnComplete({ replyText, spokenText, interrupted, metrics }) {
+      _deps.broadcastExtension({ type: "voice_turn_metrics", channel: "voice", ...metrics });
+      // What the caller actually heard; an interruption is marked so the model knows
+      const said = interrupted ? (spokenText ? `${spokenText} —` : "") : replyText;
+      if (!said) return;
+      session.conversationHistory.push({ role: "assistant", content: said });
+      // Fire-and-forget: save assistant message
+      saveMessage("assistant", said, { callSid: callSid(), interrupted }, "voice", callSid() || undefined).catch(() => {});
+      _deps.broadcastExtension({ type: "message_out", channel: "voice", agent: "voice", preview: said.substring(0, 200) });
+    },
+
+    onBargeIn() {
+      _deps.broadcastExtension({ type: "voice_barge_in", channel: "voice" });
+    },
+  });
+  session.duplex = duplex;
 
+  ws.on("message", (data: Buffer | string) => {
+    try {
+      const msg = JSON.parse(data.toString()) as TwilioStreamMessage;
       switch (msg.event) {
         case "connected":
-          logger.info("Stream connected", { protocol: msg.protocol });
+          logger.info("Stream connected");
           break;
-
         case "start":
-          session.streamSid = msg.streamSid;
-          session.callSid = msg.callSid;
-          logger.info("Call started", { streamSid: msg.streamSid, callSid: msg.callSid });
-          break;
-
-        case "media": {
-          // Ignore inbound audio while Ellie is speaking (prevents echo/feedback loop)
-          if (session.speaking) break;
-
-          const payload = Buffer.from(msg.media.payload, "base64");
-          const now = Date.now();
-          session.lastAudioTime = now;
-
-          const energy = mulawEnergy(payload);
-          const isSpeech = energy > MULAW_ENERGY_THRESHOLD;
-
-          if (isSpeech) {
-            session.audioChunks.push(payload);
-            session.lastSpeechTime = now;
-            session.hasSpeech = true;
-
-            if (session.silenceTimer) {
-              clearTimeout(session.silenceTimer);
-              session.silenceTimer = null;
-            }
-          } else if (session.hasSpeech && !session.processing) {
-            session.audioChunks.push(payload);
-
-            if (!session.silenceTimer) {
-              session.silenceTimer = setTimeout(() => {
-                session.silenceTimer = null;
-                const totalBytes = session.audioChunks.reduce((sum, c) => sum + c.length, 0);
-                const estimatedMs = (totalBytes / 8000) * 1000;
-
-                if (estimatedMs >= MIN_AUDIO_MS) {
-                  session.hasSpeech = false;
-                  processVoiceAudio(session);
-                } else {
-                  session.audioChunks = [];
-                  session.hasSpeech = false;
-                }
-              }, SILENCE_THRESHOLD_MS);
-            }
-          }
-          break;
-        }
-
-        case "mark":
-          logger.info("Playback mark", { name: msg.mark?.name });
-          session.speaking = false;
-          session.audioChunks = [];
-          session.hasSpeech = false;
+          logger.info("Call started", { streamSid: msg.start?.streamSid ?? msg.streamSid, callSid: msg.start?.callSid ?? msg.callSid });
           break;
-
         case "stop":
           logger.info("Stream stopped");
-          if (session.silenceTimer) clearTimeout(session.silenceTimer);
           break;
       }
+      duplex.handleMessage(msg);
     } catch (error) {
       logger.error("Message parse error", error);
     }
@@ -280,7 +168,7 @@ export function handleVoiceConnection(ws: WebSocket): void {
 
   ws.on("close", () => {
     logger.info("WebSocket closed");
-    if (session.silenceTimer) clearTimeout(session.silenceTimer);
+    duplex.close();
 
     // Voice call ended — consolidate immediately
     if (session.conversationHistory.length > 0) {
@@ -309,18 +197,18 @@ export function handleVoiceConnection(ws: WebSocket): void {
         .catch(err => logger.warn("Failed to write Forest memory", { err: String(err) }));
 
       // ELLIE-1065: Extract structured data (action items, decisions, speakers) from call
-      if (_deps.supabase && session.callSid) {
+      if (_deps.supabase && callSid()) {
         _deps.supabase
           .from("messages")
           .select("conversation_id")
           .eq("channel", "voice")
-          .eq("metadata->>callSid", session.callSid)
+          .eq("metadata->>callSid", callSid())
           .order("created_at", { ascending: false })
           .limit(1)
           .single()
           .then(({ data }) => {
             if (data?.conversation_id) {
-              processVoiceCall(_deps.supabase!, data.conversation_id, session.callSid!).catch(err =>
+              processVoiceCall(_deps.supabase!, data.conversation_id, callSid()!).catch(err =>
                 logger.warn("Voice extraction failed", { error: String(err) })
               );
             }
@@ -0,0 +1,86 @@
+/**
+ * Voice Activity Detection — mulaw 8kHz frames
+ *
+ * Energy-based speech detector for Twilio media streams. Time is measured
+ * in audio (8 bytes of mulaw per ms), not wall clock, so the detector
+ * behaves the same on a live call and on a recorded fixture fed in as
+ * fast as it can be read.
+ *
+ * Hysteresis: speech starts after startMs of consecutive voiced frames and
+ * ends after endMs of silence, so clicks don't open an utterance and short
+ * pauses between words don't close one. push() takes an optional threshold
+ * so a caller can demand louder speech while the agent is talking
+ * (barge-in over echo).
+ */
+
+import { mulawEnergy } from "./tts.ts";
+
+/** mulaw 8kHz: one byte per sample. */
+export const MULAW_BYTES_PER_MS = 8;
+
+export interface VadOptions {
+  /** mulawEnergy() above this counts as voiced (default 10). */
+  energyThreshold?: number;
+  /** Consecutive voiced audio before speech_start (default 120ms). */
+  startMs?: number;
+  /** Silence after speech before speech_end (default 700ms). */
+  endMs?: number;
+}
+
+export type VadEvent = "speech_start" | "speech_end";
+
+export interface VoiceActivityDetector {
+  /** Feed one frame; returns the transition it caused, if any. */
+  push(frame: Buffer, threshold?: number): VadEvent | null;
+  readonly speaking: boolean;
+  /** Whether the last frame pushed was above the threshold. */
+  readonly voiced: boolean;
+  reset(): void;
+}
+
+export function createVoiceActivityDetector(opts: VadOptions = {}): VoiceActivityDetector {
+  const energyThreshold = opts.energyThreshold ?? 10;
+  const startMs = opts.startMs ?? 120;
+  const endMs = opts.endMs ?? 700;
+
+  let speaking = false;
+  let voiced = false;
+  let voicedMs = 0;
+  let silentMs = 0;
+
+  return {
+    push(frame, threshold = energyThreshold) {
+      const ms = frame.length / MULAW_BYTES_PER_MS;
+      voiced = mulawEnergy(frame) > threshold;
+      if (voiced) {
+        voicedMs += ms;
+        silentMs = 0;
+        if (!speaking && voicedMs >= startMs) {
+          speaking = true;
+          return "speech_start";
+        }
+        return null;
+      }
+      if (!speaking) {
+        voicedMs = 0;
+        return null;
+      }
+      silentMs += ms;
+      if (silentMs >= endMs) {
+        speaking = false;
+        voicedMs = 0;
+        silentMs = 0;
+        return "speech_end";
+      }
+      return null;
+    },
+    get speaking() { return speaking; },
+    get voiced() { return voiced; },
+    reset() {
+      speaking = false;
+      voiced = false;
+      voicedMs = 0;
+      silentMs = 0;
+    },
+  };
+}
@@ -10,17 +10,29 @@
  * - Max 5 concurrent terminals
  * - Idle timeout: 30 minutes
  * - Working directory defaults to /home/ellie
+ *
+ * Every session is recorded in asciicast v2 (terminal-recorder.ts). The
+ * auth message may carry title, startedBy, workItemId and dispatchId for
+ * the recording. Other clients can watch a live session read-only:
+ *   → { type: "watch", id, key }     with the API key, or
+ *   → { type: "watch", id, token }   with a token the owner got by sending
+ *                                    { type: "share" } (← { type: "share_token", id, token })
+ *   ← { type: "viewer_ready", id, cols, rows }, the output so far, then live output
+ * Viewers' input is ignored; they are closed when the session ends.
  */
 
 import { WebSocket, WebSocketServer } from "ws";
 import { spawn, type Subprocess } from "bun";
 import { join } from "node:path";
+import { randomBytes, timingSafeEqual } from "node:crypto";
 import { log } from "./logger.ts";
 import { EXTENSION_API_KEY } from "./relay-config.ts";
+import { startRecording, type TerminalRecording } from "./terminal-recorder.ts";
 
 const logger = log.child("web-terminal");
 
 const MAX_TERMINALS = 5;
+const MAX_VIEWERS = 10;
 const IDLE_TIMEOUT_MS = 30 * 60_000;
 const DEFAULT_COLS = 120;
 const DEFAULT_ROWS = 30;
@@ -36,6 +48,12 @@ interface TerminalSession {
   createdAt: number;
   lastActivityAt: number;
   idleTimer: ReturnType<typeof setTimeout>;
+  cols: number;
+  rows: number;
+  recording: TerminalRecording | null;
+  viewers: Set<WebSocket>;
+  /** Read-only share token, once the owner has asked for one. */
+  viewToken: string | null;
 }
 
 const terminals = new Map<string, TerminalSession>();
@@ -46,12 +64,14 @@ export function getTerminalCount(): number {
 }
 
 /** Get terminal session info for health/status endpoints. */
-export function getTerminalStatus(): { id: string; pid: number; createdAt: number; idleMs: number }[] {
+export function getTerminalStatus(): { id: string; pid: number; createdAt: number; idleMs: number; viewers: number; recording: boolean }[] {
   return Array.from(terminals.values()).map(t => ({
     id: t.id,
     pid: t.pid,
     createdAt: t.createdAt,
     idleMs: Date.now() - t.lastActivityAt,
+    viewers: t.viewers.size,
+    recording: t.recording !== null,
   }));
 }
 
@@ -59,11 +79,21 @@ function generateId(): string {
   return `term-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
 }
 
-function killTerminal(id: string, reason: string): void {
+function killTerminal(id: string, reason: string, exitCode: number | null = null): void {
   const session = terminals.get(id);
   if (!session) return;
 
   clearTimeout(session.idleTimer);
+  void session.recording?.close({ exitCode, reason });
+  for (const viewer of session.viewers) {
+    try {
+      if (viewer.readyState === WebSocket.OPEN) {
+        viewer.send(JSON.stringify({ type: "terminal_closed", reason }));
+        viewer.close(1000, reason);
+      }
+    } catch { /* viewer already gone */ }
+  }
+  session.viewers.clear();
   // Send kill to bridge
   try { sendToBridge(session, { type: "kill" }); } catch { /* bridge already dead */ }
   try { session.bridge.kill(); } catch { /* already dead */ }
@@ -92,9 +122,57 @@ function sendToBridge(session: TerminalSession, msg: Record<string, unknown>): v
   }
 }
 
+function keyMatches(given: unknown, expected: string | null | undefined): boolean {
+  if (typeof given !== "string" || !expected) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Send output to the owner and every viewer. */
+function broadcastOutput(session: TerminalSession, data: string): void {
+  if (session.ws.readyState === WebSocket.OPEN) session.ws.send(data);
+  for (const viewer of session.viewers) {
+    if (viewer.readyState === WebSocket.OPEN) viewer.send(data);
+  }
+}
+
+/**
+ * Attach a read-only viewer to a live terminal. Returns false (after
+ * closing the socket) when the session is unknown or the credentials fail.
+ */
+function attachViewer(ws: WebSocket, msg: { id?: unknown; key?: unknown; token?: unknown }): boolean {
+  const session = typeof msg.id === "string" ? terminals.get(msg.id) : undefined;
+  if (!session) {
+    ws.close(4004, "No such terminal");
+    return false;
+  }
+  if (!keyMatches(msg.key, EXTENSION_API_KEY) && !keyMatches(msg.token, session.viewToken)) {
+    ws.close(4003, "Invalid key");
+    return false;
+  }
+  if (session.viewers.size >= MAX_VIEWERS) {
+    ws.send(JSON.stringify({ type: "error", message: `Max ${MAX_VIEWERS} viewers reached` }));
+    ws.close(4004, "Viewer limit");
+    return false;
+  }
+
+  session.viewers.add(ws);
+  ws.send(JSON.stringify({ type: "viewer_ready", id: session.id, cols: session.cols, rows: session.rows }));
+  const replay = session.recording?.replay();
+  if (replay) ws.send(replay);
+  logger.info(`Viewer joined: ${session.id}`, { viewers: session.viewers.size });
+
+  const detach = () => session.viewers.delete(ws);
+  ws.on("close", detach);
+  ws.on("error", detach);
+  return true;
+}
+
 /** Handle a new terminal WebSocket connection. */
 function handleTerminalConnection(ws: WebSocket): void {
   let authenticated = false;
+  let viewing = false;
   let termId: string | null = null;
 
   const authTimer = setTimeout(() => {
@@ -105,9 +183,22 @@ function handleTerminalConnection(ws: WebSocket): void {
     try {
       const raw = data.toString();
 
-      // Before auth, expect JSON auth message
+      // Viewers are read-only: only pings get an answer
+      if (viewing) {
+        if (raw.startsWith("{") && JSON.parse(raw).type === "ping") {
+          ws.send(JSON.stringify({ type: "pong", ts: Date.now() }));
+        }
+        return;
+      }
+
+      // Before auth, expect JSON auth (or watch) message
       if (!authenticated) {
         const msg = JSON.parse(raw);
+        if (msg.type === "watch") {
+          clearTimeout(authTimer);
+          viewing = attachViewer(ws, msg);
+          return;
+        }
         if (msg.type !== "auth") { ws.close(4003, "Expected auth"); return; }
 
         if (msg.key && msg.key === EXTENSION_API_KEY && EXTENSION_API_KEY) {
@@ -136,6 +227,21 @@ function handleTerminalConnection(ws: WebSocket): void {
         });
 
         termId = generateId();
+        let recording: TerminalRecording | null = null;
+        try {
+          recording = startRecording({
+            id: termId,
+            cols,
+            rows,
+            title: typeof msg.title === "string" ? msg.title : undefined,
+            startedBy: typeof msg.startedBy === "string" ? msg.startedBy : undefined,
+            workItemId: typeof msg.workItemId === "string" ? msg.workItemId : undefined,
+            dispatchId: typeof msg.dispatchId === "string" ? msg.dispatchId : undefined,
+          });
+        } catch (err) {
+          // A terminal without a recording beats no terminal
+          logger.warn(`Recording unavailable for ${termId}`, err);
+        }
         const session: TerminalSession = {
           id: termId,
           bridge,
@@ -144,6 +250,11 @@ function handleTerminalConnection(ws: WebSocket): void {
           createdAt: Date.now(),
           lastActivityAt: Date.now(),
           idleTimer: setTimeout(() => {}, 0),
+          cols,
+          rows,
+          recording,
+          viewers: new Set(),
+          viewToken: null,
         };
 
         terminals.set(termId, session);
@@ -177,18 +288,18 @@ function handleTerminalConnection(ws: WebSocket): void {
                         type: "terminal_ready",
                         id: termId,
                         pid: msg.pid,
+                        recordingId: session.recording ? termId : null,
                       }));
                     }
                     logger.info(`Terminal spawned: ${termId} (pid ${msg.pid})`, { active: terminals.size });
                   } else if (msg.type === "output") {
-                    if (ws.readyState === WebSocket.OPEN) {
-                      ws.send(msg.data);
-                    }
+                    session.recording?.output(msg.data);
+                    broadcastOutput(session, msg.data);
                   } else if (msg.type === "exit") {
                     if (ws.readyState === WebSocket.OPEN) {
                       ws.send(JSON.stringify({ type: "terminal_exit", exitCode: msg.exitCode }));
                     }
-                    killTerminal(termId!, "process exited");
+                    killTerminal(termId!, "process exited", typeof msg.exitCode === "number" ? msg.exitCode : null);
                   } else if (msg.type === "error") {
                     logger.error(`Bridge error: ${msg.message}`);
                     if (ws.readyState === WebSocket.OPEN) {
@@ -223,9 +334,17 @@ function handleTerminalConnection(ws: WebSocket): void {
               const ctrl = JSON.parse(raw);
               if (ctrl.type === "resize" && ctrl.cols && ctrl.rows) {
                 sendToBridge(session, { type: "resize", cols: ctrl.cols, rows: ctrl.rows });
+                session.cols = ctrl.cols;
+                session.rows = ctrl.rows;
+                session.recording?.resize(ctrl.cols, ctrl.rows);
                 resetIdleTimer(session);
                 return;
               }
+              if (ctrl.type === "share") {
+                session.viewToken ??= randomBytes(24).toString("base64url");
+                ws.send(JSON.stringify({ type: "share_token", id: session.id, token: session.viewToken }));
+                return;
+              }
               if (ctrl.type === "ping") {
                 ws.send(JSON.stringify({ type: "pong", ts: Date.now() }));
                 return;
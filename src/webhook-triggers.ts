@@ -5,14 +5,27 @@
  * Each webhook gets a unique token used for authentication in the URL path.
  *
  * POST /api/webhooks/trigger/:token
- *   - Validates token, checks enabled + cooldown
+ *   - Validates token, checks enabled
+ *   - Checks the source IP against the webhook's allowlist (if any)
+ *   - Verifies the HMAC signature + timestamp (if a signing secret is set)
+ *   - Validates the payload against the webhook's JSON schema (if any)
+ *   - Checks cooldown
  *   - Merges caller payload with webhook config
  *   - Executes action (formation, dispatch, http, reminder)
- *   - Logs invocation with status + duration
+ *   - Logs invocation with status, duration and which checks passed
+ *
+ * Signed webhooks (Stripe/GitHub style): the caller sends
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * Timestamps outside the webhook's tolerance are rejected, and a signature
+ * already seen within that window is rejected as a replay.
  */
 
+import { createHmac, timingSafeEqual } from "crypto";
+import { BlockList, isIP } from "net";
 import { log } from "./logger.ts";
 import { validateConfig, type TaskType } from "./scheduled-tasks.ts";
+import { validateJson, formatSchemaErrors, type JsonSchema } from "./json-schema.ts";
 
 const logger = log.child("webhook-triggers");
 
@@ -31,9 +44,28 @@ export interface WebhookTrigger {
   cooldown_seconds: number;
   last_triggered_at: Date | null;
   trigger_count: number;
+  /** HMAC-SHA256 key; when set, requests must be signed. */
+  signing_secret: string | null;
+  /** Accepted clock skew / replay window for signed requests. */
+  signature_tolerance_seconds: number;
+  /** JSON schema the caller payload must satisfy (null = any object). */
+  payload_schema: JsonSchema | null;
+  /** Source IPs or CIDR ranges allowed to invoke (empty = any). */
+  allowed_ips: string[];
   created_by: string | null;
 }
 
+export type CheckOutcome = "passed" | "failed" | "skipped";
+
+/** Verification checks applied to an invocation, in the order they run. */
+export interface WebhookChecks {
+  ip_allowlist: CheckOutcome;
+  signature: CheckOutcome;
+  timestamp: CheckOutcome;
+  replay: CheckOutcome;
+  schema: CheckOutcome;
+}
+
 export interface WebhookInvocation {
   id: string;
   created_at: Date;
@@ -46,6 +78,7 @@ export interface WebhookInvocation {
   source_ip: string | null;
   payload: Record<string, unknown>;
   result: Record<string, unknown>;
+  checks: Partial<WebhookChecks>;
 }
 
 export interface CreateWebhookInput {
@@ -55,6 +88,11 @@ export interface CreateWebhookInput {
   config: Record<string, unknown>;
   enabled?: boolean;
   cooldown_seconds?: number;
+  /** Generate a signing secret so requests must be signed. */
+  signed?: boolean;
+  signature_tolerance_seconds?: number;
+  payload_schema?: JsonSchema | null;
+  allowed_ips?: string[];
   created_by?: string;
 }
 
@@ -65,6 +103,19 @@ export interface UpdateWebhookInput {
   config?: Record<string, unknown>;
   enabled?: boolean;
   cooldown_seconds?: number;
+  signature_tolerance_seconds?: number;
+  payload_schema?: JsonSchema | null;
+  allowed_ips?: string[];
+}
+
+/** Why an invocation was turned away (maps to the HTTP status in the route). */
+export type RejectReason = "not_found" | "disabled" | "ip" | "signature" | "payload" | "cooldown";
+
+/** The raw inbound request, as needed for verification. */
+export interface WebhookRequest {
+  rawBody: string;
+  sourceIp: string | null;
+  headers: Record<string, string | string[] | undefined>;
 }
 
 export interface InvokeResult {
@@ -72,6 +123,8 @@ export interface InvokeResult {
   invocation_id: string;
   status: "completed" | "failed" | "rejected";
   error?: string;
+  rejected_by?: RejectReason;
+  checks?: Partial<WebhookChecks>;
   result?: Record<string, unknown>;
 }
 
@@ -85,11 +138,134 @@ function generateToken(): string {
 
 // ── Validation ───────────────────────────────────────────────
 
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
 export function validateWebhookInput(input: CreateWebhookInput): string | null {
   if (!input.name?.trim()) return "name is required";
   const validTypes: TaskType[] = ["formation", "dispatch", "http", "reminder"];
   if (!validTypes.includes(input.action_type)) return `invalid action_type: ${input.action_type}`;
-  return validateConfig(input.action_type, input.config);
+  return validateVerificationInput(input) ?? validateConfig(input.action_type, input.config);
+}
+
+/** Validate allowlist, schema and tolerance fields, when present. */
+export function validateVerificationInput(input: UpdateWebhookInput): string | null {
+  for (const entry of input.allowed_ips ?? []) {
+    if (!parseIpRule(entry)) return `invalid allowed_ips entry: ${entry}`;
+  }
+  if (input.payload_schema != null &&
+      (typeof input.payload_schema !== "object" || Array.isArray(input.payload_schema))) {
+    return "payload_schema must be a JSON schema object";
+  }
+  const tolerance = input.signature_tolerance_seconds;
+  if (tolerance !== undefined && (!Number.isInteger(tolerance) || tolerance < 1 || tolerance > 3600)) {
+    return "signature_tolerance_seconds must be an integer from 1 to 3600";
+  }
+  return null;
+}
+
+// ── IP Allowlist ─────────────────────────────────────────────
+
+function parseIpRule(rule: string): { address: string; prefix: number | null; family: "ipv4" | "ipv6" } | null {
+  const [address, prefixStr, extra] = rule.trim().split("/");
+  const version = isIP(address);
+  if (!version || extra !== undefined) return null;
+  const family = version === 4 ? "ipv4" : "ipv6";
+  if (prefixStr === undefined) return { address, prefix: null, family };
+  const prefix = Number(prefixStr);
+  if (!/^\d+$/.test(prefixStr) || prefix > (version === 4 ? 32 : 128)) return null;
+  return { address, prefix, family };
+}
+
+/** True if `ip` is allowed by the list (exact IPs or CIDR ranges). An empty list allows all. */
+export function isIpAllowed(ip: string | null, allowed: string[]): boolean {
+  if (allowed.length === 0) return true;
+  if (!ip || !isIP(ip)) return false;
+
+  const list = new BlockList();
+  for (const entry of allowed) {
+    const rule = parseIpRule(entry);
+    if (!rule) continue;
+    if (rule.prefix === null) list.addAddress(rule.address, rule.family);
+    else list.addSubnet(rule.address, rule.prefix, rule.family);
+  }
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? list.check(mapped[1], "ipv4") : list.check(ip, isIP(ip) === 4 ? "ipv4" : "ipv6");
+}
+
+// ── Signatures ───────────────────────────────────────────────
+
+/** Value for X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<body>">. */
+export function signWebhookPayload(secret: string, timestamp: number | string, rawBody: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex")}`;
+}
+
+/** Signatures accepted recently, keyed by webhook — expiry in ms. */
+const seenSignatures = new Map<string, number>();
+
+function header(headers: WebhookRequest["headers"], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify a signed request. Fills in the signature, timestamp and replay
+ * checks; returns an error message, or null if the request is authentic.
+ */
+export function verifyWebhookRequest(
+  webhook: Pick<WebhookTrigger, "id" | "signing_secret" | "signature_tolerance_seconds">,
+  request: WebhookRequest,
+  checks: Partial<WebhookChecks>,
+  now = Date.now(),
+): string | null {
+  if (!webhook.signing_secret) {
+    checks.signature = checks.timestamp = checks.replay = "skipped";
+    return null;
+  }
+
+  const timestamp = header(request.headers, "x-webhook-timestamp");
+  const signature = header(request.headers, "x-webhook-signature");
+  if (!timestamp || !signature) {
+    checks.signature = "failed";
+    return "missing signature headers";
+  }
+
+  const expected = signWebhookPayload(webhook.signing_secret, timestamp, request.rawBody);
+  let valid = false;
+  try {
+    valid = timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  } catch {
+    valid = false; // length mismatch
+  }
+  checks.signature = valid ? "passed" : "failed";
+  if (!valid) return "invalid signature";
+
+  const toleranceMs = (webhook.signature_tolerance_seconds || DEFAULT_SIGNATURE_TOLERANCE_SECONDS) * 1000;
+  const ts = Number(timestamp) * 1000;
+  if (!/^\d+$/.test(timestamp) || Math.abs(now - ts) > toleranceMs) {
+    checks.timestamp = "failed";
+    return "timestamp outside tolerance";
+  }
+  checks.timestamp = "passed";
+
+  for (const [key, expiry] of seenSignatures) {
+    if (expiry <= now) seenSignatures.delete(key);
+  }
+  const key = `${webhook.id}:${signature}`;
+  if (seenSignatures.has(key)) {
+    checks.replay = "failed";
+    return "replayed request";
+  }
+  // Keep it until the timestamp itself would be rejected
+  seenSignatures.set(key, ts + toleranceMs);
+  checks.replay = "passed";
+  return null;
+}
+
+/** Generate a signing secret (hex, 32 bytes). */
+function generateSigningSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("");
 }
 
 // ── Database ─────────────────────────────────────────────────
@@ -110,7 +286,8 @@ export async function createWebhook(input: CreateWebhookInput): Promise<WebhookT
   const [wh] = await sql<WebhookTrigger[]>`
     INSERT INTO webhook_triggers (
       name, description, token, action_type, config, enabled,
-      cooldown_seconds, created_by
+      cooldown_seconds, signing_secret, signature_tolerance_seconds,
+      payload_schema, allowed_ips, created_by
     )
     VALUES (
       ${input.name},
@@ -120,6 +297,10 @@ export async function createWebhook(input: CreateWebhookInput): Promise<WebhookT
       ${sql.json(input.config)},
       ${input.enabled ?? true},
       ${input.cooldown_seconds ?? 0},
+      ${input.signed ? generateSigningSecret() : null},
+      ${input.signature_tolerance_seconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS},
+      ${input.payload_schema ? sql.json(input.payload_schema) : null},
+      ${input.allowed_ips ?? []},
       ${input.created_by ?? null}
     )
     RETURNING *
@@ -159,6 +340,7 @@ export async function updateWebhook(id: string, input: UpdateWebhookInput): Prom
   const sql = await getSql();
   const existing = await getWebhook(id);
   if (!existing) return null;
+  const schema = input.payload_schema !== undefined ? input.payload_schema : existing.payload_schema;
 
   const [wh] = await sql<WebhookTrigger[]>`
     UPDATE webhook_triggers SET
@@ -168,6 +350,9 @@ export async function updateWebhook(id: string, input: UpdateWebhookInput): Prom
       config = ${sql.json(input.config ?? existing.config)},
       enabled = ${input.enabled ?? existing.enabled},
       cooldown_seconds = ${input.cooldown_seconds ?? existing.cooldown_seconds},
+      signature_tolerance_seconds = ${input.signature_tolerance_seconds ?? existing.signature_tolerance_seconds},
+      payload_schema = ${schema ? sql.json(schema) : null},
+      allowed_ips = ${input.allowed_ips ?? existing.allowed_ips},
       updated_at = NOW()
     WHERE id = ${id}::uuid
     RETURNING *
@@ -204,6 +389,20 @@ export async function regenerateToken(id: string): Promise<WebhookTrigger | null
   return wh ?? null;
 }
 
+/**
+ * Turn request signing on (new secret, replacing any old one) or off.
+ */
+export async function setSigningSecret(id: string, enabled: boolean): Promise<WebhookTrigger | null> {
+  const sql = await getSql();
+  const secret = enabled ? generateSigningSecret() : null;
+  const [wh] = await sql<WebhookTrigger[]>`
+    UPDATE webhook_triggers SET signing_secret = ${secret}, updated_at = NOW()
+    WHERE id = ${id}::uuid
+    RETURNING *
+  `;
+  return wh ?? null;
+}
+
 // ── Invocation Log ───────────────────────────────────────────
 
 export async function getInvocations(webhookId: string, limit = 20): Promise<WebhookInvocation[]> {
@@ -220,11 +419,12 @@ async function recordInvocationStart(
   webhookId: string,
   sourceIp: string | null,
   payload: Record<string, unknown>,
+  checks: Partial<WebhookChecks>,
 ): Promise<string> {
   const sql = await getSql();
   const [inv] = await sql<{ id: string }[]>`
-    INSERT INTO webhook_invocations (webhook_id, status, source_ip, payload)
-    VALUES (${webhookId}::uuid, 'started', ${sourceIp}, ${sql.json(payload)})
+    INSERT INTO webhook_invocations (webhook_id, status, source_ip, payload, checks)
+    VALUES (${webhookId}::uuid, 'started', ${sourceIp}, ${sql.json(payload)}, ${sql.json(checks)})
     RETURNING id
   `;
   return inv.id;
@@ -262,35 +462,64 @@ async function updateTriggerStats(webhookId: string): Promise<void> {
 // ── Invoke ───────────────────────────────────────────────────
 
 /**
- * Invoke a webhook by token. Validates, checks cooldown, executes action.
- * Called from the HTTP route handler.
+ * Invoke a webhook by token. Runs the verification checks (IP allowlist,
+ * signature, payload schema), checks cooldown, executes action.
+ * Called from the HTTP route handler with the unparsed request body.
  */
-export async function invokeWebhook(
-  token: string,
-  payload: Record<string, unknown>,
-  sourceIp: string | null,
-): Promise<InvokeResult> {
+export async function invokeWebhook(token: string, request: WebhookRequest): Promise<InvokeResult> {
   const webhook = await getWebhookByToken(token);
+  const { sourceIp } = request;
 
   if (!webhook) {
-    return { ok: false, invocation_id: "", status: "rejected", error: "webhook not found" };
+    return { ok: false, invocation_id: "", status: "rejected", rejected_by: "not_found", error: "webhook not found" };
   }
 
   if (!webhook.enabled) {
-    return { ok: false, invocation_id: "", status: "rejected", error: "webhook is disabled" };
+    return { ok: false, invocation_id: "", status: "rejected", rejected_by: "disabled", error: "webhook is disabled" };
+  }
+
+  const checks: Partial<WebhookChecks> = {};
+  const reject = async (reason: RejectReason, error: string, payload: Record<string, unknown> = {}): Promise<InvokeResult> => {
+    const invId = await recordInvocationStart(webhook.id, sourceIp, payload, checks);
+    await completeInvocation(invId, "rejected", error);
+    logger.warn(`Webhook rejected: ${webhook.name}`, { reason, error, sourceIp });
+    return { ok: false, invocation_id: invId, status: "rejected", rejected_by: reason, error, checks };
+  };
+
+  const allowedIps = webhook.allowed_ips ?? [];
+  checks.ip_allowlist = allowedIps.length === 0 ? "skipped" : isIpAllowed(sourceIp, allowedIps) ? "passed" : "failed";
+  if (checks.ip_allowlist === "failed") return reject("ip", `source IP not allowed: ${sourceIp ?? "unknown"}`);
+
+  const signatureError = verifyWebhookRequest(webhook, request, checks);
+  if (signatureError) return reject("signature", signatureError);
+
+  let payload: Record<string, unknown>;
+  try {
+    const parsed: unknown = request.rawBody.trim() ? JSON.parse(request.rawBody) : {};
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("payload must be a JSON object");
+    payload = parsed as Record<string, unknown>;
+  } catch (err) {
+    checks.schema = "failed";
+    return reject("payload", err instanceof SyntaxError ? "invalid JSON body" : (err as Error).message);
+  }
+
+  if (webhook.payload_schema) {
+    const errors = validateJson(webhook.payload_schema, payload);
+    checks.schema = errors.length === 0 ? "passed" : "failed";
+    if (errors.length > 0) return reject("payload", `invalid payload: ${formatSchemaErrors(errors)}`, payload);
+  } else {
+    checks.schema = "skipped";
   }
 
   // Cooldown check
   if (webhook.cooldown_seconds > 0 && webhook.last_triggered_at) {
     const elapsed = (Date.now() - new Date(webhook.last_triggered_at).getTime()) / 1000;
     if (elapsed < webhook.cooldown_seconds) {
-      const invId = await recordInvocationStart(webhook.id, sourceIp, payload);
-      await completeInvocation(invId, "rejected", `cooldown: ${Math.ceil(webhook.cooldown_seconds - elapsed)}s remaining`);
-      return { ok: false, invocation_id: invId, status: "rejected", error: `cooldown: ${Math.ceil(webhook.cooldown_seconds - elapsed)}s remaining` };
+      return reject("cooldown", `cooldown: ${Math.ceil(webhook.cooldown_seconds - elapsed)}s remaining`, payload);
     }
   }
 
-  const invId = await recordInvocationStart(webhook.id, sourceIp, payload);
+  const invId = await recordInvocationStart(webhook.id, sourceIp, payload, checks);
 
   try {
     // Merge webhook config with caller payload (payload overrides)
@@ -313,6 +542,8 @@ export async function invokeWebhook(
       last_status: null,
       last_error: null,
       consecutive_failures: 0,
+      catch_up: "skip",
+      catch_up_max: 1,
       created_by: webhook.created_by,
     };
 
@@ -329,13 +560,13 @@ export async function invokeWebhook(
     await updateTriggerStats(webhook.id);
 
     logger.info(`Webhook triggered: ${webhook.name}`, { action: webhook.action_type });
-    return { ok: true, invocation_id: invId, status: "completed", result };
+    return { ok: true, invocation_id: invId, status: "completed", checks, result };
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
     await completeInvocation(invId, "failed", errorMsg);
     await updateTriggerStats(webhook.id);
     logger.error(`Webhook failed: ${webhook.name}`, { error: errorMsg });
-    return { ok: false, invocation_id: invId, status: "failed", error: errorMsg };
+    return { ok: false, invocation_id: invId, status: "failed", error: errorMsg, checks };
   }
 }
 
@@ -345,4 +576,8 @@ export function _setSqlForTesting(sql: any): void {
   _sql = sql;
 }
 
+export function _resetReplayCacheForTesting(): void {
+  seenSignatures.clear();
+}
+
 export { generateToken as _generateTokenForTesting };
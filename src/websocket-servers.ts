@@ -17,6 +17,7 @@ import { getUndeliveredMessages, markDelivered, getProcessingState, getRecentHis
 import { resetEllieChatIdleTimer } from "./relay-idle.ts";
 import { handleVoiceConnection } from "./voice-pipeline.ts";
 import { createTerminalWss } from "./web-terminal.ts";
+import { createSandboxExecWss } from "./sandbox-exec-ws.ts";
 import {
   callClaude,
   session,
@@ -85,6 +86,7 @@ voiceWss.on("connection", handleVoiceConnection);
 
 const extensionWss = new WebSocketServer({ noServer: true });
 const terminalWss = createTerminalWss();
+const sandboxExecWss = createSandboxExecWss();
 
 // Route WebSocket upgrades to the correct WSS
 httpServer.on("upgrade", (req, socket, head) => {
@@ -105,6 +107,10 @@ httpServer.on("upgrade", (req, socket, head) => {
     terminalWss.handleUpgrade(req, socket, head, (ws) => {
       terminalWss.emit("connection", ws, req);
     });
+  } else if (pathname === "/ws/sandbox-exec") {
+    sandboxExecWss.handleUpgrade(req, socket, head, (ws) => {
+      sandboxExecWss.emit("connection", ws, req);
+    });
   } else {
     socket.destroy();
   }
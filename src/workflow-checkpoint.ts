@@ -5,7 +5,7 @@
  * at each step; crashes trigger recovery from the last checkpoint.
  */
 
-export type CheckpointStatus = "pending" | "in_progress" | "completed" | "failed" | "skipped";
+export type CheckpointStatus = "pending" | "in_progress" | "completed" | "failed" | "skipped" | "cancelled";
 
 export interface WorkflowInstance {
   id: string;
@@ -80,7 +80,7 @@ export async function updateInstanceStatus(
     UPDATE workflow_instances SET
       status = ${status},
       current_step = COALESCE(${step ?? null}, current_step),
-      completed_at = ${status === "completed" || status === "failed" ? sql`NOW()` : null},
+      completed_at = ${status === "completed" || status === "failed" || status === "cancelled" ? sql`NOW()` : null},
       error_message = ${error ?? null}
     WHERE id = ${id}
   `;
@@ -117,7 +117,7 @@ export async function updateCheckpoint(
     UPDATE workflow_checkpoints SET
       status = ${opts.status},
       output = ${opts.output ? JSON.stringify(opts.output) : sql`output`},
-      completed_at = ${opts.status === "completed" || opts.status === "failed" ? sql`NOW()` : null},
+      completed_at = ${opts.status === "completed" || opts.status === "failed" || opts.status === "cancelled" ? sql`NOW()` : null},
       error_message = ${opts.error_message ?? null}
     WHERE workflow_id = ${workflowId} AND step = ${step}
     RETURNING *
@@ -10,7 +10,21 @@ import { type MessageType, MESSAGE_TYPES } from "./archetype-schema.ts";
 
 // ── Types ────────────────────────────────────────────────────────
 
+/**
+ * Step kinds. "agent" (the default) dispatches one agent. The others are
+ * composite: they run their body as child workflow instances so each
+ * iteration / child / branch is checkpointed and resumable on its own.
+ *  - loop: repeat a body until an exit condition holds, at most max_iterations
+ *  - subworkflow: run another WorkflowConfig by name
+ *  - parallel: run branches concurrently and join on a barrier
+ */
+export type WorkflowStepKind = "agent" | "loop" | "subworkflow" | "parallel";
+
+export const WORKFLOW_STEP_KINDS: readonly WorkflowStepKind[] = ["agent", "loop", "subworkflow", "parallel"];
+
 export interface WorkflowStepConfig {
+  kind?: WorkflowStepKind;
+  /** Agent to dispatch. For composite kinds, an optional owner label used in checkpoints and events. */
   agent: string;
   action: string;
   instruction: string;
@@ -19,6 +33,30 @@ export interface WorkflowStepConfig {
   consumes?: MessageType;
   parallel_with?: number[];
   on_failure?: "retry" | "skip" | "escalate";
+
+  // ── loop / subworkflow ──
+  /** Inline body for a loop. */
+  steps?: WorkflowStepConfig[];
+  /** Body by workflow name — the child workflow for subworkflow, or the loop body. */
+  workflow?: string;
+
+  // ── loop ──
+  /** Upper bound on loop iterations (default 3). */
+  max_iterations?: number;
+  /** Exit the loop when the body's final output text matches this regex (case-insensitive). */
+  until_output_matches?: string;
+  /** Exit the loop when this key in the body's final output metadata is truthy. */
+  until_metadata_key?: string;
+  /** What to do when max_iterations is reached without meeting the exit condition (default "fail"). */
+  on_exhausted?: "fail" | "continue";
+
+  // ── parallel ──
+  /** Inline branches, each a list of steps. */
+  branches?: WorkflowStepConfig[][];
+  /** Branches by workflow name. */
+  workflows?: string[];
+  /** Join barrier: "all" branches must complete (default), or "any" one. */
+  join?: "all" | "any";
 }
 
 export interface WorkflowConfig {
@@ -28,6 +66,8 @@ export interface WorkflowConfig {
   steps: WorkflowStepConfig[];
   timeout_seconds?: number;
   on_complete?: string;
+  /** Set by parseWorkflowYaml for YAML it can't represent; reported by validateWorkflowConfig. */
+  parse_errors?: WorkflowValidationError[];
 }
 
 export interface WorkflowValidationError {
@@ -47,18 +87,31 @@ export interface WorkflowValidationResult {
  * - Top-level scalar fields (name, description, timeout_seconds)
  * - Top-level array fields (triggers)
  * - steps array with nested objects
+ *
+ * Inline step bodies (a step's own `steps` or `branches` list) are not
+ * supported: they are skipped and reported in `parse_errors`. Name the body
+ * as its own workflow and reference it with `workflow` / `workflows`.
  */
 export function parseWorkflowYaml(content: string): WorkflowConfig | null {
   const lines = content.split("\n");
   const config: Record<string, any> = {};
+  const parseErrors: WorkflowValidationError[] = [];
   let currentArray: string | null = null;
   let currentArrayItems: any[] = [];
   let currentObj: Record<string, any> | null = null;
+  // Indent of a rejected nested block; deeper lines belong to it
+  let skipIndent: number | null = null;
 
   for (const rawLine of lines) {
     const line = rawLine.replace(/\r$/, "");
     if (line.trim().startsWith("#") || line.trim() === "") continue;
 
+    const indent = line.length - line.trimStart().length;
+    if (skipIndent !== null) {
+      if (indent > skipIndent) continue;
+      skipIndent = null;
+    }
+
     // Top-level key: value
     const topMatch = line.match(/^(\w[\w_]*):\s*(.*)$/);
     if (topMatch && !line.startsWith("  ") && !line.startsWith("\t")) {
@@ -81,8 +134,8 @@ export function parseWorkflowYaml(content: string): WorkflowConfig | null {
       }
 
       // Inline value
-      if (val.startsWith("[") && val.endsWith("]")) {
-        config[key] = val.slice(1, -1).split(",").map(s => s.trim().replace(/^["']|["']$/g, "")).filter(Boolean);
+      if (LIST_FIELDS.has(key)) {
+        config[key] = parseYamlList(val);
       } else if (!isNaN(Number(val))) {
         config[key] = Number(val);
       } else {
@@ -97,19 +150,34 @@ export function parseWorkflowYaml(content: string): WorkflowConfig | null {
       if (currentObj) { currentArrayItems.push(currentObj); currentObj = null; }
 
       const itemVal = arrayItemMatch[1].trim();
+      const nestedKey = itemVal.match(/^(\w+):/)?.[1];
+      if (currentArray === "steps" && nestedKey && INLINE_BODY_FIELDS.has(nestedKey)) {
+        parseErrors.push(inlineBodyError(currentArrayItems.length, nestedKey));
+        currentObj = {};
+        skipIndent = line.indexOf(nestedKey, line.indexOf("-"));
+        continue;
+      }
       const kvMatch = itemVal.match(/^(\w+):\s*(.+)$/);
       if (kvMatch) {
-        currentObj = { [kvMatch[1]]: parseYamlValue(kvMatch[2].trim()) };
+        currentObj = { [kvMatch[1]]: parseYamlField(kvMatch[1], kvMatch[2].trim()) };
       } else {
         currentArrayItems.push(parseYamlValue(itemVal));
       }
       continue;
     }
 
+    // Inline step body under a step — not representable here
+    const bodyMatch = line.match(/^\s{4,}(\w[\w_]*):/);
+    if (bodyMatch && currentObj && currentArray === "steps" && INLINE_BODY_FIELDS.has(bodyMatch[1])) {
+      parseErrors.push(inlineBodyError(currentArrayItems.length, bodyMatch[1]));
+      skipIndent = indent;
+      continue;
+    }
+
     // Nested key under array item: "    skill: code_changes"
     const nestedMatch = line.match(/^\s{4,}(\w[\w_]*):\s*(.+)$/);
     if (nestedMatch && currentObj) {
-      currentObj[nestedMatch[1]] = parseYamlValue(nestedMatch[2].trim());
+      currentObj[nestedMatch[1]] = parseYamlField(nestedMatch[1], nestedMatch[2].trim());
       continue;
     }
   }
@@ -127,6 +195,7 @@ export function parseWorkflowYaml(content: string): WorkflowConfig | null {
     description: config.description ?? "",
     triggers: config.triggers as string[] | undefined,
     steps: (config.steps as Record<string, any>[]).map(s => ({
+      kind: s.kind as WorkflowStepKind | undefined,
       agent: s.agent ?? "",
       action: s.skill ?? s.action ?? "none",
       instruction: s.instruction ?? "",
@@ -134,17 +203,54 @@ export function parseWorkflowYaml(content: string): WorkflowConfig | null {
       produces: s.produces as MessageType | undefined,
       consumes: s.consumes as MessageType | undefined,
       on_failure: s.on_failure as "retry" | "skip" | "escalate" | undefined,
+      workflow: s.workflow as string | undefined,
+      max_iterations: s.max_iterations as number | undefined,
+      until_output_matches: s.until_output_matches !== undefined ? String(s.until_output_matches) : undefined,
+      until_metadata_key: s.until_metadata_key as string | undefined,
+      on_exhausted: s.on_exhausted as "fail" | "continue" | undefined,
+      workflows: s.workflows as string[] | undefined,
+      join: s.join as "all" | "any" | undefined,
     })),
     timeout_seconds: config.timeout_seconds as number | undefined,
     on_complete: config.on_complete as string | undefined,
+    ...(parseErrors.length ? { parse_errors: parseErrors } : {}),
+  };
+}
+
+/** Step fields holding an inline body, which this parser rejects. */
+const INLINE_BODY_FIELDS = new Set(["steps", "branches"]);
+
+function inlineBodyError(stepIndex: number, key: string): WorkflowValidationError {
+  const ref = key === "steps" ? "workflow" : "workflows";
+  return {
+    field: `steps[${stepIndex}].${key}`,
+    message: `Inline ${key} are not supported in YAML workflows — define the body as its own workflow and reference it with ${ref}`,
   };
 }
 
+/** Fields whose value is a list; an inline value is a flow sequence ([a, b]) or a single item. */
+const LIST_FIELDS = new Set(["triggers", "workflows"]);
+
+function parseYamlField(key: string, val: string): string | number | boolean | string[] {
+  return LIST_FIELDS.has(key) ? parseYamlList(val) : parseYamlValue(val);
+}
+
+function parseYamlList(val: string): string[] {
+  if (val.startsWith("[") && val.endsWith("]")) {
+    return val.slice(1, -1).split(",").map(s => unquote(s.trim())).filter(Boolean);
+  }
+  return [unquote(val)];
+}
+
 function parseYamlValue(val: string): string | number | boolean {
   if (val === "true") return true;
   if (val === "false") return false;
   if (val === "none" || val === "null") return "none";
   if (!isNaN(Number(val)) && val !== "") return Number(val);
+  return unquote(val);
+}
+
+function unquote(val: string): string {
   return val.replace(/^["']|["']$/g, "");
 }
 
@@ -157,7 +263,7 @@ export function validateWorkflowConfig(
   config: WorkflowConfig,
   knownAgents?: Set<string>,
 ): WorkflowValidationResult {
-  const errors: WorkflowValidationError[] = [];
+  const errors: WorkflowValidationError[] = [...(config.parse_errors ?? [])];
   const agents = knownAgents ?? KNOWN_AGENTS;
 
   if (!config.name.trim()) {
@@ -168,35 +274,89 @@ export function validateWorkflowConfig(
     errors.push({ field: "steps", message: "Workflow must have at least one step" });
   }
 
+  validateSteps(config.steps, "steps", agents, errors);
+
+  return { valid: errors.length === 0, errors };
+}
+
+function validateSteps(
+  steps: WorkflowStepConfig[],
+  path: string,
+  agents: Set<string>,
+  errors: WorkflowValidationError[],
+): void {
   const validMessageTypes = new Set<string>(MESSAGE_TYPES);
 
-  for (let i = 0; i < config.steps.length; i++) {
-    const step = config.steps[i];
-    if (!step.agent) {
-      errors.push({ field: `steps[${i}].agent`, message: "Step must have an agent" });
-    } else if (!agents.has(step.agent)) {
-      errors.push({ field: `steps[${i}].agent`, message: `Unknown agent "${step.agent}"` });
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const field = `${path}[${i}]`;
+    const kind = step.kind ?? "agent";
+
+    if (!WORKFLOW_STEP_KINDS.includes(kind)) {
+      errors.push({ field: `${field}.kind`, message: `Unknown step kind "${kind}"` });
+      continue;
+    }
+
+    if (kind === "agent") {
+      if (!step.agent) {
+        errors.push({ field: `${field}.agent`, message: "Step must have an agent" });
+      } else if (!agents.has(step.agent)) {
+        errors.push({ field: `${field}.agent`, message: `Unknown agent "${step.agent}"` });
+      }
+    }
+
+    if (kind === "loop") {
+      const hasInline = Array.isArray(step.steps) && step.steps.length > 0;
+      if (hasInline === !!step.workflow) {
+        errors.push({ field, message: "Loop needs exactly one of steps or workflow" });
+      }
+      if (hasInline) validateSteps(step.steps!, `${field}.steps`, agents, errors);
+      if (step.max_iterations !== undefined && (!Number.isInteger(step.max_iterations) || step.max_iterations < 1)) {
+        errors.push({ field: `${field}.max_iterations`, message: "max_iterations must be a positive integer" });
+      }
+      if (!step.until_output_matches && !step.until_metadata_key) {
+        errors.push({ field, message: "Loop needs an exit condition (until_output_matches or until_metadata_key)" });
+      }
+      if (step.until_output_matches) {
+        try { new RegExp(step.until_output_matches, "i"); } catch {
+          errors.push({ field: `${field}.until_output_matches`, message: "Invalid regular expression" });
+        }
+      }
+    }
+
+    if (kind === "subworkflow" && !step.workflow) {
+      errors.push({ field: `${field}.workflow`, message: "Subworkflow step must name a workflow" });
+    }
+
+    if (kind === "parallel") {
+      const branches = step.branches?.length ?? 0;
+      const named = step.workflows?.length ?? 0;
+      if (branches === 0 && named === 0) {
+        errors.push({ field, message: "Parallel step needs branches or workflows" });
+      } else if (branches > 0 && named > 0) {
+        errors.push({ field, message: "Parallel step needs exactly one of branches or workflows" });
+      }
+      step.branches?.forEach((branch, b) => validateSteps(branch, `${field}.branches[${b}]`, agents, errors));
     }
 
     if (step.produces && !validMessageTypes.has(step.produces)) {
-      errors.push({ field: `steps[${i}].produces`, message: `Invalid message type "${step.produces}"` });
+      errors.push({ field: `${field}.produces`, message: `Invalid message type "${step.produces}"` });
     }
     if (step.consumes && !validMessageTypes.has(step.consumes)) {
-      errors.push({ field: `steps[${i}].consumes`, message: `Invalid message type "${step.consumes}"` });
+      errors.push({ field: `${field}.consumes`, message: `Invalid message type "${step.consumes}"` });
     }
 
     if (step.timeout_seconds !== undefined && step.timeout_seconds <= 0) {
-      errors.push({ field: `steps[${i}].timeout_seconds`, message: "Timeout must be positive" });
+      errors.push({ field: `${field}.timeout_seconds`, message: "Timeout must be positive" });
     }
   }
-
-  return { valid: errors.length === 0, errors };
 }
 
 // ── File loading ─────────────────────────────────────────────────
 
 const WORKFLOWS_DIR = "config/workflows";
 
+/** Loads every parseable config; ones with parse_errors are left out, since they can't run as written. */
 export function loadWorkflowConfigs(dir?: string): WorkflowConfig[] {
   const workflowDir = dir ?? WORKFLOWS_DIR;
   if (!existsSync(workflowDir)) return [];
@@ -207,7 +367,7 @@ export function loadWorkflowConfigs(dir?: string): WorkflowConfig[] {
   for (const file of files) {
     const content = readFileSync(`${workflowDir}/${file}`, "utf-8");
     const config = parseWorkflowYaml(content);
-    if (config) configs.push(config);
+    if (config && !config.parse_errors) configs.push(config);
   }
 
   return configs;
@@ -3,10 +3,17 @@
  *
  * Orchestrates agent step transitions for declarative workflows.
  * Reads workflow configs, manages checkpoints, handles timeouts and failures.
+ *
+ * Composite steps (loop, subworkflow, parallel) run their bodies as child
+ * workflow instances. The parent step's checkpoint holds the composite's
+ * progress (current iteration, child instance ids) while it runs, so
+ * resumeWorkflow() picks up inside the loop iteration, child workflow or
+ * branch where the relay stopped. When an "any" join is won, the losing
+ * branches are aborted and their checkpoints marked cancelled.
  */
 
 import { log } from "./logger.ts";
-import type { WorkflowConfig, WorkflowStepConfig } from "./workflow-config.ts";
+import { loadWorkflowByName, type WorkflowConfig, type WorkflowStepConfig } from "./workflow-config.ts";
 import {
   createInstance,
   createCheckpoint,
@@ -16,6 +23,7 @@ import {
   getCheckpoints,
   getLastCompletedStep,
   type WorkflowInstance,
+  type WorkflowCheckpoint,
   type CheckpointStatus,
 } from "./workflow-checkpoint.ts";
 import {
@@ -24,6 +32,13 @@ import {
   type MessageType,
 } from "./workflow-message-types.ts";
 import { getEscalationTarget, type RaciMatrix } from "./workflow-raci.ts";
+import {
+  createJoinBarrier,
+  recordAgentResult,
+  resolveJoinAction,
+  formatJoinActionMessage,
+  aggregateOutputs,
+} from "./workflow-parallel.ts";
 
 const logger = log.child("workflow-engine");
 
@@ -38,7 +53,11 @@ export type WorkflowEventType =
   | "workflow.step_timeout"
   | "workflow.completed"
   | "workflow.failed"
-  | "workflow.escalated";
+  | "workflow.escalated"
+  | "workflow.loop_iteration"
+  | "workflow.child_started"
+  | "workflow.child_completed"
+  | "workflow.joined";
 
 export interface WorkflowEvent {
   type: WorkflowEventType;
@@ -46,16 +65,35 @@ export interface WorkflowEvent {
   step?: number;
   agent?: string;
   message?: string;
+  /** Set on child_started / child_completed — the child instance id. */
+  child_workflow_id?: string;
+  /** Set on loop_iteration — 1-based iteration number. */
+  iteration?: number;
   timestamp: string;
 }
 
+/** Per-dispatch context passed to the executor. */
+export interface StepContext {
+  /**
+   * Where the step sits in the top-level config, e.g. "steps[2]",
+   * "steps[1].branches[0][1]", or "steps[3]<review>.steps[0]" inside a
+   * workflow referenced by name.
+   */
+  path: string;
+  /** Aborted when the step's result is no longer wanted (a losing "any" branch). */
+  signal?: AbortSignal;
+}
+
 export interface StepExecutor {
-  (agent: string, instruction: string, input?: Record<string, unknown>): Promise<{
+  (agent: string, instruction: string, input?: Record<string, unknown>, context?: StepContext): Promise<{
     output: string;
     metadata?: Record<string, unknown>;
   }>;
 }
 
+/** Looks up a WorkflowConfig by name for subworkflow, loop and parallel bodies. */
+export type WorkflowResolver = (name: string) => WorkflowConfig | null | Promise<WorkflowConfig | null>;
+
 export interface WorkflowEngineOpts {
   sql: any;
   config: WorkflowConfig;
@@ -65,8 +103,44 @@ export interface WorkflowEngineOpts {
   onEvent?: (event: WorkflowEvent) => void | Promise<void>;
   workItemId?: string;
   createdBy?: string;
+  /** Defaults to loading from config/workflows/. */
+  resolveWorkflow?: WorkflowResolver;
+}
+
+export interface ResumeWorkflowOpts extends WorkflowEngineOpts {
+  /** The instance to resume. `config` must be the workflow it was started with. */
+  workflowId: string;
+}
+
+/** Default loop bound when a loop step doesn't set max_iterations. */
+export const DEFAULT_MAX_ITERATIONS = 3;
+
+/** Guard against subworkflows that (indirectly) call themselves. */
+export const MAX_WORKFLOW_DEPTH = 8;
+
+interface RunContext {
+  opts: WorkflowEngineOpts;
+  events: WorkflowEvent[];
+  emit: (event: WorkflowEvent) => Promise<void>;
+}
+
+interface InstanceResult {
+  status: "completed" | "failed" | "cancelled";
+  output: Record<string, unknown>;
+  error?: string;
+}
+
+interface StepResult {
+  output: string;
+  metadata?: Record<string, unknown>;
 }
 
+/** Composite progress kept in the parent step's checkpoint output while it runs. */
+type CompositeState =
+  | { kind: "loop"; iteration: number; child_workflow_id: string | null; input: Record<string, unknown> }
+  | { kind: "subworkflow"; child_workflow_id: string | null }
+  | { kind: "parallel"; children: (string | null)[] };
+
 // ── Engine ───────────────────────────────────────────────────────
 
 /**
@@ -78,13 +152,8 @@ export async function runWorkflow(opts: WorkflowEngineOpts): Promise<{
   instance: WorkflowInstance;
   events: WorkflowEvent[];
 }> {
-  const { sql, config, executor, onEvent } = opts;
-  const events: WorkflowEvent[] = [];
-
-  async function emit(event: WorkflowEvent): Promise<void> {
-    events.push(event);
-    if (onEvent) await onEvent(event);
-  }
+  const { sql, config } = opts;
+  const ctx = createContext(opts);
 
   // 1. Create instance
   const instance = await createInstance(sql, {
@@ -94,59 +163,152 @@ export async function runWorkflow(opts: WorkflowEngineOpts): Promise<{
   });
 
   await updateInstanceStatus(sql, instance.id, "in_progress");
-  await emit({ type: "workflow.started", workflow_id: instance.id, timestamp: now() });
+  await ctx.emit({ type: "workflow.started", workflow_id: instance.id, timestamp: now() });
+
+  // 2. Execute steps sequentially
+  await executeSteps(ctx, instance.id, config, 0, {}, 0, "steps");
+
+  const finalInstance = await getInstance(sql, instance.id);
+  return { instance: finalInstance ?? instance, events: ctx.events };
+}
+
+/**
+ * Resume an interrupted (or failed) workflow instance from its checkpoints.
+ * Completed and skipped steps are not re-run; a composite step resumes inside
+ * the loop iteration, child workflow or parallel branches it had reached.
+ */
+export async function resumeWorkflow(opts: ResumeWorkflowOpts): Promise<{
+  instance: WorkflowInstance;
+  events: WorkflowEvent[];
+}> {
+  const { sql, config, workflowId } = opts;
+  const ctx = createContext(opts);
 
-  // 2. Resume from last checkpoint if recovering
-  const lastCompleted = await getLastCompletedStep(sql, instance.id);
-  const startStep = lastCompleted + 1;
+  const instance = await getInstance(sql, workflowId);
+  if (!instance) throw new Error(`Workflow instance not found: ${workflowId}`);
+  if (instance.status === "completed") return { instance, events: ctx.events };
 
-  // 3. Execute steps sequentially
+  const { startStep, lastOutput } = resumePoint(await getCheckpoints(sql, workflowId));
+  await updateInstanceStatus(sql, workflowId, "in_progress", startStep);
+  await ctx.emit({ type: "workflow.started", workflow_id: workflowId, step: startStep, message: `resumed at step ${startStep}`, timestamp: now() });
+
+  await executeSteps(ctx, workflowId, config, startStep, lastOutput, 0, "steps");
+
+  const finalInstance = await getInstance(sql, workflowId);
+  return { instance: finalInstance ?? instance, events: ctx.events };
+}
+
+/**
+ * Find where to resume: the first step without a completed/skipped checkpoint,
+ * and the output of the last completed step before it.
+ */
+export function resumePoint(checkpoints: WorkflowCheckpoint[]): { startStep: number; lastOutput: Record<string, unknown> } {
+  const byStep = new Map(checkpoints.map(c => [c.step, c]));
+  let step = 0;
   let lastOutput: Record<string, unknown> = {};
 
+  for (let cp = byStep.get(step); cp && (cp.status === "completed" || cp.status === "skipped"); cp = byStep.get(++step)) {
+    if (cp.status === "completed") lastOutput = { ...(cp.output ?? {}), _prev_agent: cp.agent };
+  }
+  return { startStep: step, lastOutput };
+}
+
+function createContext(opts: WorkflowEngineOpts): RunContext {
+  const events: WorkflowEvent[] = [];
+  return {
+    opts,
+    events,
+    async emit(event) {
+      events.push(event);
+      if (opts.onEvent) await opts.onEvent(event);
+    },
+  };
+}
+
+/**
+ * Run steps [startStep..] of one instance. Depth 0 is the top-level workflow;
+ * deeper instances are children of a composite step, whose failures are
+ * reported back to the parent instead of escalated. `path` locates this
+ * step list in the top-level config (see StepContext.path).
+ */
+async function executeSteps(
+  ctx: RunContext,
+  workflowId: string,
+  config: WorkflowConfig,
+  startStep: number,
+  input: Record<string, unknown>,
+  depth: number,
+  path: string,
+  signal?: AbortSignal,
+): Promise<InstanceResult> {
+  const { sql, executor } = ctx.opts;
+  let lastOutput = input;
+
   for (let i = startStep; i < config.steps.length; i++) {
-    const step = config.steps[i];
-    const timeoutMs = (step.timeout_seconds ?? config.timeout_seconds ?? 120) * 1000;
+    if (signal?.aborted) {
+      await updateInstanceStatus(sql, workflowId, "cancelled", i, "Cancelled before the step started");
+      return { status: "cancelled", output: lastOutput };
+    }
 
-    // Create checkpoint
-    await createCheckpoint(sql, {
-      workflow_id: instance.id,
+    const step = config.steps[i];
+    const stepPath = `${path}[${i}]`;
+    const kind = step.kind ?? "agent";
+    const agent = stepAgent(step);
+    // Composite steps only time out when a timeout is set explicitly — their bodies carry their own
+    const timeoutSeconds = kind === "agent" ? (step.timeout_seconds ?? config.timeout_seconds ?? 120) : step.timeout_seconds;
+
+    // Create checkpoint (keeps any composite progress from before a restart)
+    const checkpoint = await createCheckpoint(sql, {
+      workflow_id: workflowId,
       step: i,
-      agent: step.agent,
+      agent,
       input: lastOutput,
     });
 
-    await updateInstanceStatus(sql, instance.id, "in_progress", i);
-    await emit({ type: "workflow.step_started", workflow_id: instance.id, step: i, agent: step.agent, timestamp: now() });
+    await updateInstanceStatus(sql, workflowId, "in_progress", i);
+    await ctx.emit({ type: "workflow.step_started", workflow_id: workflowId, step: i, agent, timestamp: now() });
 
     // Validate message contracts if registry is available
-    if (step.produces && opts.contractRegistry) {
-      const v = validateMessage(opts.contractRegistry, step.agent, step.agent, step.produces);
+    if (kind === "agent" && step.produces && ctx.opts.contractRegistry) {
+      const v = validateMessage(ctx.opts.contractRegistry, step.agent, step.agent, step.produces);
       if (!v.valid) {
         logger.warn(`[workflow] Contract violation: ${v.error}`);
       }
     }
 
+    const run = (): Promise<StepResult> => {
+      const attempt = kind === "agent"
+        ? () => executor(step.agent, step.instruction, lastOutput, { path: stepPath, signal })
+        : () => runCompositeStep(ctx, workflowId, config, i, step, lastOutput, checkpoint, depth, stepPath, signal);
+      const timed = () => (timeoutSeconds ? executeWithTimeout(attempt, timeoutSeconds * 1000) : attempt());
+      return signal ? abortable(timed(), signal) : timed();
+    };
+
     // Execute with timeout
     try {
-      const result = await executeWithTimeout(
-        () => executor(step.agent, step.instruction, lastOutput),
-        timeoutMs,
-      );
+      const result = await run();
 
-      await updateCheckpoint(sql, instance.id, i, {
+      await updateCheckpoint(sql, workflowId, i, {
         status: "completed",
         output: { text: result.output, ...result.metadata },
       });
 
-      lastOutput = { text: result.output, ...result.metadata, _prev_agent: step.agent };
-      await emit({ type: "workflow.step_completed", workflow_id: instance.id, step: i, agent: step.agent, timestamp: now() });
+      lastOutput = { text: result.output, ...result.metadata, _prev_agent: agent };
+      await ctx.emit({ type: "workflow.step_completed", workflow_id: workflowId, step: i, agent, timestamp: now() });
 
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
+
+      if (signal?.aborted) {
+        await updateCheckpoint(sql, workflowId, i, { status: "cancelled", error_message: message });
+        await updateInstanceStatus(sql, workflowId, "cancelled", i, message);
+        return { status: "cancelled", output: lastOutput };
+      }
+
       const isTimeout = message.includes("timeout");
 
       if (isTimeout) {
-        await emit({ type: "workflow.step_timeout", workflow_id: instance.id, step: i, agent: step.agent, message, timestamp: now() });
+        await ctx.emit({ type: "workflow.step_timeout", workflow_id: workflowId, step: i, agent, message, timestamp: now() });
       }
 
       // Handle failure based on step config
@@ -155,16 +317,13 @@ export async function runWorkflow(opts: WorkflowEngineOpts): Promise<{
       if (failureAction === "retry") {
         // Retry once
         try {
-          const retryResult = await executeWithTimeout(
-            () => executor(step.agent, step.instruction, lastOutput),
-            timeoutMs,
-          );
-          await updateCheckpoint(sql, instance.id, i, {
+          const retryResult = await run();
+          await updateCheckpoint(sql, workflowId, i, {
             status: "completed",
-            output: { text: retryResult.output, retried: true },
+            output: { text: retryResult.output, ...retryResult.metadata, retried: true },
           });
-          lastOutput = { text: retryResult.output, _prev_agent: step.agent };
-          await emit({ type: "workflow.step_completed", workflow_id: instance.id, step: i, agent: step.agent, message: "succeeded on retry", timestamp: now() });
+          lastOutput = { text: retryResult.output, ...retryResult.metadata, _prev_agent: agent };
+          await ctx.emit({ type: "workflow.step_completed", workflow_id: workflowId, step: i, agent, message: "succeeded on retry", timestamp: now() });
           continue;
         } catch {
           // Retry failed — fall through to escalate
@@ -172,40 +331,288 @@ export async function runWorkflow(opts: WorkflowEngineOpts): Promise<{
       }
 
       if (failureAction === "skip") {
-        await updateCheckpoint(sql, instance.id, i, { status: "skipped", error_message: message });
-        await emit({ type: "workflow.step_skipped", workflow_id: instance.id, step: i, agent: step.agent, message, timestamp: now() });
+        await updateCheckpoint(sql, workflowId, i, { status: "skipped", error_message: message });
+        await ctx.emit({ type: "workflow.step_skipped", workflow_id: workflowId, step: i, agent, message, timestamp: now() });
         continue;
       }
 
-      // Escalate (default)
-      await updateCheckpoint(sql, instance.id, i, { status: "failed", error_message: message });
-      const escalationTarget = opts.raciMatrix
-        ? getEscalationTarget(opts.raciMatrix, config.name)
-        : "Dave";
-
-      await emit({
-        type: "workflow.escalated",
-        workflow_id: instance.id,
-        step: i,
-        agent: step.agent,
-        message: `Step ${i} (${step.agent}) failed: ${message}. Escalated to ${escalationTarget}.`,
-        timestamp: now(),
-      });
+      // Escalate (default) — child instances report to their parent step instead
+      await updateCheckpoint(sql, workflowId, i, { status: "failed", error_message: message });
+      if (depth === 0) {
+        const escalationTarget = ctx.opts.raciMatrix
+          ? getEscalationTarget(ctx.opts.raciMatrix, config.name)
+          : "Dave";
+
+        await ctx.emit({
+          type: "workflow.escalated",
+          workflow_id: workflowId,
+          step: i,
+          agent,
+          message: `Step ${i} (${agent}) failed: ${message}. Escalated to ${escalationTarget}.`,
+          timestamp: now(),
+        });
+      }
+
+      await ctx.emit({ type: "workflow.step_failed", workflow_id: workflowId, step: i, agent, message, timestamp: now() });
+      await updateInstanceStatus(sql, workflowId, "failed", i, message);
+      return { status: "failed", output: lastOutput, error: message };
+    }
+  }
+
+  // All steps completed
+  await updateInstanceStatus(sql, workflowId, "completed");
+  if (depth === 0) {
+    await ctx.emit({ type: "workflow.completed", workflow_id: workflowId, timestamp: now() });
+  }
+  return { status: "completed", output: lastOutput };
+}
+
+// ── Composite steps ──────────────────────────────────────────────
+
+async function runCompositeStep(
+  ctx: RunContext,
+  workflowId: string,
+  config: WorkflowConfig,
+  stepIndex: number,
+  step: WorkflowStepConfig,
+  input: Record<string, unknown>,
+  checkpoint: WorkflowCheckpoint | undefined,
+  depth: number,
+  stepPath: string,
+  signal?: AbortSignal,
+): Promise<StepResult> {
+  if (depth + 1 >= MAX_WORKFLOW_DEPTH) {
+    throw new Error(`Workflow nesting exceeds ${MAX_WORKFLOW_DEPTH} levels (recursive subworkflow?)`);
+  }
+
+  const saved = checkpoint?.output as CompositeState | null | undefined;
+  const parent: ParentRef = { workflowId, step: stepIndex, depth };
+  const save = (state: CompositeState) =>
+    updateCheckpoint(ctx.opts.sql, workflowId, stepIndex, { status: "in_progress", output: state as unknown as Record<string, unknown> });
+
+  switch (step.kind) {
+    case "subworkflow": {
+      const child = await resolveWorkflow(ctx, step.workflow!);
+      const resumeId = saved?.kind === "subworkflow" ? saved.child_workflow_id : null;
+      const result = await runChild(ctx, parent, child, `${stepPath}<${step.workflow}>.steps`, input, resumeId, {},
+        id => save({ kind: "subworkflow", child_workflow_id: id }), signal);
+      if (result.status === "failed") throw new Error(`Subworkflow "${child.name}" failed: ${result.error}`);
+      return toStepResult(result.output);
+    }
 
-      await emit({ type: "workflow.step_failed", workflow_id: instance.id, step: i, agent: step.agent, message, timestamp: now() });
-      await updateInstanceStatus(sql, instance.id, "failed", i, message);
+    case "loop": {
+      const body = step.workflow
+        ? await resolveWorkflow(ctx, step.workflow)
+        : inlineConfig(`${config.name}.step${stepIndex}`, step.steps ?? []);
+      const bodyPath = step.workflow ? `${stepPath}<${step.workflow}>.steps` : `${stepPath}.steps`;
+      const max = step.max_iterations ?? DEFAULT_MAX_ITERATIONS;
+      const resumed = saved?.kind === "loop" ? saved : null;
+
+      let iterationInput = resumed?.input ?? input;
+      let last: InstanceResult | null = null;
+
+      for (let n = resumed?.iteration ?? 1; n <= max; n++) {
+        const resumeId = resumed && n === resumed.iteration ? resumed.child_workflow_id : null;
+        const thisInput = iterationInput;
+        last = await runChild(ctx, parent, body, bodyPath, thisInput, resumeId, { iteration: n },
+          id => save({ kind: "loop", iteration: n, child_workflow_id: id, input: thisInput }), signal);
+        if (last.status === "cancelled") throw new Error("Loop cancelled");
+
+        const passed = last.status === "completed" && loopExitMet(step, last.output);
+        await ctx.emit({
+          type: "workflow.loop_iteration",
+          workflow_id: workflowId,
+          step: stepIndex,
+          iteration: n,
+          message: passed ? "exit condition met"
+            : last.status === "failed" ? `iteration failed: ${last.error}`
+            : "exit condition not met",
+          timestamp: now(),
+        });
+
+        if (passed) return toStepResult(last.output, { iterations: n, loop_passed: true });
+
+        // Feed this iteration's result (e.g. critic feedback) into the next one
+        iterationInput = { ...last.output, _loop_iteration: n, ...(last.error ? { _loop_error: last.error } : {}) };
+      }
 
-      const updatedInstance = await getInstance(sql, instance.id);
-      return { instance: updatedInstance ?? instance, events };
+      if (step.on_exhausted === "continue") {
+        return toStepResult(last?.output ?? {}, { iterations: max, loop_passed: false });
+      }
+      throw new Error(`Loop exhausted ${max} iteration(s) without meeting its exit condition`);
     }
+
+    case "parallel": {
+      const branches = step.workflows?.length
+        ? await Promise.all(step.workflows.map(name => resolveWorkflow(ctx, name)))
+        : (step.branches ?? []).map((steps, b) => inlineConfig(`${config.name}.step${stepIndex}.branch${b}`, steps));
+      const branchPath = (b: number) => (step.workflows?.length ? `${stepPath}<${step.workflows[b]}>.steps` : `${stepPath}.branches[${b}]`);
+      const state: CompositeState = saved?.kind === "parallel" && saved.children.length === branches.length
+        ? { kind: "parallel", children: [...saved.children] }
+        : { kind: "parallel", children: branches.map(() => null) };
+
+      // Aborted when an "any" join is won, or when this step itself is cancelled
+      const branchAbort = new AbortController();
+      const cancelBranches = () => branchAbort.abort();
+      signal?.addEventListener("abort", cancelBranches, { once: true });
+
+      // Branch ids are persisted as they're created; serialize the writes
+      let saving: Promise<unknown> = Promise.resolve();
+      const runs = branches.map((branch, b) =>
+        runChild(ctx, parent, branch, branchPath(b), input, state.children[b], { branch: b }, id => {
+          state.children[b] = id;
+          saving = saving.then(() => save({ kind: "parallel", children: [...state.children] }));
+          return saving;
+        }, branchAbort.signal),
+      );
+
+      const agents = branches.map((branch, b) => ({ agent: `branch-${b}`, label: branch.name }));
+      let barrier = createJoinBarrier(stepIndex, agents);
+      const outcomes: string[] = branches.map(() => "pending");
+      const record = (r: InstanceResult, b: number) => {
+        outcomes[b] = r.status;
+        if (r.status === "cancelled") return;
+        barrier = recordAgentResult(barrier, `branch-${b}`, r.status, String(r.output.text ?? r.error ?? ""));
+      };
+      const branchMetadata = () => agents.map((_, b) => ({ branch: b, status: outcomes[b], child_workflow_id: state.children[b] }));
+
+      if (step.join === "any") {
+        // The first branch to complete wins; the rest are cancelled
+        const winner = await Promise.any(runs.map((run, b) => run.then(r => {
+          record(r, b);
+          if (r.status !== "completed") throw new Error(`branch ${b}: ${r.error ?? r.status}`);
+          return b;
+        }))).catch((err: unknown) => {
+          const errors: unknown[] = err instanceof AggregateError ? err.errors : [err];
+          throw new Error(`Parallel join failed (any): ${errors.map(e => e instanceof Error ? e.message : String(e)).join("; ")}`);
+        }).finally(() => {
+          signal?.removeEventListener("abort", cancelBranches);
+          cancelBranches();
+        });
+        // Wait for the losers to record their cancellation before moving on
+        await Promise.allSettled(runs);
+        await ctx.emit({
+          type: "workflow.joined",
+          workflow_id: workflowId,
+          step: stepIndex,
+          message: `[${workflowId}] branch-${winner} completed first. Proceeding with its output.`,
+          timestamp: now(),
+        });
+        return { output: aggregateOutputs(barrier), metadata: { winner, branches: branchMetadata() } };
+      }
+
+      const results = await Promise.all(runs).finally(() => signal?.removeEventListener("abort", cancelBranches));
+      results.forEach(record);
+      if (results.some(r => r.status === "cancelled")) throw new Error("Parallel step cancelled");
+      const action = resolveJoinAction(barrier);
+      await ctx.emit({ type: "workflow.joined", workflow_id: workflowId, step: stepIndex, message: formatJoinActionMessage(action, workflowId), timestamp: now() });
+
+      if (action.type === "proceed") {
+        return { output: action.aggregatedOutput, metadata: { branches: branchMetadata() } };
+      }
+      const failed = results.map((r, b) => r.status === "failed" ? `branch ${b}: ${r.error}` : null).filter(Boolean);
+      throw new Error(`Parallel join failed (all): ${failed.join("; ")}`);
+    }
+
+    default:
+      throw new Error(`Unsupported step kind "${step.kind}"`);
   }
+}
 
-  // 4. All steps completed
-  await updateInstanceStatus(sql, instance.id, "completed");
-  await emit({ type: "workflow.completed", workflow_id: instance.id, timestamp: now() });
+interface ParentRef {
+  workflowId: string;
+  step: number;
+  depth: number;
+}
 
-  const finalInstance = await getInstance(sql, instance.id);
-  return { instance: finalInstance ?? instance, events };
+/**
+ * Run (or resume) a child instance for a composite step.
+ * `onCreated` persists a new child's id in the parent checkpoint before any
+ * child step runs, so a restart always finds it.
+ */
+async function runChild(
+  ctx: RunContext,
+  parent: ParentRef,
+  config: WorkflowConfig,
+  path: string,
+  input: Record<string, unknown>,
+  existingId: string | null,
+  label: Record<string, unknown>,
+  onCreated: (childId: string) => Promise<unknown>,
+  signal?: AbortSignal,
+): Promise<InstanceResult> {
+  const { sql } = ctx.opts;
+  const existing = existingId ? await getInstance(sql, existingId) : null;
+  let childId: string;
+  let startStep = 0;
+  let childInput = input;
+
+  if (existing) {
+    childId = existing.id;
+    const point = resumePoint(await getCheckpoints(sql, childId));
+    if (existing.status === "completed") return { status: "completed", output: point.lastOutput };
+    startStep = point.startStep;
+    if (startStep > 0) childInput = point.lastOutput;
+  } else {
+    const child = await createInstance(sql, {
+      work_item_id: ctx.opts.workItemId,
+      context: { workflow_name: config.name, parent_workflow_id: parent.workflowId, parent_step: parent.step, ...label },
+      created_by: ctx.opts.createdBy,
+    });
+    childId = child.id;
+    await onCreated(childId);
+  }
+
+  await updateInstanceStatus(sql, childId, "in_progress", startStep);
+  await ctx.emit({
+    type: "workflow.child_started",
+    workflow_id: parent.workflowId,
+    step: parent.step,
+    child_workflow_id: childId,
+    message: existing ? `${config.name} resumed at step ${startStep}` : config.name,
+    timestamp: now(),
+  });
+
+  const result = await executeSteps(ctx, childId, config, startStep, childInput, parent.depth + 1, path, signal);
+
+  await ctx.emit({
+    type: "workflow.child_completed",
+    workflow_id: parent.workflowId,
+    step: parent.step,
+    child_workflow_id: childId,
+    message: result.status === "failed" ? `${config.name} failed: ${result.error}` : `${config.name} ${result.status}`,
+    timestamp: now(),
+  });
+  return result;
+}
+
+async function resolveWorkflow(ctx: RunContext, name: string): Promise<WorkflowConfig> {
+  const resolver = ctx.opts.resolveWorkflow ?? ((n: string) => loadWorkflowByName(n));
+  const config = await resolver(name);
+  if (!config) throw new Error(`Unknown workflow "${name}"`);
+  return config;
+}
+
+function inlineConfig(name: string, steps: WorkflowStepConfig[]): WorkflowConfig {
+  return { name, description: "", steps };
+}
+
+/** Loop exit: metadata flag or output pattern on the body's final output. */
+export function loopExitMet(step: WorkflowStepConfig, output: Record<string, unknown>): boolean {
+  if (step.until_metadata_key && output[step.until_metadata_key]) return true;
+  if (step.until_output_matches && typeof output.text === "string") {
+    return new RegExp(step.until_output_matches, "i").test(output.text);
+  }
+  return false;
+}
+
+function toStepResult(output: Record<string, unknown>, extra: Record<string, unknown> = {}): StepResult {
+  const { text, _prev_agent: _prev, ...metadata } = output;
+  return { output: typeof text === "string" ? text : "", metadata: { ...metadata, ...extra } };
+}
+
+function stepAgent(step: WorkflowStepConfig): string {
+  return step.agent || step.kind || "agent";
 }
 
 // ── Helpers ──────────────────────────────────────────────────────
@@ -214,11 +621,26 @@ function now(): string {
   return new Date().toISOString();
 }
 
+/** Reject as soon as `signal` aborts, leaving `promise` to settle on its own. */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new Error("Step cancelled"));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Step cancelled"));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 async function executeWithTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
-  return Promise.race([
-    fn(),
-    new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(`Step execution timeout after ${timeoutMs}ms`)), timeoutMs),
-    ),
-  ]);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      fn(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Step execution timeout after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
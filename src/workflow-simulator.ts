@@ -0,0 +1,365 @@
+/**
+ * Workflow Dry-Run Simulator
+ *
+ * Runs a WorkflowConfig through the real engine with mocked agents, so
+ * authoring mistakes surface before a workflow is enabled. The script
+ * supplies canned outcomes per step (or per agent); checkpoints go to an in-memory store
+ * instead of Postgres, and no agent is ever dispatched.
+ *
+ * The report combines the engine's WorkflowEvent sequence, the RACI
+ * escalation target each failure would reach, and a static pass over the
+ * step list for dead ends (steps that can never complete) and the steps
+ * they make unreachable.
+ */
+
+import {
+  runWorkflow,
+  MAX_WORKFLOW_DEPTH,
+  type StepExecutor,
+  type WorkflowEvent,
+  type WorkflowResolver,
+} from "./workflow-engine.ts";
+import {
+  loadWorkflowByName,
+  validateWorkflowConfig,
+  type WorkflowConfig,
+  type WorkflowStepConfig,
+  type WorkflowValidationError,
+} from "./workflow-config.ts";
+import { getCachedMatrix, getEscalationTarget, type RaciMatrix } from "./workflow-raci.ts";
+import type { AgentMessageContract } from "./workflow-message-types.ts";
+
+// ── Types ────────────────────────────────────────────────────────
+
+export type SimulatedOutcomeKind = "success" | "failure" | "timeout";
+
+export interface SimulatedOutcome {
+  outcome: SimulatedOutcomeKind;
+  /** Output text for a success (default "<agent> ok"). */
+  output?: string;
+  metadata?: Record<string, unknown>;
+  /** Error message for a failure. */
+  error?: string;
+}
+
+/**
+ * Canned outcomes keyed by step path ("steps[2]", "steps[1].branches[0][1]",
+ * "steps[3]<review>.steps[0]" — see StepContext.path) or by agent name. A
+ * path key wins over the agent's name, so two steps that share an agent can
+ * be scripted apart. A list is consumed one entry per dispatch under that
+ * key (retries and loop iterations included), with the last entry
+ * repeating. Unscripted steps succeed.
+ */
+export type SimulationScript = Record<string, SimulatedOutcome | SimulatedOutcome[]>;
+
+export interface SimulationOpts {
+  script?: SimulationScript;
+  /** Defaults to the cached matrix from config/raci-matrix.txt. */
+  raciMatrix?: RaciMatrix;
+  /** Defaults to loading from config/workflows/. */
+  resolveWorkflow?: WorkflowResolver;
+  knownAgents?: Set<string>;
+  contractRegistry?: Map<string, AgentMessageContract>;
+}
+
+export interface SimulatedDispatch {
+  /** Step path, as used for script keys. */
+  path: string;
+  agent: string;
+  instruction: string;
+  outcome: SimulatedOutcomeKind;
+}
+
+export interface SimulatedEscalation {
+  step: number;
+  agent: string;
+  target: string;
+  message: string;
+}
+
+export interface StepFinding {
+  /** Location in the config, e.g. "steps[2]" or "steps[1].steps[0]". */
+  path: string;
+  reason: string;
+}
+
+export interface SimulationReport {
+  workflow: string;
+  status: "completed" | "failed";
+  events: WorkflowEvent[];
+  dispatches: SimulatedDispatch[];
+  escalations: SimulatedEscalation[];
+  /** Who a top-level failure escalates to. */
+  escalation_target: string;
+  /** False when the RACI matrix has no entry for this workflow (target falls back to the default). */
+  raci_defined: boolean;
+  /** Top-level steps this scripted run never started. */
+  steps_not_run: number[];
+  /** Steps that can never complete, whatever the agents return. */
+  dead_end_steps: StepFinding[];
+  /** Steps that sit behind a dead end and can never start. */
+  unreachable_steps: StepFinding[];
+  validation_errors: WorkflowValidationError[];
+}
+
+// ── Simulation ───────────────────────────────────────────────────
+
+/**
+ * Simulate a workflow end to end with scripted agent outcomes.
+ * Never throws for authoring problems — they come back in the report.
+ */
+export async function simulateWorkflow(config: WorkflowConfig, opts: SimulationOpts = {}): Promise<SimulationReport> {
+  const matrix = opts.raciMatrix ?? getCachedMatrix();
+  const resolveWorkflow = opts.resolveWorkflow ?? ((name: string) => loadWorkflowByName(name));
+  const dispatches: SimulatedDispatch[] = [];
+  const executor = scriptedExecutor(opts.script ?? {}, dispatches);
+
+  const { instance, events } = await runWorkflow({
+    sql: createMemoryWorkflowSql(),
+    config,
+    executor,
+    raciMatrix: matrix,
+    contractRegistry: opts.contractRegistry,
+    resolveWorkflow,
+    createdBy: "simulator",
+  });
+
+  const target = getEscalationTarget(matrix, config.name);
+  const started = new Set(
+    events.filter(e => e.type === "workflow.step_started" && e.workflow_id === instance.id).map(e => e.step),
+  );
+  const { deadEnds, unreachable } = await analyzeSteps(config, resolveWorkflow);
+
+  return {
+    workflow: config.name,
+    status: instance.status === "completed" ? "completed" : "failed",
+    events,
+    dispatches,
+    escalations: events
+      .filter(e => e.type === "workflow.escalated")
+      .map(e => ({ step: e.step ?? -1, agent: e.agent ?? "", target, message: e.message ?? "" })),
+    escalation_target: target,
+    raci_defined: matrix.workflows.some(w => w.workflow === config.name),
+    steps_not_run: config.steps.map((_, i) => i).filter(i => !started.has(i)),
+    dead_end_steps: deadEnds,
+    unreachable_steps: unreachable,
+    validation_errors: validateWorkflowConfig(config, opts.knownAgents).errors,
+  };
+}
+
+function scriptedExecutor(script: SimulationScript, dispatches: SimulatedDispatch[]): StepExecutor {
+  const calls = new Map<string, number>();
+
+  return async (agent, instruction, _input, context) => {
+    const path = context?.path ?? "";
+    const key = path && path in script ? path : agent;
+    const n = calls.get(key) ?? 0;
+    calls.set(key, n + 1);
+    const entry = script[key];
+    const outcome: SimulatedOutcome = Array.isArray(entry)
+      ? entry[Math.min(n, entry.length - 1)] ?? { outcome: "success" }
+      : entry ?? { outcome: "success" };
+
+    dispatches.push({ path, agent, instruction, outcome: outcome.outcome });
+
+    if (outcome.outcome === "timeout") {
+      // The engine recognises timeouts by message; no need to actually wait
+      throw new Error(`Step execution timeout (simulated)`);
+    }
+    if (outcome.outcome === "failure") {
+      throw new Error(outcome.error ?? `${agent} failed (simulated)`);
+    }
+    return { output: outcome.output ?? `${agent} ok`, metadata: outcome.metadata };
+  };
+}
+
+// ── Static analysis ──────────────────────────────────────────────
+
+/**
+ * Walk the step list for dead ends — steps that fail regardless of agent
+ * output — and mark everything after a blocking dead end as unreachable.
+ * A dead end with on_failure "skip" doesn't block the steps after it.
+ */
+export async function analyzeSteps(
+  config: WorkflowConfig,
+  resolveWorkflow: WorkflowResolver,
+): Promise<{ deadEnds: StepFinding[]; unreachable: StepFinding[] }> {
+  const deadEnds: StepFinding[] = [];
+  const unreachable: StepFinding[] = [];
+  await walkSteps(config.steps, "steps", [config.name], resolveWorkflow, deadEnds, unreachable);
+  return { deadEnds, unreachable };
+}
+
+/** Returns the path of the first blocking dead end in `steps`, or null if they can complete. */
+async function walkSteps(
+  steps: WorkflowStepConfig[],
+  path: string,
+  chain: string[],
+  resolveWorkflow: WorkflowResolver,
+  deadEnds: StepFinding[],
+  unreachable: StepFinding[],
+): Promise<string | null> {
+  let blockedBy: string | null = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const field = `${path}[${i}]`;
+
+    if (blockedBy) {
+      unreachable.push({ path: field, reason: `Follows dead end at ${blockedBy}` });
+      continue;
+    }
+
+    const reason = await deadEndReason(step, field, chain, resolveWorkflow, deadEnds, unreachable);
+    if (reason) {
+      deadEnds.push({ path: field, reason });
+      if (step.on_failure !== "skip") blockedBy = field;
+    }
+  }
+  return blockedBy;
+}
+
+async function deadEndReason(
+  step: WorkflowStepConfig,
+  field: string,
+  chain: string[],
+  resolveWorkflow: WorkflowResolver,
+  deadEnds: StepFinding[],
+  unreachable: StepFinding[],
+): Promise<string | null> {
+  // Child bodies: a named workflow is resolved and walked once per chain
+  const childBlocked = async (name: string): Promise<string | null> => {
+    if (chain.includes(name)) return `Recursive workflow: ${[...chain, name].join(" → ")}`;
+    if (chain.length >= MAX_WORKFLOW_DEPTH) return `Workflow nesting exceeds ${MAX_WORKFLOW_DEPTH} levels`;
+    const child = await resolveWorkflow(name);
+    if (!child) return `Unknown workflow "${name}"`;
+    const blocked = await walkSteps(child.steps, `${field}<${name}>.steps`, [...chain, name], resolveWorkflow, deadEnds, unreachable);
+    return blocked ? `Workflow "${name}" dead-ends at ${blocked}` : null;
+  };
+  const inlineBlocked = async (steps: WorkflowStepConfig[], path: string): Promise<string | null> => {
+    const blocked = await walkSteps(steps, path, chain, resolveWorkflow, deadEnds, unreachable);
+    return blocked ? `Body dead-ends at ${blocked}` : null;
+  };
+
+  switch (step.kind ?? "agent") {
+    case "agent":
+      return step.agent ? null : "No agent to dispatch";
+
+    case "subworkflow":
+      return step.workflow ? childBlocked(step.workflow) : "No workflow named";
+
+    case "loop": {
+      const body = step.workflow
+        ? await childBlocked(step.workflow)
+        : step.steps?.length ? await inlineBlocked(step.steps, `${field}.steps`) : "Loop has no body";
+      if (body) return body;
+      if (step.on_exhausted === "continue") return null;
+      if (step.max_iterations !== undefined && step.max_iterations < 1) return "Loop runs zero iterations";
+      if (!step.until_output_matches && !step.until_metadata_key) return "Loop has no exit condition and fails when exhausted";
+      if (step.until_output_matches) {
+        try { new RegExp(step.until_output_matches, "i"); } catch { return "Loop exit pattern is not a valid regular expression"; }
+      }
+      return null;
+    }
+
+    case "parallel": {
+      const reasons = step.workflows?.length
+        ? await Promise.all(step.workflows.map(childBlocked))
+        : await Promise.all((step.branches ?? []).map((b, n) => inlineBlocked(b, `${field}.branches[${n}]`)));
+      if (reasons.length === 0) return "Parallel step has no branches";
+      const blocked = reasons.filter((r): r is string => r !== null);
+      const fails = step.join === "any" ? blocked.length === reasons.length : blocked.length > 0;
+      return fails ? `Join "${step.join ?? "all"}" cannot be met: ${blocked.join("; ")}` : null;
+    }
+
+    default:
+      return `Unknown step kind "${step.kind}"`;
+  }
+}
+
+// ── In-memory checkpoint store ───────────────────────────────────
+
+type Row = Record<string, unknown>;
+
+/**
+ * A stand-in for the postgres.js `sql` tag that answers the queries in
+ * workflow-checkpoint.ts from memory. Just enough for the engine — not a
+ * general SQL implementation.
+ */
+export function createMemoryWorkflowSql() {
+  const instances = new Map<string, Row>();
+  const checkpoints = new Map<string, Row>();
+  const FRAGMENT = Symbol("sql-fragment");
+
+  const json = (v: unknown) => (typeof v === "string" ? JSON.parse(v) : v);
+  const isFragment = (v: unknown, text: string) => (v as Record<symbol, unknown> | null)?.[FRAGMENT] === text;
+  const stamp = () => new Date().toISOString();
+
+  function run(text: string, values: unknown[]): Row[] {
+    if (text.startsWith("INSERT INTO workflow_instances")) {
+      const row: Row = {
+        id: crypto.randomUUID(), definition_id: values[0], work_item_id: values[1],
+        context: json(values[2]), created_by: values[3], status: "pending", current_step: 0,
+        started_at: stamp(), completed_at: null, error_message: null, created_at: stamp(), updated_at: stamp(),
+      };
+      instances.set(row.id as string, row);
+      return [{ ...row }];
+    }
+    if (text.startsWith("SELECT * FROM workflow_instances WHERE id")) {
+      const row = instances.get(values[0] as string);
+      return row ? [{ ...row }] : [];
+    }
+    if (text.startsWith("UPDATE workflow_instances")) {
+      const row = instances.get(values[4] as string);
+      if (row) {
+        row.status = values[0];
+        if (values[1] !== null) row.current_step = values[1];
+        row.completed_at = isFragment(values[2], "NOW()") ? stamp() : null;
+        row.error_message = values[3];
+        row.updated_at = stamp();
+      }
+      return [];
+    }
+    if (text.startsWith("INSERT INTO workflow_checkpoints")) {
+      const key = `${values[0]}:${values[1]}`;
+      const row: Row = {
+        ...(checkpoints.get(key) ?? { id: crypto.randomUUID(), output: null, metadata: {}, created_at: stamp() }),
+        workflow_id: values[0], step: values[1], agent: values[2], task_id: values[3],
+        input: json(values[4]), status: "in_progress", completed_at: null, error_message: null,
+      };
+      checkpoints.set(key, row);
+      return [{ ...row }];
+    }
+    if (text.startsWith("UPDATE workflow_checkpoints")) {
+      const row = checkpoints.get(`${values[4]}:${values[5]}`);
+      if (!row) return [];
+      row.status = values[0];
+      if (!isFragment(values[1], "output")) row.output = json(values[1]);
+      row.completed_at = isFragment(values[2], "NOW()") ? stamp() : null;
+      row.error_message = values[3];
+      return [{ ...row }];
+    }
+    if (text.startsWith("SELECT * FROM workflow_checkpoints WHERE workflow_id")) {
+      return [...checkpoints.values()]
+        .filter(c => c.workflow_id === values[0])
+        .sort((a, b) => (a.step as number) - (b.step as number))
+        .map(c => ({ ...c }));
+    }
+    if (text.startsWith("SELECT MAX(step)")) {
+      const steps = [...checkpoints.values()]
+        .filter(c => c.workflow_id === values[0] && c.status === "completed")
+        .map(c => c.step as number);
+      return [{ last_step: steps.length ? Math.max(...steps) : null }];
+    }
+    throw new Error(`In-memory workflow store: unsupported query "${text.slice(0, 60)}"`);
+  }
+
+  function sql(strings: TemplateStringsArray, ...values: unknown[]): unknown {
+    const text = strings.join("$").replace(/\s+/g, " ").trim();
+    // Nested fragments (sql`NOW()`, sql`output`) are passed as values, not awaited
+    if (text === "NOW()" || text === "output") return { [FRAGMENT]: text };
+    return Promise.resolve().then(() => run(text, values));
+  }
+
+  return Object.assign(sql, { instances, checkpoints });
+}
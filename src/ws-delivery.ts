@@ -9,6 +9,7 @@
 
 import { WebSocket } from "ws";
 import { log } from "./logger.ts";
+import { startSpan } from "./trace.ts";
 
 const logger = log.child("ws-delivery");
 
@@ -152,7 +153,12 @@ export function deliverResponse(
   },
   userId?: string,
 ): boolean {
+  const span = startSpan("channel.deliver", {
+    kind: "client",
+    attributes: { channel: payload.channelId ?? "ellie-chat", agent: payload.agent, chars: payload.text.length },
+  });
   const sent = trySend(ws, payload);
+  span.end(sent ? undefined : "socket not open");
   if (payload.memoryId) {
     updateDeliveryStatus(payload.memoryId, sent ? "sent" : "failed").catch(() => {});
   }
@@ -0,0 +1,390 @@
+/**
+ * X12 Acknowledgements — TA1 (interchange) and 999 (implementation)
+ *
+ * A clearinghouse answers every interchange with a TA1 (envelope accepted
+ * or rejected) and/or a 999 per functional group (each transaction set
+ * accepted, accepted with errors, or rejected — with the offending segment
+ * and element positions). Parsed acks are matched back to what we sent by
+ * ISA13 / GS06 / ST02 control numbers. build999 produces the other side,
+ * for the clearinghouse simulator.
+ *
+ * Pure module.
+ */
+
+import {
+  buildInterchange,
+  components,
+  defaultControlNumbers,
+  el,
+  parseX12,
+  sanitizeElement,
+  type BuiltInterchange,
+  type X12BuildOptions,
+  type X12Interchange,
+  type X12Issue,
+  type X12Segment,
+} from "./x12";
+
+// ── Types ────────────────────────────────────────────────────
+
+/** TA104: A = accepted, E = accepted with errors, R = rejected. */
+export type InterchangeAckCode = "A" | "E" | "R";
+
+/** IK501 / AK901 acknowledgement codes. */
+export type ImplementationAckCode = "A" | "E" | "M" | "P" | "R" | "W" | "X";
+
+export interface TA1Ack {
+  /** ISA13 of the interchange being acknowledged. */
+  control_number: string;
+  date: string;
+  time: string;
+  ack_code: InterchangeAckCode;
+  accepted: boolean;
+  /** TA105 note code, e.g. "000" (no error), "025" (duplicate control number). */
+  note_code: string;
+  note: string;
+}
+
+export interface Ack999ElementError {
+  /** IK401-1: 1-based element position in the segment. */
+  position: number;
+  /** IK401-2: component position, for composite elements. */
+  component: number | null;
+  /** IK402: data element reference number. */
+  reference: string | null;
+  /** IK403 error code. */
+  code: string;
+  description: string;
+  /** IK404: copy of the bad data element. */
+  bad_value: string | null;
+}
+
+export interface Ack999SegmentError {
+  /** IK301. */
+  segment_id: string;
+  /** IK302: position within the transaction set (ST = 1). */
+  position: number;
+  /** IK303: loop identifier, e.g. "2300". */
+  loop: string | null;
+  /** IK304 error code. */
+  code: string;
+  description: string;
+  elements: Ack999ElementError[];
+}
+
+export interface Ack999Transaction {
+  /** AK201, e.g. "837". */
+  transaction_id: string;
+  /** AK202: ST02 of the acknowledged transaction set. */
+  control_number: string;
+  implementation: string | null;
+  /** IK501. */
+  status: ImplementationAckCode;
+  accepted: boolean;
+  /** IK502-IK506 syntax error codes. */
+  codes: string[];
+  errors: Ack999SegmentError[];
+}
+
+export interface Ack999 {
+  /** AK101: functional ID of the acknowledged group, e.g. "HC". */
+  functional_id: string;
+  /** AK102: GS06 of the acknowledged group. */
+  group_control_number: string;
+  version: string | null;
+  transactions: Ack999Transaction[];
+  /** AK901. */
+  group_status: ImplementationAckCode;
+  /** AK902-AK904. */
+  included: number;
+  received: number;
+  accepted_count: number;
+  /** AK905-AK909 functional group syntax error codes. */
+  codes: string[];
+}
+
+export interface AcknowledgementResult {
+  /** ISA13 of the acknowledgement interchange itself. */
+  interchange_control_number: string | null;
+  ta1: TA1Ack[];
+  acks: Ack999[];
+  issues: X12Issue[];
+}
+
+// ── Code Tables ─────────────────────────────────────────────
+
+export const TA1_NOTE_CODES: Record<string, string> = {
+  "000": "No error",
+  "001": "Interchange control numbers in ISA and IEA do not match",
+  "002": "Standard in ISA11 not supported",
+  "003": "Version of the controls not supported",
+  "004": "Segment terminator is invalid",
+  "005": "Invalid interchange ID qualifier for sender",
+  "006": "Invalid interchange sender ID",
+  "007": "Invalid interchange ID qualifier for receiver",
+  "008": "Invalid interchange receiver ID",
+  "009": "Unknown interchange receiver ID",
+  "010": "Invalid authorization information qualifier value",
+  "011": "Invalid authorization information value",
+  "012": "Invalid security information qualifier value",
+  "013": "Invalid security information value",
+  "014": "Invalid interchange date value",
+  "015": "Invalid interchange time value",
+  "016": "Invalid interchange standards identifier value",
+  "017": "Invalid interchange version ID value",
+  "018": "Invalid interchange control number value",
+  "019": "Invalid acknowledgment requested value",
+  "020": "Invalid test indicator value",
+  "021": "Invalid number of included groups value",
+  "022": "Invalid control structure",
+  "023": "Improper (premature) end-of-file",
+  "024": "Invalid interchange content",
+  "025": "Duplicate interchange control number",
+  "026": "Invalid data element separator",
+  "027": "Invalid component element separator",
+};
+
+export const IK3_ERROR_CODES: Record<string, string> = {
+  "1": "Unrecognized segment ID",
+  "2": "Unexpected segment",
+  "3": "Required segment missing",
+  "4": "Loop occurs over maximum times",
+  "5": "Segment exceeds maximum use",
+  "6": "Segment not in defined transaction set",
+  "7": "Segment not in proper sequence",
+  "8": "Segment has data element errors",
+  "I4": "Implementation \"not used\" segment present",
+  "I6": "Implementation dependent segment missing",
+  "I7": "Implementation loop occurs under minimum times",
+  "I8": "Implementation segment below minimum use",
+  "I9": "Implementation dependent \"not used\" segment present",
+};
+
+export const IK4_ERROR_CODES: Record<string, string> = {
+  "1": "Required data element missing",
+  "2": "Conditional required data element missing",
+  "3": "Too many data elements",
+  "4": "Data element too short",
+  "5": "Data element too long",
+  "6": "Invalid character in data element",
+  "7": "Invalid code value",
+  "8": "Invalid date",
+  "9": "Invalid time",
+  "10": "Exclusion condition violated",
+  "12": "Too many repetitions",
+  "13": "Too many components",
+  "I6": "Code value not used in implementation",
+  "I9": "Implementation dependent data element missing",
+  "I10": "Implementation \"not used\" data element present",
+  "I11": "Implementation too few repetitions",
+  "I12": "Implementation pattern match failure",
+  "I13": "Implementation dependent \"not used\" data element present",
+};
+
+const ACCEPTED: ReadonlySet<string> = new Set(["A", "E"]);
+
+// ── Parsing ─────────────────────────────────────────────────
+
+function parseTA1Segment(seg: X12Segment): TA1Ack {
+  const ackCode = (el(seg, 4) || "R") as InterchangeAckCode;
+  const noteCode = el(seg, 5);
+  return {
+    control_number: el(seg, 1),
+    date: el(seg, 2),
+    time: el(seg, 3),
+    ack_code: ackCode,
+    accepted: ACCEPTED.has(ackCode),
+    note_code: noteCode,
+    note: TA1_NOTE_CODES[noteCode] ?? `Note code ${noteCode}`,
+  };
+}
+
+/**
+ * Parse an acknowledgement interchange: any TA1 segments plus every 999
+ * transaction set it carries. Envelope problems in the ack itself are
+ * returned as issues.
+ */
+export function parseAcknowledgements(raw: string): AcknowledgementResult {
+  const { interchange, issues } = parseX12(raw);
+  const result: AcknowledgementResult = {
+    interchange_control_number: interchange?.control_number ?? null,
+    ta1: [],
+    acks: [],
+    issues,
+  };
+  if (!interchange) return result;
+
+  result.ta1 = interchange.loose.filter(s => s.id === "TA1").map(parseTA1Segment);
+  const d = interchange.delimiters;
+
+  for (const group of interchange.groups) {
+    for (const tx of group.transactions.filter(t => t.id === "999")) {
+      let ack: Ack999 | null = null;
+      let current: Ack999Transaction | null = null;
+      let segmentError: Ack999SegmentError | null = null;
+
+      for (const seg of tx.segments) {
+        switch (seg.id) {
+          case "AK1":
+            ack = {
+              functional_id: el(seg, 1),
+              group_control_number: el(seg, 2),
+              version: el(seg, 3) || null,
+              transactions: [],
+              group_status: "R",
+              included: 0,
+              received: 0,
+              accepted_count: 0,
+              codes: [],
+            };
+            result.acks.push(ack);
+            break;
+          case "AK2":
+            current = {
+              transaction_id: el(seg, 1),
+              control_number: el(seg, 2),
+              implementation: el(seg, 3) || null,
+              status: "R",
+              accepted: false,
+              codes: [],
+              errors: [],
+            };
+            segmentError = null;
+            ack?.transactions.push(current);
+            break;
+          case "IK3":
+            segmentError = {
+              segment_id: el(seg, 1),
+              position: Number(el(seg, 2)) || 0,
+              loop: el(seg, 3) || null,
+              code: el(seg, 4),
+              description: IK3_ERROR_CODES[el(seg, 4)] ?? `Segment error ${el(seg, 4)}`,
+              elements: [],
+            };
+            current?.errors.push(segmentError);
+            break;
+          case "IK4": {
+            const [position, component] = components(el(seg, 1), d);
+            segmentError?.elements.push({
+              position: Number(position) || 0,
+              component: component ? Number(component) : null,
+              reference: el(seg, 2) || null,
+              code: el(seg, 3),
+              description: IK4_ERROR_CODES[el(seg, 3)] ?? `Element error ${el(seg, 3)}`,
+              bad_value: el(seg, 4) || null,
+            });
+            break;
+          }
+          case "IK5":
+            if (current) {
+              current.status = (el(seg, 1) || "R") as ImplementationAckCode;
+              current.accepted = ACCEPTED.has(current.status);
+              current.codes = seg.elements.slice(2).filter(Boolean);
+            }
+            break;
+          case "AK9":
+            if (ack) {
+              ack.group_status = (el(seg, 1) || "R") as ImplementationAckCode;
+              ack.included = Number(el(seg, 2)) || 0;
+              ack.received = Number(el(seg, 3)) || 0;
+              ack.accepted_count = Number(el(seg, 4)) || 0;
+              ack.codes = seg.elements.slice(5).filter(Boolean);
+            }
+            break;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/** TA1 acknowledgements in an interchange. */
+export function parseTA1(raw: string): TA1Ack[] {
+  return parseAcknowledgements(raw).ta1;
+}
+
+/** 999 acknowledgements in an interchange. */
+export function parse999(raw: string): Ack999[] {
+  return parseAcknowledgements(raw).acks;
+}
+
+// ── Building ────────────────────────────────────────────────
+
+export const IMPLEMENTATION_999 = "005010X231A1";
+
+/** IK304 for each segment-level issue code from x12.ts. */
+const ISSUE_IK3_CODES: Record<string, string> = {
+  UNEXPECTED_SEGMENT: "2",
+  MISSING_SEGMENT: "3",
+  MISSING_LOOP: "3",
+  LOOP_REPEAT_EXCEEDED: "4",
+  SEGMENT_REPEAT_EXCEEDED: "5",
+  MISSING_ELEMENT: "8",
+  INVALID_ELEMENT: "8",
+  INVALID_HIERARCHY: "8",
+};
+
+/** IK403 for each element-level issue code. */
+const ISSUE_IK4_CODES: Record<string, string> = {
+  MISSING_ELEMENT: "1",
+  INVALID_ELEMENT: "7",
+  INVALID_HIERARCHY: "7",
+};
+
+/** IK502 for transaction-level (ST/SE) issue codes. */
+const ISSUE_IK5_CODES: Record<string, string> = {
+  MISSING_SE: "2",
+  CONTROL_NUMBER_MISMATCH: "3",
+  COUNT_MISMATCH: "4",
+};
+
+/**
+ * Build a 999 acknowledging every transaction set in a parsed interchange.
+ * Issues carrying a `transaction` become IK3/IK4 errors under that set's
+ * AK2 (and reject it); any other issue rejects the whole group.
+ */
+export function build999(
+  interchange: X12Interchange,
+  issues: X12Issue[],
+  options: X12BuildOptions = {},
+): BuiltInterchange {
+  const envelopeRejected = issues.some(i => !i.transaction);
+  const transactions = interchange.groups.map(group => {
+    const segments: string[][] = [["AK1", group.functional_id, group.control_number, group.version]];
+    let accepted = 0;
+
+    for (const tx of group.transactions) {
+      const txIssues = issues.filter(i => i.transaction === tx.control_number);
+      segments.push(["AK2", tx.id, tx.control_number, tx.implementation ?? ""]);
+
+      for (const issue of txIssues.filter(i => ISSUE_IK3_CODES[i.code] && i.segment_id && i.position)) {
+        segments.push(["IK3", issue.segment_id!, String(issue.position), issue.loop === "header" ? "" : issue.loop ?? "", ISSUE_IK3_CODES[issue.code]]);
+        if (issue.element && ISSUE_IK4_CODES[issue.code]) {
+          const bad = tx.segments[issue.position! - 1]?.elements[issue.element] ?? "";
+          segments.push(["IK4", String(issue.element), "", ISSUE_IK4_CODES[issue.code], sanitizeElement(bad)]);
+        }
+      }
+
+      const codes = [...new Set(txIssues.map(i => ISSUE_IK5_CODES[i.code] ?? "5"))];
+      const rejected = envelopeRejected || txIssues.length > 0;
+      if (!rejected) accepted++;
+      segments.push(["IK5", rejected ? "R" : "A", ...codes.slice(0, 5)]);
+    }
+
+    const count = String(group.transactions.length);
+    const status = accepted === group.transactions.length ? "A" : accepted > 0 ? "P" : "R";
+    segments.push(["AK9", status, count, count, String(accepted)]);
+    return { id: "999", segments };
+  });
+
+  return buildInterchange(transactions, {
+    sender: options.sender ?? interchange.receiver,
+    receiver: options.receiver ?? interchange.sender,
+    functional_id: "FA",
+    implementation: IMPLEMENTATION_999,
+    controlNumbers: options.controlNumbers ?? defaultControlNumbers,
+    date: options.date,
+    usage: options.usage ?? interchange.usage,
+  });
+}
@@ -0,0 +1,765 @@
+/**
+ * X12 Envelope Layer
+ *
+ * ISA/GS/ST interchange structure shared by every X12 transaction the
+ * billing pipeline produces or consumes (837P, 835, 270/271, 277, 999, TA1):
+ *
+ * - Delimiters are read from the ISA segment, never assumed.
+ * - Parsed segments keep their position so validation issues (and 999
+ *   acknowledgements) point at a concrete segment.
+ * - Envelopes are built from transaction bodies; SE/GE/IEA counts and
+ *   control numbers are always computed, never hand-written.
+ * - Loop hierarchy is validated against a declarative TransactionSpec.
+ *
+ * Pure module — control-number state is held by an allocator the caller
+ * owns (and persists, if numbers must survive restarts).
+ */
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export const DEFAULT_DELIMITERS: X12Delimiters = { element: "*", component: ":", repetition: "^", segment: "~" };
+
+export interface X12Segment {
+  id: string;
+  /** elements[0] is the segment ID, so elements[n] is data element n (e.g. CLM01 = elements[1]). */
+  elements: string[];
+  /** 1-based position in the interchange (ISA = 1). */
+  position: number;
+}
+
+export interface X12Issue {
+  /** Machine-readable code, e.g. "CONTROL_NUMBER_MISMATCH", "MISSING_SEGMENT". */
+  code: string;
+  message: string;
+  segment_id: string | null;
+  /**
+   * 1-based segment position: within the transaction set (ST = 1) when
+   * `transaction` is set — the numbering 999 IK302 uses — otherwise within
+   * the interchange (ISA = 1).
+   */
+  position: number | null;
+  /** 1-based data element position, for element-level issues. */
+  element?: number;
+  /** Loop ID the segment belongs (or should belong) to, e.g. "2300". */
+  loop?: string;
+  /** ST02 of the transaction set, for transaction-level issues. */
+  transaction?: string;
+}
+
+export interface X12Transaction {
+  /** ST01, e.g. "837". */
+  id: string;
+  /** ST02. */
+  control_number: string;
+  /** ST03, e.g. "005010X222A1". */
+  implementation: string | null;
+  /** ST through SE, inclusive. */
+  segments: X12Segment[];
+}
+
+export interface X12FunctionalGroup {
+  /** GS01, e.g. "HC" (837), "HP" (835), "FA" (999). */
+  functional_id: string;
+  sender: string;
+  receiver: string;
+  date: string;
+  time: string;
+  control_number: string;
+  /** GS08, e.g. "005010X222A1". */
+  version: string;
+  transactions: X12Transaction[];
+}
+
+export interface X12Interchange {
+  delimiters: X12Delimiters;
+  sender: X12Party;
+  receiver: X12Party;
+  date: string;
+  time: string;
+  version: string;
+  control_number: string;
+  ack_requested: boolean;
+  usage: "P" | "T";
+  groups: X12FunctionalGroup[];
+  /** Segments directly inside the interchange but outside any group (e.g. TA1). */
+  loose: X12Segment[];
+  segments: X12Segment[];
+}
+
+export interface X12Party {
+  /** ISA05/ISA07 interchange ID qualifier, e.g. "ZZ" (mutually defined), "30" (TIN). */
+  qualifier: string;
+  id: string;
+}
+
+export interface X12ParseResult {
+  interchange: X12Interchange | null;
+  issues: X12Issue[];
+}
+
+// ── Tokenizing ──────────────────────────────────────────────
+
+/** ISA is fixed-width: 3 + 16 elements, 106 characters including the terminator. */
+const ISA_LENGTH = 106;
+const ISA_WIDTHS = [2, 10, 2, 10, 2, 15, 2, 15, 6, 4, 1, 5, 9, 1, 1, 1];
+const ENVELOPE_SEGMENTS = new Set(["ISA", "GS", "ST", "GE", "IEA"]);
+
+/**
+ * Read delimiters from the ISA header. The component separator is ISA16
+ * and the segment terminator is the character after it; the repetition
+ * separator is ISA11 (5010+). Returns null if the input doesn't start with ISA.
+ */
+export function detectDelimiters(raw: string): X12Delimiters | null {
+  const text = raw.trimStart();
+  if (!text.startsWith("ISA") || text.length < 4) return null;
+  const element = text[3];
+
+  let index = 3;
+  for (let n = 1; n < 16; n++) {
+    index = text.indexOf(element, index + 1);
+    if (index < 0) return null;
+  }
+  const component = text[index + 1];
+  const segment = text[index + 2];
+  if (!component || !segment) return null;
+
+  const isa11 = text.slice(0, index).split(element)[11] ?? "";
+  const repetition = isa11.length === 1 && !/[A-Za-z0-9]/.test(isa11) ? isa11 : DEFAULT_DELIMITERS.repetition;
+  return { element, component, repetition, segment };
+}
+
+/**
+ * Split raw X12 into segments. Line breaks after terminators are ignored.
+ * Uses the ISA delimiters when present, otherwise the defaults — so bare
+ * fragments (no envelope) still tokenize.
+ */
+export function tokenizeX12(raw: string, delimiters: X12Delimiters = detectDelimiters(raw) ?? DEFAULT_DELIMITERS): X12Segment[] {
+  const segments: X12Segment[] = [];
+  for (const chunk of raw.split(delimiters.segment)) {
+    const text = chunk.replace(/^[\r\n]+|[\r\n]+$/g, "");
+    if (!text.trim()) continue;
+    const elements = text.split(delimiters.element);
+    elements[0] = elements[0].trim();
+    segments.push({ id: elements[0], elements, position: segments.length + 1 });
+  }
+  return segments;
+}
+
+/** Component parts of a composite element, e.g. "HC:99213:25" → ["HC", "99213", "25"]. */
+export function components(value: string | undefined, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string[] {
+  return value ? value.split(delimiters.component) : [];
+}
+
+/** Element n of a segment, or "" if absent. */
+export function el(segment: X12Segment, n: number): string {
+  return segment.elements[n] ?? "";
+}
+
+// ── Parsing ─────────────────────────────────────────────────
+
+function issue(code: string, message: string, segment: X12Segment | null, extra: Partial<X12Issue> = {}): X12Issue {
+  return { code, message, segment_id: segment?.id ?? null, position: segment?.position ?? null, ...extra };
+}
+
+/**
+ * Parse an interchange into groups and transaction sets, validating the
+ * envelope: header/trailer pairing, control numbers, counts and ISA widths.
+ * Structural problems are reported as issues; the parse continues where it can.
+ */
+export function parseX12(raw: string): X12ParseResult {
+  const issues: X12Issue[] = [];
+  const delimiters = detectDelimiters(raw);
+  if (!delimiters) {
+    return { interchange: null, issues: [issue("MISSING_ISA", "Interchange must start with a complete ISA segment", null)] };
+  }
+
+  const segments = tokenizeX12(raw, delimiters);
+  const isa = segments[0];
+  validateIsa(raw, isa, delimiters, issues);
+
+  const interchange: X12Interchange = {
+    delimiters,
+    sender: { qualifier: el(isa, 5).trim(), id: el(isa, 6).trim() },
+    receiver: { qualifier: el(isa, 7).trim(), id: el(isa, 8).trim() },
+    date: el(isa, 9),
+    time: el(isa, 10),
+    version: el(isa, 12),
+    control_number: el(isa, 13),
+    ack_requested: el(isa, 14) === "1",
+    usage: el(isa, 15) === "T" ? "T" : "P",
+    groups: [],
+    loose: [],
+    segments,
+  };
+
+  let group: X12FunctionalGroup | null = null;
+  let tx: X12Transaction | null = null;
+  let iea: X12Segment | null = null;
+
+  for (const seg of segments.slice(1)) {
+    if (iea) {
+      issues.push(issue("SEGMENT_AFTER_IEA", `${seg.id} after IEA`, seg));
+      continue;
+    }
+    if (tx) {
+      if (seg.id === "SE") {
+        tx.segments.push(seg);
+        closeTransaction(tx, seg, issues);
+        tx = null;
+        continue;
+      }
+      if (!ENVELOPE_SEGMENTS.has(seg.id)) {
+        tx.segments.push(seg);
+        continue;
+      }
+      issues.push(issue("MISSING_SE", `Transaction set ${tx.control_number} has no SE trailer`, seg, { transaction: tx.control_number }));
+      tx = null;
+    }
+
+    switch (seg.id) {
+      case "GS":
+        if (group) {
+          issues.push(issue("MISSING_GE", `Functional group ${group.control_number} has no GE trailer`, seg));
+        }
+        group = {
+          functional_id: el(seg, 1),
+          sender: el(seg, 2),
+          receiver: el(seg, 3),
+          date: el(seg, 4),
+          time: el(seg, 5),
+          control_number: el(seg, 6),
+          version: el(seg, 8),
+          transactions: [],
+        };
+        if (!/^\d{1,9}$/.test(group.control_number)) {
+          issues.push(issue("INVALID_CONTROL_NUMBER", "GS06 must be 1-9 digits", seg, { element: 6 }));
+        }
+        interchange.groups.push(group);
+        break;
+      case "ST":
+        if (!group) {
+          issues.push(issue("ST_OUTSIDE_GROUP", "ST outside a functional group", seg));
+        }
+        tx = { id: el(seg, 1), control_number: el(seg, 2), implementation: el(seg, 3) || null, segments: [seg] };
+        if (!/^.{4,9}$/.test(tx.control_number)) {
+          issues.push(issue("INVALID_CONTROL_NUMBER", "ST02 must be 4-9 characters", seg, { element: 2 }));
+        }
+        group?.transactions.push(tx);
+        break;
+      case "GE":
+        if (!group) {
+          issues.push(issue("UNEXPECTED_SEGMENT", "GE without GS", seg));
+          break;
+        }
+        if (el(seg, 2) !== group.control_number) {
+          issues.push(issue("CONTROL_NUMBER_MISMATCH", `GE02 ${el(seg, 2)} does not match GS06 ${group.control_number}`, seg, { element: 2 }));
+        }
+        if (Number(el(seg, 1)) !== group.transactions.length) {
+          issues.push(issue("COUNT_MISMATCH", `GE01 says ${el(seg, 1)} transaction sets, found ${group.transactions.length}`, seg, { element: 1 }));
+        }
+        group = null;
+        break;
+      case "IEA":
+        if (group) {
+          issues.push(issue("MISSING_GE", `Functional group ${group.control_number} has no GE trailer`, seg));
+          group = null;
+        }
+        iea = seg;
+        break;
+      case "TA1":
+        interchange.loose.push(seg);
+        break;
+      default:
+        issues.push(issue("UNEXPECTED_SEGMENT", `${seg.id} outside a transaction set`, seg));
+    }
+  }
+
+  if (tx) {
+    issues.push(issue("MISSING_SE", `Transaction set ${tx.control_number} has no SE trailer`, null, { transaction: tx.control_number }));
+  }
+  if (group) {
+    issues.push(issue("MISSING_GE", `Functional group ${group.control_number} has no GE trailer`, null));
+  }
+  if (!iea) {
+    issues.push(issue("MISSING_IEA", "Interchange has no IEA trailer", null));
+  } else {
+    if (el(iea, 2) !== interchange.control_number) {
+      issues.push(issue("CONTROL_NUMBER_MISMATCH", `IEA02 ${el(iea, 2)} does not match ISA13 ${interchange.control_number}`, iea, { element: 2 }));
+    }
+    if (Number(el(iea, 1)) !== interchange.groups.length) {
+      issues.push(issue("COUNT_MISMATCH", `IEA01 says ${el(iea, 1)} functional groups, found ${interchange.groups.length}`, iea, { element: 1 }));
+    }
+  }
+
+  return { interchange, issues };
+}
+
+function validateIsa(raw: string, isa: X12Segment, delimiters: X12Delimiters, issues: X12Issue[]): void {
+  if (isa.elements.length !== 17) {
+    issues.push(issue("INVALID_ISA", `ISA must have 16 elements, found ${isa.elements.length - 1}`, isa));
+    return;
+  }
+  ISA_WIDTHS.forEach((width, i) => {
+    if (isa.elements[i + 1].length !== width) {
+      issues.push(issue("INVALID_ISA", `ISA${String(i + 1).padStart(2, "0")} must be ${width} characters`, isa, { element: i + 1 }));
+    }
+  });
+  if (!/^\d{9}$/.test(el(isa, 13))) {
+    issues.push(issue("INVALID_CONTROL_NUMBER", "ISA13 must be 9 digits", isa, { element: 13 }));
+  }
+  const header = raw.trimStart().slice(0, ISA_LENGTH);
+  if (header.length === ISA_LENGTH && header[ISA_LENGTH - 1] !== delimiters.segment) {
+    issues.push(issue("INVALID_ISA", `ISA must be ${ISA_LENGTH} characters`, isa));
+  }
+}
+
+function closeTransaction(tx: X12Transaction, se: X12Segment, issues: X12Issue[]): void {
+  if (el(se, 2) !== tx.control_number) {
+    issues.push(issue("CONTROL_NUMBER_MISMATCH", `SE02 ${el(se, 2)} does not match ST02 ${tx.control_number}`, se, {
+      element: 2, transaction: tx.control_number, position: tx.segments.length,
+    }));
+  }
+  if (Number(el(se, 1)) !== tx.segments.length) {
+    issues.push(issue("COUNT_MISMATCH", `SE01 says ${el(se, 1)} segments, found ${tx.segments.length}`, se, {
+      element: 1, transaction: tx.control_number, position: tx.segments.length,
+    }));
+  }
+}
+
+/** Position of a segment within its transaction set (ST = 1). */
+export function positionInTransaction(tx: X12Transaction, segment: X12Segment): number {
+  return segment.position - tx.segments[0].position + 1;
+}
+
+// ── Control Numbers ─────────────────────────────────────────
+
+export interface ControlNumberState {
+  /** Last ISA13 issued. */
+  interchange: number;
+  /** Last GS06 issued. */
+  group: number;
+  /** Last ST02 issued. */
+  transaction: number;
+}
+
+export interface ControlNumberAllocator {
+  next(kind: keyof ControlNumberState): string;
+  /** Snapshot to persist; pass it back to createControlNumberAllocator to resume. */
+  state(): ControlNumberState;
+}
+
+const MAX_CONTROL_NUMBER = 999_999_999;
+
+/**
+ * Monotonic control numbers, wrapping after 999999999. Interchange numbers
+ * are zero-padded to ISA13's 9 digits and transaction numbers to ST02's
+ * minimum of 4.
+ */
+export function createControlNumberAllocator(start: Partial<ControlNumberState> = {}): ControlNumberAllocator {
+  const current: ControlNumberState = { interchange: 0, group: 0, transaction: 0, ...start };
+  return {
+    next(kind) {
+      current[kind] = current[kind] >= MAX_CONTROL_NUMBER ? 1 : current[kind] + 1;
+      const n = String(current[kind]);
+      if (kind === "interchange") return n.padStart(9, "0");
+      if (kind === "transaction") return n.padStart(4, "0");
+      return n;
+    },
+    state: () => ({ ...current }),
+  };
+}
+
+/**
+ * Allocator for builders called without one. Seeded from the clock so
+ * numbers keep increasing across restarts; callers that need a strict
+ * sequence pass their own persisted allocator.
+ */
+const clockSeed = Math.floor(Date.now() / 1000) % MAX_CONTROL_NUMBER;
+export const defaultControlNumbers = createControlNumberAllocator({ interchange: clockSeed, group: clockSeed });
+
+// ── Building ────────────────────────────────────────────────
+
+export const DEFAULT_SENDER: X12Party = { qualifier: "ZZ", id: "SENDER" };
+export const DEFAULT_RECEIVER: X12Party = { qualifier: "ZZ", id: "RECEIVER" };
+
+/** Per-call overrides accepted by the transaction builders (837P, 835, 270). */
+export interface X12BuildOptions {
+  sender?: X12Party;
+  receiver?: X12Party;
+  /** Default: defaultControlNumbers. */
+  controlNumbers?: ControlNumberAllocator;
+  date?: Date;
+  usage?: "P" | "T";
+}
+
+/** A transaction set body: every segment between ST and SE, as [id, ...elements]. */
+export interface X12TransactionBody {
+  /** ST01, e.g. "837". */
+  id: string;
+  segments: string[][];
+}
+
+export interface EnvelopeOptions {
+  sender: X12Party;
+  receiver: X12Party;
+  /** GS01 functional identifier code, e.g. "HC". */
+  functional_id: string;
+  /** GS08 / ST03 implementation convention, e.g. "005010X222A1". */
+  implementation: string;
+  controlNumbers: ControlNumberAllocator;
+  /** GS02/GS03 application codes (default: the interchange IDs). */
+  application_sender?: string;
+  application_receiver?: string;
+  date?: Date;
+  usage?: "P" | "T";
+  ack_requested?: boolean;
+  delimiters?: X12Delimiters;
+}
+
+export interface BuiltInterchange {
+  edi: string;
+  interchange_control_number: string;
+  group_control_number: string;
+  transaction_control_numbers: string[];
+}
+
+/**
+ * Strip delimiter characters from a data value so user-supplied text
+ * (names, notes) can't split an element or terminate a segment.
+ */
+export function sanitizeElement(value: string, delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  const chars = new Set([delimiters.element, delimiters.component, delimiters.repetition, delimiters.segment]);
+  return [...value].map(c => (chars.has(c) ? " " : c)).join("");
+}
+
+/** Serialize one segment; trailing empty elements are dropped. Composite values must already be joined. */
+export function formatSegment(elements: string[], delimiters: X12Delimiters = DEFAULT_DELIMITERS): string {
+  let end = elements.length;
+  while (end > 1 && elements[end - 1] === "") end--;
+  return elements.slice(0, end).join(delimiters.element) + delimiters.segment;
+}
+
+/** CCYYMMDD and HHMM in UTC. */
+export function x12DateTime(date: Date): { date: string; time: string } {
+  const iso = date.toISOString();
+  return { date: iso.slice(0, 10).replace(/-/g, ""), time: iso.slice(11, 16).replace(":", "") };
+}
+
+/**
+ * Wrap transaction bodies in ST/SE, one GS/GE group and an ISA/IEA
+ * interchange, allocating every control number and computing every count.
+ * Output has one segment per line.
+ */
+export function buildInterchange(transactions: X12TransactionBody[], opts: EnvelopeOptions): BuiltInterchange {
+  const d = opts.delimiters ?? DEFAULT_DELIMITERS;
+  const { date, time } = x12DateTime(opts.date ?? new Date());
+  const isa13 = opts.controlNumbers.next("interchange");
+  const gs06 = opts.controlNumbers.next("group");
+  const pad = (value: string, width: number) => value.slice(0, width).padEnd(width, " ");
+
+  const lines: string[] = [
+    formatSegment([
+      "ISA", "00", pad("", 10), "00", pad("", 10),
+      pad(opts.sender.qualifier, 2), pad(opts.sender.id, 15),
+      pad(opts.receiver.qualifier, 2), pad(opts.receiver.id, 15),
+      date.slice(2), time, d.repetition, "00501", isa13,
+      opts.ack_requested ? "1" : "0", opts.usage ?? "P", d.component,
+    ], d),
+    formatSegment([
+      "GS", opts.functional_id,
+      opts.application_sender ?? opts.sender.id, opts.application_receiver ?? opts.receiver.id,
+      date, time, gs06, "X", opts.implementation,
+    ], d),
+  ];
+
+  const stNumbers: string[] = [];
+  for (const body of transactions) {
+    const st02 = opts.controlNumbers.next("transaction");
+    stNumbers.push(st02);
+    lines.push(formatSegment(["ST", body.id, st02, opts.implementation], d));
+    for (const seg of body.segments) lines.push(formatSegment(seg, d));
+    lines.push(formatSegment(["SE", String(body.segments.length + 2), st02], d));
+  }
+
+  lines.push(formatSegment(["GE", String(transactions.length), gs06], d));
+  lines.push(formatSegment(["IEA", "1", isa13], d));
+
+  return {
+    edi: lines.join("\n") + "\n",
+    interchange_control_number: isa13,
+    group_control_number: gs06,
+    transaction_control_numbers: stNumbers,
+  };
+}
+
+// ── Loop Validation ─────────────────────────────────────────
+
+export interface ElementRule {
+  /** 1-based element position. */
+  position: number;
+  name: string;
+  required?: boolean;
+  values?: string[];
+  pattern?: RegExp;
+}
+
+export interface SegmentRule {
+  id: string;
+  /** Only matches when element `element` is one of `values` (e.g. NM1*85). */
+  qualifier?: { element: number; values: string[] };
+  required?: boolean;
+  /** Max repeats within one loop instance (default 1). */
+  max?: number;
+  elements?: ElementRule[];
+}
+
+export interface LoopSpec {
+  id: string;
+  name: string;
+  /** First segment of the loop; its presence starts a new loop instance. */
+  trigger: SegmentRule;
+  /** Segments allowed after the trigger. */
+  segments?: SegmentRule[];
+  loops?: LoopSpec[];
+  required?: boolean;
+  /** Max loop instances per parent instance (default unbounded). */
+  max?: number;
+}
+
+export interface TransactionSpec {
+  /** ST01. */
+  id: string;
+  implementation: string;
+  /** Header segments between ST and the first loop. */
+  header: SegmentRule[];
+  loops: LoopSpec[];
+}
+
+export interface X12Loop {
+  id: string;
+  /** Trigger first, then the loop's own segments, in order. */
+  segments: X12Segment[];
+  loops: X12Loop[];
+}
+
+export interface LoopParseResult {
+  header: X12Segment[];
+  loops: X12Loop[];
+  issues: X12Issue[];
+}
+
+interface Frame {
+  spec: { id: string; segments: SegmentRule[]; loops: LoopSpec[] };
+  node: X12Loop;
+  segmentCounts: Map<SegmentRule, number>;
+  loopCounts: Map<LoopSpec, number>;
+}
+
+function matches(rule: SegmentRule, seg: X12Segment): boolean {
+  if (rule.id !== seg.id) return false;
+  return !rule.qualifier || rule.qualifier.values.includes(el(seg, rule.qualifier.element));
+}
+
+function describeRule(rule: SegmentRule): string {
+  return rule.qualifier ? `${rule.id}*${rule.qualifier.values.join("/")}` : rule.id;
+}
+
+/**
+ * Arrange a transaction set's segments into its loop hierarchy and check
+ * them against `spec`: unexpected segments, missing required segments and
+ * loops, repeat limits and element rules. A segment that doesn't fit the
+ * current loop closes loops outward until one accepts it (as a segment or
+ * a new child loop), mirroring how X12 loops are delimited.
+ */
+export function parseLoops(tx: X12Transaction, spec: TransactionSpec): LoopParseResult {
+  const issues: X12Issue[] = [];
+  const at = (seg: X12Segment) => positionInTransaction(tx, seg);
+  const root: X12Loop = { id: "header", segments: [], loops: [] };
+  const stack: Frame[] = [{
+    spec: { id: "header", segments: spec.header, loops: spec.loops },
+    node: root,
+    segmentCounts: new Map(),
+    loopCounts: new Map(),
+  }];
+
+  const checkElements = (rule: SegmentRule, seg: X12Segment, loop: string) => {
+    for (const e of rule.elements ?? []) {
+      const value = el(seg, e.position);
+      const extra = { element: e.position, loop, transaction: tx.control_number, position: at(seg) };
+      if (!value) {
+        if (e.required) issues.push(issue("MISSING_ELEMENT", `${seg.id}${String(e.position).padStart(2, "0")} (${e.name}) is required`, seg, extra));
+      } else if ((e.values && !e.values.includes(value)) || (e.pattern && !e.pattern.test(value))) {
+        issues.push(issue("INVALID_ELEMENT", `${seg.id}${String(e.position).padStart(2, "0")} (${e.name}) has invalid value "${value}"`, seg, extra));
+      }
+    }
+  };
+
+  const close = (frame: Frame) => {
+    const trigger = frame.node.segments[0] ?? null;
+    const extra = { loop: frame.spec.id, transaction: tx.control_number, position: trigger ? at(trigger) : null };
+    for (const rule of frame.spec.segments) {
+      if (rule.required && !frame.segmentCounts.get(rule)) {
+        issues.push(issue("MISSING_SEGMENT", `Loop ${frame.spec.id} is missing required ${describeRule(rule)}`, trigger, { ...extra, segment_id: rule.id }));
+      }
+    }
+    for (const loop of frame.spec.loops) {
+      if (loop.required && !frame.loopCounts.get(loop)) {
+        issues.push(issue("MISSING_LOOP", `Loop ${frame.spec.id} is missing required loop ${loop.id} (${loop.name})`, trigger, { ...extra, segment_id: loop.trigger.id }));
+      }
+    }
+  };
+
+  const body = tx.segments.slice(1, tx.segments.at(-1)?.id === "SE" ? -1 : undefined);
+  for (const seg of body) {
+    let placed = false;
+    for (let depth = stack.length - 1; depth >= 0 && !placed; depth--) {
+      const frame = stack[depth];
+      const rule = frame.spec.segments.find(r => matches(r, seg));
+      const loop = rule ? undefined : frame.spec.loops.find(l => matches(l.trigger, seg));
+      if (!rule && !loop) continue;
+
+      while (stack.length - 1 > depth) close(stack.pop()!);
+      placed = true;
+
+      if (rule) {
+        const count = (frame.segmentCounts.get(rule) ?? 0) + 1;
+        frame.segmentCounts.set(rule, count);
+        frame.node.segments.push(seg);
+        if (count > (rule.max ?? 1)) {
+          issues.push(issue("SEGMENT_REPEAT_EXCEEDED", `${describeRule(rule)} exceeds ${rule.max ?? 1} in loop ${frame.spec.id}`, seg, {
+            loop: frame.spec.id, transaction: tx.control_number, position: at(seg),
+          }));
+        }
+        checkElements(rule, seg, frame.spec.id);
+      } else if (loop) {
+        const count = (frame.loopCounts.get(loop) ?? 0) + 1;
+        frame.loopCounts.set(loop, count);
+        if (loop.max !== undefined && count > loop.max) {
+          issues.push(issue("LOOP_REPEAT_EXCEEDED", `Loop ${loop.id} exceeds ${loop.max} in ${frame.spec.id}`, seg, {
+            loop: loop.id, transaction: tx.control_number, position: at(seg),
+          }));
+        }
+        const node: X12Loop = { id: loop.id, segments: [seg], loops: [] };
+        frame.node.loops.push(node);
+        stack.push({
+          spec: { id: loop.id, segments: loop.segments ?? [], loops: loop.loops ?? [] },
+          node,
+          segmentCounts: new Map(),
+          loopCounts: new Map(),
+        });
+        checkElements(loop.trigger, seg, loop.id);
+      }
+    }
+    if (!placed) {
+      issues.push(issue("UNEXPECTED_SEGMENT", `${seg.id} is not expected in loop ${stack[stack.length - 1].spec.id}`, seg, {
+        loop: stack[stack.length - 1].spec.id, transaction: tx.control_number, position: at(seg),
+      }));
+    }
+  }
+  while (stack.length) close(stack.pop()!);
+
+  return { header: root.segments, loops: root.loops, issues };
+}
+
+/**
+ * HL hierarchy checks: HL01 numbered 1..n in order, HL02 points at an
+ * earlier HL, and HL04 (child code) says "1" exactly when children follow.
+ */
+export function validateHierarchy(tx: X12Transaction): X12Issue[] {
+  const issues: X12Issue[] = [];
+  const hls = tx.segments.filter(s => s.id === "HL");
+  const ids = new Set<string>();
+  const parents = new Set(hls.map(s => el(s, 2)).filter(Boolean));
+
+  hls.forEach((hl, i) => {
+    const extra = { transaction: tx.control_number, position: positionInTransaction(tx, hl) };
+    if (el(hl, 1) !== String(i + 1)) {
+      issues.push(issue("INVALID_HIERARCHY", `HL01 should be ${i + 1}, found ${el(hl, 1) || "nothing"}`, hl, { ...extra, element: 1 }));
+    }
+    if (el(hl, 2) && !ids.has(el(hl, 2))) {
+      issues.push(issue("INVALID_HIERARCHY", `HL02 parent ${el(hl, 2)} does not precede this level`, hl, { ...extra, element: 2 }));
+    }
+    const hasChildren = parents.has(el(hl, 1));
+    if (el(hl, 4) && el(hl, 4) !== (hasChildren ? "1" : "0")) {
+      issues.push(issue("INVALID_HIERARCHY", `HL04 should be ${hasChildren ? "1" : "0"}`, hl, { ...extra, element: 4 }));
+    }
+    ids.add(el(hl, 1));
+  });
+  return issues;
+}
+
+/** Every loop (depth-first) with the given ID. */
+export function findLoops(loops: X12Loop[], id: string): X12Loop[] {
+  const found: X12Loop[] = [];
+  for (const loop of loops) {
+    if (loop.id === id) found.push(loop);
+    found.push(...findLoops(loop.loops, id));
+  }
+  return found;
+}
+
+/** First segment in a loop matching id (and optional element-1 qualifier). */
+export function findSegment(loop: X12Loop | undefined, id: string, qualifier?: string): X12Segment | undefined {
+  return loop?.segments.find(s => s.id === id && (qualifier === undefined || el(s, 1) === qualifier));
+}
+
+/** Decimal amount element → cents. */
+export function amountToCents(value: string | undefined): number {
+  if (!value) return 0;
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : Math.round(num * 100);
+}
+
+/** Cents → X12 decimal amount with two decimal places. */
+export function centsToAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/** One-line rendering of an issue, e.g. "CLM #14 loop 2300: CLM02 (...) has invalid value". */
+export function formatX12Issue(i: X12Issue): string {
+  const where = [i.segment_id, i.position !== null ? `#${i.position}` : null, i.loop ? `loop ${i.loop}` : null]
+    .filter(Boolean)
+    .join(" ");
+  return where ? `${where}: ${i.message}` : i.message;
+}
+
+/**
+ * Check that an interchange carries `transactionId` sets in `functionalId`
+ * groups with the expected implementation convention.
+ */
+export function checkTransactionType(
+  interchange: X12Interchange,
+  transactionId: string,
+  functionalId: string,
+  implementation: string,
+): X12Issue[] {
+  const issues: X12Issue[] = [];
+  let found = 0;
+  for (const group of interchange.groups) {
+    for (const tx of group.transactions) {
+      const st = tx.segments[0];
+      if (tx.id !== transactionId) {
+        issues.push(issue("UNEXPECTED_TRANSACTION", `Expected transaction set ${transactionId}, found ${tx.id}`, st, { element: 1 }));
+        continue;
+      }
+      found++;
+      if (group.functional_id !== functionalId) {
+        issues.push(issue("INVALID_FUNCTIONAL_ID", `GS01 should be ${functionalId} for ${transactionId}, found ${group.functional_id}`, st));
+      }
+      if (tx.implementation !== implementation) {
+        issues.push(issue("INVALID_IMPLEMENTATION", `ST03 should be ${implementation}, found ${tx.implementation ?? "nothing"}`, st, {
+          element: 3, transaction: tx.control_number, position: 1,
+        }));
+      }
+    }
+  }
+  if (found === 0) issues.push(issue("MISSING_TRANSACTION", `No ${transactionId} transaction set found`, null));
+  return issues;
+}
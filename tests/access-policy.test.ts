@@ -0,0 +1,393 @@
+/**
+ * Access Policy Tests
+ *
+ * - Target and condition matching (company, work item, time, tool args,
+ *   sensitivity, channel)
+ * - Deny-overrides evaluation and the deciding rule
+ * - What-if explanations
+ * - Document validation and storage
+ * - Permission guard: policy before RBAC
+ * - What-if API route
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import {
+  evaluateCondition,
+  evaluatePolicies,
+  explainPolicies,
+  loadPolicies,
+  refreshPolicies,
+  savePolicy,
+  setActivePolicies,
+  targetMatches,
+  timeAttributes,
+  validatePolicyDocument,
+  buildPolicyAttributes,
+  type PolicyDocument,
+  type PolicyRequest,
+  type PolicySql,
+} from "../src/access-policy.ts";
+import { guardAgentDispatch, guardToolExecution, getRecentDenials, clearDenialLog } from "../src/permission-guard.ts";
+import { invalidateCache } from "../src/permissions.ts";
+import { routes } from "../src/api/access-policy.ts";
+import { createRouter, type RouteContext } from "../src/route-table.ts";
+import type { RelayDeps } from "../src/relay-state.ts";
+
+const POLICY: PolicyDocument = {
+  name: "billing-guardrails",
+  version: 3,
+  timezone: "America/Chicago",
+  rules: [
+    {
+      id: "no-phi-on-telegram",
+      effect: "deny",
+      description: "PHI stays off consumer chat",
+      targets: ["*"],
+      when: { all: [{ attr: "sensitivity", op: "eq", value: "phi" }, { attr: "channel", op: "eq", value: "telegram" }] },
+    },
+    {
+      id: "no-destructive-bash",
+      effect: "deny",
+      targets: ["tools.use_bash"],
+      when: { attr: "tool.args.command", op: "matches", value: "rm\\s+-rf|DROP\\s+TABLE" },
+    },
+    {
+      id: "dev-after-hours",
+      effect: "deny",
+      subjects: ["dev"],
+      targets: ["agents.dispatch"],
+      when: { any: [{ attr: "time.hour", op: "lt", value: 7 }, { attr: "time.hour", op: "gte", value: 22 }] },
+    },
+    {
+      id: "finance-own-company",
+      effect: "allow",
+      subjects: ["finance"],
+      targets: ["tools.*"],
+      when: { attr: "company_id", op: "eq", value: "co-1" },
+    },
+    {
+      id: "closed-work-items",
+      effect: "deny",
+      targets: ["agents.dispatch"],
+      when: { attr: "work_item.state", op: "in", value: ["done", "cancelled"] },
+    },
+  ],
+};
+
+// 15:00 UTC = 10:00 in Chicago (CDT)
+const DAYTIME = "2026-10-19T15:00:00Z";
+const NIGHT = "2026-10-20T05:00:00Z";
+
+function req(overrides: Partial<PolicyRequest> = {}): PolicyRequest {
+  return {
+    subject: { agent: "dev", entity_id: "entity-dev" },
+    resource: "agents",
+    action: "dispatch",
+    attributes: { time: DAYTIME },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  setActivePolicies([]);
+  clearDenialLog();
+  invalidateCache();
+});
+
+afterAll(() => {
+  setActivePolicies([]);
+});
+
+// ── Matching ────────────────────────────────────────────────
+
+describe("targetMatches", () => {
+  test("exact, prefix wildcard and catch-all", () => {
+    expect(targetMatches("tools.use_bash", "tools", "use_bash")).toBe(true);
+    expect(targetMatches("tools.*", "tools", "use_web")).toBe(true);
+    expect(targetMatches("*", "agents", "dispatch")).toBe(true);
+    expect(targetMatches("tools.use_bash", "tools", "use_edit")).toBe(false);
+  });
+});
+
+describe("timeAttributes", () => {
+  test("hour, weekday and date in the policy's zone", () => {
+    expect(timeAttributes(NIGHT, "America/Chicago")).toEqual({ hour: 0, weekday: "tue", date: "2026-10-20" });
+    expect(timeAttributes(NIGHT)).toEqual({ hour: 5, weekday: "tue", date: "2026-10-20" });
+  });
+});
+
+describe("evaluateCondition", () => {
+  const attrs = buildPolicyAttributes(req({ attributes: { company_id: "co-1", tool: { name: "bash", args: { command: "ls" } }, time: DAYTIME } }));
+
+  test("resolves dotted paths", () => {
+    expect(evaluateCondition({ attr: "tool.args.command", op: "eq", value: "ls" }, attrs).ok).toBe(true);
+    expect(evaluateCondition({ attr: "subject.agent", op: "in", value: ["dev", "critic"] }, attrs).ok).toBe(true);
+  });
+
+  test("explains the failing test", () => {
+    const r = evaluateCondition({ all: [{ attr: "company_id", op: "eq", value: "co-1" }, { attr: "channel", op: "exists" }] }, attrs);
+    expect(r.ok).toBe(false);
+    expect(r.why).toBe("channel exists (was null)");
+  });
+
+  test("not and any", () => {
+    expect(evaluateCondition({ not: { attr: "company_id", op: "eq", value: "co-2" } }, attrs).ok).toBe(true);
+    const r = evaluateCondition({ any: [{ attr: "company_id", op: "eq", value: "co-2" }, { attr: "company_id", op: "eq", value: "co-3" }] }, attrs);
+    expect(r.ok).toBe(false);
+    expect(r.why).toStartWith("none of:");
+  });
+});
+
+// ── Evaluation ──────────────────────────────────────────────
+
+describe("evaluatePolicies", () => {
+  test("not_applicable when no rule applies", () => {
+    const r = evaluatePolicies([POLICY], req());
+    expect(r.decision).toBe("not_applicable");
+    expect(r.rule).toBeNull();
+  });
+
+  test("time of day in the document's zone", () => {
+    const r = evaluatePolicies([POLICY], req({ attributes: { time: NIGHT } }));
+    expect(r.decision).toBe("deny");
+    expect(r.rule).toEqual({ policy: "billing-guardrails", version: 3, rule_id: "dev-after-hours", effect: "deny" });
+  });
+
+  test("tool arguments", () => {
+    const r = evaluatePolicies([POLICY], req({ resource: "tools", action: "use_bash", attributes: { tool: { name: "bash", args: { command: "rm -rf /" } } } }));
+    expect(r.rule?.rule_id).toBe("no-destructive-bash");
+  });
+
+  test("sensitivity and channel together", () => {
+    const phi = req({ attributes: { sensitivity: "phi", channel: "telegram", time: DAYTIME } });
+    expect(evaluatePolicies([POLICY], phi).rule?.rule_id).toBe("no-phi-on-telegram");
+    expect(evaluatePolicies([POLICY], { ...phi, attributes: { ...phi.attributes, channel: "ellie-chat" } }).decision).toBe("not_applicable");
+  });
+
+  test("work item state", () => {
+    const r = evaluatePolicies([POLICY], req({ attributes: { work_item: { id: "ELLIE-1", state: "done" }, time: DAYTIME } }));
+    expect(r.rule?.rule_id).toBe("closed-work-items");
+  });
+
+  test("allow scoped to a company", () => {
+    const finance = req({ subject: { agent: "finance" }, resource: "tools", action: "use_mcp", attributes: { company_id: "co-1" } });
+    expect(evaluatePolicies([POLICY], finance).decision).toBe("allow");
+    expect(evaluatePolicies([POLICY], { ...finance, attributes: { company_id: "co-2" } }).decision).toBe("not_applicable");
+  });
+
+  test("deny overrides allow across documents", () => {
+    const override: PolicyDocument = { name: "freeze", version: 1, rules: [{ id: "freeze-finance", effect: "deny", subjects: ["finance"], targets: ["tools.*"] }] };
+    const finance = req({ subject: { agent: "finance" }, resource: "tools", action: "use_mcp", attributes: { company_id: "co-1" } });
+    const r = evaluatePolicies([POLICY, override], finance);
+    expect(r.decision).toBe("deny");
+    expect(r.reason).toBe('Policy freeze v1 rule "freeze-finance" denies tools.use_mcp');
+  });
+
+  test("disabled documents are skipped", () => {
+    const r = evaluatePolicies([{ ...POLICY, enabled: false }], req({ attributes: { time: NIGHT } }));
+    expect(r.decision).toBe("not_applicable");
+  });
+});
+
+describe("explainPolicies", () => {
+  test("traces every rule with the reason it did or did not apply", () => {
+    const r = explainPolicies([POLICY], req({ attributes: { time: NIGHT } }));
+    expect(r.decision).toBe("deny");
+    const byId = Object.fromEntries(r.trace.map(t => [t.rule_id, t]));
+    expect(byId["dev-after-hours"].detail).toBe("matched");
+    expect(byId["no-destructive-bash"].detail).toBe("target agents.dispatch not listed");
+    expect(byId["finance-own-company"].detail).toBe("subject dev not listed");
+    expect(byId["closed-work-items"].detail).toBe('condition failed: work_item.state in ["done","cancelled"] (was null)');
+    expect(r.attributes.resource).toBe("agents");
+  });
+});
+
+// ── Validation ──────────────────────────────────────────────
+
+describe("validatePolicyDocument", () => {
+  test("accepts the sample policy", () => {
+    expect(validatePolicyDocument(POLICY)).toEqual([]);
+  });
+
+  test("reports structural problems", () => {
+    const errors = validatePolicyDocument({
+      name: "bad",
+      version: 0,
+      timezone: "Mars/Olympus",
+      rules: [
+        { id: "a", effect: "maybe", targets: ["Tools Bash"] },
+        { id: "a", effect: "deny", targets: ["tools.*"], when: { attr: "weather", op: "eq", value: 1 } },
+        { id: "b", effect: "deny", targets: ["tools.*"], when: { attr: "time.hour", op: "lt", value: "7" } },
+        { id: "c", effect: "deny", targets: ["tools.*"], when: { attr: "channel", op: "matches", value: "(" } },
+      ],
+    });
+    expect(errors).toContain("version must be a positive integer");
+    expect(errors).toContain("timezone Mars/Olympus is not a valid IANA zone");
+    expect(errors).toContain("rules[0].effect must be allow or deny");
+    expect(errors).toContain('rules[0].targets: "Tools Bash" is not a resource.action pattern');
+    expect(errors).toContain('rules[1].id "a" is duplicated');
+    expect(errors.some(e => e.startsWith("rules[1].when.attr must start with"))).toBe(true);
+    expect(errors).toContain("rules[2].when.value must be a number for lt");
+    expect(errors).toContain("rules[3].when.value is not a valid regular expression");
+  });
+});
+
+// ── Storage ─────────────────────────────────────────────────
+
+function mockSql(responses: Array<Array<Record<string, unknown>>>): PolicySql & { queries: string[] } {
+  const queries: string[] = [];
+  const fn = ((strings: TemplateStringsArray) => {
+    queries.push(strings.join("?"));
+    return Promise.resolve(responses.shift() ?? []);
+  }) as PolicySql & { queries: string[] };
+  fn.json = (v: unknown) => v;
+  fn.queries = queries;
+  return fn;
+}
+
+describe("storage", () => {
+  test("loadPolicies returns enabled documents", async () => {
+    const sql = mockSql([[{ document: POLICY }]]);
+    expect(await loadPolicies(sql)).toEqual([POLICY]);
+    expect(sql.queries[0]).toContain("WHERE enabled = true");
+  });
+
+  test("refreshPolicies caches within the TTL", async () => {
+    const sql = mockSql([[{ document: POLICY }]]);
+    await refreshPolicies(sql, 0);
+    await refreshPolicies(sql, 60_000);
+    expect(sql.queries).toHaveLength(1);
+  });
+
+  test("savePolicy refuses a version that does not move forward", async () => {
+    await expect(savePolicy(mockSql([[{ version: 3 }]]), POLICY)).rejects.toThrow("at version 3");
+    const sql = mockSql([[{ version: 2 }], []]);
+    await savePolicy(sql, POLICY, "entity-admin");
+    expect(sql.queries[1]).toContain("ON CONFLICT (name) DO UPDATE");
+  });
+});
+
+// ── Permission guard ────────────────────────────────────────
+
+/** canEntityDo issues entity roles, all roles, then permissions. */
+function rbacSql(granted: boolean): unknown {
+  let call = 0;
+  return () => {
+    call++;
+    if (call === 1) return Promise.resolve([{ role_id: "role-dev" }]);
+    if (call === 2) return Promise.resolve([{ id: "role-dev", name: "dev_agent", parent_role_id: null }]);
+    return Promise.resolve(granted ? [{ resource: "tools", action: "use_bash", scope: null }] : []);
+  };
+}
+
+describe("permission guard with policies", () => {
+  test("a policy deny blocks even when RBAC would allow", async () => {
+    setActivePolicies([POLICY]);
+    const result = await guardToolExecution(rbacSql(true), "entity-dev", "bash", undefined, { agent: "dev", args: { command: "rm -rf /tmp/x" } });
+    expect(result.allowed).toBe(false);
+    expect(result.denial!.policy_rule).toBe("billing-guardrails#no-destructive-bash");
+    expect(getRecentDenials()).toHaveLength(1);
+  });
+
+  test("no applicable rule falls through to RBAC", async () => {
+    setActivePolicies([POLICY]);
+    expect((await guardToolExecution(rbacSql(true), "entity-dev", "bash", undefined, { agent: "dev", args: { command: "ls" } })).allowed).toBe(true);
+    invalidateCache();
+    expect((await guardToolExecution(rbacSql(false), "entity-critic", "bash", undefined, { agent: "critic", args: { command: "ls" } })).allowed).toBe(false);
+  });
+
+  test("a policy allow decides without RBAC", async () => {
+    setActivePolicies([POLICY]);
+    const result = await guardToolExecution(rbacSql(false), "entity-fin", "bash", undefined, { agent: "finance", attributes: { company_id: "co-1" } });
+    expect(result.allowed).toBe(true);
+    expect(result.policy_rule?.rule_id).toBe("finance-own-company");
+  });
+
+  test("dispatch passes attributes to the policy", async () => {
+    setActivePolicies([POLICY]);
+    const result = await guardAgentDispatch(rbacSql(true), "entity-dev", "dev", undefined, { work_item: { id: "ELLIE-9", state: "cancelled" }, time: DAYTIME });
+    expect(result.allowed).toBe(false);
+    expect(result.denial!.reason).toContain("closed-work-items");
+  });
+
+  test("audit mode logs the policy denial and lets RBAC decide", async () => {
+    setActivePolicies([POLICY]);
+    const config = { enabled: true, log_denials: true, enforce: false };
+    const result = await guardToolExecution(rbacSql(true), "entity-dev", "bash", config, { args: { command: "rm -rf /" } });
+    expect(result.allowed).toBe(true);
+    expect(getRecentDenials()[0].policy_rule).toBe("billing-guardrails#no-destructive-bash");
+  });
+});
+
+// ── What-if API ─────────────────────────────────────────────
+
+function fakeRes() {
+  const out = { status: 0, body: null as unknown };
+  const res = {
+    writeHead(s: number) { out.status = s; },
+    end(d: string) { out.body = JSON.parse(d); },
+  } as unknown as ServerResponse;
+  return { res, out };
+}
+
+function route(method: string, path: string) {
+  return routes.find(r => r.method === method && r.path === path)!;
+}
+
+describe("POST /api/permissions/policies/what-if", () => {
+  const whatIf = route("POST", "/api/permissions/policies/what-if");
+
+  test("explains a hypothetical request against supplied policies", async () => {
+    const { res, out } = fakeRes();
+    await whatIf.handler({ res, rawBody: JSON.stringify({ request: req({ attributes: { time: NIGHT } }), policies: [POLICY] }) } as unknown as RouteContext);
+    expect(out.status).toBe(200);
+    const body = out.body as { decision: string; rule: { rule_id: string }; trace: unknown[] };
+    expect(body.decision).toBe("deny");
+    expect(body.rule.rule_id).toBe("dev-after-hours");
+    expect(body.trace).toHaveLength(POLICY.rules.length);
+  });
+
+  test("rejects invalid supplied policies", async () => {
+    const { res, out } = fakeRes();
+    await whatIf.handler({ res, rawBody: JSON.stringify({ request: req(), policies: [{ name: "x", version: 1, rules: [{ id: "r", effect: "nope", targets: ["*"] }] }] }) } as unknown as RouteContext);
+    expect(out.status).toBe(400);
+    expect((out.body as { error: string }).error).toContain("policies[0]: rules[0].effect");
+  });
+
+  test("uses the active set when no policies are supplied", async () => {
+    setActivePolicies([POLICY]);
+    const { res, out } = fakeRes();
+    await whatIf.handler({ res, rawBody: JSON.stringify({ request: req({ attributes: { time: NIGHT } }) }) } as unknown as RouteContext);
+    expect((out.body as { decision: string }).decision).toBe("deny");
+  });
+});
+
+describe("PUT /api/permissions/policies/:name", () => {
+  test("rejects a name that does not match the URL", async () => {
+    const { res, out } = fakeRes();
+    await route("PUT", "/api/permissions/policies/:name").handler({ res, params: { name: "other" }, rawBody: JSON.stringify(POLICY) } as unknown as RouteContext);
+    expect(out.status).toBe(400);
+    expect((out.body as { errors: string[] }).errors).toContain("name must match the URL");
+  });
+
+  test("requires API auth even with a permission admin's entity id", async () => {
+    const body = JSON.stringify(POLICY);
+    const req = Readable.from([Buffer.from(body)]) as unknown as IncomingMessage;
+    Object.assign(req, {
+      method: "PUT",
+      headers: { "x-entity-id": "e0000000-0000-0000-0000-000000000001" },
+      socket: { remoteAddress: "203.0.113.7" },
+    });
+    const out = { status: 0 };
+    const res = { headersSent: false, writeHead(s: number) { out.status = s; }, end() {} } as unknown as ServerResponse;
+    const router = createRouter([{ name: "Access policies", routes }], {
+      authenticate: async () => false,
+      getDeps: () => ({}) as RelayDeps,
+    });
+
+    await router(req, res, new URL(`http://x/api/permissions/policies/${POLICY.name}`));
+    expect(out.status).toBe(401);
+  });
+});
@@ -9,24 +9,38 @@
  * - Session audit log
  * - Count entries
  * - Retention policy CRUD and application
+ * - Hash chain: append, signed retention checkpoints, verification, export, API
  * - E2E lifecycle
  */
 
 import { describe, test, expect, mock, beforeEach } from "bun:test";
 import { readFileSync } from "fs";
 import { join } from "path";
+import { generateKeyPairSync } from "crypto";
+import type { ServerResponse } from "node:http";
 import type {
   AuditLogEntry,
   AuditActionType,
   RetentionPolicy,
 } from "../src/agent-audit-log.ts";
+import {
+  GENESIS_HASH,
+  contentHash,
+  linkHash,
+  publicKeyPem,
+  signCheckpoint,
+  verifyAuditBundle,
+  verifyCheckpointSignature,
+  type ChainedEntry,
+} from "../src/audit-chain.ts";
+import type { RouteContext } from "../src/route-table.ts";
 
 // ── Mock SQL Layer ──────────────────────────────────────────
 
-type SqlRow = Record<string, unknown>;
+type SqlRow = object;
 type SqlResult = SqlRow[];
 
-let sqlMockResults: SqlResult[] = [];
+let sqlMockResults: (SqlResult | Error)[] = [];
 let sqlCallIndex = 0;
 let sqlCalls: { strings: TemplateStringsArray; values: unknown[] }[] = [];
 
@@ -36,7 +50,7 @@ function resetSqlMock() {
   sqlCalls = [];
 }
 
-function pushSqlResult(rows: SqlResult) {
+function pushSqlResult(rows: SqlResult | Error) {
   sqlMockResults.push(rows);
 }
 
@@ -45,7 +59,7 @@ const mockSql = Object.assign(
     sqlCalls.push({ strings, values });
     const result = sqlMockResults[sqlCallIndex] ?? [];
     sqlCallIndex++;
-    return Promise.resolve(result);
+    return result instanceof Error ? Promise.reject(result) : Promise.resolve(result);
   },
   { json: (v: unknown) => v, array: (v: unknown) => v },
 );
@@ -63,9 +77,12 @@ const {
   setRetentionPolicy,
   getRetentionPolicy,
   applyRetentionPolicies,
+  verifyAuditChain,
+  exportAuditBundle,
   VALID_AUDIT_ACTION_TYPES,
   DEFAULT_RETENTION_DAYS,
 } = await import("../src/agent-audit-log.ts");
+const { routes } = await import("../src/api/agent-audit.ts");
 
 // ── Setup ───────────────────────────────────────────────────
 
@@ -462,12 +479,14 @@ describe("applyRetentionPolicies", () => {
     expect(count).toBe(0);
   });
 
-  test("issues two DELETE queries (company + default)", async () => {
+  test("issues two DELETE queries (company + default) for unchained entries, then looks for chain cuts", async () => {
     pushSqlResult([]);
     pushSqlResult([]);
 
     await applyRetentionPolicies();
-    expect(sqlCalls).toHaveLength(2);
+    expect(sqlCalls).toHaveLength(3);
+    expect(sqlCalls[0].strings.join("?")).toContain("seq IS NULL");
+    expect(sqlCalls[1].strings.join("?")).toContain("seq IS NULL");
   });
 });
 
@@ -569,3 +588,214 @@ describe("SQL safety", () => {
     expect(rawSql).not.toContain("agent-1");
   });
 });
+
+// ── Hash Chain ──────────────────────────────────────────────
+
+const { privateKey: CHECKPOINT_KEY } = generateKeyPairSync("ed25519");
+const CHECKPOINT_PUBLIC = publicKeyPem(CHECKPOINT_KEY);
+
+/** Stored rows of a valid global chain, seq 1..n. */
+function chainRows(n: number): ChainedEntry[] {
+  const rows: ChainedEntry[] = [];
+  let prev = GENESIS_HASH;
+  for (let seq = 1; seq <= n; seq++) {
+    const base = {
+      id: `00000000-0000-4000-8000-${String(seq).padStart(12, "0")}`,
+      created_at: new Date(Date.UTC(2026, 0, seq)),
+      agent_id: "a0000000-0000-4000-8000-000000000001",
+      company_id: null,
+      action_type: "completion",
+      action_detail: { run: seq },
+      formation_session_id: null,
+      work_item_id: null,
+    };
+    const entry_hash = linkHash(prev, contentHash(base));
+    rows.push({ ...base, seq, prev_hash: prev, entry_hash });
+    prev = entry_hash;
+  }
+  return rows;
+}
+
+describe("logAction hash chain", () => {
+  test("appends to the company chain from the head or latest checkpoint", async () => {
+    pushSqlResult([makeEntry()]);
+    await logAction({ agent_id: "agent-1", action_type: "dispatch", company_id: "comp-1" });
+
+    const text = sqlCalls[0].strings.join("?");
+    expect(text).toContain("agent_audit_checkpoints");
+    expect(text).toContain("encode(sha256(convert_to(link.prev_hash ||");
+    expect(sqlCalls[0].values).toContain("comp-1");
+    expect(sqlCalls[0].values).toContain(GENESIS_HASH);
+  });
+
+  test("chains entries without a company under global", async () => {
+    pushSqlResult([makeEntry({ company_id: null })]);
+    await logAction({ agent_id: "agent-1", action_type: "dispatch" });
+    expect(sqlCalls[0].values).toContain("global");
+  });
+
+  test("hashes the same id and timestamp it inserts", async () => {
+    pushSqlResult([makeEntry()]);
+    await logAction({ agent_id: "agent-1", action_type: "dispatch", action_detail: { a: 1 } });
+
+    const [id, createdAt] = sqlCalls[0].values.filter(v => typeof v === "string" && /^[0-9a-f-]{36}$|Z$/.test(v)) as string[];
+    const expected = contentHash({
+      id, created_at: createdAt, agent_id: "agent-1", company_id: null, action_type: "dispatch",
+      action_detail: { a: 1 }, formation_session_id: null, work_item_id: null,
+    });
+    expect(sqlCalls[0].values).toContain(expected);
+  });
+
+  test("retries when a concurrent append took the seq", async () => {
+    pushSqlResult(Object.assign(new Error("duplicate key"), { code: "23505" }));
+    pushSqlResult([makeEntry()]);
+
+    const entry = await logAction({ agent_id: "agent-1", action_type: "dispatch" });
+    expect(entry.id).toBe("entry-1");
+    expect(sqlCalls).toHaveLength(2);
+  });
+
+  test("does not retry other errors", async () => {
+    pushSqlResult(new Error("connection refused"));
+    await expect(logAction({ agent_id: "agent-1", action_type: "dispatch" })).rejects.toThrow("connection refused");
+    expect(sqlCalls).toHaveLength(1);
+  });
+});
+
+describe("applyRetentionPolicies with chained entries", () => {
+  test("replaces the expired prefix with a signed checkpoint", async () => {
+    const rows = chainRows(3);
+    pushSqlResult([]); // unchained, company
+    pushSqlResult([]); // unchained, default
+    pushSqlResult([{ chain_key: "global", through_seq: 2, deleted_count: 2 }]);
+    pushSqlResult([]); // checkpoints
+    pushSqlResult(rows.slice(0, 2)); // segment through seq 2
+    pushSqlResult([{ id: rows[0].id }, { id: rows[1].id }]);
+
+    const deleted = await applyRetentionPolicies({ signingKey: CHECKPOINT_KEY });
+    expect(deleted).toBe(2);
+
+    const cut = sqlCalls[5];
+    expect(cut.strings.join("?")).toContain("INSERT INTO agent_audit_checkpoints");
+    expect(cut.strings.join("?")).toContain("DELETE FROM agent_audit_log");
+    const [chain_key, through_seq, through_hash, deleted_count, signed_at, key_fingerprint, signature] = cut.values as [string, number, string, number, string, string, string];
+    expect(through_hash).toBe(rows[1].entry_hash);
+    expect(verifyCheckpointSignature(
+      { chain_key, through_seq, through_hash, deleted_count, signed_at, key_fingerprint, signature },
+      CHECKPOINT_PUBLIC,
+    )).toBe(true);
+  });
+
+  test("keeps chained entries when no signing key is configured", async () => {
+    pushSqlResult([]);
+    pushSqlResult([]);
+    pushSqlResult([{ chain_key: "global", through_seq: 2, deleted_count: 2 }]);
+
+    expect(await applyRetentionPolicies({ signingKey: null })).toBe(0);
+    expect(sqlCalls).toHaveLength(3);
+  });
+
+  test("does not checkpoint over a broken segment", async () => {
+    const rows = chainRows(3);
+    rows[1] = { ...rows[1], action_detail: { run: 99 } };
+    pushSqlResult([]);
+    pushSqlResult([]);
+    pushSqlResult([{ chain_key: "global", through_seq: 2, deleted_count: 2 }]);
+    pushSqlResult([]);
+    pushSqlResult(rows.slice(0, 2));
+
+    expect(await applyRetentionPolicies({ signingKey: CHECKPOINT_KEY })).toBe(0);
+    expect(sqlCalls).toHaveLength(5);
+  });
+});
+
+describe("verifyAuditChain", () => {
+  test("reports an intact chain and its head", async () => {
+    const rows = chainRows(4);
+    pushSqlResult([]);
+    pushSqlResult(rows);
+
+    const r = await verifyAuditChain("global", { publicKeyPem: CHECKPOINT_PUBLIC });
+    expect(r).toMatchObject({ ok: true, checked: 4, checkpoints: 0, first_break: null });
+    expect(r.head).toEqual({ seq: 4, hash: rows[3].entry_hash });
+  });
+
+  test("reports the first broken link", async () => {
+    const rows = chainRows(4);
+    pushSqlResult([]);
+    pushSqlResult([rows[0], rows[1], rows[3]]);
+
+    const r = await verifyAuditChain("global", { publicKeyPem: CHECKPOINT_PUBLIC });
+    expect(r.ok).toBe(false);
+    expect(r.checked).toBe(2);
+    expect(r.first_break).toEqual({ seq: 4, entry_id: rows[3].id, reason: "entries 3..3 missing" });
+  });
+
+  test("resumes after the latest checkpoint", async () => {
+    const rows = chainRows(4);
+    const cp = signCheckpoint({ chain_key: "global", through_seq: 2, through_hash: rows[1].entry_hash, deleted_count: 2 }, CHECKPOINT_KEY);
+    pushSqlResult([{ ...cp, signed_at: new Date(cp.signed_at) }]);
+    pushSqlResult(rows.slice(2));
+
+    const r = await verifyAuditChain("global", { publicKeyPem: CHECKPOINT_PUBLIC });
+    expect(r).toMatchObject({ ok: true, checked: 2, checkpoints: 1 });
+    expect(sqlCalls[1].values).toContain(2);
+  });
+});
+
+describe("exportAuditBundle", () => {
+  test("produces a bundle that verifies offline", async () => {
+    const rows = chainRows(3);
+    pushSqlResult([]);
+    pushSqlResult(rows);
+
+    const bundle = JSON.parse(JSON.stringify(await exportAuditBundle("global")));
+    expect(bundle.format).toBe("ellie-agent-audit/v1");
+    expect(bundle.head).toEqual({ seq: 3, hash: rows[2].entry_hash });
+    expect(verifyAuditBundle(bundle, CHECKPOINT_PUBLIC).ok).toBe(true);
+  });
+});
+
+describe("audit chain API", () => {
+  function fakeRes() {
+    const out = { status: 0, headers: {} as Record<string, string>, body: null as unknown };
+    const res = {
+      writeHead(s: number, h: Record<string, string> = {}) { out.status = s; out.headers = h; },
+      end(d: string) { out.body = JSON.parse(d); },
+    } as unknown as ServerResponse;
+    return { res, out };
+  }
+
+  function route(path: string) {
+    return routes.find(r => r.path === path)!;
+  }
+
+  test("GET verify walks the chain", async () => {
+    pushSqlResult([]);
+    pushSqlResult(chainRows(2));
+    const { res, out } = fakeRes();
+
+    await route("/api/audit/chains/:chain/verify").handler({ res, params: { chain: "global" } } as unknown as RouteContext);
+    expect(out.status).toBe(200);
+    expect(out.body).toMatchObject({ chain_key: "global", checked: 2 });
+    expect(sqlCalls[0].values).toContain("global");
+  });
+
+  test("rejects a chain that is not a company ID or global", async () => {
+    const { res, out } = fakeRes();
+    await route("/api/audit/chains/:chain/verify").handler({ res, params: { chain: "comp'1" } } as unknown as RouteContext);
+    expect(out.status).toBe(400);
+    expect(sqlCalls).toHaveLength(0);
+  });
+
+  test("GET export returns a downloadable bundle", async () => {
+    pushSqlResult([]);
+    pushSqlResult(chainRows(1));
+    const { res, out } = fakeRes();
+
+    await route("/api/audit/chains/:chain/export").handler({ res, params: { chain: "GLOBAL" } } as unknown as RouteContext);
+    expect(out.status).toBe(200);
+    expect(out.headers["Content-Disposition"]).toContain("agent-audit-global.json");
+    expect((out.body as { entries: unknown[] }).entries).toHaveLength(1);
+  });
+});
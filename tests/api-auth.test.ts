@@ -60,6 +60,14 @@ describe("requiresApiAuth — exempt /api/* routes", () => {
   it("does not require auth for /api/app-auth/callback", () => {
     expect(requiresApiAuth("/api/app-auth/callback", EXTERNAL_IP)).toBe(false);
   });
+
+  it("does not require auth for /api/webhooks/trigger/:token", () => {
+    expect(requiresApiAuth("/api/webhooks/trigger/" + "ab".repeat(24), EXTERNAL_IP)).toBe(false);
+  });
+
+  it("still requires auth for webhook management", () => {
+    expect(requiresApiAuth("/api/webhooks", EXTERNAL_IP)).toBe(true);
+  });
 });
 
 describe("requiresApiAuth — localhost bypass", () => {
@@ -23,9 +23,6 @@ mock.module("../src/calendar-sync.ts", () => ({
 mock.module("../src/outlook.ts", () => ({
   getMessage: mock(async () => null),
 }));
-mock.module("../../../ellie-forest/src/hollow.ts", () => ({
-  retrieveSecret: mock(async () => ""),
-}));
 
 import { _testing } from "../src/api/gateway-intake.ts";
 const { validateEventPayload, validateAlertPayload, validateEmailPayload, sanitize, errorMessage } = _testing;
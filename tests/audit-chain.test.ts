@@ -0,0 +1,216 @@
+/**
+ * Audit Chain Tests
+ *
+ * - Canonical JSON and content hashing (Postgres round-trip stable)
+ * - Link verification: intact chain, missing entry, altered content, bad prev_hash
+ * - Checkpoint signing and verification
+ * - Offline bundle verification
+ */
+
+import { describe, test, expect } from "bun:test";
+import { createHash, generateKeyPairSync } from "crypto";
+import {
+  AUDIT_BUNDLE_FORMAT,
+  GENESIS_HASH,
+  canonicalJSON,
+  chainKeyFor,
+  contentHash,
+  keyFingerprint,
+  linkHash,
+  loadSigningKey,
+  loadVerifyKey,
+  publicKeyPem,
+  signCheckpoint,
+  verifyAuditBundle,
+  verifyChainEntries,
+  verifyCheckpoints,
+  verifyCheckpointSignature,
+  type AuditBundle,
+  type ChainedEntry,
+} from "../src/audit-chain.ts";
+
+const COMPANY = "7b0f6f7e-3c1a-4c55-9a57-0d2f3f3b1a01";
+const { privateKey } = generateKeyPairSync("ed25519");
+const PUBLIC_PEM = publicKeyPem(privateKey);
+
+/** A valid chain of n entries starting after `from`. */
+function buildChain(n: number, from = { seq: 0, hash: GENESIS_HASH }): ChainedEntry[] {
+  const entries: ChainedEntry[] = [];
+  let prev = from;
+  for (let i = 0; i < n; i++) {
+    const seq = prev.seq + 1;
+    const base = {
+      id: `00000000-0000-4000-8000-${String(seq).padStart(12, "0")}`,
+      created_at: new Date(Date.UTC(2026, 9, 1, 0, seq)),
+      agent_id: "a0000000-0000-4000-8000-000000000001",
+      company_id: COMPANY,
+      action_type: "dispatch",
+      action_detail: { session_id: `s-${seq}` },
+      formation_session_id: null,
+      work_item_id: `ELLIE-${seq}`,
+    };
+    const entry_hash = linkHash(prev.hash, contentHash(base));
+    entries.push({ ...base, seq, prev_hash: prev.hash, entry_hash });
+    prev = { seq, hash: entry_hash };
+  }
+  return entries;
+}
+
+// ── Hashing ─────────────────────────────────────────────────
+
+describe("hashing", () => {
+  test("canonicalJSON sorts keys at every level and drops undefined", () => {
+    expect(canonicalJSON({ b: 1, a: { d: [2, { z: 1, y: 2 }], c: undefined } })).toBe('{"a":{"d":[2,{"y":2,"z":1}]},"b":1}');
+  });
+
+  test("contentHash survives a Postgres round trip", () => {
+    const [entry] = buildChain(1);
+    const roundTripped = {
+      ...entry,
+      id: entry.id.toUpperCase(),
+      created_at: (entry.created_at as Date).toISOString(),
+      action_detail: JSON.parse(JSON.stringify({ ...entry.action_detail })),
+    };
+    expect(contentHash(roundTripped)).toBe(contentHash(entry));
+  });
+
+  test("linkHash matches sha256(prev_hash || content_hash) as Postgres computes it", () => {
+    const content = contentHash(buildChain(1)[0]);
+    const expected = createHash("sha256").update(GENESIS_HASH + content).digest("hex");
+    expect(linkHash(GENESIS_HASH, content)).toBe(expected);
+  });
+
+  test("chainKeyFor uses the company or global", () => {
+    expect(chainKeyFor(COMPANY.toUpperCase())).toBe(COMPANY);
+    expect(chainKeyFor(null)).toBe("global");
+  });
+});
+
+// ── Links ───────────────────────────────────────────────────
+
+describe("verifyChainEntries", () => {
+  const start = { seq: 0, hash: GENESIS_HASH };
+
+  test("accepts an intact chain and reports its head", () => {
+    const chain = buildChain(5);
+    const r = verifyChainEntries(chain, start);
+    expect(r.ok).toBe(true);
+    expect(r.checked).toBe(5);
+    expect(r.head).toEqual({ seq: 5, hash: chain[4].entry_hash });
+  });
+
+  test("verifies page by page from the previous head", () => {
+    const chain = buildChain(6);
+    const first = verifyChainEntries(chain.slice(0, 3), start);
+    const second = verifyChainEntries(chain.slice(3), first.head);
+    expect(second.ok).toBe(true);
+    expect(second.head.seq).toBe(6);
+  });
+
+  test("reports a deleted entry", () => {
+    const chain = buildChain(5);
+    const r = verifyChainEntries([...chain.slice(0, 2), ...chain.slice(3)], start);
+    expect(r.ok).toBe(false);
+    expect(r.checked).toBe(2);
+    expect(r.first_break).toEqual({ seq: 4, entry_id: chain[3].id, reason: "entries 3..3 missing" });
+  });
+
+  test("reports altered content at the altered entry", () => {
+    const chain = buildChain(4);
+    chain[2] = { ...chain[2], action_detail: { session_id: "forged" } };
+    const r = verifyChainEntries(chain, start);
+    expect(r.first_break?.seq).toBe(3);
+    expect(r.first_break?.reason).toBe("entry_hash does not match the entry's content");
+    expect(r.head.seq).toBe(2);
+  });
+
+  test("reports a rewritten link", () => {
+    const chain = buildChain(3);
+    chain[1] = { ...chain[1], prev_hash: "f".repeat(64) };
+    expect(verifyChainEntries(chain, start).first_break?.reason).toBe("prev_hash does not match the preceding link");
+  });
+});
+
+// ── Checkpoints ─────────────────────────────────────────────
+
+describe("checkpoints", () => {
+  test("sign and verify", () => {
+    const cp = signCheckpoint({ chain_key: COMPANY, through_seq: 3, through_hash: "a".repeat(64), deleted_count: 3 }, privateKey);
+    expect(cp.key_fingerprint).toBe(keyFingerprint(PUBLIC_PEM));
+    expect(verifyCheckpointSignature(cp, PUBLIC_PEM)).toBe(true);
+    expect(verifyCheckpointSignature({ ...cp, through_seq: 4 }, PUBLIC_PEM)).toBe(false);
+    expect(verifyCheckpointSignature(cp, publicKeyPem(generateKeyPairSync("ed25519").privateKey))).toBe(false);
+  });
+
+  test("the latest checkpoint is where surviving entries resume", () => {
+    const chain = buildChain(6);
+    const cps = [
+      signCheckpoint({ chain_key: COMPANY, through_seq: 2, through_hash: chain[1].entry_hash, deleted_count: 2 }, privateKey),
+      signCheckpoint({ chain_key: COMPANY, through_seq: 4, through_hash: chain[3].entry_hash, deleted_count: 2 }, privateKey),
+    ];
+    const start = verifyCheckpoints(COMPANY, cps, PUBLIC_PEM);
+    expect(start.head).toEqual({ seq: 4, hash: chain[3].entry_hash });
+    expect(verifyChainEntries(chain.slice(4), start.head).ok).toBe(true);
+  });
+
+  test("rejects forged, foreign or unverifiable checkpoints", () => {
+    const cp = signCheckpoint({ chain_key: COMPANY, through_seq: 2, through_hash: "a".repeat(64), deleted_count: 2 }, privateKey);
+    expect(verifyCheckpoints(COMPANY, [{ ...cp, through_hash: "b".repeat(64) }], PUBLIC_PEM).first_break?.reason).toBe("checkpoint signature invalid");
+    expect(verifyCheckpoints("global", [cp], PUBLIC_PEM).first_break?.reason).toContain("belongs to chain");
+    expect(verifyCheckpoints(COMPANY, [cp], null).first_break?.reason).toBe("no public key to verify checkpoint signature");
+  });
+
+  test("keys load from the environment", () => {
+    const pem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    expect(loadSigningKey({})).toBeNull();
+    expect(loadVerifyKey({ AUDIT_CHECKPOINT_KEY: pem.replace(/\n/g, "\\n") })).toBe(PUBLIC_PEM);
+    expect(loadVerifyKey({ AUDIT_CHECKPOINT_PUBLIC_KEY: PUBLIC_PEM })).toBe(PUBLIC_PEM);
+  });
+});
+
+// ── Bundles ─────────────────────────────────────────────────
+
+describe("verifyAuditBundle", () => {
+  function bundle(): AuditBundle {
+    const chain = buildChain(5);
+    const cp = signCheckpoint({ chain_key: COMPANY, through_seq: 2, through_hash: chain[1].entry_hash, deleted_count: 2 }, privateKey);
+    // Bundles travel as JSON
+    return JSON.parse(JSON.stringify({
+      format: AUDIT_BUNDLE_FORMAT,
+      chain_key: COMPANY,
+      exported_at: "2026-10-19T00:00:00.000Z",
+      genesis_hash: GENESIS_HASH,
+      public_key: PUBLIC_PEM,
+      key_fingerprint: keyFingerprint(PUBLIC_PEM),
+      checkpoints: [cp],
+      entries: chain.slice(2),
+      head: { seq: 5, hash: chain[4].entry_hash },
+    })) as AuditBundle;
+  }
+
+  test("verifies an exported bundle offline", () => {
+    const r = verifyAuditBundle(bundle(), PUBLIC_PEM);
+    expect(r).toMatchObject({ ok: true, checked: 3, checkpoints: 1, first_break: null });
+  });
+
+  test("reports the first broken link", () => {
+    const b = bundle();
+    b.entries[1].work_item_id = "ELLIE-999";
+    expect(verifyAuditBundle(b, PUBLIC_PEM).first_break).toMatchObject({ seq: 4, entry_id: b.entries[1].id });
+  });
+
+  test("rejects a bundle re-signed with another key when the operator key is given", () => {
+    const b = bundle();
+    const other = generateKeyPairSync("ed25519").privateKey;
+    b.checkpoints = [signCheckpoint({ ...b.checkpoints[0] }, other)];
+    b.public_key = publicKeyPem(other);
+    expect(verifyAuditBundle(b).ok).toBe(true);
+    expect(verifyAuditBundle(b, PUBLIC_PEM).first_break?.reason).toBe("checkpoint signature invalid");
+  });
+
+  test("detects a head that does not match the entries", () => {
+    const b = bundle();
+    b.entries.pop();
+    expect(verifyAuditBundle(b, PUBLIC_PEM).first_break?.reason).toBe("bundle head does not match its last entry");
+  });
+});
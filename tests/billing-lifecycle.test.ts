@@ -0,0 +1,167 @@
+/**
+ * Billing Lifecycle Runner Tests
+ *
+ * End-to-end revenue cycle against the clearinghouse simulator:
+ * - Clean claims: submit → track → post
+ * - Denials routed to appeals, overturned and upheld
+ * - Non-appealable denials settle after denial management
+ * - Claim-building failures never reach the clearinghouse
+ * - Status mapping and denial-code extraction
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  runBillingLifecycle,
+  toClaimStatus,
+  denialCodeFromRemittance,
+} from "../src/billing-lifecycle.ts";
+import { createClearinghouseSimulator, type ClaimScenario } from "../src/connectors/clearinghouse-simulator.ts";
+import { generateClaimId, type EncounterInput } from "../src/claim-submission.ts";
+import { sampleEncounter } from "../src/billing-test-utils.ts";
+
+function encounter(id: string): EncounterInput {
+  return { ...sampleEncounter(), encounter_id: id };
+}
+
+/** Scenario per encounter ID; anything unlisted is paid cleanly. */
+function scripted(byEncounter: Record<string, ClaimScenario>) {
+  const byClaim = new Map(Object.entries(byEncounter).map(([id, s]) => [generateClaimId(encounter(id)), s]));
+  return createClearinghouseSimulator({ start: "2026-04-01", scenario: claim => byClaim.get(claim.claim_id) ?? {} });
+}
+
+// ── Full Runs ───────────────────────────────────────────────
+
+describe("runBillingLifecycle", () => {
+  test("a clean claim is submitted, tracked and posted", async () => {
+    const sim = scripted({});
+    const result = await runBillingLifecycle([encounter("enc-1")], sim);
+
+    const [claim] = result.claims;
+    expect(claim.status).toBe("paid");
+    expect(claim.paid_cents).toBe(12000);
+    expect(claim.settled_on).toBe("2026-04-15");
+    expect(claim.submission?.status).toBe("submitted");
+    expect(result.status_changes.map(c => c.new_status)).toEqual(["received", "processing", "paid"]);
+    expect(result.stages).toEqual(["claim_submission", "claims_tracking", "payment_posting"]);
+    expect(result.postings).toHaveLength(1);
+    expect(result.postings[0].reconciliation.matched).toBe(1);
+    expect(result.unsettled).toEqual([]);
+  });
+
+  test("a coverage denial is appealed and paid when overturned", async () => {
+    const sim = scripted({ "enc-2": { denial: { carc: "50", rarc: ["N115"] }, appeal: { overturn: true } } });
+    const result = await runBillingLifecycle([encounter("enc-2")], sim);
+
+    const [claim] = result.claims;
+    expect(claim.denials.map(d => [d.denial_code, d.classification.category, d.recommendation.action]))
+      .toEqual([["CO-50", "coverage_issue", "appeal"]]);
+    expect(claim.appeals.map(a => [a.appeal_level, a.status])).toEqual([["first", "submitted"]]);
+    expect(claim.status).toBe("paid");
+    expect(claim.paid_cents).toBe(12000);
+    expect(claim.settled_on).toBe("2026-05-15");
+    expect(result.status_changes.map(c => c.new_status)).toEqual(["received", "processing", "denied", "paid"]);
+    expect(result.stages).toContain("denial_management");
+    expect(result.stages).toContain("appeals");
+  });
+
+  test("an upheld appeal ends denied after the second denial analysis", async () => {
+    const sim = scripted({ "enc-3": { denial: { carc: "197" } } });
+    const result = await runBillingLifecycle([encounter("enc-3")], sim);
+
+    const [claim] = result.claims;
+    expect(claim.status).toBe("denied");
+    expect(claim.appeals).toHaveLength(1);
+    expect(claim.denials).toHaveLength(2);
+    expect(claim.denials[1].classification.category).toBe("authorization");
+    expect(claim.paid_cents).toBe(0);
+    expect(result.unsettled).toEqual([]);
+  });
+
+  test("maxAppeals allows escalation to a second-level appeal", async () => {
+    const sim = scripted({ "enc-3": { denial: { carc: "197" } } });
+    const result = await runBillingLifecycle([encounter("enc-3")], sim, { maxAppeals: 2 });
+    expect(result.claims[0].appeals.map(a => a.appeal_level)).toEqual(["first", "second"]);
+  });
+
+  test("a billing-error denial is not appealed", async () => {
+    const sim = scripted({ "enc-4": { denial: { carc: "16", rarc: ["M51"] } } });
+    const result = await runBillingLifecycle([encounter("enc-4")], sim);
+
+    const [claim] = result.claims;
+    expect(claim.status).toBe("denied");
+    expect(claim.denials[0].recommendation.action).toBe("resubmit");
+    expect(claim.appeals).toEqual([]);
+    expect(result.stages).not.toContain("appeals");
+  });
+
+  test("a mixed batch settles every claim and reconciles the 835s", async () => {
+    const sim = scripted({
+      "enc-b": { denial: { carc: "50" }, appeal: { overturn: true } },
+      "enc-c": { denial: { carc: "16" } },
+      "enc-d": { payment: { allowed_ratio: 0.5, patient_responsibility_cents: 1000 }, decision_after_days: 40 },
+    });
+    const result = await runBillingLifecycle(["enc-a", "enc-b", "enc-c", "enc-d"].map(encounter), sim);
+
+    expect(result.claims.map(c => c.status)).toEqual(["paid", "paid", "denied", "paid"]);
+    expect(result.claims.map(c => c.paid_cents)).toEqual([12000, 12000, 0, 6500]);
+    expect(result.unsettled).toEqual([]);
+    expect(result.alerts.some(a => a.alert_type === "denied")).toBe(true);
+
+    const posted = result.postings.reduce((sum, p) => sum + p.reconciliation.total_paid_cents, 0);
+    expect(posted).toBe(12000 + 12000 + 6500);
+    expect(result.postings.every(p => p.reconciliation.unmatched === 0)).toBe(true);
+  });
+
+  test("invalid encounters never reach the clearinghouse", async () => {
+    const sim = scripted({});
+    const bad = { ...encounter("enc-bad"), diagnoses: [] };
+    const result = await runBillingLifecycle([bad, encounter("enc-ok")], sim);
+
+    expect(result.claims[0].status).toBeNull();
+    expect(result.claims[0].errors.length).toBeGreaterThan(0);
+    expect(result.claims[1].status).toBe("paid");
+    expect(sim.claims()).toHaveLength(1);
+  });
+
+  test("claims still open at maxDays are reported unsettled", async () => {
+    const sim = scripted({ "enc-slow": { decision_after_days: 60 } });
+    const result = await runBillingLifecycle([encounter("enc-slow")], sim, { maxDays: 30 });
+    expect(result.unsettled).toEqual([generateClaimId(encounter("enc-slow"))]);
+    expect(result.claims[0].status).toBe("processing");
+    expect(result.finished_on).toBe("2026-05-01");
+  });
+
+  test("runs are deterministic", async () => {
+    const run = () => runBillingLifecycle(["enc-a", "enc-b"].map(encounter), scripted({ "enc-b": { denial: { carc: "50" } } }));
+    expect(await run()).toEqual(await run());
+  });
+});
+
+// ── Helpers ─────────────────────────────────────────────────
+
+describe("toClaimStatus", () => {
+  const response = (status: "accepted" | "pending" | "paid" | "denied" | "rejected" | "unknown") =>
+    ({ claim_id: "C1", status, status_code: null, status_message: null, effective_date: null });
+
+  test("maps 277 statuses onto tracking statuses", () => {
+    expect(toClaimStatus(response("accepted"), "submitted")).toBe("received");
+    expect(toClaimStatus(response("pending"), "received")).toBe("processing");
+    expect(toClaimStatus(response("paid"), "processing")).toBe("paid");
+    expect(toClaimStatus(response("denied"), "processing")).toBe("denied");
+  });
+
+  test("pending after an appeal stays appealed; unknown keeps the previous status", () => {
+    expect(toClaimStatus(response("pending"), "appealed")).toBe("appealed");
+    expect(toClaimStatus(response("unknown"), "processing")).toBe("processing");
+  });
+});
+
+describe("denialCodeFromRemittance", () => {
+  test("uses the first non-patient adjustment", () => {
+    expect(denialCodeFromRemittance({
+      claim_id: "C1", patient_name: null, cpt_code: "99213", billed_cents: 100, allowed_cents: 0, paid_cents: 0,
+      adjustments: [{ group_code: "PR", reason_code: "2", amount_cents: 10 }, { group_code: "CO", reason_code: "50", amount_cents: 90 }],
+      patient_responsibility_cents: 10,
+    })).toBe("CO-50");
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Channel Adapter Tests
+ *
+ * - Every built-in adapter passes the conformance kit
+ * - The kit catches a broken adapter
+ * - Registry lifecycle: configured-only start, failing start isolated, reverse stop
+ * - Notifications and delivery reach a registered adapter without code changes
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createHmac } from "node:crypto";
+import { runChannelConformance, type CapturedSend, type ConformanceFixture } from "../src/channels/conformance.ts";
+import { chunkText, type ChannelAdapter, type ChannelStartContext, type OutboundMessage, type OutboundTarget } from "../src/channels/adapter.ts";
+import {
+  _resetChannelAdaptersForTesting,
+  getChannelAdapter,
+  isChannelAdapterStarted,
+  registerChannelAdapter,
+  startChannelAdapters,
+  stopChannelAdapters,
+} from "../src/channels/registry.ts";
+import { slackAdapter } from "../src/channels/slack/adapter.ts";
+import { createGoogleChatAdapter } from "../src/channels/google-chat/adapter.ts";
+import { createDiscordAdapter } from "../src/channels/discord/adapter.ts";
+import { createTelegramAdapter, type TelegramSendApi } from "../src/channels/telegram/adapter.ts";
+import { alexaAdapter } from "../src/channels/alexa/adapter.ts";
+import { notify, resetThrottleState, type NotifyContext } from "../src/notification-policy.ts";
+import { deliverMessage } from "../src/delivery.ts";
+
+const ENV_KEYS = ["SLACK_BOT_TOKEN", "SLACK_SIGNING_SECRET", "GOOGLE_CHAT_VERIFICATION_TOKEN"];
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) savedEnv[k] = process.env[k];
+  _resetChannelAdaptersForTesting();
+  resetThrottleState();
+});
+
+afterEach(() => {
+  for (const k of ENV_KEYS) {
+    if (savedEnv[k] === undefined) delete process.env[k];
+    else process.env[k] = savedEnv[k];
+  }
+  _resetChannelAdaptersForTesting();
+  resetThrottleState();
+});
+
+const startCtx = { supabase: null, bot: {} } as unknown as ChannelStartContext;
+
+// ── Fixtures ────────────────────────────────────────────────
+
+function slackFixture(): ConformanceFixture {
+  process.env.SLACK_BOT_TOKEN = "xoxb-test";
+  process.env.SLACK_SIGNING_SECRET = "shh";
+  const rawBody = '{"type":"event_callback"}';
+  const ts = String(Math.floor(Date.now() / 1000));
+  const sig = `v0=${createHmac("sha256", "shh").update(`v0:${ts}:${rawBody}`).digest("hex")}`;
+  const mention = { type: "app_mention", user: "U1", text: "<@UBOT> deploy it", channel: "C1", ts: "1700000000.000100" };
+  return {
+    adapter: slackAdapter,
+    inbound: {
+      accept: [
+        { payload: { type: "event_callback", event: mention }, text: "deploy it" },
+        { payload: { type: "message", channel_type: "im", user: "U1", text: "hi", channel: "D1", ts: "1.2", thread_ts: "1.1" }, text: "hi" },
+      ],
+      ignore: [
+        { type: "event_callback", event: { ...mention, bot_id: "B1" } },
+        { type: "event_callback", event: { ...mention, subtype: "message_changed" } },
+        { type: "url_verification", challenge: "x" },
+        { type: "event_callback", event: { ...mention, text: "<@UBOT>" } },
+      ],
+    },
+    verify: {
+      valid: { headers: { "x-slack-request-timestamp": ts, "x-slack-signature": sig }, rawBody },
+      tampered: [
+        { headers: { "x-slack-request-timestamp": ts, "x-slack-signature": sig }, rawBody: rawBody + " " },
+        { headers: { "x-slack-request-timestamp": "1000", "x-slack-signature": sig }, rawBody },
+      ],
+    },
+    outbound: {
+      target: { conversationId: "C1" },
+      threadId: "1700000000.000100",
+      harness() {
+        const sent: CapturedSend[] = [];
+        const realFetch = globalThis.fetch;
+        globalThis.fetch = (async (_url: string, init: RequestInit) => {
+          const body = JSON.parse(String(init.body)) as { text: string; thread_ts?: string; blocks?: { elements?: { action_id: string }[] }[] };
+          const buttonIds = body.blocks?.flatMap(b => b.elements ?? []).map(e => e.action_id);
+          sent.push({ text: body.text, threadId: body.thread_ts ?? null, ...(buttonIds && { buttonIds }) });
+          return new Response(JSON.stringify({ ok: true, ts: `ts-${sent.length}` }), { status: 200 });
+        }) as typeof fetch;
+        return { sent: () => sent, teardown: () => { globalThis.fetch = realFetch; } };
+      },
+    },
+  };
+}
+
+function googleChatFixture(): ConformanceFixture {
+  process.env.GOOGLE_CHAT_VERIFICATION_TOKEN = "gtok";
+  let sent: CapturedSend[] = [];
+  const adapter = createGoogleChatAdapter({
+    send: async (_space, text, threadName, cards) => {
+      const buttonIds = (cards as { card: { sections: { widgets: { buttonList: { buttons: { onClick: { action: { parameters: { value: string }[] } } }[] } }[] }[] } }[] | undefined)
+        ?.[0].card.sections[0].widgets[0].buttonList.buttons.map(b => b.onClick.action.parameters[0].value);
+      sent.push({ text, threadId: threadName ?? null, ...(buttonIds && { buttonIds }) });
+      return { externalId: `spaces/A/messages/${sent.length}`, threadName: threadName ?? null };
+    },
+    update: async () => {},
+  });
+  const sender = { name: "users/1", displayName: "Dave", email: "dave@example.com", type: "HUMAN" };
+  return {
+    adapter,
+    inbound: {
+      accept: [
+        {
+          payload: { type: "MESSAGE", eventTime: "t", space: { name: "spaces/A", type: "DM" }, message: { name: "spaces/A/messages/1", text: "@Ellie status?", thread: { name: "spaces/A/threads/T" }, sender, createTime: "t" } },
+          text: "status?",
+        },
+        {
+          payload: { chat: { eventTime: "t", messagePayload: { space: { name: "spaces/B", type: "ROOM" }, message: { name: "spaces/B/messages/9", text: "hello", sender, createTime: "t" } } } },
+          text: "hello",
+        },
+      ],
+      ignore: [
+        { type: "ADDED_TO_SPACE", eventTime: "t", space: { name: "spaces/A", type: "DM" } },
+        { type: "MESSAGE", eventTime: "t", space: { name: "spaces/A", type: "DM" }, message: { name: "m", text: "@Ellie", sender, createTime: "t" } },
+      ],
+    },
+    verify: {
+      valid: { headers: { authorization: "Bearer gtok" }, rawBody: "{}" },
+      tampered: [
+        { headers: { authorization: "Bearer nope" }, rawBody: "{}" },
+        { headers: { authorization: "gtok" }, rawBody: "{}" },
+      ],
+    },
+    outbound: {
+      target: { conversationId: "spaces/A" },
+      threadId: "spaces/A/threads/T",
+      harness() {
+        sent = [];
+        return { sent: () => sent };
+      },
+    },
+  };
+}
+
+function discordMessage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "m1",
+    content: "ship it",
+    author: { id: "u1", bot: false, username: "dave", displayName: "Dave" },
+    member: null,
+    guildId: null,
+    channelId: "dm1",
+    channel: { type: 1 },
+    mentions: { users: new Map() },
+    attachments: new Map(),
+    ...overrides,
+  };
+}
+
+function discordFixture(): ConformanceFixture {
+  let sent: CapturedSend[] = [];
+  const client = {
+    channels: {
+      fetch: async (id: string) => ({
+        send: async (options: { content: string; components?: { components: { custom_id: string }[] }[] }) => {
+          sent.push({
+            text: options.content,
+            threadId: id === "chan-1" ? null : id,
+            buttonIds: options.components?.flatMap(r => r.components.map(c => c.custom_id)),
+          });
+          return { id: `msg-${sent.length}` };
+        },
+        messages: { fetch: async () => ({ edit: async () => {}, react: async () => {} }) },
+      }),
+    },
+  };
+  return {
+    adapter: createDiscordAdapter({ client: () => client }),
+    inbound: {
+      accept: [
+        { payload: discordMessage(), text: "ship it" },
+        {
+          payload: discordMessage({ id: "m2", guildId: "g1", channelId: "thr-1", channel: { type: 11, parentId: "chan-1" }, content: "in thread", attachments: new Map([["a", { url: "https://cdn.example/a.png" }]]) }),
+          text: "in thread",
+        },
+      ],
+      ignore: [
+        discordMessage({ author: { id: "b", bot: true, username: "bot" } }),
+        discordMessage({ guildId: "g1", channelId: "chan-1", channel: { type: 0 } }), // not mentioned
+      ],
+    },
+    outbound: {
+      target: { conversationId: "chan-1" },
+      threadId: "thr-1",
+      harness() {
+        sent = [];
+        return { sent: () => sent };
+      },
+    },
+  };
+}
+
+function telegramFixture(): ConformanceFixture {
+  let sent: CapturedSend[] = [];
+  const api: TelegramSendApi = {
+    async sendMessage(_chatId, text, other = {}) {
+      const markup = other.reply_markup as { inline_keyboard: { callback_data: string }[][] } | undefined;
+      sent.push({
+        text,
+        threadId: other.message_thread_id ? String(other.message_thread_id) : null,
+        buttonIds: markup?.inline_keyboard.flat().map(b => b.callback_data),
+      });
+      return { message_id: sent.length };
+    },
+    async editMessageText() { return true; },
+    async setMessageReaction() { return true; },
+  };
+  const from = { id: 42, is_bot: false, first_name: "Dave" };
+  return {
+    adapter: createTelegramAdapter({ api: () => api }),
+    inbound: {
+      accept: [
+        { payload: { update_id: 1, message: { message_id: 7, chat: { id: 42, type: "private" }, from, date: 0, text: "hi" } }, text: "hi" },
+        {
+          payload: { update_id: 2, message: { message_id: 8, chat: { id: -100, type: "supergroup" }, from, date: 0, caption: "look", photo: [{ file_id: "small" }, { file_id: "big" }], is_topic_message: true, message_thread_id: 5 } },
+          text: "look",
+        },
+      ],
+      ignore: [
+        { update_id: 3, message: { message_id: 9, chat: { id: 42, type: "private" }, from: { ...from, is_bot: true }, date: 0, text: "echo" } },
+        { update_id: 4, callback_query: { id: "q", data: "approve" } },
+        { update_id: 5, message: { message_id: 10, chat: { id: 42, type: "private" }, from, date: 0, sticker: {} } },
+      ],
+    },
+    outbound: {
+      target: { conversationId: "-100" },
+      threadId: "5",
+      harness() {
+        sent = [];
+        return { sent: () => sent };
+      },
+    },
+  };
+}
+
+function alexaFixture(): ConformanceFixture {
+  const body = (request: Record<string, unknown>) => ({
+    version: "1.0",
+    session: { sessionId: "s1", application: { applicationId: "app" }, user: { userId: "amzn1.user" }, new: true },
+    request: { requestId: "r1", timestamp: "2020-01-01T00:00:00Z", ...request },
+  });
+  return {
+    adapter: alexaAdapter,
+    inbound: {
+      accept: [
+        { payload: body({ type: "IntentRequest", intent: { name: "AskEllieIntent", slots: { query: { name: "query", value: "what's next" } } } }), text: "what's next" },
+        { payload: body({ type: "LaunchRequest" }), text: "Open Ellie" },
+      ],
+      ignore: [body({ type: "SessionEndedRequest", reason: "USER_INITIATED" })],
+    },
+    verify: {
+      // A genuine Amazon signature cannot be produced offline.
+      tampered: [
+        {
+          headers: { signaturecertchainurl: "https://evil.example.com/echo.api/echo-api-cert.pem", "signature-256": "AAAA" },
+          rawBody: JSON.stringify(body({ type: "LaunchRequest" })),
+        },
+      ],
+    },
+  };
+}
+
+// ── Conformance ─────────────────────────────────────────────
+
+describe("built-in adapters pass the conformance kit", () => {
+  const fixtures: [string, () => ConformanceFixture][] = [
+    ["slack", slackFixture],
+    ["google-chat", googleChatFixture],
+    ["discord", discordFixture],
+    ["telegram", telegramFixture],
+    ["alexa", alexaFixture],
+  ];
+
+  for (const [id, fixture] of fixtures) {
+    test(id, async () => {
+      const report = await runChannelConformance(fixture());
+      expect(report.failures).toEqual([]);
+      expect(report.adapter).toBe(id);
+    });
+  }
+});
+
+describe("conformance kit", () => {
+  test("reports a broken adapter's violations", async () => {
+    const sent: CapturedSend[] = [];
+    const broken: ChannelAdapter = {
+      id: "Broken Chat",
+      displayName: "Broken",
+      capabilities: { threads: false, edits: true, reactions: false, attachments: false, buttons: false, maxMessageLength: 500, markup: "markdown", push: true },
+      isConfigured: () => true,
+      normalize: (p: unknown) => ({ channel: "other", messageId: "1", conversationId: "c", threadId: null, sender: { id: "u", name: "u" }, text: String((p as { text: string }).text), attachments: [], isDirect: true, raw: p }),
+      format: t => t.replace(/;/g, ""),
+      async send(_target, message) {
+        sent.push({ text: message.text });
+        return { messageIds: ["1"], threadId: null };
+      },
+    };
+    const report = await runChannelConformance({
+      adapter: broken,
+      inbound: { accept: [{ payload: { text: "hi" }, text: "hi" }], ignore: [] },
+      outbound: { target: { conversationId: "c" }, harness: () => { sent.length = 0; return { sent: () => sent }; } },
+    });
+    expect(report.failures.map(f => f.check).sort()).toEqual([
+      "capabilities match methods",
+      "format keeps text and code",
+      "identity",
+      "normalize accepts messages",
+      "normalize ignores the rest",
+      "send handles buttons",
+      "send splits long text",
+    ]);
+    expect(report.passed).toEqual(["send posts short text once"]);
+  });
+
+  test("chunkText prefers paragraph and line breaks", () => {
+    expect(chunkText("short", 10)).toEqual(["short"]);
+    expect(chunkText("aaaa bbbb\n\ncccc dddd", 14)).toEqual(["aaaa bbbb", "cccc dddd"]);
+    expect(chunkText("x".repeat(25), 10)).toEqual(["x".repeat(10), "x".repeat(10), "x".repeat(5)]);
+  });
+});
+
+// ── Registry ────────────────────────────────────────────────
+
+/** A push adapter that records its lifecycle and sends. */
+function fakeAdapter(id: string, opts: { configured?: boolean; failStart?: boolean; events?: string[] } = {}) {
+  const sends: { target: OutboundTarget; message: OutboundMessage }[] = [];
+  const events = opts.events ?? [];
+  const adapter: ChannelAdapter = {
+    id,
+    displayName: id,
+    capabilities: { threads: false, edits: false, reactions: false, attachments: false, buttons: false, maxMessageLength: 1000, markup: "plain", push: true },
+    isConfigured: () => opts.configured ?? true,
+    start() {
+      if (opts.failStart) throw new Error("no credentials");
+      events.push(`start:${id}`);
+    },
+    stop() {
+      events.push(`stop:${id}`);
+    },
+    normalize: () => null,
+    format: t => `[${t}]`,
+    async send(target, message) {
+      sends.push({ target, message });
+      return { messageIds: [`${id}-${sends.length}`], threadId: null };
+    },
+    notificationTarget: () => ({ conversationId: `${id}-room` }),
+  };
+  return { adapter, sends };
+}
+
+describe("channel registry", () => {
+  test("starts configured adapters, isolates failures, stops in reverse", async () => {
+    const events: string[] = [];
+    registerChannelAdapter(fakeAdapter("alpha", { events }).adapter);
+    registerChannelAdapter(fakeAdapter("beta", { configured: false, events }).adapter);
+    registerChannelAdapter(fakeAdapter("gamma", { failStart: true, events }).adapter);
+    registerChannelAdapter(fakeAdapter("delta", { events }).adapter);
+
+    expect(await startChannelAdapters(startCtx)).toEqual(["alpha", "delta"]);
+    expect(isChannelAdapterStarted("gamma")).toBe(false);
+    await stopChannelAdapters();
+    expect(events).toEqual(["start:alpha", "start:delta", "stop:delta", "stop:alpha"]);
+  });
+
+  test("refuses a second adapter with the same id", () => {
+    registerChannelAdapter(fakeAdapter("alpha").adapter);
+    expect(() => registerChannelAdapter(fakeAdapter("alpha").adapter)).toThrow("already registered");
+    expect(getChannelAdapter("alpha")).not.toBeNull();
+    expect(getChannelAdapter("nope")).toBeNull();
+  });
+});
+
+// ── Consumers ───────────────────────────────────────────────
+
+describe("adapter channels in notifications and delivery", () => {
+  const ctx = { bot: { api: { sendMessage: async () => ({ message_id: 1 }) } }, telegramUserId: "1" } as unknown as NotifyContext;
+
+  test("urgent notifications reach a started adapter, formatted for it", async () => {
+    const { adapter, sends } = fakeAdapter("mattermost");
+    registerChannelAdapter(adapter);
+    await notify(ctx, { event: "incident_raised", workItemId: "ELLIE-1", telegramMessage: "short", gchatMessage: "incident detail" });
+    expect(sends).toEqual([]); // registered but not started
+
+    await startChannelAdapters(startCtx);
+    await notify(ctx, { event: "incident_raised", workItemId: "ELLIE-1", telegramMessage: "short", gchatMessage: "incident detail" });
+    await notify(ctx, { event: "session_update", workItemId: "ELLIE-1", telegramMessage: "progress" });
+    expect(sends).toEqual([{ target: { conversationId: "mattermost-room" }, message: { text: "[incident detail]" } }]);
+  });
+
+  test("deliverMessage sends through an adapter channel", async () => {
+    const { adapter, sends } = fakeAdapter("mattermost");
+    registerChannelAdapter(adapter);
+    const result = await deliverMessage(null, "hello", { channel: "mattermost", target: { conversationId: "town-square" }, maxRetries: 1 });
+    expect(result).toMatchObject({ status: "sent", channel: "mattermost", externalId: "mattermost-1", attempts: 1 });
+    expect(sends[0]).toEqual({ target: { conversationId: "town-square" }, message: { text: "[hello]" } });
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Claim Scrubber Tests
+ *
+ * - Code patterns and age calculation
+ * - Each edit kind: procedure pairs, modifiers, medical necessity, age, sex,
+ *   timely filing, prior auth
+ * - Rule selection: effective-date versions, payer/state overrides, disabling
+ * - Rule validation and storage
+ * - Context from the payer registry and state rules
+ * - Lifecycle: error findings block submission
+ * - API routes
+ */
+
+import { describe, test, expect } from "bun:test";
+import type { ServerResponse } from "node:http";
+import {
+  codeMatches,
+  ageOn,
+  scrubClaim,
+  selectRules,
+  validateScrubRule,
+  loadScrubContext,
+  listScrubRules,
+  createScrubRuleVersion,
+  DEFAULT_SCRUB_RULES,
+  type ScrubContext,
+  type ScrubContextDeps,
+  type ScrubRule,
+} from "../src/claim-scrubber.ts";
+import { buildClaim, type CheckPriorAuthFn, type ClaimDocument, type EncounterInput, type ProcedureCode } from "../src/claim-submission.ts";
+import { runBillingLifecycle } from "../src/billing-lifecycle.ts";
+import { createClearinghouseSimulator } from "../src/connectors/clearinghouse-simulator.ts";
+import { sampleEncounter } from "../src/billing-test-utils.ts";
+import { routes } from "../src/api/claim-scrubber.ts";
+import type { RouteContext } from "../src/route-table.ts";
+
+const noAuth: CheckPriorAuthFn = async () => ({ requires_prior_auth: false, auth_phone: null, notes: null });
+
+const CONTEXT: ScrubContext = {
+  payer_type: "commercial", state_code: null, timely_filing_days: 365, timely_filing_source: "payer_specific", today: "2026-03-20",
+};
+
+const proc = (cpt_code: string, modifiers: string[] = []): ProcedureCode =>
+  ({ cpt_code, description: "", modifiers, units: 1, charge_cents: 5000 });
+
+async function claimWith(overrides: Partial<EncounterInput> = {}, auth = noAuth): Promise<ClaimDocument> {
+  const { claim, errors } = await buildClaim({ ...sampleEncounter(), ...overrides }, { checkPriorAuth: auth });
+  if (!claim) throw new Error(errors.join("; "));
+  return claim;
+}
+
+function scrub(claim: ClaimDocument, context: Partial<ScrubContext> = {}, rules = DEFAULT_SCRUB_RULES) {
+  const ctx = { ...CONTEXT, ...context };
+  const selected = selectRules(rules, {
+    payer_id: claim.insurance.payer_id, payer_type: ctx.payer_type, state_code: ctx.state_code, date_of_service: claim.encounter_date,
+  });
+  return scrubClaim(claim, selected, ctx);
+}
+
+const keys = (result: ReturnType<typeof scrub>) => result.findings.map(f => f.rule_key);
+
+// ── Helpers ─────────────────────────────────────────────────
+
+describe("codeMatches", () => {
+  test("exact, range and prefix patterns", () => {
+    expect(codeMatches("99213", "99213")).toBe(true);
+    expect(codeMatches("99213", "99202-99215")).toBe(true);
+    expect(codeMatches("99216", "99202-99215")).toBe(false);
+    expect(codeMatches("992131", "99202-99215")).toBe(false);
+    expect(codeMatches("O09.90", "O*")).toBe(true);
+    expect(codeMatches("e11.9", "E11*")).toBe(true);
+  });
+});
+
+describe("ageOn", () => {
+  test("counts whole years, birthday inclusive", () => {
+    expect(ageOn("2008-03-15", "2026-03-14")).toBe(17);
+    expect(ageOn("2008-03-15", "2026-03-15")).toBe(18);
+  });
+});
+
+// ── Edits ───────────────────────────────────────────────────
+
+describe("scrubClaim", () => {
+  test("a clean claim passes with no findings", async () => {
+    const result = scrub(await claimWith());
+    expect(result.passed).toBe(true);
+    expect(result.findings).toEqual([]);
+    expect(result.rules_applied).toBe(DEFAULT_SCRUB_RULES.length);
+  });
+
+  test("NCCI pair with modifier indicator 1 is bypassed by 59 / X{EPSU}", async () => {
+    const bundled = scrub(await claimWith({ procedures: [proc("99213"), proc("36415")] }));
+    expect(bundled.passed).toBe(false);
+    expect(bundled.findings[0]).toMatchObject({
+      rule_key: "ncci:em:36415", severity: "error", line_number: 2,
+      message: "36415 is bundled into 99213 on the same date of service",
+    });
+    expect(bundled.findings[0].suggested_fix).toContain("59/XE/XS/XP/XU");
+
+    const distinct = scrub(await claimWith({ procedures: [proc("99213"), proc("36415", ["XS"])] }));
+    expect(keys(distinct)).not.toContain("ncci:em:36415");
+  });
+
+  test("NCCI pair with modifier indicator 0 ignores modifiers", async () => {
+    const result = scrub(await claimWith({ procedures: [proc("20611"), proc("20610", ["59"])] }));
+    expect(result.findings[0].suggested_fix).toBe("Remove 20610; this pair can never be billed together");
+  });
+
+  test("E/M with a minor procedure needs modifier 25", async () => {
+    const missing = scrub(await claimWith({ procedures: [proc("99213"), proc("11102")] }));
+    expect(missing.findings).toEqual([expect.objectContaining({
+      rule_key: "modifier:em-with-minor-procedure", line_number: 1, suggested_fix: "Append modifier 25 to line 1",
+    })]);
+    expect(scrub(await claimWith({ procedures: [proc("99213", ["25"]), proc("11102")] })).passed).toBe(true);
+    expect(scrub(await claimWith({ procedures: [proc("99213")] })).passed).toBe(true);
+  });
+
+  test("medical necessity checks the line's linked diagnoses", async () => {
+    const unsupported = scrub(await claimWith({ procedures: [proc("83036")] }));
+    expect(unsupported.passed).toBe(true);
+    expect(unsupported.findings[0]).toMatchObject({ rule_key: "necessity:a1c", severity: "warning" });
+    expect(unsupported.findings[0].message).toContain("(J06.9, R05.9)");
+
+    const supported = scrub(await claimWith({
+      procedures: [proc("83036")],
+      diagnoses: [{ code: "E11.9", description: "Type 2 diabetes", is_primary: true }],
+    }));
+    expect(supported.findings).toEqual([]);
+  });
+
+  test("age edits use the date of service", async () => {
+    const adultPediatric = scrub(await claimWith({ procedures: [proc("99393")] }));
+    expect(adultPediatric.findings[0].message).toBe("99393 is for ages up to 17; patient is 40");
+
+    const child = { ...sampleEncounter().patient, dob: "2015-01-01" };
+    expect(scrub(await claimWith({ patient: child, procedures: [proc("99393")] })).passed).toBe(true);
+    expect(scrub(await claimWith({ patient: child, procedures: [proc("99396")] })).findings[0].rule_key).toBe("age:preventive-adult");
+  });
+
+  test("sex edits cover diagnoses and procedures; unknown sex is not edited", async () => {
+    const male = { ...sampleEncounter().patient, gender: "male" };
+    const pregnancy = [{ code: "Z34.90", description: "Supervision of normal pregnancy", is_primary: true }];
+    const result = scrub(await claimWith({ patient: male, diagnoses: pregnancy }));
+    expect(result.findings).toEqual([expect.objectContaining({ rule_key: "sex:pregnancy", line_number: null })]);
+
+    expect(keys(scrub(await claimWith({ procedures: [proc("G0102")] })))).toEqual(["sex:prostate"]);
+    const unknown = { ...sampleEncounter().patient, gender: "unknown" };
+    expect(scrub(await claimWith({ patient: unknown, diagnoses: pregnancy })).findings).toEqual([]);
+  });
+
+  test("timely filing: expired is an error, close is a warning", async () => {
+    const claim = await claimWith();
+    expect(scrub(claim, { today: "2027-03-15" }).findings[0]).toMatchObject({
+      rule_key: "timely-filing", severity: "error", message: "Timely filing deadline 2027-03-15 has passed (payer specific)",
+    });
+    const close = scrub(claim, { today: "2027-03-01" });
+    expect(close.passed).toBe(true);
+    expect(close.findings[0]).toMatchObject({ severity: "warning", message: "Timely filing deadline 2027-03-15 is 14 days away (payer specific)" });
+  });
+
+  test("prior auth flags become findings with the auth phone", async () => {
+    const claim = await claimWith({}, async () => ({ requires_prior_auth: true, auth_phone: "800-555-0100", notes: null }));
+    expect(scrub(claim).findings).toEqual([{
+      rule_key: "prior-auth", kind: "prior_auth", severity: "warning", line_number: 1,
+      message: "99213 requires prior authorization from aetna",
+      suggested_fix: "Obtain authorization (800-555-0100) and add the authorization number to the claim",
+      rule_version: "2020-01-01",
+    }]);
+  });
+
+  test("errors sort before warnings; a rule's suggested_fix overrides the default", async () => {
+    const rules = DEFAULT_SCRUB_RULES.map(r => (r.rule_key === "ncci:em:36415" ? { ...r, suggested_fix: "Ask coding" } : r));
+    const result = scrub(await claimWith({ procedures: [proc("83036"), proc("99213"), proc("36415")] }), {}, rules);
+    expect(result.findings.map(f => [f.severity, f.suggested_fix === "Ask coding"])).toEqual([["error", true], ["warning", false]]);
+  });
+});
+
+// ── Selection ───────────────────────────────────────────────
+
+describe("selectRules", () => {
+  const base = DEFAULT_SCRUB_RULES.find(r => r.rule_key === "ncci:em:36415")!;
+  const target = { payer_id: "aetna", payer_type: "commercial" as const, state_code: "TX", date_of_service: "2026-03-15" };
+
+  test("picks the latest version in effect on the date of service", () => {
+    const v2 = { ...base, severity: "warning" as const, effective_date: "2026-01-01" };
+    const v3 = { ...base, severity: "info" as const, effective_date: "2026-07-01" };
+    expect(selectRules([base, v2, v3], target)[0].severity).toBe("warning");
+    expect(selectRules([base, v2, v3], { ...target, date_of_service: "2026-08-01" })[0].severity).toBe("info");
+    expect(selectRules([{ ...base, expiration_date: "2026-01-01" }], target)).toEqual([]);
+  });
+
+  test("payer beats payer type beats state beats global", () => {
+    const state = { ...base, state_code: "TX", description: "state" };
+    const type = { ...base, payer_type: "commercial" as const, description: "type" };
+    const payer = { ...base, payer_id: "aetna", description: "payer" };
+    expect(selectRules([base, state], target)[0].description).toBe("state");
+    expect(selectRules([base, state, type], target)[0].description).toBe("type");
+    expect(selectRules([payer, base, state, type], target)[0].description).toBe("payer");
+    expect(selectRules([base, { ...payer, payer_id: "cigna" }], target)[0].description).toBe(base.description);
+  });
+
+  test("a disabled payer override switches the edit off for that payer only", () => {
+    const off = { ...base, payer_id: "aetna", enabled: false, effective_date: "2026-01-01" };
+    expect(selectRules([base, off], target)).toEqual([]);
+    expect(selectRules([base, off], { ...target, payer_id: "cigna" })).toEqual([base]);
+  });
+});
+
+// ── Validation and Storage ──────────────────────────────────
+
+describe("validateScrubRule", () => {
+  test("default rules are valid", () => {
+    for (const rule of DEFAULT_SCRUB_RULES) expect(validateScrubRule(rule)).toEqual([]);
+  });
+
+  test("reports kind-specific param errors", () => {
+    const rule: ScrubRule = {
+      rule_key: "x", kind: "age", description: "d", severity: "error", params: { code_type: "procedure", codes: [] },
+      effective_date: "2026-01-01", expiration_date: "2025-01-01", state_code: "Texas", enabled: true,
+    };
+    expect(validateScrubRule(rule)).toEqual([
+      "expiration_date must be YYYY-MM-DD after effective_date",
+      "state_code must be a two-letter code",
+      "params.codes is required",
+      "params.min_years or params.max_years is required",
+    ]);
+    expect(validateScrubRule({ ...rule, kind: "bogus" as never, params: {}, expiration_date: null, state_code: null }))
+      .toEqual(["kind must be one of procedure_pair, modifier_required, diagnosis_link, age, sex, timely_filing, prior_auth"]);
+  });
+});
+
+function makeMockSupabase(rows: ScrubRule[] = []) {
+  const inserted: unknown[] = [];
+  const filters: [string, unknown][] = [];
+  const supabase: any = {
+    from: () => {
+      const query: any = {
+        select: () => query,
+        eq: (col: string, val: unknown) => { filters.push([col, val]); return query; },
+        order: async () => ({ data: rows.filter(r => filters.every(([c, v]) => (r as any)[c] === v)), error: null }),
+        insert: (row: unknown) => {
+          inserted.push(row);
+          return { select: () => ({ single: async () => ({ data: { id: "rule-1", ...(row as object) }, error: null }) }) };
+        },
+      };
+      return query;
+    },
+    _inserted: inserted,
+  };
+  return supabase;
+}
+
+describe("storage", () => {
+  test("listScrubRules filters by rule_key", async () => {
+    const a = { ...DEFAULT_SCRUB_RULES[0], effective_date: "2026-01-01" };
+    const supabase = makeMockSupabase([a, DEFAULT_SCRUB_RULES[1]]);
+    expect(await listScrubRules(supabase, { rule_key: a.rule_key })).toEqual([a]);
+  });
+
+  test("createScrubRuleVersion fills nullable columns", async () => {
+    const supabase = makeMockSupabase();
+    const stored = await createScrubRuleVersion(supabase, { ...DEFAULT_SCRUB_RULES[0], payer_id: "aetna" });
+    expect(stored.id).toBe("rule-1");
+    expect(supabase._inserted[0]).toMatchObject({ payer_id: "aetna", payer_type: null, state_code: null, expiration_date: null, suggested_fix: null });
+  });
+});
+
+// ── Context ─────────────────────────────────────────────────
+
+describe("loadScrubContext", () => {
+  const stateRule = (payer_type: string | null, value_days: number) => ({
+    id: "r", created_at: new Date(), updated_at: new Date(), state_code: "TX", rule_type: "timely_filing" as const,
+    payer_type: payer_type as never, description: "", value_days, value_cents: null, value_text: null,
+    effective_date: null, expiration_date: null, source_reference: null, company_id: null, metadata: {},
+  });
+
+  function deps(payerDays: number | null): ScrubContextDeps {
+    return {
+      getPayer: async id => ({ id, type: "medicaid" } as never),
+      getTimelyFiling: async id => ({
+        payer_id: id, payer_name: "Aetna", timely_filing_days: payerDays ?? 365, source: payerDays ? "payer_specific" : "general_default",
+      }),
+      getStateRules: async () => [stateRule("commercial", 180), stateRule("medicaid", 95)],
+    };
+  }
+
+  test("the payer's own window wins", async () => {
+    const ctx = await loadScrubContext(await claimWith(), deps(90), { state_code: "TX", today: "2026-04-01" });
+    expect(ctx).toEqual({
+      payer_type: "medicaid", state_code: "TX", timely_filing_days: 90, timely_filing_source: "payer_specific", today: "2026-04-01",
+    });
+  });
+
+  test("falls back to the state rule for the payer type, then the default", async () => {
+    const claim = await claimWith();
+    expect(await loadScrubContext(claim, deps(null), { state_code: "TX" })).toMatchObject({ timely_filing_days: 95, timely_filing_source: "state_rule" });
+    expect(await loadScrubContext(claim, deps(null))).toMatchObject({ timely_filing_days: 365, timely_filing_source: "general_default" });
+  });
+});
+
+// ── Lifecycle ───────────────────────────────────────────────
+
+describe("runBillingLifecycle with scrub", () => {
+  test("error findings block submission; claims with only warnings still go through", async () => {
+    const sim = createClearinghouseSimulator({ start: "2026-04-01" });
+    const bad = { ...sampleEncounter(), encounter_id: "enc-bad", procedures: [proc("99213"), proc("36415")] };
+    const ok = { ...sampleEncounter(), encounter_id: "enc-ok", procedures: [proc("83036")] };
+    const result = await runBillingLifecycle([bad, ok] as EncounterInput[], sim, { scrub: { rules: DEFAULT_SCRUB_RULES, context: { payer_type: "commercial" } } });
+
+    expect(result.claims[0].status).toBeNull();
+    expect(result.claims[0].errors).toEqual(["ncci:em:36415: 36415 is bundled into 99213 on the same date of service"]);
+    expect(result.claims[0].submission?.status).toBe("failed");
+    expect(result.claims[1].status).toBe("paid");
+    expect(sim.claims()).toHaveLength(1);
+  });
+});
+
+// ── API ─────────────────────────────────────────────────────
+
+describe("scrub routes", () => {
+  const route = (method: string, path: string) => routes.find(r => r.method === method && r.path === path)!;
+
+  async function call(method: string, path: string, opts: { body?: unknown; query?: Record<string, string>; params?: Record<string, string>; supabase?: any } = {}) {
+    let status = 0;
+    let body = "";
+    const res = { writeHead(s: number) { status = s; }, end(data: string) { body = data; } } as unknown as ServerResponse;
+    await route(method, path).handler({
+      res, rawBody: JSON.stringify(opts.body ?? {}), query: opts.query ?? {}, params: opts.params ?? {},
+      deps: { supabase: opts.supabase ?? null },
+    } as unknown as RouteContext);
+    return { status, data: JSON.parse(body) };
+  }
+
+  test("lists the rules in effect, honoring stored overrides", async () => {
+    const off = { ...DEFAULT_SCRUB_RULES[0], payer_id: "aetna", enabled: false, effective_date: "2026-01-01" };
+    const { data } = await call("GET", "/api/billing/scrub-rules", { query: { payer_id: "aetna", as_of: "2026-03-01" }, supabase: makeMockSupabase([off]) });
+    expect(data.rules.map((r: ScrubRule) => r.rule_key)).not.toContain(off.rule_key);
+    expect(data.rules).toHaveLength(DEFAULT_SCRUB_RULES.length - 1);
+  });
+
+  test("version history includes the seed", async () => {
+    const v2 = { ...DEFAULT_SCRUB_RULES[0], effective_date: "2026-01-01" };
+    const { data } = await call("GET", "/api/billing/scrub-rules/:rule_key/versions", {
+      params: { rule_key: encodeURIComponent(v2.rule_key) }, supabase: makeMockSupabase([v2]),
+    });
+    expect(data.versions.map((r: ScrubRule) => r.effective_date)).toEqual(["2020-01-01", "2026-01-01"]);
+  });
+
+  test("creating a version validates and stores", async () => {
+    const invalid = await call("POST", "/api/billing/scrub-rules", { body: { ...DEFAULT_SCRUB_RULES[0], params: {} }, supabase: makeMockSupabase() });
+    expect(invalid.status).toBe(400);
+
+    const supabase = makeMockSupabase();
+    const created = await call("POST", "/api/billing/scrub-rules", { body: { ...DEFAULT_SCRUB_RULES[0], effective_date: "2026-10-01" }, supabase });
+    expect(created.status).toBe(201);
+    expect(supabase._inserted).toHaveLength(1);
+    expect((await call("POST", "/api/billing/scrub-rules", { body: DEFAULT_SCRUB_RULES[0] })).status).toBe(503);
+  });
+
+  test("scrubs a claim with context overrides", async () => {
+    const claim = await claimWith({ procedures: [proc("99213"), proc("36415")] });
+    const { status, data } = await call("POST", "/api/billing/scrub", { body: { claim, context: { payer_type: "commercial", timely_filing_days: 365, today: "2026-03-20" } } });
+    expect(status).toBe(200);
+    expect(data.passed).toBe(false);
+    expect(data.findings.map((f: { rule_key: string }) => f.rule_key)).toEqual(["ncci:em:36415"]);
+  });
+});
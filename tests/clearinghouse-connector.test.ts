@@ -25,6 +25,7 @@ import {
   type EligibilityRequest,
   type RetryConfig,
 } from "../src/connectors/clearinghouse.ts";
+import { parseX12, createControlNumberAllocator } from "../src/x12.ts";
 
 // ── Constants ───────────────────────────────────────────────
 
@@ -231,6 +232,14 @@ describe("buildEligibilityRequest270", () => {
   test("uses custom service type when provided", () => {
     expect(buildEligibilityRequest270({ ...req, service_type_code: "47" })).toContain("EQ*47");
   });
+
+  test("envelope has computed counts and allocated control numbers", () => {
+    const controlNumbers = createControlNumberAllocator({ interchange: 9, group: 9 });
+    const edi = buildEligibilityRequest270(req, { controlNumbers });
+    expect(edi).toContain("SE*12*0001~");
+    expect(edi).toContain("IEA*1*000000010~");
+    expect(parseX12(edi).issues).toEqual([]);
+  });
 });
 
 // ── Eligibility 271 Parser ──────────────────────────────────
@@ -294,6 +303,7 @@ describe("parseClaimStatus277", () => {
 
   test("parses denied status", () => {
     expect(parseClaimStatus277("TRN*1*CLM-004~STC*D0:denied~")[0].status).toBe("denied");
+    expect(parseClaimStatus277("TRN*2*CLM-005~STC*F2:65*20260415*Denied~")[0].status).toBe("denied");
   });
 
   test("handles multiple claims", () => {
@@ -0,0 +1,240 @@
+/**
+ * Clearinghouse Simulator Tests
+ *
+ * - 837P intake: 999 accepted / rejected, unsupported formats
+ * - Scripted adjudication over simulated days (277 statuses)
+ * - Denials with CARC/RARC codes in the 835
+ * - Appeals: upheld and overturned
+ * - 835 batching and validity
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createClearinghouseSimulator,
+  paymentLine,
+  denialLine,
+  type ClaimScenario,
+} from "../src/connectors/clearinghouse-simulator.ts";
+import { parseClaimStatus277 } from "../src/connectors/clearinghouse.ts";
+import { parseAcknowledgements } from "../src/x12-ack.ts";
+import { parseEDI835, parseEDI837P, validateEDI835 } from "../src/payer-integration.ts";
+
+const fixture = (name: string) => readFileSync(join(import.meta.dir, "fixtures/x12", name), "utf-8");
+const claim837 = fixture("837p-claim.edi");
+const [parsedClaim] = parseEDI837P(claim837).claims;
+
+async function submitted(scenario: ClaimScenario = {}) {
+  const sim = createClearinghouseSimulator({ scenario, start: "2026-04-01" });
+  const response = await sim.submitClaim(claim837, "x12_837p");
+  return { sim, tracking: response.tracking_number!, response };
+}
+
+// ── Intake ──────────────────────────────────────────────────
+
+describe("submitClaim", () => {
+  test("accepts a valid 837P with a 999 and a tracking number", async () => {
+    const { response } = await submitted();
+    expect(response.success).toBe(true);
+    expect(response.acknowledgement_code).toBe("A");
+    expect(response.tracking_number).toBe("SIM00000001");
+
+    const ack = parseAcknowledgements(response.raw_response!);
+    expect(ack.issues).toEqual([]);
+    expect(ack.acks[0].group_control_number).toBe("42");
+    expect(ack.acks[0].transactions[0].accepted).toBe(true);
+    expect(ack.acks[0].group_status).toBe("A");
+  });
+
+  test("the 999 goes back to the 837's sender", async () => {
+    const { response } = await submitted();
+    const { interchange_control_number } = parseAcknowledgements(response.raw_response!);
+    expect(interchange_control_number).toBe("000000001");
+    expect(response.raw_response).toContain("*ZZ*AVAILITY       *ZZ*ELLIEBILLING   *");
+  });
+
+  test("rejects an invalid 837P with segment errors in the 999", async () => {
+    const sim = createClearinghouseSimulator();
+    const response = await sim.submitClaim(fixture("837p-invalid.edi"), "x12_837p");
+    expect(response.success).toBe(false);
+    expect(response.acknowledgement_code).toBe("R");
+    expect(response.errors.length).toBeGreaterThan(0);
+    expect(response.errors.every(e => e.category === "rejection" && !e.retryable)).toBe(true);
+
+    const [tx] = parseAcknowledgements(response.raw_response!).acks[0].transactions;
+    expect(tx.status).toBe("R");
+    expect(tx.errors.length).toBeGreaterThan(0);
+    expect(sim.claims()).toHaveLength(0);
+  });
+
+  test("rejects payloads that are not X12 837P", async () => {
+    const sim = createClearinghouseSimulator();
+    const json = await sim.submitClaim("{}", "json");
+    expect(json.success).toBe(false);
+    expect(json.errors[0].code).toBe("FORMAT");
+
+    const garbage = await sim.submitClaim("not edi", "x12_837p");
+    expect(garbage.success).toBe(false);
+    expect(garbage.errors[0].code).toBe("MISSING_ISA");
+  });
+});
+
+// ── Timeline ────────────────────────────────────────────────
+
+describe("scripted adjudication", () => {
+  test("nothing happens until the clock advances", async () => {
+    const { sim, tracking } = await submitted();
+    const status = await sim.checkStatus(tracking);
+    expect(status.status).toBe("accepted");
+    expect(status.status_code).toBe("A1");
+    expect(status.claim_id).toBe("CLM-TEST001");
+    expect(sim.collectRemittances()).toEqual([]);
+  });
+
+  test("received → adjudication → paid on the scripted days", async () => {
+    const { sim, tracking } = await submitted({ adjudication_after_days: 2, decision_after_days: 10 });
+    expect(sim.advance(2).map(s => s.category)).toEqual(["P1"]);
+    expect((await sim.checkStatus(tracking)).status).toBe("pending");
+
+    expect(sim.advance(7)).toEqual([]);
+    const fired = sim.advance(1);
+    expect(fired).toEqual([{ date: "2026-04-11", category: "F1", code: "65", message: "Claim paid" }]);
+
+    const status = await sim.checkStatus(tracking);
+    expect(status.status).toBe("paid");
+    expect(status.effective_date).toBe("20260411");
+  });
+
+  test("a long jump fires every due event in order", async () => {
+    const { sim } = await submitted();
+    expect(sim.advance(30).map(s => s.category)).toEqual(["P1", "F1"]);
+    expect(sim.today()).toBe("2026-05-01");
+  });
+
+  test("payment is remitted once, with contractual and patient adjustments", async () => {
+    const { sim } = await submitted({ payment: { allowed_ratio: 0.6, patient_responsibility_cents: 2500 } });
+    sim.advance(14);
+    const [edi, ...rest] = sim.collectRemittances();
+    expect(rest).toEqual([]);
+    expect(validateEDI835(edi).valid).toBe(true);
+
+    const [line] = parseEDI835(edi);
+    expect(line.claim_id).toBe("CLM-TEST001");
+    expect(line.allowed_cents).toBe(Math.round(parsedClaim.total_charge_cents * 0.6));
+    expect(line.patient_responsibility_cents).toBe(2500);
+    expect(line.paid_cents).toBe(line.allowed_cents - 2500);
+    expect(sim.collectRemittances()).toEqual([]);
+  });
+
+  test("unknown tracking numbers report unknown", async () => {
+    const sim = createClearinghouseSimulator();
+    const status = await sim.checkStatus("NOPE");
+    expect(status.status).toBe("unknown");
+    expect(status.claim_id).toBeNull();
+  });
+});
+
+// ── Denials and Appeals ─────────────────────────────────────
+
+describe("denials", () => {
+  const denial: ClaimScenario = { denial: { carc: "50", rarc: ["N115", "M127"] } };
+
+  test("277 reports F2 with the CARC description", async () => {
+    const { sim, tracking } = await submitted(denial);
+    sim.advance(14);
+    const status = await sim.checkStatus(tracking);
+    expect(status.status).toBe("denied");
+    expect(status.status_message).toBe("Not deemed a medical necessity by the payer");
+  });
+
+  test("835 carries the CARC adjustment and RARC remarks", async () => {
+    const { sim } = await submitted(denial);
+    sim.advance(14);
+    const [line] = parseEDI835(sim.collectRemittances()[0]);
+    expect(line.paid_cents).toBe(0);
+    expect(line.adjustments).toEqual([{ group_code: "CO", reason_code: "50", amount_cents: parsedClaim.total_charge_cents }]);
+    expect(line.remark_codes).toEqual(["N115", "M127"]);
+  });
+
+  test("a PR denial makes the patient responsible", () => {
+    const line = denialLine(parsedClaim, { group_code: "PR", carc: "96" });
+    expect(line.patient_responsibility_cents).toBe(parsedClaim.total_charge_cents);
+    expect(line.remark_codes).toBeUndefined();
+  });
+});
+
+describe("fileAppeal", () => {
+  test("only a denied claim can be appealed", async () => {
+    const { sim, tracking } = await submitted();
+    expect(sim.fileAppeal(tracking)).toEqual({ accepted: false, error: "Only a denied claim can be appealed" });
+    expect(sim.fileAppeal("NOPE").accepted).toBe(false);
+  });
+
+  test("upheld by default after 30 days, with no further remittance", async () => {
+    const { sim, tracking } = await submitted({ denial: { carc: "197" } });
+    sim.advance(14);
+    sim.collectRemittances();
+    expect(sim.fileAppeal(tracking).accepted).toBe(true);
+    expect((await sim.checkStatus(tracking)).status).toBe("pending");
+
+    sim.advance(30);
+    const status = await sim.checkStatus(tracking);
+    expect(status.status).toBe("denied");
+    expect(status.status_message).toContain("upheld on appeal");
+    expect(sim.collectRemittances()).toEqual([]);
+    expect(sim.claims()[0].appeals_filed).toBe(1);
+  });
+
+  test("an overturned appeal pays the claim", async () => {
+    const { sim, tracking } = await submitted({ denial: { carc: "50" }, appeal: { overturn: true, decided_after_days: 20 } });
+    sim.advance(14);
+    sim.collectRemittances();
+    sim.fileAppeal(tracking);
+    sim.advance(20);
+    expect((await sim.checkStatus(tracking)).status).toBe("paid");
+    const [line] = parseEDI835(sim.collectRemittances()[0]);
+    expect(line.paid_cents).toBe(paymentLine(parsedClaim).paid_cents);
+  });
+});
+
+// ── Reports ─────────────────────────────────────────────────
+
+describe("statusReport and collectRemittances", () => {
+  test("277 covers every claim with its latest status", async () => {
+    const sim = createClearinghouseSimulator({ scenario: c => (c.claim_id === "CLM-TEST001" ? {} : { denial: { carc: "16" } }) });
+    await sim.submitClaim(claim837, "x12_837p");
+    await sim.submitClaim(claim837.replace(/CLM\*CLM-TEST001/, "CLM*CLM-TEST009"), "x12_837p");
+    sim.advance(14);
+
+    const statuses = parseClaimStatus277(sim.statusReport());
+    expect(statuses.map(s => [s.claim_id, s.status])).toEqual([["CLM-TEST001", "paid"], ["CLM-TEST009", "denied"]]);
+    expect(sim.findClaim("CLM-TEST009")?.tracking_number).toBe("SIM00000002");
+  });
+
+  test("one 835 per payer and payee", async () => {
+    const sim = createClearinghouseSimulator();
+    await sim.submitClaim(claim837, "x12_837p");
+    await sim.submitClaim(claim837.replace(/CLM\*CLM-TEST001/, "CLM*CLM-TEST009"), "x12_837p");
+    sim.advance(14);
+    const remits = sim.collectRemittances();
+    expect(remits).toHaveLength(1);
+    expect(parseEDI835(remits[0]).map(l => l.claim_id)).toEqual(["CLM-TEST001", "CLM-TEST009"]);
+  });
+
+  test("eligibility defaults to active and can be scripted", async () => {
+    const request = {
+      payer_id: "60054", subscriber_id: "S1", member_id: "M1",
+      patient_first_name: "Jane", patient_last_name: "Doe", patient_dob: "1985-06-15",
+    };
+    expect((await createClearinghouseSimulator().checkEligibility(request)).coverage_status).toBe("active");
+
+    const inactive = createClearinghouseSimulator({
+      eligibility: () => ({
+        eligible: false, payer_name: null, plan_name: null, coverage_status: "inactive", copay_cents: null,
+        deductible_cents: null, deductible_remaining_cents: null, coinsurance_percent: null, prior_auth_required: null, errors: [],
+      }),
+    });
+    expect((await inactive.checkEligibility(request)).eligible).toBe(false);
+  });
+});
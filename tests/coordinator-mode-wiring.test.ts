@@ -189,10 +189,14 @@ mock.module("../src/data-quality.ts", () => ({
   logVerificationTrail: mock(() => Promise.resolve()),
 }));
 
+const noopSpan = { setAttribute: () => {}, setAttributes: () => {}, end: () => {} };
 mock.module("../src/trace.ts", () => ({
   withTrace: mock((fn: () => any) => fn()),
   getTraceId: mock(() => "test-trace"),
   generateTraceId: mock(() => "test-trace"),
+  getSpanId: mock(() => null),
+  startSpan: mock(() => noopSpan),
+  withSpan: mock((_name: string, fn: (span: typeof noopSpan) => any) => fn(noopSpan)),
 }));
 
 mock.module("../src/notification-policy.ts", () => ({
@@ -1,5 +1,6 @@
 import { describe, test, expect } from "bun:test";
 import { runCoordinatorLoop, type CoordinatorDeps, type CoordinatorOpts, type SpecialistResult } from "../src/coordinator";
+import { onSpanEnd, type SpanRecord } from "../src/trace";
 
 /**
  * Helper: build a minimal CoordinatorDeps with stubs.
@@ -364,4 +365,22 @@ describe("runCoordinatorLoop", () => {
       "I processed your request but the response was empty. Please try again."
     );
   });
+
+  test("loop and iteration spans end as failed when the loop throws", async () => {
+    const ended: SpanRecord[] = [];
+    const unsubscribe = onSpanEnd(span => ended.push(span));
+    try {
+      await expect(runCoordinatorLoop({
+        ...BASE_OPTS,
+        deps: stubDeps(),
+        // No usage block — token accounting throws inside the loop
+        _apiCallFn: async () => ({ stop_reason: "end_turn", content: [] }) as never,
+      })).rejects.toThrow();
+    } finally {
+      unsubscribe();
+    }
+    const names = ended.map(s => `${s.name}:${s.status}`);
+    expect(names).toContain("coordinator.iteration:error");
+    expect(names).toContain("coordinator.loop:error");
+  });
 });
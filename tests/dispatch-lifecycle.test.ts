@@ -161,10 +161,14 @@ mock.module("../src/tool-approval.ts", () => ({
   exitDispatchMode: mock(() => {}),
 }));
 
+const noopSpan = { setAttribute: () => {}, setAttributes: () => {}, end: () => {} };
 mock.module("../src/trace.ts", () => ({
   withTrace: mock(async (fn: () => Promise<any>) => fn()),
   getTraceId: mock(() => "trace-test-id"),
   generateTraceId: mock(() => "generated-trace-id"),
+  getSpanId: mock(() => null),
+  startSpan: mock(() => noopSpan),
+  withSpan: mock((_name: string, fn: (span: typeof noopSpan) => any) => fn(noopSpan)),
 }));
 
 // ── Import after mocks ────────────────────────────────────────
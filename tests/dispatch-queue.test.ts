@@ -2,10 +2,11 @@
  * ELLIE-511 — Tests for dispatch-queue.ts
  *
  * Covers: enqueue, drainNext, cancelQueued, cancelAllForWorkItem,
- * getQueueStatus, getQueueDepth
+ * getQueueStatus, getQueueDepth, priority/age ordering, expiry,
+ * reorderQueued, persistence and rehydrateQueue
  *
- * The dispatch queue is an in-memory per-work-item FIFO queue for
- * serialized task execution when an agent is busy.
+ * The dispatch queue is a per-work-item priority queue for serialized
+ * task execution when an agent is busy.
  */
 
 import { describe, test, expect, beforeEach } from "bun:test";
@@ -16,8 +17,17 @@ import {
   cancelAllForWorkItem,
   getQueueStatus,
   getQueueDepth,
+  expireQueued,
+  reorderQueued,
+  rehydrateQueue,
+  setQueueStore,
+  toEnvelope,
+  DEFAULT_QUEUE_TTL_MS,
+  AGE_PROMOTION_MS,
   type QueuedDispatch,
+  type QueueStore,
 } from "../src/dispatch-queue.ts";
+import type { QueuedDispatchEnvelope } from "../src/dispatch-envelope.ts";
 
 // ── Helpers ──────────────────────────────────────────────────
 
@@ -44,6 +54,7 @@ function makeQueueItem(overrides: Partial<QueuedDispatch> = {}): QueuedDispatch
 // Clean the queue between tests by cancelling everything
 beforeEach(() => {
   idCounter = 0;
+  setQueueStore(null);
   // Drain any leftover items from prior tests
   const status = getQueueStatus();
   for (const item of status.items) {
@@ -248,6 +259,9 @@ describe("getQueueStatus", () => {
       workItemId: "ELLIE-803",
       enqueuedAt: item.enqueuedAt,
       position: 1,
+      priority: "normal",
+      reason: "lock",
+      expiresAt: item.enqueuedAt + DEFAULT_QUEUE_TTL_MS,
     });
   });
 });
@@ -272,3 +286,168 @@ describe("getQueueDepth", () => {
     expect(getQueueDepth("ELLIE-901")).toBe(1);
   });
 });
+
+// ── Priority ordering ────────────────────────────────────────
+
+describe("priority ordering", () => {
+  test("drains higher priority first, oldest first within a priority", () => {
+    const order: string[] = [];
+    const t0 = 1_000_000;
+    const push = (name: string, priority: QueuedDispatch["priority"], offset: number) =>
+      enqueue(makeQueueItem({
+        workItemId: "ELLIE-1000",
+        priority,
+        enqueuedAt: t0 + offset,
+        execute: () => { order.push(name); },
+      }), t0 + offset);
+
+    push("low", "low", 0);
+    push("normal-old", "normal", 1);
+    push("normal-new", "normal", 2);
+    const { position } = push("urgent", "urgent", 3);
+    expect(position).toBe(1);
+
+    for (let i = 0; i < 4; i++) drainNext("ELLIE-1000", t0 + 10);
+    expect(order).toEqual(["urgent", "normal-old", "normal-new", "low"]);
+  });
+
+  test("waiting items age up one level per AGE_PROMOTION_MS, but never past high", () => {
+    const order: string[] = [];
+    const t0 = 1_000_000;
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1001", priority: "low", enqueuedAt: t0, execute: () => { order.push("old-low"); } }), t0);
+    const later = t0 + 2 * AGE_PROMOTION_MS;
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1001", priority: "high", enqueuedAt: later, execute: () => { order.push("high"); } }), later);
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1001", priority: "urgent", enqueuedAt: later, execute: () => { order.push("urgent"); } }), later);
+
+    for (let i = 0; i < 3; i++) drainNext("ELLIE-1001", later);
+    // The low item reached "high" and is older, but urgent still wins
+    expect(order).toEqual(["urgent", "old-low", "high"]);
+  });
+
+  test("a finished run also drains capacity-blocked work from other work items", () => {
+    const order: string[] = [];
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1002", reason: "lock", execute: () => { order.push("lock-elsewhere"); } }));
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1003", reason: "capacity", priority: "high", execute: () => { order.push("capacity"); } }));
+
+    drainNext("ELLIE-1004");
+    expect(order).toEqual(["capacity"]);
+    expect(getQueueDepth("ELLIE-1002")).toBe(1);
+  });
+
+  test("a finished run drains its own queue before capacity-blocked work elsewhere", () => {
+    const order: string[] = [];
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1005", reason: "capacity", priority: "urgent", execute: () => { order.push("capacity"); } }));
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1006", reason: "lock", priority: "low", execute: () => { order.push("own"); } }));
+
+    drainNext("ELLIE-1006");
+    expect(order).toEqual(["own"]);
+    expect(getQueueDepth("ELLIE-1005")).toBe(1);
+
+    drainNext("ELLIE-1006");
+    expect(order).toEqual(["own", "capacity"]);
+  });
+});
+
+// ── Expiry ───────────────────────────────────────────────────
+
+describe("expireQueued", () => {
+  test("drops items past their expiry and never runs them", () => {
+    let executed = false;
+    const t0 = 1_000_000;
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1100", enqueuedAt: t0, expiresAt: t0 + 1000, execute: () => { executed = true; } }), t0);
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1100", enqueuedAt: t0, expiresAt: null }), t0);
+
+    expect(expireQueued(t0 + 1000)).toBe(1);
+    expect(getQueueDepth("ELLIE-1100")).toBe(1);
+    drainNext("ELLIE-1100", t0 + 1000);
+    expect(executed).toBe(false);
+  });
+
+  test("drainNext expires before choosing", () => {
+    const order: string[] = [];
+    const t0 = 1_000_000;
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1101", priority: "urgent", enqueuedAt: t0, expiresAt: t0 + 5, execute: () => { order.push("stale"); } }), t0);
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1101", enqueuedAt: t0, execute: () => { order.push("fresh"); } }), t0);
+
+    drainNext("ELLIE-1101", t0 + 10);
+    expect(order).toEqual(["fresh"]);
+  });
+});
+
+// ── Reorder ──────────────────────────────────────────────────
+
+describe("reorderQueued", () => {
+  test("changing priority moves the item", () => {
+    const t0 = 1_000_000;
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1200", enqueuedAt: t0 }), t0);
+    const last = makeQueueItem({ workItemId: "ELLIE-1200", enqueuedAt: t0 + 1 });
+    enqueue(last, t0 + 1);
+
+    expect(reorderQueued(last.id, { priority: "urgent" }, t0 + 2)).toEqual({ position: 1, priority: "urgent" });
+  });
+
+  test("moving to a position takes that slot's priority", () => {
+    const t0 = 1_000_000;
+    const items = [0, 1, 2].map(i => makeQueueItem({ workItemId: "ELLIE-1201", enqueuedAt: t0 + i, priority: i === 0 ? "high" : "normal" }));
+    items.forEach((item, i) => enqueue(item, t0 + i));
+
+    expect(reorderQueued(items[2].id, { position: 1 }, t0 + 3)).toEqual({ position: 1, priority: "high" });
+    expect(reorderQueued(items[2].id, { position: 9 }, t0 + 3)).toEqual({ position: 3, priority: "normal" });
+    const ids = getQueueStatus(t0 + 3).items.filter(i => i.workItemId === "ELLIE-1201").map(i => i.id);
+    expect(ids).toEqual([items[0].id, items[1].id, items[2].id]);
+  });
+
+  test("returns null for an unknown id", () => {
+    expect(reorderQueued("missing", { priority: "high" })).toBeNull();
+  });
+});
+
+// ── Persistence ──────────────────────────────────────────────
+
+function memoryStore(): QueueStore & { rows: Map<string, QueuedDispatchEnvelope> } {
+  const rows = new Map<string, QueuedDispatchEnvelope>();
+  return {
+    rows,
+    async save(e) { rows.set(e.id, e); },
+    async remove(id) { rows.delete(id); },
+    async loadAll() { return [...rows.values()]; },
+  };
+}
+
+describe("persistence", () => {
+  test("only items with a kind are written through, and removed when drained", async () => {
+    const store = memoryStore();
+    setQueueStore(store);
+    const item = makeQueueItem({ workItemId: "ELLIE-1300", kind: "tracked-dispatch", payload: { agentType: "dev" } });
+    enqueue(item);
+    enqueue(makeQueueItem({ workItemId: "ELLIE-1300" }));
+    await Promise.resolve();
+    expect([...store.rows.keys()]).toEqual([item.id]);
+    expect(store.rows.get(item.id)!.payload).toEqual({ agentType: "dev" });
+
+    drainNext("ELLIE-1300");
+    await Promise.resolve();
+    expect(store.rows.size).toBe(0);
+  });
+
+  test("rehydrateQueue restores envelopes through their kind handler", async () => {
+    const store = memoryStore();
+    setQueueStore(store);
+    const t0 = 1_000_000;
+    const kept = makeQueueItem({ workItemId: "ELLIE-1301", kind: "tracked-dispatch", priority: "high", enqueuedAt: t0 });
+    const expired = makeQueueItem({ workItemId: "ELLIE-1301", kind: "tracked-dispatch", enqueuedAt: t0, expiresAt: t0 + 10 });
+    const orphan = makeQueueItem({ workItemId: "ELLIE-1302", kind: "retired-kind", enqueuedAt: t0 });
+    for (const item of [kept, expired, orphan]) store.rows.set(item.id, toEnvelope(item));
+
+    const fired: string[] = [];
+    const result = await rehydrateQueue({ "tracked-dispatch": env => { fired.push(env.id); } }, kept.notifyCtx, t0 + 100);
+    expect(result).toEqual({ restored: 1, dropped: 2, workItemIds: ["ELLIE-1301"] });
+    expect([...store.rows.keys()]).toEqual([kept.id]);
+
+    const status = getQueueStatus(t0 + 100);
+    expect(status.items[0]).toMatchObject({ id: kept.id, priority: "high", enqueuedAt: t0 });
+
+    drainNext("ELLIE-1301", t0 + 100);
+    expect(fired).toEqual([kept.id]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * FHIR Ingestion Tests
+ *
+ * - Reference resolution: relative, urn:uuid, absolute and versioned
+ * - Transaction Bundle → claim-ready EncounterInput
+ * - NDJSON bulk export: parse errors, charges without procedures, unbillable encounters
+ * - PHI sealing round-trip; no plaintext PHI in stored rows
+ * - Import: company-scoped upsert, dry run
+ * - API routes: 400 / 503 guards, summaries without PHI
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { ServerResponse } from "node:http";
+import {
+  indexResources,
+  bundleEntries,
+  buildEncounterInputs,
+  sealEncounterInput,
+  openEncounterInput,
+  importFHIRResources,
+  phiKeyFromEnv,
+  type ResourceEntry,
+} from "../src/fhir-ingest.ts";
+import { parseNDJSON, type FHIRBundle, type FHIRCondition, type FHIREncounter } from "../src/connectors/fhir.ts";
+import { buildClaim } from "../src/claim-submission.ts";
+import { deriveKey } from "../src/hipaa-compliance.ts";
+import { routes } from "../src/api/fhir-ingest.ts";
+import type { RouteContext } from "../src/route-table.ts";
+
+const fixture = (name: string) => readFileSync(join(import.meta.dir, "fixtures/fhir", name), "utf-8");
+const bundle = JSON.parse(fixture("transaction-bundle.json")) as FHIRBundle;
+const ndjson = fixture("bulk-export.ndjson");
+const ndjsonEntries = (): ResourceEntry[] => parseNDJSON(ndjson).resources.map(resource => ({ resource }));
+
+const COMPANY = "6f1c2d3e-4a5b-4c6d-8e7f-901234567890";
+const KEY = deriveKey("test-phi-passphrase");
+
+function makeMockSupabase(error: { message: string } | null = null) {
+  const upserts: { table: string; rows: any[]; options: unknown }[] = [];
+  const supabase: any = {
+    from: (table: string) => ({
+      upsert: async (rows: any[], options: unknown) => {
+        upserts.push({ table, rows, options });
+        return { error };
+      },
+    }),
+    _upserts: upserts,
+  };
+  return supabase;
+}
+
+// ── Reference Resolution ────────────────────────────────────
+
+describe("indexResources", () => {
+  const patient = { resourceType: "Patient", id: "p1" };
+  const index = indexResources([{ fullUrl: "urn:uuid:abc", resource: patient }, { resource: { resourceType: "Encounter" } }]);
+
+  test("resolves relative, urn, absolute and versioned references", () => {
+    expect(index.resolve("Patient/p1")).toBe(patient);
+    expect(index.resolve("urn:uuid:abc")).toBe(patient);
+    expect(index.resolve("https://ehr.example/fhir/Patient/p1")).toBe(patient);
+    expect(index.resolve("Patient/p1/_history/3")).toBe(patient);
+  });
+
+  test("unknown references resolve to null", () => {
+    expect(index.resolve("Patient/p2")).toBeNull();
+    expect(index.resolve(undefined)).toBeNull();
+    expect(index.all).toHaveLength(2);
+  });
+});
+
+describe("bundleEntries", () => {
+  test("accepts transaction and collection bundles only", () => {
+    expect(bundleEntries(bundle).entries).toHaveLength(10);
+    expect(bundleEntries({ ...bundle, type: "collection" }).error).toBeNull();
+    expect(bundleEntries({ ...bundle, type: "searchset" }).error).toBe("unsupported bundle type: searchset");
+  });
+});
+
+describe("parseNDJSON", () => {
+  test("skips blank lines and reports bad ones by line number", () => {
+    const { resources, errors } = parseNDJSON('{"resourceType":"Patient","id":"a"}\n\nnot json\r\n{"id":"b"}\n');
+    expect(resources.map(r => r.id)).toEqual(["a"]);
+    expect(errors).toEqual([{ line: 3, message: "invalid JSON" }, { line: 4, message: "missing resourceType" }]);
+  });
+});
+
+// ── Building ────────────────────────────────────────────────
+
+describe("buildEncounterInputs", () => {
+  test("a transaction bundle becomes a claim-ready encounter", () => {
+    const [result] = buildEncounterInputs(indexResources(bundleEntries(bundle).entries), COMPANY);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual({
+      encounter_id: "enc-100",
+      encounter_date: "2026-03-15",
+      patient: { id: "pat-100", first_name: "Jane", last_name: "Doe", dob: "1985-06-15", gender: "female", member_id: "SUB-100" },
+      insurance: { payer_id: "60054", payer_name: "Aetna", plan_id: "PPO-500", group_number: "GRP-789", subscriber_id: "SUB-100" },
+      diagnoses: [
+        { code: "J06.9", description: "Acute upper respiratory infection", is_primary: true },
+        { code: "R05.9", description: "Cough, unspecified", is_primary: false },
+      ],
+      procedures: [{ cpt_code: "99213", description: "Office visit, low complexity", modifiers: [], units: 1, charge_cents: 15000 }],
+      provider: { npi: "1234567890", name: "Dr. Alex Smith", taxonomy_code: "207Q00000X" },
+      facility: { npi: "9876543210", name: "Main Street Clinic", place_of_service: "11" },
+      company_id: COMPANY,
+    });
+  });
+
+  test("the built encounter feeds buildClaim", async () => {
+    const [{ input }] = buildEncounterInputs(indexResources(bundleEntries(bundle).entries), COMPANY);
+    const { claim, errors } = await buildClaim(input!, { checkPriorAuth: async () => ({ requires_prior_auth: false, auth_phone: null, notes: null }) });
+    expect(errors).toEqual([]);
+    expect(claim?.total_charge_cents).toBe(15000);
+  });
+
+  test("NDJSON: charges without a Procedure become their own lines", () => {
+    const [enc200] = buildEncounterInputs(indexResources(ndjsonEntries()), COMPANY);
+    expect(enc200.input?.procedures.map(p => [p.cpt_code, p.charge_cents])).toEqual([["99214", 21050], ["G2211", 1600]]);
+    expect(enc200.input?.diagnoses).toEqual([{ code: "I10", description: "Essential hypertension", is_primary: true }]);
+    expect(enc200.input?.provider.name).toBe("Dr. Kim Park");
+    expect(enc200.input?.facility).toBeUndefined();
+  });
+
+  test("NDJSON: missing coverage and cancelled encounters are reported, not built", () => {
+    const [, enc300, enc301] = buildEncounterInputs(indexResources(ndjsonEntries()), COMPANY);
+    expect(enc300.input).toBeNull();
+    expect(enc300.errors).toEqual(["no active Coverage for Patient/pat-300"]);
+    expect(enc301.errors).toEqual(["encounter status cancelled is not billable"]);
+  });
+
+  test("missing charges and non-ICD-10 conditions are warnings", () => {
+    const entries = bundleEntries(bundle).entries.filter(e => e.resource.resourceType !== "ChargeItem");
+    entries.push({ resource: { resourceType: "Condition", id: "snomed-only", code: { coding: [{ system: "http://snomed.info/sct", code: "1" }] }, encounter: { reference: "Encounter/enc-100" } } as FHIRCondition });
+    const [result] = buildEncounterInputs(indexResources(entries), COMPANY);
+    expect(result.input?.procedures[0].charge_cents).toBe(0);
+    expect(result.warnings).toEqual([
+      "Condition/snomed-only has no ICD-10 code",
+      "Procedure/proc-1 (99213) has no ChargeItem; charge set to 0",
+    ]);
+  });
+
+  test("claim-submission validation errors are surfaced", () => {
+    const entries = bundleEntries(bundle).entries.filter(e => e.resource.resourceType !== "Condition");
+    const [result] = buildEncounterInputs(indexResources(entries), COMPANY);
+    expect(result.input).toBeNull();
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  test("an unresolved subject is an error", () => {
+    const [result] = buildEncounterInputs(indexResources([{ resource: { resourceType: "Encounter", id: "e", status: "finished", subject: { reference: "Patient/x" } } as FHIREncounter }]), COMPANY);
+    expect(result.errors).toEqual(["encounter period.start is required", "unresolved subject: Patient/x"]);
+  });
+});
+
+// ── Sealing ─────────────────────────────────────────────────
+
+describe("sealEncounterInput", () => {
+  const [{ input }] = buildEncounterInputs(indexResources(bundleEntries(bundle).entries), COMPANY);
+
+  test("round-trips through openEncounterInput", () => {
+    const sealed = sealEncounterInput(input!, COMPANY, KEY);
+    expect(openEncounterInput(sealed, KEY)).toEqual(input!);
+  });
+
+  test("stored rows contain no plaintext PHI", () => {
+    const text = JSON.stringify(sealEncounterInput(input!, COMPANY, KEY));
+    for (const phi of ["pat-100", "Jane", "Doe", "1985-06-15", "SUB-100", "J06.9", "99213"]) {
+      expect(text).not.toContain(phi);
+    }
+    expect(text).toContain("1234567890");
+  });
+
+  test("a different key cannot open the row", () => {
+    const sealed = sealEncounterInput(input!, COMPANY, KEY);
+    expect(() => openEncounterInput(sealed, deriveKey("wrong"))).toThrow();
+  });
+
+  test("phiKeyFromEnv is null when unset", () => {
+    expect(phiKeyFromEnv({})).toBeNull();
+    expect(phiKeyFromEnv({ PHI_ENCRYPTION_KEY: "x" })).toEqual(deriveKey("x"));
+  });
+});
+
+// ── Import ──────────────────────────────────────────────────
+
+describe("importFHIRResources", () => {
+  test("upserts valid encounters under the company", async () => {
+    const supabase = makeMockSupabase();
+    const summary = await importFHIRResources(supabase, ndjsonEntries(), { companyId: COMPANY, key: KEY });
+    expect(summary.stored).toBe(1);
+    expect(summary.encounters.map(e => e.status)).toEqual(["stored", "invalid", "invalid"]);
+
+    const [{ table, rows, options }] = supabase._upserts;
+    expect(table).toBe("billing_encounter_imports");
+    expect(options).toEqual({ onConflict: "company_id,fhir_encounter_id" });
+    expect(rows.map((r: any) => [r.company_id, r.fhir_encounter_id, r.claim_id])).toEqual([[COMPANY, "enc-200", summary.encounters[0].claim_id]]);
+  });
+
+  test("dry run stores nothing and needs no key", async () => {
+    const supabase = makeMockSupabase();
+    const summary = await importFHIRResources(supabase, ndjsonEntries(), { companyId: COMPANY, key: null, dryRun: true });
+    expect(summary.encounters[0].status).toBe("valid");
+    expect(summary.stored).toBe(0);
+    expect(supabase._upserts).toEqual([]);
+  });
+
+  test("refuses to store without a key and surfaces storage errors", async () => {
+    await expect(importFHIRResources(makeMockSupabase(), ndjsonEntries(), { companyId: COMPANY, key: null }))
+      .rejects.toThrow(/encryption key/);
+    await expect(importFHIRResources(makeMockSupabase({ message: "boom" }), ndjsonEntries(), { companyId: COMPANY, key: KEY }))
+      .rejects.toThrow("Failed to store encounters: boom");
+  });
+});
+
+// ── API ─────────────────────────────────────────────────────
+
+describe("FHIR ingestion routes", () => {
+  const route = (suffix: string) => routes.find(r => r.path.endsWith(suffix))!;
+
+  async function call(suffix: string, rawBody: string, opts: { company?: string; query?: Record<string, string>; supabase?: any } = {}) {
+    let status = 0;
+    let body = "";
+    const res = { writeHead(s: number) { status = s; }, end(data: string) { body = data; } } as unknown as ServerResponse;
+    await route(suffix).handler({
+      res, rawBody,
+      params: { company_id: opts.company ?? COMPANY },
+      query: opts.query ?? {},
+      deps: { supabase: opts.supabase ?? makeMockSupabase() },
+    } as unknown as RouteContext);
+    return { status, data: JSON.parse(body) };
+  }
+
+  test("bundle import returns a PHI-free summary", async () => {
+    process.env.PHI_ENCRYPTION_KEY = "test-phi-passphrase";
+    try {
+      const { status, data } = await call("/bundle", JSON.stringify(bundle));
+      expect(status).toBe(200);
+      expect(data.stored).toBe(1);
+      expect(JSON.stringify(data)).not.toContain("Jane");
+    } finally {
+      delete process.env.PHI_ENCRYPTION_KEY;
+    }
+  });
+
+  test("storing without PHI_ENCRYPTION_KEY is refused; dry run is allowed", async () => {
+    expect((await call("/bundle", JSON.stringify(bundle))).status).toBe(503);
+    expect((await call("/bundle", JSON.stringify(bundle), { query: { dry_run: "true" } })).status).toBe(200);
+  });
+
+  test("rejects bad company IDs, bundle types and empty NDJSON", async () => {
+    const dry = { query: { dry_run: "true" } };
+    expect((await call("/bundle", JSON.stringify(bundle), { ...dry, company: "clinic-1" })).status).toBe(400);
+    expect((await call("/bundle", JSON.stringify({ ...bundle, type: "batch" }), dry)).status).toBe(400);
+    const empty = await call("/ndjson", "garbage\n", dry);
+    expect(empty.status).toBe(400);
+    expect(empty.data.parse_errors).toEqual([{ line: 1, message: "invalid JSON" }]);
+  });
+
+  test("NDJSON import reports per-encounter status and parse errors", async () => {
+    const { status, data } = await call("/ndjson", `${ndjson}\n{broken`, { query: { dry_run: "true" } });
+    expect(status).toBe(200);
+    expect(data.encounters.map((e: any) => [e.fhir_encounter_id, e.status])).toEqual([["enc-200", "valid"], ["enc-300", "invalid"], ["enc-301", "invalid"]]);
+    expect(data.parse_errors).toHaveLength(1);
+  });
+});
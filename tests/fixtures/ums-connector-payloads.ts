@@ -548,3 +548,163 @@ export const microsoftGraphFixtures = {
   unknownPayload: { foo: "bar" },
   empty: {},
 };
+
+// ── Raw RFC 5322 (.eml / mbox) ────────────────────────────────
+
+export const emlFixtures = {
+  multipartWithAttachment: [
+    "Return-Path: <sarah@clinic.example>",
+    "Message-ID: <reply-2@clinic.example>",
+    "In-Reply-To: <root-1@example.com>",
+    "References: <root-1@example.com>",
+    "Date: Tue, 03 Mar 2020 09:15:00 -0600 (CST)",
+    "From: \"Lee, Sarah\" <sarah@clinic.example>",
+    "To: Dave <dave@example.com>, ops@example.com",
+    "Cc: undisclosed-recipients:;",
+    "Subject: =?UTF-8?Q?Re:_Q1_schedule_=E2=80=94_final?=",
+    "MIME-Version: 1.0",
+    "Content-Type: multipart/mixed; boundary=\"outer\"",
+    "",
+    "This is a multi-part message in MIME format.",
+    "--outer",
+    "Content-Type: multipart/alternative; boundary=\"inner\"",
+    "",
+    "--inner",
+    "Content-Type: text/plain; charset=\"iso-8859-1\"",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    "Caf=E9 at 10 works. The schedule is attached and this line is long enough=",
+    " to wrap.",
+    "--inner",
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    "<p>Caf&eacute; at 10 works.</p>",
+    "--inner--",
+    "--outer",
+    "Content-Type: application/pdf; name=\"schedule.pdf\"",
+    "Content-Disposition: attachment; filename*=utf-8''Q1%20schedule.pdf",
+    "Content-Transfer-Encoding: base64",
+    "",
+    "JVBERi0xLjQKJcfsj6IK",
+    "--outer",
+    "Content-Type: image/png",
+    "Content-Disposition: inline",
+    "Content-ID: <logo@clinic>",
+    "Content-Transfer-Encoding: base64",
+    "",
+    "iVBORw0KGgo=",
+    "--outer--",
+    "",
+  ].join("\r\n"),
+
+  htmlOnly: [
+    "Message-ID: <news-9@list.example>",
+    "Date: Mon, 14 Dec 2015 18:00:00 +0000",
+    "From: =?ISO-8859-1?B?Sm9z6Q==?= <jose@list.example>",
+    "To: dave@example.com",
+    "Subject: Newsletter",
+    "Content-Type: text/html",
+    "",
+    "<style>p{}</style><p>Big&nbsp;news!</p>",
+  ].join("\n"),
+
+  noMessageId: [
+    "Date: Fri, 01 Jan 2010 00:00:00 +0000",
+    "From: old@example.com (Old Timer)",
+    "Subject: Ancient mail",
+    "",
+    "Hello from 2010.",
+  ].join("\n"),
+
+  mbox: [
+    "From alice@example.com Sat Jan  1 10:00:00 2011",
+    "Message-ID: <a@example.com>",
+    "From: alice@example.com",
+    "Subject: First",
+    "",
+    "Line one",
+    ">From the archive, this line was escaped.",
+    "",
+    "From bob@example.com Sun Jan  2 10:00:00 2011",
+    "Message-ID: <b@example.com>",
+    "From: bob@example.com",
+    "Subject: Second",
+    "",
+    "Second body",
+    "",
+  ].join("\n"),
+
+  headersOnlyGarbage: "not an email at all",
+
+  /** 8bit ISO-8859-1 and Windows-1252 parts, as import-email.ts reads them (latin1: one char per byte). */
+  eightBitLatin1: Buffer.concat([
+    Buffer.from([
+      "Message-ID: <8bit-1@example.com>",
+      "From: Zoë <zoe@example.com>",
+      "Subject: Résumé",
+      "Content-Type: multipart/alternative; boundary=\"b\"",
+      "",
+      "--b",
+      "Content-Type: text/plain; charset=iso-8859-1",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      "",
+    ].join("\n"), "utf8"),
+    Buffer.from("Caf\xe9 \xe0 10h, \xa35.\n", "latin1"),
+    Buffer.from("--b\nContent-Type: text/html; charset=windows-1252\nContent-Transfer-Encoding: 8bit\n\n", "utf8"),
+    Buffer.from("<p>\x93Caf\xe9\x94 \x80 20</p>\n--b--\n", "latin1"),
+  ]).toString("latin1"),
+};
+
+// ── Matrix ────────────────────────────────────────────────────
+
+export const matrixFixtures = {
+  threadedText: {
+    room_id: "!dev:example.org",
+    is_direct: false,
+    event: {
+      type: "m.room.message",
+      event_id: "$abc123:example.org",
+      sender: "@dave:example.org",
+      origin_server_ts: Date.parse("2026-03-14T10:00:00Z"),
+      content: {
+        msgtype: "m.text",
+        body: "Can you check the deploy?",
+        "m.relates_to": { rel_type: "m.thread", event_id: "$root:example.org" },
+      },
+    },
+  },
+  image: {
+    room_id: "!dm:example.org",
+    is_direct: true,
+    event: {
+      type: "m.room.message",
+      event_id: "$img1:example.org",
+      sender: "@dave:example.org",
+      content: { msgtype: "m.image", body: "whiteboard.png", url: "mxc://example.org/media1" },
+    },
+  },
+  edit: {
+    room_id: "!dev:example.org",
+    event: {
+      type: "m.room.message",
+      event_id: "$edit1:example.org",
+      sender: "@dave:example.org",
+      content: { msgtype: "m.text", body: "* fixed", "m.relates_to": { rel_type: "m.replace", event_id: "$abc123:example.org" } },
+    },
+  },
+  reaction: {
+    room_id: "!dev:example.org",
+    event: {
+      type: "m.reaction",
+      event_id: "$r1:example.org",
+      sender: "@dave:example.org",
+      content: { "m.relates_to": { rel_type: "m.annotation", event_id: "$abc123:example.org", key: "👍" } },
+    },
+  },
+  redacted: {
+    room_id: "!dev:example.org",
+    event: { type: "m.room.message", event_id: "$gone:example.org", sender: "@dave:example.org", content: {} },
+  },
+  empty: {},
+};
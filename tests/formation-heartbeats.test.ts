@@ -19,6 +19,7 @@ import {
   parseCron,
   parseCronField,
   nextCronRun,
+  nextCronRuns,
   cronMatches,
   VALID_HEARTBEAT_RUN_STATUSES,
   type FormationHeartbeat,
@@ -849,3 +850,34 @@ describe("E2E: heartbeat lifecycle", () => {
     expect(tick2.triggered).toHaveLength(0);
   });
 });
+
+// ── Timezone-aware schedules ────────────────────────────────
+
+describe("nextCronRun with a timezone", () => {
+  const chicago = "America/Chicago";
+
+  test("matches wall-clock time in the zone", () => {
+    const next = nextCronRun(parseCron("0 7 * * *"), new Date("2026-10-19T00:00:00Z"), chicago);
+    expect(next!.toISOString()).toBe("2026-10-19T12:00:00.000Z");
+    expect(cronMatches(parseCron("0 7 * * *"), next!, chicago)).toBe(true);
+  });
+
+  test("handles half-hour offsets", () => {
+    const next = nextCronRun(parseCron("0 9 * * 1"), new Date("2026-10-18T00:00:00Z"), "Asia/Kolkata");
+    expect(next!.toISOString()).toBe("2026-10-19T03:30:00.000Z");
+  });
+
+  test("fires a repeated wall time once when clocks fall back", () => {
+    const runs = nextCronRuns(parseCron("30 1 * * *"), new Date("2026-10-31T12:00:00Z"), 2, chicago);
+    expect(runs.map(r => r.toISOString())).toEqual(["2026-11-01T06:30:00.000Z", "2026-11-02T07:30:00.000Z"]);
+  });
+
+  test("skips a wall time that doesn't exist when clocks spring forward", () => {
+    const runs = nextCronRuns(parseCron("30 2 * * *"), new Date("2026-03-07T12:00:00Z"), 2, chicago);
+    expect(runs.map(r => r.toISOString())).toEqual(["2026-03-09T07:30:00.000Z", "2026-03-10T07:30:00.000Z"]);
+  });
+
+  test("returns no runs for an impossible date", () => {
+    expect(nextCronRuns(parseCron("0 0 30 2 *"), new Date("2026-01-01T00:00:00Z"), 3, chicago)).toEqual([]);
+  });
+});
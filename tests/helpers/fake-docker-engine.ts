@@ -0,0 +1,434 @@
+/**
+ * Fake Docker Engine — an in-memory Engine API on a temp Unix socket
+ *
+ * Serves the subset of the Engine API used by sandbox-manager.ts,
+ * docker-sandbox.ts and overnight/docker-executor.ts: images (pull,
+ * inspect, commit, remove), containers (create, start, stop, kill,
+ * pause, wait, logs, inspect, list, remove), exec with multiplexed
+ * streaming, volumes and networks.
+ *
+ * Containers have a file map instead of a filesystem. `sh -c` scripts
+ * understand `echo TEXT [>|>>] PATH`, `echo TEXT >&2`, `cat PATH`,
+ * `cp -a SRC/. DST/` and `exit N`, joined with `&&`; paths under a bind
+ * mount read and write the volume. Containers whose command is such a
+ * script run it on start and exit; any other command keeps running.
+ * Tests can override exec behaviour with `onExec`.
+ *
+ * Usage:
+ *   const engine = await startFakeDockerEngine({ images: ["busybox:1.36"] });
+ *   setDockerSocketPath(engine.socketPath);
+ *   ...
+ *   await engine.close();
+ */
+
+import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { rmSync } from "node:fs";
+import { muxDockerFrame } from "../../src/docker-engine.ts";
+
+type Files = Map<string, string>;
+
+export interface FakeImage {
+  ref: string;
+  id: string;
+  files: Files;
+  labels: Record<string, string>;
+}
+
+export interface FakeContainer {
+  id: string;
+  name: string;
+  image: string;
+  config: Record<string, unknown>;
+  state: "created" | "running" | "paused" | "exited";
+  exitCode: number;
+  created: number;
+  files: Files;
+  logs: Buffer[];
+  labels: Record<string, string>;
+  binds: { volume: string; mount: string; readOnly: boolean }[];
+  networks: Record<string, { Aliases: string[] }>;
+}
+
+export interface FakeVolume {
+  name: string;
+  files: Files;
+  labels: Record<string, string>;
+}
+
+export interface FakeNetwork {
+  name: string;
+  internal: boolean;
+  labels: Record<string, string>;
+  options: Record<string, string>;
+}
+
+export interface FakeExecResult {
+  /** Output frames, sent in order with delayMs between them. */
+  frames: ["stdout" | "stderr", string][];
+  exitCode: number;
+  delayMs?: number;
+}
+
+export interface FakeDockerEngine {
+  socketPath: string;
+  images: Map<string, FakeImage>;
+  containers: Map<string, FakeContainer>;
+  volumes: Map<string, FakeVolume>;
+  networks: Map<string, FakeNetwork>;
+  /** Every request, in order, as "METHOD /path" without the query string. */
+  calls: string[];
+  /** Override exec; return undefined to fall back to the built-in shell. */
+  onExec?: (container: FakeContainer, cmd: string[]) => FakeExecResult | undefined;
+  findContainer(nameOrId: string): FakeContainer | undefined;
+  close(): Promise<void>;
+}
+
+export interface FakeDockerEngineOpts {
+  /** Images present without a pull, optionally with files. */
+  images?: (string | { ref: string; files?: Record<string, string> })[];
+  /** Whether pulls of unknown images succeed (default true). */
+  pullable?: boolean;
+}
+
+let socketSeq = 0;
+
+export async function startFakeDockerEngine(opts: FakeDockerEngineOpts = {}): Promise<FakeDockerEngine> {
+  const socketPath = join(tmpdir(), `fake-docker-${process.pid}-${++socketSeq}.sock`);
+  rmSync(socketPath, { force: true });
+
+  let idSeq = 0;
+  const newId = () => (++idSeq).toString(16).padStart(12, "0") + "f".repeat(52);
+
+  const images = new Map<string, FakeImage>();
+  const containers = new Map<string, FakeContainer>();
+  const volumes = new Map<string, FakeVolume>();
+  const networks = new Map<string, FakeNetwork>();
+  const execs = new Map<string, { container: FakeContainer; cmd: string[]; exitCode: number | null; running: boolean }>();
+  const waiters = new Map<string, ((code: number) => void)[]>();
+  const calls: string[] = [];
+
+  const normalizeRef = (ref: string) => (ref.includes(":") ? ref : `${ref}:latest`);
+  const addImage = (ref: string, files: Record<string, string> = {}, labels: Record<string, string> = {}) => {
+    const image = { ref: normalizeRef(ref), id: `sha256:${newId()}`, files: new Map(Object.entries(files)), labels };
+    images.set(image.ref, image);
+    return image;
+  };
+  for (const img of opts.images ?? []) {
+    if (typeof img === "string") addImage(img); else addImage(img.ref, img.files);
+  }
+
+  const findContainer = (nameOrId: string) =>
+    containers.get(nameOrId) ?? [...containers.values()].find(c => c.name === nameOrId || c.id.startsWith(nameOrId));
+
+  const exit = (c: FakeContainer, code: number) => {
+    c.state = "exited";
+    c.exitCode = code;
+    for (const resolve of waiters.get(c.id) ?? []) resolve(code);
+    waiters.delete(c.id);
+  };
+
+  // ── Mini shell ──
+
+  const locate = (c: FakeContainer, path: string): { files: Files; key: string; readOnly: boolean } => {
+    for (const b of c.binds) {
+      if (path === b.mount || path.startsWith(`${b.mount}/`)) {
+        const vol = volumes.get(b.volume);
+        if (vol) return { files: vol.files, key: path.slice(b.mount.length).replace(/^\//, ""), readOnly: b.readOnly };
+      }
+    }
+    return { files: c.files, key: path, readOnly: false };
+  };
+
+  const runScript = (c: FakeContainer, script: string): FakeExecResult => {
+    const frames: FakeExecResult["frames"] = [];
+    for (const part of script.split("&&").map(p => p.trim())) {
+      let m: RegExpMatchArray | null;
+      if ((m = part.match(/^exit (\d+)$/))) return { frames, exitCode: Number(m[1]) };
+      if ((m = part.match(/^echo (.*?) >&2$/))) { frames.push(["stderr", `${m[1]}\n`]); continue; }
+      if ((m = part.match(/^echo (.*?) (>>?) (\S+)$/))) {
+        const target = locate(c, m[3]);
+        if (target.readOnly) return { frames: [...frames, ["stderr", `sh: ${m[3]}: Read-only file system\n`]], exitCode: 1 };
+        target.files.set(target.key, (m[2] === ">>" ? target.files.get(target.key) ?? "" : "") + `${m[1]}\n`);
+        continue;
+      }
+      if ((m = part.match(/^echo (.*)$/))) { frames.push(["stdout", `${m[1]}\n`]); continue; }
+      if ((m = part.match(/^cat (\S+)$/))) {
+        const target = locate(c, m[1]);
+        const text = target.files.get(target.key);
+        if (text === undefined) return { frames: [...frames, ["stderr", `cat: ${m[1]}: No such file or directory\n`]], exitCode: 1 };
+        frames.push(["stdout", text]);
+        continue;
+      }
+      if ((m = part.match(/^cp -a (\S+)\/\. (\S+)\/$/))) {
+        const src = locate(c, m[1]);
+        const dst = locate(c, m[2]);
+        const prefix = src.key ? `${src.key}/` : "";
+        for (const [key, value] of src.files) {
+          if (key.startsWith(prefix)) dst.files.set((dst.key ? `${dst.key}/` : "") + key.slice(prefix.length), value);
+        }
+        continue;
+      }
+      return { frames: [...frames, ["stderr", `sh: ${part.split(" ")[0]}: not found\n`]], exitCode: 127 };
+    }
+    return { frames, exitCode: 0 };
+  };
+
+  const scriptOf = (cmd: unknown): string | null =>
+    Array.isArray(cmd) && cmd[0] === "sh" && cmd[1] === "-c" && typeof cmd[2] === "string" ? cmd[2] : null;
+
+  // ── HTTP ──
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://docker");
+      const method = req.method ?? "GET";
+      const path = url.pathname;
+      calls.push(`${method} ${path}`);
+      const text = Buffer.concat(chunks).toString();
+      const body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+      const reply = (status: number, data?: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(data === undefined ? "" : JSON.stringify(data));
+      };
+      const notFound = (what: string) => reply(404, { message: `No such ${what}` });
+      const q = (name: string) => url.searchParams.get(name);
+      const filters = JSON.parse(q("filters") ?? "{}") as { label?: string[]; name?: string[] };
+      // "key" matches any value, "key=value" that value
+      const labelsMatch = (labels: Record<string, string>) =>
+        (filters.label ?? []).every(l => { const [k, v] = l.split("="); return v === undefined ? k in labels : labels[k] === v; });
+      let m: RegExpMatchArray | null;
+
+      if (path === "/_ping") { res.writeHead(200); res.end("OK"); return; }
+
+      // Images
+      if (path === "/images/json" && method === "GET") {
+        const list = [...images.values()].filter(img => labelsMatch(img.labels));
+        return reply(200, list.map(img => ({ Id: img.id, RepoTags: [img.ref], Labels: img.labels })));
+      }
+      if ((m = path.match(/^\/images\/(.+)\/json$/)) && method === "GET") {
+        const image = images.get(normalizeRef(decodeURIComponent(m[1])));
+        return image ? reply(200, { Id: image.id, RepoTags: [image.ref] }) : notFound("image");
+      }
+      if (path === "/images/create" && method === "POST") {
+        if (opts.pullable === false) return reply(404, { message: "pull access denied" });
+        const ref = `${q("fromImage")}:${q("tag") ?? "latest"}`;
+        if (!images.has(ref)) addImage(ref);
+        return reply(200, { status: "Downloaded" });
+      }
+      if ((m = path.match(/^\/images\/(.+)$/)) && method === "DELETE") {
+        const ref = normalizeRef(decodeURIComponent(m[1]));
+        return images.delete(ref) ? reply(200, [{ Deleted: ref }]) : notFound("image");
+      }
+      if (path === "/commit" && method === "POST") {
+        const c = findContainer(q("container") ?? "");
+        if (!c) return notFound("container");
+        const image = addImage(`${q("repo")}:${q("tag") ?? "latest"}`, Object.fromEntries(c.files), (body.Labels ?? {}) as Record<string, string>);
+        return reply(201, { Id: image.id });
+      }
+
+      // Containers
+      if (path === "/containers/create" && method === "POST") {
+        const name = q("name") ?? newId().slice(0, 12);
+        if (findContainer(name)) return reply(409, { message: `Conflict. The container name "/${name}" is already in use` });
+        const image = images.get(normalizeRef(String(body.Image)));
+        if (!image) return reply(404, { message: `No such image: ${body.Image}` });
+        const host = (body.HostConfig ?? {}) as { Binds?: string[]; NetworkMode?: string };
+        const binds = (host.Binds ?? []).map(b => {
+          const [volume, mount, mode] = b.split(":");
+          if (!volumes.has(volume)) volumes.set(volume, { name: volume, files: new Map(), labels: {} });
+          return { volume, mount, readOnly: mode === "ro" };
+        });
+        const endpoints = ((body.NetworkingConfig as { EndpointsConfig?: Record<string, { Aliases?: string[] }> } | undefined)?.EndpointsConfig ?? {});
+        if (host.NetworkMode && !["none", "bridge", "host"].includes(host.NetworkMode) && !networks.has(host.NetworkMode)) {
+          return reply(404, { message: `network ${host.NetworkMode} not found` });
+        }
+        const c: FakeContainer = {
+          id: newId(),
+          name,
+          image: image.ref,
+          config: body,
+          state: "created",
+          exitCode: 0,
+          created: Math.floor(Date.now() / 1000),
+          files: new Map(image.files),
+          logs: [],
+          labels: (body.Labels ?? {}) as Record<string, string>,
+          binds,
+          networks: Object.fromEntries(Object.entries(endpoints).map(([n, e]) => [n, { Aliases: e.Aliases ?? [] }])),
+        };
+        containers.set(c.id, c);
+        return reply(201, { Id: c.id, Warnings: [] });
+      }
+      if (path === "/containers/json" && method === "GET") {
+        const list = [...containers.values()].filter(c =>
+          labelsMatch(c.labels) && (filters.name ?? []).every(n => c.name.includes(n)),
+        );
+        return reply(200, list.map(c => ({
+          Id: c.id, Names: [`/${c.name}`], Image: c.image, State: c.state, Status: c.state, Created: c.created, Labels: c.labels,
+        })));
+      }
+      if ((m = path.match(/^\/containers\/([^/]+)(?:\/(\w+))?$/))) {
+        const c = findContainer(decodeURIComponent(m[1]));
+        const action = m[2];
+        if (!c) return notFound(`container: ${m[1]}`);
+
+        if (!action && method === "DELETE") {
+          if (c.state === "running" && q("force") !== "true") return reply(409, { message: "container is running" });
+          containers.delete(c.id);
+          exit(c, 137);
+          return reply(204);
+        }
+        if (action === "json" && method === "GET") {
+          return reply(200, {
+            Id: c.id, Name: `/${c.name}`, Image: c.image, Config: { ...c.config, Labels: c.labels },
+            State: { Status: c.state, Running: c.state === "running", Paused: c.state === "paused", ExitCode: c.exitCode },
+            NetworkSettings: { Networks: c.networks },
+          });
+        }
+        if (action === "start" && method === "POST") {
+          if (c.state === "running") return reply(304);
+          c.state = "running";
+          const script = scriptOf(c.config.Cmd);
+          if (script) {
+            const result = runScript(c, script);
+            c.logs.push(...result.frames.map(([s, d]) => muxDockerFrame(s, d)));
+            exit(c, result.exitCode);
+          }
+          return reply(204);
+        }
+        if ((action === "stop" || action === "kill") && method === "POST") {
+          if (c.state !== "running" && c.state !== "paused") return action === "stop" ? reply(304) : reply(409, { message: "not running" });
+          exit(c, action === "kill" ? 137 : 0);
+          return reply(204);
+        }
+        if (action === "pause" && method === "POST") {
+          if (c.state !== "running") return reply(409, { message: `container ${c.name} is not running` });
+          c.state = "paused";
+          return reply(204);
+        }
+        if (action === "unpause" && method === "POST") {
+          if (c.state !== "paused") return reply(409, { message: `container ${c.name} is not paused` });
+          c.state = "running";
+          return reply(204);
+        }
+        if (action === "wait" && method === "POST") {
+          if (c.state === "exited") return reply(200, { StatusCode: c.exitCode });
+          waiters.set(c.id, [...(waiters.get(c.id) ?? []), code => reply(200, { StatusCode: code })]);
+          return;
+        }
+        if (action === "logs" && method === "GET") {
+          res.writeHead(200, { "Content-Type": "application/vnd.docker.raw-stream" });
+          res.end(Buffer.concat(c.logs));
+          return;
+        }
+        if (action === "stats" && method === "GET") {
+          return reply(200, { memory_stats: { usage: 1024, limit: 4096 }, cpu_stats: {}, precpu_stats: {} });
+        }
+        if (action === "exec" && method === "POST") {
+          if (c.state !== "running") return reply(409, { message: `Container ${c.id} is not running` });
+          const id = newId();
+          execs.set(id, { container: c, cmd: body.Cmd as string[], exitCode: null, running: false });
+          return reply(201, { Id: id });
+        }
+      }
+
+      // Exec
+      if ((m = path.match(/^\/exec\/([^/]+)\/(start|json)$/))) {
+        const exec = execs.get(m[1]);
+        if (!exec) return notFound("exec instance");
+        if (m[2] === "json") return reply(200, { ExitCode: exec.exitCode, Running: exec.running });
+
+        const result = engine.onExec?.(exec.container, exec.cmd)
+          ?? runScript(exec.container, scriptOf(exec.cmd) ?? exec.cmd.join(" "));
+        exec.running = true;
+        res.writeHead(200, { "Content-Type": "application/vnd.docker.raw-stream" });
+        const frames = [...result.frames];
+        const finish = () => { exec.running = false; exec.exitCode = result.exitCode; res.end(); };
+        const next = () => {
+          const frame = frames.shift();
+          if (!frame) { finish(); return; }
+          res.write(muxDockerFrame(frame[0], frame[1]));
+          if (result.delayMs) setTimeout(next, result.delayMs); else next();
+        };
+        next();
+        return;
+      }
+
+      // Volumes
+      if (path === "/volumes/create" && method === "POST") {
+        const name = String(body.Name);
+        if (!volumes.has(name)) volumes.set(name, { name, files: new Map(), labels: (body.Labels ?? {}) as Record<string, string> });
+        return reply(201, { Name: name });
+      }
+      if (path === "/volumes" && method === "GET") {
+        const list = [...volumes.values()].filter(v => labelsMatch(v.labels));
+        return reply(200, { Volumes: list.map(v => ({ Name: v.name, Labels: v.labels })) });
+      }
+      if ((m = path.match(/^\/volumes\/([^/]+)$/)) && method === "DELETE") {
+        const name = decodeURIComponent(m[1]);
+        if (!volumes.has(name)) return notFound("volume");
+        if ([...containers.values()].some(c => c.binds.some(b => b.volume === name))) return reply(409, { message: "volume is in use" });
+        volumes.delete(name);
+        return reply(204);
+      }
+
+      // Networks
+      if (path === "/networks/create" && method === "POST") {
+        const name = String(body.Name);
+        if (networks.has(name)) return reply(409, { message: `network with name ${name} already exists` });
+        networks.set(name, {
+          name,
+          internal: body.Internal === true,
+          labels: (body.Labels ?? {}) as Record<string, string>,
+          options: (body.Options ?? {}) as Record<string, string>,
+        });
+        return reply(201, { Id: newId() });
+      }
+      if (path === "/networks" && method === "GET") {
+        const list = [...networks.values()].filter(n => labelsMatch(n.labels));
+        return reply(200, list.map(n => ({ Name: n.name, Internal: n.internal, Labels: n.labels })));
+      }
+      if ((m = path.match(/^\/networks\/([^/]+)$/))) {
+        const name = decodeURIComponent(m[1]);
+        const network = networks.get(name);
+        if (!network) return notFound("network");
+        if (method === "GET") return reply(200, { Name: name, Internal: network.internal, Labels: network.labels });
+        if (method === "DELETE") {
+          if ([...containers.values()].some(c => name in c.networks)) return reply(403, { message: "network has active endpoints" });
+          networks.delete(name);
+          return reply(204);
+        }
+      }
+
+      reply(404, { message: `page not found: ${method} ${path}` });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => resolve());
+  });
+
+  const engine: FakeDockerEngine = {
+    socketPath,
+    images,
+    containers,
+    volumes,
+    networks,
+    calls,
+    findContainer,
+    close: () => new Promise<void>(resolve => {
+      for (const list of waiters.values()) for (const resolveWait of list) resolveWait(137);
+      server.closeAllConnections?.();
+      server.close(() => {
+        rmSync(socketPath, { force: true });
+        resolve();
+      });
+    }),
+  };
+  return engine;
+}
@@ -0,0 +1,242 @@
+/**
+ * Fake Matrix Homeserver — an in-memory Client-Server API on localhost
+ *
+ * Serves the subset used by src/channels/matrix: account/whoami, /sync
+ * (with real long-polling — a pending sync returns as soon as an event
+ * arrives), join, and rooms/{room}/send/{type}/{txnId} (idempotent per
+ * transaction id). Everything the bot sends lands in `sent` and in the
+ * room timeline, so the bot sees its own echoes like on a real server.
+ *
+ * Tests play the other users with `postMessage`, `react`, `redact` and
+ * `invite`, and inject failures with `failNext`.
+ *
+ * Usage:
+ *   const hs = await startFakeMatrixHomeserver();
+ *   const client = createMatrixClient({ homeserverUrl: hs.url, accessToken: hs.accessToken });
+ *   ...
+ *   await hs.close();
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FakeMatrixEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts: number;
+  content: Record<string, unknown>;
+  room_id: string;
+  redacts?: string;
+}
+
+export interface FakeMatrixHomeserver {
+  url: string;
+  accessToken: string;
+  botUserId: string;
+  /** Events the bot sent, in order */
+  sent: FakeMatrixEvent[];
+  joined: Set<string>;
+  /** Number of /sync requests served */
+  syncCount(): number;
+  postMessage(roomId: string, sender: string, content: Record<string, unknown> | string): string;
+  react(roomId: string, sender: string, eventId: string, key: string): string;
+  redact(roomId: string, sender: string, eventId: string): string;
+  invite(roomId: string, inviter: string, opts?: { isDirect?: boolean }): void;
+  setDirectRooms(userId: string, roomIds: string[]): void;
+  /** Fail the next request to a path starting with `pathPrefix` (e.g. "/sync"). */
+  failNext(pathPrefix: string, status: number, body: Record<string, unknown>): void;
+  close(): Promise<void>;
+}
+
+const API = "/_matrix/client/v3";
+
+export async function startFakeMatrixHomeserver(opts: { botUserId?: string; accessToken?: string } = {}): Promise<FakeMatrixHomeserver> {
+  const botUserId = opts.botUserId ?? "@ellie:example.test";
+  const accessToken = opts.accessToken ?? "syt_fake_token";
+
+  const timeline: FakeMatrixEvent[] = [];
+  const sent: FakeMatrixEvent[] = [];
+  const joined = new Set<string>();
+  const invites = new Map<string, { inviter: string; isDirect: boolean }>();
+  /** Invites not yet delivered by a sync — like a real server, each is reported once */
+  const newInvites = new Set<string>();
+  const txns = new Map<string, string>();
+  let direct: Record<string, string[]> = {};
+  let directChanged = false;
+  const failures: { pathPrefix: string; status: number; body: Record<string, unknown> }[] = [];
+  const waiters = new Set<() => void>();
+  let eventSeq = 0;
+  let syncs = 0;
+
+  function append(roomId: string, type: string, sender: string, content: Record<string, unknown>, extra: Partial<FakeMatrixEvent> = {}): FakeMatrixEvent {
+    const event: FakeMatrixEvent = {
+      type,
+      event_id: `$ev${++eventSeq}:example.test`,
+      sender,
+      origin_server_ts: Date.now(),
+      content,
+      room_id: roomId,
+      ...extra,
+    };
+    timeline.push(event);
+    for (const wake of [...waiters]) wake();
+    return event;
+  }
+
+  function json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise(resolve => {
+      let data = "";
+      req.on("data", chunk => { data += chunk; });
+      req.on("end", () => {
+        try { resolve(data ? JSON.parse(data) : {}); } catch { resolve({}); }
+      });
+    });
+  }
+
+  function syncBody(from: number, includeTimeline: boolean): Record<string, unknown> {
+    const join: Record<string, { timeline: { events: Omit<FakeMatrixEvent, "room_id">[] } }> = {};
+    if (includeTimeline) {
+      for (const { room_id, ...event } of timeline.slice(from)) {
+        if (!joined.has(room_id)) continue;
+        (join[room_id] ??= { timeline: { events: [] } }).timeline.events.push(event);
+      }
+    }
+    const invite: Record<string, unknown> = {};
+    for (const [roomId, { inviter, isDirect }] of invites) {
+      if (includeTimeline && !newInvites.has(roomId)) continue;
+      invite[roomId] = {
+        invite_state: {
+          events: [{ type: "m.room.member", state_key: botUserId, sender: inviter, content: { membership: "invite", is_direct: isDirect } }],
+        },
+      };
+    }
+    newInvites.clear();
+    const body: Record<string, unknown> = { next_batch: `s${timeline.length}`, rooms: { join, invite } };
+    if (!includeTimeline || directChanged) {
+      body.account_data = { events: [{ type: "m.direct", content: direct }] };
+      directChanged = false;
+    }
+    return body;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname.startsWith(API) ? url.pathname.slice(API.length) : url.pathname;
+
+    if (req.headers.authorization !== `Bearer ${accessToken}`) {
+      json(res, 401, { errcode: "M_UNKNOWN_TOKEN", error: "Invalid access token" });
+      return;
+    }
+    const failure = failures.findIndex(f => path.startsWith(f.pathPrefix));
+    if (failure >= 0) {
+      const [f] = failures.splice(failure, 1);
+      json(res, f.status, f.body);
+      return;
+    }
+
+    if (req.method === "GET" && path === "/account/whoami") {
+      json(res, 200, { user_id: botUserId, device_id: "FAKEDEVICE" });
+      return;
+    }
+
+    if (req.method === "GET" && path === "/sync") {
+      syncs++;
+      const since = url.searchParams.get("since");
+      if (!since) {
+        json(res, 200, syncBody(timeline.length, false));
+        return;
+      }
+      const from = Number(since.slice(1)) || 0;
+      const hasNew = () => timeline.slice(from).some(e => joined.has(e.room_id)) || newInvites.size > 0 || directChanged;
+      if (!hasNew()) {
+        const timeoutMs = Number(url.searchParams.get("timeout") ?? 0);
+        await new Promise<void>(resolve => {
+          const done = () => { clearTimeout(timer); waiters.delete(done); resolve(); };
+          const timer = setTimeout(done, timeoutMs);
+          waiters.add(done);
+          req.on("close", done);
+        });
+      }
+      if (!res.writableEnded && !res.destroyed) json(res, 200, syncBody(from, true));
+      return;
+    }
+
+    const joinMatch = req.method === "POST" && path.match(/^\/join\/(.+)$/);
+    if (joinMatch) {
+      const roomId = decodeURIComponent(joinMatch[1]);
+      invites.delete(roomId);
+      joined.add(roomId);
+      json(res, 200, { room_id: roomId });
+      return;
+    }
+
+    const sendMatch = req.method === "PUT" && path.match(/^\/rooms\/([^/]+)\/send\/([^/]+)\/([^/]+)$/);
+    if (sendMatch) {
+      const [roomId, type, txnId] = sendMatch.slice(1).map(decodeURIComponent);
+      const content = await readBody(req);
+      if (!joined.has(roomId)) {
+        json(res, 403, { errcode: "M_FORBIDDEN", error: `User ${botUserId} not in room ${roomId}` });
+        return;
+      }
+      const existing = txns.get(txnId);
+      if (existing) {
+        json(res, 200, { event_id: existing });
+        return;
+      }
+      const event = append(roomId, type, botUserId, content);
+      sent.push(event);
+      txns.set(txnId, event.event_id);
+      json(res, 200, { event_id: event.event_id });
+      return;
+    }
+
+    json(res, 404, { errcode: "M_UNRECOGNIZED", error: `Unrecognized request ${req.method} ${path}` });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    accessToken,
+    botUserId,
+    sent,
+    joined,
+    syncCount: () => syncs,
+    postMessage(roomId, sender, content) {
+      joined.add(roomId);
+      const body = typeof content === "string" ? { msgtype: "m.text", body: content } : content;
+      return append(roomId, "m.room.message", sender, body).event_id;
+    },
+    react(roomId, sender, eventId, key) {
+      return append(roomId, "m.reaction", sender, { "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key } }).event_id;
+    },
+    redact(roomId, sender, eventId) {
+      return append(roomId, "m.room.redaction", sender, { redacts: eventId }, { redacts: eventId }).event_id;
+    },
+    invite(roomId, inviter, inviteOpts = {}) {
+      invites.set(roomId, { inviter, isDirect: inviteOpts.isDirect ?? false });
+      newInvites.add(roomId);
+      for (const wake of [...waiters]) wake();
+    },
+    setDirectRooms(userId, roomIds) {
+      direct = { ...direct, [userId]: roomIds };
+      directChanged = true;
+      for (const wake of [...waiters]) wake();
+    },
+    failNext(pathPrefix, status, body) {
+      failures.push({ pathPrefix, status, body });
+    },
+    async close() {
+      for (const wake of [...waiters]) wake();
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Fake Voice Providers — mulaw fixtures and scripted STT / TTS / model
+ *
+ * Fixtures in tests/fixtures/voice are raw mulaw 8kHz mono, as Twilio
+ * sends it: speech-1s.ulaw is a voiced 140Hz harmonic signal with a 4Hz
+ * syllable envelope, silence-1s.ulaw is low-level line noise. Both are
+ * deterministic (seeded), so VAD timings in tests are exact.
+ *
+ * The fakes record every call and honour abort signals the way the real
+ * providers do, with optional delays to make latency metrics measurable.
+ *
+ * Usage:
+ *   const stt = createFakeSpeechToText({ final: "what's on today" });
+ *   const session = createDuplexVoiceSession({ send, stt, tts, respond: fakeModelReply("Two meetings.") });
+ *   await feedAudio(session, loadMulawFixture("speech-1s"), loadMulawFixture("silence-1s"));
+ *   await session.whenIdle();
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { DuplexVoiceSession, SpeechToTextProvider, TextToSpeechProvider } from "../../src/voice-duplex.ts";
+
+const FIXTURE_DIR = join(import.meta.dir, "..", "fixtures", "voice");
+
+/** Twilio sends 20ms frames: 160 bytes of mulaw. */
+export const TWILIO_FRAME_BYTES = 160;
+
+export function loadMulawFixture(name: "speech-1s" | "silence-1s"): Buffer {
+  return readFileSync(join(FIXTURE_DIR, `${name}.ulaw`));
+}
+
+export function mulawFrames(audio: Buffer, frameBytes = TWILIO_FRAME_BYTES): Buffer[] {
+  const frames: Buffer[] = [];
+  for (let i = 0; i < audio.length; i += frameBytes) frames.push(audio.subarray(i, i + frameBytes));
+  return frames;
+}
+
+/**
+ * Feed audio to a session as Twilio media messages, one 20ms frame at a
+ * time, yielding to the event loop between frames so in-flight provider
+ * calls (partials, TTS) make progress as they would on a live call.
+ */
+export async function feedAudio(session: DuplexVoiceSession, ...clips: Buffer[]): Promise<void> {
+  for (const clip of clips) {
+    for (const frame of mulawFrames(clip)) {
+      session.handleMessage({ event: "media", media: { payload: frame.toString("base64") } });
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+// ── STT ──────────────────────────────────────────────────────
+
+export interface FakeSttCall {
+  partial: boolean;
+  bytes: number;
+  aborted: boolean;
+}
+
+export interface FakeSpeechToText extends SpeechToTextProvider {
+  calls: FakeSttCall[];
+}
+
+export function createFakeSpeechToText(opts: { final?: string; partial?: string; delayMs?: number } = {}): FakeSpeechToText {
+  const calls: FakeSttCall[] = [];
+  return {
+    calls,
+    async transcribe(chunks, { partial, signal }) {
+      const call = { partial, bytes: chunks.reduce((sum, c) => sum + c.length, 0), aborted: false };
+      calls.push(call);
+      await sleep(opts.delayMs ?? 0, signal);
+      call.aborted = !!signal?.aborted;
+      return partial ? (opts.partial ?? opts.final ?? "hello") : (opts.final ?? "hello");
+    },
+  };
+}
+
+// ── TTS ──────────────────────────────────────────────────────
+
+export interface FakeTextToSpeech extends TextToSpeechProvider {
+  /** Sentences synthesized, in order. */
+  sentences: string[];
+}
+
+/**
+ * Each sentence becomes `chunks` chunks of `chunkBytes` tone bytes, the
+ * first after firstByteMs and the rest chunkIntervalMs apart.
+ */
+export function createFakeTextToSpeech(opts: {
+  firstByteMs?: number;
+  chunkIntervalMs?: number;
+  chunks?: number;
+  chunkBytes?: number;
+} = {}): FakeTextToSpeech {
+  const sentences: string[] = [];
+  const tone = loadMulawFixture("speech-1s");
+  return {
+    sentences,
+    async stream(text, signal) {
+      sentences.push(text);
+      return (async function* () {
+        await sleep(opts.firstByteMs ?? 0, signal);
+        for (let i = 0; i < (opts.chunks ?? 2); i++) {
+          if (signal.aborted) return;
+          if (i > 0) await sleep(opts.chunkIntervalMs ?? 0, signal);
+          yield tone.subarray(0, opts.chunkBytes ?? 3200);
+        }
+      })();
+    },
+  };
+}
+
+// ── Model ────────────────────────────────────────────────────
+
+/** A respond() that streams `reply` in small deltas, stopping on abort. */
+export function fakeModelReply(reply: string, opts: { firstTokenMs?: number; deltaMs?: number } = {}) {
+  const prompts: string[] = [];
+  const respond = async function* (userText: string, signal: AbortSignal): AsyncGenerator<string> {
+    prompts.push(userText);
+    await sleep(opts.firstTokenMs ?? 0, signal);
+    for (const delta of reply.match(/.{1,8}/gs) ?? []) {
+      if (signal.aborted) return;
+      yield delta;
+      await sleep(opts.deltaMs ?? 0, signal);
+    }
+  };
+  return Object.assign(respond, { prompts });
+}
@@ -6,19 +6,24 @@
  * - extractBearer (header parsing)
  * - authenticateRequest (JWT + legacy x-api-key fallback)
  *
- * Uses a known in-memory signing secret (hollow is mocked).
+ * Uses a known in-memory signing secret (the vault is mocked).
  */
 
 import { describe, test, expect, mock, beforeEach } from "bun:test";
 
-// ── Mock hollow.ts — inject a known signing secret ───────────
+// ── Mock vault.ts — inject a known signing secret ────────────
 
 const TEST_SIGNING_SECRET = "test-jwt-signing-secret-ellie-494";
 
-mock.module("../../ellie-forest/src/hollow.ts", () => ({
+mock.module("../src/vault.ts", () => ({
+  DEFAULT_KEYCHAIN_ID: "test-keychain",
   retrieveSecret: mock(async () => TEST_SIGNING_SECRET),
 }));
 
+mock.module("../src/relay-state.ts", () => ({
+  getRelayDeps: () => ({ supabase: {} }),
+}));
+
 // ── Mock logger ───────────────────────────────────────────────
 
 mock.module("../src/logger.ts", () => ({
@@ -0,0 +1,344 @@
+/**
+ * Interactive Prompts Tests
+ *
+ * The channel-neutral prompt model (open / answer / close, responder
+ * checks, expiry), the tool-approval and ask-user hooks, and the Slack,
+ * Discord and Google Chat button callbacks resolving the same prompt.
+ * A recording publisher stands in for the channel adapters.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  openPrompt,
+  answerPrompt,
+  closePrompt,
+  getOpenPrompt,
+  listOpenPrompts,
+  encodePromptAction,
+  decodePromptAction,
+  mayAnswerPrompt,
+  setPromptPublisher,
+  _resetInteractivePromptsForTesting,
+  type InteractivePrompt,
+  type PromptDelivery,
+  type OpenPromptInput,
+} from "../src/interactive-prompts.ts";
+import { checkToolApproval, getSessionApprovals, clearSessionApprovals } from "../src/tool-approval.ts";
+import { enqueueQuestion, getQuestion, answerQuestion, clearQuestionQueue } from "../src/ask-user-queue.ts";
+import { parseSlackInteraction, handleSlackInteraction } from "../src/channels/slack/interactions.ts";
+import { handleDiscordButton, type DiscordButtonInteraction } from "../src/channels/discord/interactions.ts";
+import { parseGoogleChatButtonClick, handleGoogleChatButtonClick, UNVERIFIED_ANSWER_TEXT } from "../src/channels/google-chat/interactions.ts";
+import { buttonCards, BUTTON_FUNCTION } from "../src/channels/google-chat/adapter.ts";
+import { slackAdapter } from "../src/channels/slack/adapter.ts";
+
+// ── Recording publisher ─────────────────────────────────────
+
+let published: { prompt: InteractivePrompt; buttonIds: string[] }[] = [];
+let updates: { messageIds: string[]; text: string }[] = [];
+
+function useRecordingPublisher(channels = ["slack", "discord", "google-chat"]): void {
+  setPromptPublisher({
+    async publish(prompt, buttons) {
+      published.push({ prompt, buttonIds: buttons.map(b => b.id) });
+      return channels.map((channel): PromptDelivery => ({ channel, target: { conversationId: `${channel}-room` }, messageId: `${channel}-${prompt.id}` }));
+    },
+    async update(deliveries, text) {
+      updates.push({ messageIds: deliveries.map(d => d.messageId), text });
+    },
+  });
+}
+
+const ENV_KEYS = ["SLACK_ALLOWED_USER_ID", "DISCORD_ALLOWED_USER_ID", "GOOGLE_CHAT_ALLOWED_EMAIL", "SLACK_BOT_TOKEN"] as const;
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) savedEnv[k] = process.env[k];
+  process.env.SLACK_ALLOWED_USER_ID = "U1";
+  process.env.DISCORD_ALLOWED_USER_ID = "111,222";
+  process.env.GOOGLE_CHAT_ALLOWED_EMAIL = "dave@example.com";
+  published = [];
+  updates = [];
+  _resetInteractivePromptsForTesting();
+  useRecordingPublisher();
+});
+
+afterEach(() => {
+  for (const k of ENV_KEYS) {
+    if (savedEnv[k] === undefined) delete process.env[k];
+    else process.env[k] = savedEnv[k];
+  }
+  _resetInteractivePromptsForTesting();
+  clearQuestionQueue();
+  clearSessionApprovals();
+});
+
+/** Let the background publish settle. */
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+function open(overrides: Partial<OpenPromptInput> = {}) {
+  const answers: { optionId: string; channel: string; userId: string }[] = [];
+  const prompt = openPrompt({
+    kind: "question",
+    itemId: "item-1",
+    question: "Ship it?",
+    options: [{ id: "yes", label: "Yes" }, { id: "no", label: "No" }],
+    expiresAt: Date.now() + 60_000,
+    onAnswer: (optionId, r) => { answers.push({ optionId, channel: r.channel, userId: r.userId }); },
+    ...overrides,
+  });
+  return { prompt, answers };
+}
+
+// ── Model ───────────────────────────────────────────────────
+
+describe("prompt model", () => {
+  test("action ids round-trip and fit Telegram's 64 bytes", () => {
+    const id = encodePromptAction("3f2a9c1e-7b4d-4e8a-9f1c-2d3e4f5a6b7c", "remember");
+    expect(id.length).toBeLessThanOrEqual(64);
+    expect(decodePromptAction(id)).toEqual({ promptId: "3f2a9c1e-7b4d-4e8a-9f1c-2d3e4f5a6b7c", optionId: "remember" });
+    expect(decodePromptAction("approve_action")).toBeNull();
+    expect(decodePromptAction("ip:abc:")).toBeNull();
+  });
+
+  test("openPrompt publishes one button per option", async () => {
+    const { prompt } = open();
+    await tick();
+    expect(published).toHaveLength(1);
+    expect(published[0].buttonIds).toEqual([encodePromptAction(prompt.id, "yes"), encodePromptAction(prompt.id, "no")]);
+    expect(listOpenPrompts().map(p => p.id)).toEqual([prompt.id]);
+  });
+
+  test("answerPrompt resolves once and edits the other copies", async () => {
+    const { prompt, answers } = open();
+    await tick();
+    const result = await answerPrompt(prompt.id, "yes", { channel: "discord", userId: "222", messageId: `discord-${prompt.id}` });
+    expect(result.status).toBe("answered");
+    expect(answers).toEqual([{ optionId: "yes", channel: "discord", userId: "222" }]);
+    expect(updates).toHaveLength(1);
+    expect(updates[0].messageIds).toEqual([`slack-${prompt.id}`, `google-chat-${prompt.id}`]);
+    expect(updates[0].text).toContain("Yes — by 222 on discord");
+
+    const again = await answerPrompt(prompt.id, "no", { channel: "slack", userId: "U1" });
+    expect(again.status).toBe("not_found");
+    expect(answers).toHaveLength(1);
+  });
+
+  test("channel allow lists decide who may answer", async () => {
+    const { prompt, answers } = open();
+    expect((await answerPrompt(prompt.id, "yes", { channel: "slack", userId: "U2" })).status).toBe("forbidden");
+    delete process.env.DISCORD_ALLOWED_USER_ID;
+    expect((await answerPrompt(prompt.id, "yes", { channel: "discord", userId: "111" })).status).toBe("forbidden");
+    expect((await answerPrompt(prompt.id, "maybe", { channel: "slack", userId: "U1" })).status).toBe("invalid_option");
+    expect(answers).toHaveLength(0);
+    expect(getOpenPrompt(prompt.id)).not.toBeNull();
+    expect((await answerPrompt(prompt.id, "no", { channel: "google-chat", userId: "Dave@Example.com" })).status).toBe("answered");
+  });
+
+  test("explicit responders override the allow lists", () => {
+    const prompt = { responders: [{ channel: "slack", userId: "U9" }] };
+    expect(mayAnswerPrompt(prompt, { channel: "slack", userId: "U9" })).toBe(true);
+    expect(mayAnswerPrompt(prompt, { channel: "slack", userId: "U1" })).toBe(false);
+    expect(mayAnswerPrompt(prompt, { channel: "discord", userId: "U9" })).toBe(false);
+  });
+
+  test("expired prompts can't be answered and edit their copies", async () => {
+    const { prompt, answers } = open({ expiresAt: Date.now() + 20 });
+    await new Promise(r => setTimeout(r, 40));
+    expect(getOpenPrompt(prompt.id)).toBeNull();
+    expect(updates[0].text).toContain("Expired");
+    expect((await answerPrompt(prompt.id, "yes", { channel: "slack", userId: "U1" })).status).toBe("not_found");
+    expect(answers).toHaveLength(0);
+  });
+
+  test("closePrompt clears buttons for items resolved elsewhere", async () => {
+    open({ itemId: "q-9" });
+    await tick();
+    await closePrompt("question", "q-9", "Answered in Ellie Chat");
+    await closePrompt("question", "q-9", "again");
+    expect(updates).toHaveLength(1);
+    expect(updates[0].text).toContain("Answered in Ellie Chat");
+    expect(listOpenPrompts()).toHaveLength(0);
+  });
+});
+
+// ── Hooks ───────────────────────────────────────────────────
+
+describe("pending item hooks", () => {
+  test("tool approval resolves from a button, remembering when asked", async () => {
+    const pending = checkToolApproval({ tool_name: "mcp__google-workspace__send_gmail_message", tool_input: { to: "a@b.c" } });
+    await tick();
+    const prompt = listOpenPrompts().find(p => p.kind === "tool_approval")!;
+    expect(prompt.options.map(o => o.id)).toEqual(["approve", "remember", "deny"]);
+
+    const result = await answerPrompt(prompt.id, "remember", { channel: "slack", userId: "U1" });
+    expect(result.status).toBe("answered");
+    expect(await pending).toEqual({ approved: true, reason: undefined });
+    expect(getSessionApprovals()).toContain("mcp__google-workspace__send_gmail_message");
+  });
+
+  test("ask-user questions with options are answered with the option text", async () => {
+    const id = enqueueQuestion("dev", "Which branch?", { options: ["main", "release"] });
+    await tick();
+    const prompt = listOpenPrompts().find(p => p.itemId === id)!;
+    expect(prompt.question).toBe("dev asks: Which branch?");
+
+    const answer = getQuestion(id)!.promise;
+    await answerPrompt(prompt.id, "1", { channel: "discord", userId: "111" });
+    expect(await answer).toBe("release");
+  });
+
+  test("answering a question elsewhere closes its prompt; free-text questions get none", async () => {
+    const id = enqueueQuestion("dev", "Proceed?", { options: ["yes", "no"] });
+    enqueueQuestion("dev", "What name?");
+    await tick();
+    expect(listOpenPrompts()).toHaveLength(1);
+    answerQuestion(id, "yes");
+    await tick();
+    expect(listOpenPrompts()).toHaveLength(0);
+    expect(updates[0].text).toContain("Answered: yes");
+  });
+});
+
+// ── Platform callbacks ──────────────────────────────────────
+
+describe("Slack block_actions", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => { globalThis.fetch = realFetch; });
+
+  function blockActions(actionId: string, userId = "U1") {
+    return {
+      type: "block_actions",
+      user: { id: userId },
+      channel: { id: "C1" },
+      container: { type: "message", message_ts: "1.2" },
+      response_url: "https://hooks.slack.test/resp",
+      actions: [{ type: "button", action_id: actionId, value: actionId }],
+    };
+  }
+
+  test("parses the first button press", () => {
+    expect(parseSlackInteraction(blockActions("ip:p:yes"))).toEqual({
+      userId: "U1", actionId: "ip:p:yes", channelId: "C1", messageTs: "1.2", responseUrl: "https://hooks.slack.test/resp",
+    });
+    expect(parseSlackInteraction({ type: "view_submission" })).toBeNull();
+  });
+
+  test("a press answers the prompt; a rejected press gets an ephemeral reply", async () => {
+    const replies: Record<string, unknown>[] = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      replies.push(JSON.parse(String(init.body)));
+      return new Response("ok");
+    }) as typeof fetch;
+
+    const { prompt, answers } = open();
+    await handleSlackInteraction(blockActions(encodePromptAction(prompt.id, "no"), "U7"));
+    expect(replies).toEqual([{ response_type: "ephemeral", text: "You're not allowed to answer this prompt." }]);
+
+    await handleSlackInteraction(blockActions(encodePromptAction(prompt.id, "no")));
+    expect(answers).toEqual([{ optionId: "no", channel: "slack", userId: "U1" }]);
+  });
+
+  test("the adapter renders buttons as a Block Kit actions block", async () => {
+    process.env.SLACK_BOT_TOKEN = "xoxb-test";
+    const bodies: Record<string, unknown>[] = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(String(init.body)));
+      return new Response(JSON.stringify({ ok: true, ts: "9.9" }));
+    }) as typeof fetch;
+
+    await slackAdapter.send!({ conversationId: "C1" }, { text: "Ship it?", buttons: [{ id: "ip:p:yes", label: "Yes" }] });
+    expect(bodies[0].blocks).toEqual([
+      { type: "section", text: { type: "mrkdwn", text: "Ship it?" } },
+      { type: "actions", elements: [{ type: "button", text: { type: "plain_text", text: "Yes" }, action_id: "ip:p:yes", value: "ip:p:yes" }] },
+    ]);
+
+    await slackAdapter.edit!({ conversationId: "C1" }, "9.9", "done");
+    expect(bodies[1]).toEqual({ channel: "C1", ts: "9.9", text: "done", blocks: [] });
+  });
+});
+
+describe("Discord button interactions", () => {
+  function interaction(customId: string, userId = "111") {
+    const calls: { kind: string; options: Record<string, unknown> }[] = [];
+    const fake: DiscordButtonInteraction = {
+      customId,
+      user: { id: userId },
+      message: { id: "m-1" },
+      async update(options) { calls.push({ kind: "update", options }); },
+      async reply(options) { calls.push({ kind: "reply", options }); },
+    };
+    return { fake, calls };
+  }
+
+  test("a press answers the prompt and strips the buttons in place", async () => {
+    const { prompt, answers } = open();
+    await tick();
+    const { fake, calls } = interaction(encodePromptAction(prompt.id, "yes"));
+    expect(await handleDiscordButton(fake)).toBe(true);
+    expect(answers).toEqual([{ optionId: "yes", channel: "discord", userId: "111" }]);
+    expect(calls[0].kind).toBe("update");
+    expect(calls[0].options.components).toEqual([]);
+  });
+
+  test("stale presses get an ephemeral reply; other buttons are left alone", async () => {
+    const { fake, calls } = interaction(encodePromptAction("gone", "yes"));
+    await handleDiscordButton(fake);
+    expect(calls).toEqual([{ kind: "reply", options: { content: "This prompt has expired or was already answered.", ephemeral: true } }]);
+    expect(await handleDiscordButton(interaction("some_other_button").fake)).toBe(false);
+  });
+});
+
+describe("Google Chat card clicks", () => {
+  test("buttonCards carries each button id to the click event", () => {
+    const cards = buttonCards([{ id: "ip:p:yes", label: "Yes" }]);
+    const button = (cards[0].card as { sections: { widgets: { buttonList: { buttons: Record<string, unknown>[] } }[] }[] }).sections[0].widgets[0].buttonList.buttons[0];
+    expect(button).toEqual({ text: "Yes", onClick: { action: { function: BUTTON_FUNCTION, parameters: [{ key: "button_id", value: "ip:p:yes" }] } } });
+  });
+
+  test("legacy CARD_CLICKED answers the prompt with UPDATE_MESSAGE", async () => {
+    const { prompt, answers } = open();
+    await tick();
+    const click = parseGoogleChatButtonClick({
+      type: "CARD_CLICKED",
+      action: { actionMethodName: BUTTON_FUNCTION, parameters: [{ key: "button_id", value: encodePromptAction(prompt.id, "yes") }] },
+      user: { email: "dave@example.com" },
+      message: { name: `google-chat-${prompt.id}` },
+    })!;
+    const body = await handleGoogleChatButtonClick(click, "allowed");
+    expect(answers).toEqual([{ optionId: "yes", channel: "google-chat", userId: "dave@example.com" }]);
+    expect(body).toMatchObject({ actionResponse: { type: "UPDATE_MESSAGE" }, cardsV2: [] });
+    expect(updates[0].messageIds).toEqual([`slack-${prompt.id}`, `discord-${prompt.id}`]);
+  });
+
+  test("add-on clicks answer in the add-on response format", async () => {
+    const { prompt } = open();
+    const event = {
+      commonEventObject: { invokedFunction: BUTTON_FUNCTION, parameters: { button_id: encodePromptAction(prompt.id, "no") } },
+      chat: { user: { email: "eve@example.com" }, buttonClickedPayload: { message: { name: "spaces/A/messages/1" } } },
+    };
+    const denied = await handleGoogleChatButtonClick(parseGoogleChatButtonClick(event)!, "allowed");
+    expect(denied).toEqual({ hostAppDataAction: { chatDataAction: { createMessageAction: { message: { text: "You're not allowed to answer this prompt." } } } } });
+
+    event.chat.user.email = "dave@example.com";
+    const body = await handleGoogleChatButtonClick(parseGoogleChatButtonClick(event)!, "allowed");
+    expect(body).toMatchObject({ hostAppDataAction: { chatDataAction: { updateMessageAction: { message: { cardsV2: [] } } } } });
+  });
+
+  test("clicks are refused while verification is unconfigured", async () => {
+    const { prompt, answers } = open();
+    await tick();
+    const click = parseGoogleChatButtonClick({
+      type: "CARD_CLICKED",
+      action: { actionMethodName: BUTTON_FUNCTION, parameters: [{ key: "button_id", value: encodePromptAction(prompt.id, "yes") }] },
+      user: { email: "dave@example.com" },
+    })!;
+    expect(await handleGoogleChatButtonClick(click, "unconfigured")).toEqual({ text: UNVERIFIED_ANSWER_TEXT });
+    expect(answers).toEqual([]);
+    expect(await handleGoogleChatButtonClick({ ...click, buttonId: "some_other_button" }, "unconfigured")).toBeNull();
+  });
+
+  test("other card actions are not ours", () => {
+    expect(parseGoogleChatButtonClick({ type: "CARD_CLICKED", action: { actionMethodName: "approve_action", parameters: [] } })).toBeNull();
+    expect(parseGoogleChatButtonClick({ type: "MESSAGE" })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for json-schema.ts — the validation subset used by route manifests.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { validateJson, formatSchemaErrors, type JsonSchema } from "../src/json-schema.ts";
+
+const taskBody: JsonSchema = {
+  type: "object",
+  required: ["name", "task_type"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 10 },
+    task_type: { type: "string", enum: ["http", "reminder"] },
+    retries: { type: "integer", minimum: 0, maximum: 5 },
+    tags: { type: "array", items: { type: "string", pattern: "^[a-z]+$" } },
+    note: { type: ["string", "null"] },
+  },
+};
+
+describe("validateJson", () => {
+  test("accepts a valid value", () => {
+    expect(validateJson(taskBody, { name: "nightly", task_type: "http", retries: 2, tags: ["ops"], note: null })).toEqual([]);
+  });
+
+  test("reports type mismatches at the root", () => {
+    expect(validateJson(taskBody, [])).toEqual([{ path: "/", message: "expected object, got array" }]);
+  });
+
+  test("reports missing required and disallowed properties", () => {
+    expect(validateJson(taskBody, { name: "x", extra: 1 })).toEqual([
+      { path: "/task_type", message: "is required" },
+      { path: "/extra", message: "is not allowed" },
+    ]);
+  });
+
+  test("checks string, number and enum constraints", () => {
+    const errors = validateJson(taskBody, { name: "", task_type: "formation", retries: 9 });
+    expect(errors.map(e => e.path)).toEqual(["/name", "/task_type", "/retries"]);
+    expect(errors[1].message).toBe('must be one of "http", "reminder"');
+  });
+
+  test("integer rejects fractions but number accepts integers", () => {
+    expect(validateJson({ type: "integer" }, 1.5)).toHaveLength(1);
+    expect(validateJson({ type: "number" }, 3)).toEqual([]);
+  });
+
+  test("validates array items with indexed paths", () => {
+    expect(validateJson(taskBody, { name: "a", task_type: "http", tags: ["ok", "NO"] })).toEqual([
+      { path: "/tags/1", message: "must match ^[a-z]+$" },
+    ]);
+  });
+
+  test("formats errors on one line", () => {
+    expect(formatSchemaErrors(validateJson(taskBody, { name: "a" }))).toBe("/task_type is required");
+  });
+});
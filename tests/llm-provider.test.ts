@@ -0,0 +1,233 @@
+/**
+ * LLM provider registry — failover chains, health, adapters
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  chat,
+  registerProvider,
+  setChain,
+  getChain,
+  parseModelRef,
+  getProviderHealth,
+  createFakeProvider,
+  createOpenAiCompatibleProvider,
+  createAnthropicProvider,
+  recordAnthropicFailure,
+  recordAnthropicSuccess,
+  isFallbackActive,
+  consumeFallbackJustActivated,
+  callOpenAiFallback,
+  DEFAULT_CHAINS,
+  _resetRegistryForTesting,
+} from "../src/llm-provider.ts";
+
+const outage = () => new Error("fake API error 503: overloaded");
+
+beforeEach(() => {
+  _resetRegistryForTesting({ skipEnvProviders: true });
+});
+
+describe("chat failover", () => {
+  it("uses the first provider in the chain with its model", async () => {
+    const a = createFakeProvider({ name: "a", replies: ["from a"] });
+    const b = createFakeProvider({ name: "b", replies: ["from b"] });
+    registerProvider(a);
+    registerProvider(b);
+    setChain("summaries", [{ provider: "a", model: "small" }, { provider: "b" }]);
+
+    const res = await chat("summaries", { messages: [{ role: "user", content: "hi" }] });
+    expect(res).toMatchObject({ provider: "a", model: "small", text: "from a" });
+    expect(b.requests).toHaveLength(0);
+  });
+
+  it("fails over on error and skips providers that are down", async () => {
+    const a = createFakeProvider({ name: "a", replies: [outage()] });
+    const b = createFakeProvider({ name: "b", replies: ["from b"] });
+    registerProvider(a);
+    registerProvider(b);
+    setChain("classification", [{ provider: "a" }, { provider: "b" }]);
+    const req = { messages: [{ role: "user" as const, content: "classify" }] };
+
+    const now = 1_000_000;
+    await chat("classification", req, { now });
+    await chat("classification", req, { now });
+    expect(getProviderHealth("a")).toMatchObject({ degraded: true, consecutive_failures: 2 });
+
+    // Degraded: skipped until the recovery window passes
+    await chat("classification", req, { now: now + 1000 });
+    expect(a.requests).toHaveLength(2);
+    await chat("classification", req, { now: now + 5 * 60_000 });
+    expect(a.requests).toHaveLength(3);
+  });
+
+  it("tries degraded providers as a last resort", async () => {
+    const a = createFakeProvider({ name: "a", replies: [outage(), outage(), "recovered"] });
+    registerProvider(a);
+    setChain("summaries", [{ provider: "a" }]);
+    const req = { messages: [{ role: "user" as const, content: "x" }] };
+
+    await expect(chat("summaries", req, { now: 0 })).rejects.toThrow("All LLM providers failed");
+    await expect(chat("summaries", req, { now: 0 })).rejects.toThrow();
+    const res = await chat("summaries", req, { now: 1 });
+    expect(res.text).toBe("recovered");
+    expect(getProviderHealth("a").degraded).toBe(false);
+  });
+
+  it("puts a preferred entry ahead of the chain and honours exclusions", async () => {
+    const a = createFakeProvider({ name: "a", replies: ["a"] });
+    const local = createFakeProvider({ name: "local", replies: ["local"] });
+    registerProvider(a);
+    registerProvider(local);
+    setChain("coordinator", [{ provider: "a" }, { provider: "local" }]);
+    const req = { messages: [{ role: "user" as const, content: "x" }] };
+
+    const preferred = await chat("coordinator", req, { prefer: { provider: "local", model: "qwen2.5" } });
+    expect(preferred).toMatchObject({ provider: "local", model: "qwen2.5" });
+    expect((await chat("coordinator", req, { exclude: ["a"] })).provider).toBe("local");
+  });
+
+  it("sends the request's model only to the requested provider", async () => {
+    const a = createFakeProvider({ name: "a", replies: [outage()] });
+    const openai = createFakeProvider({ name: "openai", replies: ["gpt"] });
+    const local = createFakeProvider({ name: "local", replies: ["llama"] });
+    registerProvider(a);
+    registerProvider(openai);
+    registerProvider(local);
+    setChain("coordinator", [{ provider: "a" }, { provider: "openai", model: "gpt-4o" }, { provider: "local" }]);
+    const req = { model: "claude-sonnet-4-6", messages: [{ role: "user" as const, content: "x" }] };
+
+    expect(await chat("coordinator", req)).toMatchObject({ provider: "openai", model: "gpt-4o" });
+    expect(a.requests[0].model).toBe("claude-sonnet-4-6");
+    expect(await chat("coordinator", req, { exclude: ["a", "openai"] })).toMatchObject({ provider: "local", model: local.defaultModel });
+  });
+
+  it("skips unregistered providers and errors when none remain", async () => {
+    setChain("summaries", [{ provider: "missing" }]);
+    await expect(chat("summaries", { messages: [] })).rejects.toThrow("No LLM provider configured for summaries");
+  });
+
+  it("does not count non-outage errors against health", async () => {
+    registerProvider(createFakeProvider({ name: "a", replies: [new Error("invalid prompt")] }));
+    setChain("summaries", [{ provider: "a" }]);
+    await expect(chat("summaries", { messages: [] })).rejects.toThrow("invalid prompt");
+    expect(getProviderHealth("a").consecutive_failures).toBe(0);
+  });
+});
+
+describe("chains", () => {
+  it("defaults include a local endpoint for every use case", () => {
+    for (const chain of Object.values(DEFAULT_CHAINS)) {
+      expect(chain.some(e => e.provider === "local")).toBe(true);
+    }
+  });
+
+  it("reads a chain override from the environment", () => {
+    process.env.LLM_CHAIN_SUMMARIES = "local:llama3.1:8b, openai:gpt-4o-mini";
+    try {
+      expect(getChain("summaries")).toEqual([
+        { provider: "local", model: "llama3.1:8b" },
+        { provider: "openai", model: "gpt-4o-mini" },
+      ]);
+    } finally {
+      delete process.env.LLM_CHAIN_SUMMARIES;
+    }
+  });
+
+  it("parses model refs", () => {
+    registerProvider(createFakeProvider({ name: "local" }));
+    expect(parseModelRef("local:qwen2.5")).toEqual({ provider: "local", model: "qwen2.5" });
+    expect(parseModelRef("local")).toEqual({ provider: "local" });
+    expect(parseModelRef("gpt-4o")).toEqual({ model: "gpt-4o" });
+  });
+});
+
+describe("adapters", () => {
+  function captureFetch(response: unknown) {
+    const calls: Array<{ url: string; body: Record<string, unknown>; headers: Record<string, string> }> = [];
+    const fetchFn = async (url: string, init?: RequestInit) => {
+      calls.push({ url, body: JSON.parse(String(init?.body)), headers: init?.headers as Record<string, string> });
+      return new Response(JSON.stringify(response), { status: 200 });
+    };
+    return { calls, fetchFn };
+  }
+
+  const toolRequest = {
+    system: "be brief",
+    tools: [{ name: "lookup", description: "Look up", input_schema: { type: "object" } }],
+    messages: [
+      { role: "user" as const, content: "find it" },
+      { role: "assistant" as const, content: "", tool_calls: [{ id: "t1", name: "lookup", input: { q: "x" } }] },
+      { role: "tool" as const, tool_call_id: "t1", content: "found" },
+    ],
+  };
+
+  it("speaks OpenAI chat completions to a local endpoint", async () => {
+    const { calls, fetchFn } = captureFetch({
+      model: "llama3.1",
+      choices: [{ finish_reason: "tool_calls", message: { content: null, tool_calls: [{ id: "c1", function: { name: "lookup", arguments: '{"q":"y"}' } }] } }],
+      usage: { prompt_tokens: 10, completion_tokens: 3 },
+    });
+    const provider = createOpenAiCompatibleProvider({ name: "local", baseUrl: "http://localhost:11434/v1/", defaultModel: "llama3.1", isLocal: true, fetchFn });
+    const res = await provider.chat(toolRequest);
+
+    expect(calls[0].url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(calls[0].headers.Authorization).toBeUndefined();
+    const messages = calls[0].body.messages as Array<Record<string, unknown>>;
+    expect(messages[0]).toEqual({ role: "system", content: "be brief" });
+    expect(messages[3]).toEqual({ role: "tool", tool_call_id: "t1", content: "found" });
+    expect(res).toMatchObject({ provider: "local", stop_reason: "tool_use", tool_calls: [{ id: "c1", name: "lookup", input: { q: "y" } }] });
+    expect(res.usage).toEqual({ input_tokens: 10, output_tokens: 3 });
+  });
+
+  it("maps tool turns onto Anthropic content blocks", async () => {
+    const { calls, fetchFn } = captureFetch({
+      model: "claude-haiku-4-5-20251001",
+      stop_reason: "end_turn",
+      content: [{ type: "text", text: "done" }],
+    });
+    const provider = createAnthropicProvider({ apiKey: "k", fetchFn });
+    const res = await provider.chat(toolRequest);
+
+    const messages = calls[0].body.messages as Array<{ role: string; content: Array<Record<string, unknown>> }>;
+    expect(calls[0].body.system).toBe("be brief");
+    expect(messages[1].content[0]).toMatchObject({ type: "tool_use", id: "t1", name: "lookup" });
+    expect(messages[2]).toEqual({ role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "found" }] });
+    expect(res).toMatchObject({ provider: "anthropic", text: "done", stop_reason: "end" });
+  });
+
+  it("surfaces HTTP errors as outage-shaped API errors", async () => {
+    const fetchFn = async () => new Response("busy", { status: 529 });
+    const provider = createOpenAiCompatibleProvider({ name: "openai", baseUrl: "https://api.example", defaultModel: "gpt-4o", fetchFn });
+    await expect(provider.chat({ messages: [] })).rejects.toThrow("openai API error 529: busy");
+  });
+});
+
+describe("Anthropic fallback state", () => {
+  it("activates after repeated outage errors and notifies once", () => {
+    recordAnthropicFailure(new Error("529 overloaded"));
+    expect(isFallbackActive()).toBe(false);
+    recordAnthropicFailure(new Error("529 overloaded"));
+    expect(isFallbackActive()).toBe(true);
+    expect(consumeFallbackJustActivated()).toBe(true);
+    expect(consumeFallbackJustActivated()).toBe(false);
+
+    recordAnthropicSuccess();
+    expect(isFallbackActive()).toBe(false);
+  });
+
+  it("answers fallback conversation from the chain without Anthropic", async () => {
+    const anthropic = createFakeProvider({ name: "anthropic", replies: ["should not be used"] });
+    const local = createFakeProvider({ name: "local", replies: ["hello from local"] });
+    registerProvider(anthropic);
+    registerProvider(local);
+
+    expect(await callOpenAiFallback("hi")).toBe("hello from local");
+    expect(anthropic.requests).toHaveLength(0);
+    expect(local.requests[0].system).toBeTruthy();
+  });
+
+  it("explains when no fallback provider is configured", async () => {
+    await expect(callOpenAiFallback("hi")).rejects.toThrow("No fallback LLM provider configured");
+  });
+});
@@ -0,0 +1,550 @@
+/**
+ * Channel Tests: Matrix
+ *
+ * Client, /sync loop, handler and adapter against the fake homeserver in
+ * helpers/fake-matrix-homeserver.ts. Claude and message persistence are
+ * mocked; everything else talks real HTTP.
+ */
+
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+
+// ── Mocks ─────────────────────────────────────────────────────
+const claudeReplies: string[] = [];
+const claudePrompts: string[] = [];
+mock.module("../src/claude-cli.ts", () => ({
+  callClaude: mock(async (prompt: string) => {
+    claudePrompts.push(prompt);
+    return claudeReplies.shift() ?? "mock response";
+  }),
+}));
+let savedSeq = 0;
+const saved: { role: string; content: string; channel: string }[] = [];
+mock.module("../src/message-sender.ts", () => ({
+  saveMessage: mock(async (role: string, content: string, _meta: unknown, channel: string) => {
+    saved.push({ role, content, channel });
+    return `msg-${++savedSeq}`;
+  }),
+}));
+
+import { createMatrixClient, MatrixApiError, type MatrixClient } from "../src/channels/matrix/client.ts";
+import { markdownToMatrixHtml, matrixTextContent } from "../src/channels/matrix/format.ts";
+import { normalizeMatrixEvent, normalizeMatrixReaction } from "../src/channels/matrix/normalize.ts";
+import { createMatrixSyncLoop } from "../src/channels/matrix/sync.ts";
+import { sendMatrixMessage, MATRIX_MAX_MESSAGE_LENGTH } from "../src/channels/matrix/send.ts";
+import type { MatrixHandlerContext } from "../src/channels/matrix/handler.ts";
+import { createMatrixAdapter } from "../src/channels/matrix/adapter.ts";
+import { runChannelConformance } from "../src/channels/conformance.ts";
+import { _makeMockReactionsDeps } from "../src/api/reactions.ts";
+import { startFakeMatrixHomeserver, type FakeMatrixHomeserver } from "./helpers/fake-matrix-homeserver.ts";
+
+// The handler imports the mocked modules — load it after mock.module
+const { handleMatrixMessage, handleMatrixReaction, handleMatrixRedaction, _resetMatrixHandlerForTesting } =
+  await import("../src/channels/matrix/handler.ts");
+
+const ROOM = "!dev:example.test";
+const DAVE = "@dave:example.test";
+
+let hs: FakeMatrixHomeserver;
+let client: MatrixClient;
+
+beforeEach(async () => {
+  hs = await startFakeMatrixHomeserver();
+  client = createMatrixClient({ homeserverUrl: hs.url, accessToken: hs.accessToken });
+  hs.joined.add(ROOM);
+  claudeReplies.length = 0;
+  claudePrompts.length = 0;
+  saved.length = 0;
+  savedSeq = 0;
+  _resetMatrixHandlerForTesting();
+  process.env.MATRIX_ALLOWED_USER_ID = DAVE;
+});
+
+afterEach(async () => {
+  await hs.close();
+});
+
+async function waitFor(cond: () => boolean, ms = 2000): Promise<void> {
+  const deadline = Date.now() + ms;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error("timed out waiting");
+    await new Promise(r => setTimeout(r, 10));
+  }
+}
+
+// ── Client ────────────────────────────────────────────────────
+
+describe("matrix client", () => {
+  test("whoami returns the bot user", async () => {
+    expect((await client.whoami()).user_id).toBe(hs.botUserId);
+  });
+
+  test("bad token surfaces M_UNKNOWN_TOKEN", async () => {
+    const bad = createMatrixClient({ homeserverUrl: hs.url, accessToken: "nope" });
+    const err = await bad.whoami().catch(e => e);
+    expect(err).toBeInstanceOf(MatrixApiError);
+    expect(err.status).toBe(401);
+    expect(err.errcode).toBe("M_UNKNOWN_TOKEN");
+  });
+
+  test("rate limits carry retry_after_ms", async () => {
+    hs.failNext("/account/whoami", 429, { errcode: "M_LIMIT_EXCEEDED", retry_after_ms: 1234 });
+    const err = await client.whoami().catch(e => e);
+    expect(err.errcode).toBe("M_LIMIT_EXCEEDED");
+    expect(err.retryAfterMs).toBe(1234);
+  });
+
+  test("sendEvent with the same transaction id is idempotent", async () => {
+    const a = await client.sendEvent(ROOM, "m.room.message", { msgtype: "m.text", body: "hi" }, "txn-1");
+    const b = await client.sendEvent(ROOM, "m.room.message", { msgtype: "m.text", body: "hi" }, "txn-1");
+    expect(a).toBe(b);
+    expect(hs.sent).toHaveLength(1);
+  });
+});
+
+// ── Formatting ────────────────────────────────────────────────
+
+describe("markdownToMatrixHtml", () => {
+  test("bold, italic, links and headings", () => {
+    expect(markdownToMatrixHtml("**bold** and *it*")).toBe("<strong>bold</strong> and <em>it</em>");
+    expect(markdownToMatrixHtml("[docs](https://example.org/a)")).toBe('<a href="https://example.org/a">docs</a>');
+    expect(markdownToMatrixHtml("## Title\ntext")).toBe("<h2>Title</h2>text");
+  });
+
+  test("code is escaped and not reformatted", () => {
+    expect(markdownToMatrixHtml("run `a **b** <c>`")).toBe("run <code>a **b** &lt;c&gt;</code>");
+    expect(markdownToMatrixHtml("```ts\nconst x = 1 < 2;\n```")).toBe('<pre><code class="language-ts">const x = 1 &lt; 2;</code></pre>');
+  });
+
+  test("raw HTML in the source is escaped", () => {
+    expect(markdownToMatrixHtml("<script>alert(1)</script>")).toBe("&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+
+  test("bullet lists become one <ul>", () => {
+    expect(markdownToMatrixHtml("Items:\n- one\n- two")).toBe("Items:<br><ul><li>one</li><li>two</li></ul>");
+  });
+
+  test("content keeps markdown body with HTML formatted_body", () => {
+    expect(matrixTextContent("**hi**")).toEqual({
+      msgtype: "m.text",
+      body: "**hi**",
+      format: "org.matrix.custom.html",
+      formatted_body: "<strong>hi</strong>",
+    });
+  });
+});
+
+// ── Normalize ─────────────────────────────────────────────────
+
+describe("normalizeMatrixEvent", () => {
+  const ctx = { botUserId: "@ellie:example.test", directRooms: new Set(["!dm:example.test"]) };
+  const ev = (content: Record<string, unknown>, sender = DAVE) => ({ type: "m.room.message", event_id: "$1", sender, content });
+
+  test("text message with thread and mention", () => {
+    const msg = normalizeMatrixEvent(ROOM, ev({
+      msgtype: "m.text",
+      body: "ellie: check the build",
+      "m.relates_to": { rel_type: "m.thread", event_id: "$root" },
+    }), ctx);
+    expect(msg).toMatchObject({ text: "check the build", threadId: "$root", mentioned: true, isDirect: false, senderName: "dave" });
+  });
+
+  test("m.mentions and direct rooms", () => {
+    const msg = normalizeMatrixEvent("!dm:example.test", ev({ msgtype: "m.text", body: "hi", "m.mentions": { user_ids: ["@ellie:example.test"] } }), ctx);
+    expect(msg).toMatchObject({ mentioned: true, isDirect: true });
+  });
+
+  test("strips the reply fallback", () => {
+    const msg = normalizeMatrixEvent(ROOM, ev({
+      msgtype: "m.text",
+      body: "> <@ellie:example.test> earlier answer\n\nthanks",
+      "m.relates_to": { "m.in_reply_to": { event_id: "$0" } },
+    }), ctx);
+    expect(msg!.text).toBe("thanks");
+  });
+
+  test("media keeps the mxc URI", () => {
+    const msg = normalizeMatrixEvent(ROOM, ev({ msgtype: "m.image", body: "cat.png", url: "mxc://example.test/abc" }), ctx);
+    expect(msg).toMatchObject({ text: "", attachmentUrls: ["mxc://example.test/abc"] });
+  });
+
+  test("ignores own messages, notices, edits and non-messages", () => {
+    expect(normalizeMatrixEvent(ROOM, ev({ msgtype: "m.text", body: "me" }, "@ellie:example.test"), ctx)).toBeNull();
+    expect(normalizeMatrixEvent(ROOM, ev({ msgtype: "m.notice", body: "bot" }), ctx)).toBeNull();
+    expect(normalizeMatrixEvent(ROOM, ev({ msgtype: "m.text", body: "* fix", "m.relates_to": { rel_type: "m.replace", event_id: "$0" } }), ctx)).toBeNull();
+    expect(normalizeMatrixEvent(ROOM, { type: "m.room.member", event_id: "$2", sender: DAVE, content: {} }, ctx)).toBeNull();
+    expect(normalizeMatrixEvent(ROOM, null, ctx)).toBeNull();
+  });
+
+  test("reactions", () => {
+    const r = normalizeMatrixReaction(ROOM, {
+      type: "m.reaction", event_id: "$r", sender: DAVE,
+      content: { "m.relates_to": { rel_type: "m.annotation", event_id: "$target", key: "👍" } },
+    }, ctx);
+    expect(r).toEqual({ eventId: "$r", roomId: ROOM, senderId: DAVE, targetEventId: "$target", key: "👍" });
+  });
+});
+
+// ── Sync loop ─────────────────────────────────────────────────
+
+describe("matrix sync loop", () => {
+  test("initial sync skips history, then long-polls new events", async () => {
+    hs.postMessage(ROOM, DAVE, "old message");
+    const messages: string[] = [];
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, timeoutMs: 5000,
+      handlers: { onMessage: m => { messages.push(m.text); }, onReaction: () => {} },
+    });
+    await loop.syncOnce();
+    expect(messages).toEqual([]);
+
+    const pending = loop.syncOnce();
+    await new Promise(r => setTimeout(r, 50));
+    hs.postMessage(ROOM, DAVE, "new message");
+    await pending;
+    expect(messages).toEqual(["new message"]);
+  });
+
+  test("dispatches reactions and redactions, skips own echoes", async () => {
+    const seen: string[] = [];
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, timeoutMs: 100,
+      handlers: {
+        onMessage: m => { seen.push(`msg:${m.text}`); },
+        onReaction: r => { seen.push(`react:${r.key}`); },
+        onRedaction: id => { seen.push(`redact:${id}`); },
+      },
+    });
+    await loop.syncOnce();
+    await client.sendEvent(ROOM, "m.room.message", { msgtype: "m.text", body: "from bot" });
+    const target = hs.postMessage(ROOM, DAVE, "hello");
+    const reaction = hs.react(ROOM, DAVE, target, "🎉");
+    hs.redact(ROOM, DAVE, reaction);
+    await loop.syncOnce();
+    expect(seen).toEqual(["msg:hello", "react:🎉", `redact:${reaction}`]);
+  });
+
+  test("invites and m.direct mark direct rooms", async () => {
+    const invited: [string, string | null, boolean][] = [];
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, timeoutMs: 100,
+      handlers: { onMessage: () => {}, onReaction: () => {}, onInvite: (room, inviter, direct) => { invited.push([room, inviter, direct]); } },
+    });
+    hs.setDirectRooms(DAVE, ["!old-dm:example.test"]);
+    hs.invite("!new-dm:example.test", DAVE, { isDirect: true });
+    await loop.syncOnce();
+    expect(invited).toEqual([["!new-dm:example.test", DAVE, true]]);
+    expect([...loop.directRooms].sort()).toEqual(["!new-dm:example.test", "!old-dm:example.test"]);
+  });
+
+  test("a handler error doesn't stop the batch", async () => {
+    const seen: string[] = [];
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, timeoutMs: 100,
+      handlers: {
+        onMessage: m => { if (m.text === "boom") throw new Error("boom"); seen.push(m.text); },
+        onReaction: () => {},
+      },
+    });
+    await loop.syncOnce();
+    hs.postMessage(ROOM, DAVE, "boom");
+    hs.postMessage(ROOM, DAVE, "after");
+    await loop.syncOnce();
+    expect(seen).toEqual(["after"]);
+  });
+
+  test("start retries after errors and stop ends the long-poll", async () => {
+    const seen: string[] = [];
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, timeoutMs: 5000, minBackoffMs: 10,
+      handlers: { onMessage: m => { seen.push(m.text); }, onReaction: () => {} },
+    });
+    hs.failNext("/sync", 502, { errcode: "M_UNKNOWN", error: "bad gateway" });
+    loop.start();
+    await waitFor(() => hs.syncCount() >= 2);
+    hs.postMessage(ROOM, DAVE, "after outage");
+    await waitFor(() => seen.length === 1);
+    expect(seen).toEqual(["after outage"]);
+
+    const started = Date.now();
+    await loop.stop();
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(loop.isRunning()).toBe(false);
+  });
+
+  test("a revoked token stops the loop", async () => {
+    const loop = createMatrixSyncLoop({
+      client, botUserId: hs.botUserId, minBackoffMs: 10,
+      handlers: { onMessage: () => {}, onReaction: () => {} },
+    });
+    hs.failNext("/sync", 401, { errcode: "M_UNKNOWN_TOKEN", error: "revoked" });
+    loop.start();
+    await waitFor(() => !loop.isRunning());
+    await new Promise(r => setTimeout(r, 50));
+    // The rejected request was the only one — no retries
+    expect(hs.syncCount()).toBe(0);
+    await loop.stop();
+  });
+});
+
+// ── Send ──────────────────────────────────────────────────────
+
+describe("sendMatrixMessage", () => {
+  test("threads every chunk of a long reply", async () => {
+    const long = Array.from({ length: 3 }, (_, i) => `${"x".repeat(MATRIX_MAX_MESSAGE_LENGTH - 100)} part${i}`).join("\n\n");
+    const ids = await sendMatrixMessage(client, ROOM, long, { threadId: "$root", replyTo: "$user" });
+    expect(ids).toHaveLength(3);
+    for (const event of hs.sent) {
+      expect(event.content["m.relates_to"]).toMatchObject({ rel_type: "m.thread", event_id: "$root" });
+      expect(event.content.format).toBe("org.matrix.custom.html");
+    }
+    const first = hs.sent[0].content["m.relates_to"] as Record<string, unknown>;
+    expect(first["m.in_reply_to"]).toEqual({ event_id: "$user" });
+    expect(first.is_falling_back).toBe(false);
+  });
+});
+
+// ── Handler ───────────────────────────────────────────────────
+
+describe("matrix handler", () => {
+  function ctx(): MatrixHandlerContext & { store: ReturnType<typeof _makeMockReactionsDeps>["store"] } {
+    const { deps, store } = _makeMockReactionsDeps();
+    return { client, reactions: deps, store };
+  }
+
+  function inbound(text: string, eventId: string, threadId: string | null = null) {
+    return { text, eventId, roomId: ROOM, senderId: DAVE, senderName: "dave", threadId, isDirect: false, mentioned: true, attachmentUrls: [], timestamp: null };
+  }
+
+  test("replies in a thread rooted on the user's message, as HTML", async () => {
+    const userEvent = hs.postMessage(ROOM, DAVE, "hello");
+    claudeReplies.push("**Done.**");
+    await handleMatrixMessage(ctx(), inbound("hello", userEvent), "dev");
+
+    expect(claudePrompts[0]).toBe("[Matrix · dev · from dave]\n\nhello");
+    expect(hs.sent).toHaveLength(1);
+    expect(hs.sent[0].content).toMatchObject({
+      body: "**Done.**",
+      formatted_body: "<strong>Done.</strong>",
+      "m.relates_to": { rel_type: "m.thread", event_id: userEvent, "m.in_reply_to": { event_id: userEvent } },
+    });
+    expect(saved.map(s => [s.role, s.channel])).toEqual([["user", "matrix"], ["assistant", "matrix"]]);
+  });
+
+  test("stays in an existing thread", async () => {
+    const userEvent = hs.postMessage(ROOM, DAVE, "follow-up");
+    await handleMatrixMessage(ctx(), inbound("follow-up", userEvent, "$root"), "dev");
+    expect(hs.sent[0].content["m.relates_to"]).toMatchObject({ rel_type: "m.thread", event_id: "$root" });
+  });
+
+  test("errors send an apology into the thread", async () => {
+    const { callClaude } = await import("../src/claude-cli.ts");
+    (callClaude as ReturnType<typeof mock>).mockImplementationOnce(async () => { throw new Error("cli down"); });
+    const userEvent = hs.postMessage(ROOM, DAVE, "hello");
+    await handleMatrixMessage(ctx(), inbound("hello", userEvent), "dev");
+    expect(hs.sent[0].content.body).toBe("Sorry, something went wrong. Please try again.");
+  });
+
+  test("CONFIRM tags become a reaction approval that resumes Claude", async () => {
+    const c = ctx();
+    const userEvent = hs.postMessage(ROOM, DAVE, "deploy it");
+    claudeReplies.push("Ready to deploy. [CONFIRM: Deploy v2 to production]", "Deployed.");
+    await handleMatrixMessage(c, inbound("deploy it", userEvent), "dev");
+
+    const confirm = hs.sent.find(e => String(e.content.body).startsWith("⚠️ Confirm action"))!;
+    expect(confirm.content.body).toContain("Deploy v2 to production");
+    expect(hs.sent[0].content.body).toBe("Ready to deploy.");
+    // Bot seeds ✅ and ❌ on the confirm message
+    const seeded = hs.sent.filter(e => e.type === "m.reaction").map(e => (e.content["m.relates_to"] as Record<string, unknown>).key);
+    expect(seeded).toEqual(["✅", "❌"]);
+
+    await handleMatrixReaction(c, { eventId: "$r1", roomId: ROOM, senderId: DAVE, targetEventId: confirm.event_id, key: "✅️" });
+
+    const edit = hs.sent.find(e => (e.content["m.relates_to"] as Record<string, unknown> | undefined)?.rel_type === "m.replace")!;
+    expect((edit.content["m.new_content"] as Record<string, unknown>).body).toBe("✅ Approved: Deploy v2 to production");
+    expect(claudePrompts[1]).toContain('The user APPROVED the following action: "Deploy v2 to production"');
+    expect(claudePrompts[1]).toContain("Original request: deploy it");
+    expect(hs.sent.at(-1)!.content.body).toBe("Deployed.");
+    expect(hs.sent.at(-1)!.content["m.relates_to"]).toMatchObject({ rel_type: "m.thread", event_id: userEvent });
+
+    // A second tap does nothing — the action is resolved
+    const count = hs.sent.length;
+    await handleMatrixReaction(c, { eventId: "$r2", roomId: ROOM, senderId: DAVE, targetEventId: confirm.event_id, key: "❌" });
+    expect(hs.sent).toHaveLength(count);
+  });
+
+  test("❌ denies", async () => {
+    const c = ctx();
+    const userEvent = hs.postMessage(ROOM, DAVE, "delete the branch");
+    claudeReplies.push("[CONFIRM: Delete branch old-work]", "Okay, leaving it.");
+    await handleMatrixMessage(c, inbound("delete the branch", userEvent), "dev");
+    const confirm = hs.sent.find(e => String(e.content.body).startsWith("⚠️ Confirm action"))!;
+
+    await handleMatrixReaction(c, { eventId: "$r", roomId: ROOM, senderId: DAVE, targetEventId: confirm.event_id, key: "❌" });
+    expect(claudePrompts[1]).toContain('The user DENIED the following action: "Delete branch old-work"');
+    expect(saved.some(s => s.content === "[Denied action: Delete branch old-work]")).toBe(true);
+  });
+
+  test("approvals from users outside MATRIX_ALLOWED_USER_ID are ignored", async () => {
+    const c = ctx();
+    const userEvent = hs.postMessage(ROOM, DAVE, "deploy");
+    claudeReplies.push("[CONFIRM: Deploy]");
+    await handleMatrixMessage(c, inbound("deploy", userEvent), "dev");
+    const confirm = hs.sent.find(e => String(e.content.body).startsWith("⚠️ Confirm action"))!;
+    const count = hs.sent.length;
+
+    await handleMatrixReaction(c, { eventId: "$r", roomId: ROOM, senderId: "@mallory:example.test", targetEventId: confirm.event_id, key: "✅" });
+    expect(hs.sent).toHaveLength(count);
+    expect(claudePrompts).toHaveLength(1);
+  });
+
+  test("without MATRIX_ALLOWED_USER_ID, approvals are ignored", async () => {
+    const c = ctx();
+    const userEvent = hs.postMessage(ROOM, DAVE, "deploy");
+    claudeReplies.push("[CONFIRM: Deploy]");
+    await handleMatrixMessage(c, inbound("deploy", userEvent), "dev");
+    const confirm = hs.sent.find(e => String(e.content.body).startsWith("⚠️ Confirm action"))!;
+    const count = hs.sent.length;
+
+    delete process.env.MATRIX_ALLOWED_USER_ID;
+    await handleMatrixReaction(c, { eventId: "$r", roomId: ROOM, senderId: DAVE, targetEventId: confirm.event_id, key: "✅" });
+    expect(hs.sent).toHaveLength(count);
+    expect(claudePrompts).toHaveLength(1);
+  });
+
+  test("other reactions are recorded on the saved message and removed on redaction", async () => {
+    const c = ctx();
+    const userEvent = hs.postMessage(ROOM, DAVE, "hello");
+    await handleMatrixMessage(c, inbound("hello", userEvent), "dev");
+    const reply = hs.sent[0].event_id;
+
+    await handleMatrixReaction(c, { eventId: "$like", roomId: ROOM, senderId: DAVE, targetEventId: reply, key: "👍" });
+    // saveMessage ids: msg-1 user, msg-2 assistant
+    expect([...c.store.reactions.values()].map(r => [r.message_id, r.emoji, r.user_id])).toEqual([["msg-2", "👍", DAVE]]);
+
+    await handleMatrixRedaction(c, "$like");
+    expect(c.store.reactions.size).toBe(0);
+  });
+});
+
+// ── Adapter conformance ───────────────────────────────────────
+
+describe("matrix adapter", () => {
+  test("passes the channel conformance kit", async () => {
+    const adapter = createMatrixAdapter({ client: () => client });
+    const report = await runChannelConformance({
+      adapter,
+      inbound: {
+        accept: [
+          { payload: { room_id: ROOM, event: { type: "m.room.message", event_id: "$a", sender: DAVE, content: { msgtype: "m.text", body: "hello" } } }, text: "hello" },
+        ],
+        ignore: [
+          { room_id: ROOM, event: { type: "m.room.message", event_id: "$b", sender: DAVE, content: { msgtype: "m.notice", body: "bot" } } },
+          { room_id: ROOM, event: { type: "m.room.member", event_id: "$c", sender: DAVE, content: { membership: "join" } } },
+        ],
+      },
+      outbound: {
+        target: { conversationId: ROOM },
+        threadId: "$thread",
+        harness: () => {
+          const from = hs.sent.length;
+          return {
+            sent: () => hs.sent.slice(from).filter(e => e.type === "m.room.message").map(e => {
+              const rel = e.content["m.relates_to"] as Record<string, unknown> | undefined;
+              return { text: String(e.content.body), threadId: rel?.rel_type === "m.thread" ? String(rel.event_id) : undefined };
+            }),
+          };
+        },
+      },
+    });
+    expect(report.failures).toEqual([]);
+  });
+
+  test("normalizes the UMS-shaped payload", () => {
+    const msg = createMatrixAdapter().normalize({
+      room_id: ROOM, is_direct: true,
+      event: { type: "m.room.message", event_id: "$a", sender: DAVE, content: { msgtype: "m.text", body: "hi", "m.relates_to": { rel_type: "m.thread", event_id: "$t" } } },
+    });
+    expect(msg).toMatchObject({ channel: "matrix", messageId: "$a", conversationId: ROOM, threadId: "$t", isDirect: true, sender: { id: DAVE, name: "dave" } });
+  });
+
+  test("send, edit and react go through the client", async () => {
+    const adapter = createMatrixAdapter({ client: () => client });
+    const receipt = await adapter.send!({ conversationId: ROOM, threadId: "$t" }, { text: "Pick one", buttons: [{ id: "a", label: "Alpha" }] });
+    expect(receipt.threadId).toBe("$t");
+    expect(hs.sent[0].content.body).toContain("Alpha");
+    await adapter.edit!({ conversationId: ROOM }, receipt.messageIds[0], "Edited");
+    await adapter.react!({ conversationId: ROOM }, receipt.messageIds[0], "👀");
+    expect(hs.sent.map(e => e.type)).toEqual(["m.room.message", "m.room.message", "m.reaction"]);
+  });
+
+  test("without a started sync, sends fail clearly", async () => {
+    const adapter = createMatrixAdapter({ client: () => null });
+    await expect(adapter.send!({ conversationId: ROOM }, { text: "x" })).rejects.toThrow("Matrix sync not started");
+  });
+});
+
+// ── Channel lifecycle (env routing, invites, end to end) ──────
+
+describe("matrix channel", () => {
+  const ENV_KEYS = ["MATRIX_HOMESERVER_URL", "MATRIX_ACCESS_TOKEN", "MATRIX_ROOM_DEV", "MATRIX_ALLOWED_USER_ID"];
+
+  afterEach(async () => {
+    const { stopMatrixSync } = await import("../src/channels/matrix/index.ts");
+    await stopMatrixSync();
+    for (const key of ENV_KEYS) delete process.env[key];
+  });
+
+  test("routes mapped rooms to their agent, joins invites and answers in threads", async () => {
+    process.env.MATRIX_HOMESERVER_URL = hs.url;
+    process.env.MATRIX_ACCESS_TOKEN = hs.accessToken;
+    process.env.MATRIX_ROOM_DEV = ROOM;
+    process.env.MATRIX_ALLOWED_USER_ID = DAVE;
+    const { startMatrixSync, resolveAgent, getMatrixClient } = await import("../src/channels/matrix/index.ts");
+
+    await startMatrixSync(null);
+    expect(getMatrixClient()).not.toBeNull();
+    expect(resolveAgent(ROOM)).toBe("dev");
+    expect(resolveAgent("!elsewhere:example.test")).toBe("general");
+
+    hs.invite("!dm:example.test", DAVE, { isDirect: true });
+    hs.invite("!spam:example.test", "@mallory:example.test");
+    await waitFor(() => hs.joined.has("!dm:example.test"));
+    expect(hs.joined.has("!spam:example.test")).toBe(false);
+
+    // Unaddressed chatter in an unmapped room is not answered
+    hs.joined.add("!lobby:example.test");
+    hs.postMessage("!lobby:example.test", DAVE, "just chatting");
+    const question = hs.postMessage(ROOM, DAVE, "status?");
+    await waitFor(() => hs.sent.length === 1);
+    expect(claudePrompts).toEqual(["[Matrix · dev · from dave]\n\nstatus?"]);
+    expect(hs.sent[0].content["m.relates_to"]).toMatchObject({ rel_type: "m.thread", event_id: question });
+
+    // Direct rooms are answered without a mention
+    hs.postMessage("!dm:example.test", DAVE, "hi in private");
+    await waitFor(() => hs.sent.length === 2);
+    expect(claudePrompts[1]).toBe("[Matrix · general · from dave]\n\nhi in private");
+  });
+
+  test("without MATRIX_ALLOWED_USER_ID, refuses invites and messages", async () => {
+    process.env.MATRIX_HOMESERVER_URL = hs.url;
+    process.env.MATRIX_ACCESS_TOKEN = hs.accessToken;
+    delete process.env.MATRIX_ALLOWED_USER_ID;
+    const { startMatrixSync } = await import("../src/channels/matrix/index.ts");
+
+    await startMatrixSync(null);
+    hs.invite("!dm:example.test", DAVE, { isDirect: true });
+    hs.postMessage(ROOM, DAVE, "@ellie status?");
+    await new Promise(r => setTimeout(r, 200));
+    expect(hs.joined.has("!dm:example.test")).toBe(false);
+    expect(hs.sent).toHaveLength(0);
+    expect(claudePrompts).toHaveLength(0);
+  });
+
+  test("start fails when the homeserver rejects the token", async () => {
+    process.env.MATRIX_HOMESERVER_URL = hs.url;
+    process.env.MATRIX_ACCESS_TOKEN = "wrong";
+    const { startMatrixSync, getMatrixClient } = await import("../src/channels/matrix/index.ts");
+    await expect(startMatrixSync(null)).rejects.toThrow("M_UNKNOWN_TOKEN");
+    expect(getMatrixClient()).toBeNull();
+  });
+});
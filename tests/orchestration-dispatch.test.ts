@@ -44,10 +44,14 @@ mock.module("../src/notification-policy.ts", () => ({
 const mockWithTrace = mock((_fn: () => Promise<any>) => Promise.resolve());
 const mockGetTraceId = mock(() => "trace-test-id");
 const mockGenerateTraceId = mock(() => "generated-trace-id");
+const noopSpan = { setAttribute: () => {}, setAttributes: () => {}, end: () => {} };
 mock.module("../src/trace.ts", () => ({
   withTrace: mockWithTrace,
   getTraceId: mockGetTraceId,
   generateTraceId: mockGenerateTraceId,
+  getSpanId: mock(() => null),
+  startSpan: mock(() => noopSpan),
+  withSpan: mock((_name: string, fn: (span: typeof noopSpan) => any) => fn(noopSpan)),
 }));
 
 // Stub all other heavy imports
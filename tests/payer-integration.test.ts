@@ -8,18 +8,21 @@
  * - Submission router
  * - EDI validation
  * - E2E: claim -> format -> validate -> parse response
+ * - X12 round-trips against fixtures (tests/fixtures/x12)
  */
 
 import { describe, test, expect } from "bun:test";
 import { readFileSync } from "fs";
 import { join } from "path";
 import {
-  formatEDI837P, parseEDI835,
+  formatEDI837P, parseEDI835, parseEDI837P, formatEDI835,
   routeSubmission, validateEDI837P, validateEDI835,
   VALID_SUBMISSION_METHODS, VALID_CLEARINGHOUSES,
   type PayerIntegration, type SubmissionRequest,
 } from "../src/payer-integration.ts";
 import type { ClaimDocument } from "../src/claim-submission.ts";
+import { createControlNumberAllocator } from "../src/x12.ts";
+import { DEFAULT_SCRUB_RULES, type SubmissionScrub } from "../src/claim-scrubber.ts";
 
 // ── Helpers ─────────────────────────────────────────────────
 
@@ -50,6 +53,8 @@ function makeClaim(): ClaimDocument {
   };
 }
 
+const scrub: SubmissionScrub = { rules: DEFAULT_SCRUB_RULES, context: { today: "2026-03-20" } };
+
 function makeIntegration(overrides: Partial<PayerIntegration> = {}): PayerIntegration {
   return {
     id: "pi-1", payer_id: "aetna", payer_name: "Aetna",
@@ -146,10 +151,10 @@ describe("formatEDI837P", () => {
     expect(edi).toContain("CLM*CLM-TEST001*150.00");
   });
 
-  test("includes diagnosis codes in HI segment", () => {
+  test("includes diagnosis codes in HI segment (ICD-10 without the decimal point)", () => {
     const edi = formatEDI837P(makeClaim());
-    expect(edi).toContain("HI*ABK:J06.9");
-    expect(edi).toContain("ABF:R05.9");
+    expect(edi).toContain("HI*ABK:J069");
+    expect(edi).toContain("ABF:R059");
   });
 
   test("includes service line with CPT code", () => {
@@ -254,33 +259,65 @@ describe("parseEDI835", () => {
 
 describe("routeSubmission", () => {
   test("EDI route produces x12_837p format", () => {
-    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "edi" }));
+    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "edi" }), scrub);
     expect(req.method).toBe("edi");
     expect(req.format).toBe("x12_837p");
     expect(req.payload).toContain("ISA*");
     expect(req.filename).toContain(".edi");
     expect(req.clearinghouse).toBe("availity");
+    expect(req.issues).toEqual([]);
+    expect(req.interchange_control_number).toMatch(/^\d{9}$/);
+    expect(req.payload).toContain(`IEA*1*${req.interchange_control_number}~`);
   });
 
   test("API route produces JSON format", () => {
-    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "api" }));
+    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "api" }), scrub);
     expect(req.method).toBe("api");
     expect(req.format).toBe("json");
     expect(JSON.parse(req.payload).claim_id).toBe("CLM-TEST001");
   });
 
   test("SFTP route produces EDI file with filename", () => {
-    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "sftp", sftp_host: "sftp.payer.com" }));
+    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "sftp", sftp_host: "sftp.payer.com" }), scrub);
     expect(req.method).toBe("sftp");
     expect(req.endpoint).toBe("sftp.payer.com");
     expect(req.filename).toContain(".edi");
   });
 
   test("portal route produces JSON", () => {
-    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "portal", endpoint_url: "https://portal.payer.com" }));
+    const req = routeSubmission(makeClaim(), makeIntegration({ submission_method: "portal", endpoint_url: "https://portal.payer.com" }), scrub);
     expect(req.method).toBe("portal");
     expect(req.format).toBe("json");
   });
+
+  test("scrubber errors block the claim before an 837P is built", () => {
+    const claim = makeClaim();
+    claim.line_items.push({ line_number: 2, cpt_code: "36415", modifiers: [], diagnosis_pointers: [0], units: 1, charge_cents: 2000, expected_reimbursement_cents: 1500 });
+    const req = routeSubmission(claim, makeIntegration({ submission_method: "edi" }), scrub);
+    expect(req.payload).toBe("");
+    expect(req.interchange_control_number).toBeNull();
+    expect(req.issues.map(i => i.code)).toEqual(["SCRUB_ERROR"]);
+    expect(req.issues[0].message).toContain("ncci:em:36415");
+    expect(claim.scrub_findings).toEqual(req.scrub_findings);
+  });
+
+  test("scrubber rules and context come from the caller", () => {
+    const claim = makeClaim();
+    const req = routeSubmission(claim, makeIntegration(), {
+      rules: [{ rule_key: "timely-filing", kind: "timely_filing", description: "Timely filing", severity: "error", params: {}, effective_date: "2020-01-01", enabled: true }],
+      context: { timely_filing_days: 90, today: "2026-09-01" },
+    });
+    expect(req.payload).toBe("");
+    expect(req.issues[0].message).toContain("timely-filing");
+  });
+
+  test("warnings alone don't block submission", () => {
+    const claim = makeClaim();
+    claim.prior_auth_flags = [{ cpt_code: "99213", payer_id: "aetna", auth_phone: null, notes: null }];
+    const req = routeSubmission(claim, makeIntegration(), scrub);
+    expect(req.payload).toContain("ISA*");
+    expect(req.scrub_findings.map(f => f.severity)).toContain("warning");
+  });
 });
 
 // ── Validation ──────────────────────────────────────────────
@@ -317,7 +354,7 @@ describe("E2E: claim EDI round-trip", () => {
     expect(validateEDI837P(edi837).valid).toBe(true);
 
     // Route through clearinghouse
-    const req = routeSubmission(claim, makeIntegration());
+    const req = routeSubmission(claim, makeIntegration(), scrub);
     expect(req.method).toBe("edi");
     expect(req.clearinghouse).toBe("availity");
 
@@ -334,3 +371,160 @@ describe("E2E: claim EDI round-trip", () => {
     expect(remittance[0].patient_responsibility_cents).toBe(2000);
   });
 });
+
+// ── X12 round-trips (fixtures) ──────────────────────────────
+
+const fixture = (name: string) => readFileSync(join(import.meta.dir, "fixtures/x12", name), "utf-8");
+
+/** The claim behind fixtures/x12/837p-claim.edi. */
+function makeFixtureClaim(): ClaimDocument {
+  const claim = makeClaim();
+  return {
+    ...claim,
+    insurance: { ...claim.insurance, payer_id: "60054" },
+    provider: { npi: "1234567890", name: "Smith Family Practice", taxonomy_code: "207Q00000X" },
+    facility: { npi: "1999999999", name: "Main Street Clinic", place_of_service: "11" },
+    line_items: [
+      { line_number: 1, cpt_code: "99213", modifiers: ["25"], diagnosis_pointers: [0, 1], units: 1, charge_cents: 15000, expected_reimbursement_cents: 12000 },
+      { line_number: 2, cpt_code: "87880", modifiers: [], diagnosis_pointers: [0], units: 1, charge_cents: 3500, expected_reimbursement_cents: null },
+    ],
+    total_charge_cents: 18500,
+  };
+}
+
+const FIXTURE_837_OPTIONS = {
+  date: new Date("2026-03-16T09:30:00Z"),
+  sender: { qualifier: "ZZ", id: "ELLIEBILLING" },
+  receiver: { qualifier: "ZZ", id: "AVAILITY" },
+};
+
+describe("837P round-trip", () => {
+  test("formatter output matches the fixture byte for byte", () => {
+    const edi = formatEDI837P(makeFixtureClaim(), {
+      ...FIXTURE_837_OPTIONS,
+      controlNumbers: createControlNumberAllocator({ interchange: 41, group: 41 }),
+    });
+    expect(edi).toBe(fixture("837p-claim.edi"));
+  });
+
+  test("fixture passes envelope and loop-level validation", () => {
+    expect(validateEDI837P(fixture("837p-claim.edi"))).toEqual({ valid: true, errors: [], issues: [] });
+  });
+
+  test("parsing the fixture recovers the claim", () => {
+    const claim = makeFixtureClaim();
+    const { claims, issues } = parseEDI837P(fixture("837p-claim.edi"));
+    expect(issues).toEqual([]);
+    expect(claims).toEqual([{
+      claim_id: claim.claim_id,
+      encounter_date: claim.encounter_date,
+      patient: { first_name: "Jane", last_name: "Doe", dob: "1985-06-15", gender: "female", member_id: "MEM-123" },
+      insurance: { payer_id: "60054", payer_name: "Aetna", plan_id: "PPO-500", group_number: "GRP-789" },
+      provider: claim.provider,
+      facility: claim.facility,
+      diagnoses: claim.diagnoses,
+      line_items: claim.line_items.map(({ expected_reimbursement_cents: _, ...li }) => li),
+      total_charge_cents: claim.total_charge_cents,
+    }]);
+  });
+
+  test("format -> parse -> format is stable", () => {
+    const options = () => ({ ...FIXTURE_837_OPTIONS, controlNumbers: createControlNumberAllocator() });
+    const original = makeFixtureClaim();
+    const [parsed] = parseEDI837P(formatEDI837P(original, options())).claims;
+    const rebuilt: ClaimDocument = {
+      ...original,
+      ...parsed,
+      patient: { ...parsed.patient, id: original.patient.id },
+      insurance: { ...parsed.insurance, subscriber_id: original.insurance.subscriber_id },
+      line_items: parsed.line_items.map((li, i) => ({ ...li, expected_reimbursement_cents: original.line_items[i].expected_reimbursement_cents })),
+    };
+    expect(formatEDI837P(rebuilt, options())).toBe(formatEDI837P(original, options()));
+  });
+
+  test("invalid fixture reports envelope, hierarchy and loop issues with positions", () => {
+    const result = validateEDI837P(fixture("837p-invalid.edi"));
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => [i.code, i.segment_id, i.position, i.loop ?? null])).toEqual([
+      ["COUNT_MISMATCH", "SE", 21, null],
+      ["CONTROL_NUMBER_MISMATCH", "GE", 24, null],
+      ["INVALID_ELEMENT", "CLM", 13, "2300"],
+      ["MISSING_SEGMENT", "HI", 13, "2300"],
+      ["INVALID_HIERARCHY", "HL", 5, null],
+      ["INVALID_HIERARCHY", "HL", 8, null],
+    ]);
+    expect(result.errors[2]).toBe('CLM #13 loop 2300: CLM02 (Total Claim Charge Amount) has invalid value "18X.00"');
+  });
+
+  test("names, IDs and codes can't inject delimiters", () => {
+    const claim = makeClaim();
+    claim.patient.last_name = "O*Neil~";
+    const edi = formatEDI837P(claim);
+    expect(edi).toContain("NM1*IL*1*O Neil *Jane");
+    expect(validateEDI837P(edi).valid).toBe(true);
+  });
+});
+
+describe("835 round-trip", () => {
+  const advice = () => ({
+    payer: { id: "60054", name: "Aetna" },
+    payee: { npi: "1234567890", name: "Smith Family Practice" },
+    trace_number: "EFT20260401",
+    payment_date: "2026-04-01",
+    lines: parseEDI835(fixture("835-remittance.edi")),
+  });
+
+  test("parses the fixture's claims, adjustments and allowed amounts", () => {
+    const [paid, denied] = parseEDI835(fixture("835-remittance.edi"));
+    expect(paid).toEqual({
+      claim_id: "CLM-TEST001",
+      patient_name: "Doe, Jane",
+      cpt_code: "99213",
+      billed_cents: 15000,
+      allowed_cents: 12000,
+      paid_cents: 10000,
+      adjustments: [
+        { group_code: "CO", reason_code: "45", amount_cents: 3000 },
+        { group_code: "PR", reason_code: "2", amount_cents: 2000 },
+      ],
+      patient_responsibility_cents: 2000,
+    });
+    expect(denied.paid_cents).toBe(0);
+    expect(denied.adjustments).toEqual([{ group_code: "CO", reason_code: "29", amount_cents: 20000 }]);
+  });
+
+  test("parse -> format reproduces the fixture", () => {
+    const edi = formatEDI835(advice(), {
+      date: new Date("2026-04-01T06:00:00Z"),
+      sender: { qualifier: "ZZ", id: "AETNA" },
+      receiver: { qualifier: "ZZ", id: "ELLIEBILLING" },
+      controlNumbers: createControlNumberAllocator({ interchange: 7700, group: 7700 }),
+    });
+    expect(edi).toBe(fixture("835-remittance.edi"));
+  });
+
+  test("delimiters are taken from the ISA header", () => {
+    expect(parseEDI835(fixture("835-pipe-delimited.edi"))).toEqual(parseEDI835(fixture("835-remittance.edi")));
+    expect(validateEDI835(fixture("835-pipe-delimited.edi")).valid).toBe(true);
+  });
+
+  test("fixture passes validation; a missing BPR is caught", () => {
+    expect(validateEDI835(fixture("835-remittance.edi")).valid).toBe(true);
+    const broken = fixture("835-remittance.edi").replace(/^BPR.*\n/m, "").replace("SE*18*", "SE*17*");
+    const result = validateEDI835(broken);
+    expect(result.issues.map(i => [i.code, i.segment_id])).toEqual([["MISSING_SEGMENT", "BPR"]]);
+  });
+
+  test("RARC remark codes survive format -> parse", () => {
+    const [, denied] = advice().lines;
+    const edi = formatEDI835({ ...advice(), lines: [{ ...denied, remark_codes: ["N115", "M127"] }] });
+    expect(edi).toContain("LQ*HE*N115~");
+    expect(validateEDI835(edi).valid).toBe(true);
+    expect(parseEDI835(edi)[0].remark_codes).toEqual(["N115", "M127"]);
+  });
+
+  test("without AMT*B6, allowed is paid plus patient responsibility", () => {
+    const [line] = parseEDI835("CLP*C1*1*150.00*100.00~CAS*CO*45*30.00~CAS*PR*2*20.00~");
+    expect(line.allowed_cents).toBe(12000);
+  });
+});
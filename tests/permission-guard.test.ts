@@ -5,6 +5,9 @@ import {
   guardAgentDispatchPure,
   guardToolExecution,
   guardWorkSession,
+  guardAgentTool,
+  resolvePolicyAttributes,
+  clearRbacEntityCache,
   getRecentDenials,
   clearDenialLog,
   formatDenialMessage,
@@ -240,6 +243,60 @@ describe("ELLIE-794: Permission guard", () => {
     });
   });
 
+  describe("resolvePolicyAttributes", () => {
+    const sqlWithCompany = (company_id: string | null): any => () => Promise.resolve([{ company_id }]);
+
+    it("fills company, work item state and PHI sensitivity", async () => {
+      const attrs = await resolvePolicyAttributes(sqlWithCompany("c-1"), "dev", {
+        channel: "telegram",
+        work_item_id: "ELLIE-5",
+        text: "Patient DOB: 01/02/1960",
+        workItemState: async () => "started",
+      });
+      expect(attrs.company_id).toBe("c-1");
+      expect(attrs.channel).toBe("telegram");
+      expect(attrs.work_item).toEqual({ id: "ELLIE-5", state: "started" });
+      expect(attrs.sensitivity).toBe("phi");
+    });
+
+    it("falls back to the default company and internal sensitivity", async () => {
+      const attrs = await resolvePolicyAttributes(sqlWithCompany(null), "dev", {
+        text: "refactor the router",
+        work_item_id: "ELLIE-5",
+        workItemState: async () => { throw new Error("plane down"); },
+      });
+      expect(attrs.company_id).toBe("00000000-0000-0000-0000-000000000001");
+      expect(attrs.sensitivity).toBe("internal");
+      expect(attrs.work_item).toEqual({ id: "ELLIE-5", state: null });
+    });
+  });
+
+  describe("guardAgentTool", () => {
+    beforeEach(() => clearRbacEntityCache());
+
+    it("denies agents with no RBAC entity", async () => {
+      const sql: any = () => Promise.resolve([]);
+      const result = await guardAgentTool(sql, "ghost", "bash");
+      expect(result.allowed).toBe(false);
+      expect(result.denial!.reason).toContain("ghost");
+    });
+
+    it("runs the tool check for a resolved agent", async () => {
+      let callIndex = 0;
+      const sql: any = () => {
+        callIndex++;
+        if (callIndex === 1) return Promise.resolve([{ id: "entity-critic" }]);
+        if (callIndex === 2) return Promise.resolve([{ company_id: null }]);
+        if (callIndex === 3) return Promise.resolve([{ role_id: "role-critic" }]);
+        if (callIndex === 4) return Promise.resolve(ALL_ROLES);
+        return Promise.resolve([]);
+      };
+      const result = await guardAgentTool(sql, "critic", "bash", { command: "ls" });
+      expect(result.allowed).toBe(false);
+      expect(result.denial!.action).toBe("use_bash");
+    });
+  });
+
   describe("formatDenialMessage", () => {
     it("formats a readable message", () => {
       const denial: PermissionDenial = {
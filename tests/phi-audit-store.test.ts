@@ -0,0 +1,123 @@
+/**
+ * PHI Audit Store Tests
+ *
+ * - Redaction audit entries are buffered and written to phi_audit_log
+ * - Failed writes keep the entries for the next flush
+ * - listPHIAudit maps rows back to audit entries
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordRedaction, getPHIAuditTrail, _resetPHIAuditTrail } from "../src/phi-redaction.ts";
+import {
+  flushPHIAudit,
+  listPHIAudit,
+  startPHIAuditStore,
+  stopPHIAuditStore,
+  _resetPHIAuditStore,
+} from "../src/phi-audit-store.ts";
+
+/** Just enough of the Supabase query builder for phi_audit_log. */
+function fakeSupabase(opts: { failInserts?: number; rows?: Record<string, unknown>[] } = {}) {
+  const inserted: Record<string, unknown>[] = [];
+  const filters: Array<[string, string, unknown]> = [];
+  let failures = opts.failInserts ?? 0;
+  const query = {
+    select: () => query,
+    order: () => query,
+    limit: (n: number) => { filters.push(["limit", "", n]); return query; },
+    eq: (col: string, v: unknown) => { filters.push(["eq", col, v]); return query; },
+    gte: (col: string, v: unknown) => { filters.push(["gte", col, v]); return query; },
+    then: (resolve: (r: { data: unknown; error: null }) => void) => resolve({ data: opts.rows ?? [], error: null }),
+  };
+  const client = {
+    from: (table: string) => {
+      expect(table).toBe("phi_audit_log");
+      return {
+        ...query,
+        insert: async (rows: Record<string, unknown>[]) => {
+          if (failures > 0) {
+            failures--;
+            return { error: { message: "connection refused" } };
+          }
+          inserted.push(...rows);
+          return { error: null };
+        },
+      };
+    },
+  };
+  return { client: client as unknown as SupabaseClient, inserted, filters };
+}
+
+beforeEach(() => {
+  _resetPHIAuditStore();
+  _resetPHIAuditTrail();
+});
+
+afterAll(() => {
+  _resetPHIAuditStore();
+  _resetPHIAuditTrail();
+});
+
+describe("PHI audit store", () => {
+  test("buffers redaction entries and writes them on flush", async () => {
+    const db = fakeSupabase();
+    startPHIAuditStore(db.client);
+    recordRedaction("prompt", { ssn: 1, mrn: 2 }, { actor: "general", company_id: "c-1" });
+    recordRedaction("log", { phone: 1 }, { actor: "relay" });
+    expect(db.inserted).toHaveLength(0);
+
+    expect(await flushPHIAudit()).toBe(2);
+    expect(db.inserted).toHaveLength(2);
+    expect(db.inserted[0]).toMatchObject({
+      actor: "general",
+      actor_type: "agent",
+      action: "export",
+      resource_type: "prompt",
+      company_id: "c-1",
+      phi_fields_accessed: ["mrn", "ssn"],
+      detail: "redacted 3: mrn=2, ssn=1",
+    });
+    expect(db.inserted[1].company_id).toBeNull();
+    expect(getPHIAuditTrail()).toHaveLength(2);
+  });
+
+  test("keeps entries across a failed write", async () => {
+    const db = fakeSupabase({ failInserts: 1 });
+    startPHIAuditStore(db.client);
+    recordRedaction("log", { mrn: 1 }, { actor: "relay" });
+
+    expect(await flushPHIAudit()).toBe(0);
+    expect(await flushPHIAudit()).toBe(1);
+    expect(db.inserted).toHaveLength(1);
+  });
+
+  test("stop writes what is buffered and detaches the sink", async () => {
+    const db = fakeSupabase();
+    startPHIAuditStore(db.client);
+    recordRedaction("log", { mrn: 1 }, { actor: "relay" });
+    await stopPHIAuditStore();
+    expect(db.inserted).toHaveLength(1);
+
+    recordRedaction("log", { mrn: 1 }, { actor: "relay" });
+    expect(await flushPHIAudit()).toBe(0);
+    expect(db.inserted).toHaveLength(1);
+  });
+
+  test("listPHIAudit applies filters and maps rows to entries", async () => {
+    const db = fakeSupabase({
+      rows: [{
+        id: "r-1", created_at: "2026-10-19T10:00:01Z", occurred_at: "2026-10-19T10:00:00Z",
+        actor: "general", actor_type: "agent", action: "export", resource_type: "prompt", resource_id: "general",
+        company_id: null, ip_address: null, session_id: null, phi_fields_accessed: ["ssn"], detail: "redacted 1: ssn=1",
+      }],
+    });
+    const entries = await listPHIAudit(db.client, { actor: "general", since: "2026-10-19T00:00:00Z", limit: 10 });
+    expect(db.filters).toEqual([["limit", "", 10], ["eq", "actor", "general"], ["gte", "occurred_at", "2026-10-19T00:00:00Z"]]);
+    expect(entries).toEqual([{
+      id: "r-1", created_at: "2026-10-19T10:00:01Z", timestamp: "2026-10-19T10:00:00Z",
+      actor: "general", actor_type: "agent", action: "export", resource_type: "prompt", resource_id: "general",
+      company_id: "", ip_address: null, session_id: null, phi_fields_accessed: ["ssn"], detail: "redacted 1: ssn=1",
+    }]);
+  });
+});
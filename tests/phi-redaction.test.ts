@@ -0,0 +1,197 @@
+/**
+ * PHI Redaction Tests
+ *
+ * - Field-name redaction (PHI_FIELDS, aliases, camelCase)
+ * - Pattern redaction: SSN, labeled MRN / DOB / member ID, phone
+ * - Role scope from AGENT_ACCESS_MATRIX
+ * - Audit trail counts
+ * - Wiring: logger output (prompt assembly is covered in prompt-builder.test.ts)
+ */
+
+import { describe, test, expect, beforeEach, afterAll, spyOn } from "bun:test";
+import {
+  canSeePHIField,
+  getPHIAuditTrail,
+  phiFieldForKey,
+  phiRoleForAgent,
+  recordRedaction,
+  redactText,
+  redactValue,
+  setPHIAuditSink,
+  _resetPHIAuditTrail,
+  type RedactionCounts,
+} from "../src/phi-redaction.ts";
+import type { PHIAuditEntry } from "../src/hipaa-compliance.ts";
+import { log } from "../src/logger.ts";
+
+beforeEach(() => {
+  _resetPHIAuditTrail();
+});
+
+afterAll(() => {
+  _resetPHIAuditTrail();
+});
+
+// ── Field names ─────────────────────────────────────────────
+
+describe("phiFieldForKey", () => {
+  test("resolves PHI_FIELDS, camelCase and aliases", () => {
+    expect(phiFieldForKey("first_name")).toBe("first_name");
+    expect(phiFieldForKey("firstName")).toBe("first_name");
+    expect(phiFieldForKey("memberId")).toBe("member_id");
+    expect(phiFieldForKey("DOB")).toBe("dob");
+    expect(phiFieldForKey("birthDate")).toBe("dob");
+    expect(phiFieldForKey("patient_name")).toBe("first_name");
+  });
+
+  test("ignores non-PHI keys", () => {
+    expect(phiFieldForKey("claim_number")).toBeNull();
+    expect(phiFieldForKey("session_id")).toBeNull();
+    expect(phiFieldForKey("status")).toBeNull();
+  });
+});
+
+// ── Patterns ────────────────────────────────────────────────
+
+describe("redactText", () => {
+  test("redacts SSNs", () => {
+    const r = redactText("SSN on file 123-45-6789.");
+    expect(r.value).toBe("SSN on file [REDACTED:ssn].");
+    expect(r.counts).toEqual({ ssn: 1 });
+  });
+
+  test("redacts labeled MRN, DOB and member ID but keeps the label", () => {
+    const r = redactText("MRN: A12345, DOB 1985-06-15, member ID XK9920113");
+    expect(r.value).toBe("MRN: [REDACTED:mrn], DOB [REDACTED:dob], member ID [REDACTED:member_id]");
+    expect(r.total).toBe(3);
+  });
+
+  test("redacts US phone formats", () => {
+    const r = redactText("Call (555) 123-4567 or 555.987.6543 or +1 555 222 3333");
+    expect(r.value).not.toMatch(/\d{4}/);
+    expect(r.counts.phone).toBe(3);
+  });
+
+  test("leaves dates, UUIDs and unlabeled words alone", () => {
+    const text = "Run 2026-10-19T12:00:00Z for 550e8400-e29b-41d4-a716-446655440000; member ID lookup failed";
+    expect(redactText(text).value).toBe(text);
+  });
+
+  test("accumulates into a shared tally", () => {
+    const counts: RedactionCounts = {};
+    redactText("123-45-6789", { counts });
+    const r = redactText("987-65-4321", { counts });
+    expect(r.total).toBe(1);
+    expect(counts.ssn).toBe(2);
+  });
+});
+
+describe("redactValue", () => {
+  test("replaces PHI keys wholesale and scans other strings", () => {
+    const r = redactValue<Record<string, unknown>>({
+      claim_id: "CLM-1",
+      patient: { firstName: "Ada", last_name: "Lovelace", address: { line: ["1 Main St"] } },
+      diagnosis_codes: ["E11.9"],
+      note: "callback 555-123-4567",
+      email: "",
+    });
+    expect(r.value).toEqual({
+      claim_id: "CLM-1",
+      patient: { firstName: "[REDACTED:first_name]", last_name: "[REDACTED:last_name]", address: "[REDACTED:address]" },
+      diagnosis_codes: "[REDACTED:diagnosis_codes]",
+      note: "callback [REDACTED:phone]",
+      email: "",
+    });
+    expect(r.total).toBe(5);
+  });
+
+  test("does not mutate its input and survives cycles", () => {
+    const input: Record<string, unknown> = { ssn: "123-45-6789" };
+    input.self = input;
+    const r = redactValue(input);
+    expect(input.ssn).toBe("123-45-6789");
+    expect(r.value.self).toBe("[Circular]");
+  });
+
+  test("passes class instances through", () => {
+    const when = new Date("2026-10-19T00:00:00Z");
+    expect(redactValue({ when }).value.when).toBe(when);
+  });
+});
+
+// ── Role scope ──────────────────────────────────────────────
+
+describe("role scope", () => {
+  test("phiRoleForAgent maps billing agents and rejects others", () => {
+    expect(phiRoleForAgent("claim-submission")).toBe("claim_submission");
+    expect(phiRoleForAgent("Claims Tracking")).toBe("claims_tracking");
+    expect(phiRoleForAgent("general")).toBeNull();
+    expect(phiRoleForAgent(undefined)).toBeNull();
+  });
+
+  test("fields follow the role's table grants", () => {
+    expect(canSeePHIField("claim_submission", "member_id")).toBe(true);
+    expect(canSeePHIField("claims_tracking", "diagnosis_codes")).toBe(true);
+    expect(canSeePHIField("claims_tracking", "last_name")).toBe(false);
+    expect(canSeePHIField(null, "diagnosis_codes")).toBe(false);
+  });
+
+  test("a scoped role keeps only what it is granted", () => {
+    const doc: Record<string, unknown> = { last_name: "Lovelace", diagnosis_codes: ["E11.9"] };
+    expect(redactValue(doc, { role: "claims_tracking" }).value).toEqual({ last_name: "[REDACTED:last_name]", diagnosis_codes: ["E11.9"] });
+    expect(redactValue(doc, { role: "admin" }).total).toBe(0);
+  });
+});
+
+// ── Audit trail ─────────────────────────────────────────────
+
+describe("recordRedaction", () => {
+  test("writes counts to the audit trail", () => {
+    const entry = recordRedaction("search-index", { ssn: 2, phone: 1 }, { actor: "es-forest", resource_id: "ellie-forest-events" });
+    expect(entry).not.toBeNull();
+    expect(getPHIAuditTrail()).toEqual([entry!]);
+    expect(entry!.action).toBe("export");
+    expect(entry!.resource_type).toBe("search-index");
+    expect(entry!.resource_id).toBe("ellie-forest-events");
+    expect(entry!.phi_fields_accessed).toEqual(["phone", "ssn"]);
+    expect(entry!.detail).toBe("redacted 3: phone=1, ssn=2");
+  });
+
+  test("skips empty tallies", () => {
+    expect(recordRedaction("log", {}, { actor: "relay" })).toBeNull();
+    expect(getPHIAuditTrail()).toHaveLength(0);
+  });
+
+  test("uses a custom sink alongside the trail and survives one that throws", () => {
+    const seen: PHIAuditEntry[] = [];
+    setPHIAuditSink(e => seen.push(e));
+    recordRedaction("log", { mrn: 1 }, { actor: "relay" });
+    expect(seen).toHaveLength(1);
+    expect(getPHIAuditTrail()).toEqual(seen);
+    setPHIAuditSink(() => { throw new Error("down"); });
+    expect(() => recordRedaction("log", { mrn: 1 }, { actor: "relay" })).not.toThrow();
+    expect(getPHIAuditTrail()).toHaveLength(2);
+  });
+});
+
+// ── Wiring ──────────────────────────────────────────────────
+
+describe("logger", () => {
+  test("redacts message, context and error before printing, and audits it", () => {
+    const spy = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      log.child("billing-test").error("Lookup failed for SSN 123-45-6789", { member_id: "XK9920113", claim_id: "CLM-1" }, new Error("MRN: A12345 not found"));
+      const line = String(spy.mock.calls[0][0]);
+      expect(line).not.toContain("123-45-6789");
+      expect(line).not.toContain("XK9920113");
+      expect(line).not.toContain("A12345");
+      expect(line).toContain("CLM-1");
+    } finally {
+      spy.mockRestore();
+    }
+    const [entry] = getPHIAuditTrail();
+    expect(entry.resource_type).toBe("log");
+    expect(entry.actor).toBe("billing-test");
+    expect(entry.phi_fields_accessed).toEqual(["member_id", "mrn", "ssn"]);
+  });
+});
@@ -15,6 +15,7 @@ import {
   type BuildMetrics,
 } from "../src/prompt-builder.ts";
 import { setCreatureProfile, getCreatureProfile } from "../src/creature-profile.ts";
+import { getPHIAuditTrail, _resetPHIAuditTrail } from "../src/phi-redaction.ts";
 
 // ── Cleanup watchers and River cache after all tests ──────────
 
@@ -1006,3 +1007,33 @@ describe("buildPrompt — section ordering", () => {
     expect(memIdx).toBeLessThan(docketIdx);
   });
 });
+
+// ── PHI redaction ────────────────────────────────────────────
+
+describe("buildPrompt — PHI redaction", () => {
+  beforeEach(() => {
+    _resetPHIAuditTrail();
+  });
+
+  const workItem = "Follow up on claim CLM-1 for member ID XK9920113, callback 555-123-4567";
+
+  it("redacts for agents without a grant", async () => {
+    const prompt = await buildPrompt("Hello", undefined, undefined, undefined, "telegram", { name: "general" }, workItem);
+    expect(prompt).toContain("member ID [REDACTED:member_id]");
+    expect(prompt).not.toContain("555-123-4567");
+    const [entry] = getPHIAuditTrail();
+    expect(entry.resource_type).toBe("prompt");
+    expect(entry.actor).toBe("general");
+  });
+
+  it("keeps granted fields for billing roles", async () => {
+    const prompt = await buildPrompt("Hello", undefined, undefined, undefined, "telegram", { name: "claim_submission" }, workItem);
+    expect(prompt).toContain("XK9920113");
+    expect(getPHIAuditTrail()).toHaveLength(0);
+  });
+
+  it("leaves the user's own message as typed", async () => {
+    const prompt = await buildPrompt("My SSN is 123-45-6789", undefined, undefined, undefined, "telegram", { name: "general" });
+    expect(prompt).toContain("123-45-6789");
+  });
+});
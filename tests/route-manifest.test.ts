@@ -0,0 +1,42 @@
+/**
+ * Tests for api/route-manifest.ts — module loading and the OpenAPI route.
+ */
+
+import { describe, test, expect } from "bun:test";
+import type { ServerResponse } from "http";
+import { loadRouteModules, openApiModule, OPENAPI_PATH } from "../src/api/route-manifest.ts";
+import { routes as scheduledTaskRoutes } from "../src/api/scheduled-tasks.ts";
+import type { RouteContext, RouteModule } from "../src/route-table.ts";
+
+const tasks: RouteModule = { name: "Scheduled tasks", routes: scheduledTaskRoutes };
+
+describe("loadRouteModules", () => {
+  test("skips modules that fail to import", async () => {
+    const modules = await loadRouteModules([
+      async () => tasks,
+      async () => { throw new Error("Cannot find module"); },
+    ]);
+    expect(modules.map(m => m.name)).toEqual(["Scheduled tasks"]);
+  });
+});
+
+describe("GET /api/openapi.json", () => {
+  test("documents the mounted modules and itself", async () => {
+    const mod = openApiModule([tasks]);
+    let body = "";
+    const res = { writeHead() {}, end(data: string) { body = data; } } as unknown as ServerResponse;
+    await mod.routes[0].handler({ res } as unknown as RouteContext);
+
+    const doc = JSON.parse(body);
+    expect(doc.info.title).toBe("Ellie Relay API");
+    expect(Object.keys(doc.paths)).toContain("/api/scheduled-tasks/{id}/toggle");
+    expect(doc.paths[OPENAPI_PATH].get.tags).toEqual(["OpenAPI"]);
+    expect(doc.paths["/api/scheduled-tasks"].post.requestBody.content["application/json"].schema.required)
+      .toEqual(["name", "task_type", "schedule", "config"]);
+  });
+
+  test("tick is routed ahead of the :id routes", () => {
+    const paths = scheduledTaskRoutes.map(r => `${r.method} ${r.path}`);
+    expect(paths.indexOf("POST /api/scheduled-tasks/tick")).toBeLessThan(paths.indexOf("PATCH /api/scheduled-tasks/:id"));
+  });
+});
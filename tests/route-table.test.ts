@@ -1,17 +1,26 @@
 /**
  * ELLIE-559 — route-table.ts tests
  *
- * Tests path matching, JSON parsing, query extraction, and route matching.
+ * Tests path matching, JSON parsing, query extraction, route matching,
+ * the manifest router and OpenAPI generation.
  */
 
 import { describe, test, expect } from "bun:test";
+import { Readable } from "stream";
+import type { IncomingMessage, ServerResponse } from "http";
 import {
   matchPath,
   matchRoute,
   parseJson,
   extractQuery,
+  createRouter,
+  buildOpenApiDocument,
+  toOpenApiPath,
   type Route,
+  type RouteModule,
+  type RouterOptions,
 } from "../src/route-table.ts";
+import type { RelayDeps } from "../src/relay-state.ts";
 
 // ── matchPath — exact ───────────────────────────────────────
 
@@ -165,3 +174,185 @@ describe("extractQuery", () => {
     expect(extractQuery(url)).toEqual({ a: "2" });
   });
 });
+
+// ── createRouter ────────────────────────────────────────────
+
+function fakeReq(method: string, body = "", ip = "10.0.0.5"): IncomingMessage {
+  const req = Readable.from(body ? [Buffer.from(body)] : []) as unknown as IncomingMessage;
+  Object.assign(req, { method, headers: {}, socket: { remoteAddress: ip } });
+  return req;
+}
+
+function fakeRes() {
+  const out = { status: 0, headers: {} as Record<string, string>, body: "", headersSent: false };
+  const res = {
+    get headersSent() { return out.headersSent; },
+    writeHead(status: number, headers: Record<string, string>) {
+      out.status = status;
+      out.headers = headers;
+      out.headersSent = true;
+    },
+    end(data?: string) { out.body = data ?? ""; },
+  } as unknown as ServerResponse;
+  return { res, out, json: () => JSON.parse(out.body) };
+}
+
+const calls: Array<{ params: Record<string, string>; query: Record<string, string>; rawBody: string }> = [];
+
+const jobsModule: RouteModule = {
+  name: "Jobs",
+  routes: [
+    {
+      method: "GET",
+      path: "/api/jobs",
+      summary: "List jobs",
+      request: { query: { type: "object", properties: { status: { type: "string", enum: ["open", "done"] } } } },
+      handler: ({ res, query }) => {
+        calls.push({ params: {}, query, rawBody: "" });
+        res.writeHead(200, {});
+        res.end("[]");
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/jobs/:id/run",
+      summary: "Run a job",
+      rateLimit: "tool",
+      request: { body: { type: "object", required: ["reason"], properties: { reason: { type: "string" } } } },
+      responses: { 202: { description: "Started" } },
+      handler: ({ res, params, query, rawBody }) => {
+        calls.push({ params, query, rawBody });
+        res.writeHead(202, {});
+        res.end("{}");
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/jobs/internal",
+      summary: "Local only",
+      auth: "local",
+      handler: ({ res }) => { res.writeHead(200, {}); res.end("{}"); },
+    },
+    {
+      method: "DELETE",
+      path: "/api/jobs/:id",
+      summary: "Throws",
+      auth: "none",
+      handler: () => { throw new Error("boom"); },
+    },
+  ],
+};
+
+function router(overrides: Partial<RouterOptions> = {}) {
+  return createRouter([jobsModule], {
+    authenticate: async req => req.headers["x-api-key"] === "k",
+    getDeps: () => ({}) as RelayDeps,
+    ...overrides,
+  });
+}
+
+function authed(req: IncomingMessage): IncomingMessage {
+  req.headers["x-api-key"] = "k";
+  return req;
+}
+
+describe("createRouter", () => {
+  test("returns false for paths it does not own", async () => {
+    const { res } = fakeRes();
+    expect(await router()(fakeReq("GET"), res, new URL("http://x/api/other"))).toBe(false);
+  });
+
+  test("405 when the path matches but the method does not", async () => {
+    const { res, out } = fakeRes();
+    expect(await router()(authed(fakeReq("PUT")), res, new URL("http://x/api/jobs"))).toBe(true);
+    expect(out.status).toBe(405);
+  });
+
+  test("401 for api routes when authentication fails", async () => {
+    const { res, out } = fakeRes();
+    await router()(fakeReq("GET"), res, new URL("http://x/api/jobs"));
+    expect(out.status).toBe(401);
+  });
+
+  test("403 for local routes from a remote address", async () => {
+    const remote = fakeRes();
+    await router()(authed(fakeReq("POST")), remote.res, new URL("http://x/api/jobs/internal"));
+    expect(remote.out.status).toBe(403);
+
+    const local = fakeRes();
+    await router()(fakeReq("POST", "", "::1"), local.res, new URL("http://x/api/jobs/internal"));
+    expect(local.out.status).toBe(200);
+  });
+
+  test("400 with details when the query or body fails its schema", async () => {
+    const q = fakeRes();
+    await router()(authed(fakeReq("GET")), q.res, new URL("http://x/api/jobs?status=stale"));
+    expect(q.out.status).toBe(400);
+    expect(q.json().error).toBe("Invalid query");
+
+    const b = fakeRes();
+    await router()(authed(fakeReq("POST", "{}")), b.res, new URL("http://x/api/jobs/7/run"));
+    expect(b.out.status).toBe(400);
+    expect(b.json().message).toBe("/reason is required");
+
+    const bad = fakeRes();
+    await router()(authed(fakeReq("POST", "{nope")), bad.res, new URL("http://x/api/jobs/7/run"));
+    expect(bad.json().error).toBe("Invalid JSON body");
+  });
+
+  test("passes params, query and raw body to the handler", async () => {
+    calls.length = 0;
+    const { res, out } = fakeRes();
+    await router()(authed(fakeReq("POST", '{"reason":"manual"}')), res, new URL("http://x/api/jobs/7/run?dry=1"));
+    expect(out.status).toBe(202);
+    expect(calls).toEqual([{ params: { id: "7" }, query: { dry: "1" }, rawBody: '{"reason":"manual"}' }]);
+  });
+
+  test("429 with Retry-After when the route's bucket is limited", async () => {
+    const seen: string[] = [];
+    const limited = router({ checkRate: (bucket, key) => { seen.push(`${bucket}:${key}`); return 2_500; } });
+    const { res, out } = fakeRes();
+    await limited(authed(fakeReq("POST", '{"reason":"x"}')), res, new URL("http://x/api/jobs/7/run"));
+    expect(out.status).toBe(429);
+    expect(out.headers["Retry-After"]).toBe("3");
+    expect(seen).toEqual(["tool:10.0.0.5"]);
+  });
+
+  test("500 when a handler throws", async () => {
+    const { res, out } = fakeRes();
+    expect(await router()(fakeReq("DELETE"), res, new URL("http://x/api/jobs/7"))).toBe(true);
+    expect(out.status).toBe(500);
+  });
+});
+
+// ── OpenAPI ─────────────────────────────────────────────────
+
+describe("buildOpenApiDocument", () => {
+  test("converts path params and wildcards", () => {
+    expect(toOpenApiPath("/api/jobs/:id/run")).toBe("/api/jobs/{id}/run");
+    expect(toOpenApiPath("/forest/*")).toBe("/forest/{path}");
+  });
+
+  test("describes every manifest route", () => {
+    const doc = buildOpenApiDocument([jobsModule], { title: "Test", version: "0.0.1" }) as {
+      openapi: string;
+      paths: Record<string, Record<string, Record<string, unknown>>>;
+    };
+    expect(doc.openapi).toBe("3.1.0");
+    expect(Object.keys(doc.paths)).toEqual(["/api/jobs", "/api/jobs/{id}/run", "/api/jobs/internal", "/api/jobs/{id}"]);
+
+    const run = doc.paths["/api/jobs/{id}/run"].post;
+    expect(run.tags).toEqual(["Jobs"]);
+    expect(run.parameters).toEqual([{ name: "id", in: "path", required: true, schema: { type: "string" } }]);
+    expect(run.requestBody).toHaveProperty("content.application/json.schema.required", ["reason"]);
+    expect(Object.keys(run.responses as object)).toEqual(["202"]);
+    expect(run["x-rate-limit-bucket"]).toBe("tool");
+    expect(run.security).toEqual([{ bearerAuth: [] }, { apiKeyAuth: [] }]);
+
+    const list = doc.paths["/api/jobs"].get;
+    expect(list.parameters).toEqual([
+      { name: "status", in: "query", required: false, schema: { type: "string", enum: ["open", "done"] } },
+    ]);
+    expect(doc.paths["/api/jobs/internal"].post["x-auth"]).toBe("local");
+  });
+});
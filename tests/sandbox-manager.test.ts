@@ -0,0 +1,439 @@
+/**
+ * Sandbox Manager Tests
+ *
+ * Runs against the fake Engine in tests/helpers/fake-docker-engine.ts:
+ * - Stream demultiplexing (split and raw chunks)
+ * - Sessions: private network, aliases, shared volumes, rollback
+ * - Snapshot and restore of container filesystems and volumes
+ * - Reconciling orphaned session resources after a restart
+ * - Streaming exec, the session routes and the /ws/sandbox-exec protocol
+ * - docker-sandbox.ts and overnight/docker-executor.ts on the shared engine
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { AddressInfo } from "node:net";
+import http from "node:http";
+import { WebSocket } from "ws";
+import {
+  createStreamDemuxer,
+  demuxDockerStream,
+  dockerRequest,
+  muxDockerFrame,
+  setDockerSocketPath,
+  type DockerFrame,
+} from "../src/docker-engine.ts";
+import {
+  SESSION_PREFIX,
+  _resetSessionsForTesting,
+  cleanupExpiredSessions,
+  createSession,
+  destroySession,
+  execInSession,
+  getSession,
+  reconcileOrphanedSessions,
+  restoreSession,
+  snapshotSession,
+  validateSessionOpts,
+  type CreateSessionOpts,
+} from "../src/sandbox-manager.ts";
+import { createContainer, execInContainer, listContainers, cleanupExpiredContainers } from "../src/docker-sandbox.ts";
+import {
+  _resetNetworkReadyForTesting,
+  cleanupOrphanedContainers,
+  getContainerLogs,
+  launchContainer,
+  waitForContainer,
+} from "../src/overnight/docker-executor.ts";
+import { createSandboxExecWss } from "../src/sandbox-exec-ws.ts";
+import { routes as sessionRoutes } from "../src/api/docker-sandbox.ts";
+import { createRouter } from "../src/route-table.ts";
+import type { RelayDeps } from "../src/relay-state.ts";
+import { startFakeDockerEngine, type FakeDockerEngine } from "./helpers/fake-docker-engine.ts";
+
+let engine: FakeDockerEngine;
+
+beforeAll(async () => {
+  engine = await startFakeDockerEngine({
+    images: ["busybox:1.36", "ubuntu:24.04", { ref: "postgres:16", files: { "/etc/postgresql/version": "16\n" } }],
+  });
+  setDockerSocketPath(engine.socketPath);
+});
+
+afterAll(async () => {
+  setDockerSocketPath(null);
+  await engine.close();
+});
+
+beforeEach(() => {
+  _resetSessionsForTesting();
+  engine.onExec = undefined;
+});
+
+function appWithDb(name: string): CreateSessionOpts {
+  return {
+    name,
+    agent: "dev",
+    workItemId: "ELLIE-1",
+    containers: [
+      { role: "db", image: "postgres:16", volumes: { pgdata: "/var/lib/postgresql/data" } },
+      { role: "app", image: "ubuntu:24.04", cmd: ["sleep", "infinity"], volumes: { workspace: "/workspace" } },
+    ],
+  };
+}
+
+// ── Demultiplexing ──────────────────────────────────────────
+
+describe("stream demultiplexing", () => {
+  test("demuxDockerStream splits frames and drops a trailing partial", () => {
+    const buf = Buffer.concat([muxDockerFrame("stdout", "out"), muxDockerFrame("stderr", "err"), muxDockerFrame("stdout", "cut").subarray(0, 9)]);
+    expect(demuxDockerStream(buf).map(f => [f.stream, f.data.toString()])).toEqual([["stdout", "out"], ["stderr", "err"]]);
+  });
+
+  test("the incremental demuxer reassembles frames split across chunks", () => {
+    const frames: DockerFrame[] = [];
+    const demux = createStreamDemuxer(f => frames.push(f));
+    const buf = Buffer.concat([muxDockerFrame("stdout", "hello "), muxDockerFrame("stderr", "oops"), muxDockerFrame("stdout", "world")]);
+    for (let i = 0; i < buf.length; i += 5) demux.push(buf.subarray(i, i + 5));
+    demux.end();
+    expect(frames.map(f => `${f.stream}:${f.data}`)).toEqual(["stdout:hello ", "stderr:oops", "stdout:world"]);
+  });
+
+  test("a stream without frame headers passes through as stdout", () => {
+    const frames: DockerFrame[] = [];
+    const demux = createStreamDemuxer(f => frames.push(f));
+    demux.push(Buffer.from("plain tty output\n"));
+    demux.push(Buffer.from("more\n"));
+    expect(frames.map(f => f.data.toString()).join("")).toBe("plain tty output\nmore\n");
+  });
+});
+
+// ── Sessions ────────────────────────────────────────────────
+
+describe("sessions", () => {
+  test("validateSessionOpts reports every problem", () => {
+    const errors = validateSessionOpts({
+      name: "Bad Name",
+      containers: [{ role: "app", image: "" }, { role: "app", image: "x", volumes: { data: "relative" } }],
+    });
+    expect(errors).toHaveLength(4);
+    expect(validateSessionOpts(appWithDb("ok"))).toEqual([]);
+  });
+
+  test("creates containers on an internal network, reachable by role", async () => {
+    const session = await createSession(appWithDb("net"));
+    const network = engine.networks.get(`${SESSION_PREFIX}net`);
+    expect(network).toMatchObject({ internal: true, labels: { "ellie.sandbox": "true", "ellie.session": "net" } });
+
+    for (const role of ["db", "app"]) {
+      const c = engine.findContainer(`ellie-sandbox-net-${role}`);
+      expect(c?.state).toBe("running");
+      expect(c?.networks[network!.name].Aliases).toEqual([role]);
+      expect(c?.labels["ellie.session.role"]).toBe(role);
+    }
+    expect(session.containers.map(c => c.role)).toEqual(["db", "app"]);
+    expect(Object.values(session.volumes)).toEqual([`${SESSION_PREFIX}net-pgdata`, `${SESSION_PREFIX}net-workspace`]);
+    await destroySession("net");
+  });
+
+  test("rolls back everything when a later container fails", async () => {
+    const opts = appWithDb("broken");
+    opts.containers.push({ role: "cache", image: "redis:7" });
+    const fake = await startFakeDockerEngine({ images: ["postgres:16", "ubuntu:24.04"], pullable: false });
+    setDockerSocketPath(fake.socketPath);
+    try {
+      await expect(createSession(opts)).rejects.toThrow("Docker pull failed");
+      expect(fake.containers.size).toBe(0);
+      expect(fake.volumes.size).toBe(0);
+      expect(fake.networks.size).toBe(0);
+      expect(getSession("broken")).toBeNull();
+    } finally {
+      setDockerSocketPath(engine.socketPath);
+      await fake.close();
+    }
+  });
+
+  test("rejects a duplicate session name", async () => {
+    await createSession(appWithDb("dup"));
+    await expect(createSession(appWithDb("dup"))).rejects.toThrow("already exists");
+    await destroySession("dup");
+  });
+
+  test("destroy removes containers, volumes, network and snapshots", async () => {
+    await createSession(appWithDb("gone"));
+    await snapshotSession("gone");
+    expect(await destroySession("gone")).toBe(true);
+    expect([...engine.containers.values()].filter(c => c.labels["ellie.session"] === "gone")).toHaveLength(0);
+    expect([...engine.volumes.keys()].filter(v => v.includes("gone"))).toHaveLength(0);
+    expect([...engine.images.keys()].filter(i => i.includes("gone"))).toHaveLength(0);
+    expect(engine.networks.has(`${SESSION_PREFIX}gone`)).toBe(false);
+    expect(await destroySession("gone")).toBe(false);
+  });
+
+  test("cleanupExpiredSessions destroys only old sessions", async () => {
+    await createSession(appWithDb("young"));
+    const old = await createSession(appWithDb("old"));
+    old.createdAt = new Date(Date.now() - 5 * 60 * 60_000).toISOString();
+    expect(await cleanupExpiredSessions()).toBe(1);
+    expect(getSession("old")).toBeNull();
+    expect(getSession("young")).not.toBeNull();
+    await destroySession("young");
+  });
+});
+
+describe("reconcileOrphanedSessions", () => {
+  test("removes what sessions lost on restart left behind, and keeps live ones", async () => {
+    await createSession(appWithDb("lost"));
+    await snapshotSession("lost");
+    _resetSessionsForTesting(); // relay restart
+    await createSession(appWithDb("live"));
+
+    const result = await reconcileOrphanedSessions();
+    expect(result).toEqual({ containers: 2, volumes: 4, networks: 1, images: 2 });
+    const ofLost = (labels: Record<string, string>) => labels["ellie.session"] === "lost";
+    expect([...engine.containers.values()].filter(c => ofLost(c.labels))).toHaveLength(0);
+    expect([...engine.volumes.values()].filter(v => ofLost(v.labels))).toHaveLength(0);
+    expect([...engine.images.values()].filter(i => ofLost(i.labels))).toHaveLength(0);
+    expect(engine.networks.has(`${SESSION_PREFIX}lost`)).toBe(false);
+
+    expect(engine.findContainer("ellie-sandbox-live-app")?.state).toBe("running");
+    expect(engine.networks.has(`${SESSION_PREFIX}live`)).toBe(true);
+    await destroySession("live");
+  });
+});
+
+// ── Snapshots ───────────────────────────────────────────────
+
+describe("snapshot and restore", () => {
+  test("restores volumes and container filesystems to the snapshot", async () => {
+    await createSession(appWithDb("snap"));
+    await execInSession("snap", "db", "echo v1 > /var/lib/postgresql/data/PG_DATA");
+    await execInSession("snap", "app", "echo v1 > /workspace/main.ts && echo built > /opt/build.log");
+
+    const snapshot = await snapshotSession("snap", "seeded");
+    expect(Object.keys(snapshot.images)).toEqual(["db", "app"]);
+    expect(Object.keys(snapshot.volumes)).toEqual(["pgdata", "workspace"]);
+
+    await execInSession("snap", "db", "echo v2 > /var/lib/postgresql/data/PG_DATA");
+    await execInSession("snap", "app", "echo v2 > /workspace/main.ts && echo changed > /opt/build.log");
+
+    const restored = await restoreSession("snap", "seeded");
+    expect(restored.restoredFrom).toBe(snapshot.id);
+    expect(restored.containers.map(c => c.image)).toEqual([snapshot.images.db, snapshot.images.app]);
+
+    const cat = (role: string, path: string) => execInSession("snap", role, `cat ${path}`).then(r => r.stdout);
+    expect(await cat("db", "/var/lib/postgresql/data/PG_DATA")).toBe("v1\n");
+    expect(await cat("db", "/etc/postgresql/version")).toBe("16\n");
+    expect(await cat("app", "/workspace/main.ts")).toBe("v1\n");
+    expect(await cat("app", "/opt/build.log")).toBe("built\n");
+
+    // Restored containers rejoin the network under their role names
+    const app = engine.findContainer("ellie-sandbox-snap-app");
+    expect(app?.networks[`${SESSION_PREFIX}snap`].Aliases).toEqual(["app"]);
+    await destroySession("snap");
+  });
+
+  test("containers are paused while volumes are copied, and resumed after", async () => {
+    await createSession(appWithDb("paused"));
+    const from = engine.calls.length;
+    await snapshotSession("paused");
+    const calls = engine.calls.slice(from);
+    const lastPause = calls.lastIndexOf(calls.find(c => c.endsWith("/pause"))!) + 1;
+    const firstCopy = calls.findIndex(c => c === "POST /containers/create");
+    const firstUnpause = calls.findIndex(c => c.endsWith("/unpause"));
+    expect(calls.filter(c => c.endsWith("/pause"))).toHaveLength(2);
+    expect(lastPause).toBeLessThan(firstCopy);
+    expect(firstUnpause).toBeGreaterThan(calls.lastIndexOf("POST /commit"));
+    expect(engine.findContainer("ellie-sandbox-paused-app")?.state).toBe("running");
+    await destroySession("paused");
+  });
+
+  test("an unknown snapshot is an error and leaves the session untouched", async () => {
+    const session = await createSession(appWithDb("nosnap"));
+    const ids = session.containers.map(c => c.id);
+    await expect(restoreSession("nosnap", "missing")).rejects.toThrow("has no snapshot missing");
+    expect(getSession("nosnap")?.containers.map(c => c.id)).toEqual(ids);
+    await destroySession("nosnap");
+  });
+});
+
+// ── Exec ────────────────────────────────────────────────────
+
+describe("exec streaming", () => {
+  test("delivers output chunks as they arrive, then the exit code", async () => {
+    await createSession({ name: "exec", containers: [{ role: "app", image: "ubuntu:24.04" }] });
+    engine.onExec = () => ({ frames: [["stdout", "step 1\n"], ["stderr", "warn\n"], ["stdout", "step 2\n"]], exitCode: 3, delayMs: 20 });
+
+    const seen: { stream: string; text: string; at: number }[] = [];
+    const started = Date.now();
+    const result = await execInSession("exec", "app", "make", {
+      onOutput: (stream, text) => seen.push({ stream, text, at: Date.now() - started }),
+    });
+
+    expect(seen.map(s => `${s.stream}:${s.text}`)).toEqual(["stdout:step 1\n", "stderr:warn\n", "stdout:step 2\n"]);
+    expect(seen[2].at - seen[0].at).toBeGreaterThanOrEqual(30);
+    expect(result).toEqual({ stdout: "step 1\nstep 2\n", stderr: "warn\n", exitCode: 3 });
+    await destroySession("exec");
+  });
+
+  test("times out a long exec", async () => {
+    await createSession({ name: "slow", containers: [{ role: "app", image: "ubuntu:24.04" }] });
+    engine.onExec = () => ({ frames: [["stdout", "a"], ["stdout", "b"], ["stdout", "c"]], exitCode: 0, delayMs: 200 });
+    await expect(execInSession("slow", "app", "sleep 10", { timeoutMs: 100 })).rejects.toThrow("exec timeout");
+    await destroySession("slow");
+  });
+
+  test("reports unknown sessions and roles", async () => {
+    await expect(execInSession("none", "app", "true")).rejects.toThrow("Session none not found");
+    await createSession({ name: "roles", containers: [{ role: "app", image: "ubuntu:24.04" }] });
+    await expect(execInSession("roles", "db", "true")).rejects.toThrow('has no container "db"');
+    await destroySession("roles");
+  });
+});
+
+describe("session routes", () => {
+  async function call(method: string, path: string, body?: string): Promise<{ status: number; json: Record<string, unknown> }> {
+    const route = createRouter([{ name: "Sandbox sessions", routes: sessionRoutes }], {
+      authenticate: async () => true,
+      getDeps: () => ({}) as RelayDeps,
+    });
+    const server = http.createServer((req, res) => {
+      void route(req, res, new URL(req.url ?? "/", "http://relay")).then(handled => {
+        if (!handled) { res.writeHead(404); res.end("{}"); }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const r = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`, { method, body });
+      return { status: r.status, json: await r.json() as Record<string, unknown> };
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  test("400 on an invalid JSON body", async () => {
+    const r = await call("POST", "/api/sandbox/sessions", "{not json");
+    expect(r.status).toBe(400);
+    expect(r.json.error).toBe("Invalid JSON body");
+  });
+
+  test("create, snapshot and destroy a session", async () => {
+    const created = await call("POST", "/api/sandbox/sessions", JSON.stringify(appWithDb("api")));
+    expect(created.status).toBe(201);
+    const snap = await call("POST", "/api/sandbox/sessions/api/snapshots", "");
+    expect(snap.status).toBe(201);
+    expect((await call("POST", "/api/sandbox/sessions/api/restore", JSON.stringify({ snapshot: "nope" }))).status).toBe(404);
+    expect((await call("DELETE", "/api/sandbox/sessions/api")).status).toBe(200);
+    expect((await call("GET", "/api/sandbox/sessions/api")).status).toBe(404);
+  });
+});
+
+describe("/ws/sandbox-exec", () => {
+  async function connect(): Promise<{ ws: WebSocket; messages: Record<string, unknown>[]; next: (type: string) => Promise<Record<string, unknown>>; close: () => Promise<void> }> {
+    const wss = createSandboxExecWss({ authenticate: key => key === "test-key" });
+    const server = http.createServer();
+    server.on("upgrade", (req, socket, head) => wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req)));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const ws = new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws/sandbox-exec`);
+    const messages: Record<string, unknown>[] = [];
+    const waiting: { type: string; resolve: (m: Record<string, unknown>) => void }[] = [];
+    ws.on("message", data => {
+      const msg = JSON.parse(data.toString()) as Record<string, unknown>;
+      messages.push(msg);
+      const i = waiting.findIndex(w => w.type === msg.type);
+      if (i >= 0) waiting.splice(i, 1)[0].resolve(msg);
+    });
+    await new Promise(resolve => ws.once("open", resolve));
+    return {
+      ws,
+      messages,
+      next: type => new Promise(resolve => waiting.push({ type, resolve })),
+      close: async () => {
+        ws.close();
+        wss.close();
+        await new Promise(resolve => server.close(resolve));
+      },
+    };
+  }
+
+  test("streams output and the exit code after auth", async () => {
+    await createSession({ name: "ws", containers: [{ role: "app", image: "ubuntu:24.04" }] });
+    engine.onExec = () => ({ frames: [["stdout", "one\n"], ["stdout", "two\n"]], exitCode: 0, delayMs: 10 });
+    const client = await connect();
+    try {
+      const ready = client.next("ready");
+      client.ws.send(JSON.stringify({ type: "auth", key: "test-key" }));
+      await ready;
+
+      const exit = client.next("exit");
+      client.ws.send(JSON.stringify({ type: "exec", id: "e1", session: "ws", container: "app", cmd: "build" }));
+      expect(await exit).toEqual({ type: "exit", id: "e1", exitCode: 0 });
+      expect(client.messages.filter(m => m.type === "output").map(m => m.data)).toEqual(["one\n", "two\n"]);
+    } finally {
+      await client.close();
+      await destroySession("ws");
+    }
+  });
+
+  test("closes the connection on a bad key", async () => {
+    const client = await connect();
+    const closed = new Promise<number>(resolve => client.ws.once("close", code => resolve(code)));
+    client.ws.send(JSON.stringify({ type: "auth", key: "wrong" }));
+    expect(await closed).toBe(4003);
+    await client.close();
+  });
+
+  test("reports an exec against a missing session as an error", async () => {
+    const client = await connect();
+    try {
+      const ready = client.next("ready");
+      client.ws.send(JSON.stringify({ type: "auth", key: "test-key" }));
+      await ready;
+      const error = client.next("error");
+      client.ws.send(JSON.stringify({ type: "exec", session: "nope", container: "app", cmd: "ls" }));
+      expect(await error).toEqual({ type: "error", id: "1", message: "Session nope not found" });
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+// ── Shared engine callers ───────────────────────────────────
+
+describe("docker-sandbox.ts on the shared engine", () => {
+  test("create, exec and list a throwaway container", async () => {
+    const info = await createContainer({ name: "ellie-sandbox-solo", agent: "dev" });
+    expect(engine.findContainer("ellie-sandbox-solo")?.config.HostConfig).toMatchObject({ NetworkMode: "none" });
+    expect(await execInContainer(info.id, "echo hi")).toEqual({ stdout: "hi\n", exitCode: 0 });
+    expect(await execInContainer("missing", "echo hi")).toEqual({ stdout: "", exitCode: -1 });
+    expect((await listContainers()).find(c => c.name === "ellie-sandbox-solo")).toMatchObject({ agent: "dev", state: "running" });
+  });
+
+  test("cleanupExpiredContainers leaves live session containers alone", async () => {
+    await createSession({ name: "live", containers: [{ role: "app", image: "ubuntu:24.04" }] });
+    for (const c of engine.containers.values()) c.created -= 5 * 60 * 60;
+    await cleanupExpiredContainers();
+    expect(engine.findContainer("ellie-sandbox-solo")).toBeUndefined();
+    expect(engine.findContainer("ellie-sandbox-live-app")?.state).toBe("running");
+    await destroySession("live");
+  });
+});
+
+describe("overnight/docker-executor.ts on the shared engine", () => {
+  test("launches on the isolated network, waits and reads logs", async () => {
+    _resetNetworkReadyForTesting();
+    const image = "ghcr.io/anthropics/claude-code:latest";
+    engine.images.set(image, { ref: image, id: "sha256:overnight", files: new Map(), labels: {} });
+    const id = await launchContainer("ellie-overnight-t1", "ellie-overnight-vol-t1", ["TASK=1"]);
+    const container = engine.findContainer(id)!;
+    const { NetworkMode } = container.config.HostConfig as { NetworkMode: string };
+    expect(engine.networks.get(NetworkMode)?.options).toEqual({ "com.docker.network.bridge.enable_icc": "false" });
+
+    container.logs.push(muxDockerFrame("stdout", "done\n"));
+    const exit = waitForContainer(id);
+    await dockerRequest("POST", `/containers/${id}/stop`);
+    expect(await exit).toBe(0);
+    expect(await getContainerLogs(id)).toBe("done\n");
+    expect(await cleanupOrphanedContainers()).toBe(1);
+    expect(engine.findContainer(id)).toBeUndefined();
+  });
+});
@@ -1,12 +1,19 @@
 /**
  * Scheduled Tasks — ELLIE-975/976
  * Tests for config validation, CRUD, scheduler tick, executors, and API routing.
+ * Catch-up policy, timezone-aware schedules, preview and run-now.
  */
 
 import { describe, it, expect, beforeEach, mock } from "bun:test";
 import {
   validateTaskInput,
   validateConfig,
+  validateScheduleOptions,
+  planCatchUp,
+  previewSchedule,
+  schedulerTick,
+  runTaskNow,
+  _setSqlForTesting,
   type CreateTaskInput,
   type ScheduledTask,
   type TaskType,
@@ -92,6 +99,8 @@ describe("schedulerTick (unit logic)", () => {
       last_status: null,
       last_error: null,
       consecutive_failures: 0,
+      catch_up: "run_once",
+      catch_up_max: 10,
       created_by: null,
       ...overrides,
     };
@@ -151,6 +160,8 @@ describe("executeHttp (security)", () => {
       last_status: null,
       last_error: null,
       consecutive_failures: 0,
+      catch_up: "run_once",
+      catch_up_max: 10,
       created_by: null,
     };
 
@@ -176,6 +187,8 @@ describe("executeHttp (security)", () => {
       last_status: null,
       last_error: null,
       consecutive_failures: 0,
+      catch_up: "run_once",
+      catch_up_max: 10,
       created_by: null,
     };
 
@@ -273,3 +286,193 @@ describe("cron validation via validateTaskInput", () => {
     expect(result).toContain("invalid schedule");
   });
 });
+
+// ── Catch-up policy ──────────────────────────────────────────
+
+function hourlyTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee",
+    created_at: new Date(),
+    updated_at: new Date(),
+    name: "Hourly",
+    description: "",
+    task_type: "reminder",
+    schedule: "0 * * * *",
+    timezone: "UTC",
+    enabled: true,
+    config: { message: "tick" },
+    last_run_at: null,
+    next_run_at: new Date("2026-10-19T06:00:00Z"),
+    last_status: null,
+    last_error: null,
+    consecutive_failures: 0,
+    catch_up: "run_once",
+    catch_up_max: 10,
+    created_by: null,
+    ...overrides,
+  };
+}
+
+const iso = (ds: Date[]) => ds.map(d => d.toISOString().slice(11, 16));
+
+describe("planCatchUp", () => {
+  it("runs an on-time fire time under every policy", () => {
+    const now = new Date("2026-10-19T06:01:00Z");
+    for (const catch_up of ["skip", "run_once", "run_all"] as const) {
+      expect(planCatchUp(hourlyTask({ catch_up }), now)).toEqual({
+        run: [new Date("2026-10-19T06:00:00Z")], skipped: [], truncated: false,
+      });
+    }
+  });
+
+  it("skip drops missed runs and runs only an on-time one", () => {
+    const late = planCatchUp(hourlyTask({ catch_up: "skip" }), new Date("2026-10-19T09:30:00Z"));
+    expect(iso(late.run)).toEqual([]);
+    expect(iso(late.skipped)).toEqual(["06:00", "07:00", "08:00", "09:00"]);
+
+    const onTime = planCatchUp(hourlyTask({ catch_up: "skip" }), new Date("2026-10-19T09:02:00Z"));
+    expect(iso(onTime.run)).toEqual(["09:00"]);
+    expect(onTime.skipped).toHaveLength(3);
+  });
+
+  it("run_once runs the latest and skips the rest", () => {
+    const plan = planCatchUp(hourlyTask(), new Date("2026-10-19T09:30:00Z"));
+    expect(iso(plan.run)).toEqual(["09:00"]);
+    expect(iso(plan.skipped)).toEqual(["06:00", "07:00", "08:00"]);
+  });
+
+  it("run_all replays the most recent catch_up_max runs, oldest first", () => {
+    const plan = planCatchUp(hourlyTask({ catch_up: "run_all", catch_up_max: 3 }), new Date("2026-10-19T10:30:00Z"));
+    expect(iso(plan.run)).toEqual(["08:00", "09:00", "10:00"]);
+    expect(iso(plan.skipped)).toEqual(["06:00", "07:00"]);
+  });
+
+  it("evaluates fire times in the task's timezone", () => {
+    const task = hourlyTask({
+      schedule: "0 7 * * *",
+      timezone: "America/Chicago",
+      next_run_at: new Date("2026-10-17T12:00:00Z"),
+      catch_up: "run_all",
+    });
+    const plan = planCatchUp(task, new Date("2026-10-19T13:00:00Z"));
+    expect(plan.run.map(d => d.toISOString())).toEqual([
+      "2026-10-17T12:00:00.000Z", "2026-10-18T12:00:00.000Z", "2026-10-19T12:00:00.000Z",
+    ]);
+  });
+});
+
+describe("validateScheduleOptions", () => {
+  it("accepts known timezones and policies", () => {
+    expect(validateScheduleOptions({ timezone: "Europe/Berlin", catch_up: "run_all", catch_up_max: 5 })).toBeNull();
+    expect(validateScheduleOptions({})).toBeNull();
+  });
+
+  it("rejects unknown timezones, policies and caps out of range", () => {
+    expect(validateScheduleOptions({ timezone: "Mars/Olympus" })).toBe("invalid timezone: Mars/Olympus");
+    expect(validateScheduleOptions({ catch_up: "always" as never })).toBe("invalid catch_up: always");
+    expect(validateScheduleOptions({ catch_up_max: 0 })).toContain("catch_up_max");
+    expect(validateScheduleOptions({ catch_up_max: 2.5 })).toContain("catch_up_max");
+  });
+
+  it("is applied by validateTaskInput", () => {
+    const input: CreateTaskInput = { name: "x", task_type: "reminder", schedule: "0 7 * * *", config: { message: "m" } };
+    expect(validateTaskInput({ ...input, timezone: "Nowhere" })).toBe("invalid timezone: Nowhere");
+  });
+});
+
+describe("previewSchedule", () => {
+  it("lists the next fire times in the given timezone", () => {
+    const runs = previewSchedule("0 9 * * 1-5", "America/New_York", 3, new Date("2026-10-16T12:00:00Z"));
+    expect(runs.map(d => d.toISOString())).toEqual([
+      "2026-10-16T13:00:00.000Z", "2026-10-19T13:00:00.000Z", "2026-10-20T13:00:00.000Z",
+    ]);
+  });
+
+  it("follows DST changes", () => {
+    const runs = previewSchedule("0 9 * * *", "America/Chicago", 2, new Date("2026-10-31T12:00:00Z"));
+    expect(runs.map(d => d.toISOString())).toEqual(["2026-10-31T14:00:00.000Z", "2026-11-01T15:00:00.000Z"]);
+  });
+
+  it("throws on an invalid schedule or timezone", () => {
+    expect(() => previewSchedule("61 * * * *", "UTC")).toThrow("Invalid cron value");
+    expect(() => previewSchedule("* * * * *", "Nowhere")).toThrow("invalid timezone");
+  });
+});
+
+// ── Tick and run-now against a fake database ─────────────────
+
+function fakeSql(tasks: ScheduledTask[]) {
+  const queries: { text: string; values: unknown[] }[] = [];
+  let runSeq = 0;
+  const sql = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const text = strings.join("?").replace(/\s+/g, " ").trim();
+    queries.push({ text, values });
+    if (text.startsWith("SELECT * FROM scheduled_tasks")) return Promise.resolve(tasks);
+    if (text.includes("INSERT INTO scheduled_task_runs") && text.includes("RETURNING id")) {
+      return Promise.resolve([{ id: `run-${++runSeq}` }]);
+    }
+    return Promise.resolve([]);
+  };
+  sql.json = (v: unknown) => v;
+  return { sql, queries };
+}
+
+describe("schedulerTick catch-up", () => {
+  it("replays missed runs with catch_up metadata and records the overflow as skipped", async () => {
+    const { sql, queries } = fakeSql([hourlyTask({ catch_up: "run_all", catch_up_max: 2 })]);
+    _setSqlForTesting(sql);
+    const ran: string[] = [];
+
+    const result = await schedulerTick({ reminder: async t => { ran.push(t.name); return {}; } }, new Date("2026-10-19T08:30:00Z"));
+
+    expect(ran).toEqual(["Hourly", "Hourly"]);
+    expect(result.triggered).toEqual(["Hourly"]);
+    expect(result.skipped).toEqual([{ id: "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", name: "Hourly", reason: "missed 1 run(s) (catch_up=run_all)" }]);
+
+    const inserts = queries.filter(q => q.text.startsWith("INSERT INTO scheduled_task_runs"));
+    expect(inserts.map(q => q.values.at(-1))).toEqual([
+      expect.objectContaining({ reason: "missed", missed: 1, first: "2026-10-19T06:00:00.000Z" }),
+      { trigger: "catch_up", scheduled_for: "2026-10-19T07:00:00.000Z" },
+      { trigger: "catch_up", scheduled_for: "2026-10-19T08:00:00.000Z" },
+    ]);
+    const advance = queries.find(q => q.text.includes("last_run_at = NOW(), next_run_at"));
+    expect(advance?.values[0]).toBe("2026-10-19T09:00:00.000Z");
+  });
+
+  it("skip policy runs nothing when every fire time was missed", async () => {
+    const { sql, queries } = fakeSql([hourlyTask({ catch_up: "skip" })]);
+    _setSqlForTesting(sql);
+    const result = await schedulerTick({ reminder: async () => ({}) }, new Date("2026-10-19T07:30:00Z"));
+
+    expect(result.triggered).toEqual([]);
+    expect(result.skipped[0].reason).toBe("missed 2 run(s) (catch_up=skip)");
+    expect(queries.some(q => q.text.includes("last_status = 'skipped'"))).toBe(true);
+  });
+});
+
+describe("runTaskNow", () => {
+  it("records a manual run without moving next_run_at", async () => {
+    const { sql, queries } = fakeSql([hourlyTask()]);
+    _setSqlForTesting(sql);
+
+    const outcome = await runTaskNow("aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", { reminder: async () => ({ sent: true }) });
+
+    expect(outcome).toMatchObject({ runId: "run-1", status: "completed", error: null });
+    expect(queries.find(q => q.text.startsWith("INSERT INTO scheduled_task_runs"))?.values.at(-1)).toEqual({ trigger: "manual" });
+    expect(queries.some(q => q.text.includes("next_run_at ="))).toBe(false);
+    expect(queries.some(q => q.text.includes("SET last_run_at = NOW()"))).toBe(true);
+  });
+
+  it("reports executor failures as a failed run", async () => {
+    const { sql } = fakeSql([hourlyTask()]);
+    _setSqlForTesting(sql);
+    const outcome = await runTaskNow("aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", { reminder: async () => { throw new Error("no channel"); } });
+    expect(outcome).toMatchObject({ status: "failed", error: "no channel" });
+  });
+
+  it("returns null for an unknown task", async () => {
+    const { sql } = fakeSql([]);
+    _setSqlForTesting(sql);
+    expect(await runTaskNow("aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", {})).toBeNull();
+  });
+});
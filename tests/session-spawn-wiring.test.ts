@@ -62,10 +62,14 @@ mock.module("../src/dispatch-queue.ts", () => ({
   getQueueDepth: mock(() => 0),
   drainNext: mock(),
 }));
+const noopSpan = { setAttribute: () => {}, setAttributes: () => {}, end: () => {} };
 mock.module("../src/trace.ts", () => ({
   withTrace: mock((_fn: () => Promise<any>) => Promise.resolve()),
   getTraceId: mock(() => "trace-id"),
   generateTraceId: mock(() => "gen-trace-id"),
+  getSpanId: mock(() => null),
+  startSpan: mock(() => noopSpan),
+  withSpan: mock((_name: string, fn: (span: typeof noopSpan) => any) => fn(noopSpan)),
 }));
 mock.module("../src/plane.ts", () => ({ fetchWorkItemDetails: mock(() => Promise.resolve(null)) }));
 mock.module("../src/memory.ts", () => ({
@@ -1,7 +1,12 @@
 import { describe, it, expect, mock, beforeEach, afterAll } from "bun:test";
 
-// Set env var before the module is imported (module caches top-level consts)
-process.env.SIMLI_API_KEY = "test-api-key";
+// The API key comes from the vault (simli.ai / api_key)
+mock.module("../src/relay-state.ts", () => ({
+  getRelayDeps: () => ({ supabase: {} }),
+}));
+mock.module("../src/vault.ts", () => ({
+  getCredentialForDomain: mock(async () => ({ record: {}, payload: { key: "test-api-key" } })),
+}));
 
 // Mock fetch before importing
 const mockFetch = mock(() => Promise.resolve(new Response(
@@ -152,10 +152,14 @@ mock.module("../src/data-quality.ts", () => ({
 
 // creature-profile.ts is NOT mocked — pipeline test uses real setCreatureProfile/getCreatureProfile.
 
+const noopSpan = { setAttribute: () => {}, setAttributes: () => {}, end: () => {} };
 mock.module("../src/trace.ts", () => ({
   withTrace: mock((fn: () => any) => fn()),
   getTraceId: mock(() => "test-trace"),
   generateTraceId: mock(() => "test-trace"),
+  getSpanId: mock(() => null),
+  startSpan: mock(() => noopSpan),
+  withSpan: mock((_name: string, fn: (span: typeof noopSpan) => any) => fn(noopSpan)),
 }));
 
 // jobs-ledger.ts is NOT mocked — real createJob writes to Forest DB (acceptable test artifact).
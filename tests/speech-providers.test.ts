@@ -0,0 +1,262 @@
+/**
+ * Speech Provider Registry Tests
+ *
+ * - Route parsing and env config (TTS_ROUTES / STT_ROUTES / SPEECH_LOCAL_ONLY)
+ * - Routing order: explicit provider → channel route → default → rest
+ * - Capability filters: configured, format, language, voice, local-only
+ * - Fallback when a provider fails, and no leak to cloud when local-only
+ * - Piper runs a local binary (faked here) and reports failure for fallback
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  _resetSpeechProvidersForTesting,
+  describeSpeechProviders,
+  parseSpeechRoutes,
+  registerSttProvider,
+  registerTtsProvider,
+  resolveSttProviders,
+  resolveTtsProviders,
+  setSpeechRoutes,
+  speechRoutesFromEnv,
+  synthesizeSpeech,
+  transcribeSpeech,
+  type SpeechRoutes,
+} from "../src/speech/registry.ts";
+import type { SttProvider, TtsFormat, TtsProvider } from "../src/speech/provider.ts";
+import { createPiperTts, piperVoiceId, piperVoiceLanguage } from "../src/speech/piper.ts";
+
+function fakeTts(id: string, opts: {
+  local?: boolean;
+  configured?: boolean;
+  formats?: TtsFormat[];
+  languages?: string[];
+  voices?: string[];
+  fail?: "null" | "throw";
+} = {}): TtsProvider & { calls: Array<{ text: string; voice?: string }> } {
+  const calls: Array<{ text: string; voice?: string }> = [];
+  return {
+    id,
+    displayName: id,
+    calls,
+    capabilities: {
+      streaming: true,
+      local: opts.local ?? false,
+      languages: opts.languages ?? ["*"],
+      formats: opts.formats ?? ["mulaw", "ogg", "mp3", "pcm16"],
+      voices: opts.voices ?? [`${id}-default`],
+    },
+    isConfigured: () => opts.configured ?? true,
+    async synthesize(text, { format, voice }) {
+      calls.push({ text, voice });
+      if (opts.fail === "throw") throw new Error(`${id} down`);
+      if (opts.fail === "null") return null;
+      return { body: new Blob([`${id}:${format}`]).stream(), contentType: "audio/test" };
+    },
+  };
+}
+
+function fakeStt(id: string, opts: { local?: boolean; fail?: boolean } = {}): SttProvider {
+  return {
+    id,
+    displayName: id,
+    capabilities: { streaming: false, local: opts.local ?? false, languages: ["*"], formats: ["ogg", "wav"] },
+    isConfigured: () => true,
+    async transcribe() {
+      if (opts.fail) throw new Error(`${id} down`);
+      return `${id} heard you`;
+    },
+  };
+}
+
+function routes(overrides: Partial<SpeechRoutes> = {}): SpeechRoutes {
+  return { tts: {}, stt: {}, defaultTts: [], defaultStt: [], localOnly: [], ...overrides };
+}
+
+const ids = (list: Array<{ provider: { id: string } }>) => list.map(r => r.provider.id);
+
+beforeEach(() => {
+  _resetSpeechProvidersForTesting();
+  setSpeechRoutes(routes());
+});
+
+// ── Config ───────────────────────────────────────────────────
+
+describe("route config", () => {
+  test("parseSpeechRoutes reads channel=provider[:voice] lists", () => {
+    expect(parseSpeechRoutes("telegram=openai,elevenlabs; avatar=elevenlabs:abc123 ;bogus;=x")).toEqual({
+      telegram: [{ provider: "openai" }, { provider: "elevenlabs" }],
+      avatar: [{ provider: "elevenlabs", voice: "abc123" }],
+    });
+  });
+
+  test("speechRoutesFromEnv keeps TTS_PROVIDER / VOICE_PROVIDER as the default first choice", () => {
+    const r = speechRoutesFromEnv({ TTS_PROVIDER: "openai", VOICE_PROVIDER: "local", SPEECH_LOCAL_ONLY: "voice, telegram" });
+    expect(r.defaultTts).toEqual(["openai"]);
+    expect(r.defaultStt).toEqual(["whisper-cpp"]);
+    expect(r.localOnly).toEqual(["voice", "telegram"]);
+
+    const defaults = speechRoutesFromEnv({});
+    expect(defaults.defaultTts).toEqual(["elevenlabs"]);
+    expect(defaults.defaultStt).toEqual(["groq"]);
+    expect(defaults.localOnly).toEqual([]);
+    expect(speechRoutesFromEnv({ SPEECH_LOCAL_ONLY: "true" }).localOnly).toBe("all");
+  });
+});
+
+// ── Routing ──────────────────────────────────────────────────
+
+describe("TTS routing", () => {
+  beforeEach(() => {
+    for (const id of ["elevenlabs", "openai", "piper"]) registerTtsProvider(fakeTts(id, { local: id === "piper" }));
+  });
+
+  test("default order puts the preferred provider first, then registration order", () => {
+    setSpeechRoutes(routes({ defaultTts: ["openai"] }));
+    expect(ids(resolveTtsProviders("ogg"))).toEqual(["openai", "elevenlabs", "piper"]);
+  });
+
+  test("a channel route and an explicit provider go ahead of the default", () => {
+    setSpeechRoutes(routes({ defaultTts: ["elevenlabs"], tts: { avatar: [{ provider: "piper" }] } }));
+    expect(ids(resolveTtsProviders("pcm16", { channel: "avatar" }))).toEqual(["piper", "elevenlabs", "openai"]);
+    expect(ids(resolveTtsProviders("pcm16", { channel: "avatar", provider: "openai" }))).toEqual(["openai", "piper", "elevenlabs"]);
+    expect(ids(resolveTtsProviders("pcm16", { channel: "telegram" }))).toEqual(["elevenlabs", "openai", "piper"]);
+  });
+
+  test("skips providers that are unconfigured or lack the format, language or voice", () => {
+    _resetSpeechProvidersForTesting();
+    setSpeechRoutes(routes());
+    registerTtsProvider(fakeTts("off", { configured: false }));
+    registerTtsProvider(fakeTts("mp3only", { formats: ["mp3"] }));
+    registerTtsProvider(fakeTts("english", { languages: ["en"], voices: ["amy", "joe"] }));
+    registerTtsProvider(fakeTts("any"));
+
+    expect(ids(resolveTtsProviders("mulaw"))).toEqual(["english", "any"]);
+    expect(ids(resolveTtsProviders("mp3", { language: "es-MX" }))).toEqual(["mp3only", "any"]);
+    expect(resolveTtsProviders("ogg", { voice: "joe" }).map(r => [r.provider.id, r.voice])).toEqual([["english", "joe"]]);
+  });
+
+  test("a route can pick the voice", () => {
+    setSpeechRoutes(routes({ tts: { avatar: [{ provider: "elevenlabs", voice: "elevenlabs-default" }] } }));
+    expect(resolveTtsProviders("pcm16", { channel: "avatar" })[0]).toMatchObject({ voice: "elevenlabs-default" });
+  });
+
+  test("local-only keeps cloud providers out, per request, per channel or globally", () => {
+    expect(ids(resolveTtsProviders("ogg", { localOnly: true }))).toEqual(["piper"]);
+
+    setSpeechRoutes(routes({ localOnly: ["voice"] }));
+    expect(ids(resolveTtsProviders("mulaw", { channel: "voice" }))).toEqual(["piper"]);
+    expect(ids(resolveTtsProviders("mulaw", { channel: "telegram" }))).toHaveLength(3);
+
+    setSpeechRoutes(routes({ localOnly: "all", tts: { telegram: [{ provider: "openai" }] } }));
+    expect(ids(resolveTtsProviders("ogg", { channel: "telegram" }))).toEqual(["piper"]);
+  });
+});
+
+// ── Synthesis / transcription ────────────────────────────────
+
+describe("synthesizeSpeech", () => {
+  test("falls through failing providers to the next", async () => {
+    const broken = fakeTts("broken", { fail: "throw" });
+    const empty = fakeTts("empty", { fail: "null" });
+    const good = fakeTts("good");
+    for (const p of [broken, empty, good]) registerTtsProvider(p);
+
+    const stream = await synthesizeSpeech("hello", "ogg", { channel: "telegram" });
+    expect(stream?.provider).toBe("good");
+    expect(await new Response(stream!.body).text()).toBe("good:ogg");
+    expect(broken.calls).toHaveLength(1);
+    expect(empty.calls).toHaveLength(1);
+  });
+
+  test("returns null rather than leaking to the cloud when no local provider works", async () => {
+    const cloud = fakeTts("cloud");
+    registerTtsProvider(cloud);
+    registerTtsProvider(fakeTts("local", { local: true, fail: "null" }));
+
+    expect(await synthesizeSpeech("patient DOB 1/2/1960", "ogg", { localOnly: true })).toBeNull();
+    expect(cloud.calls).toEqual([]);
+  });
+
+  test("stops on abort", async () => {
+    const p = fakeTts("p");
+    registerTtsProvider(p);
+    const controller = new AbortController();
+    controller.abort();
+    expect(await synthesizeSpeech("hi", "mulaw", { signal: controller.signal })).toBeNull();
+    expect(p.calls).toEqual([]);
+  });
+});
+
+describe("transcribeSpeech", () => {
+  test("uses the channel's STT route and falls back on failure", async () => {
+    registerSttProvider(fakeStt("groq"));
+    registerSttProvider(fakeStt("whisper-cpp", { local: true, fail: true }));
+    setSpeechRoutes(routes({ defaultStt: ["groq"], stt: { voice: [{ provider: "whisper-cpp" }] } }));
+
+    expect(ids(resolveSttProviders("wav", { channel: "voice" }))).toEqual(["whisper-cpp", "groq"]);
+    expect(await transcribeSpeech(Buffer.from("RIFF"), "wav", { channel: "voice" })).toEqual({ text: "groq heard you", provider: "groq" });
+    expect(await transcribeSpeech(Buffer.from("OggS"), "ogg", { channel: "voice", localOnly: true })).toBeNull();
+  });
+
+  test("describeSpeechProviders lists capabilities and routes", () => {
+    registerSttProvider(fakeStt("groq"));
+    registerTtsProvider(fakeTts("piper", { local: true }));
+    setSpeechRoutes(routes({ tts: { avatar: [{ provider: "piper" }] }, localOnly: "all" }));
+
+    const info = describeSpeechProviders();
+    expect(info.tts).toEqual([expect.objectContaining({ id: "piper", configured: true, capabilities: expect.objectContaining({ local: true }) })]);
+    expect(info.stt.map(p => p.id)).toEqual(["groq"]);
+    expect(info.routes.tts).toEqual({ avatar: [{ provider: "piper" }] });
+    expect(info.localOnly).toBe("all");
+  });
+});
+
+// ── Piper ────────────────────────────────────────────────────
+
+describe("Piper", () => {
+  const dir = mkdtempSync(join(tmpdir(), "piper-test-"));
+  const model = join(dir, "en_US-amy-low.onnx");
+  writeFileSync(model, "");
+  writeFileSync(`${model}.json`, JSON.stringify({ audio: { sample_rate: 16000 } }));
+
+  function script(name: string, body: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, `#!/bin/sh\n${body}\n`);
+    chmodSync(path, 0o755);
+    return path;
+  }
+
+  // Echoes its arguments and stdin so the test sees what piper was asked to say
+  const fakePiper = script("piper", 'printf "%s|" "$@"; cat');
+  const brokenPiper = script("piper-broken", "cat > /dev/null; exit 1");
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("voice id and language come from the model file name", () => {
+    expect(piperVoiceId("/models/de_DE-thorsten-medium.onnx")).toBe("de_DE-thorsten-medium");
+    expect(piperVoiceLanguage("de_DE-thorsten-medium")).toBe("de");
+    expect(piperVoiceLanguage("custom")).toBe("*");
+
+    const piper = createPiperTts({ binary: fakePiper, models: [model] });
+    expect(piper.capabilities).toMatchObject({ local: true, languages: ["en"], voices: ["en_US-amy-low"] });
+    expect(createPiperTts({ binary: fakePiper, models: [] }).isConfigured()).toBe(false);
+  });
+
+  test("streams the local binary's PCM output", async () => {
+    const piper = createPiperTts({ binary: fakePiper, models: [model] });
+    const stream = await piper.synthesize("Hello there.", { format: "pcm16" });
+    expect(stream?.contentType).toBe("audio/pcm");
+    expect(await new Response(stream!.body).text()).toBe(`--model|${model}|--output_raw|Hello there.`);
+  });
+
+  test("a failing binary returns null so the registry falls back", async () => {
+    registerTtsProvider(createPiperTts({ binary: brokenPiper, models: [model] }));
+    registerTtsProvider(fakeTts("cloud"));
+
+    expect((await synthesizeSpeech("hi", "pcm16", { provider: "piper" }))?.provider).toBe("cloud");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * ELLIE-1080 — Step dispatch through the model stylesheet
+ *
+ * Covers: a rule naming an LLM registry provider runs the step through
+ * chat() with that provider and model preferred; Claude aliases stay on
+ * the Claude path; without a stylesheet nothing changes.
+ */
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import {
+  createMockDispatchResult,
+  createMockOptions,
+  createStep,
+} from "./helpers.ts";
+
+// ── Mock Dependencies ─────────────────────────────────────────
+const mockDispatchAgent = mock();
+
+mock.module("../src/agent-router.ts", () => ({
+  dispatchAgent: mockDispatchAgent,
+  syncResponse: mock(() => Promise.resolve(null)),
+}));
+
+import { executeStep, _resetSkillCacheForTesting } from "../src/step-runner.ts";
+import { parseStylesheet } from "../src/step-model-router.ts";
+import {
+  createFakeProvider,
+  registerProvider,
+  setChain,
+  _resetRegistryForTesting,
+  type FakeProvider,
+} from "../src/llm-provider.ts";
+
+const stylesheet = parseStylesheet({
+  default: "sonnet",
+  rules: [
+    { match: "summarize*", model: "local:llama3.1:8b" },
+    { match: "review*", model: "opus" },
+  ],
+});
+
+describe("ELLIE-1080: step dispatch via model stylesheet", () => {
+  let local: FakeProvider;
+  let anthropic: FakeProvider;
+
+  beforeEach(() => {
+    _resetSkillCacheForTesting();
+    _resetRegistryForTesting({ skipEnvProviders: true });
+    local = createFakeProvider({ name: "local", replies: [{ text: "Local summary", usage: { input_tokens: 12, output_tokens: 3 } }] });
+    anthropic = createFakeProvider({ name: "anthropic", replies: ["Claude reply"] });
+    registerProvider(local);
+    registerProvider(anthropic);
+    setChain("coordinator", [{ provider: "anthropic" }]);
+    mockDispatchAgent.mockReset();
+    mockDispatchAgent.mockImplementation(() => Promise.resolve(createMockDispatchResult()));
+  });
+
+  afterEach(() => {
+    _resetRegistryForTesting();
+  });
+
+  test("a provider rule sends the step to that provider and model", async () => {
+    const options = createMockOptions({ modelStylesheet: stylesheet });
+    const { stepResult } = await executeStep(
+      createStep({ skill_name: "summarize-thread" }), 0, 1, "Summarize this", null, options, "final",
+    );
+
+    expect(local.requests).toHaveLength(1);
+    expect(local.requests[0].model).toBe("llama3.1:8b");
+    expect(local.requests[0].system).toBe("You are a helpful assistant.");
+    expect(anthropic.requests).toHaveLength(0);
+    expect(options.callClaudeFn).not.toHaveBeenCalled();
+    expect(options.anthropicClient!.messages.create).not.toHaveBeenCalled();
+    expect(stepResult).toMatchObject({ output: "Local summary", input_tokens: 12, output_tokens: 3, execution_type: "light" });
+  });
+
+  test("a Claude alias goes to the Claude CLI with the stylesheet model", async () => {
+    const options = createMockOptions({ modelStylesheet: stylesheet });
+    await executeStep(createStep({ skill_name: "review-code" }), 0, 1, "Review", null, options, "final");
+
+    expect(local.requests).toHaveLength(0);
+    expect(options.callClaudeFn).toHaveBeenCalledTimes(1);
+    expect((options.callClaudeFn as ReturnType<typeof mock>).mock.calls[0][1]).toMatchObject({ model: "opus" });
+  });
+
+  test("without a stylesheet the step runs as before", async () => {
+    const options = createMockOptions();
+    const { stepResult } = await executeStep(
+      createStep({ skill_name: "summarize-thread" }), 0, 1, "Summarize this", null, options, "final",
+    );
+
+    expect(local.requests).toHaveLength(0);
+    expect(stepResult.output).toBe("Claude CLI response");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { resolveStepModel, parseStylesheet, DEFAULT_STYLESHEET } from "../src/step-model-router.ts";
+import { resolveStepModel, parseStylesheet, preferredChainEntry, DEFAULT_STYLESHEET } from "../src/step-model-router.ts";
 
 describe("ELLIE-1080: Per-step model routing", () => {
   describe("resolveStepModel", () => {
@@ -29,6 +29,22 @@ describe("ELLIE-1080: Per-step model routing", () => {
       const result = resolveStepModel("classify-intent", "opus");
       expect(result.model).toBe("opus");
     });
+
+    it("splits a provider:model reference", () => {
+      const ss = parseStylesheet({ default: "sonnet", rules: [{ match: "summarize*", model: "local:llama3.1:8b" }] });
+      const result = resolveStepModel("summarize-thread", undefined, ss);
+      expect(result).toMatchObject({ provider: "local", model: "llama3.1:8b" });
+      expect(preferredChainEntry(result)).toEqual({ provider: "local", model: "llama3.1:8b" });
+    });
+
+    it("takes the model whole when the rule names a provider", () => {
+      const ss = parseStylesheet({ default: "sonnet", rules: [{ match: "lint*", provider: "local", model: "qwen2.5:7b" }] });
+      expect(resolveStepModel("lint-diff", undefined, ss)).toMatchObject({ provider: "local", model: "qwen2.5:7b" });
+    });
+
+    it("leaves Claude aliases to the CLI", () => {
+      expect(preferredChainEntry(resolveStepModel("review-code"))).toBeNull();
+    });
   });
 
   describe("parseStylesheet", () => {
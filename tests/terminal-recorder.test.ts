@@ -0,0 +1,210 @@
+/**
+ * Terminal Recorder Tests
+ *
+ * - asciicast v2 encoding and parsing
+ * - Recording lifecycle with a fake clock: header, output/resize timing, metadata
+ * - Listing, linking to work items and dispatches, pruning
+ * - Recordings API routes
+ * - Read-only viewers refused for unknown terminals
+ */
+
+import { describe, test, expect, beforeEach, afterEach, afterAll } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ServerResponse } from "node:http";
+import { WebSocket } from "ws";
+import {
+  _setRecordingsDirForTesting,
+  castEvent,
+  castHeader,
+  getActiveRecording,
+  getRecording,
+  getRecordingCastPath,
+  linkRecording,
+  listRecordings,
+  parseCast,
+  pruneRecordings,
+  startRecording,
+} from "../src/terminal-recorder.ts";
+import { routes } from "../src/api/terminal-recordings.ts";
+import { createTerminalWss } from "../src/web-terminal.ts";
+import type { RouteContext } from "../src/route-table.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "term-rec-"));
+  _setRecordingsDirForTesting(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  _setRecordingsDirForTesting(null);
+});
+
+/** A clock the test advances by hand. */
+function fakeClock(start = Date.UTC(2026, 9, 19, 12)) {
+  let t = start;
+  return { now: () => t, advance: (ms: number) => { t += ms; } };
+}
+
+async function record(id: string, opts: { workItemId?: string; dispatchId?: string } = {}) {
+  const clock = fakeClock();
+  const rec = startRecording({ id, cols: 80, rows: 24, ...opts }, clock.now);
+  rec.output("$ ls\r\n");
+  await rec.close({ exitCode: 0, reason: "process exited" });
+  return rec;
+}
+
+// ── Format ──────────────────────────────────────────────────
+
+describe("asciicast v2 format", () => {
+  test("encodes header and events, rounding time to microseconds", () => {
+    expect(castHeader({ version: 2, width: 80, height: 24, timestamp: 1 })).toBe('{"version":2,"width":80,"height":24,"timestamp":1}');
+    expect(castEvent(1.23456789, "o", "hi\r\n")).toBe('[1.234568,"o","hi\\r\\n"]');
+  });
+
+  test("parseCast round-trips and rejects other formats", () => {
+    const text = [castHeader({ version: 2, width: 100, height: 30, timestamp: 5 }), castEvent(0.5, "o", "x"), castEvent(1, "r", "120x40"), ""].join("\n");
+    expect(parseCast(text)).toEqual({ header: { version: 2, width: 100, height: 30, timestamp: 5 }, events: [[0.5, "o", "x"], [1, "r", "120x40"]] });
+    expect(() => parseCast('{"version":1}')).toThrow("Not an asciicast v2 recording");
+  });
+});
+
+// ── Recording ───────────────────────────────────────────────
+
+describe("startRecording", () => {
+  test("writes timed output and resize events, then the ending", async () => {
+    const clock = fakeClock();
+    const rec = startRecording({ id: "term-a", cols: 80, rows: 24, title: "deploy", startedBy: "dev", workItemId: "ELLIE-7" }, clock.now);
+    expect(getActiveRecording("term-a")).toBe(rec);
+    expect(getRecording("term-a")).toMatchObject({ startedBy: "dev", workItemId: "ELLIE-7", endedAt: null });
+
+    clock.advance(250);
+    rec.output("$ make\r\n");
+    clock.advance(1000);
+    rec.resize(120, 40);
+    rec.marker("build done");
+    clock.advance(500);
+    rec.output("ok\r\n");
+    await rec.close({ exitCode: 2, reason: "process exited" });
+    rec.output("ignored");
+
+    const { header, events } = parseCast(readFileSync(getRecordingCastPath("term-a")!, "utf8"));
+    expect(header).toMatchObject({ version: 2, width: 80, height: 24, title: "deploy", timestamp: Math.floor(Date.UTC(2026, 9, 19, 12) / 1000) });
+    expect(events).toEqual([[0.25, "o", "$ make\r\n"], [1.25, "r", "120x40"], [1.25, "m", "build done"], [1.75, "o", "ok\r\n"]]);
+    expect(getRecording("term-a")).toMatchObject({ exitCode: 2, endReason: "process exited", durationSec: 1.75, bytes: 12 });
+    expect(getActiveRecording("term-a")).toBeNull();
+  });
+
+  test("keeps recent output for viewers joining late", async () => {
+    const rec = startRecording({ id: "term-b", cols: 80, rows: 24 });
+    rec.output("one ");
+    rec.output("two");
+    expect(rec.replay()).toBe("one two");
+    await rec.close({ reason: "test" });
+  });
+
+  test("refuses ids that could escape the recordings directory", () => {
+    expect(() => startRecording({ id: "../etc/passwd", cols: 80, rows: 24 })).toThrow("Invalid recording id");
+    expect(getRecording("../x")).toBeNull();
+  });
+});
+
+// ── Listing ─────────────────────────────────────────────────
+
+describe("listing and linking", () => {
+  test("filters by work item and dispatch", async () => {
+    await record("term-1", { workItemId: "ELLIE-1" });
+    await record("term-2", { dispatchId: "run-9" });
+    await record("term-3");
+    expect(listRecordings().map(r => r.id).sort()).toEqual(["term-1", "term-2", "term-3"]);
+    expect(listRecordings({ workItemId: "ELLIE-1" }).map(r => r.id)).toEqual(["term-1"]);
+    expect(listRecordings({ dispatchId: "run-9" }).map(r => r.id)).toEqual(["term-2"]);
+  });
+
+  test("linkRecording sets and clears links", async () => {
+    await record("term-4", { workItemId: "ELLIE-1" });
+    expect(linkRecording("term-4", { dispatchId: "run-2" })).toMatchObject({ workItemId: "ELLIE-1", dispatchId: "run-2" });
+    expect(linkRecording("term-4", { workItemId: null })).toMatchObject({ workItemId: null, dispatchId: "run-2" });
+    expect(linkRecording("missing", { workItemId: "x" })).toBeNull();
+  });
+
+  test("pruneRecordings drops only old finished recordings", async () => {
+    await record("term-old");
+    const live = startRecording({ id: "term-live", cols: 80, rows: 24 });
+    const later = Date.UTC(2026, 9, 19, 12) + 31 * 24 * 60 * 60_000;
+    expect(pruneRecordings(30, later)).toBe(1);
+    expect(getRecording("term-old")).toBeNull();
+    expect(getRecording("term-live")).not.toBeNull();
+    await live.close({ reason: "test" });
+  });
+});
+
+// ── API ─────────────────────────────────────────────────────
+
+describe("terminal recordings API", () => {
+  function fakeRes() {
+    const out = { status: 0, body: null as unknown };
+    const res = {
+      writeHead(s: number) { out.status = s; },
+      end(d: string) { out.body = JSON.parse(d); },
+    } as unknown as ServerResponse;
+    return { res, out };
+  }
+
+  function route(method: string, path: string) {
+    return routes.find(r => r.method === method && r.path === path)!;
+  }
+
+  test("lists, fetches and links recordings", async () => {
+    await record("term-x", { workItemId: "ELLIE-5" });
+    await record("term-y");
+
+    const list = fakeRes();
+    await route("GET", "/api/terminal/recordings").handler({ res: list.res, query: { workItemId: "ELLIE-5" } } as unknown as RouteContext);
+    expect((list.out.body as { recordings: { id: string }[] }).recordings.map(r => r.id)).toEqual(["term-x"]);
+
+    const patch = fakeRes();
+    await route("PATCH", "/api/terminal/recordings/:id").handler({ res: patch.res, params: { id: "term-y" }, rawBody: '{"dispatchId":"run-1"}' } as unknown as RouteContext);
+    expect(patch.out).toMatchObject({ status: 200, body: { id: "term-y", dispatchId: "run-1" } });
+
+    const get = fakeRes();
+    await route("GET", "/api/terminal/recordings/:id").handler({ res: get.res, params: { id: "term-y" } } as unknown as RouteContext);
+    expect(get.out.body).toMatchObject({ dispatchId: "run-1", exitCode: 0 });
+  });
+
+  test("unknown recordings are 404", async () => {
+    for (const [method, path] of [["GET", "/api/terminal/recordings/:id"], ["GET", "/api/terminal/recordings/:id/cast"], ["PATCH", "/api/terminal/recordings/:id"]]) {
+      const { res, out } = fakeRes();
+      await route(method, path).handler({ res, params: { id: "nope" }, rawBody: "{}" } as unknown as RouteContext);
+      expect(out.status).toBe(404);
+    }
+  });
+});
+
+// ── Viewers ─────────────────────────────────────────────────
+
+describe("read-only viewers", () => {
+  test("watching a terminal that is not running closes with 4004", async () => {
+    const wss = createTerminalWss();
+    const server = http.createServer();
+    server.on("upgrade", (req, socket, head) => wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req)));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const ws = new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws/terminal`);
+    await new Promise(resolve => ws.once("open", resolve));
+
+    const closed = new Promise<number>(resolve => ws.once("close", code => resolve(code)));
+    ws.send(JSON.stringify({ type: "watch", id: "term-none", token: "x" }));
+    expect(await closed).toBe(4004);
+
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { getToday, toDateString, formatTime, formatTime24 } from "../src/timezone.ts";
+import { getToday, toDateString, formatTime, formatTime24, getZonedParts, isValidTimeZone } from "../src/timezone.ts";
 
 // ── getToday ─────────────────────────────────────────────────
 
@@ -112,3 +112,22 @@ describe("formatTime24", () => {
     expect(result).toContain(":00");
   });
 });
+
+// ── getZonedParts ────────────────────────────────────────────
+
+describe("getZonedParts", () => {
+  it("returns wall-clock fields in the zone", () => {
+    expect(getZonedParts("2026-01-05T03:15:00Z", "America/Chicago")).toEqual({
+      year: 2026, month: 1, day: 4, weekday: 0, hour: 21, minute: 15,
+    });
+  });
+
+  it("uses 0 for midnight, not 24", () => {
+    expect(getZonedParts("2026-06-01T00:05:00Z", "UTC").hour).toBe(0);
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(isValidTimeZone("Europe/Paris")).toBe(true);
+    expect(isValidTimeZone("Not/AZone")).toBe(false);
+  });
+});
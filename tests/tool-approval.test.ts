@@ -32,6 +32,7 @@ import {
   clearSessionApprovals,
   getSessionApprovals,
   setBroadcastToEllieChat,
+  setToolPolicyGuard,
 } from "../src/tool-approval.ts";
 
 // ── Helpers ───────────────────────────────────────────────────
@@ -391,3 +392,29 @@ describe("session approvals — remember + getSessionApprovals", () => {
     expect(getSessionApprovals()).toHaveLength(0);
   });
 });
+
+// ── Policy guard ──────────────────────────────────────────────
+
+describe("checkToolApproval — policy guard", () => {
+  afterEach(() => setToolPolicyGuard(null));
+
+  test("a guard denial blocks even auto-approved tools", async () => {
+    setToolPolicyGuard(async () => ({ allowed: false, reason: "phi after hours" }));
+    const result = await checkToolApproval({ tool_name: "Read", tool_input: {}, agent: "dev" });
+    expect(result).toEqual({ approved: false, reason: "phi after hours" });
+  });
+
+  test("a failing guard denies", async () => {
+    setToolPolicyGuard(async () => { throw new Error("forest down"); });
+    const result = await checkToolApproval({ tool_name: "Read", tool_input: {} });
+    expect(result.approved).toBe(false);
+  });
+
+  test("an allowing guard falls through to the usual approval", async () => {
+    const seen: string[] = [];
+    setToolPolicyGuard(async (req) => { seen.push(req.agent ?? "general"); return { allowed: true }; });
+    const result = await checkToolApproval({ tool_name: "Read", tool_input: {} });
+    expect(result.approved).toBe(true);
+    expect(seen).toEqual(["general"]);
+  });
+});
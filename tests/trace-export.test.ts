@@ -0,0 +1,171 @@
+/**
+ * Tests for trace-export.ts — OTLP/JSON encoding, batched file export,
+ * waterfall layout and its HTML rendering.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { startSpan, withSpan, withTrace, getTraceSpans, _resetSpansForTesting } from "../src/trace.ts";
+import { toOtlpJson, initTraceExport, flushSpans, shutdownTraceExport, buildWaterfall } from "../src/trace-export.ts";
+import { renderWaterfallHtml } from "../src/api/routes/traces.ts";
+
+const TRACE = "0123456789abcdef";
+
+beforeEach(() => _resetSpansForTesting());
+
+// ── OTLP encoding ───────────────────────────────────────────
+
+describe("toOtlpJson", () => {
+  test("encodes spans as an ExportTraceServiceRequest", () => {
+    const parent = withTrace(() => startSpan("coordinator.loop", { attributes: { channel: "telegram" } }), TRACE);
+    const child = startSpan("claude.cli", { parent, kind: "client", attributes: { prompt_chars: 12, cost: 0.5, resume: false } });
+    child.end(new Error("exit 1"));
+    parent.end();
+
+    const body = toOtlpJson(getTraceSpans(TRACE));
+    const [resource] = body.resourceSpans;
+    expect(resource.resource.attributes).toEqual([{ key: "service.name", value: { stringValue: "ellie-relay" } }]);
+
+    const [loop, cli] = resource.scopeSpans[0].spans;
+    expect(loop.traceId).toBe("0000000000000000" + TRACE);
+    expect(loop).not.toHaveProperty("parentSpanId");
+    expect(loop.kind).toBe(1);
+    expect(loop.status).toEqual({ code: 1 });
+    expect(cli.parentSpanId).toBe(parent.spanId);
+    expect(cli.kind).toBe(3);
+    expect(cli.status).toEqual({ code: 2, message: "exit 1" });
+    expect(cli.attributes).toEqual([
+      { key: "prompt_chars", value: { intValue: "12" } },
+      { key: "cost", value: { doubleValue: 0.5 } },
+      { key: "resume", value: { boolValue: false } },
+    ]);
+    expect(BigInt(cli.endTimeUnixNano) >= BigInt(cli.startTimeUnixNano)).toBe(true);
+    expect(cli.startTimeUnixNano.endsWith("000000")).toBe(true);
+  });
+});
+
+// ── File export ─────────────────────────────────────────────
+
+describe("initTraceExport", () => {
+  let dir = "";
+
+  beforeEach(async () => { dir = await mkdtemp(join(tmpdir(), "trace-export-")); });
+  afterEach(async () => {
+    await shutdownTraceExport();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("does nothing without a destination", () => {
+    expect(initTraceExport({ file: "", endpoint: "" })).toBe(false);
+  });
+
+  test("appends finished spans as OTLP/JSON lines", async () => {
+    const file = join(dir, "spans.jsonl");
+    expect(initTraceExport({ file })).toBe(true);
+
+    await withTrace(() => withSpan("dispatch.specialist", async () => {}), TRACE);
+    startSpan("still-open", { root: true });
+    expect(await flushSpans()).toBe(1);
+    expect(await flushSpans()).toBe(0);
+
+    const lines = (await readFile(file, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    const spans = JSON.parse(lines[0]).resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((s: { name: string }) => s.name)).toEqual(["dispatch.specialist"]);
+  });
+
+  test("keeps spans buffered when the write fails", async () => {
+    initTraceExport({ file: join(dir, "missing", "spans.jsonl") });
+    startSpan("lost?", { root: true }).end();
+    expect(await flushSpans()).toBe(0);
+    expect(await flushSpans()).toBe(0);
+  });
+
+  test("retries a failed POST without appending the spans to the file again", async () => {
+    const posted: string[] = [];
+    let failNext = true;
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        posted.push(await req.text());
+        if (failNext) {
+          failNext = false;
+          return new Response("unavailable", { status: 503 });
+        }
+        return new Response("{}");
+      },
+    });
+    try {
+      const file = join(dir, "spans.jsonl");
+      initTraceExport({ file, endpoint: `http://localhost:${server.port}` });
+      startSpan("flaky", { root: true }).end();
+
+      expect(await flushSpans()).toBe(1);
+      expect(await flushSpans()).toBe(1);
+      expect(await flushSpans()).toBe(0);
+
+      expect(posted).toHaveLength(2);
+      expect(posted[1]).toBe(posted[0]);
+      const lines = (await readFile(file, "utf-8")).trim().split("\n");
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toBe(posted[0]);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+// ── Waterfall ───────────────────────────────────────────────
+
+describe("buildWaterfall", () => {
+  test("returns null for an unknown trace", () => {
+    expect(buildWaterfall("ffffffffffffffff")).toBeNull();
+  });
+
+  test("lays spans out depth-first with offsets from trace start", () => {
+    const loop = withTrace(() => startSpan("coordinator.loop"), TRACE);
+    const iter1 = startSpan("coordinator.iteration", { parent: loop });
+    const dispatch = startSpan("coordinator.dispatch", { parent: iter1 });
+    const iter2 = startSpan("coordinator.iteration", { parent: loop });
+    for (const [span, start, end] of [[loop, 0, 900], [iter1, 10, 500], [dispatch, 20, 480], [iter2, 500, 880]] as const) {
+      span.record.startTime = 1_000 + start;
+      span.record.endTime = 1_000 + end;
+    }
+
+    const w = buildWaterfall(TRACE)!;
+    expect(w.durationMs).toBe(900);
+    expect(w.rows.map(r => [r.name, r.depth, r.offsetMs, r.durationMs])).toEqual([
+      ["coordinator.loop", 0, 0, 900],
+      ["coordinator.iteration", 1, 10, 490],
+      ["coordinator.dispatch", 2, 20, 460],
+      ["coordinator.iteration", 1, 500, 380],
+    ]);
+  });
+
+  test("open spans run to now and orphans become roots", () => {
+    const span = withTrace(() => startSpan("claude.cli", { parent: null }), TRACE);
+    span.record.startTime = 1_000;
+    const orphan = startSpan("channel.deliver", { parent: { ...span, spanId: "not-recorded" } });
+    orphan.record.startTime = 1_100;
+    orphan.end();
+    orphan.record.endTime = 1_150;
+
+    const w = buildWaterfall(TRACE, 2_000)!;
+    expect(w.durationMs).toBe(1_000);
+    expect(w.rows.map(r => [r.name, r.depth, r.durationMs])).toEqual([
+      ["claude.cli", 0, null],
+      ["channel.deliver", 0, 50],
+    ]);
+  });
+
+  test("renders an HTML waterfall with escaped names", () => {
+    withTrace(() => startSpan("<script>", { attributes: { agent: "dev" } }), TRACE).end(new Error("bad"));
+    const html = renderWaterfallHtml(buildWaterfall(TRACE)!);
+    expect(html).toContain(`Trace ${TRACE}`);
+    expect(html).toContain("&lt;script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("#d9534f");
+  });
+});
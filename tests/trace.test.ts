@@ -1,15 +1,25 @@
 /**
  * ELLIE-559 — trace.ts tests
  *
- * Tests trace ID generation, async context propagation.
+ * Tests trace ID generation, async context propagation, spans.
  */
 
-import { describe, test, expect } from "bun:test";
+import { describe, test, expect, beforeEach } from "bun:test";
 import {
   generateTraceId,
   getTraceId,
+  getSpanId,
   withTrace,
   withTraceAsync,
+  startSpan,
+  withSpan,
+  onSpanEnd,
+  getTraceSpans,
+  listRecentTraces,
+  createTracedFetch,
+  _resetSpansForTesting,
+  MAX_STORED_TRACES,
+  type SpanRecord,
 } from "../src/trace.ts";
 
 // ── generateTraceId ─────────────────────────────────────────
@@ -91,3 +101,116 @@ describe("withTraceAsync", () => {
     });
   });
 });
+
+// ── Spans ───────────────────────────────────────────────────
+
+describe("spans", () => {
+  beforeEach(() => _resetSpansForTesting());
+
+  test("withSpan nests children under the active span within one trace", async () => {
+    const root = await withTrace(() => withSpan("root", async (outer) => {
+      expect(getSpanId()).toBe(outer.spanId);
+      await withSpan("child", async () => {
+        await new Promise(r => setTimeout(r, 1));
+      });
+      return outer;
+    }), "aaaaaaaaaaaaaaaa");
+
+    const spans = getTraceSpans("aaaaaaaaaaaaaaaa");
+    expect(spans.map(s => s.name)).toEqual(["root", "child"]);
+    expect(spans[0].parentSpanId).toBeNull();
+    expect(spans[1].parentSpanId).toBe(root.spanId);
+    expect(spans.every(s => s.status === "ok" && s.endTime !== null)).toBe(true);
+    expect(getSpanId()).toBeNull();
+  });
+
+  test("a span outside any trace is a no-op unless it asks to be a root", () => {
+    const ended: SpanRecord[] = [];
+    onSpanEnd(s => ended.push(s));
+    const stray = startSpan("stray");
+    const child = startSpan("child", { parent: stray });
+    stray.end();
+    child.end();
+    expect(stray.recording).toBe(false);
+    expect(child.recording).toBe(false);
+    expect(ended).toHaveLength(0);
+    expect(listRecentTraces()).toHaveLength(0);
+
+    const root = startSpan("orphan", { root: true });
+    root.end();
+    expect(getTraceSpans(root.traceId)).toHaveLength(1);
+  });
+
+  test("withSpan outside a trace runs fn without recording", () => {
+    expect(withSpan("stray", span => span.recording)).toBe(false);
+    expect(listRecentTraces()).toHaveLength(0);
+  });
+
+  test("explicit parent overrides the active span; null makes a root", () => {
+    withTrace(() => {
+      const loop = startSpan("loop");
+      const iteration = startSpan("iteration", { parent: loop });
+      const root = withSpan("inner", () => startSpan("detached", { parent: null }));
+      expect(iteration.record.parentSpanId).toBe(loop.spanId);
+      expect(root.record.parentSpanId).toBeNull();
+      expect(root.traceId).toBe(loop.traceId);
+    });
+  });
+
+  test("errors mark the span failed and are rethrown", async () => {
+    let traceId = "";
+    await expect(withSpan("boom", async (span) => {
+      traceId = span.traceId;
+      throw new Error("kaput");
+    }, { root: true })).rejects.toThrow("kaput");
+    const [span] = getTraceSpans(traceId);
+    expect(span.status).toBe("error");
+    expect(span.statusMessage).toBe("kaput");
+  });
+
+  test("end() is idempotent and notifies listeners once", () => {
+    const ended: SpanRecord[] = [];
+    onSpanEnd(s => ended.push(s));
+    const span = startSpan("once", { root: true, attributes: { agent: "dev", skipped: undefined } });
+    span.end();
+    span.end(new Error("late"));
+    expect(ended).toHaveLength(1);
+    expect(ended[0].status).toBe("ok");
+    expect(ended[0].attributes).toEqual({ agent: "dev" });
+  });
+
+  test("store keeps only the most recent traces", () => {
+    for (let i = 0; i < MAX_STORED_TRACES + 5; i++) startSpan(`s${i}`, { root: true }).end();
+    const recent = listRecentTraces(MAX_STORED_TRACES + 10);
+    expect(recent).toHaveLength(MAX_STORED_TRACES);
+    expect(recent.map(t => t.rootName)).not.toContain("s0");
+  });
+
+  test("listRecentTraces reports open traces with null duration", () => {
+    const span = startSpan("still-running", { root: true });
+    const [summary] = listRecentTraces();
+    expect(summary).toMatchObject({ traceId: span.traceId, rootName: "still-running", durationMs: null, spanCount: 1 });
+  });
+});
+
+// ── createTracedFetch ───────────────────────────────────────
+
+describe("createTracedFetch", () => {
+  beforeEach(() => _resetSpansForTesting());
+
+  const fakeFetch = (async () => new Response("[]", { status: 200 })) as unknown as typeof fetch;
+
+  test("records a client span inside a trace", async () => {
+    const traced = createTracedFetch("db.supabase", fakeFetch);
+    await withTrace(() => traced("https://db.example/rest/v1/messages?select=*", { method: "POST" }), "bbbbbbbbbbbbbbbb");
+    const [span] = getTraceSpans("bbbbbbbbbbbbbbbb");
+    expect(span).toMatchObject({ name: "db.supabase", kind: "client", status: "ok" });
+    expect(span.attributes).toEqual({ "http.method": "POST", "http.target": "/rest/v1/messages", "http.status_code": 200 });
+  });
+
+  test("passes through without a span outside a trace", async () => {
+    const traced = createTracedFetch("db.supabase", fakeFetch);
+    await traced("https://db.example/rest/v1/messages");
+    expect(listRecentTraces()).toHaveLength(0);
+  });
+});
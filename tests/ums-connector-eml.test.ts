@@ -0,0 +1,123 @@
+/**
+ * UMS Connector Tests: raw RFC 5322 email (.eml / mbox)
+ */
+
+import { describe, test, expect } from "bun:test";
+import { emlConnector } from "../src/ums/connectors/eml.ts";
+import { parseEmail, parseAddressList, splitMbox, decodeEncodedWords } from "../src/ums/mime.ts";
+import { emlFixtures as fx } from "./fixtures/ums-connector-payloads.ts";
+
+describe("parseEmail", () => {
+  test("decodes headers, addresses and threading", () => {
+    const email = parseEmail(fx.multipartWithAttachment);
+    expect(email.message_id).toBe("<reply-2@clinic.example>");
+    expect(email.subject).toBe("Re: Q1 schedule — final");
+    expect(email.from).toEqual([{ name: "Lee, Sarah", address: "sarah@clinic.example" }]);
+    expect(email.to).toEqual([{ name: "Dave", address: "dave@example.com" }, { address: "ops@example.com" }]);
+    expect(email.cc).toEqual([]);
+    expect(email.date).toBe("2020-03-03T15:15:00.000Z");
+    expect(email.in_reply_to).toBe("<root-1@example.com>");
+    expect(email.references).toEqual(["<root-1@example.com>"]);
+  });
+
+  test("walks nested multipart bodies and decodes charsets", () => {
+    const email = parseEmail(fx.multipartWithAttachment);
+    expect(email.text).toContain("Café at 10 works.");
+    expect(email.text).toContain("long enough to wrap.");
+    expect(email.html).toContain("<p>Caf&eacute; at 10 works.</p>");
+  });
+
+  test("collects attachment metadata without content", () => {
+    const email = parseEmail(fx.multipartWithAttachment);
+    expect(email.attachments).toHaveLength(2);
+    expect(email.attachments[0]).toEqual({
+      filename: "Q1 schedule.pdf",
+      content_type: "application/pdf",
+      size: 15,
+      content_id: null,
+      inline: false,
+    });
+    expect(email.attachments[1]).toMatchObject({ content_type: "image/png", inline: true, content_id: "<logo@clinic>" });
+  });
+
+  test("parses legacy comment-style addresses", () => {
+    expect(parseAddressList("old@example.com (Old Timer)")).toEqual([{ name: "Old Timer", address: "old@example.com" }]);
+  });
+
+  test("decodes 8bit non-UTF-8 parts read as bytes with each part's charset", () => {
+    const email = parseEmail(fx.eightBitLatin1);
+    expect(email.text).toBe("Café à 10h, £5.");
+    expect(email.html).toBe("<p>“Café” € 20</p>");
+    expect(email.subject).toBe("Résumé");
+    expect(email.from).toEqual([{ name: "Zoë", address: "zoe@example.com" }]);
+  });
+
+  test("leaves already-decoded 8bit text alone", () => {
+    const email = parseEmail("Subject: Résumé\nContent-Type: text/plain; charset=iso-8859-1\n\nCafé — ok\n");
+    expect(email.subject).toBe("Résumé");
+    expect(email.text).toBe("Café — ok\n");
+  });
+
+  test("joins adjacent encoded-words", () => {
+    expect(decodeEncodedWords("=?UTF-8?B?SGVs?= =?UTF-8?B?bG8=?= world")).toBe("Hello world");
+  });
+});
+
+describe("splitMbox", () => {
+  test("splits on From_ lines and unescapes >From", () => {
+    const messages = splitMbox(fx.mbox);
+    expect(messages).toHaveLength(2);
+    expect(parseEmail(messages[0]).text).toBe("Line one\nFrom the archive, this line was escaped.");
+    expect(parseEmail(messages[1]).subject).toBe("Second");
+  });
+
+  test("returns nothing for an empty archive", () => {
+    expect(splitMbox("")).toEqual([]);
+  });
+});
+
+describe("emlConnector", () => {
+  test("provider is 'eml'", () => {
+    expect(emlConnector.provider).toBe("eml");
+  });
+
+  test("normalizes a multipart message", () => {
+    const result = emlConnector.normalize({ raw: fx.multipartWithAttachment, source: "takeout", mailbox: "Inbox" });
+    expect(result).not.toBeNull();
+    expect(result!.provider_id).toBe("<reply-2@clinic.example>");
+    expect(result!.channel).toBe("eml:takeout");
+    expect(result!.sender).toEqual({ name: "Lee, Sarah", email: "sarah@clinic.example" });
+    expect(result!.content).toStartWith("Re: Q1 schedule — final\n\nCafé");
+    expect(result!.provider_timestamp).toBe("2020-03-03T15:15:00.000Z");
+    expect(result!.metadata).toMatchObject({
+      to: ["dave@example.com", "ops@example.com"],
+      mailbox: "Inbox",
+      has_attachments: true,
+      thread_id: "<root-1@example.com>",
+      in_reply_to: "<root-1@example.com>",
+      imported: true,
+    });
+    expect(result!.raw).not.toHaveProperty("attachments");
+  });
+
+  test("accepts a bare string and strips HTML-only bodies", () => {
+    const result = emlConnector.normalize(fx.htmlOnly);
+    expect(result!.channel).toBe("eml:import");
+    expect(result!.sender).toEqual({ name: "José", email: "jose@list.example" });
+    expect(result!.content).toBe("Newsletter\n\nBig news!");
+  });
+
+  test("derives a stable provider_id when Message-ID is missing", () => {
+    const a = emlConnector.normalize(fx.noMessageId);
+    const b = emlConnector.normalize(fx.noMessageId);
+    expect(a!.provider_id).toStartWith("<sha256:");
+    expect(a!.provider_id).toBe(b!.provider_id);
+    expect(a!.metadata!.thread_id).toBe(a!.provider_id);
+  });
+
+  test("returns null for empty or headerless payloads", () => {
+    expect(emlConnector.normalize({})).toBeNull();
+    expect(emlConnector.normalize(null)).toBeNull();
+    expect(emlConnector.normalize(fx.headersOnlyGarbage)).toBeNull();
+  });
+});
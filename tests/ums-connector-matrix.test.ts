@@ -0,0 +1,57 @@
+/**
+ * UMS Connector Tests: Matrix
+ */
+
+import { describe, test, expect } from "bun:test";
+import { matrixConnector } from "../src/ums/connectors/matrix.ts";
+import { matrixFixtures as fx } from "./fixtures/ums-connector-payloads.ts";
+
+describe("matrixConnector", () => {
+  test("provider is 'matrix'", () => {
+    expect(matrixConnector.provider).toBe("matrix");
+  });
+
+  test("normalizes a threaded text message", () => {
+    const result = matrixConnector.normalize(fx.threadedText);
+    expect(result).not.toBeNull();
+    expect(result!.provider).toBe("matrix");
+    expect(result!.provider_id).toBe("$abc123:example.org");
+    expect(result!.channel).toBe("matrix:!dev:example.org");
+    expect(result!.content).toBe("Can you check the deploy?");
+    expect(result!.content_type).toBe("text");
+    expect(result!.sender).toEqual({ id: "@dave:example.org", username: "dave" });
+    expect(result!.provider_timestamp).toBe("2026-03-14T10:00:00.000Z");
+    expect(result!.metadata).toMatchObject({
+      room_id: "!dev:example.org",
+      msgtype: "m.text",
+      thread_id: "$root:example.org",
+      is_direct: false,
+    });
+  });
+
+  test("normalizes media with its mxc URL", () => {
+    const result = matrixConnector.normalize(fx.image);
+    expect(result!.content_type).toBe("image");
+    expect(result!.content).toBe("whiteboard.png");
+    expect(result!.provider_timestamp).toBeNull();
+    expect(result!.metadata).toMatchObject({ is_direct: true, media_url: "mxc://example.org/media1", thread_id: null });
+  });
+
+  // ── Skipped payloads ─────────────────────────────────────
+
+  test("returns null for edits", () => {
+    expect(matrixConnector.normalize(fx.edit)).toBeNull();
+  });
+
+  test("returns null for reactions", () => {
+    expect(matrixConnector.normalize(fx.reaction)).toBeNull();
+  });
+
+  test("returns null for redacted messages", () => {
+    expect(matrixConnector.normalize(fx.redacted)).toBeNull();
+  });
+
+  test("returns null for empty payload", () => {
+    expect(matrixConnector.normalize(fx.empty)).toBeNull();
+  });
+});
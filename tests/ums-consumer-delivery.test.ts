@@ -0,0 +1,214 @@
+/**
+ * UMS Tests: Consumer redelivery, dead letters and replay
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { subscribe, unsubscribe, notify, redeliverPending, replayConsumer } from "../src/ums/events.ts";
+import {
+  listDeliveries,
+  listDeadLetters,
+  requeueDeadLetter,
+  scheduleRedelivery,
+  getDueDeliveries,
+  _resetForTesting,
+  MAX_DELIVERY_ATTEMPTS,
+} from "../src/ums/consumer-delivery.ts";
+import { resetConsumer } from "../src/ums/consumer-backoff.ts";
+import type { UnifiedMessage } from "../src/ums/types.ts";
+
+function makeMsg(overrides: Partial<UnifiedMessage> = {}): UnifiedMessage {
+  return {
+    id: crypto.randomUUID(),
+    provider: "telegram",
+    provider_id: `p-${Math.random()}`,
+    channel: "telegram:12345",
+    sender: null,
+    content: "hello",
+    content_type: "text",
+    raw: {},
+    received_at: new Date().toISOString(),
+    provider_timestamp: null,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+/** Minimal chainable Supabase stub over an in-memory unified_messages table. */
+function makeSupabase(messages: UnifiedMessage[], watermark: string | null = null) {
+  function builder(table: string) {
+    let rows: Record<string, unknown>[] = table === "unified_messages"
+      ? [...messages] as unknown as Record<string, unknown>[]
+      : table === "ums_consumer_watermarks" ? [{ consumer_name: "c", last_message_id: watermark }] : [];
+    let limit = Infinity;
+    let ascending = true;
+    const q = {
+      select: () => q,
+      eq: (col: string, val: unknown) => { rows = rows.filter(r => r[col] === val); return q; },
+      gt: (col: string, val: string) => { rows = rows.filter(r => String(r[col]) > val); return q; },
+      gte: (col: string, val: string) => { rows = rows.filter(r => String(r[col]) >= val); return q; },
+      lte: (col: string, val: string) => { rows = rows.filter(r => String(r[col]) <= val); return q; },
+      // Only the replay keyset: received_at.gt."T",and(received_at.eq."T",id.gt."ID")
+      or: (expr: string) => {
+        const [, after, at, id] = /^received_at\.gt\."(.+)",and\(received_at\.eq\."(.+)",id\.gt\."(.+)"\)$/.exec(expr)!;
+        rows = rows.filter(r => String(r.received_at) > after || (r.received_at === at && String(r.id) > id));
+        return q;
+      },
+      order: (_col: string, opts: { ascending: boolean }) => { ascending = opts.ascending; return q; },
+      limit: (n: number) => { limit = n; return q; },
+      maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+      upsert: async () => ({ error: null }),
+      delete: () => q,
+      rpc: async () => ({ error: null }),
+      then: (resolve: (v: unknown) => void) => {
+        const sorted = [...rows].sort((a, b) =>
+          String(a.received_at).localeCompare(String(b.received_at)) || String(a.id).localeCompare(String(b.id)));
+        if (!ascending) sorted.reverse();
+        resolve({ data: sorted.slice(0, limit), error: null });
+      },
+    };
+    return q;
+  }
+  return { from: builder, rpc: async () => ({ error: null }) } as unknown as SupabaseClient;
+}
+
+describe("UMS consumer delivery", () => {
+  const names: string[] = [];
+
+  function register(name: string, handler: (m: UnifiedMessage) => void | Promise<void>) {
+    names.push(name);
+    subscribe(name, { provider: "telegram" }, handler);
+  }
+
+  beforeEach(() => {
+    for (const n of names.splice(0)) {
+      unsubscribe(n);
+      resetConsumer(n);
+    }
+    _resetForTesting();
+  });
+
+  test("failed handler queues the message for redelivery", async () => {
+    register("fail-once", () => { throw new Error("boom"); });
+    const msg = makeMsg();
+    await notify(msg);
+
+    const pending = listDeliveries({ consumer: "fail-once" });
+    expect(pending).toHaveLength(1);
+    expect(pending[0].message_id).toBe(msg.id);
+    expect(pending[0].attempts).toBe(1);
+    expect(pending[0].last_error).toContain("boom");
+    expect(pending[0].status).toBe("pending");
+  });
+
+  test("successful handler leaves nothing queued", async () => {
+    register("ok", () => {});
+    await notify(makeMsg());
+    expect(listDeliveries({ consumer: "ok" })).toHaveLength(0);
+  });
+
+  test("messages arriving during backoff are held without burning an attempt", async () => {
+    register("backoff", () => { throw new Error("down"); });
+    await notify(makeMsg());
+    const held = makeMsg();
+    await notify(held);
+
+    const entry = listDeliveries({ consumer: "backoff" }).find(d => d.message_id === held.id);
+    expect(entry?.attempts).toBe(0);
+    expect(entry?.last_error).toContain("skipped");
+  });
+
+  test("redeliverPending delivers due messages once the consumer recovers", async () => {
+    let fail = true;
+    const seen: string[] = [];
+    register("recover", (m) => {
+      if (fail) throw new Error("down");
+      seen.push(m.id);
+    });
+    const msg = makeMsg();
+    await notify(msg);
+
+    fail = false;
+    resetConsumer("recover");
+    // Not due yet — backoff still applies per message
+    expect((await redeliverPending()).delivered).toBe(0);
+    expect(getDueDeliveries()).toHaveLength(0);
+
+    const result = await redeliverPending(null, Date.now() + 24 * 60 * 60_000);
+    expect(result.delivered).toBe(1);
+    expect(seen).toEqual([msg.id]);
+    expect(listDeliveries({ consumer: "recover" })).toHaveLength(0);
+  });
+
+  test("dead-letters after max attempts and can be requeued", async () => {
+    const msg = makeMsg();
+    for (let i = 0; i < MAX_DELIVERY_ATTEMPTS; i++) {
+      await scheduleRedelivery(null, "dlq", msg, `fail ${i}`);
+    }
+    const dead = listDeadLetters("dlq");
+    expect(dead).toHaveLength(1);
+    expect(dead[0].attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+
+    expect(await requeueDeadLetter(null, "dlq", msg.id)).toBe(true);
+    expect(listDeadLetters("dlq")).toHaveLength(0);
+    expect(listDeliveries({ consumer: "dlq" })[0].attempts).toBe(0);
+    expect(await requeueDeadLetter(null, "dlq", msg.id)).toBe(false);
+  });
+
+  describe("replayConsumer", () => {
+    const t = (min: number) => new Date(Date.UTC(2026, 0, 1, 0, min)).toISOString();
+    const msgs = [
+      makeMsg({ received_at: t(1) }),
+      makeMsg({ received_at: t(2) }),
+      makeMsg({ received_at: t(3), provider: "gmail" }),
+      makeMsg({ received_at: t(4) }),
+    ];
+
+    test("replays from a timestamp, oldest first, honoring the filter", async () => {
+      const seen: string[] = [];
+      register("c", (m) => { seen.push(m.id); });
+      const result = await replayConsumer(makeSupabase(msgs), "c", { since: t(2) });
+      expect(seen).toEqual([msgs[1].id, msgs[3].id]);
+      expect(result.processed).toBe(2);
+      expect(result.lastMessageId).toBe(msgs[3].id);
+    });
+
+    test("resumes after the persisted watermark by default", async () => {
+      const seen: string[] = [];
+      register("c", (m) => { seen.push(m.id); });
+      const result = await replayConsumer(makeSupabase(msgs, msgs[0].id), "c");
+      expect(result.from).toBe(t(1));
+      expect(seen).toEqual([msgs[1].id, msgs[3].id]);
+    });
+
+    test("pages through rows sharing a timestamp without skipping any", async () => {
+      const burst = Array.from({ length: 502 }, (_, i) =>
+        makeMsg({ id: `m-${String(i).padStart(4, "0")}`, received_at: t(5) }));
+      const seen: string[] = [];
+      register("c", (m) => { seen.push(m.id); });
+      const result = await replayConsumer(makeSupabase(burst), "c", { since: t(5) });
+      expect(result.processed).toBe(502);
+      expect(new Set(seen).size).toBe(502);
+    });
+
+    test("resuming from a message includes later rows with the same timestamp", async () => {
+      const tied = ["a", "b", "c"].map(id => makeMsg({ id, received_at: t(6) }));
+      const seen: string[] = [];
+      register("c", (m) => { seen.push(m.id); });
+      await replayConsumer(makeSupabase(tied), "c", { fromMessageId: "a" });
+      expect(seen).toEqual(["b", "c"]);
+    });
+
+    test("respects limit and queues failures", async () => {
+      register("c", () => { throw new Error("still broken"); });
+      const result = await replayConsumer(makeSupabase(msgs), "c", { since: t(0), limit: 1 });
+      expect(result.matched).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(listDeliveries({ consumer: "c" })).toHaveLength(1);
+    });
+
+    test("throws for an unknown subscriber", async () => {
+      await expect(replayConsumer(makeSupabase(msgs), "nope")).rejects.toThrow("Unknown UMS subscriber");
+    });
+  });
+});
@@ -3,10 +3,30 @@
  *
  * Covers: encrypt/decrypt round-trip, tamper detection, wrong-key rejection,
  * random IV (two encryptions of same plaintext differ), getMasterKey validation,
- * and createCredential/getDecryptedPayload with a mock Supabase client.
+ * createCredential/getDecryptedPayload with a mock Supabase client, envelope
+ * encryption with versioned master keys, access auditing, key rotation,
+ * keychain secrets and the Hollow import.
  */
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { encrypt, decrypt, createCredential, getDecryptedPayload } from "../src/vault.ts";
+import {
+  encrypt,
+  decrypt,
+  createCredential,
+  getDecryptedPayload,
+  sealPayload,
+  openPayload,
+  rewrapPayload,
+  getKeyVersions,
+  getActiveKeyVersion,
+  rotateVaultKeys,
+  listCredentials,
+  listCredentialDomains,
+  retrieveSecret,
+  storeSecret,
+  importLegacyCredentials,
+  keychainDomain,
+  type LegacyVaultSource,
+} from "../src/vault.ts";
 
 // ── Test key (64 hex chars = 32 bytes) ───────────────────────
 
@@ -223,9 +243,46 @@ describe("createCredential + getDecryptedPayload — Supabase integration", () =
       expect(inserted).toBeDefined();
       // encrypted_data must not contain the raw key
       expect(inserted.encrypted_data).not.toContain("sk-test-abc123");
-      // must be valid base64 (decrypt-able)
-      const decrypted = JSON.parse(decrypt(inserted.encrypted_data));
-      expect(decrypted).toEqual(PAYLOAD);
+      // payload is under a data key wrapped by master key v1
+      expect(inserted.key_version).toBe(1);
+      expect(() => decrypt(inserted.encrypted_data)).toThrow();
+      expect(JSON.parse(openPayload(inserted))).toEqual(PAYLOAD);
+    });
+  });
+
+  test("getDecryptedPayload reads envelope rows and records the access", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeMockSupabase({
+        credRow: { id: CRED_ID, label: "Test", ...sealPayload(JSON.stringify(PAYLOAD)) },
+      });
+      const { record, payload } = await getDecryptedPayload(supabase, CRED_ID, {
+        actor: "agent:dev",
+        agent: "dev",
+        purpose: "deploy",
+      });
+      expect(payload).toEqual(PAYLOAD);
+      expect(record).not.toHaveProperty("wrapped_key");
+      expect(supabase._getInserted()).toEqual({
+        credential_id: CRED_ID,
+        actor: "agent:dev",
+        agent: "dev",
+        purpose: "deploy",
+        via: "getDecryptedPayload",
+      });
+    });
+  });
+
+  test("getDecryptedPayload fails closed when the audit entry can't be written", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeMockSupabase({
+        credRow: { id: CRED_ID, ...sealPayload(JSON.stringify(PAYLOAD)) },
+      });
+      const from = supabase.from;
+      supabase.from = (table: string) =>
+        table === "credential_access_log"
+          ? { insert: () => Promise.resolve({ error: { message: "relation does not exist" } }) }
+          : from(table);
+      await expect(getDecryptedPayload(supabase, CRED_ID, { actor: "local" })).rejects.toThrow(/record credential access/);
     });
   });
 
@@ -241,8 +298,317 @@ describe("createCredential + getDecryptedPayload — Supabase integration", () =
           encrypted_data: encrypted,
         },
       });
-      const { payload } = await getDecryptedPayload(supabase, CRED_ID);
+      const { payload } = await getDecryptedPayload(supabase, CRED_ID, { actor: "local" });
       expect(payload).toEqual(PAYLOAD);
     });
   });
 });
+
+// ── Versioned master keys ────────────────────────────────────
+
+const KEY_ENV = ["VAULT_MASTER_KEY", "VAULT_MASTER_KEY_V2", "VAULT_MASTER_KEY_V3", "VAULT_ACTIVE_KEY_VERSION"];
+
+describe("versioned master keys", () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const k of KEY_ENV) { saved[k] = process.env[k]; delete process.env[k]; }
+    process.env.VAULT_MASTER_KEY = TEST_KEY;
+    process.env.VAULT_MASTER_KEY_V2 = OTHER_KEY;
+  });
+  afterEach(() => {
+    for (const k of KEY_ENV) {
+      if (saved[k] === undefined) delete process.env[k];
+      else process.env[k] = saved[k];
+    }
+  });
+
+  test("active version defaults to the highest configured", () => {
+    expect(getKeyVersions()).toEqual([1, 2]);
+    expect(getActiveKeyVersion()).toBe(2);
+    process.env.VAULT_ACTIVE_KEY_VERSION = "1";
+    expect(getActiveKeyVersion()).toBe(1);
+  });
+
+  test("new envelopes use the active version; older ones still open", () => {
+    const v1 = sealPayload("old", 1);
+    const v2 = sealPayload("new");
+    expect(v2.key_version).toBe(2);
+    expect(openPayload(v1)).toBe("old");
+    expect(openPayload(v2)).toBe("new");
+  });
+
+  test("legacy rows (no wrapped key) decrypt with version 1", () => {
+    const legacy = { encrypted_data: encrypt("legacy", Buffer.from(TEST_KEY, "hex")), wrapped_key: null, key_version: null };
+    expect(openPayload(legacy)).toBe("legacy");
+  });
+
+  test("re-wrapping keeps the payload ciphertext and switches version", () => {
+    const v1 = sealPayload("secret", 1);
+    const v2 = rewrapPayload(v1, 2);
+    expect(v2.encrypted_data).toBe(v1.encrypted_data);
+    expect(v2.wrapped_key).not.toBe(v1.wrapped_key);
+    expect(v2.key_version).toBe(2);
+    delete process.env.VAULT_MASTER_KEY;
+    expect(openPayload(v2)).toBe("secret");
+  });
+
+  test("a missing version names its env var", () => {
+    expect(() => sealPayload("x", 3)).toThrow(/VAULT_MASTER_KEY_V3/);
+  });
+});
+
+// ── Key rotation ─────────────────────────────────────────────
+
+type Row = { id: string; encrypted_data: string; wrapped_key: string | null; key_version: number | null; updated_at?: string };
+
+/** In-memory credentials table supporting the query chains rotateVaultKeys uses. */
+function makeRotationSupabase(rows: Row[], opts: { failUpdateFor?: string; rewriteDuringRun?: string } = {}) {
+  const query = (filters: ((r: Row) => boolean)[], action: (matched: Row[]) => unknown, limit = Infinity) => {
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: (n: number) => query(filters, action, n),
+      or: (expr: string) => {
+        const version = Number(expr.match(/neq\.(\d+)/)![1]);
+        return query([...filters, r => r.key_version === null || r.key_version !== version], action, limit);
+      },
+      gt: (col: keyof Row, v: string) => query([...filters, r => String(r[col]) > v], action, limit),
+      eq: (col: keyof Row, v: unknown) => query([...filters, r => r[col] === v], action, limit),
+      then: (resolve: (v: unknown) => void) => {
+        const matched = rows.filter(r => filters.every(f => f(r))).sort((a, b) => a.id.localeCompare(b.id)).slice(0, limit);
+        resolve(action(matched));
+      },
+    };
+    return builder;
+  };
+  return {
+    from: () => ({
+      select: (_cols: string, o?: { head?: boolean }) =>
+        query([], m => {
+          if (o?.head) return { count: m.length, error: null };
+          const data = m.map(r => ({ ...r }));
+          // Another writer re-seals this row between the read and the conditional update
+          const rewritten = rows.find(r => r.id === opts.rewriteDuringRun);
+          if (rewritten) Object.assign(rewritten, sealPayload("rewritten", 1));
+          return { data, error: null };
+        }),
+      update: (patch: Partial<Row>) =>
+        query([], m => {
+          if (m.some(r => r.id === opts.failUpdateFor)) return { data: null, error: { message: "update failed" } };
+          for (const r of m) Object.assign(r, patch);
+          return { data: m.map(r => ({ id: r.id })), error: null };
+        }),
+    }),
+  } as any;
+}
+
+describe("rotateVaultKeys", () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const k of KEY_ENV) { saved[k] = process.env[k]; delete process.env[k]; }
+    process.env.VAULT_MASTER_KEY = TEST_KEY;
+  });
+  afterEach(() => {
+    for (const k of KEY_ENV) {
+      if (saved[k] === undefined) delete process.env[k];
+      else process.env[k] = saved[k];
+    }
+  });
+
+  function seed(): Row[] {
+    return [
+      { id: "a", encrypted_data: encrypt("legacy"), wrapped_key: null, key_version: null },
+      { id: "b", ...sealPayload("one", 1) },
+      { id: "c", ...sealPayload("two", 1) },
+    ];
+  }
+
+  test("re-wraps every row to the active version in batches", async () => {
+    const rows = seed();
+    process.env.VAULT_MASTER_KEY_V2 = OTHER_KEY;
+    const result = await rotateVaultKeys(makeRotationSupabase(rows), { batchSize: 2 });
+    expect(result).toEqual({ toVersion: 2, rotated: 3, failed: [], remaining: 0 });
+    expect(rows.every(r => r.key_version === 2 && r.wrapped_key)).toBe(true);
+
+    delete process.env.VAULT_MASTER_KEY;
+    expect(rows.map(r => openPayload(r))).toEqual(["legacy", "one", "two"]);
+  });
+
+  test("resumes where an interrupted run stopped", async () => {
+    const rows = seed();
+    process.env.VAULT_MASTER_KEY_V2 = OTHER_KEY;
+    const supabase = makeRotationSupabase(rows);
+    expect(await rotateVaultKeys(supabase, { maxRows: 2 })).toMatchObject({ rotated: 2, remaining: 1 });
+    expect(await rotateVaultKeys(supabase)).toMatchObject({ rotated: 1, remaining: 0 });
+    expect(await rotateVaultKeys(supabase)).toMatchObject({ rotated: 0, remaining: 0 });
+  });
+
+  test("records failures and leaves those rows for the next run", async () => {
+    const rows = seed();
+    process.env.VAULT_MASTER_KEY_V2 = OTHER_KEY;
+    const result = await rotateVaultKeys(makeRotationSupabase(rows, { failUpdateFor: "b" }));
+    expect(result.rotated).toBe(2);
+    expect(result.failed).toEqual([{ id: "b", error: "update failed" }]);
+    expect(result.remaining).toBe(1);
+    expect(rows.find(r => r.id === "b")!.key_version).toBe(1);
+  });
+
+  test("doesn't count a row rewritten mid-run as rotated", async () => {
+    const rows = seed();
+    process.env.VAULT_MASTER_KEY_V2 = OTHER_KEY;
+    const result = await rotateVaultKeys(makeRotationSupabase(rows, { rewriteDuringRun: "b" }));
+    expect(result).toMatchObject({ rotated: 2, failed: [], remaining: 1 });
+    expect(openPayload(rows.find(r => r.id === "b")!)).toBe("rewritten");
+  });
+
+  test("refuses to start without the target key", async () => {
+    await expect(rotateVaultKeys(makeRotationSupabase(seed()), { toVersion: 2 })).rejects.toThrow(/VAULT_MASTER_KEY_V2/);
+  });
+});
+
+// ── Keychain secrets + Hollow import ─────────────────────────
+
+type TableRow = Record<string, any>;
+
+/** In-memory tables supporting the eq/not/order/limit chains the vault uses. */
+function makeTableSupabase() {
+  const tables: Record<string, TableRow[]> = { credentials: [], credential_access_log: [] };
+  let nextId = 1;
+  const query = (table: string, filters: ((r: TableRow) => boolean)[], action: (matched: TableRow[]) => unknown) => {
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (col: string, v: unknown) => query(table, [...filters, r => r[col] === v], action),
+      not: (col: string, _op: "like", pattern: string) =>
+        query(table, [...filters, r => !String(r[col]).startsWith(pattern.replace(/%$/, ""))], action),
+      single: () => Promise.resolve(action(tables[table].filter(r => filters.every(f => f(r))))).then((res: any) => ({ ...res, data: res.data[0] })),
+      then: (resolve: (v: unknown) => void) => resolve(action(tables[table].filter(r => filters.every(f => f(r))))),
+    };
+    return builder;
+  };
+  return {
+    tables,
+    from: (table: string) => ({
+      select: () => query(table, [], m => ({ data: m.map(r => ({ ...r })), error: null })),
+      insert: (row: TableRow) => {
+        const stored = { id: `row-${nextId++}`, ...row };
+        tables[table].push(stored);
+        return query(table, [r => r === stored], m => ({ data: m, error: null }));
+      },
+      update: (patch: TableRow) =>
+        query(table, [], m => {
+          for (const r of m) Object.assign(r, patch);
+          return { data: m, error: null };
+        }),
+    }),
+  } as any;
+}
+
+describe("keychain secrets", () => {
+  test("storeSecret seals the value and retrieveSecret reads it back with an audit entry", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      await storeSecret(supabase, "kc-1", "jwt_signing_secret", "s3cret");
+      const [row] = supabase.tables.credentials;
+      expect(row).toMatchObject({ domain: keychainDomain("kc-1"), label: "jwt_signing_secret", key_version: 1 });
+      expect(row.encrypted_data).not.toContain("s3cret");
+
+      expect(await retrieveSecret(supabase, "kc-1", "jwt_signing_secret", { actor: "jwt-auth" })).toBe("s3cret");
+      expect(supabase.tables.credential_access_log).toEqual([
+        expect.objectContaining({ credential_id: row.id, actor: "jwt-auth", via: "retrieveSecret" }),
+      ]);
+    });
+  });
+
+  test("storeSecret replaces an existing secret instead of adding a second one", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      await storeSecret(supabase, "kc-1", "kid", "one");
+      await storeSecret(supabase, "kc-1", "kid", "two");
+      expect(supabase.tables.credentials).toHaveLength(1);
+      expect(await retrieveSecret(supabase, "kc-1", "kid", { actor: "os-auth" })).toBe("two");
+    });
+  });
+
+  test("retrieveSecret returns null for a missing secret", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      expect(await retrieveSecret(makeTableSupabase(), "kc-1", "nope", { actor: "local" })).toBeNull();
+    });
+  });
+
+  test("keychain secrets stay out of the credential list and domains", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      await storeSecret(supabase, "kc-1", "kid", "k");
+      await createCredential(supabase, { label: "Login", domain: "github.com", credential_type: "password", payload: { username: "u", password: "p" } });
+      expect((await listCredentials(supabase)).map(c => c.domain)).toEqual(["github.com"]);
+      expect(await listCredentialDomains(supabase)).toEqual(["github.com"]);
+    });
+  });
+});
+
+describe("importLegacyCredentials", () => {
+  function source(overrides: Partial<LegacyVaultSource> = {}): LegacyVaultSource {
+    return {
+      listCredentials: async () => [
+        { label: "Simli", domain: "simli.ai", credential_type: "api_key", payload: "sk-simli" },
+        { label: "Login", domain: "github.com", credential_type: "password", payload: JSON.stringify({ username: "u", password: "p" }), expires_at: new Date("2027-01-01T00:00:00Z") },
+      ],
+      retrieveSecret: async (_keychainId, name) => (name === "jwt_signing_secret" ? "jwt" : null),
+      ...overrides,
+    };
+  }
+
+  test("copies credentials and keychain secrets, sealed under the active key", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      const result = await importLegacyCredentials(supabase, source(), { "kc-1": ["jwt_signing_secret", "missing"] });
+      expect(result).toEqual({ imported: 3, skipped: 0, failed: [] });
+
+      const rows = supabase.tables.credentials;
+      expect(rows.every((r: TableRow) => r.key_version === 1 && r.wrapped_key)).toBe(true);
+      expect(JSON.parse(openPayload(rows.find((r: TableRow) => r.domain === "simli.ai")))).toEqual({ key: "sk-simli" });
+      expect(rows.find((r: TableRow) => r.domain === "github.com").expires_at).toBe("2027-01-01T00:00:00.000Z");
+      expect(await retrieveSecret(supabase, "kc-1", "jwt_signing_secret", { actor: "local" })).toBe("jwt");
+    });
+  });
+
+  test("is idempotent and never overwrites entries already in the vault", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      await storeSecret(supabase, "kc-1", "jwt_signing_secret", "rotated-since");
+      await importLegacyCredentials(supabase, source(), { "kc-1": ["jwt_signing_secret"] });
+      const again = await importLegacyCredentials(supabase, source(), { "kc-1": ["jwt_signing_secret"] });
+      expect(again).toEqual({ imported: 0, skipped: 3, failed: [] });
+      expect(supabase.tables.credentials).toHaveLength(3);
+      expect(await retrieveSecret(supabase, "kc-1", "jwt_signing_secret", { actor: "local" })).toBe("rotated-since");
+    });
+  });
+
+  test("records unreadable entries and carries on", async () => {
+    await withKeyAsync(TEST_KEY, async () => {
+      const supabase = makeTableSupabase();
+      const result = await importLegacyCredentials(supabase, source({
+        listCredentials: async () => [
+          { label: "Broken", domain: "example.com", credential_type: "password", payload: "not-json" },
+          { label: "Simli", domain: "simli.ai", credential_type: "api_key", payload: "sk-simli" },
+        ],
+      }), {});
+      expect(result.imported).toBe(1);
+      expect(result.failed).toEqual([{ label: "example.com/Broken", error: "Unreadable password payload" }]);
+    });
+  });
+
+  test("refuses to start without the master key", async () => {
+    const original = process.env.VAULT_MASTER_KEY;
+    delete process.env.VAULT_MASTER_KEY;
+    try {
+      await expect(importLegacyCredentials(makeTableSupabase(), source())).rejects.toThrow(/VAULT_MASTER_KEY/);
+    } finally {
+      if (original !== undefined) process.env.VAULT_MASTER_KEY = original;
+    }
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Full-Duplex Voice Tests
+ *
+ * - VAD: speech start/end hysteresis on recorded mulaw, barge-in threshold
+ * - Sentence chunking and tag stripping for streamed model text
+ * - Session turns driven by mulaw fixtures with fake STT / TTS / model:
+ *   per-turn STT / LLM / TTS metrics, partial transcript reuse, barge-in
+ *   (abort + Twilio clear), and carrying audio over when the caller only paused
+ */
+
+import { describe, test, expect } from "bun:test";
+import { createVoiceActivityDetector, type VadEvent } from "../src/voice-vad.ts";
+import {
+  cleanSpokenText,
+  createDuplexVoiceSession,
+  createSentenceChunker,
+  getRecentVoiceTurnMetrics,
+  type VoiceTurnResult,
+} from "../src/voice-duplex.ts";
+import {
+  createFakeSpeechToText,
+  createFakeTextToSpeech,
+  fakeModelReply,
+  feedAudio,
+  loadMulawFixture,
+  mulawFrames,
+} from "./helpers/fake-voice-providers.ts";
+
+const speech = loadMulawFixture("speech-1s");
+const silence = loadMulawFixture("silence-1s");
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("waitFor timed out");
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function vadEvents(clips: Buffer[], threshold?: number): Array<{ event: VadEvent; ms: number }> {
+  const vad = createVoiceActivityDetector();
+  const events: Array<{ event: VadEvent; ms: number }> = [];
+  let ms = 0;
+  for (const clip of clips) {
+    for (const frame of mulawFrames(clip)) {
+      ms += 20;
+      const event = vad.push(frame, threshold);
+      if (event) events.push({ event, ms });
+    }
+  }
+  return events;
+}
+
+function startSession(overrides: Partial<Parameters<typeof createDuplexVoiceSession>[0]> = {}) {
+  const sent: Array<Record<string, unknown>> = [];
+  const turns: VoiceTurnResult[] = [];
+  const transcripts: string[] = [];
+  let bargeIns = 0;
+  const session = createDuplexVoiceSession({
+    send: message => sent.push(message),
+    stt: createFakeSpeechToText(),
+    tts: createFakeTextToSpeech(),
+    respond: fakeModelReply("Okay."),
+    onTranscript: text => { transcripts.push(text); },
+    onTurnComplete: result => turns.push(result),
+    onBargeIn: () => { bargeIns++; },
+    ...overrides,
+  });
+  session.handleMessage({ event: "start", start: { streamSid: "MZ123", callSid: "CA456" } });
+  return { session, sent, turns, transcripts, bargeIns: () => bargeIns };
+}
+
+// ── VAD ──────────────────────────────────────────────────────
+
+describe("voice activity detection", () => {
+  test("speech starts after 120ms of voice and ends after 700ms of silence", () => {
+    expect(vadEvents([silence, speech, silence])).toEqual([
+      { event: "speech_start", ms: 1120 },
+      { event: "speech_end", ms: 2700 },
+    ]);
+  });
+
+  test("silence alone never opens an utterance", () => {
+    expect(vadEvents([silence, silence])).toEqual([]);
+  });
+
+  test("a click shorter than startMs is ignored", () => {
+    expect(vadEvents([silence, speech.subarray(0, 640), silence])).toEqual([]);
+  });
+
+  test("a short pause between words does not end speech", () => {
+    const events = vadEvents([speech, silence.subarray(0, 3200), speech, silence]);
+    expect(events.map(e => e.event)).toEqual(["speech_start", "speech_end"]);
+  });
+
+  test("a higher threshold (barge-in over echo) rejects quieter audio", () => {
+    expect(vadEvents([speech], 80)).toEqual([]);
+  });
+});
+
+// ── Sentence chunking ────────────────────────────────────────
+
+describe("createSentenceChunker", () => {
+  test("emits sentences as streamed text completes them", () => {
+    const chunker = createSentenceChunker();
+    expect(chunker.push("You have two meet")).toEqual([]);
+    expect(chunker.push("ings today. The first is at ")).toEqual(["You have two meetings today."]);
+    expect(chunker.push("ten! Anything else?")).toEqual(["The first is at ten!"]);
+    expect(chunker.flush()).toBe("Anything else?");
+    expect(chunker.flush()).toBe("");
+  });
+
+  test("does not split short fragments or inside tags", () => {
+    const chunker = createSentenceChunker();
+    expect(chunker.push("Sure. Dr. Lee called about the results. ")).toEqual(["Sure. Dr. Lee called about the results."]);
+    expect(chunker.push("[REMEMBER: Dr. Lee. Call back.] Noted it. ")).toEqual(["[REMEMBER: Dr. Lee. Call back.] Noted it."]);
+  });
+
+  test("cleanSpokenText strips memory tags", () => {
+    expect(cleanSpokenText("[REMEMBER: likes tea] Got it. [GOAL: call mom] [DONE: x]")).toBe("Got it.");
+  });
+});
+
+// ── Session ──────────────────────────────────────────────────
+
+describe("duplex voice session", () => {
+  test("a turn streams sentence audio to Twilio and reports STT / LLM / TTS metrics", async () => {
+    const stt = createFakeSpeechToText({ final: "what's on today", delayMs: 40 });
+    const tts = createFakeTextToSpeech({ firstByteMs: 20, chunks: 2 });
+    const respond = fakeModelReply("You have two meetings. The first one is at ten.", { firstTokenMs: 30 });
+    const { session, sent, turns, transcripts } = startSession({ stt, tts, respond, partialIntervalMs: 60_000 });
+
+    await feedAudio(session, silence, speech, silence);
+    await session.whenIdle();
+
+    expect(transcripts).toEqual(["what's on today"]);
+    expect(respond.prompts).toEqual(["what's on today"]);
+    expect(tts.sentences).toEqual(["You have two meetings.", "The first one is at ten."]);
+
+    const media = sent.filter(m => m.event === "media");
+    expect(media).toHaveLength(4);
+    expect(media.every(m => m.streamSid === "MZ123")).toBe(true);
+    expect(sent.at(-1)).toEqual({ event: "mark", streamSid: "MZ123", mark: { name: "turn_1" } });
+    expect(sent.some(m => m.event === "clear")).toBe(false);
+
+    expect(turns).toHaveLength(1);
+    const [turn] = turns;
+    expect(turn.interrupted).toBe(false);
+    expect(turn.spokenText).toBe("You have two meetings. The first one is at ten.");
+    const m = turn.metrics;
+    expect(m.partialReused).toBe(false);
+    expect(m.sentences).toBe(2);
+    expect(m.sttMs!).toBeGreaterThanOrEqual(35);
+    expect(m.llmFirstTokenMs!).toBeGreaterThanOrEqual(25);
+    expect(m.llmMs!).toBeGreaterThanOrEqual(m.llmFirstTokenMs!);
+    expect(m.ttsFirstByteMs!).toBeGreaterThanOrEqual(15);
+    expect(m.ttsMs).toBeGreaterThanOrEqual(30);
+    expect(m.firstAudioMs!).toBeGreaterThanOrEqual(m.sttMs! + m.llmFirstTokenMs!);
+    expect(m.totalMs).toBeGreaterThanOrEqual(m.firstAudioMs!);
+    expect(getRecentVoiceTurnMetrics().at(-1)).toBe(m);
+  });
+
+  test("reuses a partial transcript that already covers all the speech", async () => {
+    const stt = createFakeSpeechToText({ partial: "remind me at five", final: "remind me at five" });
+    const { session, turns } = startSession({ stt, partialIntervalMs: 300 });
+
+    await feedAudio(session, silence, speech, silence);
+    await session.whenIdle();
+
+    expect(stt.calls.length).toBeGreaterThan(1);
+    expect(stt.calls.every(c => c.partial)).toBe(true);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].userText).toBe("remind me at five");
+    expect(turns[0].metrics.partialReused).toBe(true);
+  });
+
+  test("drops utterances with too little speech", async () => {
+    const stt = createFakeSpeechToText();
+    const { session, turns } = startSession({ stt, minUtteranceMs: 500 });
+
+    await feedAudio(session, silence, speech.subarray(0, 2400), silence);
+    await session.whenIdle();
+
+    expect(stt.calls.filter(c => !c.partial)).toEqual([]);
+    expect(turns).toEqual([]);
+  });
+
+  test("barge-in aborts the reply and clears Twilio's buffered audio", async () => {
+    const tts = createFakeTextToSpeech({ chunks: 6, chunkIntervalMs: 60 });
+    const long = fakeModelReply("Here is a long answer for you. And then there is even more of it.", { deltaMs: 60 });
+    const short = fakeModelReply("Go ahead.");
+    let replies = 0;
+    const respond = (text: string, signal: AbortSignal) => (++replies === 1 ? long : short)(text, signal);
+    const { session, sent, turns, bargeIns } = startSession({ tts, respond, partialIntervalMs: 60_000 });
+
+    await feedAudio(session, speech, silence);
+    await waitFor(() => sent.some(m => m.event === "media"));
+
+    await feedAudio(session, speech);
+    expect(bargeIns()).toBe(1);
+    const clearAt = sent.findIndex(m => m.event === "clear");
+    expect(clearAt).toBeGreaterThan(0);
+    expect(sent[clearAt]).toEqual({ event: "clear", streamSid: "MZ123" });
+
+    await feedAudio(session, silence);
+    await session.whenIdle();
+
+    expect(turns).toHaveLength(2);
+    expect(turns[0].interrupted).toBe(true);
+    expect(turns[0].metrics.interrupted).toBe(true);
+    expect(turns[0].spokenText).toBe("");
+    expect(turns[0].replyText).not.toContain("even more");
+    expect(turns[1].interrupted).toBe(false);
+
+    // No audio from the interrupted turn after the clear, and no mark for it
+    const afterClear = sent.slice(clearAt + 1);
+    expect(afterClear.filter(m => m.event === "media")).toHaveLength(6);
+    expect(tts.sentences.at(-1)).toBe("Go ahead.");
+    expect(sent.filter(m => m.event === "mark").map(m => (m.mark as { name: string }).name)).toEqual(["turn_2"]);
+  });
+
+  test("talking while still being transcribed carries the first utterance into the next", async () => {
+    const stt = createFakeSpeechToText({ final: "set a timer for ten minutes", delayMs: 1500 });
+    const { session, sent, turns, transcripts, bargeIns } = startSession({ stt, partialIntervalMs: 60_000 });
+
+    await feedAudio(session, speech, silence, speech);
+    expect(bargeIns()).toBe(1);
+
+    await feedAudio(session, silence);
+    await session.whenIdle();
+
+    const finals = stt.calls.filter(c => !c.partial);
+    expect(finals).toHaveLength(2);
+    expect(finals[0].aborted).toBe(true);
+    expect(finals[1].bytes).toBeGreaterThan(finals[0].bytes + speech.length - 1600);
+    expect(transcripts).toEqual(["set a timer for ten minutes"]);
+    expect(turns).toHaveLength(1);
+    // Nothing was playing, so there was nothing to clear
+    expect(sent.some(m => m.event === "clear")).toBe(false);
+  });
+
+  test("stop aborts the turn in flight", async () => {
+    const stt = createFakeSpeechToText({ delayMs: 1500 });
+    const { session, turns } = startSession({ stt, partialIntervalMs: 60_000 });
+
+    await feedAudio(session, speech, silence);
+    session.handleMessage({ event: "stop" });
+    await session.whenIdle();
+
+    expect(stt.calls.filter(c => !c.partial)[0].aborted).toBe(true);
+    expect(turns).toEqual([]);
+  });
+});
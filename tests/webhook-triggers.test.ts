@@ -1,12 +1,23 @@
 /**
  * Webhook Triggers — ELLIE-977
  * Tests for validation, token generation, routing, cooldown, and security.
+ * Signature/replay verification, IP allowlists, payload schemas, and the
+ * checks recorded per invocation.
  */
 
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, beforeEach } from "bun:test";
+import type { IncomingMessage } from "http";
 import {
   validateWebhookInput,
+  validateVerificationInput,
+  isIpAllowed,
+  signWebhookPayload,
+  verifyWebhookRequest,
+  invokeWebhook,
+  _setSqlForTesting,
+  _resetReplayCacheForTesting,
   _generateTokenForTesting as generateToken,
+  type WebhookChecks,
   type CreateWebhookInput,
   type WebhookTrigger,
   type InvokeResult,
@@ -135,6 +146,10 @@ describe("cooldown logic", () => {
       cooldown_seconds: 60,
       last_triggered_at: null,
       trigger_count: 0,
+      signing_secret: null,
+      signature_tolerance_seconds: 300,
+      payload_schema: null,
+      allowed_ips: [],
       created_by: null,
       ...overrides,
     };
@@ -259,3 +274,204 @@ describe("config merge behavior", () => {
     expect(merged).toEqual(webhookConfig);
   });
 });
+
+// ── IP Allowlist ─────────────────────────────────────────────
+
+describe("isIpAllowed", () => {
+  it("allows everything when the list is empty", () => {
+    expect(isIpAllowed("203.0.113.9", [])).toBe(true);
+    expect(isIpAllowed(null, [])).toBe(true);
+  });
+
+  it("matches exact addresses and CIDR ranges", () => {
+    const list = ["192.30.252.0/22", "203.0.113.9", "2001:db8::/32"];
+    expect(isIpAllowed("192.30.255.1", list)).toBe(true);
+    expect(isIpAllowed("192.30.248.1", list)).toBe(false);
+    expect(isIpAllowed("203.0.113.9", list)).toBe(true);
+    expect(isIpAllowed("2001:db8:1::5", list)).toBe(true);
+    expect(isIpAllowed("2001:db9::1", list)).toBe(false);
+  });
+
+  it("handles IPv4-mapped IPv6 peers", () => {
+    expect(isIpAllowed("::ffff:192.30.252.7", ["192.30.252.0/22"])).toBe(true);
+  });
+
+  it("rejects unknown or malformed sources when a list is set", () => {
+    expect(isIpAllowed(null, ["10.0.0.0/8"])).toBe(false);
+    expect(isIpAllowed("not-an-ip", ["10.0.0.0/8"])).toBe(false);
+  });
+});
+
+describe("validateVerificationInput", () => {
+  it("rejects malformed allowlist entries", () => {
+    expect(validateVerificationInput({ allowed_ips: ["10.0.0.0/8", "::1"] })).toBeNull();
+    expect(validateVerificationInput({ allowed_ips: ["10.0.0.0/33"] })).toBe("invalid allowed_ips entry: 10.0.0.0/33");
+    expect(validateVerificationInput({ allowed_ips: ["example.com"] })).toBe("invalid allowed_ips entry: example.com");
+  });
+
+  it("checks schema shape and tolerance range", () => {
+    expect(validateVerificationInput({ payload_schema: [] as never })).toContain("payload_schema");
+    expect(validateVerificationInput({ signature_tolerance_seconds: 0 })).toContain("signature_tolerance_seconds");
+    expect(validateWebhookInput({
+      name: "x", action_type: "reminder", config: { message: "m" }, allowed_ips: ["nope"],
+    })).toBe("invalid allowed_ips entry: nope");
+  });
+});
+
+// ── Signatures ───────────────────────────────────────────────
+
+describe("verifyWebhookRequest", () => {
+  const SECRET = "s3cret";
+  const NOW = 1_760_000_000_000;
+  const ts = String(NOW / 1000);
+  const body = '{"ref":"main"}';
+  const hook = { id: "hook-1", signing_secret: SECRET, signature_tolerance_seconds: 300 };
+  const signed = (overrides: Record<string, string> = {}) => ({
+    rawBody: body,
+    sourceIp: null,
+    headers: { "x-webhook-timestamp": ts, "x-webhook-signature": signWebhookPayload(SECRET, ts, body), ...overrides },
+  });
+
+  beforeEach(() => _resetReplayCacheForTesting());
+
+  it("skips every signature check for unsigned webhooks", () => {
+    const checks: Partial<WebhookChecks> = {};
+    expect(verifyWebhookRequest({ ...hook, signing_secret: null }, signed(), checks, NOW)).toBeNull();
+    expect(checks).toEqual({ signature: "skipped", timestamp: "skipped", replay: "skipped" });
+  });
+
+  it("accepts a valid signature once", () => {
+    const checks: Partial<WebhookChecks> = {};
+    expect(verifyWebhookRequest(hook, signed(), checks, NOW)).toBeNull();
+    expect(checks).toEqual({ signature: "passed", timestamp: "passed", replay: "passed" });
+
+    const again: Partial<WebhookChecks> = {};
+    expect(verifyWebhookRequest(hook, signed(), again, NOW + 1000)).toBe("replayed request");
+    expect(again.replay).toBe("failed");
+  });
+
+  it("rejects a tampered body or wrong secret", () => {
+    const checks: Partial<WebhookChecks> = {};
+    expect(verifyWebhookRequest(hook, { ...signed(), rawBody: '{"ref":"evil"}' }, checks, NOW)).toBe("invalid signature");
+    expect(checks.signature).toBe("failed");
+    expect(verifyWebhookRequest(hook, signed({ "x-webhook-signature": signWebhookPayload("other", ts, body) }), {}, NOW))
+      .toBe("invalid signature");
+  });
+
+  it("rejects missing headers", () => {
+    expect(verifyWebhookRequest(hook, { rawBody: body, sourceIp: null, headers: {} }, {}, NOW)).toBe("missing signature headers");
+  });
+
+  it("rejects timestamps outside the tolerance, even when correctly signed", () => {
+    const old = String(NOW / 1000 - 301);
+    const checks: Partial<WebhookChecks> = {};
+    const req = signed({ "x-webhook-timestamp": old, "x-webhook-signature": signWebhookPayload(SECRET, old, body) });
+    expect(verifyWebhookRequest(hook, req, checks, NOW)).toBe("timestamp outside tolerance");
+    expect(checks).toEqual({ signature: "passed", timestamp: "failed" });
+  });
+
+  it("forgets signatures once their timestamp would be rejected anyway", () => {
+    expect(verifyWebhookRequest(hook, signed(), {}, NOW)).toBeNull();
+    expect(verifyWebhookRequest(hook, signed(), {}, NOW + 301_000)).toBe("timestamp outside tolerance");
+  });
+});
+
+// ── invokeWebhook against a fake database ────────────────────
+
+describe("invokeWebhook verification", () => {
+  const TOKEN = "ab".repeat(24);
+
+  function fakeSql(webhook: Partial<WebhookTrigger>) {
+    const invocations: { values: unknown[]; text: string }[] = [];
+    const sql = (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      if (text.includes("FROM webhook_triggers WHERE token")) {
+        return Promise.resolve([{
+          id: "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", name: "Deploy", action_type: "reminder",
+          config: { message: "hi" }, enabled: true, cooldown_seconds: 0, last_triggered_at: null,
+          signing_secret: null, signature_tolerance_seconds: 300, payload_schema: null, allowed_ips: [],
+          ...webhook,
+        }]);
+      }
+      invocations.push({ text, values });
+      if (text.includes("INSERT INTO webhook_invocations")) return Promise.resolve([{ id: "inv-1" }]);
+      return Promise.resolve([]);
+    };
+    sql.json = (v: unknown) => v;
+    _setSqlForTesting(sql);
+    return invocations;
+  }
+
+  beforeEach(() => _resetReplayCacheForTesting());
+
+  it("rejects a source outside the allowlist and records the checks", async () => {
+    const calls = fakeSql({ allowed_ips: ["10.0.0.0/8"] });
+    const result = await invokeWebhook(TOKEN, { rawBody: "{}", sourceIp: "203.0.113.9", headers: {} });
+
+    expect(result).toMatchObject({ ok: false, status: "rejected", rejected_by: "ip", checks: { ip_allowlist: "failed" } });
+    const insert = calls.find(c => c.text.includes("INSERT INTO webhook_invocations"))!;
+    expect(insert.values.at(-1)).toEqual({ ip_allowlist: "failed" });
+  });
+
+  it("rejects an unsigned request to a signed webhook", async () => {
+    fakeSql({ signing_secret: "k" });
+    const result = await invokeWebhook(TOKEN, { rawBody: "{}", sourceIp: "10.1.1.1", headers: {} });
+    expect(result.rejected_by).toBe("signature");
+    expect(result.checks).toEqual({ ip_allowlist: "skipped", signature: "failed" });
+  });
+
+  it("validates the payload against the webhook's schema before merging", async () => {
+    fakeSql({ payload_schema: { type: "object", required: ["ref"], properties: { ref: { type: "string" } } } });
+    const bad = await invokeWebhook(TOKEN, { rawBody: '{"ref":1}', sourceIp: null, headers: {} });
+    expect(bad).toMatchObject({ rejected_by: "payload", error: "invalid payload: /ref expected string, got integer" });
+    expect(bad.checks?.schema).toBe("failed");
+
+    const notJson = await invokeWebhook(TOKEN, { rawBody: "ref=main", sourceIp: null, headers: {} });
+    expect(notJson).toMatchObject({ rejected_by: "payload", error: "invalid JSON body" });
+  });
+
+  it("records every check as passed or skipped on success", async () => {
+    const calls = fakeSql({
+      signing_secret: "k",
+      allowed_ips: ["10.0.0.0/8"],
+      payload_schema: { type: "object", properties: { message: { type: "string" } } },
+      action_type: "nonexistent" as never,
+    });
+    const ts = String(Math.floor(Date.now() / 1000));
+    const rawBody = '{"message":"ship it"}';
+    const result = await invokeWebhook(TOKEN, {
+      rawBody,
+      sourceIp: "10.2.3.4",
+      headers: { "x-webhook-timestamp": ts, "x-webhook-signature": signWebhookPayload("k", ts, rawBody) },
+    });
+
+    // No executor for the fake action type, so the run itself fails after verification
+    expect(result.status).toBe("failed");
+    expect(result.checks).toEqual({ ip_allowlist: "passed", signature: "passed", timestamp: "passed", replay: "passed", schema: "passed" });
+    const insert = calls.find(c => c.text.includes("INSERT INTO webhook_invocations"))!;
+    expect(insert.values).toContainEqual({ message: "ship it" });
+  });
+});
+
+// ── Source IP ────────────────────────────────────────────────
+
+describe("webhookSourceIp", () => {
+  const req = (peer: string, forwarded?: string) =>
+    ({ socket: { remoteAddress: peer }, headers: forwarded ? { "x-forwarded-for": forwarded } : {} }) as unknown as IncomingMessage;
+
+  it("trusts X-Forwarded-For only from a loopback proxy", async () => {
+    const { webhookSourceIp } = await import("../src/api/webhook-triggers.ts");
+    expect(webhookSourceIp(req("127.0.0.1", "203.0.113.9"))).toBe("203.0.113.9");
+    expect(webhookSourceIp(req("198.51.100.7", "10.0.0.1"))).toBe("198.51.100.7");
+    expect(webhookSourceIp(req("::1"))).toBe("::1");
+  });
+
+  it("ignores client-supplied entries ahead of the ones trusted proxies appended", async () => {
+    const { webhookSourceIp } = await import("../src/api/webhook-triggers.ts");
+    // Client sent "X-Forwarded-For: 10.0.0.1" hoping to match an allowlist; the tunnel appended the real address
+    expect(webhookSourceIp(req("127.0.0.1", "10.0.0.1, 203.0.113.9"))).toBe("203.0.113.9");
+    // Two trusted hops (CDN → tunnel): the CDN's entry is the caller
+    expect(webhookSourceIp(req("127.0.0.1", "10.0.0.1, 203.0.113.9, 198.51.100.20"), 2)).toBe("203.0.113.9");
+    expect(webhookSourceIp(req("127.0.0.1", "203.0.113.9"), 2)).toBe("203.0.113.9");
+  });
+});
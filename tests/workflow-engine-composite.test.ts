@@ -0,0 +1,387 @@
+/**
+ * Workflow engine: loop, subworkflow and parallel step kinds
+ *
+ * Runs against the simulator's in-memory checkpoint store, so resume
+ * behaviour can be exercised without Postgres.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { runWorkflow, resumeWorkflow, loopExitMet, type StepExecutor } from "../src/workflow-engine.ts";
+import { validateWorkflowConfig, parseWorkflowYaml, type WorkflowConfig } from "../src/workflow-config.ts";
+import { createMemoryWorkflowSql } from "../src/workflow-simulator.ts";
+
+// ── Helpers ─────────────────────────────────────────────────────
+
+const agentStep = (agent: string, instruction = agent) => ({ agent, action: "none", instruction, timeout_seconds: 5 });
+
+function scriptedExecutor(script: Record<string, Array<string | Error>>): StepExecutor & { calls: string[] } {
+  const calls: string[] = [];
+  const executor = Object.assign(async (agent: string) => {
+    calls.push(agent);
+    const next = script[agent]?.shift();
+    if (next instanceof Error) throw next;
+    return { output: next ?? `${agent} ok` };
+  }, { calls });
+  return executor;
+}
+
+// ── Tests ───────────────────────────────────────────────────────
+
+describe("workflow engine composite steps", () => {
+  describe("loop", () => {
+    const config: WorkflowConfig = {
+      name: "implement_review",
+      description: "",
+      steps: [
+        {
+          kind: "loop", agent: "", action: "none", instruction: "",
+          steps: [agentStep("dev"), agentStep("critic")],
+          max_iterations: 3,
+          until_output_matches: "^APPROVED",
+        },
+        agentStep("ops", "deploy"),
+      ],
+    };
+
+    it("repeats the body until the exit condition holds", async () => {
+      const sql = createMemoryWorkflowSql();
+      const executor = scriptedExecutor({ critic: ["REJECTED: missing tests", "APPROVED"] });
+      const { instance, events } = await runWorkflow({ sql, config, executor });
+
+      expect(instance.status).toBe("completed");
+      expect(executor.calls).toEqual(["dev", "critic", "dev", "critic", "ops"]);
+      const iterations = events.filter(e => e.type === "workflow.loop_iteration");
+      expect(iterations.map(e => e.iteration)).toEqual([1, 2]);
+      expect(iterations[1].message).toBe("exit condition met");
+    });
+
+    it("feeds the previous iteration's output into the next", async () => {
+      const sql = createMemoryWorkflowSql();
+      const inputs: Array<Record<string, unknown> | undefined> = [];
+      const critic = ["REJECTED: missing tests", "APPROVED"];
+      const executor: StepExecutor = async (agent, _instruction, input) => {
+        if (agent === "dev") inputs.push(input);
+        return { output: agent === "critic" ? critic.shift()! : "done" };
+      };
+      await runWorkflow({ sql, config, executor });
+      expect(inputs[1]).toMatchObject({ text: "REJECTED: missing tests", _loop_iteration: 1 });
+    });
+
+    it("fails and escalates when max iterations are exhausted", async () => {
+      const sql = createMemoryWorkflowSql();
+      const executor = scriptedExecutor({ critic: ["no", "no", "no"] });
+      const { instance, events } = await runWorkflow({ sql, config, executor });
+
+      expect(instance.status).toBe("failed");
+      expect(instance.error_message).toContain("Loop exhausted 3 iteration(s)");
+      expect(events.some(e => e.type === "workflow.escalated")).toBe(true);
+      expect(executor.calls).not.toContain("ops");
+    });
+
+    it("continues past an exhausted loop when on_exhausted is continue", async () => {
+      const sql = createMemoryWorkflowSql();
+      const lenient = { ...config, steps: [{ ...config.steps[0], max_iterations: 1, on_exhausted: "continue" as const }, config.steps[1]] };
+      const { instance } = await runWorkflow({ sql, config: lenient, executor: scriptedExecutor({ critic: ["no"] }) });
+      expect(instance.status).toBe("completed");
+    });
+
+    it("treats a failed iteration as not passed and tries again", async () => {
+      const sql = createMemoryWorkflowSql();
+      const executor = scriptedExecutor({ dev: [new Error("build broke")], critic: ["APPROVED"] });
+      const { instance, events } = await runWorkflow({ sql, config, executor });
+
+      expect(instance.status).toBe("completed");
+      const first = events.find(e => e.type === "workflow.loop_iteration" && e.iteration === 1);
+      expect(first?.message).toContain("iteration failed: build broke");
+      // Child failures are reported to the parent, not escalated
+      expect(events.some(e => e.type === "workflow.escalated")).toBe(false);
+    });
+
+    it("exits on a metadata flag", () => {
+      const step = { ...config.steps[0], until_output_matches: undefined, until_metadata_key: "passed" };
+      expect(loopExitMet(step, { text: "x", passed: true })).toBe(true);
+      expect(loopExitMet(step, { text: "x", passed: false })).toBe(false);
+    });
+  });
+
+  describe("subworkflow", () => {
+    const child: WorkflowConfig = { name: "review", description: "", steps: [agentStep("critic")] };
+    const parent: WorkflowConfig = {
+      name: "parent",
+      description: "",
+      steps: [agentStep("dev"), { kind: "subworkflow", agent: "", action: "none", instruction: "", workflow: "review" }],
+    };
+    const resolveWorkflow = (name: string) => (name === "review" ? child : null);
+
+    it("runs the named workflow as a child instance", async () => {
+      const sql = createMemoryWorkflowSql();
+      const { instances } = sql;
+      const { instance, events } = await runWorkflow({ sql, config: parent, executor: scriptedExecutor({}), resolveWorkflow });
+
+      expect(instance.status).toBe("completed");
+      const started = events.find(e => e.type === "workflow.child_started")!;
+      const childRow = instances.get(started.child_workflow_id!)!;
+      expect(childRow.context).toMatchObject({ workflow_name: "review", parent_workflow_id: instance.id, parent_step: 1 });
+      expect(childRow.status).toBe("completed");
+    });
+
+    it("fails the parent step when the child fails", async () => {
+      const sql = createMemoryWorkflowSql();
+      const executor = scriptedExecutor({ critic: [new Error("rejected")] });
+      const { instance } = await runWorkflow({ sql, config: parent, executor, resolveWorkflow });
+      expect(instance.status).toBe("failed");
+      expect(instance.error_message).toContain('Subworkflow "review" failed: rejected');
+    });
+
+    it("fails on an unknown workflow name", async () => {
+      const sql = createMemoryWorkflowSql();
+      const { instance } = await runWorkflow({ sql, config: parent, executor: scriptedExecutor({}), resolveWorkflow: () => null });
+      expect(instance.error_message).toContain('Unknown workflow "review"');
+    });
+
+    it("stops runaway recursion", async () => {
+      const sql = createMemoryWorkflowSql();
+      const recursive: WorkflowConfig = {
+        name: "loop-forever", description: "",
+        steps: [{ kind: "subworkflow", agent: "", action: "none", instruction: "", workflow: "loop-forever" }],
+      };
+      const { instance } = await runWorkflow({ sql, config: recursive, executor: scriptedExecutor({}), resolveWorkflow: () => recursive });
+      expect(instance.status).toBe("failed");
+      expect(instance.error_message).toContain("nesting exceeds");
+    });
+  });
+
+  describe("parallel", () => {
+    const config: WorkflowConfig = {
+      name: "fanout",
+      description: "",
+      steps: [
+        {
+          kind: "parallel", agent: "", action: "none", instruction: "",
+          branches: [[agentStep("research")], [agentStep("finance")]],
+        },
+        agentStep("content", "summarize"),
+      ],
+    };
+
+    it("joins all branches and aggregates their output", async () => {
+      const sql = createMemoryWorkflowSql();
+      let summaryInput: Record<string, unknown> | undefined;
+      const executor: StepExecutor = async (agent, _i, input) => {
+        if (agent === "content") summaryInput = input;
+        return { output: `${agent} findings` };
+      };
+      const { instance, events } = await runWorkflow({ sql, config, executor });
+
+      expect(instance.status).toBe("completed");
+      expect(events.filter(e => e.type === "workflow.child_started")).toHaveLength(2);
+      expect(String(summaryInput?.text)).toContain("[branch-0]: research findings");
+      expect(String(summaryInput?.text)).toContain("[branch-1]: finance findings");
+    });
+
+    it("fails an all-join when a branch fails", async () => {
+      const sql = createMemoryWorkflowSql();
+      const { instance } = await runWorkflow({ sql, config, executor: scriptedExecutor({ finance: [new Error("no data")] }) });
+      expect(instance.status).toBe("failed");
+      expect(instance.error_message).toContain("branch 1: no data");
+    });
+
+    it("proceeds on an any-join with a partial failure", async () => {
+      const sql = createMemoryWorkflowSql();
+      const anyJoin = { ...config, steps: [{ ...config.steps[0], join: "any" as const }, config.steps[1]] };
+      const { instance } = await runWorkflow({ sql, config: anyJoin, executor: scriptedExecutor({ finance: [new Error("no data")] }) });
+      expect(instance.status).toBe("completed");
+    });
+
+    it("proceeds on an any-join as soon as one branch completes", async () => {
+      const sql = createMemoryWorkflowSql();
+      const anyJoin = { ...config, steps: [{ ...config.steps[0], join: "any" as const }, config.steps[1]] };
+      let releaseFinance!: () => void;
+      const financeDone = new Promise<void>(resolve => { releaseFinance = resolve; });
+      let summaryInput: Record<string, unknown> | undefined;
+      const executor: StepExecutor = async (agent, _i, input) => {
+        if (agent === "finance") await financeDone;
+        if (agent === "content") summaryInput = input;
+        return { output: `${agent} findings` };
+      };
+
+      const { instance, events } = await runWorkflow({ sql, config: anyJoin, executor });
+      expect(instance.status).toBe("completed");
+      expect(String(summaryInput?.text)).toBe("[branch-0]: research findings");
+      expect(events.find(e => e.type === "workflow.joined")?.message).toContain("branch-0 completed first");
+      releaseFinance();
+    });
+
+    it("cancels the losing branches of an any-join", async () => {
+      const sql = createMemoryWorkflowSql();
+      const { instances, checkpoints } = sql;
+      const anyJoin = { ...config, steps: [{ ...config.steps[0], join: "any" as const }, config.steps[1]] };
+      let financeSignal: AbortSignal | undefined;
+      const executor: StepExecutor = async (agent, _i, _input, context) => {
+        if (agent === "finance") {
+          financeSignal = context?.signal;
+          await new Promise(() => {}); // never finishes on its own
+        }
+        return { output: `${agent} findings` };
+      };
+
+      const { instance, events } = await runWorkflow({ sql, config: anyJoin, executor });
+      expect(instance.status).toBe("completed");
+      expect(financeSignal?.aborted).toBe(true);
+
+      const finance = [...instances.values()].find(r => (r.context as Record<string, unknown>).branch === 1)!;
+      expect(finance.status).toBe("cancelled");
+      expect(checkpoints.get(`${finance.id}:0`)?.status).toBe("cancelled");
+      expect(events.some(e => e.type === "workflow.child_completed" && e.message === "fanout.step0.branch1 cancelled")).toBe(true);
+
+      const parallel = checkpoints.get(`${instance.id}:0`)!;
+      expect((parallel.output as Record<string, unknown>).branches).toEqual([
+        { branch: 0, status: "completed", child_workflow_id: expect.any(String) },
+        { branch: 1, status: "cancelled", child_workflow_id: finance.id },
+      ]);
+    });
+
+    it("fails an any-join when every branch fails", async () => {
+      const sql = createMemoryWorkflowSql();
+      const anyJoin = { ...config, steps: [{ ...config.steps[0], join: "any" as const }, config.steps[1]] };
+      const executor = scriptedExecutor({ research: [new Error("offline")], finance: [new Error("no data")] });
+      const { instance } = await runWorkflow({ sql, config: anyJoin, executor });
+      expect(instance.status).toBe("failed");
+      expect(instance.error_message).toContain("Parallel join failed (any)");
+      expect(instance.error_message).toContain("branch 0: offline");
+      expect(instance.error_message).toContain("branch 1: no data");
+    });
+  });
+
+  describe("resume", () => {
+    it("picks up inside the loop iteration where it stopped", async () => {
+      const sql = createMemoryWorkflowSql();
+      const { instances } = sql;
+      const config: WorkflowConfig = {
+        name: "implement_review",
+        description: "",
+        steps: [
+          agentStep("strategy"),
+          {
+            kind: "loop", agent: "", action: "none", instruction: "",
+            steps: [agentStep("dev"), agentStep("critic")],
+            max_iterations: 3,
+            until_output_matches: "^APPROVED",
+          },
+        ],
+      };
+
+      // First run: iteration 1 is rejected, iteration 2 dies in the critic step
+      const first = scriptedExecutor({ critic: ["REJECTED", new Error("relay restarted")] });
+      const bounded = { ...config, steps: [config.steps[0], { ...config.steps[1], max_iterations: 2 }] };
+      const { instance } = await runWorkflow({ sql, config: bounded, executor: first });
+      expect(instance.status).toBe("failed");
+
+      // Mark the loop's second-iteration child as interrupted rather than failed
+      const children = [...instances.values()].filter(r => (r.context as Record<string, unknown>).parent_workflow_id === instance.id);
+      expect(children).toHaveLength(2);
+      const second = children.find(c => (c.context as Record<string, unknown>).iteration === 2)!;
+      second.status = "in_progress";
+
+      const resumed = scriptedExecutor({ critic: ["APPROVED"] });
+      const result = await resumeWorkflow({ sql, config, workflowId: instance.id, executor: resumed });
+
+      expect(result.instance.status).toBe("completed");
+      // strategy and the iteration-2 dev step are not re-run
+      expect(resumed.calls).toEqual(["critic"]);
+      expect(result.events.find(e => e.type === "workflow.child_started")?.message).toContain("resumed at step 1");
+    });
+
+    it("returns a completed instance untouched", async () => {
+      const sql = createMemoryWorkflowSql();
+      const config: WorkflowConfig = { name: "one", description: "", steps: [agentStep("dev")] };
+      const { instance } = await runWorkflow({ sql, config, executor: scriptedExecutor({}) });
+      const executor = scriptedExecutor({});
+      const result = await resumeWorkflow({ sql, config, workflowId: instance.id, executor });
+      expect(result.instance.status).toBe("completed");
+      expect(executor.calls).toEqual([]);
+    });
+  });
+
+  describe("config", () => {
+    it("parses composite steps from YAML", () => {
+      const config = parseWorkflowYaml(`name: review-loop
+description: Implement until the critic approves
+steps:
+  - kind: loop
+    workflow: implement-review
+    max_iterations: 3
+    until_output_matches: "^APPROVED"
+  - kind: parallel
+    workflows: [docs, changelog]
+    join: all
+`)!;
+      expect(config.steps[0]).toMatchObject({ kind: "loop", workflow: "implement-review", max_iterations: 3, until_output_matches: "^APPROVED" });
+      expect(config.steps[1]).toMatchObject({ kind: "parallel", workflows: ["docs", "changelog"], join: "all" });
+      expect(validateWorkflowConfig(config).valid).toBe(true);
+    });
+
+    it("keeps bracketed scalars as strings outside list fields", () => {
+      const config = parseWorkflowYaml(`name: check
+triggers: [check it, "verify"]
+steps:
+  - kind: loop
+    workflow: implement-review
+    until_output_matches: [Ll][Gg][Tt][Mm]
+    instruction: [draft, final]
+  - kind: parallel
+    workflows: docs
+`)!;
+      expect(config.triggers).toEqual(["check it", "verify"]);
+      expect(config.steps[0].until_output_matches).toBe("[Ll][Gg][Tt][Mm]");
+      expect(config.steps[0].instruction).toBe("[draft, final]");
+      expect(config.steps[1].workflows).toEqual(["docs"]);
+    });
+
+    it("rejects inline step bodies instead of flattening them", () => {
+      const config = parseWorkflowYaml(`name: nested
+steps:
+  - kind: loop
+    steps:
+      - agent: dev
+        instruction: build it
+      - agent: critic
+    until_output_matches: "^APPROVED"
+  - steps:
+      - agent: dev
+    kind: loop
+  - kind: parallel
+    branches:
+      - - agent: research
+      - - agent: finance
+  - agent: ops
+    instruction: deploy
+`)!;
+      expect(config.steps.map(s => s.kind ?? s.agent)).toEqual(["loop", "loop", "parallel", "ops"]);
+      expect(config.steps[0].until_output_matches).toBe("^APPROVED");
+      expect(config.steps[3]).toMatchObject({ agent: "ops", instruction: "deploy" });
+
+      const fields = validateWorkflowConfig(config).errors.map(e => e.field);
+      expect(fields).toContain("steps[0].steps");
+      expect(fields).toContain("steps[1].steps");
+      expect(fields).toContain("steps[2].branches");
+    });
+
+    it("validates composite step shape", () => {
+      const result = validateWorkflowConfig({
+        name: "bad",
+        description: "",
+        steps: [
+          { kind: "loop", agent: "", action: "none", instruction: "", steps: [agentStep("nobody")] },
+          { kind: "subworkflow", agent: "", action: "none", instruction: "" },
+          { kind: "parallel", agent: "", action: "none", instruction: "" },
+        ],
+      });
+      const fields = result.errors.map(e => `${e.field}: ${e.message}`);
+      expect(fields).toContain('steps[0].steps[0].agent: Unknown agent "nobody"');
+      expect(fields).toContain("steps[0]: Loop needs an exit condition (until_output_matches or until_metadata_key)");
+      expect(fields).toContain("steps[1].workflow: Subworkflow step must name a workflow");
+      expect(fields).toContain("steps[2]: Parallel step needs branches or workflows");
+    });
+  });
+});
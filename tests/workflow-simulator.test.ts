@@ -0,0 +1,247 @@
+/**
+ * Workflow dry-run simulator
+ */
+
+import { describe, it, expect } from "bun:test";
+import { simulateWorkflow, analyzeSteps } from "../src/workflow-simulator.ts";
+import type { WorkflowConfig, WorkflowStepConfig } from "../src/workflow-config.ts";
+import type { RaciMatrix } from "../src/workflow-raci.ts";
+import { handleWorkflowsRoute } from "../src/api/routes/workflows.ts";
+import { EventEmitter } from "events";
+import type { IncomingMessage, ServerResponse } from "http";
+
+const step = (agent: string, extra: Partial<WorkflowStepConfig> = {}): WorkflowStepConfig =>
+  ({ agent, action: "none", instruction: `${agent} task`, ...extra });
+
+const feature: WorkflowConfig = {
+  name: "feature",
+  description: "",
+  steps: [step("strategy"), step("dev", { on_failure: "retry" }), step("critic"), step("ops")],
+};
+
+const raci: RaciMatrix = {
+  workflows: [{ workflow: "feature", roles: [{ agent: "strategy", role: "D" }, { agent: "dev", role: "P" }] }],
+};
+
+const noWorkflows = () => null;
+
+describe("simulateWorkflow", () => {
+  it("runs every step with unscripted agents succeeding", async () => {
+    const report = await simulateWorkflow(feature, { raciMatrix: raci, resolveWorkflow: noWorkflows });
+
+    expect(report.status).toBe("completed");
+    expect(report.dispatches.map(d => d.agent)).toEqual(["strategy", "dev", "critic", "ops"]);
+    expect(report.events[0].type).toBe("workflow.started");
+    expect(report.events.at(-1)?.type).toBe("workflow.completed");
+    expect(report.escalations).toEqual([]);
+    expect(report.steps_not_run).toEqual([]);
+    expect(report.validation_errors).toEqual([]);
+  });
+
+  it("applies scripted outcomes in call order, including retries", async () => {
+    const report = await simulateWorkflow(feature, {
+      raciMatrix: raci,
+      resolveWorkflow: noWorkflows,
+      script: { dev: [{ outcome: "failure", error: "tests red" }, { outcome: "success", output: "fixed" }] },
+    });
+
+    expect(report.status).toBe("completed");
+    expect(report.dispatches.filter(d => d.agent === "dev").map(d => d.outcome)).toEqual(["failure", "success"]);
+    expect(report.events.some(e => e.message === "succeeded on retry")).toBe(true);
+  });
+
+  it("reports the RACI escalation target and the steps a failure leaves unrun", async () => {
+    const report = await simulateWorkflow(feature, {
+      raciMatrix: raci,
+      resolveWorkflow: noWorkflows,
+      script: { critic: { outcome: "timeout" } },
+    });
+
+    expect(report.status).toBe("failed");
+    expect(report.events.some(e => e.type === "workflow.step_timeout" && e.step === 2)).toBe(true);
+    expect(report.escalations).toEqual([expect.objectContaining({ step: 2, agent: "critic", target: "strategy" })]);
+    expect(report.escalations[0].message).toContain("Escalated to strategy");
+    expect(report.steps_not_run).toEqual([3]);
+    expect(report.raci_defined).toBe(true);
+  });
+
+  it("flags workflows missing from the RACI matrix", async () => {
+    const report = await simulateWorkflow({ ...feature, name: "unlisted" }, { raciMatrix: raci, resolveWorkflow: noWorkflows });
+    expect(report.raci_defined).toBe(false);
+    expect(report.escalation_target).toBe("Dave");
+  });
+
+  it("includes config validation errors", async () => {
+    const report = await simulateWorkflow(
+      { name: "odd", description: "", steps: [step("intern")] },
+      { raciMatrix: raci, resolveWorkflow: noWorkflows },
+    );
+    expect(report.validation_errors).toEqual([{ field: "steps[0].agent", message: 'Unknown agent "intern"' }]);
+  });
+
+  it("simulates composite steps through the engine", async () => {
+    const review: WorkflowConfig = { name: "review", description: "", steps: [step("critic")] };
+    const config: WorkflowConfig = {
+      name: "looped",
+      description: "",
+      steps: [{ ...step(""), kind: "loop", workflow: "review", max_iterations: 2, until_output_matches: "approved" }],
+    };
+    const report = await simulateWorkflow(config, {
+      raciMatrix: raci,
+      resolveWorkflow: name => (name === "review" ? review : null),
+      script: { critic: [{ outcome: "success", output: "needs work" }, { outcome: "success", output: "Approved" }] },
+    });
+
+    expect(report.status).toBe("completed");
+    expect(report.events.filter(e => e.type === "workflow.loop_iteration")).toHaveLength(2);
+    expect(report.dispatches.map(d => d.path)).toEqual(["steps[0]<review>.steps[0]", "steps[0]<review>.steps[0]"]);
+  });
+
+  it("scripts two steps that share an agent by step path", async () => {
+    const config: WorkflowConfig = {
+      name: "feature",
+      description: "",
+      steps: [step("dev", { instruction: "implement" }), step("critic"), step("dev", { instruction: "fix review notes" })],
+    };
+    const report = await simulateWorkflow(config, {
+      raciMatrix: raci,
+      resolveWorkflow: noWorkflows,
+      script: { "steps[2]": { outcome: "failure", error: "merge conflict" }, dev: { outcome: "success", output: "built" } },
+    });
+
+    expect(report.status).toBe("failed");
+    expect(report.dispatches.map(d => [d.path, d.agent, d.outcome])).toEqual([
+      ["steps[0]", "dev", "success"],
+      ["steps[1]", "critic", "success"],
+      ["steps[2]", "dev", "failure"],
+    ]);
+    expect(report.escalations).toEqual([expect.objectContaining({ step: 2, agent: "dev" })]);
+  });
+
+  it("keys steps inside parallel branches by branch and position", async () => {
+    const config: WorkflowConfig = {
+      name: "fanout",
+      description: "",
+      steps: [{ ...step(""), kind: "parallel", branches: [[step("research")], [step("research"), step("finance")]] }],
+    };
+    const report = await simulateWorkflow(config, {
+      raciMatrix: raci,
+      resolveWorkflow: noWorkflows,
+      script: { "steps[0].branches[1][0]": { outcome: "failure" } },
+    });
+
+    expect(report.status).toBe("failed");
+    const outcomes = Object.fromEntries(report.dispatches.map(d => [d.path, d.outcome]));
+    expect(outcomes).toEqual({ "steps[0].branches[0][0]": "success", "steps[0].branches[1][0]": "failure" });
+  });
+});
+
+describe("analyzeSteps", () => {
+  it("finds dead ends and the steps behind them", async () => {
+    const config: WorkflowConfig = {
+      name: "broken",
+      description: "",
+      steps: [
+        step("dev"),
+        { ...step(""), kind: "subworkflow", workflow: "missing" },
+        step("critic"),
+        step("ops"),
+      ],
+    };
+    const { deadEnds, unreachable } = await analyzeSteps(config, noWorkflows);
+
+    expect(deadEnds).toEqual([{ path: "steps[1]", reason: 'Unknown workflow "missing"' }]);
+    expect(unreachable.map(u => u.path)).toEqual(["steps[2]", "steps[3]"]);
+  });
+
+  it("does not block on a skippable dead end", async () => {
+    const config: WorkflowConfig = {
+      name: "lenient",
+      description: "",
+      steps: [{ ...step(""), kind: "parallel", on_failure: "skip" }, step("ops")],
+    };
+    const { deadEnds, unreachable } = await analyzeSteps(config, noWorkflows);
+    expect(deadEnds[0].reason).toBe("Parallel step has no branches");
+    expect(unreachable).toEqual([]);
+  });
+
+  it("detects recursive subworkflows", async () => {
+    const a: WorkflowConfig = { name: "a", description: "", steps: [{ ...step(""), kind: "subworkflow", workflow: "b" }] };
+    const b: WorkflowConfig = { name: "b", description: "", steps: [{ ...step(""), kind: "subworkflow", workflow: "a" }] };
+    const { deadEnds } = await analyzeSteps(a, name => ({ a, b })[name] ?? null);
+    expect(deadEnds.map(d => d.reason)).toContain("Recursive workflow: a → b → a");
+  });
+
+  it("flags loops that can never exit", async () => {
+    const config: WorkflowConfig = {
+      name: "spin",
+      description: "",
+      steps: [{ ...step(""), kind: "loop", steps: [step("dev")] }],
+    };
+    const { deadEnds } = await analyzeSteps(config, noWorkflows);
+    expect(deadEnds[0].reason).toBe("Loop has no exit condition and fails when exhausted");
+  });
+
+  it("only fails an any-join when every branch dead-ends", async () => {
+    const parallel = (join: "any" | "all"): WorkflowConfig => ({
+      name: "fan",
+      description: "",
+      steps: [{ ...step(""), kind: "parallel", join, workflows: ["missing", "present"] }],
+    });
+    const present: WorkflowConfig = { name: "present", description: "", steps: [step("research")] };
+    const resolve = (name: string) => (name === "present" ? present : null);
+
+    expect((await analyzeSteps(parallel("any"), resolve)).deadEnds).toEqual([]);
+    expect((await analyzeSteps(parallel("all"), resolve)).deadEnds[0].reason).toContain('Join "all" cannot be met');
+  });
+});
+
+describe("POST /api/workflows/simulate", () => {
+  async function post(body: unknown): Promise<{ status: number; json: Record<string, unknown> }> {
+    const req = Object.assign(new EventEmitter(), { method: "POST" }) as unknown as IncomingMessage;
+    let status = 0;
+    let payload = "";
+    const res = {
+      writeHead(code: number) { status = code; },
+      end(data: string) { payload = data; },
+    } as unknown as ServerResponse;
+
+    const handled = handleWorkflowsRoute(req, res, new URL("http://localhost/api/workflows/simulate"));
+    queueMicrotask(() => {
+      req.emit("data", Buffer.from(JSON.stringify(body)));
+      req.emit("end");
+    });
+    expect(await handled).toBe(true);
+    return { status, json: JSON.parse(payload) };
+  }
+
+  it("simulates a YAML definition", async () => {
+    const yaml = `name: quick
+description: One step
+steps:
+  - agent: dev
+    action: none
+    instruction: build it
+`;
+    const { status, json } = await post({ yaml, script: { dev: { outcome: "failure", error: "no" } } });
+    expect(status).toBe(200);
+    expect(json.status).toBe("failed");
+    expect(json.workflow).toBe("quick");
+  });
+
+  it("rejects a malformed script", async () => {
+    const { status, json } = await post({ config: feature, script: { dev: { outcome: "maybe" } } });
+    expect(status).toBe(400);
+    expect(json.error).toContain("outcome must be");
+  });
+
+  it("requires exactly one definition source", async () => {
+    const { status } = await post({ config: feature, workflow: "feature" });
+    expect(status).toBe(400);
+  });
+
+  it("ignores other paths", async () => {
+    const req = { method: "GET" } as IncomingMessage;
+    expect(await handleWorkflowsRoute(req, {} as ServerResponse, new URL("http://localhost/api/workflows/simulate"))).toBe(false);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * X12 Envelope Layer Tests
+ *
+ * - Delimiter detection and tokenizing
+ * - Envelope parsing: control numbers, counts, header/trailer pairing
+ * - Control-number allocation
+ * - Envelope building
+ * - Loop hierarchy validation and HL checks
+ * - 999 / TA1 acknowledgement parsing (fixtures in tests/fixtures/x12)
+ * - 999 building
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  detectDelimiters,
+  tokenizeX12,
+  parseX12,
+  createControlNumberAllocator,
+  buildInterchange,
+  formatSegment,
+  sanitizeElement,
+  parseLoops,
+  validateHierarchy,
+  formatX12Issue,
+  type TransactionSpec,
+  type X12Transaction,
+} from "../src/x12.ts";
+import { parseAcknowledgements, parse999, parseTA1, build999 } from "../src/x12-ack.ts";
+
+const fixture = (name: string) => readFileSync(join(import.meta.dir, "fixtures/x12", name), "utf-8");
+
+function envelope(body: string[][], start = 0) {
+  return buildInterchange([{ id: "837", segments: body }], {
+    sender: { qualifier: "ZZ", id: "SENDER" },
+    receiver: { qualifier: "ZZ", id: "RECEIVER" },
+    functional_id: "HC",
+    implementation: "005010X222A1",
+    controlNumbers: createControlNumberAllocator({ interchange: start, group: start }),
+    date: new Date("2026-03-16T09:30:00Z"),
+  });
+}
+
+// ── Delimiters ──────────────────────────────────────────────
+
+describe("detectDelimiters", () => {
+  test("reads the default delimiters from ISA", () => {
+    expect(detectDelimiters(fixture("837p-claim.edi"))).toEqual({ element: "*", component: ":", repetition: "^", segment: "~" });
+  });
+
+  test("reads non-default delimiters", () => {
+    expect(detectDelimiters(fixture("835-pipe-delimited.edi"))).toEqual({ element: "|", component: ">", repetition: "^", segment: "~" });
+  });
+
+  test("returns null without a complete ISA", () => {
+    expect(detectDelimiters("CLP*1*1~")).toBeNull();
+    expect(detectDelimiters("ISA*test~")).toBeNull();
+  });
+
+  test("tokenizes segments with positions, ignoring line breaks", () => {
+    const segments = tokenizeX12("ST*837*0001~\nBHT*0019~\r\nSE*3*0001~");
+    expect(segments.map(s => [s.id, s.position])).toEqual([["ST", 1], ["BHT", 2], ["SE", 3]]);
+    expect(segments[0].elements).toEqual(["ST", "837", "0001"]);
+  });
+});
+
+// ── Envelope parsing ────────────────────────────────────────
+
+describe("parseX12", () => {
+  test("parses a valid interchange into groups and transactions", () => {
+    const { interchange, issues } = parseX12(fixture("837p-claim.edi"));
+    expect(issues).toEqual([]);
+    expect(interchange!.sender).toEqual({ qualifier: "ZZ", id: "ELLIEBILLING" });
+    expect(interchange!.control_number).toBe("000000042");
+    expect(interchange!.groups).toHaveLength(1);
+    const [group] = interchange!.groups;
+    expect(group.functional_id).toBe("HC");
+    expect(group.control_number).toBe("42");
+    expect(group.transactions.map(t => [t.id, t.control_number, t.implementation])).toEqual([["837", "0001", "005010X222A1"]]);
+    expect(group.transactions[0].segments.at(-1)!.id).toBe("SE");
+  });
+
+  test("parses interchanges with non-default delimiters", () => {
+    const { interchange, issues } = parseX12(fixture("835-pipe-delimited.edi"));
+    expect(issues).toEqual([]);
+    expect(interchange!.groups[0].transactions[0].id).toBe("835");
+  });
+
+  test("reports count and control-number mismatches with positions", () => {
+    const { issues } = parseX12(fixture("837p-invalid.edi"));
+    expect(issues.map(i => [i.code, i.segment_id, i.element])).toEqual([
+      ["COUNT_MISMATCH", "SE", 1],
+      ["CONTROL_NUMBER_MISMATCH", "GE", 2],
+    ]);
+    const se = issues[0];
+    expect(se.transaction).toBe("0001");
+    expect(se.position).toBe(21);
+  });
+
+  test("reports missing trailers", () => {
+    const raw = envelope([["BHT", "0019"]]).edi.split("\n").filter(l => !l.startsWith("SE") && !l.startsWith("IEA")).join("\n");
+    const codes = parseX12(raw).issues.map(i => i.code);
+    expect(codes).toContain("MISSING_SE");
+    expect(codes).toContain("MISSING_IEA");
+  });
+
+  test("rejects input without an ISA", () => {
+    const result = parseX12("ST*837*0001~SE*2*0001~");
+    expect(result.interchange).toBeNull();
+    expect(result.issues[0].code).toBe("MISSING_ISA");
+  });
+
+  test("flags ISA fields of the wrong width", () => {
+    const raw = envelope([]).edi.replace("SENDER         ", "SENDER");
+    const { issues } = parseX12(raw);
+    expect(issues.some(i => i.code === "INVALID_ISA" && i.element === 6)).toBe(true);
+  });
+});
+
+// ── Control numbers ─────────────────────────────────────────
+
+describe("createControlNumberAllocator", () => {
+  test("pads ISA13 to 9 digits and ST02 to 4", () => {
+    const numbers = createControlNumberAllocator();
+    expect(numbers.next("interchange")).toBe("000000001");
+    expect(numbers.next("group")).toBe("1");
+    expect(numbers.next("transaction")).toBe("0001");
+    expect(numbers.next("transaction")).toBe("0002");
+  });
+
+  test("resumes from persisted state and wraps after 999999999", () => {
+    const numbers = createControlNumberAllocator({ interchange: 999_999_998, transaction: 41 });
+    expect(numbers.next("interchange")).toBe("999999999");
+    expect(numbers.next("interchange")).toBe("000000001");
+    expect(numbers.next("transaction")).toBe("0042");
+    expect(numbers.state()).toEqual({ interchange: 1, group: 0, transaction: 42 });
+  });
+});
+
+// ── Building ────────────────────────────────────────────────
+
+describe("buildInterchange", () => {
+  test("computes counts and control numbers that parse back cleanly", () => {
+    const built = envelope([["BHT", "0019", "00", "REF1", "20260316", "0930", "CH"]], 99);
+    expect(built.interchange_control_number).toBe("000000100");
+    expect(built.group_control_number).toBe("100");
+    expect(built.transaction_control_numbers).toEqual(["0001"]);
+    expect(built.edi).toContain("SE*3*0001~");
+    expect(built.edi).toContain("GE*1*100~");
+    expect(built.edi).toContain("IEA*1*000000100~");
+    expect(built.edi.split("\n")[0]).toHaveLength(106);
+    expect(parseX12(built.edi).issues).toEqual([]);
+  });
+
+  test("drops trailing empty elements and strips delimiters from values", () => {
+    expect(formatSegment(["NM1", "IL", "1", "Doe", "", "", ""])).toBe("NM1*IL*1*Doe~");
+    expect(sanitizeElement("O'Brien*Smith~Jr:^")).toBe("O'Brien Smith Jr  ");
+  });
+});
+
+// ── Loops ───────────────────────────────────────────────────
+
+const SPEC: TransactionSpec = {
+  id: "837",
+  implementation: "005010X222A1",
+  header: [{ id: "BHT", required: true }],
+  loops: [
+    {
+      id: "2000",
+      name: "Level",
+      trigger: { id: "HL" },
+      required: true,
+      loops: [
+        {
+          id: "2300",
+          name: "Claim",
+          trigger: { id: "CLM", elements: [{ position: 2, name: "Amount", required: true, pattern: /^\d+(\.\d{2})?$/ }] },
+          max: 2,
+          segments: [{ id: "HI", required: true }, { id: "DTP", max: 2 }],
+          loops: [{ id: "2400", name: "Line", trigger: { id: "LX" }, segments: [{ id: "SV1", required: true }] }],
+        },
+      ],
+    },
+  ],
+};
+
+function tx(lines: string[]): X12Transaction {
+  const segments = tokenizeX12(lines.join("~") + "~");
+  return { id: "837", control_number: "0001", implementation: null, segments };
+}
+
+describe("parseLoops", () => {
+  test("nests segments into loops", () => {
+    const result = parseLoops(tx(["ST*837*0001", "BHT*0019", "HL*1**20*0", "CLM*A*10.00", "HI*ABK:J069", "LX*1", "SV1*HC:99213", "LX*2", "SV1*HC:99214", "SE*9*0001"]), SPEC);
+    expect(result.issues).toEqual([]);
+    expect(result.header.map(s => s.id)).toEqual(["BHT"]);
+    const claim = result.loops[0].loops[0];
+    expect(claim.id).toBe("2300");
+    expect(claim.segments.map(s => s.id)).toEqual(["CLM", "HI"]);
+    expect(claim.loops.map(l => l.segments.map(s => s.elements.join("*")))).toEqual([["LX*1", "SV1*HC:99213"], ["LX*2", "SV1*HC:99214"]]);
+  });
+
+  test("reports unexpected, missing, repeated and invalid segments with loop and position", () => {
+    const result = parseLoops(tx([
+      "ST*837*0001", "BHT*0019", "HL*1**20*0",
+      "CLM*A*abc", "DTP*1", "DTP*2", "DTP*3", "LX*1", "SV1*HC:1",
+      "CLM*B*1.00", "HI*X", "LX*1", "FOO*1",
+      "CLM*C*1.00", "HI*X",
+      "SE*16*0001",
+    ]), SPEC);
+    expect(result.issues.map(i => [i.code, i.segment_id, i.loop, i.position])).toEqual([
+      ["INVALID_ELEMENT", "CLM", "2300", 4],
+      ["SEGMENT_REPEAT_EXCEEDED", "DTP", "2300", 7],
+      ["MISSING_SEGMENT", "HI", "2300", 4],
+      ["UNEXPECTED_SEGMENT", "FOO", "2400", 13],
+      ["MISSING_SEGMENT", "SV1", "2400", 12],
+      ["LOOP_REPEAT_EXCEEDED", "CLM", "2300", 14],
+    ]);
+    expect(result.issues[0].element).toBe(2);
+    expect(formatX12Issue(result.issues[0])).toBe('CLM #4 loop 2300: CLM02 (Amount) has invalid value "abc"');
+  });
+
+  test("reports missing required loops and header segments", () => {
+    const result = parseLoops(tx(["ST*837*0001", "SE*2*0001"]), SPEC);
+    expect(result.issues.map(i => i.code)).toEqual(["MISSING_SEGMENT", "MISSING_LOOP"]);
+  });
+});
+
+describe("validateHierarchy", () => {
+  test("accepts a well-formed HL tree", () => {
+    expect(validateHierarchy(tx(["ST*837*0001", "HL*1**20*1", "HL*2*1*22*1", "HL*3*2*23*0", "SE*5*0001"]))).toEqual([]);
+  });
+
+  test("flags numbering, dangling parents and wrong child codes", () => {
+    const issues = validateHierarchy(tx(["ST*837*0001", "HL*1**20*0", "HL*3*7*22*0", "SE*4*0001"]));
+    expect(issues.map(i => [i.element, i.position])).toEqual([[1, 3], [2, 3]]);
+    const childCode = validateHierarchy(tx(["ST*837*0001", "HL*1**20*0", "HL*2*1*22*0", "SE*4*0001"]));
+    expect(childCode.map(i => [i.element, i.position, i.message])).toEqual([[4, 2, "HL04 should be 1"]]);
+  });
+});
+
+// ── Acknowledgements ────────────────────────────────────────
+
+describe("parse999", () => {
+  test("parses an accepted 999", () => {
+    const [ack] = parse999(fixture("999-accepted.edi"));
+    expect(ack.functional_id).toBe("HC");
+    expect(ack.group_control_number).toBe("42");
+    expect(ack.group_status).toBe("A");
+    expect([ack.included, ack.received, ack.accepted_count]).toEqual([1, 1, 1]);
+    expect(ack.transactions).toEqual([{
+      transaction_id: "837",
+      control_number: "0001",
+      implementation: "005010X222A1",
+      status: "A",
+      accepted: true,
+      codes: [],
+      errors: [],
+    }]);
+  });
+
+  test("parses segment and element errors from a rejected 999", () => {
+    const result = parseAcknowledgements(fixture("999-rejected.edi"));
+    expect(result.issues).toEqual([]);
+    expect(result.interchange_control_number).toBe("000000902");
+    const [ack] = result.acks;
+    expect(ack.group_status).toBe("R");
+    expect(ack.accepted_count).toBe(0);
+    const [tx] = ack.transactions;
+    expect(tx.accepted).toBe(false);
+    expect(tx.codes).toEqual(["5"]);
+    expect(tx.errors).toEqual([
+      {
+        segment_id: "CLM", position: 13, loop: "2300", code: "8", description: "Segment has data element errors",
+        elements: [{ position: 2, component: null, reference: "782", code: "6", description: "Invalid character in data element", bad_value: "18X.00" }],
+      },
+      { segment_id: "HI", position: 14, loop: "2300", code: "3", description: "Required segment missing", elements: [] },
+    ]);
+  });
+});
+
+describe("build999", () => {
+  const ackOptions = { controlNumbers: createControlNumberAllocator({ interchange: 900 }), date: new Date("2026-03-16T09:35:00Z") };
+
+  test("accepts a clean interchange, addressed back to its sender", () => {
+    const edi = fixture("837p-claim.edi");
+    const { interchange } = parseX12(edi);
+    const built = build999(interchange!, [], ackOptions);
+    const ack = parseAcknowledgements(built.edi);
+    expect(ack.issues).toEqual([]);
+    expect(ack.acks[0].group_control_number).toBe("42");
+    expect(ack.acks[0].transactions.map(t => [t.control_number, t.status])).toEqual([["0001", "A"]]);
+    expect(built.edi).toStartWith("ISA*00*          *00*          *ZZ*AVAILITY       *ZZ*ELLIEBILLING   *");
+  });
+
+  test("turns transaction issues into IK3/IK4 errors that parse back", () => {
+    const { interchange } = parseX12(fixture("837p-claim.edi"));
+    const built = build999(interchange!, [
+      { code: "INVALID_ELEMENT", message: "bad", segment_id: "CLM", position: 13, element: 2, loop: "2300", transaction: "0001" },
+      { code: "MISSING_SEGMENT", message: "missing", segment_id: "HI", position: 14, loop: "2300", transaction: "0001" },
+    ], ackOptions);
+    const [ack] = parse999(built.edi);
+    expect(ack.group_status).toBe("R");
+    expect(ack.accepted_count).toBe(0);
+    const [tx] = ack.transactions;
+    expect(tx.codes).toEqual(["5"]);
+    expect(tx.errors.map(e => [e.segment_id, e.position, e.loop, e.code])).toEqual([["CLM", 13, "2300", "8"], ["HI", 14, "2300", "3"]]);
+    expect(tx.errors[0].elements[0].code).toBe("7");
+  });
+
+  test("envelope issues reject the whole group", () => {
+    const { interchange } = parseX12(fixture("837p-claim.edi"));
+    const built = build999(interchange!, [{ code: "COUNT_MISMATCH", message: "GE01", segment_id: "GE", position: 40 }], ackOptions);
+    const [ack] = parse999(built.edi);
+    expect(ack.group_status).toBe("R");
+    expect(ack.transactions[0].status).toBe("R");
+  });
+});
+
+describe("parseTA1", () => {
+  test("parses an interchange rejection", () => {
+    expect(parseTA1(fixture("ta1-rejected.edi"))).toEqual([{
+      control_number: "000000042",
+      date: "260316",
+      time: "0930",
+      ack_code: "R",
+      accepted: false,
+      note_code: "025",
+      note: "Duplicate interchange control number",
+    }]);
+  });
+
+  test("an interchange with only a TA1 has no envelope issues", () => {
+    expect(parseAcknowledgements(fixture("ta1-rejected.edi")).issues).toEqual([]);
+  });
+});